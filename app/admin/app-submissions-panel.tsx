@@ -0,0 +1,332 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { motion } from "framer-motion";
+import {
+  Loader2,
+  AlertCircle,
+  AppWindow,
+  RefreshCw,
+  Check,
+  GitMerge,
+  Ban,
+} from "lucide-react";
+import type {
+  AppSubmissionAction,
+  AppSubmissionStatus,
+  AppSubmissionSummary,
+} from "@/lib/app-submissions";
+
+const STATUS_STYLES: Record<AppSubmissionStatus, string> = {
+  pending: "bg-amber-500/20 text-amber-400",
+  approved: "bg-emerald-500/20 text-emerald-400",
+  merged: "bg-cyan-500/20 text-cyan-400",
+  rejected: "bg-zinc-800 text-zinc-400",
+};
+
+const shortAddress = (address: string) =>
+  `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+interface AppOption {
+  id: string;
+  name: string;
+}
+
+function AppSubmissionRow({
+  submission,
+  apps,
+  onReviewed,
+}: {
+  submission: AppSubmissionSummary;
+  apps: AppOption[];
+  onReviewed: (submission: AppSubmissionSummary) => void;
+}) {
+  const [note, setNote] = useState("");
+  const [mergeInto, setMergeInto] = useState("");
+  const [pendingAction, setPendingAction] =
+    useState<AppSubmissionAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const review = async (action: AppSubmissionAction) => {
+    setPendingAction(action);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/admin/app-submissions/${submission.id}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            action,
+            note,
+            appSlug: action === "merge" ? mergeInto : undefined,
+          }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to review submission");
+      }
+
+      onReviewed(data.submission);
+    } catch (err) {
+      console.error("Review app submission error:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to review submission"
+      );
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  return (
+    <div className="px-6 py-4 space-y-3">
+      <div className="flex items-start gap-4">
+        <Image
+          src={`/api/admin/app-submissions/${submission.id}/icon`}
+          alt={submission.name}
+          width={48}
+          height={48}
+          unoptimized
+          className="w-12 h-12 rounded-xl object-cover bg-zinc-900 border border-zinc-800 shrink-0"
+        />
+        <div className="min-w-0 space-y-1">
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+            <span
+              className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[submission.status]}`}
+            >
+              {submission.status}
+            </span>
+            <span className="text-white font-medium">{submission.name}</span>
+            <a
+              href={submission.siteUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-zinc-400 hover:text-cyan-400 transition-colors break-all"
+            >
+              {submission.siteUrl}
+            </a>
+            <Link
+              href={`/profile/${submission.submitterAddress}`}
+              className="font-mono text-zinc-400 hover:text-cyan-400 transition-colors"
+            >
+              {shortAddress(submission.submitterAddress)}
+            </Link>
+            <span className="text-zinc-500 text-xs">
+              {new Date(submission.createdAt).toLocaleString()}
+            </span>
+            {submission.appSlug && (
+              <Link
+                href={`/app/${submission.appSlug}`}
+                className="text-cyan-400 hover:text-cyan-300 transition-colors text-xs"
+              >
+                /app/{submission.appSlug}
+              </Link>
+            )}
+          </div>
+          <p className="text-sm text-zinc-300 whitespace-pre-wrap break-words">
+            {submission.description}
+          </p>
+        </div>
+      </div>
+
+      {submission.status === "pending" ? (
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Review note (shown to the submitter)"
+            className="flex-1 min-w-48 px-3 py-2 bg-zinc-900 border border-zinc-800 rounded-lg text-sm text-zinc-100 placeholder-zinc-500 focus:outline-none focus:border-cyan-500/50"
+          />
+          <button
+            onClick={() => review("approve")}
+            disabled={!!pendingAction}
+            className="px-3 py-2 rounded-lg bg-emerald-500/20 border border-emerald-500/50 hover:bg-emerald-500/30 transition-colors cursor-pointer disabled:opacity-50 flex items-center gap-2 text-emerald-400 text-sm font-medium"
+          >
+            {pendingAction === "approve" ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Check className="w-4 h-4" />
+            )}
+            Approve
+          </button>
+          <select
+            value={mergeInto}
+            onChange={(e) => setMergeInto(e.target.value)}
+            className="w-48 px-3 py-2 bg-zinc-900 border border-zinc-800 rounded-lg text-sm text-zinc-100 focus:outline-none focus:border-cyan-500/50"
+          >
+            <option value="">Merge into...</option>
+            {apps.map((app) => (
+              <option key={app.id} value={app.id}>
+                {app.name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => review("merge")}
+            disabled={!!pendingAction || !mergeInto}
+            className="px-3 py-2 rounded-lg bg-cyan-500/20 border border-cyan-500/50 hover:bg-cyan-500/30 transition-colors cursor-pointer disabled:opacity-50 flex items-center gap-2 text-cyan-400 text-sm font-medium"
+          >
+            {pendingAction === "merge" ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <GitMerge className="w-4 h-4" />
+            )}
+            Merge
+          </button>
+          <button
+            onClick={() => review("reject")}
+            disabled={!!pendingAction}
+            className="px-3 py-2 rounded-lg bg-zinc-900 border border-zinc-800 hover:border-zinc-700 transition-colors cursor-pointer disabled:opacity-50 flex items-center gap-2 text-zinc-400 hover:text-zinc-100 text-sm font-medium"
+          >
+            <Ban className="w-4 h-4" />
+            Reject
+          </button>
+        </div>
+      ) : (
+        submission.reviewNote && (
+          <p className="text-xs text-zinc-500">
+            Review: {submission.reviewNote}
+          </p>
+        )
+      )}
+
+      {error && (
+        <div className="px-3 py-2 bg-red-500/10 border border-red-500/30 rounded-lg flex items-center gap-2 text-red-400">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          <span className="text-sm">{error}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function AppSubmissionsPanel() {
+  const [submissions, setSubmissions] = useState<AppSubmissionSummary[]>([]);
+  const [apps, setApps] = useState<AppOption[]>([]);
+  const [showReviewed, setShowReviewed] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSubmissions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const query = showReviewed ? "" : "?status=pending";
+      const [submissionsResponse, appsResponse] = await Promise.all([
+        fetch(`/api/admin/app-submissions${query}`),
+        fetch("/api/apps"),
+      ]);
+
+      const data = await submissionsResponse.json();
+      const appsData = await appsResponse.json();
+
+      if (!submissionsResponse.ok) {
+        throw new Error(data.error || "Failed to fetch app submissions");
+      }
+
+      setSubmissions(data.submissions);
+      setApps(
+        ((appsData.apps ?? []) as AppOption[])
+          .map(({ id, name }) => ({ id, name }))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+    } catch (err) {
+      console.error("Fetch app submissions error:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to fetch app submissions"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showReviewed]);
+
+  useEffect(() => {
+    fetchSubmissions();
+  }, [fetchSubmissions]);
+
+  const handleReviewed = (reviewed: AppSubmissionSummary) => {
+    setSubmissions((prev) =>
+      showReviewed
+        ? prev.map((s) => (s.id === reviewed.id ? reviewed : s))
+        : prev.filter((s) => s.id !== reviewed.id)
+    );
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mt-12"
+    >
+      <div className="flex items-center justify-between flex-wrap gap-4 mb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white mb-1 flex items-center gap-2">
+            <AppWindow className="w-6 h-6 text-cyan-400" />
+            App Submissions
+          </h2>
+          <p className="text-zinc-400 text-sm">
+            Apps proposed by users. Approve adds the app to /apps; merge makes
+            the name another name of an existing app.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-zinc-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showReviewed}
+              onChange={(e) => setShowReviewed(e.target.checked)}
+              className="accent-cyan-500"
+            />
+            Show reviewed
+          </label>
+          <button
+            onClick={fetchSubmissions}
+            disabled={isLoading}
+            className="px-4 py-2.5 rounded-lg bg-zinc-900 border border-zinc-800 hover:border-zinc-700 transition-colors cursor-pointer disabled:opacity-50 flex items-center gap-2 text-zinc-400 hover:text-zinc-100"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`} />
+            <span className="text-sm font-medium">Refresh</span>
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 px-4 py-3 bg-red-500/10 border border-red-500/30 rounded-lg flex items-center gap-2 text-red-400">
+          <AlertCircle className="w-5 h-5 shrink-0" />
+          <span className="text-sm">{error}</span>
+        </div>
+      )}
+
+      <div className="rounded-xl bg-zinc-950 border border-zinc-800 overflow-hidden">
+        {submissions.length === 0 ? (
+          <p className="px-6 py-8 text-center text-zinc-500 text-sm">
+            {isLoading
+              ? "Loading app submissions..."
+              : showReviewed
+                ? "No app submissions yet."
+                : "No app submissions waiting for review."}
+          </p>
+        ) : (
+          <div className="divide-y divide-zinc-800/50">
+            {submissions.map((submission) => (
+              <AppSubmissionRow
+                key={submission.id}
+                submission={submission}
+                apps={apps}
+                onReviewed={handleReviewed}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
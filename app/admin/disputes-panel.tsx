@@ -0,0 +1,297 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import {
+  Loader2,
+  AlertCircle,
+  AlertTriangle,
+  RefreshCw,
+  Undo2,
+  Ban,
+} from "lucide-react";
+import { TxReceiptLink } from "@/app/components/TxReceiptLink";
+import {
+  DISPUTE_REASON_LABELS,
+  type DisputeStatus,
+  type DisputeSummary,
+} from "@/lib/disputes";
+
+const STATUS_STYLES: Record<DisputeStatus, string> = {
+  open: "bg-amber-500/20 text-amber-400",
+  refunded: "bg-emerald-500/20 text-emerald-400",
+  rejected: "bg-zinc-800 text-zinc-400",
+};
+
+const shortAddress = (address: string) =>
+  `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+function DisputeRow({
+  dispute,
+  onResolved,
+}: {
+  dispute: DisputeSummary;
+  onResolved: (dispute: DisputeSummary) => void;
+}) {
+  const [note, setNote] = useState("");
+  const [refundTxHash, setRefundTxHash] = useState("");
+  const [isResolving, setIsResolving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const resolve = async (outcome: "refunded" | "rejected") => {
+    setIsResolving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/admin/disputes/${dispute.id}/resolve`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            outcome,
+            note,
+            refundTxHash: outcome === "refunded" ? refundTxHash : undefined,
+          }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to resolve dispute");
+      }
+
+      onResolved(data.dispute);
+    } catch (err) {
+      console.error("Resolve dispute error:", err);
+      setError(err instanceof Error ? err.message : "Failed to resolve dispute");
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <div className="px-6 py-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+        <span
+          className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[dispute.status]}`}
+        >
+          {dispute.status}
+        </span>
+        <span className="text-white font-medium">
+          {DISPUTE_REASON_LABELS[dispute.reason]}
+        </span>
+        <span className="text-cyan-400 font-medium">
+          ${dispute.priceUsdc.toFixed(2)}
+        </span>
+        <Link
+          href={`/listing/${dispute.listingSlug}`}
+          className="text-zinc-400 hover:text-cyan-400 transition-colors"
+        >
+          {dispute.listingSlug}
+        </Link>
+        <span className="font-mono text-zinc-400">
+          <Link
+            href={`/profile/${dispute.buyerAddress}`}
+            className="hover:text-cyan-400 transition-colors"
+          >
+            {shortAddress(dispute.buyerAddress)}
+          </Link>{" "}
+          →{" "}
+          <Link
+            href={`/profile/${dispute.sellerAddress}`}
+            className="hover:text-cyan-400 transition-colors"
+          >
+            {shortAddress(dispute.sellerAddress)}
+          </Link>
+        </span>
+        <span className="text-zinc-500 text-xs">
+          {new Date(dispute.createdAt).toLocaleString()}
+        </span>
+        <TxReceiptLink txHash={dispute.refundTxHash} label="Refund" />
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-3 text-sm">
+        <div className="p-3 rounded-lg bg-zinc-900/50 border border-zinc-800">
+          <p className="text-xs text-zinc-500 mb-1">Buyer</p>
+          <p className="text-zinc-300 whitespace-pre-wrap break-all">
+            {dispute.evidence}
+          </p>
+        </div>
+        <div className="p-3 rounded-lg bg-zinc-900/50 border border-zinc-800">
+          <p className="text-xs text-zinc-500 mb-1">Seller</p>
+          <p className="text-zinc-300 whitespace-pre-wrap break-all">
+            {dispute.sellerResponse || (
+              <span className="text-zinc-600">No response yet</span>
+            )}
+          </p>
+        </div>
+      </div>
+
+      {dispute.status === "open" ? (
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Resolution note (shown to both parties)"
+            className="flex-1 min-w-48 px-3 py-2 bg-zinc-900 border border-zinc-800 rounded-lg text-sm text-zinc-100 placeholder-zinc-500 focus:outline-none focus:border-cyan-500/50"
+          />
+          <input
+            type="text"
+            value={refundTxHash}
+            onChange={(e) => setRefundTxHash(e.target.value.trim())}
+            placeholder="Refund tx hash (optional)"
+            className="w-64 px-3 py-2 bg-zinc-900 border border-zinc-800 rounded-lg text-sm font-mono text-zinc-100 placeholder-zinc-500 focus:outline-none focus:border-cyan-500/50"
+          />
+          <button
+            onClick={() => resolve("refunded")}
+            disabled={isResolving}
+            className="px-3 py-2 rounded-lg bg-emerald-500/20 border border-emerald-500/50 hover:bg-emerald-500/30 transition-colors cursor-pointer disabled:opacity-50 flex items-center gap-2 text-emerald-400 text-sm font-medium"
+          >
+            {isResolving ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Undo2 className="w-4 h-4" />
+            )}
+            Refund
+          </button>
+          <button
+            onClick={() => resolve("rejected")}
+            disabled={isResolving}
+            className="px-3 py-2 rounded-lg bg-zinc-900 border border-zinc-800 hover:border-zinc-700 transition-colors cursor-pointer disabled:opacity-50 flex items-center gap-2 text-zinc-400 hover:text-zinc-100 text-sm font-medium"
+          >
+            <Ban className="w-4 h-4" />
+            Reject
+          </button>
+        </div>
+      ) : (
+        dispute.resolutionNote && (
+          <p className="text-xs text-zinc-500">
+            Resolution: {dispute.resolutionNote}
+          </p>
+        )
+      )}
+
+      {error && (
+        <div className="px-3 py-2 bg-red-500/10 border border-red-500/30 rounded-lg flex items-center gap-2 text-red-400">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          <span className="text-sm">{error}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function DisputesPanel() {
+  const [disputes, setDisputes] = useState<DisputeSummary[]>([]);
+  const [showResolved, setShowResolved] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDisputes = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const query = showResolved ? "" : "?status=open";
+      const response = await fetch(`/api/admin/disputes${query}`);
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch disputes");
+      }
+
+      setDisputes(data.disputes);
+    } catch (err) {
+      console.error("Fetch disputes error:", err);
+      setError(err instanceof Error ? err.message : "Failed to fetch disputes");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showResolved]);
+
+  useEffect(() => {
+    fetchDisputes();
+  }, [fetchDisputes]);
+
+  const handleResolved = (resolved: DisputeSummary) => {
+    setDisputes((prev) =>
+      showResolved
+        ? prev.map((d) => (d.id === resolved.id ? resolved : d))
+        : prev.filter((d) => d.id !== resolved.id)
+    );
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mt-12"
+    >
+      <div className="flex items-center justify-between flex-wrap gap-4 mb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white mb-1 flex items-center gap-2">
+            <AlertTriangle className="w-6 h-6 text-amber-400" />
+            Disputes
+          </h2>
+          <p className="text-zinc-400 text-sm">
+            Buyer reports of invites that didn&apos;t work. Refund the buyer
+            from the seller&apos;s proceeds before marking a dispute refunded.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-zinc-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showResolved}
+              onChange={(e) => setShowResolved(e.target.checked)}
+              className="accent-cyan-500"
+            />
+            Show resolved
+          </label>
+          <button
+            onClick={fetchDisputes}
+            disabled={isLoading}
+            className="px-4 py-2.5 rounded-lg bg-zinc-900 border border-zinc-800 hover:border-zinc-700 transition-colors cursor-pointer disabled:opacity-50 flex items-center gap-2 text-zinc-400 hover:text-zinc-100"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`} />
+            <span className="text-sm font-medium">Refresh</span>
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 px-4 py-3 bg-red-500/10 border border-red-500/30 rounded-lg flex items-center gap-2 text-red-400">
+          <AlertCircle className="w-5 h-5 shrink-0" />
+          <span className="text-sm">{error}</span>
+        </div>
+      )}
+
+      <div className="rounded-xl bg-zinc-950 border border-zinc-800 overflow-hidden">
+        {disputes.length === 0 ? (
+          <p className="px-6 py-8 text-center text-zinc-500 text-sm">
+            {isLoading
+              ? "Loading disputes..."
+              : showResolved
+                ? "No disputes yet."
+                : "No open disputes."}
+          </p>
+        ) : (
+          <div className="divide-y divide-zinc-800/50">
+            {disputes.map((dispute) => (
+              <DisputeRow
+                key={dispute.id}
+                dispute={dispute}
+                onResolved={handleResolved}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,358 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import {
+  Loader2,
+  AlertCircle,
+  Vault,
+  RefreshCw,
+  Send,
+  Undo2,
+  Search,
+} from "lucide-react";
+import { TxReceiptLink } from "@/app/components/TxReceiptLink";
+
+type EscrowStatus = "pending_release" | "releasing" | "refunding";
+
+interface EscrowEvent {
+  action: string;
+  actor: string;
+  txHash?: string;
+  note?: string;
+  at: string;
+}
+
+interface EscrowEntry {
+  id: string;
+  listingSlug: string;
+  buyerAddress: string;
+  sellerAddress: string;
+  priceUsdc: number;
+  txHash?: string;
+  escrowStatus: EscrowStatus;
+  escrowReleaseAt?: string;
+  disputeStatus?: string;
+  payoutTxHash?: string;
+  events: EscrowEvent[];
+  createdAt: string;
+}
+
+interface ReleaseReport {
+  dryRun: boolean;
+  due: number;
+  released: number;
+  failed: number;
+}
+
+const STATUS_STYLES: Record<EscrowStatus, string> = {
+  pending_release: "bg-cyan-500/20 text-cyan-400",
+  // A payout was sent but never confirmed - check the payout tx before acting
+  releasing: "bg-amber-500/20 text-amber-400",
+  refunding: "bg-amber-500/20 text-amber-400",
+};
+
+const shortAddress = (address: string) =>
+  `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+function EscrowRow({
+  escrow,
+  onPaidOut,
+}: {
+  escrow: EscrowEntry;
+  onPaidOut: (id: string) => void;
+}) {
+  const [note, setNote] = useState("");
+  const [pendingAction, setPendingAction] = useState<
+    "release" | "refund" | null
+  >(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const payout = async (action: "release" | "refund") => {
+    setPendingAction(action);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/escrow/${escrow.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, note }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Payout failed");
+      }
+
+      onPaidOut(escrow.id);
+    } catch (err) {
+      console.error("Escrow payout error:", err);
+      setError(err instanceof Error ? err.message : "Payout failed");
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const isDue =
+    !!escrow.escrowReleaseAt &&
+    new Date(escrow.escrowReleaseAt).getTime() <= Date.now();
+
+  return (
+    <div className="px-6 py-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+        <span
+          className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[escrow.escrowStatus]}`}
+        >
+          {escrow.escrowStatus.replace("_", " ")}
+        </span>
+        {escrow.disputeStatus === "open" && (
+          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-500/10 text-red-400">
+            disputed
+          </span>
+        )}
+        <span className="text-cyan-400 font-medium">
+          ${escrow.priceUsdc.toFixed(2)}
+        </span>
+        <Link
+          href={`/listing/${escrow.listingSlug}`}
+          className="text-zinc-400 hover:text-cyan-400 transition-colors"
+        >
+          {escrow.listingSlug}
+        </Link>
+        <span className="font-mono text-zinc-400">
+          {shortAddress(escrow.buyerAddress)} →{" "}
+          {shortAddress(escrow.sellerAddress)}
+        </span>
+        {escrow.escrowReleaseAt && (
+          <span
+            className={`text-xs ${isDue ? "text-emerald-400" : "text-zinc-500"}`}
+          >
+            {isDue ? "Due since" : "Releases"}{" "}
+            {new Date(escrow.escrowReleaseAt).toLocaleString()}
+          </span>
+        )}
+        <TxReceiptLink txHash={escrow.txHash} label="Payment" />
+        <TxReceiptLink txHash={escrow.payoutTxHash} label="Payout" />
+      </div>
+
+      {/* Audit trail */}
+      <ul className="space-y-1 text-xs text-zinc-500">
+        {escrow.events.map((event, index) => (
+          <li key={index} className="flex flex-wrap items-center gap-2">
+            <span className="text-zinc-400">
+              {new Date(event.at).toLocaleString()}
+            </span>
+            <span className="font-medium text-zinc-300">
+              {event.action.replace("_", " ")}
+            </span>
+            <span className="font-mono">
+              by{" "}
+              {event.actor === "system" ? "system" : shortAddress(event.actor)}
+            </span>
+            {event.note && <span>· {event.note}</span>}
+            <TxReceiptLink txHash={event.txHash} label="Tx" />
+          </li>
+        ))}
+      </ul>
+
+      {escrow.escrowStatus === "pending_release" && (
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note for the audit trail"
+            className="flex-1 min-w-48 px-3 py-2 bg-zinc-900 border border-zinc-800 rounded-lg text-sm text-zinc-100 placeholder-zinc-500 focus:outline-none focus:border-cyan-500/50"
+          />
+          <button
+            onClick={() => payout("release")}
+            disabled={!!pendingAction || escrow.disputeStatus === "open"}
+            title={
+              escrow.disputeStatus === "open"
+                ? "Resolve the dispute first"
+                : "Pay the seller now"
+            }
+            className="px-3 py-2 rounded-lg bg-emerald-500/20 border border-emerald-500/50 hover:bg-emerald-500/30 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 text-emerald-400 text-sm font-medium"
+          >
+            {pendingAction === "release" ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Send className="w-4 h-4" />
+            )}
+            Release
+          </button>
+          <button
+            onClick={() => payout("refund")}
+            disabled={!!pendingAction}
+            className="px-3 py-2 rounded-lg bg-zinc-900 border border-zinc-800 hover:border-zinc-700 transition-colors cursor-pointer disabled:opacity-50 flex items-center gap-2 text-zinc-400 hover:text-zinc-100 text-sm font-medium"
+          >
+            {pendingAction === "refund" ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Undo2 className="w-4 h-4" />
+            )}
+            Refund Buyer
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="px-3 py-2 bg-red-500/10 border border-red-500/30 rounded-lg flex items-center gap-2 text-red-400">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          <span className="text-sm">{error}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function EscrowPanel() {
+  const [escrows, setEscrows] = useState<EscrowEntry[]>([]);
+  const [report, setReport] = useState<ReleaseReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isReleasing, setIsReleasing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEscrows = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/admin/escrow");
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch escrows");
+      }
+
+      setEscrows(data.escrows);
+    } catch (err) {
+      console.error("Fetch escrows error:", err);
+      setError(err instanceof Error ? err.message : "Failed to fetch escrows");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEscrows();
+  }, [fetchEscrows]);
+
+  const releaseDue = async (dryRun: boolean) => {
+    setIsReleasing(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/admin/escrow/release-due", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ dryRun }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Release failed");
+      }
+
+      setReport(data.report);
+      if (!dryRun) {
+        await fetchEscrows();
+      }
+    } catch (err) {
+      console.error("Release due escrows error:", err);
+      setError(err instanceof Error ? err.message : "Release failed");
+    } finally {
+      setIsReleasing(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mt-12"
+    >
+      <div className="flex items-center justify-between flex-wrap gap-4 mb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white mb-1 flex items-center gap-2">
+            <Vault className="w-6 h-6 text-cyan-400" />
+            Escrow
+          </h2>
+          <p className="text-zinc-400 text-sm">
+            Escrowed payments waiting to be released to sellers.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={fetchEscrows}
+            disabled={isLoading}
+            className="px-4 py-2.5 rounded-lg bg-zinc-900 border border-zinc-800 hover:border-zinc-700 transition-colors cursor-pointer disabled:opacity-50 flex items-center gap-2 text-zinc-400 hover:text-zinc-100"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`} />
+            <span className="text-sm font-medium">Refresh</span>
+          </button>
+          <button
+            onClick={() => releaseDue(true)}
+            disabled={isReleasing}
+            className="px-4 py-2.5 rounded-lg bg-zinc-900 border border-zinc-800 hover:border-zinc-700 transition-colors cursor-pointer disabled:opacity-50 flex items-center gap-2 text-zinc-400 hover:text-zinc-100"
+          >
+            <Search className="w-4 h-4" />
+            <span className="text-sm font-medium">Dry Run</span>
+          </button>
+          <button
+            onClick={() => releaseDue(false)}
+            disabled={isReleasing || !report?.dryRun || report.due === 0}
+            className="px-4 py-2.5 rounded-lg bg-cyan-500/20 border border-cyan-500/50 hover:bg-cyan-500/30 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 text-cyan-400"
+            title="Run a dry run first to review the payouts"
+          >
+            {isReleasing ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Send className="w-4 h-4" />
+            )}
+            <span className="text-sm font-medium">Release Due</span>
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 px-4 py-3 bg-red-500/10 border border-red-500/30 rounded-lg flex items-center gap-2 text-red-400">
+          <AlertCircle className="w-5 h-5 shrink-0" />
+          <span className="text-sm">{error}</span>
+        </div>
+      )}
+
+      {report && (
+        <p className="mb-4 text-sm text-zinc-400">
+          {report.dryRun
+            ? `${report.due} ${report.due === 1 ? "purchase is" : "purchases are"} due for release.`
+            : `Released ${report.released} of ${report.due}${report.failed ? ` · ${report.failed} failed` : ""}.`}
+        </p>
+      )}
+
+      <div className="rounded-xl bg-zinc-950 border border-zinc-800 overflow-hidden">
+        {escrows.length === 0 ? (
+          <p className="px-6 py-8 text-center text-zinc-500 text-sm">
+            {isLoading ? "Loading escrows..." : "No payments held in escrow."}
+          </p>
+        ) : (
+          <div className="divide-y divide-zinc-800/50">
+            {escrows.map((escrow) => (
+              <EscrowRow
+                key={escrow.id}
+                escrow={escrow}
+                onPaidOut={(id) =>
+                  setEscrows((prev) => prev.filter((e) => e.id !== id))
+                }
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,370 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import {
+  Loader2,
+  AlertCircle,
+  Ticket,
+  RefreshCw,
+  Plus,
+  Copy,
+  Check,
+  Ban,
+} from "lucide-react";
+import type { WhitelistInviteSummary } from "@/lib/whitelist-invites";
+
+const shortAddress = (address: string) =>
+  `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export const getInviteUrl = (code: string) =>
+  `${window.location.origin}/invite/${code}`;
+
+function getInviteStatus(invite: WhitelistInviteSummary) {
+  if (invite.revokedAt) {
+    return { label: "revoked", style: "bg-red-500/10 text-red-400" };
+  }
+  if (invite.expiresAt && new Date(invite.expiresAt).getTime() <= Date.now()) {
+    return { label: "expired", style: "bg-zinc-500/10 text-zinc-400" };
+  }
+  if (
+    invite.maxRedemptions !== undefined &&
+    invite.redemptionCount >= invite.maxRedemptions
+  ) {
+    return { label: "used up", style: "bg-zinc-500/10 text-zinc-400" };
+  }
+  return { label: "active", style: "bg-emerald-500/10 text-emerald-400" };
+}
+
+export function CopyInviteLinkButton({ code }: { code: string }) {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(getInviteUrl(code));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <button
+      onClick={copy}
+      className="inline-flex items-center gap-1 text-xs text-zinc-400 hover:text-cyan-400 transition-colors cursor-pointer"
+      title="Copy invite link"
+    >
+      {copied ? (
+        <Check className="w-3.5 h-3.5 text-emerald-400" />
+      ) : (
+        <Copy className="w-3.5 h-3.5" />
+      )}
+      {copied ? "Copied" : "Copy link"}
+    </button>
+  );
+}
+
+function InviteRow({
+  invite,
+  onRevoked,
+}: {
+  invite: WhitelistInviteSummary;
+  onRevoked: (invite: WhitelistInviteSummary) => void;
+}) {
+  const [showRedemptions, setShowRedemptions] = useState(false);
+  const [confirmRevoke, setConfirmRevoke] = useState(false);
+  const [isRevoking, setIsRevoking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const status = getInviteStatus(invite);
+
+  const revoke = async () => {
+    setIsRevoking(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/invites/${invite.id}/revoke`, {
+        method: "POST",
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to revoke invite");
+      }
+
+      onRevoked(data.invite);
+    } catch (err) {
+      console.error("Revoke invite error:", err);
+      setError(err instanceof Error ? err.message : "Failed to revoke invite");
+    } finally {
+      setIsRevoking(false);
+      setConfirmRevoke(false);
+    }
+  };
+
+  return (
+    <div className="px-6 py-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+        <span
+          className={`px-2 py-0.5 rounded-full text-xs font-medium ${status.style}`}
+        >
+          {status.label}
+        </span>
+        <span className="font-mono text-zinc-100">{invite.code}</span>
+        {invite.label && <span className="text-zinc-300">{invite.label}</span>}
+        <button
+          onClick={() => setShowRedemptions(!showRedemptions)}
+          disabled={invite.redemptionCount === 0}
+          className="text-zinc-400 hover:text-cyan-400 disabled:hover:text-zinc-400 transition-colors cursor-pointer disabled:cursor-default"
+        >
+          {invite.redemptionCount}
+          {invite.maxRedemptions !== undefined
+            ? ` / ${invite.maxRedemptions}`
+            : ""}{" "}
+          redeemed
+        </button>
+        {invite.expiresAt && (
+          <span className="text-xs text-zinc-500">
+            Expires {new Date(invite.expiresAt).toLocaleString()}
+          </span>
+        )}
+        <span className="text-xs text-zinc-500 font-mono">
+          by {shortAddress(invite.createdBy)}
+        </span>
+        {status.label === "active" && <CopyInviteLinkButton code={invite.code} />}
+        {!invite.revokedAt &&
+          (confirmRevoke ? (
+            <span className="inline-flex items-center gap-2">
+              <button
+                onClick={revoke}
+                disabled={isRevoking}
+                className="px-2.5 py-1 rounded-lg bg-red-500/20 border border-red-500/50 hover:bg-red-500/30 transition-colors cursor-pointer disabled:opacity-50 flex items-center gap-1.5 text-red-400 text-xs font-medium"
+              >
+                {isRevoking && <Loader2 className="w-3 h-3 animate-spin" />}
+                Revoke access
+              </button>
+              <button
+                onClick={() => setConfirmRevoke(false)}
+                className="text-xs text-zinc-500 hover:text-zinc-300 transition-colors cursor-pointer"
+              >
+                Keep
+              </button>
+            </span>
+          ) : (
+            <button
+              onClick={() => setConfirmRevoke(true)}
+              className="inline-flex items-center gap-1 text-xs text-zinc-400 hover:text-red-400 transition-colors cursor-pointer"
+            >
+              <Ban className="w-3.5 h-3.5" />
+              Revoke
+            </button>
+          ))}
+      </div>
+
+      {invite.revokedAt && (
+        <p className="text-xs text-zinc-500">
+          Revoked {new Date(invite.revokedAt).toLocaleString()}
+          {invite.revokedBy && ` by ${shortAddress(invite.revokedBy)}`}
+        </p>
+      )}
+
+      {/* Redemption records */}
+      {showRedemptions && (
+        <ul className="space-y-1 text-xs text-zinc-500">
+          {invite.redemptions.map((redemption, index) => (
+            <li key={index} className="flex flex-wrap items-center gap-2">
+              <span className="text-zinc-400">
+                {new Date(redemption.redeemedAt).toLocaleString()}
+              </span>
+              <span className="font-mono">
+                {redemption.ipAddress ?? "unknown IP"}
+              </span>
+              {redemption.userAgent && (
+                <span className="truncate max-w-md">{redemption.userAgent}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <div className="px-3 py-2 bg-red-500/10 border border-red-500/30 rounded-lg flex items-center gap-2 text-red-400">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          <span className="text-sm">{error}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function InvitesPanel({
+  refreshKey,
+}: {
+  // Bumped when invites are issued elsewhere (approving waitlist entries)
+  refreshKey: number;
+}) {
+  const [invites, setInvites] = useState<WhitelistInviteSummary[]>([]);
+  const [label, setLabel] = useState("");
+  const [maxRedemptions, setMaxRedemptions] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchInvites = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/admin/invites");
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch invites");
+      }
+
+      setInvites(data.invites);
+    } catch (err) {
+      console.error("Fetch invites error:", err);
+      setError(err instanceof Error ? err.message : "Failed to fetch invites");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchInvites();
+  }, [fetchInvites, refreshKey]);
+
+  const createInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/admin/invites", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          label,
+          maxRedemptions: maxRedemptions ? Number(maxRedemptions) : undefined,
+          expiresInDays: expiresInDays ? Number(expiresInDays) : undefined,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create invite");
+      }
+
+      setInvites((prev) => [data.invite, ...prev]);
+      setLabel("");
+      setMaxRedemptions("");
+      setExpiresInDays("");
+    } catch (err) {
+      console.error("Create invite error:", err);
+      setError(err instanceof Error ? err.message : "Failed to create invite");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mt-12"
+    >
+      <div className="flex items-center justify-between flex-wrap gap-4 mb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white mb-1 flex items-center gap-2">
+            <Ticket className="w-6 h-6 text-cyan-400" />
+            Invite Codes
+          </h2>
+          <p className="text-zinc-400 text-sm">
+            Codes for /invite links. Revoking a code ends access for everyone
+            who redeemed it.
+          </p>
+        </div>
+        <button
+          onClick={fetchInvites}
+          disabled={isLoading}
+          className="px-4 py-2.5 rounded-lg bg-zinc-900 border border-zinc-800 hover:border-zinc-700 transition-colors cursor-pointer disabled:opacity-50 flex items-center gap-2 text-zinc-400 hover:text-zinc-100"
+        >
+          <RefreshCw className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`} />
+          <span className="text-sm font-medium">Refresh</span>
+        </button>
+      </div>
+
+      {/* Create form */}
+      <form
+        onSubmit={createInvite}
+        className="mb-4 flex flex-wrap items-center gap-3"
+      >
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Label (optional)"
+          className="flex-1 min-w-48 px-3 py-2 bg-zinc-900 border border-zinc-800 rounded-lg text-sm text-zinc-100 placeholder-zinc-500 focus:outline-none focus:border-cyan-500/50"
+        />
+        <input
+          type="number"
+          min={1}
+          value={maxRedemptions}
+          onChange={(e) => setMaxRedemptions(e.target.value)}
+          placeholder="Max uses (∞)"
+          className="w-36 px-3 py-2 bg-zinc-900 border border-zinc-800 rounded-lg text-sm text-zinc-100 placeholder-zinc-500 focus:outline-none focus:border-cyan-500/50"
+        />
+        <input
+          type="number"
+          min={1}
+          value={expiresInDays}
+          onChange={(e) => setExpiresInDays(e.target.value)}
+          placeholder="Expires in days"
+          className="w-40 px-3 py-2 bg-zinc-900 border border-zinc-800 rounded-lg text-sm text-zinc-100 placeholder-zinc-500 focus:outline-none focus:border-cyan-500/50"
+        />
+        <button
+          type="submit"
+          disabled={isCreating}
+          className="px-4 py-2 rounded-lg bg-cyan-500/20 border border-cyan-500/50 hover:bg-cyan-500/30 transition-colors cursor-pointer disabled:opacity-50 flex items-center gap-2 text-cyan-400 text-sm font-medium"
+        >
+          {isCreating ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <Plus className="w-4 h-4" />
+          )}
+          Create Code
+        </button>
+      </form>
+
+      {error && (
+        <div className="mb-4 px-4 py-3 bg-red-500/10 border border-red-500/30 rounded-lg flex items-center gap-2 text-red-400">
+          <AlertCircle className="w-5 h-5 shrink-0" />
+          <span className="text-sm">{error}</span>
+        </div>
+      )}
+
+      <div className="rounded-xl bg-zinc-950 border border-zinc-800 overflow-hidden">
+        {invites.length === 0 ? (
+          <p className="px-6 py-8 text-center text-zinc-500 text-sm">
+            {isLoading ? "Loading invites..." : "No invite codes yet."}
+          </p>
+        ) : (
+          <div className="divide-y divide-zinc-800/50">
+            {invites.map((invite) => (
+              <InviteRow
+                key={invite.id}
+                invite={invite}
+                onRevoked={(revoked) =>
+                  setInvites((prev) =>
+                    prev.map((i) => (i.id === revoked.id ? revoked : i))
+                  )
+                }
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
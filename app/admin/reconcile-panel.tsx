@@ -0,0 +1,198 @@
+"use client";
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { Loader2, AlertCircle, Scale, Play, Search } from "lucide-react";
+import { TxReceiptLink } from "@/app/components/TxReceiptLink";
+
+type ReconcileOutcome =
+  | "recorded"
+  | "payout"
+  | "linked"
+  | "created"
+  | "would_create"
+  | "ambiguous"
+  | "unmatched"
+  | "pending";
+
+interface ReconcileEntry {
+  txHash: string;
+  timestamp: string;
+  from: string;
+  to: string;
+  amountUsdc: number;
+  outcome: ReconcileOutcome;
+  listingSlug?: string;
+  candidateSlugs?: string[];
+}
+
+interface ReconcileReport {
+  fromBlock: string;
+  toBlock: string;
+  dryRun: boolean;
+  transfersScanned: number;
+  summary: Record<ReconcileOutcome, number>;
+  entries: ReconcileEntry[];
+}
+
+const OUTCOME_STYLES: Record<ReconcileOutcome, string> = {
+  recorded: "bg-zinc-800 text-zinc-400",
+  payout: "bg-zinc-800 text-zinc-400",
+  linked: "bg-cyan-500/20 text-cyan-400",
+  created: "bg-emerald-500/20 text-emerald-400",
+  would_create: "bg-emerald-500/10 text-emerald-300",
+  ambiguous: "bg-amber-500/20 text-amber-400",
+  unmatched: "bg-red-500/10 text-red-400",
+  pending: "bg-zinc-800 text-zinc-500",
+};
+
+const shortAddress = (address: string) =>
+  `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export function ReconcilePanel() {
+  const [report, setReport] = useState<ReconcileReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runReconcile = async (dryRun: boolean) => {
+    setIsRunning(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/admin/reconcile", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ dryRun }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Reconciliation failed");
+      }
+
+      setReport(data.report);
+    } catch (err) {
+      console.error("Reconcile error:", err);
+      setError(err instanceof Error ? err.message : "Reconciliation failed");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  // Only transfers that need a decision are listed
+  const attentionEntries =
+    report?.entries.filter(
+      (entry) => entry.outcome !== "recorded" && entry.outcome !== "pending"
+    ) ?? [];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mt-12"
+    >
+      <div className="flex items-center justify-between flex-wrap gap-4 mb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white mb-1 flex items-center gap-2">
+            <Scale className="w-6 h-6 text-cyan-400" />
+            Payment Reconciliation
+          </h2>
+          <p className="text-zinc-400 text-sm">
+            Finds USDC payments to sellers from the last day that were never
+            recorded as sales.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => runReconcile(true)}
+            disabled={isRunning}
+            className="px-4 py-2.5 rounded-lg bg-zinc-900 border border-zinc-800 hover:border-zinc-700 transition-colors cursor-pointer disabled:opacity-50 flex items-center gap-2 text-zinc-400 hover:text-zinc-100"
+          >
+            <Search className="w-4 h-4" />
+            <span className="text-sm font-medium">Dry Run</span>
+          </button>
+          <button
+            onClick={() => runReconcile(false)}
+            disabled={isRunning || !report?.summary.would_create}
+            className="px-4 py-2.5 rounded-lg bg-cyan-500/20 border border-cyan-500/50 hover:bg-cyan-500/30 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 text-cyan-400"
+            title="Run a dry run first to review the changes"
+          >
+            {isRunning ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Play className="w-4 h-4" />
+            )}
+            <span className="text-sm font-medium">Record Missing Sales</span>
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 px-4 py-3 bg-red-500/10 border border-red-500/30 rounded-lg flex items-center gap-2 text-red-400">
+          <AlertCircle className="w-5 h-5 shrink-0" />
+          <span className="text-sm">{error}</span>
+        </div>
+      )}
+
+      {report && (
+        <div className="rounded-xl bg-zinc-950 border border-zinc-800 overflow-hidden">
+          <div className="px-6 py-4 bg-zinc-900/50 border-b border-zinc-800 flex flex-wrap gap-2 text-xs">
+            <span className="text-zinc-500 mr-2">
+              Blocks {report.fromBlock} → {report.toBlock} ·{" "}
+              {report.transfersScanned} transfers
+              {report.dryRun && " · dry run"}
+            </span>
+            {(Object.keys(report.summary) as ReconcileOutcome[]).map(
+              (outcome) => (
+                <span
+                  key={outcome}
+                  className={`px-2 py-0.5 rounded-full font-medium ${OUTCOME_STYLES[outcome]}`}
+                >
+                  {outcome.replace("_", " ")}: {report.summary[outcome]}
+                </span>
+              )
+            )}
+          </div>
+
+          {attentionEntries.length === 0 ? (
+            <p className="px-6 py-8 text-center text-zinc-500 text-sm">
+              Every payment in range is recorded.
+            </p>
+          ) : (
+            <div className="divide-y divide-zinc-800/50">
+              {attentionEntries.map((entry) => (
+                <div
+                  key={`${entry.txHash}-${entry.to}`}
+                  className="grid grid-cols-12 gap-4 px-6 py-3 items-center text-sm"
+                >
+                  <div className="col-span-2">
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${OUTCOME_STYLES[entry.outcome]}`}
+                    >
+                      {entry.outcome.replace("_", " ")}
+                    </span>
+                  </div>
+                  <div className="col-span-4 font-mono text-zinc-300 truncate">
+                    {shortAddress(entry.from)} → {shortAddress(entry.to)}
+                  </div>
+                  <div className="col-span-2 text-cyan-400 font-medium">
+                    ${entry.amountUsdc.toFixed(2)}
+                  </div>
+                  <div className="col-span-2 text-zinc-400 truncate">
+                    {entry.listingSlug ??
+                      entry.candidateSlugs?.join(", ") ??
+                      "—"}
+                  </div>
+                  <div className="col-span-2 text-right">
+                    <TxReceiptLink txHash={entry.txHash} label="Tx" />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,545 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import {
+  Users,
+  Loader2,
+  RefreshCw,
+  AlertCircle,
+  Mail,
+  Calendar,
+  ExternalLink,
+  ArrowUpDown,
+  Ticket,
+  Search,
+  Download,
+  Check,
+  X,
+  ChevronLeft,
+  ChevronRight,
+  History,
+} from "lucide-react";
+import { CopyInviteLinkButton } from "./invites-panel";
+import {
+  MAX_WAITLIST_BATCH,
+  WAITLIST_FLAG_LABELS,
+  type WaitlistAction,
+  type WaitlistEntrySummary,
+  type WaitlistStatus,
+} from "@/lib/waitlist";
+
+const STATUS_FILTERS: { value: WaitlistStatus | "all"; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "pending", label: "Pending" },
+  { value: "approved", label: "Approved" },
+  { value: "rejected", label: "Rejected" },
+];
+
+const STATUS_STYLES: Record<WaitlistStatus, string> = {
+  pending: "bg-zinc-500/10 text-zinc-400",
+  approved: "bg-emerald-500/10 text-emerald-400",
+  rejected: "bg-red-500/10 text-red-400",
+};
+
+const shortAddress = (address: string) =>
+  `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+export function WaitlistPanel({
+  onInvitesIssued,
+}: {
+  onInvitesIssued: () => void;
+}) {
+  const [entries, setEntries] = useState<WaitlistEntrySummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [pageSize, setPageSize] = useState(50);
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState<WaitlistStatus | "all">(
+    "pending"
+  );
+  const [sortByXHandle, setSortByXHandle] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [expandedEmail, setExpandedEmail] = useState<string | null>(null);
+  const [note, setNote] = useState("");
+  const [pendingAction, setPendingAction] = useState<WaitlistAction | null>(
+    null
+  );
+  const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const buildParams = useCallback(() => {
+    const params = new URLSearchParams();
+    if (query) params.set("q", query);
+    if (statusFilter !== "all") params.set("status", statusFilter);
+    if (sortByXHandle) params.set("sort", "xUsername");
+    return params;
+  }, [query, statusFilter, sortByXHandle]);
+
+  const fetchWaitlist = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = buildParams();
+      params.set("page", String(page));
+
+      const response = await fetch(`/api/admin/waitlist?${params}`);
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch waitlist");
+      }
+
+      setEntries(data.entries);
+      setTotal(data.total);
+      setPageSize(data.pageSize);
+      setSelected([]);
+    } catch (err) {
+      console.error("Fetch waitlist error:", err);
+      setError(err instanceof Error ? err.message : "Failed to fetch waitlist");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [buildParams, page]);
+
+  useEffect(() => {
+    fetchWaitlist();
+  }, [fetchWaitlist]);
+
+  // Debounce the search box
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setQuery(search.trim());
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const review = async (emails: string[], action: WaitlistAction) => {
+    if (emails.length === 0) return;
+
+    setPendingAction(action);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/admin/waitlist", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ emails, action, note }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Review failed");
+      }
+
+      setNote("");
+      if (action === "approve") {
+        onInvitesIssued();
+      }
+      await fetchWaitlist();
+    } catch (err) {
+      console.error("Review waitlist error:", err);
+      setError(err instanceof Error ? err.message : "Review failed");
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const exportCsv = async () => {
+    setIsExporting(true);
+    setError(null);
+
+    try {
+      const params = buildParams();
+      params.set("format", "csv");
+
+      const response = await fetch(`/api/admin/waitlist?${params}`);
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Export failed");
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `waitlist-${new Date().toISOString().split("T")[0]}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Export waitlist error:", err);
+      setError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const toggleSelected = (email: string) => {
+    setSelected((prev) =>
+      prev.includes(email)
+        ? prev.filter((e) => e !== email)
+        : prev.length < MAX_WAITLIST_BATCH
+        ? [...prev, email]
+        : prev
+    );
+  };
+
+  const allSelected =
+    entries.length > 0 && entries.every((e) => selected.includes(e.email));
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
+
+  return (
+    <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+      <div className="flex items-center justify-between flex-wrap gap-4 mb-4">
+        <p className="text-zinc-400">
+          {total} {total === 1 ? "entry" : "entries"}
+          {statusFilter !== "all" && ` ${statusFilter}`}
+          {query && ` matching "${query}"`}
+        </p>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => {
+              setSortByXHandle(!sortByXHandle);
+              setPage(1);
+            }}
+            className={`px-3 py-2.5 rounded-lg border transition-colors cursor-pointer flex items-center gap-2 text-sm font-medium ${
+              sortByXHandle
+                ? "bg-cyan-500/20 border-cyan-500/50 text-cyan-400"
+                : "bg-zinc-900 border-zinc-800 hover:border-zinc-700 text-zinc-400 hover:text-zinc-100"
+            }`}
+            title="Sort by X handle"
+          >
+            <ArrowUpDown className="w-4 h-4" />
+            <span className="hidden sm:inline">Sort by X</span>
+          </button>
+          <button
+            onClick={exportCsv}
+            disabled={isExporting}
+            className="px-3 py-2.5 rounded-lg bg-zinc-900 border border-zinc-800 hover:border-zinc-700 transition-colors cursor-pointer disabled:opacity-50 flex items-center gap-2 text-sm font-medium text-zinc-400 hover:text-zinc-100"
+            title="Download every matching entry as CSV"
+          >
+            {isExporting ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Download className="w-4 h-4" />
+            )}
+            <span className="hidden sm:inline">Export CSV</span>
+          </button>
+          <button
+            onClick={fetchWaitlist}
+            disabled={isLoading}
+            className="p-2.5 rounded-lg bg-zinc-900 border border-zinc-800 hover:border-zinc-700 transition-colors cursor-pointer disabled:opacity-50"
+            title="Refresh"
+          >
+            <RefreshCw
+              className={`w-5 h-5 text-zinc-400 ${
+                isLoading ? "animate-spin" : ""
+              }`}
+            />
+          </button>
+        </div>
+      </div>
+
+      {/* Search and status filter */}
+      <div className="mb-4 flex flex-wrap items-center gap-3">
+        <div className="relative flex-1 min-w-48">
+          <Search className="w-4 h-4 text-zinc-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search email or X handle"
+            className="w-full pl-9 pr-3 py-2 bg-zinc-900 border border-zinc-800 rounded-lg text-sm text-zinc-100 placeholder-zinc-500 focus:outline-none focus:border-cyan-500/50"
+          />
+        </div>
+        <div className="flex gap-1 p-1 rounded-lg bg-zinc-900 border border-zinc-800">
+          {STATUS_FILTERS.map((filter) => (
+            <button
+              key={filter.value}
+              onClick={() => {
+                setStatusFilter(filter.value);
+                setPage(1);
+              }}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors cursor-pointer ${
+                statusFilter === filter.value
+                  ? "bg-zinc-800 text-white"
+                  : "text-zinc-400 hover:text-zinc-300"
+              }`}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Bulk actions */}
+      {selected.length > 0 && (
+        <div className="mb-4 px-4 py-3 rounded-lg bg-zinc-900 border border-zinc-800 flex flex-wrap items-center gap-3">
+          <span className="text-sm text-zinc-300">
+            {selected.length} selected
+          </span>
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note for the audit trail"
+            className="flex-1 min-w-48 px-3 py-2 bg-zinc-950 border border-zinc-800 rounded-lg text-sm text-zinc-100 placeholder-zinc-500 focus:outline-none focus:border-cyan-500/50"
+          />
+          <button
+            onClick={() => review(selected, "approve")}
+            disabled={!!pendingAction}
+            className="px-3 py-2 rounded-lg bg-emerald-500/20 border border-emerald-500/50 hover:bg-emerald-500/30 transition-colors cursor-pointer disabled:opacity-50 flex items-center gap-2 text-emerald-400 text-sm font-medium"
+          >
+            {pendingAction === "approve" ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Check className="w-4 h-4" />
+            )}
+            Approve & Invite
+          </button>
+          <button
+            onClick={() => review(selected, "reject")}
+            disabled={!!pendingAction}
+            className="px-3 py-2 rounded-lg bg-zinc-950 border border-zinc-800 hover:border-red-500/50 transition-colors cursor-pointer disabled:opacity-50 flex items-center gap-2 text-zinc-400 hover:text-red-400 text-sm font-medium"
+          >
+            {pendingAction === "reject" ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <X className="w-4 h-4" />
+            )}
+            Reject
+          </button>
+        </div>
+      )}
+
+      {/* Error State */}
+      {error && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mb-6 px-4 py-3 bg-red-500/10 border border-red-500/30 rounded-lg flex items-center gap-2 text-red-400"
+        >
+          <AlertCircle className="w-5 h-5 shrink-0" />
+          <span className="text-sm">{error}</span>
+        </motion.div>
+      )}
+
+      {/* Loading State */}
+      {isLoading && entries.length === 0 && (
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="w-8 h-8 text-cyan-500 animate-spin" />
+        </div>
+      )}
+
+      {/* Empty State */}
+      {!isLoading && entries.length === 0 && (
+        <div className="text-center py-20">
+          <div className="inline-flex items-center justify-center w-16 h-16 mb-4 rounded-full bg-zinc-900 border border-zinc-800">
+            <Users className="w-8 h-8 text-zinc-600" />
+          </div>
+          <p className="text-zinc-500 text-lg">No waitlist entries found</p>
+        </div>
+      )}
+
+      {/* Entries Table */}
+      {entries.length > 0 && (
+        <div className="rounded-xl bg-zinc-950 border border-zinc-800 overflow-hidden">
+          {/* Table Header */}
+          <div className="grid grid-cols-12 gap-4 px-6 py-4 bg-zinc-900/50 border-b border-zinc-800 text-sm font-medium text-zinc-400">
+            <div className="col-span-4 flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={() =>
+                  setSelected(
+                    allSelected
+                      ? []
+                      : entries.slice(0, MAX_WAITLIST_BATCH).map((e) => e.email)
+                  )
+                }
+                className="accent-cyan-500 cursor-pointer"
+                aria-label="Select all on this page"
+              />
+              <Mail className="w-4 h-4" />
+              Email
+            </div>
+            <div className="col-span-2">X Handle</div>
+            <div className="col-span-2 flex items-center gap-2">
+              <Calendar className="w-4 h-4" />
+              Joined
+            </div>
+            <div className="col-span-4 flex items-center gap-2">
+              <Ticket className="w-4 h-4" />
+              Review
+            </div>
+          </div>
+
+          {/* Table Body */}
+          <div className="divide-y divide-zinc-800/50">
+            {entries.map((entry) => (
+              <div key={entry.email}>
+                <div className="grid grid-cols-12 gap-4 px-6 py-4 hover:bg-zinc-900/30 transition-colors">
+                  <div className="col-span-4 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(entry.email)}
+                        onChange={() => toggleSelected(entry.email)}
+                        className="accent-cyan-500 cursor-pointer"
+                        aria-label={`Select ${entry.email}`}
+                      />
+                      <span className="text-zinc-100 font-mono text-sm truncate">
+                        {entry.email}
+                      </span>
+                    </div>
+                    {(entry.flags.length > 0 || entry.ipAddress) && (
+                      <div className="mt-1.5 ml-6 flex flex-wrap items-center gap-1.5">
+                        {entry.flags.map((flag) => (
+                          <span
+                            key={flag}
+                            className="px-1.5 py-0.5 rounded text-[10px] font-medium bg-amber-500/10 text-amber-400"
+                          >
+                            {WAITLIST_FLAG_LABELS[flag]}
+                          </span>
+                        ))}
+                        {entry.ipAddress && (
+                          <span className="text-[10px] font-mono text-zinc-600">
+                            {entry.ipAddress}
+                          </span>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                  <div className="col-span-2 truncate">
+                    {entry.xUsername ? (
+                      <a
+                        href={`https://x.com/${entry.xUsername}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-cyan-400 hover:text-cyan-300 transition-colors text-sm"
+                      >
+                        @{entry.xUsername}
+                        <ExternalLink className="w-3 h-3" />
+                      </a>
+                    ) : (
+                      <span className="text-zinc-600 text-sm">—</span>
+                    )}
+                  </div>
+                  <div className="col-span-2 text-zinc-500 text-sm">
+                    {formatDate(entry.createdAt)}
+                  </div>
+                  <div className="col-span-4 flex flex-wrap items-center gap-x-3 gap-y-1.5">
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[entry.status]}`}
+                    >
+                      {entry.status}
+                    </span>
+                    {entry.inviteCode && (
+                      <CopyInviteLinkButton code={entry.inviteCode} />
+                    )}
+                    {entry.status !== "approved" && (
+                      <button
+                        onClick={() => review([entry.email], "approve")}
+                        disabled={!!pendingAction}
+                        className="text-sm text-emerald-400 hover:text-emerald-300 transition-colors cursor-pointer disabled:opacity-50"
+                      >
+                        Approve
+                      </button>
+                    )}
+                    {entry.status !== "rejected" && (
+                      <button
+                        onClick={() => review([entry.email], "reject")}
+                        disabled={!!pendingAction}
+                        className="text-sm text-zinc-500 hover:text-red-400 transition-colors cursor-pointer disabled:opacity-50"
+                      >
+                        Reject
+                      </button>
+                    )}
+                    {entry.events.length > 0 && (
+                      <button
+                        onClick={() =>
+                          setExpandedEmail(
+                            expandedEmail === entry.email ? null : entry.email
+                          )
+                        }
+                        className="text-zinc-500 hover:text-zinc-300 transition-colors cursor-pointer"
+                        title="Audit trail"
+                      >
+                        <History className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {/* Audit trail */}
+                {expandedEmail === entry.email && (
+                  <ul className="px-6 pb-4 ml-6 space-y-1 text-xs text-zinc-500">
+                    {entry.events.map((event, index) => (
+                      <li
+                        key={index}
+                        className="flex flex-wrap items-center gap-2"
+                      >
+                        <span className="text-zinc-400">
+                          {new Date(event.at).toLocaleString()}
+                        </span>
+                        <span className="font-medium text-zinc-300">
+                          {event.action}
+                        </span>
+                        <span className="font-mono">
+                          by {shortAddress(event.actor)}
+                        </span>
+                        {event.note && <span>· {event.note}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="mt-4 flex items-center justify-center gap-3 text-sm text-zinc-400">
+          <button
+            onClick={() => setPage((p) => Math.max(1, p - 1))}
+            disabled={page <= 1 || isLoading}
+            className="p-2 rounded-lg bg-zinc-900 border border-zinc-800 hover:border-zinc-700 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span>
+            Page {page} of {totalPages}
+          </span>
+          <button
+            onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+            disabled={page >= totalPages || isLoading}
+            className="p-2 rounded-lg bg-zinc-900 border border-zinc-800 hover:border-zinc-700 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-label="Next page"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { verifyAccessToken } from "@/lib/access-token";
+import { ACCESS_COOKIE_NAME } from "@/lib/access-token";
+import { hasWhitelistAccess } from "@/lib/whitelist-invites";
 
 // GET - Check if user has valid access cookie
 export async function GET(request: NextRequest) {
@@ -16,7 +17,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Check for access cookie
-    const accessCookie = request.cookies.get("invite_access");
+    const accessCookie = request.cookies.get(ACCESS_COOKIE_NAME);
 
     if (!accessCookie?.value) {
       return NextResponse.json({
@@ -25,8 +26,8 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    // Verify the cookie token
-    const isValid = verifyAccessToken(accessCookie.value);
+    // Verify the cookie token and that its invite hasn't been revoked
+    const isValid = await hasWhitelistAccess(accessCookie.value);
 
     return NextResponse.json({
       hasAccess: isValid,
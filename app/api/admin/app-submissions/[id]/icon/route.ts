@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { connectDB } from "@/lib/mongoose";
+import { AppSubmission } from "@/models/appSubmission";
+import { chainId } from "@/lib/chain";
+import { verifyAdminRequest } from "@/lib/admin-auth";
+import { getAppIconBytes } from "@/lib/apps";
+
+/**
+ * GET /api/admin/app-submissions/[id]/icon
+ *
+ * Serves a submission's uploaded icon, for review. Admin only.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await verifyAdminRequest(request);
+    if (!auth.ok) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    await connectDB();
+
+    const { id } = await params;
+    const submission = mongoose.isValidObjectId(id)
+      ? await AppSubmission.findOne({ _id: id, chainId })
+          .select("+icon")
+          .lean()
+      : null;
+
+    if (!submission?.icon) {
+      return NextResponse.json(
+        { success: false, error: "Icon not found" },
+        { status: 404 }
+      );
+    }
+
+    const bytes = getAppIconBytes(submission.icon);
+    if (!bytes) {
+      console.error(
+        `Stored icon of app submission ${id} is empty or truncated`
+      );
+      return NextResponse.json(
+        { success: false, error: "Icon unavailable" },
+        { status: 500 }
+      );
+    }
+
+    return new NextResponse(bytes, {
+      headers: {
+        "Content-Type": submission.icon.contentType,
+        "Cache-Control": "private, max-age=3600",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching app submission icon:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAdminRequest } from "@/lib/admin-auth";
+import { reviewAppSubmission } from "@/lib/app-submission-review";
+import {
+  MAX_APP_DESCRIPTION_LENGTH,
+  isAppSubmissionAction,
+} from "@/lib/app-submissions";
+
+/**
+ * POST /api/admin/app-submissions/[id]
+ *
+ * Reviews a pending app submission. Admin only.
+ *
+ * Request body:
+ * - action: "approve" | "merge" | "reject"
+ * - appSlug?: Existing app the submission is another name of (merge only)
+ * - note?: Review note shown to the submitter
+ *
+ * Response:
+ * - success: boolean
+ * - submission: AppSubmissionSummary
+ * - app?: AppSummary (the approved or merged-into app)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await verifyAdminRequest(request);
+    if (!auth.ok) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { action, appSlug, note } = body;
+
+    if (!isAppSubmissionAction(action)) {
+      return NextResponse.json(
+        { success: false, error: "Action must be approve, merge or reject" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      action === "merge" &&
+      (typeof appSlug !== "string" || !appSlug.trim())
+    ) {
+      return NextResponse.json(
+        { success: false, error: "Choose the app to merge into" },
+        { status: 400 }
+      );
+    }
+
+    const trimmedNote = typeof note === "string" ? note.trim() : "";
+    if (trimmedNote.length > MAX_APP_DESCRIPTION_LENGTH) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Note must be at most ${MAX_APP_DESCRIPTION_LENGTH} characters`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await reviewAppSubmission(id, action, auth.address, {
+      appSlug: action === "merge" ? appSlug.trim() : undefined,
+      note: trimmedNote || undefined,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      submission: result.submission,
+      ...(result.app ? { app: result.app } : {}),
+    });
+  } catch (error) {
+    console.error("Error reviewing app submission:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/mongoose";
+import { AppSubmission } from "@/models/appSubmission";
+import { chainId } from "@/lib/chain";
+import { verifyAdminRequest } from "@/lib/admin-auth";
+import {
+  toAppSubmissionSummary,
+  type AppSubmissionStatus,
+} from "@/lib/app-submissions";
+
+const APP_SUBMISSION_STATUSES: AppSubmissionStatus[] = [
+  "pending",
+  "approved",
+  "merged",
+  "rejected",
+];
+
+/**
+ * GET /api/admin/app-submissions
+ *
+ * Lists community app submissions for review. Admin only.
+ *
+ * Query params:
+ * - status: "pending" | "approved" | "merged" | "rejected" (default: all)
+ *
+ * Response:
+ * - success: boolean
+ * - submissions: AppSubmissionSummary[] (oldest first for pending, else newest first)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await verifyAdminRequest(request);
+    if (!auth.ok) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    await connectDB();
+
+    const status = request.nextUrl.searchParams.get("status");
+    const filter: Record<string, unknown> = { chainId };
+    if (
+      status &&
+      APP_SUBMISSION_STATUSES.includes(status as AppSubmissionStatus)
+    ) {
+      filter.status = status;
+    }
+
+    const submissions = await AppSubmission.find(filter)
+      .sort({ createdAt: status === "pending" ? 1 : -1 })
+      .limit(200)
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      submissions: submissions.map(toAppSubmissionSummary),
+    });
+  } catch (error) {
+    console.error("Error fetching app submissions:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { connectDB } from "@/lib/mongoose";
+import { Dispute } from "@/models/dispute";
+import { Transaction } from "@/models/transaction";
+import { chainId } from "@/lib/chain";
+import { verifyAdminRequest } from "@/lib/admin-auth";
+import { MAX_DISPUTE_TEXT_LENGTH, toDisputeSummary } from "@/lib/disputes";
+import { payoutEscrow } from "@/lib/escrow";
+
+/**
+ * POST /api/admin/disputes/[id]/resolve
+ *
+ * Resolves an open dispute and records the outcome on the purchase. Admin only.
+ *
+ * Request body:
+ * - outcome: "refunded" | "rejected"
+ * - note?: Resolution note shown to the buyer and seller
+ * - refundTxHash?: USDC transfer that refunded the buyer (refunded only)
+ *
+ * Refunding a purchase that is still held in escrow pays the buyer back from
+ * the escrow wallet, and that payout is recorded as the refund transaction.
+ *
+ * Response:
+ * - success: boolean
+ * - dispute: DisputeSummary
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await verifyAdminRequest(request);
+    if (!auth.ok) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    await connectDB();
+
+    const { id } = await params;
+    const body = await request.json();
+    const { outcome, note, refundTxHash } = body;
+
+    if (outcome !== "refunded" && outcome !== "rejected") {
+      return NextResponse.json(
+        { success: false, error: "Outcome must be refunded or rejected" },
+        { status: 400 }
+      );
+    }
+
+    const trimmedNote = typeof note === "string" ? note.trim() : "";
+    if (trimmedNote.length > MAX_DISPUTE_TEXT_LENGTH) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Note must be at most ${MAX_DISPUTE_TEXT_LENGTH} characters`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      refundTxHash !== undefined &&
+      refundTxHash !== "" &&
+      (outcome !== "refunded" ||
+        typeof refundTxHash !== "string" ||
+        !/^0x[a-fA-F0-9]{64}$/.test(refundTxHash))
+    ) {
+      return NextResponse.json(
+        { success: false, error: "Invalid refund transaction hash" },
+        { status: 400 }
+      );
+    }
+
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json(
+        { success: false, error: "Dispute not found" },
+        { status: 404 }
+      );
+    }
+
+    let escrowRefundTxHash: string | undefined;
+    if (outcome === "refunded") {
+      const open = await Dispute.findOne({ _id: id, chainId, status: "open" })
+        .select("transactionId")
+        .lean();
+      const transaction = open
+        ? await Transaction.findById(open.transactionId)
+            .select("escrowStatus")
+            .lean()
+        : null;
+
+      if (transaction?.escrowStatus === "pending_release") {
+        const payout = await payoutEscrow(
+          open!.transactionId.toString(),
+          "refund",
+          auth.address,
+          { note: trimmedNote || "Dispute refunded" }
+        );
+        if (!payout.ok) {
+          return NextResponse.json(
+            { success: false, error: payout.error },
+            { status: payout.status }
+          );
+        }
+        escrowRefundTxHash = payout.txHash;
+      }
+    }
+
+    // Only open disputes can be resolved, so two admins can't both decide
+    const dispute = await Dispute.findOneAndUpdate(
+      { _id: id, chainId, status: "open" },
+      {
+        $set: {
+          status: outcome,
+          resolvedBy: auth.address,
+          resolvedAt: new Date(),
+          ...(trimmedNote ? { resolutionNote: trimmedNote } : {}),
+          ...(escrowRefundTxHash || refundTxHash
+            ? { refundTxHash: escrowRefundTxHash || refundTxHash }
+            : {}),
+        },
+      },
+      { new: true }
+    ).lean();
+
+    if (!dispute) {
+      const exists = await Dispute.exists({ _id: id, chainId });
+      return NextResponse.json(
+        {
+          success: false,
+          error: exists
+            ? "This dispute has already been resolved"
+            : "Dispute not found",
+        },
+        { status: exists ? 409 : 404 }
+      );
+    }
+
+    await Transaction.updateOne(
+      { _id: dispute.transactionId },
+      { $set: { disputeStatus: outcome } }
+    );
+
+    return NextResponse.json({
+      success: true,
+      dispute: toDisputeSummary(dispute, true),
+    });
+  } catch (error) {
+    console.error("Error resolving dispute:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
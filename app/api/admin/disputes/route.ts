@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/mongoose";
+import { Dispute } from "@/models/dispute";
+import { chainId } from "@/lib/chain";
+import { verifyAdminRequest } from "@/lib/admin-auth";
+import { toDisputeSummary, type DisputeStatus } from "@/lib/disputes";
+
+const DISPUTE_STATUSES: DisputeStatus[] = ["open", "refunded", "rejected"];
+
+/**
+ * GET /api/admin/disputes
+ *
+ * Lists disputes with the buyer's evidence and seller's response. Admin only.
+ *
+ * Query params:
+ * - status: "open" | "refunded" | "rejected" (default: all)
+ *
+ * Response:
+ * - success: boolean
+ * - disputes: DisputeSummary[] (newest first)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await verifyAdminRequest(request);
+    if (!auth.ok) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    await connectDB();
+
+    const status = request.nextUrl.searchParams.get("status");
+    const filter: Record<string, unknown> = { chainId };
+    if (status && DISPUTE_STATUSES.includes(status as DisputeStatus)) {
+      filter.status = status;
+    }
+
+    const disputes = await Dispute.find(filter)
+      .sort({ createdAt: -1 })
+      .limit(200)
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      disputes: disputes.map((dispute) => toDisputeSummary(dispute, true)),
+    });
+  } catch (error) {
+    console.error("Error fetching disputes:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { verifyAdminRequest } from "@/lib/admin-auth";
+import { payoutEscrow } from "@/lib/escrow";
+
+/**
+ * POST /api/admin/escrow/[id]
+ *
+ * Releases an escrowed purchase to the seller, or refunds it to the buyer.
+ * The admin address is recorded in the purchase's escrow audit trail. Admin only.
+ *
+ * Request body:
+ * - action: "release" | "refund"
+ * - note?: Reason recorded with the action
+ *
+ * Response:
+ * - success: boolean
+ * - escrowStatus: "released" | "refunded"
+ * - payoutTxHash: string
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await verifyAdminRequest(request);
+    if (!auth.ok) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { action, note } = body;
+
+    if (action !== "release" && action !== "refund") {
+      return NextResponse.json(
+        { success: false, error: "Action must be release or refund" },
+        { status: 400 }
+      );
+    }
+
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json(
+        { success: false, error: "Escrowed purchase not found" },
+        { status: 404 }
+      );
+    }
+
+    const result = await payoutEscrow(id, action, auth.address, {
+      note: typeof note === "string" && note.trim() ? note.trim() : undefined,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      escrowStatus: result.status,
+      payoutTxHash: result.txHash,
+    });
+  } catch (error) {
+    console.error("Error paying out escrow:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
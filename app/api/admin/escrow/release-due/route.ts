@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAdminRequest } from "@/lib/admin-auth";
+import { releaseDueEscrows } from "@/lib/escrow";
+
+/**
+ * POST /api/admin/escrow/release-due
+ *
+ * Releases every escrowed purchase whose confirmation window has passed
+ * (same job as `pnpm escrow:release`). Admin only.
+ *
+ * Request body (optional):
+ * - dryRun: boolean (default: true) - report without paying out
+ *
+ * Response:
+ * - success: boolean
+ * - report: EscrowReleaseReport
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await verifyAdminRequest(request);
+    if (!auth.ok) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { dryRun = true } = body;
+
+    const report = await releaseDueEscrows({
+      dryRun: !!dryRun,
+      actor: auth.address,
+    });
+
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error("Error releasing escrows:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/mongoose";
+import { Transaction } from "@/models/transaction";
+import { chainId } from "@/lib/chain";
+import { verifyAdminRequest } from "@/lib/admin-auth";
+
+/**
+ * GET /api/admin/escrow
+ *
+ * Lists escrowed purchases that still need a payout (pending release, or a
+ * payout that was sent but never confirmed), with their audit trail. Admin only.
+ *
+ * Response:
+ * - success: boolean
+ * - escrows: { id, listingSlug, buyerAddress, sellerAddress, priceUsdc, txHash,
+ *   escrowStatus, escrowReleaseAt, disputeStatus, payoutTxHash, events, createdAt }[]
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await verifyAdminRequest(request);
+    if (!auth.ok) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    await connectDB();
+
+    const transactions = await Transaction.find({
+      chainId,
+      escrowStatus: { $in: ["pending_release", "releasing", "refunding"] },
+    })
+      .sort({ escrowReleaseAt: 1 })
+      .limit(200)
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      escrows: transactions.map((t) => ({
+        id: t._id.toString(),
+        listingSlug: t.listingSlug,
+        buyerAddress: t.buyerAddress,
+        sellerAddress: t.sellerAddress,
+        priceUsdc: t.priceUsdc,
+        txHash: t.txHash,
+        escrowStatus: t.escrowStatus,
+        escrowReleaseAt: t.escrowReleaseAt,
+        disputeStatus: t.disputeStatus,
+        payoutTxHash: t.payoutTxHash,
+        events: t.escrowEvents ?? [],
+        createdAt: t.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching escrows:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAdminRequest } from "@/lib/admin-auth";
+import {
+  revokeWhitelistInvite,
+  toWhitelistInviteSummary,
+} from "@/lib/whitelist-invites";
+
+/**
+ * POST /api/admin/invites/[id]/revoke
+ *
+ * Revokes an invite code: it can no longer be redeemed, and access cookies
+ * issued for it stop working. Admin only.
+ *
+ * Response:
+ * - success: boolean
+ * - invite: WhitelistInviteSummary
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await verifyAdminRequest(request);
+    if (!auth.ok) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { id } = await params;
+    const invite = await revokeWhitelistInvite(id, auth.address);
+
+    if (!invite) {
+      return NextResponse.json(
+        { success: false, error: "Invite not found or already revoked" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      invite: toWhitelistInviteSummary(invite),
+    });
+  } catch (error) {
+    console.error("Error revoking invite:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
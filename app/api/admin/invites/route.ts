@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/mongoose";
+import { WhitelistInvite } from "@/models/whitelistInvite";
+import { verifyAdminRequest } from "@/lib/admin-auth";
+import {
+  createWhitelistInvite,
+  toWhitelistInviteSummary,
+} from "@/lib/whitelist-invites";
+
+const MAX_LABEL_LENGTH = 100;
+const MAX_INVITE_EXPIRY_DAYS = 365;
+
+/**
+ * GET /api/admin/invites
+ *
+ * Lists whitelist invite codes, newest first, with their redemptions. Admin only.
+ *
+ * Response:
+ * - success: boolean
+ * - invites: WhitelistInviteSummary[]
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await verifyAdminRequest(request);
+    if (!auth.ok) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    await connectDB();
+
+    const invites = await WhitelistInvite.find({})
+      .sort({ createdAt: -1 })
+      .limit(500)
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      invites: invites.map(toWhitelistInviteSummary),
+    });
+  } catch (error) {
+    console.error("Error fetching invites:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/invites
+ *
+ * Creates an invite code. Personal codes for waitlist entries are issued by
+ * approving them (POST /api/admin/waitlist). Admin only.
+ *
+ * Request body:
+ * - label?: string
+ * - maxRedemptions?: number (unlimited when omitted)
+ * - expiresInDays?: number (no expiry when omitted)
+ *
+ * Response:
+ * - success: boolean
+ * - invite: WhitelistInviteSummary
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await verifyAdminRequest(request);
+    if (!auth.ok) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    await connectDB();
+
+    const body = await request.json();
+    const { label, maxRedemptions, expiresInDays } = body;
+
+    const trimmedLabel = typeof label === "string" ? label.trim() : "";
+    if (trimmedLabel.length > MAX_LABEL_LENGTH) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Label must be at most ${MAX_LABEL_LENGTH} characters`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      maxRedemptions !== undefined &&
+      maxRedemptions !== null &&
+      (!Number.isInteger(maxRedemptions) || maxRedemptions < 1)
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Max redemptions must be a positive whole number",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      expiresInDays !== undefined &&
+      expiresInDays !== null &&
+      (typeof expiresInDays !== "number" ||
+        expiresInDays <= 0 ||
+        expiresInDays > MAX_INVITE_EXPIRY_DAYS)
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Expiry must be between 0 and ${MAX_INVITE_EXPIRY_DAYS} days`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const invite = await createWhitelistInvite({
+      label: trimmedLabel || undefined,
+      maxRedemptions: maxRedemptions ?? undefined,
+      expiresAt: expiresInDays
+        ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+        : undefined,
+      createdBy: auth.address,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        invite: toWhitelistInviteSummary(invite.toObject()),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating invites:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAdminRequest } from "@/lib/admin-auth";
+import { reconcilePayments } from "@/lib/reconcile";
+
+/**
+ * POST /api/admin/reconcile
+ *
+ * Scans USDC transfers to sellers and records x402 payments that settled
+ * on-chain but were never written to the database. Admin only.
+ *
+ * Request body (all optional):
+ * - dryRun: boolean (default: true) - report without writing
+ * - fromBlock / toBlock: block numbers (strings or numbers)
+ * - lookbackBlocks: blocks to scan back from toBlock when fromBlock is omitted
+ *
+ * Response:
+ * - success: boolean
+ * - report: ReconcileReport (summary and per-transfer outcomes)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await verifyAdminRequest(request);
+    if (!auth.ok) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { dryRun = true, fromBlock, toBlock, lookbackBlocks } = body;
+
+    let range: { fromBlock?: bigint; toBlock?: bigint; lookbackBlocks?: bigint };
+    try {
+      range = {
+        fromBlock: fromBlock !== undefined ? BigInt(fromBlock) : undefined,
+        toBlock: toBlock !== undefined ? BigInt(toBlock) : undefined,
+        lookbackBlocks:
+          lookbackBlocks !== undefined ? BigInt(lookbackBlocks) : undefined,
+      };
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "Block numbers must be integers" },
+        { status: 400 }
+      );
+    }
+
+    const report = await reconcilePayments({
+      dryRun: dryRun !== false,
+      ...range,
+    });
+
+    console.log(
+      `[reconcile] ${auth.address} ran reconciliation (dryRun: ${report.dryRun})`,
+      report.summary
+    );
+
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error("Error reconciling payments:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to reconcile payments",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
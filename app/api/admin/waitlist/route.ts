@@ -0,0 +1,261 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { PipelineStage } from "mongoose";
+import { connectDB } from "@/lib/mongoose";
+import { Waitlist, type IWaitlist } from "@/models/waitlist";
+import { WhitelistInvite } from "@/models/whitelistInvite";
+import { verifyAdminRequest } from "@/lib/admin-auth";
+import { reviewWaitlistEntries } from "@/lib/waitlist-review";
+import {
+  MAX_WAITLIST_BATCH,
+  WAITLIST_PAGE_SIZE,
+  isDisposableEmail,
+  toWaitlistEntrySummary,
+  type WaitlistEntrySummary,
+  type WaitlistFlag,
+} from "@/lib/waitlist";
+
+const CSV_COLUMNS: (keyof WaitlistEntrySummary)[] = [
+  "email",
+  "xUsername",
+  "ipAddress",
+  "status",
+  "flags",
+  "inviteCode",
+  "reviewedBy",
+  "reviewedAt",
+  "createdAt",
+];
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function toCsv(entries: WaitlistEntrySummary[]): string {
+  const cell = (value: unknown) => {
+    const text = Array.isArray(value) ? value.join(" ") : String(value ?? "");
+    // Quote every cell; prefix formula characters so spreadsheets don't run them
+    const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+    return `"${safe.replace(/"/g, '""')}"`;
+  };
+  return [
+    CSV_COLUMNS.join(","),
+    ...entries.map((entry) =>
+      CSV_COLUMNS.map((column) => cell(entry[column])).join(",")
+    ),
+  ].join("\n");
+}
+
+/**
+ * GET /api/admin/waitlist
+ *
+ * Lists waitlist entries with spam flags and their personal invite code.
+ * Admin only.
+ *
+ * Query params:
+ * - q: search by email or X handle
+ * - status: "pending" | "approved" | "rejected"
+ * - sort: "newest" (default) | "xUsername"
+ * - page: 1-based page number (WAITLIST_PAGE_SIZE entries per page)
+ * - format: "csv" to download every matching entry instead of a page
+ *
+ * Response:
+ * - success: boolean
+ * - entries: WaitlistEntrySummary[]
+ * - total: number of matching entries
+ * - page, pageSize
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await verifyAdminRequest(request);
+    if (!auth.ok) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    await connectDB();
+
+    const { searchParams } = request.nextUrl;
+    const q = searchParams.get("q")?.trim();
+    const status = searchParams.get("status");
+    const sort = searchParams.get("sort");
+    const isCsv = searchParams.get("format") === "csv";
+    const page = Math.max(1, Number(searchParams.get("page")) || 1);
+
+    const filter: Record<string, unknown> = {};
+    if (status === "pending") {
+      // Entries from before review existed have no status
+      filter.status = { $in: ["pending", null] };
+    } else if (status === "approved" || status === "rejected") {
+      filter.status = status;
+    }
+    if (q) {
+      const pattern = new RegExp(escapeRegex(q.replace(/^@/, "")), "i");
+      filter.$or = [{ email: pattern }, { xUsername: pattern }];
+    }
+
+    const pipeline: PipelineStage[] = [{ $match: filter }];
+    if (sort === "xUsername") {
+      // A-Z by X handle (case-insensitive via collation), entries without one last
+      pipeline.push(
+        {
+          $addFields: {
+            hasXUsername: {
+              $gt: [{ $strLenCP: { $ifNull: ["$xUsername", ""] } }, 0],
+            },
+          },
+        },
+        { $sort: { hasXUsername: -1, xUsername: 1, createdAt: -1 } },
+        { $project: { hasXUsername: 0 } }
+      );
+    } else {
+      pipeline.push({ $sort: { createdAt: -1 } });
+    }
+    if (!isCsv) {
+      pipeline.push(
+        { $skip: (page - 1) * WAITLIST_PAGE_SIZE },
+        { $limit: WAITLIST_PAGE_SIZE }
+      );
+    }
+
+    const [entries, total] = await Promise.all([
+      Waitlist.aggregate<IWaitlist>(pipeline).collation({ locale: "en" }),
+      Waitlist.countDocuments(filter),
+    ]);
+
+    // IPs shared with another entry across the whole waitlist
+    const ips = [
+      ...new Set(
+        entries
+          .map((entry) => entry.ipAddress)
+          .filter((ip): ip is string => !!ip && ip !== "unknown")
+      ),
+    ];
+    const [ipCounts, invites] = await Promise.all([
+      Waitlist.aggregate<{ _id: string; count: number }>([
+        { $match: { ipAddress: { $in: ips } } },
+        { $group: { _id: "$ipAddress", count: { $sum: 1 } } },
+        { $match: { count: { $gt: 1 } } },
+      ]),
+      WhitelistInvite.find({
+        waitlistEmail: { $in: entries.map((entry) => entry.email) },
+        revokedAt: { $exists: false },
+      })
+        .select("code waitlistEmail")
+        .lean(),
+    ]);
+    const duplicateIps = new Set(ipCounts.map((ip) => ip._id));
+    const inviteCodes = new Map(
+      invites.map((invite) => [invite.waitlistEmail, invite.code])
+    );
+
+    const summaries = entries.map((entry) => {
+      const flags: WaitlistFlag[] = [];
+      if (entry.ipAddress && duplicateIps.has(entry.ipAddress)) {
+        flags.push("duplicate_ip");
+      }
+      if (isDisposableEmail(entry.email)) {
+        flags.push("disposable_email");
+      }
+      return toWaitlistEntrySummary(entry, {
+        flags,
+        inviteCode: inviteCodes.get(entry.email),
+      });
+    });
+
+    if (isCsv) {
+      return new NextResponse(toCsv(summaries), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="waitlist-${
+            new Date().toISOString().split("T")[0]
+          }.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      entries: summaries,
+      total,
+      page,
+      pageSize: WAITLIST_PAGE_SIZE,
+    });
+  } catch (error) {
+    console.error("Error fetching waitlist entries:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/waitlist
+ *
+ * Approves or rejects waitlist entries. Approval issues a single-use personal
+ * invite code; rejection revokes it. Each review is recorded with the admin
+ * address in the entry's audit trail. Admin only.
+ *
+ * Request body:
+ * - emails: string[] (up to MAX_WAITLIST_BATCH)
+ * - action: "approve" | "reject"
+ * - note?: string
+ *
+ * Response:
+ * - success: boolean
+ * - updated: number
+ * - inviteCodes: Record<email, code> (approve only)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await verifyAdminRequest(request);
+    if (!auth.ok) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json();
+    const { emails, action, note } = body;
+
+    if (action !== "approve" && action !== "reject") {
+      return NextResponse.json(
+        { success: false, error: "Action must be approve or reject" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !Array.isArray(emails) ||
+      emails.length === 0 ||
+      emails.length > MAX_WAITLIST_BATCH ||
+      !emails.every((email) => typeof email === "string")
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `emails must list 1-${MAX_WAITLIST_BATCH} entries`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await reviewWaitlistEntries(
+      emails,
+      action,
+      auth.address,
+      typeof note === "string" ? note.trim().slice(0, 500) : undefined
+    );
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Error reviewing waitlist entries:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findApp } from "@/lib/apps";
+import { getMarketAnalytics } from "@/lib/market-analytics-server";
+import {
+  DEFAULT_ANALYTICS_BUCKETS,
+  DEFAULT_ANALYTICS_RANGE,
+  isAnalyticsBucket,
+  isAnalyticsRange,
+} from "@/lib/market-analytics";
+
+/**
+ * GET /api/apps/[slug]/analytics?range=30d&bucket=day
+ *
+ * An app's market over time, one point per time bucket.
+ *
+ * Query:
+ * - range: 24h | 7d | 30d | 90d | 1y | all (default 30d)
+ * - bucket: hour | day | week (default depends on the range)
+ *
+ * Response:
+ * - success: boolean
+ * - analytics: MarketAnalytics (series of floor ask, median sale,
+ *   open/high/low/close, volume, sales and unique buyers)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    const searchParams = request.nextUrl.searchParams;
+
+    const range = searchParams.get("range") ?? DEFAULT_ANALYTICS_RANGE;
+    if (!isAnalyticsRange(range)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid range: ${range}` },
+        { status: 400 }
+      );
+    }
+
+    const bucket =
+      searchParams.get("bucket") ?? DEFAULT_ANALYTICS_BUCKETS[range];
+    if (!isAnalyticsBucket(bucket)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid bucket: ${bucket}` },
+        { status: 400 }
+      );
+    }
+
+    // Older links may use the app's name instead of its id
+    const app = await findApp(slug);
+    if (!app) {
+      return NextResponse.json(
+        { success: false, error: "App not found" },
+        { status: 404 }
+      );
+    }
+
+    const result = await getMarketAnalytics(app.slug, range, bucket);
+    if (!result.ok) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ success: true, analytics: result.analytics });
+  } catch (error) {
+    console.error("Error fetching market analytics:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/mongoose";
+import { App } from "@/models/app";
+import { getAppIconBytes } from "@/lib/apps";
+
+/**
+ * GET /api/apps/[slug]/icon
+ *
+ * Serves the icon uploaded with an approved app submission.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    await connectDB();
+
+    const { slug } = await params;
+    const app = await App.findOne({ slug }).select("+icon").lean();
+
+    if (!app?.icon) {
+      return NextResponse.json(
+        { success: false, error: "Icon not found" },
+        { status: 404 }
+      );
+    }
+
+    const bytes = getAppIconBytes(app.icon);
+    if (!bytes) {
+      console.error(`Stored icon of app ${slug} is empty or truncated`);
+      return NextResponse.json(
+        { success: false, error: "Icon unavailable" },
+        { status: 500 }
+      );
+    }
+
+    return new NextResponse(bytes, {
+      headers: {
+        "Content-Type": app.icon.contentType,
+        "Cache-Control": "public, max-age=3600, stale-while-revalidate=86400",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching app icon:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
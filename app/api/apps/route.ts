@@ -1,9 +1,16 @@
 import { NextResponse } from "next/server";
 import { connectDB } from "@/lib/mongoose";
 import { Listing } from "@/models/listing";
-import { featuredApps, getFeaturedAppsForChain } from "@/data/featuredApps";
-import { getAppIconInfo } from "@/lib/url";
+import { getFaviconUrl } from "@/lib/url";
+import {
+  describeListingApp,
+  getApprovedApps,
+  getAppsBySlug,
+  getFeaturedApps,
+} from "@/lib/apps";
+import type { AppFormat } from "@/lib/listing-format";
 import { chainId } from "@/lib/chain";
+import { notExpiredFilter } from "@/lib/listing";
 
 interface AppAggregation {
   _id: string | null;
@@ -11,7 +18,7 @@ interface AppAggregation {
   totalListings: number;
   activeListings: number;
   lowestPrice: number | null;
-  sampleInviteUrl: string | null;
+  sampleInviteDomain: string | null;
   sampleAppUrl: string | null;
 }
 
@@ -26,27 +33,33 @@ interface AppData {
   activeListings: number;
   lowestPrice: number | null;
   isFeatured: boolean;
+  // Link and code rules the sell form checks as the seller types
+  format?: AppFormat;
 }
 
 /**
  * GET /api/apps
- * Returns all unique apps across all listings with aggregated data.
- * Combines featured apps data with custom apps from listings.
+ * Returns all apps with listings, plus the featured apps for the chain and apps
+ * approved from community submissions, with aggregated listing data.
+ * Names and icons come from the App registry.
  */
 export async function GET() {
   try {
     await connectDB();
 
-    // Aggregate listings by app
-    // Group by appId first (for featured apps), then by appName (for custom apps)
+    // Aggregate listings by app (appId is the app's registry id)
     const aggregations = await Listing.aggregate([
       {
-        $match: { chainId },
+        // Listings reserved for a buy order's buyer, or expired, aren't on the public market
+        $match: {
+          chainId,
+          reservedFor: { $exists: false },
+          ...notExpiredFilter(),
+        },
       },
       {
         $group: {
-          _id: { $ifNull: ["$appId", "$appName"] },
-          appId: { $first: "$appId" },
+          _id: "$appId",
           appName: { $first: "$appName" },
           totalListings: { $sum: 1 },
           activeListings: {
@@ -57,7 +70,7 @@ export async function GET() {
               $cond: [{ $eq: ["$status", "active"] }, "$priceUsdc", null],
             },
           },
-          sampleInviteUrl: { $first: "$inviteUrl" },
+          sampleInviteDomain: { $first: "$inviteDomain" },
           sampleAppUrl: { $first: "$appUrl" },
         },
       },
@@ -68,7 +81,7 @@ export async function GET() {
           totalListings: 1,
           activeListings: 1,
           lowestPrice: "$lowestActivePrice",
-          sampleInviteUrl: 1,
+          sampleInviteDomain: 1,
           sampleAppUrl: 1,
         },
       },
@@ -78,59 +91,87 @@ export async function GET() {
     const appsMap = new Map<string, AppData>();
 
     // First, add all featured apps for the current chain (even if they have no listings)
-    for (const featuredApp of getFeaturedAppsForChain()) {
-      appsMap.set(featuredApp.id, {
-        id: featuredApp.id,
-        name: featuredApp.appName,
-        iconUrl: featuredApp.appIconUrl,
-        iconNeedsDarkBg: false, // Featured apps have proper icons
-        description: featuredApp.description,
+    for (const featuredApp of await getFeaturedApps()) {
+      appsMap.set(featuredApp.slug, {
+        id: featuredApp.slug,
+        name: featuredApp.name,
+        iconUrl: featuredApp.iconUrl ?? getFaviconUrl(featuredApp.siteUrl ?? ""),
+        iconNeedsDarkBg: featuredApp.iconNeedsDarkBg ?? false,
+        description: featuredApp.description ?? "",
         siteUrl: featuredApp.siteUrl,
         totalListings: 0,
         activeListings: 0,
         lowestPrice: null,
         isFeatured: true,
+        format: featuredApp.format,
+      });
+    }
+
+    // Then apps approved from submissions (also without listings)
+    for (const approvedApp of await getApprovedApps()) {
+      appsMap.set(approvedApp.slug, {
+        id: approvedApp.slug,
+        name: approvedApp.name,
+        iconUrl:
+          approvedApp.iconUrl ?? getFaviconUrl(approvedApp.siteUrl ?? ""),
+        iconNeedsDarkBg: approvedApp.iconNeedsDarkBg ?? false,
+        description:
+          approvedApp.description ||
+          `Early access invites for ${approvedApp.name}`,
+        siteUrl: approvedApp.siteUrl,
+        totalListings: 0,
+        activeListings: 0,
+        lowestPrice: null,
+        isFeatured: false,
+        format: approvedApp.format,
       });
     }
 
+    const registryApps = await getAppsBySlug(
+      (aggregations as AppAggregation[]).map((agg) => agg._id)
+    );
+
     // Process aggregations
     for (const agg of aggregations as AppAggregation[]) {
       const appKey = agg._id;
       if (!appKey) continue;
 
-      // Check if this is a featured app
-      const featuredApp = featuredApps.find((fa) => fa.id === appKey);
-
-      if (featuredApp) {
-        // Update featured app with listing data
-        const existing = appsMap.get(featuredApp.id)!;
+      const existing = appsMap.get(appKey);
+      if (existing) {
+        // Update featured or approved app with listing data
         existing.totalListings = agg.totalListings;
         existing.activeListings = agg.activeListings;
         existing.lowestPrice = agg.lowestPrice;
-      } else {
-        // This is a custom app
-        const appName = agg.appName || appKey;
-        
-        // Use centralized icon resolution
-        const iconInfo = getAppIconInfo({
-          appName,
-          inviteUrl: agg.sampleInviteUrl || undefined,
-          appUrl: agg.sampleAppUrl || undefined,
-          listingType: agg.sampleAppUrl ? "access_code" : "invite_link",
-        });
-
-        appsMap.set(appKey, {
-          id: appKey,
-          name: appName,
-          iconUrl: iconInfo.url,
-          iconNeedsDarkBg: iconInfo.needsDarkBg || false,
-          description: `Early access invites for ${appName}`,
-          totalListings: agg.totalListings,
-          activeListings: agg.activeListings,
-          lowestPrice: agg.lowestPrice,
-          isFeatured: false,
-        });
+        continue;
       }
+
+      const app = registryApps.get(appKey);
+      const sampleListing = {
+        inviteDomain: agg.sampleInviteDomain || undefined,
+        appUrl: agg.sampleAppUrl || undefined,
+        listingType: agg.sampleAppUrl
+          ? ("access_code" as const)
+          : ("invite_link" as const),
+      };
+      const { appName, appIconUrl, iconNeedsDarkBg } = describeListingApp(
+        { ...sampleListing, appId: appKey, appName: agg.appName || undefined },
+        app
+      );
+      const name = appName || appKey;
+
+      appsMap.set(appKey, {
+        id: appKey,
+        name,
+        iconUrl: appIconUrl,
+        iconNeedsDarkBg,
+        description: app?.description || `Early access invites for ${name}`,
+        siteUrl: app?.siteUrl,
+        totalListings: agg.totalListings,
+        activeListings: agg.activeListings,
+        lowestPrice: agg.lowestPrice,
+        isFeatured: false,
+        format: app?.format,
+      });
     }
 
     // Convert to array and sort: featured first, then by active listings, then by total listings
@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB } from "@/lib/mongoose";
+import { AppSubmission } from "@/models/appSubmission";
+import { chainId } from "@/lib/chain";
+import { getSessionAddress } from "@/lib/session";
+import { findApp } from "@/lib/apps";
+import {
+  MAX_APP_ICON_BYTES,
+  MAX_PENDING_APP_SUBMISSIONS,
+  detectAppIconType,
+  toAppSubmissionSummary,
+  validateAppSubmission,
+} from "@/lib/app-submissions";
+
+/**
+ * GET /api/apps/submissions
+ *
+ * Lists the signed-in wallet's app submissions and their review status.
+ *
+ * Response:
+ * - success: boolean
+ * - submissions: AppSubmissionSummary[] (newest first)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const address = getSessionAddress(request);
+    if (!address) {
+      return NextResponse.json(
+        { success: false, error: "Sign in required" },
+        { status: 401 }
+      );
+    }
+
+    await connectDB();
+
+    const submissions = await AppSubmission.find({
+      chainId,
+      submitterAddress: address,
+    })
+      .sort({ createdAt: -1 })
+      .limit(50)
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      submissions: submissions.map(toAppSubmissionSummary),
+    });
+  } catch (error) {
+    console.error("Error fetching app submissions:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/apps/submissions
+ *
+ * Proposes an app for the registry. An admin reviews it in /admin before it is
+ * listed. Requires a signed-in wallet.
+ *
+ * Request body (multipart/form-data):
+ * - name: App name
+ * - siteUrl: The app's https:// website
+ * - description: Short description shown on /apps
+ * - icon: PNG, JPEG or WebP image, at most MAX_APP_ICON_BYTES
+ *
+ * Response:
+ * - success: boolean
+ * - submission: AppSubmissionSummary
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const address = getSessionAddress(request);
+    if (!address) {
+      return NextResponse.json(
+        { success: false, error: "Sign in required" },
+        { status: 401 }
+      );
+    }
+
+    const form = await request.formData().catch(() => null);
+    if (!form) {
+      return NextResponse.json(
+        { success: false, error: "Invalid form data" },
+        { status: 400 }
+      );
+    }
+
+    const field = (key: string) => {
+      const value = form.get(key);
+      return typeof value === "string" ? value.trim() : "";
+    };
+    const name = field("name");
+    const siteUrl = field("siteUrl");
+    const description = field("description");
+
+    const validationError = validateAppSubmission({
+      name,
+      siteUrl,
+      description,
+    });
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const file = form.get("icon");
+    if (!(file instanceof File) || file.size === 0) {
+      return NextResponse.json(
+        { success: false, error: "App icon is required" },
+        { status: 400 }
+      );
+    }
+    if (file.size > MAX_APP_ICON_BYTES) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `App icon must be at most ${MAX_APP_ICON_BYTES / 1024} KB`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = Buffer.from(await file.arrayBuffer());
+    const contentType = detectAppIconType(data);
+    if (!contentType) {
+      return NextResponse.json(
+        { success: false, error: "App icon must be a PNG, JPEG or WebP image" },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    // Custom apps someone only listed can still get their details reviewed
+    const existing = await findApp(name);
+    if (existing && (existing.featured || existing.approvedAt)) {
+      return NextResponse.json(
+        { success: false, error: `${existing.name} is already listed` },
+        { status: 409 }
+      );
+    }
+
+    const pending = await AppSubmission.countDocuments({
+      chainId,
+      submitterAddress: address,
+      status: "pending",
+    });
+    if (pending >= MAX_PENDING_APP_SUBMISSIONS) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `You can have at most ${MAX_PENDING_APP_SUBMISSIONS} submissions waiting for review`,
+        },
+        { status: 429 }
+      );
+    }
+
+    const submission = await AppSubmission.create({
+      chainId,
+      submitterAddress: address,
+      name,
+      siteUrl: new URL(siteUrl).origin,
+      description,
+      icon: { data, contentType, size: data.length },
+      status: "pending",
+    });
+
+    return NextResponse.json({
+      success: true,
+      submission: toAppSubmissionSummary(submission.toObject()),
+    });
+  } catch (error) {
+    console.error("Error submitting app:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { createSignInNonce } from "@/lib/session";
+
+/**
+ * GET /api/auth/nonce
+ *
+ * Issues a single-use nonce for a Sign-In with Ethereum (EIP-4361) message.
+ * The nonce expires after 10 minutes if it isn't used with /api/auth/verify.
+ *
+ * Response:
+ * - success: boolean
+ * - nonce: string
+ */
+export async function GET() {
+  try {
+    const nonce = await createSignInNonce();
+
+    return NextResponse.json(
+      { success: true, nonce },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("Error creating sign-in nonce:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminAddress } from "@/lib/admin-auth";
+import { clearSessionCookie, getSessionAddress } from "@/lib/session";
+
+/**
+ * GET /api/auth/session
+ *
+ * Returns the wallet signed in with this browser, if any.
+ *
+ * Response:
+ * - success: boolean
+ * - address: string | null
+ * - isAdmin: boolean
+ */
+export async function GET(request: NextRequest) {
+  const address = getSessionAddress(request);
+
+  return NextResponse.json(
+    { success: true, address, isAdmin: isAdminAddress(address) },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+/**
+ * DELETE /api/auth/session
+ *
+ * Signs out by clearing the session cookie.
+ */
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  clearSessionCookie(response);
+  return response;
+}
@@ -1,86 +1,68 @@
 import { NextRequest, NextResponse } from "next/server";
-import { verifyMessageSignature } from "@/lib/viem";
+import { isAdminAddress } from "@/lib/admin-auth";
+import {
+  isSessionConfigured,
+  setSessionCookie,
+  verifySignIn,
+} from "@/lib/session";
 
-const ADMIN_ETH_ADDRESSES = (process.env.ADMIN_ETH_ADDRESSES || "")
-  .split(",")
-  .map((addr) => addr.trim().toLowerCase())
-  .filter(Boolean);
-
-// POST - Verify SIWE signature for admin access
+/**
+ * POST /api/auth/verify
+ *
+ * Verifies a signed Sign-In with Ethereum (EIP-4361) message and starts a
+ * session for the wallet in an httpOnly cookie. The message must use a nonce
+ * from GET /api/auth/nonce.
+ *
+ * Request body:
+ * - message: The EIP-4361 message that was signed
+ * - signature: Wallet signature
+ *
+ * Response:
+ * - success: boolean
+ * - address: Signed-in wallet address (lowercase)
+ * - isAdmin: boolean
+ */
 export async function POST(request: NextRequest) {
   try {
+    if (!isSessionConfigured()) {
+      console.error("SESSION_SECRET is not configured");
+      return NextResponse.json(
+        { success: false, error: "Sign-in is not configured" },
+        { status: 500 }
+      );
+    }
+
     const body = await request.json();
-    const { address, message, signature } = body;
+    const { message, signature } = body;
 
-    if (!address || !message || !signature) {
+    if (typeof message !== "string" || typeof signature !== "string") {
       return NextResponse.json(
-        { error: "Address, message, and signature are required" },
+        { success: false, error: "Message and signature are required" },
         { status: 400 }
       );
     }
 
-    // Check if address is in admin list
-    if (!ADMIN_ETH_ADDRESSES.includes(address.toLowerCase())) {
+    const result = await verifySignIn(request, message, signature);
+    if (!result.ok) {
       return NextResponse.json(
-        { error: "Address is not authorized as admin" },
-        { status: 403 }
+        { success: false, error: result.error },
+        { status: result.status }
       );
     }
 
-    // Verify the signature
-    // Uses thirdweb's verifySignature which supports both EOAs and smart contract wallets (ERC-1271)
-    try {
-      const isValid = await verifyMessageSignature({
-        address: address as `0x${string}`,
-        message,
-        signature: signature as `0x${string}`,
-      });
-
-      if (!isValid) {
-        return NextResponse.json(
-          { error: "Invalid signature" },
-          { status: 401 }
-        );
-      }
-    } catch {
-      return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
-    }
-
-    // Check if message timestamp is recent (within 5 minutes, not in the future)
-    const timestampMatch = message.match(/Timestamp: (\d+)/);
-    if (timestampMatch) {
-      const messageTimestamp = parseInt(timestampMatch[1]);
-      const now = Date.now();
-      const fiveMinutes = 5 * 60 * 1000;
-      
-      // Reject future timestamps (with small grace period for clock skew)
-      if (messageTimestamp > now + 30000) {
-        return NextResponse.json(
-          { error: "Invalid timestamp" },
-          { status: 401 }
-        );
-      }
-      
-      // Reject timestamps older than 5 minutes
-      if (now - messageTimestamp > fiveMinutes) {
-        return NextResponse.json(
-          { error: "Signature expired. Please sign again." },
-          { status: 401 }
-        );
-      }
-    }
-
-    return NextResponse.json({
+    const response = NextResponse.json({
       success: true,
-      isAdmin: true,
-      address: address.toLowerCase(),
+      address: result.address,
+      isAdmin: isAdminAddress(result.address),
     });
+    setSessionCookie(response, result.address);
+
+    return response;
   } catch (error) {
-    console.error("Error verifying admin signature:", error);
+    console.error("Error verifying sign-in:", error);
     return NextResponse.json(
-      { error: "Internal server error" },
+      { success: false, error: "Internal server error" },
       { status: 500 }
     );
   }
 }
-
@@ -1,7 +1,9 @@
 import { NextResponse } from "next/server";
 import { Transaction } from "@/models/transaction";
+import { Dispute } from "@/models/dispute";
 import { connectDB } from "@/lib/mongoose";
 import { chainId } from "@/lib/chain";
+import { getAppsBySlug } from "@/lib/apps";
 
 export async function GET(
   request: Request,
@@ -27,6 +29,16 @@ export async function GET(
       .sort({ createdAt: -1 })
       .lean();
 
+    const apps = await getAppsBySlug(purchases.map((p) => p.appId));
+
+    const disputes = await Dispute.find({
+      buyerAddress: address.toLowerCase(),
+      chainId,
+    }).lean();
+    const disputesByTransaction = new Map(
+      disputes.map((dispute) => [dispute.transactionId.toString(), dispute])
+    );
+
     return NextResponse.json({
       success: true,
       purchases: purchases.map((p) => ({
@@ -35,7 +47,20 @@ export async function GET(
         sellerAddress: p.sellerAddress,
         priceUsdc: p.priceUsdc,
         appId: p.appId,
+        appName: apps.get(p.appId)?.name,
+        txHash: p.txHash,
+        network: p.network,
         createdAt: p.createdAt,
+        disputeStatus: p.disputeStatus,
+        escrowStatus: p.escrowStatus,
+        escrowReleaseAt: p.escrowReleaseAt,
+        payoutTxHash: p.payoutTxHash,
+        refundTxHash: disputesByTransaction.get(p._id.toString())?.refundTxHash,
+        // Comments stay private; only the outcome is public
+        deliveryFeedback: p.deliveryFeedback && {
+          worked: p.deliveryFeedback.worked,
+          submittedAt: p.deliveryFeedback.submittedAt,
+        },
       })),
     });
   } catch (error) {
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { connectDB } from "@/lib/mongoose";
+import { Transaction } from "@/models/transaction";
+import { chainId } from "@/lib/chain";
+import { authorizeSession } from "@/lib/session";
+import { MAX_FEEDBACK_COMMENT_LENGTH } from "@/lib/delivery-feedback";
+
+/**
+ * POST /api/buyer/feedback
+ *
+ * Records whether a purchased invite worked. Feedback feeds the seller's
+ * delivery success rate and can be changed later by the buyer.
+ * Requires the buyer to be signed in, like /api/buyer/reveal.
+ *
+ * Request body:
+ * - transactionId: The ID of the transaction (purchase) record
+ * - worked: boolean
+ * - comment?: string (optional, max 500 characters)
+ *
+ * Response:
+ * - success: boolean
+ * - deliveryFeedback: { worked, comment?, submittedAt }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await connectDB();
+
+    const body = await request.json();
+    const { transactionId, worked, comment } = body;
+
+    if (!transactionId) {
+      return NextResponse.json(
+        { success: false, error: "Missing required fields" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof worked !== "boolean") {
+      return NextResponse.json(
+        { success: false, error: "worked must be true or false" },
+        { status: 400 }
+      );
+    }
+
+    if (comment !== undefined && typeof comment !== "string") {
+      return NextResponse.json(
+        { success: false, error: "Invalid comment" },
+        { status: 400 }
+      );
+    }
+
+    const trimmedComment = comment?.trim() || undefined;
+    if (trimmedComment && trimmedComment.length > MAX_FEEDBACK_COMMENT_LENGTH) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Comment must be ${MAX_FEEDBACK_COMMENT_LENGTH} characters or less`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const transaction = mongoose.isValidObjectId(transactionId)
+      ? await Transaction.findById(transactionId).lean()
+      : null;
+
+    if (!transaction || transaction.chainId !== chainId) {
+      return NextResponse.json(
+        { success: false, error: "Transaction not found" },
+        { status: 404 }
+      );
+    }
+
+    // Requires the buyer's signed-in session
+    const auth = authorizeSession(request, "buyer", transaction.buyerAddress);
+    if (!auth.ok) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const deliveryFeedback = {
+      worked,
+      comment: trimmedComment,
+      submittedAt: new Date(),
+    };
+
+    await Transaction.updateOne(
+      { _id: transaction._id },
+      { $set: { deliveryFeedback } }
+    );
+
+    return NextResponse.json({ success: true, deliveryFeedback });
+  } catch (error) {
+    console.error("Error saving delivery feedback:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to save feedback" },
+      { status: 500 }
+    );
+  }
+}
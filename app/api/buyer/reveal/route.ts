@@ -3,85 +3,20 @@ import { connectDB } from "@/lib/mongoose";
 import { Transaction } from "@/models/transaction";
 import { Listing } from "@/models/listing";
 import { chainId } from "@/lib/chain";
-import { verifyMessageSignature } from "@/lib/viem";
-
-/**
- * Verify if the request is authenticated as the buyer.
- * Uses signature verification via request body:
- * - signature: The wallet signature
- * - message: Base64 encoded message that was signed
- *
- * The message should contain a timestamp that's within 5 minutes
- * and the address that signed it.
- */
-async function verifyBuyerAuth(
-  signature: string,
-  encodedMessage: string,
-  expectedAddress: string
-): Promise<boolean> {
-  if (!signature || !encodedMessage) {
-    return false;
-  }
-
-  try {
-    // Decode the base64 message
-    const message = Buffer.from(encodedMessage, "base64").toString("utf-8");
-
-    // Verify the signature matches the expected buyer address
-    // Uses thirdweb's verifySignature which supports both EOAs and smart contract wallets (ERC-1271)
-    const isValid = await verifyMessageSignature({
-      address: expectedAddress as `0x${string}`,
-      message,
-      signature: signature as `0x${string}`,
-    });
-
-    if (!isValid) {
-      return false;
-    }
-
-    // Check if message timestamp is recent (within 5 minutes, not in the future)
-    const timestampMatch = message.match(/Timestamp: (\d+)/);
-    if (timestampMatch) {
-      const messageTimestamp = parseInt(timestampMatch[1]);
-      const now = Date.now();
-      const fiveMinutes = 5 * 60 * 1000;
-
-      // Reject future timestamps (with small grace period for clock skew)
-      if (messageTimestamp > now + 30000) {
-        return false;
-      }
-
-      // Reject timestamps older than 5 minutes
-      if (now - messageTimestamp > fiveMinutes) {
-        return false;
-      }
-    }
-
-    // Verify the address in the message matches the expected address
-    const addressMatch = message.match(/Address: (0x[a-fA-F0-9]+)/i);
-    if (addressMatch) {
-      const messageAddress = addressMatch[1].toLowerCase();
-      if (messageAddress !== expectedAddress.toLowerCase()) {
-        return false;
-      }
-    }
-
-    return true;
-  } catch {
-    return false;
-  }
-}
+import { authorizeSession } from "@/lib/session";
+import { openListingSecrets } from "@/lib/listing-secrets";
+import { revealPoolCode } from "@/lib/code-pool";
+import { PoolCode } from "@/models/poolCode";
 
 /**
  * POST /api/buyer/reveal
  *
  * Reveals the secret data (inviteUrl or accessCode) for a purchased listing.
- * Requires signature verification to ensure only the buyer can access their purchase.
+ * Requires the buyer to be signed in (see /api/auth/verify), so only the buyer
+ * can access their purchase.
  *
  * Request body:
  * - transactionId: The ID of the transaction (purchase) record
- * - signature: Wallet signature
- * - message: Base64 encoded message that was signed
  *
  * Response:
  * - success: boolean
@@ -95,9 +30,9 @@ export async function POST(request: NextRequest) {
     await connectDB();
 
     const body = await request.json();
-    const { transactionId, signature, message } = body;
+    const { transactionId } = body;
 
-    if (!transactionId || !signature || !message) {
+    if (!transactionId) {
       return NextResponse.json(
         { success: false, error: "Missing required fields" },
         { status: 400 }
@@ -122,17 +57,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Verify the signature is from the buyer
-    const isAuthenticated = await verifyBuyerAuth(
-      signature,
-      message,
-      transaction.buyerAddress
-    );
-
-    if (!isAuthenticated) {
+    // Requires the buyer's signed-in session
+    const auth = authorizeSession(request, "buyer", transaction.buyerAddress);
+    if (!auth.ok) {
       return NextResponse.json(
-        { success: false, error: "Invalid signature or unauthorized" },
-        { status: 401 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
@@ -152,12 +82,35 @@ export async function POST(request: NextRequest) {
     // Return the secret data based on listing type
     const listingType = listing.listingType || "invite_link";
 
+    // Code pool listings: only the code assigned to this purchase
+    if (listing.codePoolSize) {
+      const poolCode = transaction.poolCodeId
+        ? await PoolCode.findById(transaction.poolCodeId).lean()
+        : null;
+
+      if (!poolCode) {
+        return NextResponse.json(
+          { success: false, error: "No access code assigned to this purchase" },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        listingType: "access_code",
+        appUrl: listing.appUrl,
+        accessCode: revealPoolCode(poolCode),
+      });
+    }
+
+    const secrets = openListingSecrets(listing);
+
     if (listingType === "access_code") {
       return NextResponse.json({
         success: true,
         listingType: "access_code",
         appUrl: listing.appUrl,
-        accessCode: listing.accessCode,
+        accessCode: secrets.accessCode,
       });
     }
 
@@ -165,7 +118,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       listingType: "invite_link",
-      inviteUrl: listing.inviteUrl,
+      inviteUrl: secrets.inviteUrl,
     });
   } catch (error) {
     console.error("Error revealing purchase:", error);
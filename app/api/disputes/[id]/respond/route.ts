@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { connectDB } from "@/lib/mongoose";
+import { Dispute } from "@/models/dispute";
+import { chainId } from "@/lib/chain";
+import { authorizeSession } from "@/lib/session";
+import { MAX_DISPUTE_TEXT_LENGTH, toDisputeSummary } from "@/lib/disputes";
+
+/**
+ * POST /api/disputes/[id]/respond
+ *
+ * Lets the seller respond to an open dispute before an admin resolves it.
+ * The response can be edited until the dispute is resolved. Requires the
+ * seller to be signed in.
+ *
+ * Request body:
+ * - response: The seller's side of the story (free text)
+ *
+ * Response:
+ * - success: boolean
+ * - dispute: DisputeSummary
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await connectDB();
+
+    const { id } = await params;
+    const body = await request.json();
+    const { response } = body;
+
+    const trimmedResponse = typeof response === "string" ? response.trim() : "";
+    if (!trimmedResponse) {
+      return NextResponse.json(
+        { success: false, error: "Response is required" },
+        { status: 400 }
+      );
+    }
+
+    if (trimmedResponse.length > MAX_DISPUTE_TEXT_LENGTH) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Response must be at most ${MAX_DISPUTE_TEXT_LENGTH} characters`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json(
+        { success: false, error: "Dispute not found" },
+        { status: 404 }
+      );
+    }
+
+    const dispute = await Dispute.findOne({ _id: id, chainId });
+
+    if (!dispute) {
+      return NextResponse.json(
+        { success: false, error: "Dispute not found" },
+        { status: 404 }
+      );
+    }
+
+    // Requires the seller's signed-in session
+    const auth = authorizeSession(request, "seller", dispute.sellerAddress);
+    if (!auth.ok) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    if (dispute.status !== "open") {
+      return NextResponse.json(
+        { success: false, error: "This dispute has already been resolved" },
+        { status: 409 }
+      );
+    }
+
+    dispute.sellerResponse = trimmedResponse;
+    dispute.sellerRespondedAt = new Date();
+    await dispute.save();
+
+    return NextResponse.json({
+      success: true,
+      dispute: toDisputeSummary(dispute.toObject(), true),
+    });
+  } catch (error) {
+    console.error("Error responding to dispute:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to respond to dispute" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { connectDB, isDuplicateKeyError } from "@/lib/mongoose";
+import { Transaction } from "@/models/transaction";
+import { Dispute } from "@/models/dispute";
+import { chainId } from "@/lib/chain";
+import { authorizeSession } from "@/lib/session";
+import {
+  DISPUTE_WINDOW_DAYS,
+  MAX_DISPUTE_TEXT_LENGTH,
+  isDisputeOpenable,
+  isDisputeReason,
+  toDisputeSummary,
+} from "@/lib/disputes";
+
+/**
+ * POST /api/disputes
+ *
+ * Opens a dispute on a purchase (e.g. the invite was expired or already used).
+ * Requires the buyer to be signed in, so only the buyer can dispute their
+ * purchase.
+ *
+ * Request body:
+ * - transactionId: The ID of the transaction (purchase) record
+ * - reason: "link_expired" | "already_used" | "invalid_code" | "other"
+ * - evidence: What went wrong (free text)
+ *
+ * Response:
+ * - success: boolean
+ * - dispute: DisputeSummary
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await connectDB();
+
+    const body = await request.json();
+    const { transactionId, reason, evidence } = body;
+
+    if (!transactionId) {
+      return NextResponse.json(
+        { success: false, error: "Missing required fields" },
+        { status: 400 }
+      );
+    }
+
+    if (!isDisputeReason(reason)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid dispute reason" },
+        { status: 400 }
+      );
+    }
+
+    const trimmedEvidence = typeof evidence === "string" ? evidence.trim() : "";
+    if (!trimmedEvidence) {
+      return NextResponse.json(
+        { success: false, error: "Please describe what went wrong" },
+        { status: 400 }
+      );
+    }
+
+    if (trimmedEvidence.length > MAX_DISPUTE_TEXT_LENGTH) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Description must be at most ${MAX_DISPUTE_TEXT_LENGTH} characters`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const transaction = mongoose.isValidObjectId(transactionId)
+      ? await Transaction.findById(transactionId).lean()
+      : null;
+
+    if (!transaction || transaction.chainId !== chainId) {
+      return NextResponse.json(
+        { success: false, error: "Transaction not found" },
+        { status: 404 }
+      );
+    }
+
+    // Requires the buyer's signed-in session
+    const auth = authorizeSession(request, "buyer", transaction.buyerAddress);
+    if (!auth.ok) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    if (transaction.disputeStatus) {
+      return NextResponse.json(
+        { success: false, error: "This purchase has already been disputed" },
+        { status: 409 }
+      );
+    }
+
+    if (!isDisputeOpenable(transaction.createdAt)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Disputes must be opened within ${DISPUTE_WINDOW_DAYS} days of purchase`,
+        },
+        { status: 400 }
+      );
+    }
+
+    let dispute;
+    try {
+      dispute = await Dispute.create({
+        transactionId: transaction._id,
+        listingSlug: transaction.listingSlug,
+        chainId,
+        buyerAddress: transaction.buyerAddress,
+        sellerAddress: transaction.sellerAddress,
+        priceUsdc: transaction.priceUsdc,
+        reason,
+        evidence: trimmedEvidence,
+        status: "open",
+      });
+    } catch (error) {
+      // Unique transactionId index: a concurrent request opened it first
+      if (isDuplicateKeyError(error)) {
+        return NextResponse.json(
+          { success: false, error: "This purchase has already been disputed" },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    await Transaction.updateOne(
+      { _id: transaction._id },
+      { $set: { disputeStatus: "open" } }
+    );
+
+    return NextResponse.json({
+      success: true,
+      dispute: toDisputeSummary(dispute.toObject(), true),
+    });
+  } catch (error) {
+    console.error("Error opening dispute:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to open dispute" },
+      { status: 500 }
+    );
+  }
+}
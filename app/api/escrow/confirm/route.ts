@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { connectDB } from "@/lib/mongoose";
+import { Transaction } from "@/models/transaction";
+import { chainId } from "@/lib/chain";
+import { authorizeSession } from "@/lib/session";
+import { confirmEscrowDelivery } from "@/lib/escrow";
+
+/**
+ * POST /api/escrow/confirm
+ *
+ * Buyer confirms an escrowed purchase worked, releasing the funds to the
+ * seller immediately instead of waiting for the confirmation window.
+ * Requires the buyer to be signed in, like /api/buyer/reveal.
+ *
+ * Request body:
+ * - transactionId: The ID of the transaction (purchase) record
+ *
+ * Response:
+ * - success: boolean
+ * - escrowStatus: "released"
+ * - payoutTxHash: string
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await connectDB();
+
+    const body = await request.json();
+    const { transactionId } = body;
+
+    if (!transactionId) {
+      return NextResponse.json(
+        { success: false, error: "Missing required fields" },
+        { status: 400 }
+      );
+    }
+
+    const transaction = mongoose.isValidObjectId(transactionId)
+      ? await Transaction.findById(transactionId).lean()
+      : null;
+
+    if (!transaction || transaction.chainId !== chainId) {
+      return NextResponse.json(
+        { success: false, error: "Transaction not found" },
+        { status: 404 }
+      );
+    }
+
+    // Requires the buyer's signed-in session
+    const auth = authorizeSession(request, "buyer", transaction.buyerAddress);
+    if (!auth.ok) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const result = await confirmEscrowDelivery(
+      transactionId,
+      transaction.buyerAddress
+    );
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      escrowStatus: result.status,
+      payoutTxHash: result.txHash,
+    });
+  } catch (error) {
+    console.error("Error confirming escrow delivery:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to confirm delivery" },
+      { status: 500 }
+    );
+  }
+}
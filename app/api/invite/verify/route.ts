@@ -1,38 +1,62 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createAccessToken } from "@/lib/access-token";
+import {
+  ACCESS_COOKIE_NAME,
+  ACCESS_TOKEN_TTL_SECONDS,
+  createAccessToken,
+  isAccessTokenConfigured,
+} from "@/lib/access-token";
+import {
+  redeemWhitelistInvite,
+  type InviteUnavailableReason,
+} from "@/lib/whitelist-invites";
 
-const INVITE_ACCESS_CODE = process.env.INVITE_ACCESS_CODE;
+const UNAVAILABLE_ERRORS: Record<InviteUnavailableReason, string> = {
+  not_found: "Invalid access code",
+  revoked: "This invite has been revoked",
+  expired: "This invite has expired",
+  exhausted: "This invite has already been used",
+};
 
-// POST - Validate invite code and set cookie
+// POST - Redeem an invite code and set the access cookie
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { code } = body;
 
-    if (!code) {
+    if (!code || typeof code !== "string") {
       return NextResponse.json(
         { error: "Access code is required" },
         { status: 400 }
       );
     }
 
-    if (!INVITE_ACCESS_CODE) {
+    if (!isAccessTokenConfigured()) {
       return NextResponse.json(
         { error: "Server not configured for invite access" },
         { status: 500 }
       );
     }
 
-    // Verify the code matches
-    if (code !== INVITE_ACCESS_CODE) {
+    // Recorded with the redemption so admins can see who used a code
+    const forwarded = request.headers.get("x-forwarded-for");
+    const ipAddress = forwarded
+      ? forwarded.split(",")[0].trim()
+      : request.headers.get("x-real-ip") || undefined;
+
+    const result = await redeemWhitelistInvite(code, {
+      ipAddress,
+      userAgent: request.headers.get("user-agent") || undefined,
+    });
+
+    if (!result.ok) {
       return NextResponse.json(
-        { error: "Invalid access code" },
-        { status: 401 }
+        { error: UNAVAILABLE_ERRORS[result.reason] },
+        { status: result.reason === "not_found" ? 401 : 410 }
       );
     }
 
-    // Create signed access token
-    const accessToken = createAccessToken();
+    // Create signed access token tied to this invite
+    const accessToken = createAccessToken(result.invite._id.toString());
 
     // Create response with cookie
     const response = NextResponse.json({
@@ -40,12 +64,12 @@ export async function POST(request: NextRequest) {
       message: "Access granted!",
     });
 
-    // Set httpOnly cookie that expires in 1 year
-    response.cookies.set("invite_access", accessToken, {
+    // Set httpOnly cookie that lasts as long as the token
+    response.cookies.set(ACCESS_COOKIE_NAME, accessToken, {
       httpOnly: true,
       secure: process.env.NODE_ENV === "production",
       sameSite: "lax",
-      maxAge: 365 * 24 * 60 * 60, // 1 year in seconds
+      maxAge: ACCESS_TOKEN_TTL_SECONDS,
       path: "/",
     });
 
@@ -8,6 +8,9 @@ import {
 } from "@/lib/signature";
 import { chainId } from "@/lib/chain";
 import { verifyTypedDataSignature } from "@/lib/viem";
+import { listingVersionFilter } from "@/lib/listing";
+import { invalidateListingCache } from "@/lib/listing-cache";
+import { consumeSignatureNonce, isNonceFresh } from "@/lib/used-nonces";
 
 export async function DELETE(request: NextRequest) {
   try {
@@ -15,18 +18,27 @@ export async function DELETE(request: NextRequest) {
     const {
       slug,
       sellerAddress,
+      version, // Listing version the seller signed against
       nonce,
       chainId: clientChainId,
       signature,
     } = body;
 
     // Validate required fields including signature
-    if (!slug || !sellerAddress || !nonce || !clientChainId || !signature) {
+    if (
+      !slug ||
+      !sellerAddress ||
+      !Number.isInteger(version) ||
+      version < 0 ||
+      !nonce ||
+      !clientChainId ||
+      !signature
+    ) {
       return NextResponse.json(
         {
           success: false,
           error:
-            "Missing required fields: slug, sellerAddress, nonce, chainId, signature",
+            "Missing required fields: slug, sellerAddress, version, nonce, chainId, signature",
         },
         { status: 400 }
       );
@@ -55,6 +67,7 @@ export async function DELETE(request: NextRequest) {
     const message: DeleteListingMessage = {
       slug,
       sellerAddress: sellerAddress as `0x${string}`,
+      version: BigInt(version),
       nonce: BigInt(nonce),
     };
 
@@ -81,34 +94,66 @@ export async function DELETE(request: NextRequest) {
     }
 
     // Check nonce is recent (within 5 minutes)
-    const nonceTime = Number(nonce);
-    const currentTime = Date.now();
-    const fiveMinutes = 5 * 60 * 1000;
-
-    if (Math.abs(currentTime - nonceTime) > fiveMinutes) {
+    if (!isNonceFresh(nonce)) {
       return NextResponse.json(
         { success: false, error: "Signature expired. Please try again." },
         { status: 401 }
       );
     }
 
+    // Each signed delete can only be submitted once
+    const isFirstUse = await consumeSignatureNonce({
+      signerAddress: sellerAddress,
+      nonce,
+      action: "DeleteListing",
+    });
+    if (!isFirstUse) {
+      return NextResponse.json(
+        { success: false, error: "This delete was already submitted." },
+        { status: 409 }
+      );
+    }
+
     await connectDB();
 
-    // Find and delete the listing, verifying ownership
-    const result = await Listing.deleteOne({
+    const ownedListing = {
       slug,
       sellerAddress: sellerAddress.toLowerCase(),
-      status: "active",
+      status: { $in: ["active", "expired", "paused"] },
       chainId,
+    };
+
+    // Find and delete the listing, verifying ownership and the signed version
+    const result = await Listing.deleteOne({
+      ...ownedListing,
+      ...listingVersionFilter(version),
     });
 
     if (result.deletedCount === 0) {
+      // The listing exists but was updated after the seller signed
+      const current = await Listing.findOne(ownedListing)
+        .select("version")
+        .lean();
+      if (current) {
+        return NextResponse.json(
+          {
+            success: false,
+            error:
+              "This listing changed since you signed. Reload it and try again.",
+            currentVersion: current.version ?? 0,
+          },
+          { status: 409 }
+        );
+      }
+
       return NextResponse.json(
         { success: false, error: "Listing not found or not owned by seller" },
         { status: 404 }
       );
     }
 
+    invalidateListingCache();
+
     return NextResponse.json({
       success: true,
       message: "Listing deleted successfully",
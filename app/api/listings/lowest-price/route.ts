@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { connectDB } from "@/lib/mongoose";
 import { Listing } from "@/models/listing";
 import { chainId } from "@/lib/chain";
+import { hasUsesLeftExpression, notExpiredFilter } from "@/lib/listing";
+import { findApp } from "@/lib/apps";
 
 export async function GET(request: NextRequest) {
   try {
@@ -18,25 +20,13 @@ export async function GET(request: NextRequest) {
 
     await connectDB();
 
-    // Build app matching conditions
-    // For custom apps, listings might have appId OR appName depending on how they were created:
-    // - First listing for a custom app: appName only
-    // - Subsequent listings from dropdown: appId (which equals the original appName)
-    // So we need to match by BOTH appId and appName to find all listings for the same app
-    const appMatchConditions: Record<string, unknown>[] = [];
-
-    if (appId) {
-      // Match listings where appId equals the provided appId
-      appMatchConditions.push({ appId });
-      // Also match listings where appName equals the appId (for original custom app listings)
-      appMatchConditions.push({ appName: { $regex: new RegExp(`^${appId}$`, "i") } });
-    }
-
-    if (appName) {
-      // Match listings where appName equals the provided appName (case-insensitive)
-      appMatchConditions.push({ appName: { $regex: new RegExp(`^${appName}$`, "i") } });
-      // Also match listings where appId equals the appName (for subsequent dropdown selections)
-      appMatchConditions.push({ appId: appName });
+    // Custom app names resolve through the App registry's aliases
+    const app = await findApp(appId || appName);
+    if (!app) {
+      return NextResponse.json({
+        success: true,
+        lowestPrice: null,
+      });
     }
 
     // Use aggregation pipeline for complex availability check
@@ -45,24 +35,15 @@ export async function GET(request: NextRequest) {
         $match: {
           status: "active",
           chainId,
-          $or: appMatchConditions,
+          // Listings reserved for a buy order's buyer aren't on the public market
+          reservedFor: { $exists: false },
+          ...notExpiredFilter(),
+          appId: app.slug,
         },
       },
       {
         // Add computed availability field
-        $addFields: {
-          isAvailable: {
-            $or: [
-              { $eq: ["$maxUses", -1] }, // Unlimited
-              {
-                $lt: [
-                  { $ifNull: ["$purchaseCount", 0] },
-                  { $ifNull: ["$maxUses", 1] },
-                ],
-              },
-            ],
-          },
-        },
+        $addFields: { isAvailable: hasUsesLeftExpression },
       },
       {
         // Filter to only available listings
@@ -5,49 +5,51 @@ import { customAlphabet } from "nanoid";
 import {
   getEIP712Domain,
   EIP712_TYPES,
+  EIP712_CODE_POOL_TYPES,
+  hashCodePool,
   type ListingMessage,
+  type CodePoolListingMessage,
 } from "@/lib/signature";
-import { getAppIconInfo } from "@/lib/url";
+import { describeListingApp, findApp, resolveApp } from "@/lib/apps";
+import { sealListingSecrets } from "@/lib/listing-secrets";
+import { addPoolCodes, validateCodePool } from "@/lib/code-pool";
 import { chainId } from "@/lib/chain";
 import { sendNewListingNotification } from "@/lib/discord";
 import { verifyTypedDataSignature } from "@/lib/viem";
+import { consumeSignatureNonce, isNonceFresh } from "@/lib/used-nonces";
+import { validateCustomAppDomain } from "@/lib/listing";
+import { validateListingExpiry } from "@/lib/listing-expiry";
+import { validateListingFormat } from "@/lib/listing-format";
+import { checkInviteLink, isVerifiedLive } from "@/lib/link-health";
+import { parseListingQuery } from "@/lib/listing-query";
+import { queryListings } from "@/lib/listing-feed";
+import { invalidateListingCache } from "@/lib/listing-cache";
 
 // Create a custom nanoid with URL-safe characters
 const nanoid = customAlphabet("0123456789abcdefghijklmnopqrstuvwxyz", 8);
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    await connectDB();
+    const parsed = parseListingQuery(request.nextUrl.searchParams);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
 
-    const listings = await Listing.find({ chainId })
-      .sort({ createdAt: -1 })
-      .lean();
+    const result = await queryListings(parsed.query);
+    if (!result.ok) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
 
     return NextResponse.json({
       success: true,
-      listings: listings.map((listing) => {
-        const iconInfo = getAppIconInfo(listing);
-        return {
-          slug: listing.slug,
-          listingType: listing.listingType || "invite_link",
-          priceUsdc: listing.priceUsdc,
-          sellerAddress: listing.sellerAddress,
-          status: listing.status,
-          appId: listing.appId,
-          appName: listing.appName,
-          // appUrl is public for access_code type
-          appUrl:
-            listing.listingType === "access_code" ? listing.appUrl : undefined,
-          appIconUrl: iconInfo.url,
-          iconNeedsDarkBg: iconInfo.needsDarkBg || false,
-          // Multi-use listing fields (with backward compatibility defaults)
-          maxUses: listing.maxUses ?? 1,
-          purchaseCount: listing.purchaseCount ?? 0,
-          description: listing.description,
-          createdAt: listing.createdAt,
-          updatedAt: listing.updatedAt,
-        };
-      }),
+      listings: result.page.listings,
+      nextCursor: result.page.nextCursor,
     });
   } catch (error) {
     console.error("Error fetching listings:", error);
@@ -77,6 +79,8 @@ export async function POST(request: NextRequest) {
       appName,
       maxUses = 1, // Default to 1 for single-use listings
       description,
+      codes, // access_code only: one distinct code per buyer (replaces accessCode)
+      expiresAt = 0, // Unix timestamp in seconds, 0 for a listing that never expires
     } = body;
 
     // Debug logging
@@ -92,6 +96,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // A code pool hands each buyer their own code, so it only applies to access codes
+    const isCodePool = codes !== undefined;
+    if (isCodePool && listingType !== "access_code") {
+      return NextResponse.json(
+        { error: "Code pools are only supported for access code listings" },
+        { status: 400 }
+      );
+    }
+
     // Validate required fields based on listing type
     if (listingType === "invite_link") {
       if (!inviteUrl) {
@@ -107,7 +120,12 @@ export async function POST(request: NextRequest) {
           { status: 400 }
         );
       }
-      if (!accessCode) {
+      if (isCodePool) {
+        const codePoolError = validateCodePool(codes);
+        if (codePoolError) {
+          return NextResponse.json({ error: codePoolError }, { status: 400 });
+        }
+      } else if (!accessCode) {
         return NextResponse.json(
           { error: "Access code is required for access code listings" },
           { status: 400 }
@@ -158,9 +176,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate maxUses
-    const parsedMaxUses =
-      typeof maxUses === "number" ? maxUses : parseInt(maxUses, 10);
+    // Validate maxUses (derived from the pool size for code pools)
+    const parsedMaxUses = isCodePool
+      ? codes.length
+      : typeof maxUses === "number"
+        ? maxUses
+        : parseInt(maxUses, 10);
     if (isNaN(parsedMaxUses) || parsedMaxUses < -1 || parsedMaxUses === 0) {
       return NextResponse.json(
         { error: "maxUses must be -1 (unlimited) or a positive number" },
@@ -168,6 +189,37 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const expiryError = validateListingExpiry(expiresAt);
+    if (expiryError) {
+      return NextResponse.json({ error: expiryError }, { status: 400 });
+    }
+
+    // The app being listed, if it is already in the registry (custom apps
+    // picked from the list arrive with their name or slug as appId)
+    const appKey: string = appId || appName;
+    const existingApp = await findApp(appKey);
+
+    // Links and codes must belong to the app being listed
+    const formatError = validateListingFormat({
+      app: existingApp,
+      listingType,
+      inviteUrl,
+      appUrl,
+      accessCodes: isCodePool ? codes : accessCode ? [accessCode] : [],
+    });
+    if (formatError) {
+      return NextResponse.json({ error: formatError }, { status: 400 });
+    }
+
+    // Custom apps stay on one site across listings
+    const domainError = await validateCustomAppDomain({
+      app: existingApp,
+      url: listingType === "invite_link" ? inviteUrl : appUrl,
+    });
+    if (domainError) {
+      return NextResponse.json({ error: domainError }, { status: 400 });
+    }
+
     // Validate Ethereum address format
     if (!/^0x[a-fA-F0-9]{40}$/.test(sellerAddress)) {
       return NextResponse.json(
@@ -177,30 +229,56 @@ export async function POST(request: NextRequest) {
     }
 
     // Verify EIP-712 signature
-    const message: ListingMessage = {
-      listingType,
-      inviteUrl: inviteUrl || "",
-      appUrl: appUrl || "",
-      accessCode: accessCode || "",
-      priceUsdc: priceUsdc.toString(),
-      sellerAddress: sellerAddress as `0x${string}`,
-      appId: appId || "",
-      appName: appName || "",
-      maxUses: parsedMaxUses.toString(),
-      nonce: BigInt(nonce),
-    };
-
     // Use thirdweb's verifyTypedData which supports both:
     // - EOA signatures (standard ECDSA verification)
     // - Smart contract wallet signatures (ERC-1271 isValidSignature)
-    const isValid = await verifyTypedDataSignature({
-      address: sellerAddress as `0x${string}`,
-      domain: getEIP712Domain(chainId),
-      types: EIP712_TYPES,
-      primaryType: "CreateListing",
-      message: message as unknown as Record<string, unknown>,
-      signature: signature as `0x${string}`,
-    });
+    let isValid: boolean;
+    if (isCodePool) {
+      // The seller signs a hash of the codes rather than the codes themselves
+      const message: CodePoolListingMessage = {
+        appUrl: appUrl || "",
+        codePoolHash: hashCodePool(codes),
+        codeCount: codes.length.toString(),
+        priceUsdc: priceUsdc.toString(),
+        sellerAddress: sellerAddress as `0x${string}`,
+        appId: appId || "",
+        appName: appName || "",
+        expiresAt: BigInt(expiresAt),
+        nonce: BigInt(nonce),
+      };
+
+      isValid = await verifyTypedDataSignature({
+        address: sellerAddress as `0x${string}`,
+        domain: getEIP712Domain(chainId),
+        types: EIP712_CODE_POOL_TYPES,
+        primaryType: "CreateCodePoolListing",
+        message: message as unknown as Record<string, unknown>,
+        signature: signature as `0x${string}`,
+      });
+    } else {
+      const message: ListingMessage = {
+        listingType,
+        inviteUrl: inviteUrl || "",
+        appUrl: appUrl || "",
+        accessCode: accessCode || "",
+        priceUsdc: priceUsdc.toString(),
+        sellerAddress: sellerAddress as `0x${string}`,
+        appId: appId || "",
+        appName: appName || "",
+        maxUses: parsedMaxUses.toString(),
+        expiresAt: BigInt(expiresAt),
+        nonce: BigInt(nonce),
+      };
+
+      isValid = await verifyTypedDataSignature({
+        address: sellerAddress as `0x${string}`,
+        domain: getEIP712Domain(chainId),
+        types: EIP712_TYPES,
+        primaryType: "CreateListing",
+        message: message as unknown as Record<string, unknown>,
+        signature: signature as `0x${string}`,
+      });
+    }
 
     if (!isValid) {
       return NextResponse.json(
@@ -212,17 +290,50 @@ export async function POST(request: NextRequest) {
     }
 
     // Additional security: Check nonce is recent (within 5 minutes)
-    const nonceTime = Number(nonce);
-    const currentTime = Date.now();
-    const fiveMinutes = 5 * 60 * 1000;
-
-    if (Math.abs(currentTime - nonceTime) > fiveMinutes) {
+    if (!isNonceFresh(nonce)) {
       return NextResponse.json(
         { error: "Signature expired. Please try again." },
         { status: 401 }
       );
     }
 
+    // Probe the invite before listing it, so buyers don't pay for a dead link.
+    // Unreachable links are still listed; later checks pause them if they stay down.
+    const linkCheck =
+      listingType === "invite_link"
+        ? await checkInviteLink(inviteUrl, existingApp?.slug)
+        : null;
+    if (linkCheck?.status === "dead") {
+      return NextResponse.json(
+        {
+          error: `This invite link looks dead: ${linkCheck.reason}. Check it and try again.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Each signed listing can only be submitted once
+    const isFirstUse = await consumeSignatureNonce({
+      signerAddress: sellerAddress,
+      nonce,
+      action: isCodePool ? "CreateCodePoolListing" : "CreateListing",
+    });
+    if (!isFirstUse) {
+      return NextResponse.json(
+        {
+          error:
+            "This listing was already submitted. Check your profile before listing again.",
+        },
+        { status: 409 }
+      );
+    }
+
+    // A custom app nobody has listed yet joins the registry with this listing
+    const app = await resolveApp({
+      appKey,
+      url: listingType === "invite_link" ? inviteUrl : appUrl,
+    });
+
     // Generate unique slug
     let slug = nanoid();
     let isUnique = false;
@@ -256,25 +367,57 @@ export async function POST(request: NextRequest) {
       chainId,
       maxUses: parsedMaxUses,
       purchaseCount: 0,
-      ...(listingType === "invite_link" ? { inviteUrl } : {}),
-      ...(listingType === "access_code" ? { appUrl, accessCode } : {}),
-      ...(appId && appId.trim() ? { appId: appId.trim() } : {}),
-      ...(appName && appName.trim() ? { appName: appName.trim() } : {}),
+      // Secrets are encrypted before they reach the database
+      ...(listingType === "invite_link"
+        ? sealListingSecrets(slug, { inviteUrl })
+        : {}),
+      ...(listingType === "access_code"
+        ? isCodePool
+          ? { appUrl, codePoolSize: codes.length }
+          : { appUrl, ...sealListingSecrets(slug, { accessCode }) }
+        : {}),
+      appId: app.slug,
+      ...(app.featured ? {} : { appName: app.name }),
       ...(description && description.trim()
         ? { description: description.trim() }
         : {}),
+      ...(expiresAt ? { expiresAt: new Date(expiresAt * 1000) } : {}),
+      ...(linkCheck
+        ? {
+            healthStatus: linkCheck.status,
+            healthReason: linkCheck.reason,
+            healthCheckedAt: linkCheck.checkedAt,
+            // Dead links were rejected above
+            healthFailures: 0,
+          }
+        : {}),
     };
 
     const listing = await Listing.create(listingData);
 
+    if (isCodePool) {
+      try {
+        await addPoolCodes(slug, codes, 0);
+      } catch (error) {
+        // Never leave a listing on sale without its codes
+        await Listing.deleteOne({ _id: listing._id });
+        throw error;
+      }
+    }
+
+    invalidateListingCache();
+
+    const listingApp = describeListingApp(listing, app);
+
     // Send Discord notification (fire-and-forget, won't block response)
     // NOTE: Only safe, public data is passed - inviteUrl and accessCode are intentionally excluded
     sendNewListingNotification(
       {
         slug: listing.slug,
         listingType: listing.listingType || "invite_link",
-        appName: listing.appName,
+        appName: listingApp.appName,
         appId: listing.appId,
+        appIconUrl: listingApp.appIconUrl,
         appUrl:
           listing.listingType === "access_code" ? listing.appUrl : undefined,
         priceUsdc: listing.priceUsdc,
@@ -284,14 +427,6 @@ export async function POST(request: NextRequest) {
       chainId
     );
 
-    const createdListingIconInfo = getAppIconInfo({
-      appId: listing.appId,
-      appName: listing.appName,
-      inviteUrl: listing.inviteUrl,
-      appUrl: listing.appUrl,
-      listingType: listing.listingType,
-    });
-
     return NextResponse.json(
       {
         success: true,
@@ -306,12 +441,14 @@ export async function POST(request: NextRequest) {
           sellerAddress: listing.sellerAddress,
           status: listing.status,
           appId: listing.appId,
-          appName: listing.appName,
-          appIconUrl: createdListingIconInfo.url,
-          iconNeedsDarkBg: createdListingIconInfo.needsDarkBg || false,
+          ...listingApp,
           maxUses: listing.maxUses,
           purchaseCount: listing.purchaseCount,
+          codePool: !!listing.codePoolSize,
           description: listing.description,
+          expiresAt: listing.expiresAt,
+          verifiedLive: isVerifiedLive(listing),
+          healthCheckedAt: listing.healthCheckedAt,
           createdAt: listing.createdAt,
         },
       },
@@ -1,13 +1,40 @@
 import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
 import { connectDB } from "@/lib/mongoose";
 import { Listing, type ListingType } from "@/models/listing";
 import {
   getEIP712Domain,
   EIP712_UPDATE_TYPES,
+  EIP712_CODE_POOL_UPDATE_TYPES,
+  hashCodePool,
   type UpdateListingMessage,
+  type UpdateCodePoolListingMessage,
 } from "@/lib/signature";
 import { chainId } from "@/lib/chain";
+import { invalidateListingCache } from "@/lib/listing-cache";
 import { verifyTypedDataSignature } from "@/lib/viem";
+import { openListingSecrets, sealListingSecrets } from "@/lib/listing-secrets";
+import { addPoolCodes, getPoolCodes, validateCodePool } from "@/lib/code-pool";
+import {
+  listingVersionFilter,
+  validateCustomAppDomain,
+} from "@/lib/listing";
+import { consumeSignatureNonce, isNonceFresh } from "@/lib/used-nonces";
+import {
+  isPastExpiry,
+  toListingExpirySeconds,
+  validateListingExpiry,
+} from "@/lib/listing-expiry";
+import {
+  checkInviteLink,
+  isVerifiedLive,
+  recordLinkCheck,
+} from "@/lib/link-health";
+import { validateListingFormat } from "@/lib/listing-format";
+import { findApp, resolveApp } from "@/lib/apps";
+
+const LISTING_CHANGED_ERROR =
+  "This listing changed since you signed. Reload it and try again.";
 
 export async function PATCH(request: NextRequest) {
   try {
@@ -23,18 +50,29 @@ export async function PATCH(request: NextRequest) {
       appName,
       maxUses,
       description,
+      codes, // Code pool listings only: codes to append to the pool
+      expiresAt, // Unix seconds (0 = never expires); a new expiry renews the listing
+      version, // Listing version the seller signed against
       nonce,
       chainId: clientChainId,
       signature,
     } = body;
 
     // Validate required fields including signature
-    if (!slug || !sellerAddress || !nonce || !clientChainId || !signature) {
+    if (
+      !slug ||
+      !sellerAddress ||
+      !Number.isInteger(version) ||
+      version < 0 ||
+      !nonce ||
+      !clientChainId ||
+      !signature
+    ) {
       return NextResponse.json(
         {
           success: false,
           error:
-            "Missing required fields: slug, sellerAddress, nonce, chainId, signature",
+            "Missing required fields: slug, sellerAddress, version, nonce, chainId, signature",
         },
         { status: 400 }
       );
@@ -62,10 +100,11 @@ export async function PATCH(request: NextRequest) {
     await connectDB();
 
     // Find the listing first to determine its type
+    // Expired and paused listings stay editable so the seller can renew or fix them
     const listing = await Listing.findOne({
       slug,
       sellerAddress: sellerAddress.toLowerCase(),
-      status: "active",
+      status: { $in: ["active", "expired", "paused"] },
       chainId,
     });
 
@@ -78,37 +117,83 @@ export async function PATCH(request: NextRequest) {
 
     const listingType: ListingType = listing.listingType || "invite_link";
 
+    const isCodePool = !!listing.codePoolSize;
+    const addedCodes: string[] = Array.isArray(codes) ? codes : [];
+
     // Get current maxUses for the message (use provided value or current)
     const currentMaxUses = listing.maxUses ?? 1;
-    const messageMaxUses =
-      maxUses !== undefined ? maxUses.toString() : currentMaxUses.toString();
 
-    // Verify EIP-712 signature
-    const message: UpdateListingMessage = {
-      slug,
-      listingType,
-      inviteUrl: inviteUrl || "",
-      appUrl: appUrl || "",
-      accessCode: accessCode || "",
-      priceUsdc: priceUsdc?.toString() || "",
-      sellerAddress: sellerAddress as `0x${string}`,
-      appName: appName || "",
-      maxUses: messageMaxUses,
-      description: description || "",
-      nonce: BigInt(nonce),
-    };
+    // Expiry after the update (use provided value or current)
+    const currentExpiresAt = toListingExpirySeconds(listing.expiresAt);
+    const newExpiresAt = expiresAt ?? currentExpiresAt;
+    if (newExpiresAt !== currentExpiresAt) {
+      const expiryError = validateListingExpiry(newExpiresAt);
+      if (expiryError) {
+        return NextResponse.json(
+          { success: false, error: expiryError },
+          { status: 400 }
+        );
+      }
+    }
 
+    // Verify EIP-712 signature
     // Use thirdweb's verifyTypedData which supports both:
     // - EOA signatures (standard ECDSA verification)
     // - Smart contract wallet signatures (ERC-1271 isValidSignature)
-    const isValid = await verifyTypedDataSignature({
-      address: sellerAddress as `0x${string}`,
-      domain: getEIP712Domain(chainId),
-      types: EIP712_UPDATE_TYPES,
-      primaryType: "UpdateListing",
-      message: message as unknown as Record<string, unknown>,
-      signature: signature as `0x${string}`,
-    });
+    let isValid: boolean;
+    if (isCodePool) {
+      // maxUses follows the pool size, so only added codes are signed (as a hash)
+      const message: UpdateCodePoolListingMessage = {
+        slug,
+        appUrl: appUrl || "",
+        addedCodesHash: hashCodePool(addedCodes),
+        addedCodeCount: addedCodes.length.toString(),
+        priceUsdc: priceUsdc?.toString() || "",
+        sellerAddress: sellerAddress as `0x${string}`,
+        appName: appName || "",
+        description: description || "",
+        expiresAt: BigInt(newExpiresAt),
+        version: BigInt(version),
+        nonce: BigInt(nonce),
+      };
+
+      isValid = await verifyTypedDataSignature({
+        address: sellerAddress as `0x${string}`,
+        domain: getEIP712Domain(chainId),
+        types: EIP712_CODE_POOL_UPDATE_TYPES,
+        primaryType: "UpdateCodePoolListing",
+        message: message as unknown as Record<string, unknown>,
+        signature: signature as `0x${string}`,
+      });
+    } else {
+      const messageMaxUses =
+        maxUses !== undefined ? maxUses.toString() : currentMaxUses.toString();
+
+      const message: UpdateListingMessage = {
+        slug,
+        listingType,
+        inviteUrl: inviteUrl || "",
+        appUrl: appUrl || "",
+        accessCode: accessCode || "",
+        priceUsdc: priceUsdc?.toString() || "",
+        sellerAddress: sellerAddress as `0x${string}`,
+        appName: appName || "",
+        maxUses: messageMaxUses,
+        description: description || "",
+        expiresAt: BigInt(newExpiresAt),
+        version: BigInt(version),
+        nonce: BigInt(nonce),
+      };
+
+      isValid = await verifyTypedDataSignature({
+        address: sellerAddress as `0x${string}`,
+        domain: getEIP712Domain(chainId),
+        types: EIP712_UPDATE_TYPES,
+        primaryType: "UpdateListing",
+        message: message as unknown as Record<string, unknown>,
+        signature: signature as `0x${string}`,
+      });
+    }
 
     if (!isValid) {
       return NextResponse.json(
@@ -121,17 +206,108 @@ export async function PATCH(request: NextRequest) {
     }
 
     // Check nonce is recent (within 5 minutes)
-    const nonceTime = Number(nonce);
-    const currentTime = Date.now();
-    const fiveMinutes = 5 * 60 * 1000;
-
-    if (Math.abs(currentTime - nonceTime) > fiveMinutes) {
+    if (!isNonceFresh(nonce)) {
       return NextResponse.json(
         { success: false, error: "Signature expired. Please try again." },
         { status: 401 }
       );
     }
 
+    // The app the listing will belong to: the current one unless the seller
+    // picked another (by slug or name). A new custom app is only added to the
+    // registry once the update's nonce is consumed.
+    const nextAppKey: string | undefined =
+      appId?.trim() || appName?.trim() || undefined;
+    const nextApp = await findApp(nextAppKey ?? listing.appId);
+    const appChanged = !!nextAppKey && nextApp?.slug !== listing.appId;
+
+    // Links and codes must belong to the listing's app. Unchanged values are only
+    // re-checked when the app changes, so older listings stay editable.
+    const currentSecrets = openListingSecrets(listing);
+    const nextInviteUrl =
+      inviteUrl || (appChanged ? currentSecrets.inviteUrl : undefined);
+    const nextAppUrl = appUrl || (appChanged ? listing.appUrl : undefined);
+    const nextAccessCode =
+      accessCode || (appChanged ? currentSecrets.accessCode : undefined);
+
+    const formatError = validateListingFormat({
+      app: nextApp,
+      listingType,
+      inviteUrl: nextInviteUrl,
+      appUrl: nextAppUrl,
+      accessCodes: isCodePool
+        ? addedCodes
+        : nextAccessCode
+          ? [nextAccessCode]
+          : [],
+    });
+    if (formatError) {
+      return NextResponse.json(
+        { success: false, error: formatError },
+        { status: 400 }
+      );
+    }
+
+    const nextUrl = listingType === "invite_link" ? nextInviteUrl : nextAppUrl;
+    if (nextUrl) {
+      const domainError = await validateCustomAppDomain({
+        app: nextApp,
+        url: nextUrl,
+        excludeSlug: listing.slug,
+      });
+      if (domainError) {
+        return NextResponse.json(
+          { success: false, error: domainError },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Re-check the invite the listing will sell: the new link, or the current one.
+    // A live result also puts a listing paused by failed checks back on sale.
+    const checkedInviteUrl =
+      typeof inviteUrl === "string" && inviteUrl
+        ? inviteUrl
+        : currentSecrets.inviteUrl;
+    const linkCheck =
+      listingType === "invite_link" && checkedInviteUrl
+        ? await checkInviteLink(checkedInviteUrl, nextApp?.slug)
+        : null;
+    if (linkCheck?.status === "dead") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `This invite link looks dead: ${linkCheck.reason}. Update it and try again.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Each signed update can only be applied once
+    const isFirstUse = await consumeSignatureNonce({
+      signerAddress: sellerAddress,
+      nonce,
+      action: isCodePool ? "UpdateCodePoolListing" : "UpdateListing",
+    });
+    if (!isFirstUse) {
+      return NextResponse.json(
+        { success: false, error: "This update was already submitted." },
+        { status: 409 }
+      );
+    }
+
+    // Reject updates signed against an older version of the listing
+    if ((listing.version ?? 0) !== version) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: LISTING_CHANGED_ERROR,
+          currentVersion: listing.version ?? 0,
+        },
+        { status: 409 }
+      );
+    }
+
     // Update allowed fields
     if (priceUsdc !== undefined) {
       if (typeof priceUsdc !== "number" || priceUsdc <= 0) {
@@ -154,7 +330,7 @@ export async function PATCH(request: NextRequest) {
             { status: 400 }
           );
         }
-        listing.inviteUrl = inviteUrl;
+        listing.set(sealListingSecrets(listing.slug, { inviteUrl }));
       }
     } else if (listingType === "access_code") {
       // Update appUrl if provided
@@ -167,24 +343,27 @@ export async function PATCH(request: NextRequest) {
         }
         listing.appUrl = appUrl;
       }
-      // Update accessCode if provided
-      if (accessCode !== undefined && accessCode !== "") {
+      // Update accessCode if provided (code pools hand out codes from the pool instead)
+      if (!isCodePool && accessCode !== undefined && accessCode !== "") {
         if (typeof accessCode !== "string") {
           return NextResponse.json(
             { success: false, error: "Invalid access code" },
             { status: 400 }
           );
         }
-        listing.accessCode = accessCode;
+        listing.set(sealListingSecrets(listing.slug, { accessCode }));
       }
     }
 
-    if (appId !== undefined) {
-      listing.appId = appId?.trim() || undefined;
-    }
-
-    if (appName !== undefined) {
-      listing.appName = appName?.trim() || undefined;
+    if (appChanged) {
+      const app =
+        nextApp ??
+        (await resolveApp({
+          appKey: nextAppKey!,
+          url: listingType === "invite_link" ? checkedInviteUrl : listing.appUrl,
+        }));
+      listing.appId = app.slug;
+      listing.appName = app.featured ? undefined : app.name;
     }
 
     // Update description if provided (can be empty string to clear it)
@@ -192,8 +371,27 @@ export async function PATCH(request: NextRequest) {
       listing.description = description?.trim() || undefined;
     }
 
+    // Validate codes to append to a code pool (added after the listing is saved)
+    if (isCodePool && addedCodes.length > 0) {
+      const codePoolError = validateCodePool(codes, listing.codePoolSize);
+      if (codePoolError) {
+        return NextResponse.json(
+          { success: false, error: codePoolError },
+          { status: 400 }
+        );
+      }
+
+      const existingCodes = new Set(await getPoolCodes(listing.slug));
+      if (addedCodes.some((code) => existingCodes.has(code))) {
+        return NextResponse.json(
+          { success: false, error: "Some codes are already in this listing's pool" },
+          { status: 400 }
+        );
+      }
+    }
+
     // Handle maxUses update (only allow increasing to prevent abuse)
-    if (maxUses !== undefined) {
+    if (!isCodePool && maxUses !== undefined) {
       const newMaxUses =
         typeof maxUses === "number" ? maxUses : parseInt(maxUses, 10);
 
@@ -226,6 +424,16 @@ export async function PATCH(request: NextRequest) {
       listing.maxUses = newMaxUses;
     }
 
+    // A new expiry renews the listing, putting an expired one back on sale
+    if (newExpiresAt !== currentExpiresAt) {
+      listing.expiresAt = newExpiresAt
+        ? new Date(newExpiresAt * 1000)
+        : undefined;
+    }
+    if (listing.status === "expired" && !isPastExpiry(listing.expiresAt)) {
+      listing.status = "active";
+    }
+
     // Ensure at least appId or appName exists
     if (!listing.appId && !listing.appName) {
       return NextResponse.json(
@@ -234,7 +442,44 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
-    await listing.save();
+    // Only save if nobody updated the listing since it was loaded
+    listing.$where = listingVersionFilter(version);
+    listing.version = version + 1;
+    try {
+      await listing.save();
+    } catch (error) {
+      if (error instanceof mongoose.Error.DocumentNotFoundError) {
+        return NextResponse.json(
+          { success: false, error: LISTING_CHANGED_ERROR },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    const checked = linkCheck
+      ? await recordLinkCheck(listing.slug, linkCheck)
+      : null;
+
+    // Append codes to the pool; maxUses grows with it
+    if (isCodePool && addedCodes.length > 0) {
+      // Claim positions atomically so concurrent appends never collide
+      const grown = await Listing.findOneAndUpdate(
+        { _id: listing._id },
+        {
+          $inc: {
+            codePoolSize: addedCodes.length,
+            maxUses: addedCodes.length,
+          },
+        },
+        { new: true }
+      );
+      const startPosition = (grown?.codePoolSize ?? 0) - addedCodes.length;
+      await addPoolCodes(listing.slug, addedCodes, startPosition);
+      listing.maxUses = grown?.maxUses ?? listing.maxUses;
+    }
+
+    invalidateListingCache();
 
     return NextResponse.json({
       success: true,
@@ -250,8 +495,12 @@ export async function PATCH(request: NextRequest) {
         appName: listing.appName,
         maxUses: listing.maxUses ?? 1,
         purchaseCount: listing.purchaseCount ?? 0,
+        codePool: isCodePool,
         description: listing.description,
-        status: listing.status,
+        status: checked?.status ?? listing.status,
+        expiresAt: listing.expiresAt,
+        verifiedLive: isVerifiedLive(checked ?? listing),
+        version: listing.version,
         updatedAt: listing.updatedAt,
       },
     });
@@ -0,0 +1,206 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { connectDB } from "@/lib/mongoose";
+import { Offer } from "@/models/offer";
+import { Listing } from "@/models/listing";
+import {
+  getEIP712Domain,
+  EIP712_ACCEPT_OFFER_TYPES,
+  type AcceptOfferMessage,
+} from "@/lib/signature";
+import { chainId } from "@/lib/chain";
+import { verifyTypedDataSignature } from "@/lib/viem";
+import { isNonceFresh } from "@/lib/used-nonces";
+import { isListingAvailable } from "@/lib/listing";
+import {
+  OFFER_PAYMENT_WINDOW_HOURS,
+  isOfferAcceptable,
+  toOfferSummary,
+} from "@/lib/offers";
+
+/**
+ * POST /api/offers/[id]/accept
+ *
+ * Seller accepts an offer on one of their listings (EIP-712 AcceptOffer).
+ * App-wide offers can be accepted on any of the seller's listings for that app.
+ * The buyer then has OFFER_PAYMENT_WINDOW_HOURS to pay through
+ * /api/purchase/[slug]?offer=<id>.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const {
+      listingSlug,
+      sellerAddress,
+      nonce,
+      chainId: clientChainId,
+      signature,
+    } = body;
+
+    if (
+      !listingSlug ||
+      !sellerAddress ||
+      !nonce ||
+      !clientChainId ||
+      !signature
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            "Missing required fields: listingSlug, sellerAddress, nonce, chainId, signature",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate that the client's chainId matches the server's expected chainId
+    if (clientChainId !== chainId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid chain. Expected chainId ${chainId}, got ${clientChainId}. Please switch to the correct network.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate Ethereum address format
+    if (!/^0x[a-fA-F0-9]{40}$/.test(sellerAddress)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid Ethereum address format" },
+        { status: 400 }
+      );
+    }
+
+    // Verify EIP-712 signature
+    const message: AcceptOfferMessage = {
+      offerId: id,
+      listingSlug,
+      sellerAddress: sellerAddress as `0x${string}`,
+      nonce: BigInt(nonce),
+    };
+
+    const isValid = await verifyTypedDataSignature({
+      address: sellerAddress as `0x${string}`,
+      domain: getEIP712Domain(chainId),
+      types: EIP712_ACCEPT_OFFER_TYPES,
+      primaryType: "AcceptOffer",
+      message: message as unknown as Record<string, unknown>,
+      signature: signature as `0x${string}`,
+    });
+
+    if (!isValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid signature. Please sign the message with your wallet.",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Check nonce is recent
+    if (!isNonceFresh(nonce)) {
+      return NextResponse.json(
+        { success: false, error: "Signature expired. Please try again." },
+        { status: 401 }
+      );
+    }
+
+    await connectDB();
+
+    const offer = mongoose.isValidObjectId(id)
+      ? await Offer.findOne({ _id: id, chainId }).lean()
+      : null;
+
+    if (!offer) {
+      return NextResponse.json(
+        { success: false, error: "Offer not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!isOfferAcceptable(offer)) {
+      return NextResponse.json(
+        { success: false, error: "Offer is no longer open" },
+        { status: 409 }
+      );
+    }
+
+    const listing = await Listing.findOne({
+      slug: listingSlug,
+      sellerAddress: sellerAddress.toLowerCase(),
+      chainId,
+    })
+      .select(
+        "slug appId status maxUses purchaseCount expiresAt reservedFor"
+      )
+      .lean();
+
+    // Listings that fill a buy order are already promised to that buyer
+    if (!listing || !isListingAvailable(listing) || listing.reservedFor) {
+      return NextResponse.json(
+        { success: false, error: "Listing not found or not available" },
+        { status: 404 }
+      );
+    }
+
+    const matchesOffer = offer.listingSlug
+      ? offer.listingSlug === listing.slug
+      : offer.appId === listing.appId;
+
+    if (!matchesOffer) {
+      return NextResponse.json(
+        { success: false, error: "This offer is for a different listing" },
+        { status: 400 }
+      );
+    }
+
+    if (offer.buyerAddress === sellerAddress.toLowerCase()) {
+      return NextResponse.json(
+        { success: false, error: "You can't accept your own offer" },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date();
+    const accepted = await Offer.findOneAndUpdate(
+      { _id: offer._id, status: "open", expiresAt: { $gt: now } },
+      {
+        $set: {
+          status: "accepted",
+          acceptedListingSlug: listing.slug,
+          acceptedBy: sellerAddress.toLowerCase(),
+          acceptedAt: now,
+          paymentDeadline: new Date(
+            now.getTime() + OFFER_PAYMENT_WINDOW_HOURS * 60 * 60 * 1000
+          ),
+        },
+      },
+      { new: true }
+    ).lean();
+
+    if (!accepted) {
+      return NextResponse.json(
+        { success: false, error: "Offer is no longer open" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      offer: toOfferSummary(accepted),
+    });
+  } catch (error) {
+    console.error("Error accepting offer:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to accept offer" },
+      { status: 500 }
+    );
+  }
+}
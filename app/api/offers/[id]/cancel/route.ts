@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { connectDB } from "@/lib/mongoose";
+import { Offer } from "@/models/offer";
+import { Listing } from "@/models/listing";
+import {
+  getEIP712Domain,
+  EIP712_CANCEL_OFFER_TYPES,
+  type CancelOfferMessage,
+} from "@/lib/signature";
+import { chainId } from "@/lib/chain";
+import { verifyTypedDataSignature } from "@/lib/viem";
+import { isNonceFresh } from "@/lib/used-nonces";
+import { toOfferSummary } from "@/lib/offers";
+
+/**
+ * POST /api/offers/[id]/cancel
+ *
+ * Buyer withdraws an open or accepted (not yet paid) offer (EIP-712 CancelOffer).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { buyerAddress, nonce, chainId: clientChainId, signature } = body;
+
+    if (!buyerAddress || !nonce || !clientChainId || !signature) {
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            "Missing required fields: buyerAddress, nonce, chainId, signature",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate that the client's chainId matches the server's expected chainId
+    if (clientChainId !== chainId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid chain. Expected chainId ${chainId}, got ${clientChainId}. Please switch to the correct network.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate Ethereum address format
+    if (!/^0x[a-fA-F0-9]{40}$/.test(buyerAddress)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid Ethereum address format" },
+        { status: 400 }
+      );
+    }
+
+    // Verify EIP-712 signature
+    const message: CancelOfferMessage = {
+      offerId: id,
+      buyerAddress: buyerAddress as `0x${string}`,
+      nonce: BigInt(nonce),
+    };
+
+    const isValid = await verifyTypedDataSignature({
+      address: buyerAddress as `0x${string}`,
+      domain: getEIP712Domain(chainId),
+      types: EIP712_CANCEL_OFFER_TYPES,
+      primaryType: "CancelOffer",
+      message: message as unknown as Record<string, unknown>,
+      signature: signature as `0x${string}`,
+    });
+
+    if (!isValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid signature. Please sign the message with your wallet.",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Check nonce is recent
+    if (!isNonceFresh(nonce)) {
+      return NextResponse.json(
+        { success: false, error: "Signature expired. Please try again." },
+        { status: 401 }
+      );
+    }
+
+    await connectDB();
+
+    // A payment in progress ("purchasing") can't be cancelled
+    const cancelled = mongoose.isValidObjectId(id)
+      ? await Offer.findOneAndUpdate(
+          {
+            _id: id,
+            chainId,
+            buyerAddress: buyerAddress.toLowerCase(),
+            status: { $in: ["open", "accepted"] },
+          },
+          { $set: { status: "cancelled", cancelledAt: new Date() } },
+          { new: true }
+        ).lean()
+      : null;
+
+    if (!cancelled) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Offer not found or can no longer be cancelled",
+        },
+        { status: 404 }
+      );
+    }
+
+    // A listing created to fill this buy order can't be bought by anyone else
+    if (cancelled.acceptedListingSlug) {
+      await Listing.updateOne(
+        {
+          slug: cancelled.acceptedListingSlug,
+          reservedOfferId: cancelled._id,
+          status: "active",
+        },
+        { $set: { status: "cancelled" } }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      offer: toOfferSummary(cancelled),
+    });
+  } catch (error) {
+    console.error("Error cancelling offer:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to cancel offer" },
+      { status: 500 }
+    );
+  }
+}
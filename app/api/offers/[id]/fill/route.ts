@@ -0,0 +1,329 @@
+import { NextRequest, NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { customAlphabet } from "nanoid";
+import { connectDB } from "@/lib/mongoose";
+import { Offer } from "@/models/offer";
+import { Listing } from "@/models/listing";
+import {
+  getEIP712Domain,
+  EIP712_FILL_ORDER_TYPES,
+  type FillOrderMessage,
+} from "@/lib/signature";
+import { chainId } from "@/lib/chain";
+import { verifyTypedDataSignature } from "@/lib/viem";
+import { isNonceFresh } from "@/lib/used-nonces";
+import { sealListingSecrets } from "@/lib/listing-secrets";
+import { sendBuyOrderFilledNotification } from "@/lib/discord";
+import { validateListingFormat } from "@/lib/listing-format";
+import { findApp } from "@/lib/apps";
+import { validateCustomAppDomain } from "@/lib/listing";
+import { checkInviteLink } from "@/lib/link-health";
+import {
+  OFFER_PAYMENT_WINDOW_HOURS,
+  isOfferAcceptable,
+  toOfferSummary,
+} from "@/lib/offers";
+
+// Create a custom nanoid with URL-safe characters
+const nanoid = customAlphabet("0123456789abcdefghijklmnopqrstuvwxyz", 8);
+
+/**
+ * POST /api/offers/[id]/fill
+ *
+ * Seller fills an app buy order (an offer with an appId) by creating a
+ * single-use listing at the order price, reserved for the buyer
+ * (EIP-712 FillBuyOrder). The order moves to "accepted" with that listing,
+ * and the buyer pays through /api/purchase/[slug] within the payment window.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const {
+      listingType = "invite_link",
+      inviteUrl,
+      appUrl,
+      accessCode,
+      sellerAddress,
+      nonce,
+      chainId: clientChainId,
+      signature,
+    } = body;
+
+    // Validate listing type and its secret
+    if (listingType !== "invite_link" && listingType !== "access_code") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid listing type. Must be 'invite_link' or 'access_code'",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (listingType === "invite_link" && !inviteUrl) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invite URL is required for invite link listings",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (listingType === "access_code" && (!appUrl || !accessCode)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            "App URL and access code are required for access code listings",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!sellerAddress || !nonce || !clientChainId || !signature) {
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            "Missing required fields: sellerAddress, nonce, chainId, signature",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate that the client's chainId matches the server's expected chainId
+    if (clientChainId !== chainId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid chain. Expected chainId ${chainId}, got ${clientChainId}. Please switch to the correct network.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate Ethereum address format
+    if (!/^0x[a-fA-F0-9]{40}$/.test(sellerAddress)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid Ethereum address format" },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const offer = mongoose.isValidObjectId(id)
+      ? await Offer.findOne({ _id: id, chainId }).lean()
+      : null;
+
+    // Only app-wide offers are buy orders; offers on a listing are accepted instead
+    if (!offer || !offer.appId) {
+      return NextResponse.json(
+        { success: false, error: "Buy order not found" },
+        { status: 404 }
+      );
+    }
+
+    // Links and codes must belong to the ordered app, like any new listing
+    const app = await findApp(offer.appId);
+    const appError =
+      validateListingFormat({
+        app,
+        listingType,
+        inviteUrl,
+        appUrl,
+        accessCodes: accessCode ? [accessCode] : [],
+      }) ??
+      (await validateCustomAppDomain({
+        app,
+        url: listingType === "invite_link" ? inviteUrl : appUrl,
+      }));
+    if (appError) {
+      return NextResponse.json(
+        { success: false, error: appError },
+        { status: 400 }
+      );
+    }
+
+    // Verify EIP-712 signature (the seller signs the order price they sell at)
+    const message: FillOrderMessage = {
+      offerId: id,
+      listingType,
+      inviteUrl: inviteUrl || "",
+      appUrl: appUrl || "",
+      accessCode: accessCode || "",
+      priceUsdc: offer.priceUsdc.toString(),
+      sellerAddress: sellerAddress as `0x${string}`,
+      nonce: BigInt(nonce),
+    };
+
+    const isValid = await verifyTypedDataSignature({
+      address: sellerAddress as `0x${string}`,
+      domain: getEIP712Domain(chainId),
+      types: EIP712_FILL_ORDER_TYPES,
+      primaryType: "FillBuyOrder",
+      message: message as unknown as Record<string, unknown>,
+      signature: signature as `0x${string}`,
+    });
+
+    if (!isValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid signature. Please sign the message with your wallet.",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Check nonce is recent
+    if (!isNonceFresh(nonce)) {
+      return NextResponse.json(
+        { success: false, error: "Signature expired. Please try again." },
+        { status: 401 }
+      );
+    }
+
+    if (!isOfferAcceptable(offer)) {
+      return NextResponse.json(
+        { success: false, error: "Buy order is no longer open" },
+        { status: 409 }
+      );
+    }
+
+    if (offer.buyerAddress === sellerAddress.toLowerCase()) {
+      return NextResponse.json(
+        { success: false, error: "You can't fill your own buy order" },
+        { status: 400 }
+      );
+    }
+
+    // Probe the invite like any new listing, so the buyer doesn't pay for a
+    // dead link
+    const linkCheck =
+      listingType === "invite_link"
+        ? await checkInviteLink(inviteUrl, app?.slug)
+        : null;
+    if (linkCheck?.status === "dead") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `This invite link looks dead: ${linkCheck.reason}. Check it and try again.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Generate unique slug
+    let slug = nanoid();
+    let attempts = 0;
+    while ((await Listing.exists({ slug })) && attempts < 5) {
+      slug = nanoid();
+      attempts++;
+    }
+
+    // Claim the order first so two sellers can't fill it at once
+    const now = new Date();
+    const accepted = await Offer.findOneAndUpdate(
+      { _id: offer._id, status: "open", expiresAt: { $gt: now } },
+      {
+        $set: {
+          status: "accepted",
+          acceptedListingSlug: slug,
+          acceptedBy: sellerAddress.toLowerCase(),
+          acceptedAt: now,
+          paymentDeadline: new Date(
+            now.getTime() + OFFER_PAYMENT_WINDOW_HOURS * 60 * 60 * 1000
+          ),
+        },
+      },
+      { new: true }
+    ).lean();
+
+    if (!accepted) {
+      return NextResponse.json(
+        { success: false, error: "Buy order is no longer open" },
+        { status: 409 }
+      );
+    }
+
+    let listing;
+    try {
+      listing = await Listing.create({
+        slug,
+        listingType,
+        priceUsdc: offer.priceUsdc,
+        sellerAddress: sellerAddress.toLowerCase(),
+        status: "active",
+        chainId,
+        maxUses: 1,
+        purchaseCount: 0,
+        appId: app?.slug ?? offer.appId,
+        ...(app?.featured ? {} : { appName: app?.name ?? offer.appId }),
+        reservedFor: offer.buyerAddress,
+        reservedOfferId: offer._id,
+        // Secrets are encrypted before they reach the database
+        ...(listingType === "invite_link"
+          ? sealListingSecrets(slug, { inviteUrl })
+          : { appUrl, ...sealListingSecrets(slug, { accessCode }) }),
+        ...(linkCheck
+          ? {
+              healthStatus: linkCheck.status,
+              healthReason: linkCheck.reason,
+              healthCheckedAt: linkCheck.checkedAt,
+              // Dead links were rejected above
+              healthFailures: 0,
+            }
+          : {}),
+      });
+    } catch (error) {
+      // Reopen the order so another seller can fill it
+      await Offer.updateOne(
+        { _id: offer._id, status: "accepted", acceptedListingSlug: slug },
+        {
+          $set: { status: "open" },
+          $unset: {
+            acceptedListingSlug: "",
+            acceptedBy: "",
+            acceptedAt: "",
+            paymentDeadline: "",
+          },
+        }
+      );
+      throw error;
+    }
+
+    // Let the buyer know (fire-and-forget, won't block response)
+    sendBuyOrderFilledNotification(
+      {
+        slug: listing.slug,
+        appName: app?.name ?? listing.appName,
+        appId: listing.appId,
+        priceUsdc: listing.priceUsdc,
+        sellerAddress: listing.sellerAddress,
+        buyerAddress: offer.buyerAddress,
+      },
+      chainId
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        offer: toOfferSummary(accepted),
+        listingSlug: listing.slug,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error filling buy order:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fill buy order" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,314 @@
+import { NextRequest, NextResponse } from "next/server";
+import { connectDB, isDuplicateKeyError } from "@/lib/mongoose";
+import { Offer } from "@/models/offer";
+import { Listing } from "@/models/listing";
+import {
+  getEIP712Domain,
+  EIP712_OFFER_TYPES,
+  type OfferMessage,
+} from "@/lib/signature";
+import { chainId } from "@/lib/chain";
+import { verifyTypedDataSignature } from "@/lib/viem";
+import { isNonceFresh } from "@/lib/used-nonces";
+import { isListingAvailable } from "@/lib/listing";
+import { findApp, getAppsBySlug } from "@/lib/apps";
+import { MAX_OFFER_EXPIRY_DAYS, toOfferSummary } from "@/lib/offers";
+
+const MAX_OFFERS = 100;
+
+/**
+ * GET /api/offers
+ *
+ * Offers are public, like sales. Query by one of:
+ * - listing: open offers on a listing
+ * - appId: open offers on any listing of an app
+ * - buyer: all offers made by a wallet
+ * - seller: offers a seller can accept on their active listings, plus the ones they accepted
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await connectDB();
+
+    const { searchParams } = request.nextUrl;
+    const listingSlug = searchParams.get("listing");
+    const appId = searchParams.get("appId");
+    const buyer = searchParams.get("buyer")?.toLowerCase();
+    const seller = searchParams.get("seller")?.toLowerCase();
+
+    const openFilter = { status: "open", expiresAt: { $gt: new Date() } };
+    let query;
+
+    if (listingSlug) {
+      query = { chainId, listingSlug, ...openFilter };
+    } else if (appId) {
+      // Buy orders store the app's registry slug; names resolve through aliases
+      const app = await findApp(appId);
+      query = { chainId, appId: app?.slug ?? appId, ...openFilter };
+    } else if (buyer) {
+      query = { chainId, buyerAddress: buyer };
+    } else if (seller) {
+      const listings = await Listing.find({
+        sellerAddress: seller,
+        chainId,
+        status: "active",
+        reservedFor: { $exists: false },
+      })
+        .select("slug appId status maxUses purchaseCount expiresAt")
+        .lean();
+      const available = listings.filter((l) => isListingAvailable(l));
+
+      // App-wide offers match a listing by its app's slug
+      const appKeys = [
+        ...new Set(available.map((l) => l.appId).filter(Boolean)),
+      ];
+
+      query = {
+        chainId,
+        $or: [
+          {
+            ...openFilter,
+            listingSlug: { $in: available.map((l) => l.slug) },
+          },
+          { ...openFilter, appId: { $in: appKeys } },
+          { acceptedBy: seller },
+        ],
+      };
+    } else {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "One of listing, appId, buyer or seller is required",
+        },
+        { status: 400 }
+      );
+    }
+
+    const offers = await Offer.find(query)
+      .sort({ createdAt: -1 })
+      .limit(MAX_OFFERS)
+      .lean();
+
+    const apps = await getAppsBySlug(offers.map((offer) => offer.appId));
+
+    return NextResponse.json({
+      success: true,
+      offers: offers
+        // Sellers never see their own offers as incoming
+        .filter((offer) => !seller || offer.buyerAddress !== seller)
+        .map((offer) => ({
+          ...toOfferSummary(offer),
+          appName: offer.appId ? apps.get(offer.appId)?.name : undefined,
+        })),
+    });
+  } catch (error) {
+    console.error("Error fetching offers:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch offers" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/offers
+ *
+ * Buyer makes an offer with an EIP-712 MakeOffer signature, either on a
+ * listing (listingSlug) or on any listing of an app (appId).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      listingSlug,
+      appId,
+      priceUsdc,
+      buyerAddress,
+      expiresAt,
+      nonce,
+      chainId: clientChainId,
+      signature,
+    } = body;
+
+    if (
+      !priceUsdc ||
+      !buyerAddress ||
+      !expiresAt ||
+      !nonce ||
+      !clientChainId ||
+      !signature
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            "Missing required fields: priceUsdc, buyerAddress, expiresAt, nonce, chainId, signature",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate that the client's chainId matches the server's expected chainId
+    if (clientChainId !== chainId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid chain. Expected chainId ${chainId}, got ${clientChainId}. Please switch to the correct network.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!!listingSlug === !!appId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Provide either listingSlug or appId, not both",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (typeof priceUsdc !== "number" || priceUsdc <= 0) {
+      return NextResponse.json(
+        { success: false, error: "Price must be a positive number" },
+        { status: 400 }
+      );
+    }
+
+    // Validate Ethereum address format
+    if (!/^0x[a-fA-F0-9]{40}$/.test(buyerAddress)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid Ethereum address format" },
+        { status: 400 }
+      );
+    }
+
+    const expiresAtSeconds = Number(expiresAt);
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    if (
+      !Number.isInteger(expiresAtSeconds) ||
+      expiresAtSeconds <= nowSeconds ||
+      expiresAtSeconds > nowSeconds + MAX_OFFER_EXPIRY_DAYS * 24 * 60 * 60
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Offers must expire within ${MAX_OFFER_EXPIRY_DAYS} days`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Verify EIP-712 signature
+    const message: OfferMessage = {
+      listingSlug: listingSlug || "",
+      appId: appId || "",
+      priceUsdc: priceUsdc.toString(),
+      buyerAddress: buyerAddress as `0x${string}`,
+      expiresAt: BigInt(expiresAtSeconds),
+      nonce: BigInt(nonce),
+    };
+
+    const isValid = await verifyTypedDataSignature({
+      address: buyerAddress as `0x${string}`,
+      domain: getEIP712Domain(chainId),
+      types: EIP712_OFFER_TYPES,
+      primaryType: "MakeOffer",
+      message: message as unknown as Record<string, unknown>,
+      signature: signature as `0x${string}`,
+    });
+
+    if (!isValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid signature. Please sign the message with your wallet.",
+        },
+        { status: 401 }
+      );
+    }
+
+    // Check nonce is recent
+    if (!isNonceFresh(nonce)) {
+      return NextResponse.json(
+        { success: false, error: "Signature expired. Please try again." },
+        { status: 401 }
+      );
+    }
+
+    await connectDB();
+
+    if (listingSlug) {
+      const listing = await Listing.findOne({ slug: listingSlug, chainId })
+        .select(
+          "sellerAddress priceUsdc status maxUses purchaseCount expiresAt reservedFor"
+        )
+        .lean();
+
+      if (!listing || !isListingAvailable(listing) || listing.reservedFor) {
+        return NextResponse.json(
+          { success: false, error: "Listing not available" },
+          { status: 404 }
+        );
+      }
+
+      if (listing.sellerAddress === buyerAddress.toLowerCase()) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "You can't make an offer on your own listing",
+          },
+          { status: 400 }
+        );
+      }
+
+      if (priceUsdc >= listing.priceUsdc) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Offer must be below the listing price. Buy it instead!",
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Buy orders are placed on apps in the registry
+    const app = appId ? await findApp(appId) : null;
+    if (appId && !app) {
+      return NextResponse.json(
+        { success: false, error: "App not found" },
+        { status: 404 }
+      );
+    }
+
+    const offer = await Offer.create({
+      buyerAddress,
+      chainId,
+      listingSlug: listingSlug || undefined,
+      appId: app?.slug,
+      priceUsdc,
+      expiresAt: new Date(expiresAtSeconds * 1000),
+      nonce: String(nonce),
+      signature,
+      status: "open",
+    });
+
+    return NextResponse.json(
+      { success: true, offer: toOfferSummary(offer.toObject()) },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return NextResponse.json(
+        { success: false, error: "This offer was already submitted" },
+        { status: 409 }
+      );
+    }
+    console.error("Error creating offer:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to create offer" },
+      { status: 500 }
+    );
+  }
+}
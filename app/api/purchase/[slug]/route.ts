@@ -4,12 +4,37 @@ import {
   incrementPurchaseCount,
   isListingAvailable,
 } from "@/lib/listing";
+import {
+  commitReservation,
+  getPaymentIdempotencyKey,
+  releaseReservation,
+  reserveForPayment,
+} from "@/lib/reservation";
+import {
+  bindPoolCode,
+  claimPoolCode,
+  getClaimedPoolCode,
+  revealPoolCode,
+} from "@/lib/code-pool";
 import { createThirdwebClient } from "thirdweb";
 import { facilitator, settlePayment } from "thirdweb/x402";
 import { base, baseSepolia } from "thirdweb/chains";
 import { Transaction } from "@/models/transaction";
 import { chainId, isTestnet } from "@/lib/chain";
 import { sendPurchaseNotification } from "@/lib/discord";
+import {
+  escrowHeldEvent,
+  getEscrowAddress,
+  getEscrowReleaseAt,
+  isEscrowEnabled,
+} from "@/lib/escrow";
+import {
+  claimOffer,
+  completeOffer,
+  getPayableOffer,
+  getPaymentPayer,
+  releaseOfferClaim,
+} from "@/lib/offer-purchase";
 
 const network = isTestnet ? baseSepolia : base;
 
@@ -49,6 +74,36 @@ const twFacilitator = {
   },
 };
 
+type PurchasedListing = NonNullable<Awaited<ReturnType<typeof getListingBySlug>>>;
+
+/**
+ * Builds the post-payment response containing the listing's secret data.
+ * For code pool listings, pass the code assigned to this buyer.
+ */
+function purchaseResponse(
+  listing: PurchasedListing,
+  txHash?: string,
+  poolAccessCode?: string
+) {
+  const listingType = listing.listingType || "invite_link";
+
+  if (listingType === "access_code") {
+    return NextResponse.json({
+      listingType: "access_code",
+      appUrl: listing.appUrl,
+      accessCode: poolAccessCode ?? listing.accessCode,
+      txHash,
+    });
+  }
+
+  // Default: invite_link type
+  return NextResponse.json({
+    listingType: "invite_link",
+    inviteUrl: listing.inviteUrl,
+    txHash,
+  });
+}
+
 export async function POST(
   req: NextRequest,
   { params }: { params: Promise<{ slug: string }> }
@@ -78,8 +133,80 @@ export async function POST(
     sellerAddress: listing.sellerAddress,
   });
 
-  // Check if listing is available for purchase (considers multi-use inventory)
-  if (!isListingAvailable(listing)) {
+  // Support both x402 v1 (x-payment) and v2 (payment-signature) headers
+  const paymentDataV1 = req.headers.get("x-payment");
+  const paymentDataV2 = req.headers.get("payment-signature");
+  const paymentData = paymentDataV2 || paymentDataV1;
+
+  // An accepted offer (?offer=<id>) is paid once, at the offer price, and only by its buyer.
+  // Listings created to fill a buy order can only be paid through their order.
+  const offerId =
+    req.nextUrl.searchParams.get("offer") ?? listing.reservedOfferId ?? null;
+  let offer = null;
+  if (offerId) {
+    const offerResult = await getPayableOffer(
+      offerId,
+      slug,
+      paymentData ? getPaymentPayer(paymentData) : undefined
+    );
+    if (!offerResult.ok) {
+      console.log(`[x402 DEBUG] Offer ${offerId} rejected: ${offerResult.error}`);
+      return NextResponse.json(
+        { error: offerResult.error },
+        { status: offerResult.status }
+      );
+    }
+    offer = offerResult.offer;
+  }
+  const priceUsdc = offer ? offer.priceUsdc : listing.priceUsdc;
+
+  // Hold one unit before settling so concurrent buyers can't both pay for the last one.
+  // The key is derived from the payment payload, so a retried payment never double-counts.
+  const idempotencyKey = paymentData
+    ? getPaymentIdempotencyKey(slug, paymentData)
+    : null;
+
+  if (idempotencyKey) {
+    const reservation = await reserveForPayment(slug, idempotencyKey);
+
+    if (reservation.status === "settled") {
+      console.log(`[x402 DEBUG] Payment already settled, replaying response`);
+      const claimedCode = listing.codePool
+        ? await getClaimedPoolCode(idempotencyKey)
+        : null;
+      return purchaseResponse(
+        listing,
+        reservation.reservation.txHash,
+        claimedCode ? revealPoolCode(claimedCode) : undefined
+      );
+    }
+
+    if (reservation.status === "in_progress") {
+      console.log(`[x402 DEBUG] Payment is already being settled`);
+      return NextResponse.json(
+        { error: "Payment is already being processed" },
+        { status: 409 }
+      );
+    }
+
+    if (reservation.status === "unavailable") {
+      console.log(`[x402 DEBUG] Listing not available (sold out or fully reserved)`);
+      return NextResponse.json(
+        { error: "Listing not available" },
+        { status: 410 } // 410 Gone - listing is sold out
+      );
+    }
+
+    if (offer && !(await claimOffer(offer._id))) {
+      console.log(`[x402 DEBUG] Offer is already being paid`);
+      await releaseReservation(idempotencyKey);
+      return NextResponse.json(
+        { error: "Offer is already being paid" },
+        { status: 409 }
+      );
+    }
+  } else if (!isListingAvailable(listing)) {
+    // Check if listing is available for purchase (considers multi-use inventory)
     console.log(`[x402 DEBUG] Listing not available (sold out)`);
     return NextResponse.json(
       { error: "Listing not available" },
@@ -87,13 +214,12 @@ export async function POST(
     );
   }
 
-  // Support both x402 v1 (x-payment) and v2 (payment-signature) headers
-  const paymentDataV1 = req.headers.get("x-payment");
-  const paymentDataV2 = req.headers.get("payment-signature");
-  const paymentData = paymentDataV2 || paymentDataV1;
-  
   // Determine which x402 version is being used based on headers
   const x402Version = paymentDataV2 ? 2 : 1;
+
+  // In escrow mode the platform holds the funds until the buyer confirms or the window passes
+  const escrowed = isEscrowEnabled();
+  const payTo = escrowed ? getEscrowAddress() : listing.sellerAddress;
   
   console.log(`[x402 DEBUG] Payment data present:`, {
     hasV1Header: !!paymentDataV1,
@@ -106,9 +232,11 @@ export async function POST(
   console.log(`[x402 DEBUG] Calling settlePayment with:`, {
     resourceUrl: req.nextUrl.href,
     method: "POST",
-    payTo: listing.sellerAddress,
+    payTo,
+    escrowed,
     network: network.id,
-    price: `${listing.priceUsdc} USDC`,
+    price: `${priceUsdc} USDC`,
+    offerId: offer?._id.toString(),
     x402Version,
   });
 
@@ -118,9 +246,9 @@ export async function POST(
       resourceUrl: req.nextUrl.href,
       method: "POST",
       paymentData,
-      payTo: listing.sellerAddress,
+      payTo,
       network,
-      price: `${listing.priceUsdc} USDC`,
+      price: `${priceUsdc} USDC`,
       facilitator: twFacilitator,
       x402Version,
     });
@@ -131,6 +259,12 @@ export async function POST(
       message: settleError instanceof Error ? settleError.message : String(settleError),
       stack: settleError instanceof Error ? settleError.stack : undefined,
     });
+    if (idempotencyKey) {
+      await releaseReservation(idempotencyKey);
+    }
+    if (offer && idempotencyKey) {
+      await releaseOfferClaim(offer._id);
+    }
     return NextResponse.json(
       { 
         error: "Payment processing error", 
@@ -152,6 +286,14 @@ export async function POST(
       // Log all properties of result
       allKeys: Object.keys(result),
     });
+
+    // Payment didn't go through - give the held unit (and the offer) back
+    if (idempotencyKey) {
+      await releaseReservation(idempotencyKey);
+    }
+    if (offer && idempotencyKey) {
+      await releaseOfferClaim(offer._id);
+    }
     
     // Create response with proper headers from settlePayment
     const response = new NextResponse(JSON.stringify(result.responseBody), {
@@ -175,21 +317,64 @@ export async function POST(
     return response;
   }
 
+  // Settlement transaction hash from the facilitator receipt
+  const txHash = result.paymentReceipt.transaction?.toLowerCase() || undefined;
+  const buyerAddress = result.paymentReceipt.payer?.toLowerCase();
+
+  // Code pool listings: pop this buyer's own code. The reservation guarantees one is left.
+  const poolCode = listing.codePool
+    ? await claimPoolCode(slug, {
+        claimKey: idempotencyKey ?? undefined,
+        buyerAddress,
+      })
+    : null;
+
+  if (listing.codePool && !poolCode) {
+    console.error(`[x402 ERROR] Code pool for ${slug} is empty after payment`);
+  }
+
+  let transactionId;
   try {
-    await Transaction.create({
+    const transaction = await Transaction.create({
       listingSlug: slug,
       sellerAddress: listing.sellerAddress,
-      buyerAddress: result.paymentReceipt.payer?.toLowerCase(),
-      priceUsdc: listing.priceUsdc,
+      buyerAddress,
+      priceUsdc,
+      offerId: offer?._id,
       appId: listing.appId,
       chainId,
+      txHash,
+      network: result.paymentReceipt.network,
+      paymentReceipt: result.paymentReceipt,
+      poolCodeId: poolCode?._id,
+      ...(escrowed
+        ? {
+            escrowStatus: "pending_release",
+            escrowReleaseAt: getEscrowReleaseAt(),
+            escrowEvents: [escrowHeldEvent(txHash)],
+          }
+        : {}),
     });
+
+    transactionId = transaction._id;
+
+    if (poolCode) {
+      await bindPoolCode(poolCode._id, transaction._id);
+    }
   } catch (error) {
     console.error("Failed to create transaction record:", error);
   }
 
-  // Increment purchase count (and mark as sold if all uses consumed)
-  await incrementPurchaseCount(slug);
+  if (offer) {
+    await completeOffer(offer._id, transactionId, txHash);
+  }
+
+  // Convert the hold into a purchase (and mark as sold if all uses consumed)
+  if (idempotencyKey) {
+    await commitReservation(idempotencyKey, txHash);
+  } else {
+    await incrementPurchaseCount(slug);
+  }
 
   // Send Discord notification (fire-and-forget, won't block response)
   // NOTE: Only safe, public data is passed - inviteUrl and accessCode are intentionally excluded
@@ -198,27 +383,30 @@ export async function POST(
       slug,
       appName: listing.appName,
       appId: listing.appId,
-      priceUsdc: listing.priceUsdc,
+      appIconUrl: listing.appIconUrl,
+      priceUsdc,
       sellerAddress: listing.sellerAddress,
-      buyerAddress: result.paymentReceipt.payer?.toLowerCase() ?? "Unknown",
+      buyerAddress: buyerAddress ?? "Unknown",
+      txHash,
     },
     chainId
   );
 
-  // Return appropriate data based on listing type
-  const listingType = listing.listingType || "invite_link";
-
-  if (listingType === "access_code") {
-    return NextResponse.json({
-      listingType: "access_code",
-      appUrl: listing.appUrl,
-      accessCode: listing.accessCode,
-    });
+  if (listing.codePool && !poolCode) {
+    return NextResponse.json(
+      {
+        error:
+          "Payment received but no access codes were left. Please contact support with your receipt.",
+        txHash,
+      },
+      { status: 500 }
+    );
   }
 
-  // Default: invite_link type
-  return NextResponse.json({
-    listingType: "invite_link",
-    inviteUrl: listing.inviteUrl,
-  });
+  // Return appropriate data based on listing type
+  return purchaseResponse(
+    listing,
+    txHash,
+    poolCode ? revealPoolCode(poolCode) : undefined
+  );
 }
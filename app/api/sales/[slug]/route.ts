@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { connectDB } from "@/lib/mongoose";
 import { Transaction } from "@/models/transaction";
-import { Listing } from "@/models/listing";
+import { findApp } from "@/lib/apps";
 import { chainId } from "@/lib/chain";
 
 export async function GET(
@@ -12,29 +12,21 @@ export async function GET(
     await connectDB();
     const { slug } = await params;
 
-    // First, find all listing slugs that belong to this app
-    // (needed because transactions store listingSlug, not appId/appName directly for all cases)
-    const listings = await Listing.find({
-      $or: [{ appId: slug }, { appName: slug }],
-      chainId,
-    })
-      .select("slug appId")
-      .lean<{ slug: string; appId: string }[]>();
-
-    const listingSlugs = listings.map((l) => l.slug);
-
-    if (listingSlugs.length === 0) {
+    const app = await findApp(slug);
+    if (!app) {
       return NextResponse.json([]);
     }
 
-    // Query transactions for all listings of this app
+    // Query transactions for the app
     // Return full transaction objects for the sales tab UI
     const transactions = await Transaction.find({
-      listingSlug: { $in: listingSlugs },
+      appId: app.slug,
       chainId,
     })
       .sort({ createdAt: -1 })
       .limit(100)
+      // Raw x402 receipts are kept for auditing only
+      .select("-paymentReceipt")
       .lean();
 
     return NextResponse.json(transactions);
@@ -1,70 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { connectDB } from "@/lib/mongoose";
-import { ITransaction, Transaction } from "@/models/transaction";
+import { Transaction } from "@/models/transaction";
 import { Listing } from "@/models/listing";
-import { getAppIconInfo, getFaviconUrl, type AppIconInfo } from "@/lib/url";
-import { featuredApps } from "@/data/featuredApps";
+import { describeListingApp, getAppsBySlug } from "@/lib/apps";
 import { chainId } from "@/lib/chain";
 
-/**
- * Gets the app icon info for a transaction by looking up the associated listing.
- */
-async function getTransactionAppIconInfo(transaction: ITransaction): Promise<AppIconInfo> {
-  // Try to get listing to fetch appIconUrl if available
-  try {
-    const listing = await Listing.findOne({ slug: transaction.listingSlug }).lean();
-    
-    if (listing) {
-      return getAppIconInfo({
-        appId: listing.appId,
-        appName: listing.appName,
-        inviteUrl: listing.inviteUrl,
-        appUrl: listing.appUrl,
-        listingType: listing.listingType,
-      });
-    }
-  } catch (error) {
-    console.error("Error fetching listing for icon:", error);
-  }
-
-  // Fallback: check if appId matches a featured app
-  if (transaction.appId) {
-    const featuredApp = featuredApps.find((app) => app.id === transaction.appId);
-    if (featuredApp) {
-      return { url: featuredApp.appIconUrl };
-    }
-  }
-
-  // Return default favicon
-  return { url: getFaviconUrl("") };
-}
-
-/**
- * Gets the app name for a transaction.
- */
-async function getAppName(transaction: ITransaction): Promise<string> {
-  // Check if this is a featured app by appId
-  if (transaction.appId) {
-    const featuredApp = featuredApps.find((app) => app.id === transaction.appId);
-    if (featuredApp) {
-      return featuredApp.appName;
-    }
-  }
-
-  // Try to get listing to fetch appName
-  try {
-    const listing = await Listing.findOne({ slug: transaction.listingSlug }).lean();
-    if (listing?.appName) {
-      return listing.appName;
-    }
-  } catch (error) {
-    console.error("Error fetching listing for name:", error);
-  }
-
-  // Fallback to appId or "App"
-  return transaction.appId || "App";
-}
-
 export async function GET(request: NextRequest) {
   try {
     await connectDB();
@@ -83,27 +23,38 @@ export async function GET(request: NextRequest) {
     // Get total count for pagination
     const totalCount = await Transaction.countDocuments({ chainId });
 
-    // Enrich transactions with app info
-    const enrichedTransactions = await Promise.all(
-      transactions.map(async (tx) => {
-        const iconInfo = await getTransactionAppIconInfo(tx);
-        const appName = await getAppName(tx);
+    // Enrich transactions with app info from their listings and the App registry
+    const [listings, apps] = await Promise.all([
+      Listing.find({ slug: { $in: transactions.map((tx) => tx.listingSlug) } })
+        .select("slug appId appName inviteDomain appUrl listingType")
+        .lean(),
+      getAppsBySlug(transactions.map((tx) => tx.appId)),
+    ]);
+    const listingsBySlug = new Map(listings.map((l) => [l.slug, l]));
 
-        return {
-          _id: tx._id,
-          listingSlug: tx.listingSlug,
-          sellerAddress: tx.sellerAddress,
-          buyerAddress: tx.buyerAddress,
-          priceUsdc: tx.priceUsdc,
-          appId: tx.appId,
-          appName,
-          appIconUrl: iconInfo.url,
-          iconNeedsDarkBg: iconInfo.needsDarkBg || false,
-          chainId: tx.chainId,
-          createdAt: tx.createdAt,
-        };
-      })
-    );
+    const enrichedTransactions = transactions.map((tx) => {
+      const listing = listingsBySlug.get(tx.listingSlug);
+      const { appName, appIconUrl, iconNeedsDarkBg } = describeListingApp(
+        listing ?? { appId: tx.appId },
+        tx.appId ? apps.get(tx.appId) : null
+      );
+
+      return {
+        _id: tx._id,
+        listingSlug: tx.listingSlug,
+        sellerAddress: tx.sellerAddress,
+        buyerAddress: tx.buyerAddress,
+        priceUsdc: tx.priceUsdc,
+        appId: tx.appId,
+        appName: appName || "App",
+        appIconUrl,
+        iconNeedsDarkBg,
+        chainId: tx.chainId,
+        txHash: tx.txHash,
+        network: tx.network,
+        createdAt: tx.createdAt,
+      };
+    });
 
     return NextResponse.json({
       success: true,
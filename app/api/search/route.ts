@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { search } from "@/lib/search-server";
+import { MIN_SEARCH_QUERY_LENGTH, normalizeSearchQuery } from "@/lib/search";
+
+/**
+ * GET /api/search?q=<query>
+ *
+ * Searches apps (including their other names), available listings and sellers
+ * by resolved Farcaster, Basename or ENS name.
+ *
+ * Response:
+ * - success: boolean
+ * - query: the normalized query
+ * - results: SearchResult[] (best match first; empty for queries shorter than
+ *   MIN_SEARCH_QUERY_LENGTH)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const query = normalizeSearchQuery(
+      request.nextUrl.searchParams.get("q") ?? ""
+    );
+
+    if (query.length < MIN_SEARCH_QUERY_LENGTH) {
+      return NextResponse.json({ success: true, query, results: [] });
+    }
+
+    const results = await search(query);
+
+    return NextResponse.json({ success: true, query, results });
+  } catch (error) {
+    console.error("Error searching:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
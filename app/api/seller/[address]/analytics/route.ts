@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeSession } from "@/lib/session";
+import {
+  getSellerAnalytics,
+  getSellerTransactions,
+} from "@/lib/seller-analytics-server";
+import {
+  DEFAULT_ANALYTICS_BUCKETS,
+  isAnalyticsBucket,
+  isAnalyticsRange,
+} from "@/lib/market-analytics";
+import {
+  DEFAULT_SELLER_ANALYTICS_RANGE,
+  isSellerExportFormat,
+  type SellerTransactionRecord,
+} from "@/lib/seller-analytics";
+
+const CSV_COLUMNS: (keyof SellerTransactionRecord)[] = [
+  "date",
+  "txHash",
+  "network",
+  "chainId",
+  "listingSlug",
+  "appId",
+  "appName",
+  "buyerAddress",
+  "priceUsdc",
+  "offerId",
+  "escrowStatus",
+  "payoutTxHash",
+  "disputeStatus",
+];
+
+function toCsv(records: SellerTransactionRecord[]): string {
+  const cell = (value: unknown) => {
+    const text = String(value ?? "");
+    // Quote every cell; prefix formula characters so spreadsheets don't run them
+    const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+    return `"${safe.replace(/"/g, '""')}"`;
+  };
+  return [
+    CSV_COLUMNS.join(","),
+    ...records.map((record) =>
+      CSV_COLUMNS.map((column) => cell(record[column])).join(",")
+    ),
+  ].join("\n");
+}
+
+/**
+ * GET /api/seller/[address]/analytics?range=all&bucket=week
+ *
+ * The signed-in seller's own analytics: revenue over time, per-listing
+ * conversion, average time to sale, price against the app floor and repeat
+ * buyers. Requires the seller's session.
+ *
+ * Query:
+ * - range: 24h | 7d | 30d | 90d | 1y | all (default all)
+ * - bucket: hour | day | week (default depends on the range)
+ * - format: "csv" | "json" to download every sale of the seller instead
+ *
+ * Response:
+ * - success: boolean
+ * - analytics: SellerAnalytics
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  try {
+    const { address } = await params;
+    const normalizedAddress = address.toLowerCase();
+
+    const auth = authorizeSession(request, "seller", normalizedAddress);
+    if (!auth.ok) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+
+    const format = searchParams.get("format");
+    if (format !== null) {
+      if (!isSellerExportFormat(format)) {
+        return NextResponse.json(
+          { success: false, error: `Invalid format: ${format}` },
+          { status: 400 }
+        );
+      }
+
+      const records = await getSellerTransactions(normalizedAddress);
+      const filename = `sales-${normalizedAddress}-${
+        new Date().toISOString().split("T")[0]
+      }.${format}`;
+
+      return new NextResponse(
+        format === "csv" ? toCsv(records) : JSON.stringify(records, null, 2),
+        {
+          headers: {
+            "Content-Type":
+              format === "csv"
+                ? "text/csv; charset=utf-8"
+                : "application/json; charset=utf-8",
+            "Content-Disposition": `attachment; filename="${filename}"`,
+          },
+        }
+      );
+    }
+
+    const range = searchParams.get("range") ?? DEFAULT_SELLER_ANALYTICS_RANGE;
+    if (!isAnalyticsRange(range)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid range: ${range}` },
+        { status: 400 }
+      );
+    }
+
+    const bucket =
+      searchParams.get("bucket") ?? DEFAULT_ANALYTICS_BUCKETS[range];
+    if (!isAnalyticsBucket(bucket)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid bucket: ${bucket}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await getSellerAnalytics(normalizedAddress, range, bucket);
+    if (!result.ok) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ success: true, analytics: result.analytics });
+  } catch (error) {
+    console.error("Error fetching seller analytics:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
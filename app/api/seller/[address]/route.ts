@@ -2,67 +2,19 @@ import { NextRequest, NextResponse } from "next/server";
 import { connectDB } from "@/lib/mongoose";
 import { Transaction } from "@/models/transaction";
 import { Listing } from "@/models/listing";
+import { Dispute } from "@/models/dispute";
 import { chainId } from "@/lib/chain";
-import { verifyMessageSignature } from "@/lib/viem";
-
-/**
- * Verify if the request is authenticated as the seller.
- * Uses signature verification via headers:
- * - x-seller-signature: The signature
- * - x-seller-message: Base64 encoded message that was signed
- *
- * The message should contain a timestamp that's within 5 minutes.
- */
-async function verifySellerAuth(
-  request: NextRequest,
-  expectedAddress: string
-): Promise<boolean> {
-  const signature = request.headers.get("x-seller-signature");
-  const encodedMessage = request.headers.get("x-seller-message");
-
-  if (!signature || !encodedMessage) {
-    return false;
-  }
-
-  try {
-    // Decode the base64 message
-    const message = Buffer.from(encodedMessage, "base64").toString("utf-8");
-
-    // Verify the signature matches the expected seller address
-    // Uses thirdweb's verifySignature which supports both EOAs and smart contract wallets (ERC-1271)
-    const isValid = await verifyMessageSignature({
-      address: expectedAddress as `0x${string}`,
-      message,
-      signature: signature as `0x${string}`,
-    });
-
-    if (!isValid) {
-      return false;
-    }
-
-    // Check if message timestamp is recent (within 5 minutes, not in the future)
-    const timestampMatch = message.match(/Timestamp: (\d+)/);
-    if (timestampMatch) {
-      const messageTimestamp = parseInt(timestampMatch[1]);
-      const now = Date.now();
-      const fiveMinutes = 5 * 60 * 1000;
-
-      // Reject future timestamps (with small grace period for clock skew)
-      if (messageTimestamp > now + 30000) {
-        return false;
-      }
-
-      // Reject timestamps older than 5 minutes
-      if (now - messageTimestamp > fiveMinutes) {
-        return false;
-      }
-    }
-
-    return true;
-  } catch {
-    return false;
-  }
-}
+import { authorizeSession } from "@/lib/session";
+import { openListingSecrets } from "@/lib/listing-secrets";
+import {
+  settledSaleFilter,
+  toDisputeSummary,
+  type DisputeStatus,
+} from "@/lib/disputes";
+import { toDeliveryStats } from "@/lib/delivery-feedback";
+import { getSellerDeliveryStats } from "@/lib/seller-delivery";
+import { isPastExpiry } from "@/lib/listing-expiry";
+import { describeListingApp, getAppsBySlug } from "@/lib/apps";
 
 export async function GET(
   request: NextRequest,
@@ -74,23 +26,55 @@ export async function GET(
     const { address } = await params;
     const normalizedAddress = address.toLowerCase();
 
-    // Check if this is an authenticated request from the seller
-    const isAuthenticated = await verifySellerAuth(request, normalizedAddress);
+    // Secrets and dispute evidence are only included for the signed-in seller
+    const isAuthenticated = authorizeSession(
+      request,
+      "seller",
+      normalizedAddress
+    ).ok;
 
-    // Count completed sales for this seller
+    // Count completed sales for this seller (refunded sales are only counted
+    // in the dispute stats)
     const salesCount = await Transaction.countDocuments({
       sellerAddress: normalizedAddress,
       chainId,
+      ...settledSaleFilter(),
     });
 
     // Get total revenue
     const revenueResult = await Transaction.aggregate([
-      { $match: { sellerAddress: normalizedAddress, chainId } },
+      {
+        $match: {
+          sellerAddress: normalizedAddress,
+          chainId,
+          ...settledSaleFilter(),
+        },
+      },
       { $group: { _id: null, total: { $sum: "$priceUsdc" } } },
     ]);
 
     const totalRevenue = revenueResult.length > 0 ? revenueResult[0].total : 0;
 
+    // Disputes against this seller's sales, by outcome
+    const disputes = await Dispute.find({
+      sellerAddress: normalizedAddress,
+      chainId,
+    })
+      .sort({ createdAt: -1 })
+      .lean();
+
+    const disputeCounts: Record<DisputeStatus, number> = {
+      open: 0,
+      refunded: 0,
+      rejected: 0,
+    };
+    for (const dispute of disputes) {
+      disputeCounts[dispute.status]++;
+    }
+
+    // Buyer-reported delivery success
+    const deliveryStats = await getSellerDeliveryStats([normalizedAddress]);
+
     // Get all listings for this seller
     // Only include inviteUrl and accessCode if the request is authenticated as the seller
     const listingsQuery = Listing.find({
@@ -104,15 +88,27 @@ export async function GET(
     }
 
     const listings = await listingsQuery.lean();
+    const apps = await getAppsBySlug(listings.map((listing) => listing.appId));
 
     // Map listings to include listingType with default, inventory fields, and appUrl where applicable
     const mappedListings = listings.map((listing) => {
       const listingType = listing.listingType || "invite_link";
       return {
         ...listing,
+        // Secrets are encrypted at rest; only decrypted for the authenticated seller
+        ...(isAuthenticated ? openListingSecrets(listing) : {}),
         listingType,
+        // Listings past their expiry read as expired before the sweep marks them
+        status:
+          listing.status === "active" && isPastExpiry(listing.expiresAt)
+            ? "expired"
+            : listing.status,
         // appUrl is always public for access_code type
         appUrl: listingType === "access_code" ? listing.appUrl : undefined,
+        ...describeListingApp(
+          listing,
+          listing.appId ? apps.get(listing.appId) : null
+        ),
         // Multi-use listing fields (with backward compatibility defaults)
         maxUses: listing.maxUses ?? 1,
         purchaseCount: listing.purchaseCount ?? 0,
@@ -125,8 +121,17 @@ export async function GET(
       stats: {
         salesCount,
         totalRevenue,
+        disputes: {
+          total: disputes.length,
+          ...disputeCounts,
+        },
+        delivery: deliveryStats[normalizedAddress] ?? toDeliveryStats(0, 0),
       },
       listings: mappedListings,
+      // Evidence and responses are only shown to the authenticated seller
+      disputes: disputes.map((dispute) =>
+        toDisputeSummary(dispute, isAuthenticated)
+      ),
     });
   } catch (error) {
     console.error("Error fetching seller stats:", error);
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMarketStats } from "@/lib/market-stats-server";
+import {
+  DEFAULT_ANALYTICS_BUCKETS,
+  DEFAULT_ANALYTICS_RANGE,
+  isAnalyticsBucket,
+  isAnalyticsRange,
+} from "@/lib/market-analytics";
+
+/**
+ * GET /api/stats?range=30d&bucket=day
+ *
+ * Marketplace-wide stats of the current chain over a range.
+ *
+ * Query:
+ * - range: 24h | 7d | 30d | 90d | 1y | all (default 30d)
+ * - bucket: hour | day | week (default depends on the range)
+ *
+ * Response:
+ * - success: boolean
+ * - stats: MarketStats (totals, volume, sales and active listings per bucket,
+ *   top apps, sellers and buyers, price histograms and time to sell)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const range = searchParams.get("range") ?? DEFAULT_ANALYTICS_RANGE;
+    if (!isAnalyticsRange(range)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid range: ${range}` },
+        { status: 400 }
+      );
+    }
+
+    const bucket =
+      searchParams.get("bucket") ?? DEFAULT_ANALYTICS_BUCKETS[range];
+    if (!isAnalyticsBucket(bucket)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid bucket: ${bucket}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await getMarketStats(range, bucket);
+    if (!result.ok) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ success: true, stats: result.stats });
+  } catch (error) {
+    console.error("Error fetching market stats:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
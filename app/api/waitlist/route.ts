@@ -1,13 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { connectDB } from "@/lib/mongoose";
 import { Waitlist } from "@/models/waitlist";
-import { verifyMessageSignature } from "@/lib/viem";
 
 const TURNSTILE_SECRET_KEY = process.env.TURNSTILE_SECRET_KEY;
-const ADMIN_ETH_ADDRESSES = (process.env.ADMIN_ETH_ADDRESSES || "")
-  .split(",")
-  .map((addr) => addr.trim().toLowerCase())
-  .filter(Boolean);
 
 // Verify Cloudflare Turnstile token
 async function verifyTurnstile(token: string): Promise<boolean> {
@@ -126,95 +121,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-// GET - Fetch all waitlist entries (admin only)
-export async function GET(request: NextRequest) {
-  try {
-    // Verify admin signature
-    const signature = request.headers.get("x-admin-signature");
-    const encodedMessage = request.headers.get("x-admin-message");
-    const address = request.headers.get("x-admin-address");
-
-    if (!signature || !encodedMessage || !address) {
-      return NextResponse.json(
-        { error: "Admin authentication required" },
-        { status: 401 }
-      );
-    }
-
-    // Decode the base64 message
-    const message = Buffer.from(encodedMessage, "base64").toString("utf-8");
-
-    // Verify the address is an admin
-    if (!ADMIN_ETH_ADDRESSES.includes(address.toLowerCase())) {
-      return NextResponse.json(
-        { error: "Unauthorized: Not an admin address" },
-        { status: 403 }
-      );
-    }
-
-    // Verify the signature
-    // Uses thirdweb's verifySignature which supports both EOAs and smart contract wallets (ERC-1271)
-    try {
-      const isValid = await verifyMessageSignature({
-        address: address as `0x${string}`,
-        message,
-        signature: signature as `0x${string}`,
-      });
-
-      if (!isValid) {
-        return NextResponse.json(
-          { error: "Invalid signature" },
-          { status: 401 }
-        );
-      }
-
-      // Check if message is recent (within 5 minutes, not in the future)
-      const timestampMatch = message.match(/Timestamp: (\d+)/);
-      if (timestampMatch) {
-        const messageTimestamp = parseInt(timestampMatch[1]);
-        const now = Date.now();
-        const fiveMinutes = 5 * 60 * 1000;
-        
-        // Reject future timestamps (with small grace period for clock skew)
-        if (messageTimestamp > now + 30000) {
-          return NextResponse.json(
-            { error: "Invalid timestamp" },
-            { status: 401 }
-          );
-        }
-        
-        // Reject timestamps older than 5 minutes
-        if (now - messageTimestamp > fiveMinutes) {
-          return NextResponse.json(
-            { error: "Signature expired" },
-            { status: 401 }
-          );
-        }
-      }
-    } catch {
-      return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
-    }
-
-    await connectDB();
-
-    const entries = await Waitlist.find({}).sort({ createdAt: -1 }).lean();
-
-    return NextResponse.json({
-      success: true,
-      entries: entries.map((entry) => ({
-        email: entry.email,
-        xUsername: entry.xUsername,
-        createdAt: entry.createdAt,
-      })),
-      total: entries.length,
-    });
-  } catch (error) {
-    console.error("Error fetching waitlist entries:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
-  }
-}
-
@@ -7,7 +7,6 @@ import Image from "next/image";
 import { motion, AnimatePresence } from "framer-motion";
 import NProgress from "nprogress";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { featuredApps } from "@/data/featuredApps";
 import { timeAgo } from "@/lib/time";
 import {
   useResolveAddresses,
@@ -21,18 +20,30 @@ import {
   AUTO_REFRESH_INTERVAL,
 } from "@/app/components/RefreshIndicator";
 import { PriceChart } from "@/app/components/PriceChart";
+import { TxReceiptLink } from "@/app/components/TxReceiptLink";
+import { DeliveryRateBadge } from "@/app/components/DeliveryRateBadge";
+import { VerifiedLiveBadge } from "@/app/components/VerifiedLiveBadge";
+import { MakeOfferModal } from "@/app/components/MakeOfferModal";
+import { useToast } from "@/app/components/Toast";
 import {
   fetchEthosData,
   getTrustLevelConfig,
   type EthosData,
 } from "@/lib/ethos-scores";
 import {
-  fetchListingsData,
+  fetchListingsPage,
   getGradientForApp,
   GRADIENTS,
   type Listing,
   type ListingsData,
 } from "@/lib/listings";
+import { MAX_LISTING_PAGE_SIZE } from "@/lib/listing-query";
+import {
+  fetchOffers,
+  getHighestOffer,
+  type OfferSummary,
+} from "@/lib/offers";
+import { BuyOrderBook, FillOrderModal } from "./buy-orders";
 import { blo } from "blo";
 import { useTheme } from "@/app/contexts/ThemeContext";
 
@@ -70,6 +81,7 @@ interface Transaction {
   priceUsdc: number;
   appId: string;
   chainId: number;
+  txHash?: string;
   createdAt: string;
 }
 
@@ -142,7 +154,9 @@ export default function AppPageClient() {
   const { resolvedTheme } = useTheme();
   const isLight = resolvedTheme === "light";
 
-  const [activeTab, setActiveTab] = useState<"listings" | "sales">("listings");
+  const [activeTab, setActiveTab] = useState<
+    "listings" | "orders" | "sales"
+  >("listings");
   const [sortField, setSortField] = useState<SortField>("price");
   const [sortDirection, setSortDirection] = useState<SortDirection>("asc");
   const [purchasingSlug, setPurchasingSlug] = useState<string | null>(null);
@@ -150,8 +164,12 @@ export default function AppPageClient() {
     {}
   );
   const [countdown, setCountdown] = useState(AUTO_REFRESH_INTERVAL);
+  const [showOfferModal, setShowOfferModal] = useState(false);
+  const [fillingOrder, setFillingOrder] = useState<OfferSummary | null>(null);
+  const { showToast } = useToast();
 
-  // TanStack Query for listings - shares cache with homepage
+  // The app's listings, cheapest first, as one page of the feed
+  const listingsQueryKey = [...LISTINGS_QUERY_KEY, "app", slug];
   const {
     data: listingsData,
     isLoading: loading,
@@ -160,8 +178,14 @@ export default function AppPageClient() {
     dataUpdatedAt,
     refetch,
   } = useQuery<ListingsData>({
-    queryKey: LISTINGS_QUERY_KEY,
-    queryFn: fetchListingsData,
+    queryKey: listingsQueryKey,
+    queryFn: () =>
+      fetchListingsPage({
+        apps: [slug],
+        sort: "price",
+        direction: "asc",
+        limit: MAX_LISTING_PAGE_SIZE,
+      }),
     staleTime: AUTO_REFRESH_INTERVAL * 1000,
     gcTime: 5 * 60 * 1000,
   });
@@ -192,15 +216,32 @@ export default function AppPageClient() {
     enabled: !!slug,
   });
 
-  // Transform transactions for PriceChart
-  const salesData = useMemo(() => {
-    if (!salesTransactions) return [];
-    return salesTransactions.map((tx) => ({
-      timestamp: tx.createdAt,
-      priceUsdc: tx.priceUsdc,
-      slug: tx.appId,
-    }));
-  }, [salesTransactions]);
+  // Open buy orders: offers on any listing of this app
+  const {
+    data: appOffers = [],
+    isLoading: offersLoading,
+    refetch: refetchOffers,
+  } = useQuery({
+    queryKey: ["offers", "app", slug],
+    queryFn: () => fetchOffers({ appId: slug }),
+    staleTime: AUTO_REFRESH_INTERVAL * 1000,
+    enabled: !!slug,
+  });
+  const highestOffer = getHighestOffer(appOffers);
+
+  // Lowest ask, shown against the highest bid
+  const { data: lowestAsk = null } = useQuery<number | null>({
+    queryKey: ["lowest-price", slug],
+    queryFn: async () => {
+      const params = new URLSearchParams({ appId: slug });
+      const response = await fetch(`/api/listings/lowest-price?${params}`);
+      if (!response.ok) throw new Error("Failed to fetch lowest price");
+      const data = await response.json();
+      return data.lowestPrice ?? null;
+    },
+    staleTime: AUTO_REFRESH_INTERVAL * 1000,
+    enabled: !!slug,
+  });
 
   const error = queryError instanceof Error ? queryError.message : "";
 
@@ -210,16 +251,24 @@ export default function AppPageClient() {
     [listingsData?.rawListings]
   );
 
-  // Filter listings for this specific app - match by appId OR appName
-  const appListings = useMemo(() => {
-    return allListings.filter((l) => l.appId === slug || l.appName === slug);
-  }, [allListings, slug]);
-
-  // Get app info from /api/apps for non-featured apps (works even with no active listings)
+  // Get app info from /api/apps (works even with no active listings).
+  // Older links may use the app's name instead of its id.
   const appDataFromApi = useMemo(() => {
     if (!appsData?.apps) return null;
-    return appsData.apps.find((app) => app.id === slug) || null;
+    return (
+      appsData.apps.find((app) => app.id === slug) ||
+      appsData.apps.find(
+        (app) => app.name.toLowerCase() === slug.toLowerCase()
+      ) ||
+      null
+    );
   }, [appsData, slug]);
+  const appId = appDataFromApi?.id ?? slug;
+
+  // Filter listings for this specific app
+  const appListings = useMemo(() => {
+    return allListings.filter((l) => l.appId === appId);
+  }, [allListings, appId]);
 
   // Get app info from listings as fallback
   const appInfoFromListings = useMemo(() => {
@@ -268,20 +317,9 @@ export default function AppPageClient() {
     closeSuccessModal,
   } = usePurchase();
 
-  // Check if this is a featured app
-  const featuredApp = useMemo(
-    () => featuredApps.find((a) => a.id === slug),
-    [slug]
-  );
-
   const gradient = useMemo(
-    () =>
-      featuredApp
-        ? getGradientForApp(featuredApp.appName)
-        : appInfo
-        ? getGradientForApp(appInfo.name)
-        : GRADIENTS[0],
-    [featuredApp, appInfo]
+    () => (appInfo ? getGradientForApp(appInfo.name) : GRADIENTS[0]),
+    [appInfo]
   );
 
   // Listings with Ethos data
@@ -399,7 +437,7 @@ export default function AppPageClient() {
     const result = await purchase(listingSlug, listing?.sellerAddress || "");
     if (result) {
       // Remove the purchased listing from the cache
-      queryClient.setQueryData<ListingsData>(LISTINGS_QUERY_KEY, (old) => {
+      queryClient.setQueryData<ListingsData>(listingsQueryKey, (old) => {
         if (!old) return old;
         return {
           invites: old.invites.filter((inv) => inv.slug !== listingSlug),
@@ -411,22 +449,20 @@ export default function AppPageClient() {
   };
 
   // Determine the display info
-  const displayName = featuredApp?.appName || appInfo?.name || slug;
-  const displayIconUrl = featuredApp?.appIconUrl || appInfo?.iconUrl;
+  const displayName = appInfo?.name || slug;
+  const displayIconUrl = appInfo?.iconUrl;
   const displayIconNeedsDarkBg = appInfo?.iconNeedsDarkBg || false;
   const displayDescription =
-    featuredApp?.description ||
-    (appInfo && "description" in appInfo ? appInfo.description : null);
+    appInfo && "description" in appInfo ? appInfo.description : null;
   const displaySiteUrl =
-    featuredApp?.siteUrl ||
-    (appInfo && "siteUrl" in appInfo ? appInfo.siteUrl : null);
-  const isFeatured = !!featuredApp;
+    appInfo && "siteUrl" in appInfo ? appInfo.siteUrl : null;
+  const isFeatured = appDataFromApi?.isFeatured ?? false;
 
   // Combined loading state - wait for both listings and apps data
   const isPageLoading = loading || appsLoading;
 
-  // 404 if no featured app and no app found in database (after loading)
-  if (!isPageLoading && !featuredApp && !appInfo) {
+  // 404 if no app found in database (after loading)
+  if (!isPageLoading && !appInfo) {
     return (
       <div className="min-h-screen bg-black text-zinc-100 flex items-center justify-center px-4">
         <motion.div
@@ -661,10 +697,24 @@ export default function AppPageClient() {
                       Sold out
                     </span>
                   )}
+                  {(highestOffer !== null || lowestAsk !== null) && (
+                    <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-cyan-500/10 border border-cyan-500/30 text-sm font-medium text-cyan-400">
+                      Bid {highestOffer !== null ? `$${highestOffer}` : "—"} ·
+                      Ask {lowestAsk !== null ? `$${lowestAsk}` : "—"}
+                    </span>
+                  )}
                 </div>
 
+                {/* Standing buy order on any listing of this app */}
+                <button
+                  onClick={() => setShowOfferModal(true)}
+                  className="mt-auto mb-3 w-full py-3 rounded-xl font-semibold text-cyan-400 bg-cyan-500/10 border border-cyan-500/30 hover:bg-cyan-500/20 transition-colors cursor-pointer"
+                >
+                  Place Buy Order
+                </button>
+
                 {/* CTA */}
-                <Link href="/sell" className="mt-auto">
+                <Link href="/sell">
                   <button className="hover-scale w-full py-3 rounded-xl font-semibold text-black bg-linear-to-r from-cyan-500 to-blue-500 hover:from-cyan-400 hover:to-blue-400 transition-all cursor-pointer flex items-center justify-center gap-2 active:scale-95">
                     <svg
                       className="w-4 h-4"
@@ -687,7 +737,7 @@ export default function AppPageClient() {
           </motion.div>
 
           {/* Price History Chart */}
-          {!salesLoading && !error && (
+          {!error && (
             <motion.div
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
@@ -695,7 +745,7 @@ export default function AppPageClient() {
               className="lg:col-span-2 flex"
             >
               <PriceChart
-                sales={salesData || []}
+                appId={slug}
                 gradientFrom={gradient.from}
                 gradientTo={gradient.to}
                 className="flex-1"
@@ -740,6 +790,34 @@ export default function AppPageClient() {
                   </span>
                 )}
               </button>
+              <button
+                onClick={() => setActiveTab("orders")}
+                className={`flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-medium text-sm transition-all cursor-pointer ${
+                  activeTab === "orders"
+                    ? "bg-zinc-800 text-white shadow-sm"
+                    : "text-zinc-400 hover:text-zinc-300 hover:bg-zinc-800/50"
+                }`}
+              >
+                <svg
+                  className="w-4 h-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M17 9V7a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2m2 4h10a2 2 0 002-2v-6a2 2 0 00-2-2H9a2 2 0 00-2 2v6a2 2 0 002 2zm7-5a2 2 0 11-4 0 2 2 0 014 0z"
+                  />
+                </svg>
+                <span>Buy Orders</span>
+                {appOffers.length > 0 && (
+                  <span className="px-2 py-0.5 rounded-md bg-cyan-500/20 text-cyan-400 text-xs font-semibold">
+                    {appOffers.length}
+                  </span>
+                )}
+              </button>
               <button
                 onClick={() => setActiveTab("sales")}
                 className={`flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-medium text-sm transition-all cursor-pointer ${
@@ -1135,6 +1213,15 @@ export default function AppPageClient() {
                               ) : (
                                 <span className="text-sm text-zinc-500">—</span>
                               )}
+                              <DeliveryRateBadge
+                                stats={listing.sellerDelivery}
+                                className="ml-1.5"
+                              />
+                              <VerifiedLiveBadge
+                                verifiedLive={listing.verifiedLive}
+                                checkedAt={listing.healthCheckedAt}
+                                className="ml-1.5"
+                              />
                             </div>
 
                             {/* Price */}
@@ -1204,6 +1291,22 @@ export default function AppPageClient() {
                     </div>
                   )}
                 </motion.div>
+              ) : activeTab === "orders" ? (
+                <motion.div
+                  key="orders"
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -10 }}
+                  transition={{ duration: 0.2 }}
+                >
+                  <BuyOrderBook
+                    orders={appOffers}
+                    isLoading={offersLoading}
+                    lowestAsk={lowestAsk}
+                    onPlaceOrder={() => setShowOfferModal(true)}
+                    onFill={setFillingOrder}
+                  />
+                </motion.div>
               ) : (
                 <motion.div
                   key="sales"
@@ -1345,10 +1448,11 @@ export default function AppPageClient() {
                               {/* Desktop Row */}
                               <div className="hidden md:grid grid-cols-[minmax(100px,1fr)_minmax(120px,1.5fr)_minmax(120px,1.5fr)_minmax(100px,1fr)] gap-4 px-5 py-4 items-center">
                                 {/* Time */}
-                                <div className="flex items-center">
+                                <div className="flex flex-col justify-center">
                                   <p className="text-sm font-medium text-zinc-300">
                                     {timeAgoText}
                                   </p>
+                                  <TxReceiptLink txHash={tx.txHash} />
                                 </div>
 
                                 {/* Buyer */}
@@ -1457,9 +1561,12 @@ export default function AppPageClient() {
 
                               {/* Mobile Card */}
                               <div className="md:hidden p-4 space-y-3">
-                                <p className="text-sm text-zinc-400">
-                                  {timeAgoText}
-                                </p>
+                                <div className="flex items-center gap-3">
+                                  <p className="text-sm text-zinc-400">
+                                    {timeAgoText}
+                                  </p>
+                                  <TxReceiptLink txHash={tx.txHash} />
+                                </div>
 
                                 <div>
                                   <p className="text-xs text-zinc-500 mb-1">
@@ -1552,6 +1659,39 @@ export default function AppPageClient() {
         </div>
       </div>
 
+      <AnimatePresence>
+        {showOfferModal && (
+          <MakeOfferModal
+            title={displayName}
+            appId={appId}
+            onClose={() => setShowOfferModal(false)}
+            onCreated={() => {
+              setShowOfferModal(false);
+              showToast("Buy order placed for sellers of this app", "success");
+              refetchOffers();
+            }}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {fillingOrder && (
+          <FillOrderModal
+            order={fillingOrder}
+            appDisplayName={displayName}
+            onClose={() => setFillingOrder(null)}
+            onFilled={() => {
+              setFillingOrder(null);
+              showToast(
+                "Buy order filled. The buyer has been notified",
+                "success"
+              );
+              refetchOffers();
+            }}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Payment Success Modal */}
       <PaymentSuccessModal
         isOpen={showSuccessModal}
@@ -0,0 +1,380 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { HandCoins, Loader2, X } from "lucide-react";
+import { useActiveAccount } from "thirdweb/react";
+import { chainId } from "@/lib/chain";
+import {
+  getEIP712Domain,
+  EIP712_FILL_ORDER_TYPES,
+  type FillOrderMessage,
+  type ListingType,
+} from "@/lib/signature";
+import { OFFER_PAYMENT_WINDOW_HOURS, type OfferSummary } from "@/lib/offers";
+
+function formatExpiry(expiresAt: string): string {
+  const diffMs = new Date(expiresAt).getTime() - Date.now();
+  const diffHours = Math.floor(diffMs / 3600000);
+  if (diffHours < 1) return "< 1h";
+  if (diffHours < 24) return `${diffHours}h`;
+  return `${Math.floor(diffHours / 24)}d`;
+}
+
+/**
+ * Open buy orders for an app, highest bid first, with the bid/ask spread.
+ * Sellers fill an order by creating a listing reserved for that buyer.
+ */
+export function BuyOrderBook({
+  orders,
+  isLoading,
+  lowestAsk,
+  onPlaceOrder,
+  onFill,
+}: {
+  orders: OfferSummary[];
+  isLoading: boolean;
+  lowestAsk: number | null;
+  onPlaceOrder: () => void;
+  onFill: (order: OfferSummary) => void;
+}) {
+  const account = useActiveAccount();
+  const sortedOrders = [...orders].sort((a, b) => b.priceUsdc - a.priceUsdc);
+  const highestBid = sortedOrders[0]?.priceUsdc ?? null;
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 sm:gap-4 mb-6">
+        <div className="flex items-center gap-3">
+          <h2 className="text-lg sm:text-xl md:text-2xl font-bold text-white">
+            Buy Orders
+          </h2>
+          {orders.length > 0 && (
+            <span className="inline-flex items-center justify-center w-8 h-8 sm:w-9 sm:h-9 rounded-full bg-zinc-800 border border-zinc-700 text-sm font-semibold text-white">
+              {orders.length}
+            </span>
+          )}
+        </div>
+        <button
+          onClick={onPlaceOrder}
+          className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-cyan-500/10 border border-cyan-500/30 hover:bg-cyan-500/20 text-sm font-medium text-cyan-400 transition-colors cursor-pointer"
+        >
+          <HandCoins className="w-4 h-4" />
+          Place Buy Order
+        </button>
+      </div>
+
+      {/* Spread */}
+      <div className="grid grid-cols-3 gap-3 mb-6">
+        <div className="p-4 rounded-xl bg-zinc-900/50 border border-zinc-800">
+          <div className="text-xs text-zinc-500 mb-1">Highest bid</div>
+          <div className="text-lg sm:text-xl font-bold text-emerald-400">
+            {highestBid !== null ? `$${highestBid}` : "—"}
+          </div>
+        </div>
+        <div className="p-4 rounded-xl bg-zinc-900/50 border border-zinc-800">
+          <div className="text-xs text-zinc-500 mb-1">Lowest ask</div>
+          <div className="text-lg sm:text-xl font-bold text-cyan-400">
+            {lowestAsk !== null ? `$${lowestAsk}` : "—"}
+          </div>
+        </div>
+        <div className="p-4 rounded-xl bg-zinc-900/50 border border-zinc-800">
+          <div className="text-xs text-zinc-500 mb-1">Spread</div>
+          <div className="text-lg sm:text-xl font-bold text-white">
+            {highestBid !== null && lowestAsk !== null
+              ? `$${Math.max(lowestAsk - highestBid, 0).toFixed(2)}`
+              : "—"}
+          </div>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[1, 2].map((i) => (
+            <div
+              key={i}
+              className="rounded-xl bg-zinc-900/50 border border-zinc-800 p-4 h-16 animate-pulse"
+            />
+          ))}
+        </div>
+      ) : sortedOrders.length > 0 ? (
+        <div className="rounded-xl border border-zinc-800 overflow-hidden">
+          <div className="grid grid-cols-[1fr_1.5fr_1fr_auto] gap-4 px-4 py-3 bg-zinc-900/80 text-xs font-medium text-zinc-500 uppercase tracking-wide">
+            <span>Bid</span>
+            <span>Buyer</span>
+            <span>Expires</span>
+            <span className="w-16" />
+          </div>
+          {sortedOrders.map((order) => {
+            const isOwnOrder =
+              account?.address.toLowerCase() === order.buyerAddress;
+            return (
+              <div
+                key={order.id}
+                className="grid grid-cols-[1fr_1.5fr_1fr_auto] gap-4 items-center px-4 py-3 border-t border-zinc-800 bg-zinc-950/50"
+              >
+                <span className="font-bold text-emerald-400">
+                  ${order.priceUsdc}
+                </span>
+                <Link
+                  href={`/profile/${order.buyerAddress}`}
+                  className="text-sm text-zinc-300 hover:text-cyan-400 transition-colors truncate"
+                >
+                  {order.buyerAddress.slice(0, 6)}...
+                  {order.buyerAddress.slice(-4)}
+                  {isOwnOrder && (
+                    <span className="ml-1.5 text-xs text-zinc-500">(you)</span>
+                  )}
+                </Link>
+                <span className="text-sm text-zinc-500">
+                  {formatExpiry(order.expiresAt)}
+                </span>
+                <span className="w-16 flex justify-end">
+                  {!isOwnOrder && (
+                    <button
+                      onClick={() => onFill(order)}
+                      className="px-3 py-1.5 rounded-lg bg-emerald-500/10 border border-emerald-500/30 hover:bg-emerald-500/20 text-xs font-medium text-emerald-400 transition-colors cursor-pointer"
+                    >
+                      Fill
+                    </button>
+                  )}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="rounded-xl bg-zinc-950/50 border border-zinc-800/50 p-8 text-center">
+          <p className="text-zinc-500">
+            No open buy orders. Place one and sellers can fill it at your price.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Modal for a seller to fill a buy order: the invite is listed at the order
+ * price and only the order's buyer can purchase it.
+ */
+export function FillOrderModal({
+  order,
+  appDisplayName,
+  onClose,
+  onFilled,
+}: {
+  order: OfferSummary;
+  appDisplayName: string;
+  onClose: () => void;
+  onFilled: (listingSlug: string) => void;
+}) {
+  const account = useActiveAccount();
+  const [listingType, setListingType] = useState<ListingType>("invite_link");
+  const [inviteUrl, setInviteUrl] = useState("");
+  const [appUrl, setAppUrl] = useState("");
+  const [accessCode, setAccessCode] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  // Disable background scrolling when modal is open
+  useEffect(() => {
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = "";
+    };
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!account) {
+      setError("Please connect your wallet first");
+      return;
+    }
+    if (listingType === "invite_link" && !inviteUrl.trim()) {
+      setError("Please enter your invite URL");
+      return;
+    }
+    if (listingType === "access_code" && (!appUrl.trim() || !accessCode.trim())) {
+      setError("Please enter the app URL and access code");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError("");
+
+    try {
+      const nonce = BigInt(Date.now());
+      const message: FillOrderMessage = {
+        offerId: order.id,
+        listingType,
+        inviteUrl: listingType === "invite_link" ? inviteUrl.trim() : "",
+        appUrl: listingType === "access_code" ? appUrl.trim() : "",
+        accessCode: listingType === "access_code" ? accessCode.trim() : "",
+        priceUsdc: order.priceUsdc.toString(),
+        sellerAddress: account.address as `0x${string}`,
+        nonce,
+      };
+
+      // Sign typed data using thirdweb account
+      const signature = await account.signTypedData({
+        domain: getEIP712Domain(chainId),
+        types: EIP712_FILL_ORDER_TYPES,
+        primaryType: "FillBuyOrder" as const,
+        message,
+      });
+
+      const response = await fetch(`/api/offers/${order.id}/fill`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          listingType,
+          inviteUrl: message.inviteUrl,
+          appUrl: message.appUrl,
+          accessCode: message.accessCode,
+          sellerAddress: account.address,
+          nonce: nonce.toString(),
+          chainId,
+          signature,
+        }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setError(data.error || "Failed to fill buy order");
+        return;
+      }
+      onFilled(data.listingSlug);
+    } catch (err) {
+      if (
+        err instanceof Error &&
+        (err.message.includes("User rejected") ||
+          err.message.includes("user rejected"))
+      ) {
+        setError("Signature rejected");
+      } else {
+        console.error("Failed to fill buy order:", err);
+        setError("Failed to fill buy order");
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-zinc-900 border border-zinc-800 rounded-2xl p-6 max-w-md w-full"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-bold text-white">Fill Buy Order</h3>
+            <span className="text-xs text-zinc-500">
+              {appDisplayName} · ${order.priceUsdc} USDC
+            </span>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-zinc-400 hover:text-white transition-colors cursor-pointer"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex gap-1 p-1 rounded-xl bg-zinc-950 border border-zinc-800">
+            {(["invite_link", "access_code"] as ListingType[]).map((type) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => setListingType(type)}
+                className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium transition-colors cursor-pointer ${
+                  listingType === type
+                    ? "bg-zinc-800 text-white"
+                    : "text-zinc-400 hover:text-zinc-300"
+                }`}
+              >
+                {type === "invite_link" ? "Invite Link" : "Access Code"}
+              </button>
+            ))}
+          </div>
+
+          {listingType === "invite_link" ? (
+            <div>
+              <label className="block text-sm font-medium text-zinc-300 mb-2">
+                Invite URL
+              </label>
+              <input
+                type="url"
+                value={inviteUrl}
+                onChange={(e) => setInviteUrl(e.target.value)}
+                placeholder="https://..."
+                className="w-full px-4 py-2.5 rounded-xl bg-zinc-950 border border-zinc-800 text-white placeholder:text-zinc-600 focus:border-cyan-500 focus:outline-none"
+              />
+            </div>
+          ) : (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-zinc-300 mb-2">
+                  App URL
+                </label>
+                <input
+                  type="url"
+                  value={appUrl}
+                  onChange={(e) => setAppUrl(e.target.value)}
+                  placeholder="https://..."
+                  className="w-full px-4 py-2.5 rounded-xl bg-zinc-950 border border-zinc-800 text-white placeholder:text-zinc-600 focus:border-cyan-500 focus:outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-300 mb-2">
+                  Access Code
+                </label>
+                <input
+                  type="text"
+                  value={accessCode}
+                  onChange={(e) => setAccessCode(e.target.value)}
+                  className="w-full px-4 py-2.5 rounded-xl bg-zinc-950 border border-zinc-800 text-white placeholder:text-zinc-600 focus:border-cyan-500 focus:outline-none"
+                />
+              </div>
+            </>
+          )}
+
+          <p className="text-xs text-zinc-500">
+            Creates a single-use listing at ${order.priceUsdc} that only this
+            buyer can purchase. They have {OFFER_PAYMENT_WINDOW_HOURS} hours to
+            pay.
+          </p>
+
+          {error && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-400 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2.5 rounded-xl bg-zinc-800 hover:bg-zinc-700 text-white font-medium transition-colors cursor-pointer"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="flex-1 px-4 py-2.5 rounded-xl bg-emerald-500 hover:bg-emerald-600 text-white font-medium transition-colors cursor-pointer disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+              {isSubmitting ? "Signing..." : "Fill Order"}
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
 import { ImageResponse } from "next/og";
 import { connectDB } from "@/lib/mongoose";
 import { Listing } from "@/models/listing";
-import { featuredApps } from "@/data/featuredApps";
-import { getAppIconInfo } from "@/lib/url";
+import { describeListingApp, findApp } from "@/lib/apps";
+import { notExpiredFilter } from "@/lib/listing";
 import {
   OG_SIZE,
   OG_CONTENT_TYPE,
@@ -47,44 +47,28 @@ export const contentType = OG_CONTENT_TYPE;
 async function getAppData(slug: string) {
   await connectDB();
 
-  // Check if this is a featured app
-  const featuredApp = featuredApps.find((a) => a.id === slug);
+  const app = await findApp(slug);
 
   // Get listings for this app
   const listings = await Listing.find({
-    $or: [{ appId: slug }, { appName: slug }],
+    appId: app?.slug ?? slug,
     status: "active",
+    reservedFor: { $exists: false },
+    ...notExpiredFilter(),
   }).lean();
 
   const listingCount = listings.length;
 
-  // For non-featured apps, get app info from first listing
-  let appName = slug;
-  let appIconUrl: string | null = null;
-  let iconNeedsDarkBg = false;
+  // Name and icon from the App registry, falling back to the first listing
+  let appName = app?.name ?? slug;
+  let appIconUrl: string | null = app?.iconUrl ?? null;
+  let iconNeedsDarkBg = app?.iconNeedsDarkBg ?? false;
 
-  if (featuredApp) {
-    appName = featuredApp.appName;
-    appIconUrl = featuredApp.appIconUrl;
-  } else if (listings.length > 0) {
-    const firstListing = listings[0] as {
-      appId?: string;
-      appName?: string;
-      inviteUrl?: string;
-      appUrl?: string;
-      listingType?: "invite_link" | "access_code";
-    };
-    appName = firstListing.appName || slug;
-    // Use centralized icon resolution
-    const iconInfo = getAppIconInfo({
-      appId: firstListing.appId,
-      appName: firstListing.appName,
-      inviteUrl: firstListing.inviteUrl,
-      appUrl: firstListing.appUrl,
-      listingType: firstListing.listingType,
-    });
-    appIconUrl = iconInfo.url;
-    iconNeedsDarkBg = iconInfo.needsDarkBg || false;
+  if (!appIconUrl && listings.length > 0) {
+    const listingApp = describeListingApp(listings[0], app);
+    appName = listingApp.appName || appName;
+    appIconUrl = listingApp.appIconUrl;
+    iconNeedsDarkBg = listingApp.iconNeedsDarkBg;
   }
 
   // Get cheapest price
@@ -100,7 +84,8 @@ async function getAppData(slug: string) {
     iconNeedsDarkBg,
     listingCount,
     cheapestPrice,
-    isFeatured: !!featuredApp,
+    isFeatured: app?.featured ?? false,
+    isApproved: !!app?.approvedAt,
   };
 }
 
@@ -114,8 +99,12 @@ export default async function Image({
   const appData = await getAppData(slug);
   const gradient = getGradientForApp(appData.appName);
 
-  // If no featured app and no listings, show basic OG
-  if (!appData.isFeatured && appData.listingCount === 0) {
+  // If no featured or approved app and no listings, show basic OG
+  if (
+    !appData.isFeatured &&
+    !appData.isApproved &&
+    appData.listingCount === 0
+  ) {
     return new ImageResponse(
       (
         <div
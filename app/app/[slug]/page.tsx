@@ -1,5 +1,5 @@
 import type { Metadata } from "next";
-import { featuredApps } from "@/data/featuredApps";
+import { findApp } from "@/lib/apps";
 import AppPageClient from "./app-client";
 
 type Props = {
@@ -11,13 +11,13 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
   // Decode the slug in case it's URL-encoded (e.g., "Base%20App" -> "Base App")
   const slug = decodeURIComponent(rawSlug);
 
-  // Check if it's a featured app
-  const featuredApp = featuredApps.find((a) => a.id === slug);
-  const appName = featuredApp?.appName ?? slug;
+  // Look the app up in the registry (by slug or name)
+  const app = await findApp(slug);
+  const appName = app?.name ?? slug;
 
   const title = `${appName} Invites`;
-  const description = featuredApp
-    ? `Browse and buy ${appName} invite codes. ${featuredApp.description}`
+  const description = app?.description
+    ? `Browse and buy ${appName} invite codes. ${app.description}`
     : `Browse and buy ${appName} invite codes on invite.markets. Instant delivery powered by x402.`;
 
   return {
@@ -94,6 +94,26 @@ export default function AppsClient() {
             <p className="text-lg md:text-xl text-zinc-400 max-w-2xl">
               Discover invite codes to the hottest web3 apps.
             </p>
+
+            <Link
+              href="/apps/submit"
+              className="inline-flex items-center gap-2 mt-6 px-4 py-2 rounded-lg bg-zinc-900 border border-zinc-800 hover:border-cyan-500/50 text-sm font-medium text-zinc-300 hover:text-cyan-400 transition-colors"
+            >
+              Missing an app? Submit it
+              <svg
+                className="w-4 h-4"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M13 7l5 5m0 0l-5 5m5-5H6"
+                />
+              </svg>
+            </Link>
           </motion.div>
         </div>
       </section>
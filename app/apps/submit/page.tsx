@@ -0,0 +1,24 @@
+import type { Metadata } from "next";
+import SubmitAppClient from "./submit-client";
+
+export const metadata: Metadata = {
+  title: "Submit an App | invite.markets",
+  description:
+    "Suggest an app for invite.markets. Once reviewed, it gets its own page where anyone can list and buy invites.",
+  openGraph: {
+    title: "Submit an App | invite.markets",
+    description:
+      "Suggest an app for invite.markets. Once reviewed, it gets its own page where anyone can list and buy invites.",
+    type: "website",
+  },
+  twitter: {
+    card: "summary_large_image",
+    title: "Submit an App | invite.markets",
+    description:
+      "Suggest an app for invite.markets. Once reviewed, it gets its own page where anyone can list and buy invites.",
+  },
+};
+
+export default function SubmitAppPage() {
+  return <SubmitAppClient />;
+}
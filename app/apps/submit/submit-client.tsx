@@ -0,0 +1,368 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { createThirdwebClient } from "thirdweb";
+import { useActiveAccount, useConnectModal } from "thirdweb/react";
+import { base, baseSepolia } from "thirdweb/chains";
+import { motion } from "framer-motion";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { AlertCircle, CheckCircle2, ImagePlus, Loader2 } from "lucide-react";
+import { useSession } from "@/hooks/useSession";
+import { isTestnet } from "@/lib/chain";
+import {
+  APP_ICON_TYPES,
+  MAX_APP_DESCRIPTION_LENGTH,
+  MAX_APP_ICON_BYTES,
+  MAX_APP_NAME_LENGTH,
+  validateAppSubmission,
+  type AppIconType,
+  type AppSubmissionStatus,
+  type AppSubmissionSummary,
+} from "@/lib/app-submissions";
+
+const thirdwebChain = isTestnet ? baseSepolia : base;
+
+const thirdwebClient = createThirdwebClient({
+  clientId: process.env.NEXT_PUBLIC_THIRDWEB_CLIENT_ID!,
+});
+
+const SUBMISSIONS_QUERY_KEY = ["app-submissions", "mine"];
+
+const STATUS_LABELS: Record<AppSubmissionStatus, string> = {
+  pending: "In review",
+  approved: "Approved",
+  merged: "Merged",
+  rejected: "Rejected",
+};
+
+const STATUS_STYLES: Record<AppSubmissionStatus, string> = {
+  pending: "bg-amber-500/20 text-amber-400",
+  approved: "bg-emerald-500/20 text-emerald-400",
+  merged: "bg-cyan-500/20 text-cyan-400",
+  rejected: "bg-zinc-800 text-zinc-400",
+};
+
+const inputClassName =
+  "w-full px-4 sm:px-5 py-3.5 sm:py-4 rounded-xl bg-zinc-900 border border-zinc-700 text-zinc-100 placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500/50 transition-all duration-150 hover:border-zinc-600 text-sm sm:text-base";
+
+const labelClassName =
+  "flex items-center gap-2 text-sm font-semibold text-zinc-300 mb-3";
+
+async function fetchMySubmissions(): Promise<AppSubmissionSummary[]> {
+  const response = await fetch("/api/apps/submissions");
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to fetch your submissions");
+  }
+
+  return data.submissions;
+}
+
+export default function SubmitAppClient() {
+  const queryClient = useQueryClient();
+  const account = useActiveAccount();
+  const { connect } = useConnectModal();
+  const { isSignedIn, ensureSession } = useSession();
+
+  const [name, setName] = useState("");
+  const [siteUrl, setSiteUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [icon, setIcon] = useState<File | null>(null);
+  const [iconPreview, setIconPreview] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [submitted, setSubmitted] = useState<AppSubmissionSummary | null>(
+    null
+  );
+
+  const { data: submissions = [] } = useQuery({
+    queryKey: SUBMISSIONS_QUERY_KEY,
+    queryFn: fetchMySubmissions,
+    enabled: isSignedIn,
+  });
+
+  // Release the previous preview when the icon changes
+  useEffect(() => {
+    if (!icon) {
+      setIconPreview(null);
+      return;
+    }
+    const url = URL.createObjectURL(icon);
+    setIconPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [icon]);
+
+  const handleIconChange = (file: File | undefined) => {
+    setError(null);
+    if (!file) return;
+
+    if (!APP_ICON_TYPES.includes(file.type as AppIconType)) {
+      setError("App icon must be a PNG, JPEG or WebP image");
+      return;
+    }
+    if (file.size > MAX_APP_ICON_BYTES) {
+      setError(`App icon must be at most ${MAX_APP_ICON_BYTES / 1024} KB`);
+      return;
+    }
+    setIcon(file);
+  };
+
+  const resetForm = () => {
+    setName("");
+    setSiteUrl("");
+    setDescription("");
+    setIcon(null);
+    setError(null);
+    setSubmitted(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!account) {
+      connect({ client: thirdwebClient, chain: thirdwebChain });
+      return;
+    }
+
+    const validationError = validateAppSubmission({
+      name,
+      siteUrl,
+      description,
+    });
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    if (!icon) {
+      setError("App icon is required");
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      await ensureSession();
+
+      const form = new FormData();
+      form.set("name", name.trim());
+      form.set("siteUrl", siteUrl.trim());
+      form.set("description", description.trim());
+      form.set("icon", icon);
+
+      const response = await fetch("/api/apps/submissions", {
+        method: "POST",
+        body: form,
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to submit app");
+      }
+
+      setSubmitted(data.submission);
+      queryClient.invalidateQueries({ queryKey: SUBMISSIONS_QUERY_KEY });
+    } catch (err) {
+      console.error("Submit app error:", err);
+      setError(err instanceof Error ? err.message : "Failed to submit app");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen text-zinc-100">
+      <div className="max-w-3xl mx-auto py-8 sm:py-12 md:py-16 px-4 md:px-6">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mb-8 sm:mb-12 text-center"
+        >
+          <h1 className="text-3xl sm:text-4xl md:text-5xl font-bold tracking-tight mb-3 sm:mb-4 bg-linear-to-br from-white to-zinc-400 bg-clip-text text-transparent">
+            Submit an App
+          </h1>
+          <p className="text-base sm:text-lg text-zinc-400">
+            Missing an app? Suggest it and, once reviewed, it gets its own page
+            on invite.markets.
+          </p>
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="rounded-2xl bg-zinc-950 border border-zinc-800 shadow-premium p-5 sm:p-8 md:p-10"
+        >
+          {submitted ? (
+            <div className="text-center py-6">
+              <CheckCircle2 className="w-14 h-14 mx-auto mb-4 text-emerald-400" />
+              <h2 className="text-2xl font-bold mb-2">Thanks!</h2>
+              <p className="text-zinc-400 mb-8">
+                {submitted.name} is waiting for review. You&apos;ll see the
+                result below.
+              </p>
+              <button
+                onClick={resetForm}
+                className="hover-scale rounded-xl py-3 px-6 font-semibold bg-zinc-900 hover:bg-zinc-800 border border-zinc-700 hover:border-zinc-600 transition-all cursor-pointer active:scale-95"
+              >
+                Submit Another App
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6 sm:space-y-8">
+              <div className="flex items-start gap-5">
+                <label
+                  htmlFor="appIcon"
+                  className="shrink-0 w-20 h-20 rounded-2xl bg-zinc-900 border border-dashed border-zinc-700 hover:border-cyan-500/50 transition-colors cursor-pointer flex items-center justify-center overflow-hidden"
+                >
+                  {iconPreview ? (
+                    <Image
+                      src={iconPreview}
+                      alt="App icon"
+                      width={80}
+                      height={80}
+                      unoptimized
+                      className="w-full h-full object-cover"
+                    />
+                  ) : (
+                    <ImagePlus className="w-6 h-6 text-zinc-500" />
+                  )}
+                </label>
+                <input
+                  type="file"
+                  id="appIcon"
+                  accept={APP_ICON_TYPES.join(",")}
+                  onChange={(e) => handleIconChange(e.target.files?.[0])}
+                  className="hidden"
+                />
+                <div className="flex-1">
+                  <label htmlFor="appName" className={labelClassName}>
+                    App Name
+                  </label>
+                  <input
+                    type="text"
+                    id="appName"
+                    value={name}
+                    maxLength={MAX_APP_NAME_LENGTH}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="e.g. Ethos"
+                    className={inputClassName}
+                  />
+                  <p className="mt-2 text-xs text-zinc-500">
+                    Square icon, PNG, JPEG or WebP, up to{" "}
+                    {MAX_APP_ICON_BYTES / 1024} KB.
+                  </p>
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="siteUrl" className={labelClassName}>
+                  Website
+                </label>
+                <input
+                  type="url"
+                  id="siteUrl"
+                  value={siteUrl}
+                  onChange={(e) => setSiteUrl(e.target.value)}
+                  placeholder="https://"
+                  className={inputClassName}
+                />
+              </div>
+
+              <div>
+                <label htmlFor="description" className={labelClassName}>
+                  Description
+                </label>
+                <textarea
+                  id="description"
+                  value={description}
+                  maxLength={MAX_APP_DESCRIPTION_LENGTH}
+                  onChange={(e) => setDescription(e.target.value)}
+                  rows={3}
+                  placeholder="What the app does, in a sentence or two"
+                  className={`${inputClassName} resize-none`}
+                />
+                <p className="mt-2 text-xs text-zinc-500 text-right">
+                  {description.length}/{MAX_APP_DESCRIPTION_LENGTH}
+                </p>
+              </div>
+
+              {error && (
+                <div className="px-4 py-3 bg-red-500/10 border border-red-500/30 rounded-xl flex items-center gap-2 text-red-400">
+                  <AlertCircle className="w-5 h-5 shrink-0" />
+                  <span className="text-sm">{error}</span>
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="relative w-full rounded-xl py-4 px-6 font-bold text-lg overflow-hidden disabled:cursor-not-allowed disabled:opacity-70 cursor-pointer hover-scale active:scale-95"
+              >
+                <div className="absolute inset-0 bg-linear-to-r from-cyan-500 to-blue-500" />
+                <span className="relative z-10 text-black flex items-center justify-center gap-2">
+                  {isSubmitting && <Loader2 className="w-5 h-5 animate-spin" />}
+                  {!account
+                    ? "Connect Wallet"
+                    : isSubmitting
+                      ? "Submitting..."
+                      : "Submit for Review"}
+                </span>
+              </button>
+            </form>
+          )}
+        </motion.div>
+
+        {submissions.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.2 }}
+            className="mt-8"
+          >
+            <h2 className="text-lg font-semibold text-zinc-300 mb-3">
+              Your Submissions
+            </h2>
+            <div className="rounded-2xl bg-zinc-950 border border-zinc-800 divide-y divide-zinc-800/50">
+              {submissions.map((submission) => (
+                <div key={submission.id} className="px-5 py-4 space-y-1">
+                  <div className="flex flex-wrap items-center gap-3 text-sm">
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[submission.status]}`}
+                    >
+                      {STATUS_LABELS[submission.status]}
+                    </span>
+                    {submission.appSlug ? (
+                      <Link
+                        href={`/app/${submission.appSlug}`}
+                        className="text-white font-medium hover:text-cyan-400 transition-colors"
+                      >
+                        {submission.name}
+                      </Link>
+                    ) : (
+                      <span className="text-white font-medium">
+                        {submission.name}
+                      </span>
+                    )}
+                    <span className="text-zinc-500 text-xs">
+                      {new Date(submission.createdAt).toLocaleDateString()}
+                    </span>
+                  </div>
+                  {submission.reviewNote && (
+                    <p className="text-xs text-zinc-500">
+                      {submission.reviewNote}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { PackageCheck } from "lucide-react";
+import { formatDeliveryRate, type DeliveryStats } from "@/lib/delivery-feedback";
+
+interface DeliveryRateBadgeProps {
+  stats?: DeliveryStats | null;
+  // Show the number of buyer reports next to the rate
+  showCount?: boolean;
+  className?: string;
+}
+
+function getRateStyle(rate: number): string {
+  if (rate >= 0.9) {
+    return "bg-emerald-500/10 border-emerald-500/30 text-emerald-400";
+  }
+  if (rate >= 0.7) {
+    return "bg-amber-500/10 border-amber-500/30 text-amber-400";
+  }
+  return "bg-red-500/10 border-red-500/30 text-red-400";
+}
+
+/**
+ * Seller's buyer-reported delivery success rate.
+ * Renders nothing until at least one buyer has left feedback.
+ */
+export function DeliveryRateBadge({
+  stats,
+  showCount = false,
+  className = "",
+}: DeliveryRateBadgeProps) {
+  if (!stats || stats.rate === null) return null;
+
+  const total = stats.worked + stats.failed;
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs font-semibold ${getRateStyle(stats.rate)} ${className}`}
+      title={`${stats.worked} of ${total} ${total === 1 ? "buyer" : "buyers"} reported the invite worked`}
+    >
+      <PackageCheck className="w-3 h-3" />
+      {formatDeliveryRate(stats.rate)}
+      {showCount && (
+        <span className="font-normal opacity-70">({total})</span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,229 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { Loader2, X } from "lucide-react";
+import { useActiveAccount } from "thirdweb/react";
+import { chainId } from "@/lib/chain";
+import {
+  getEIP712Domain,
+  EIP712_OFFER_TYPES,
+  type OfferMessage,
+} from "@/lib/signature";
+import {
+  MAX_OFFER_EXPIRY_DAYS,
+  OFFER_PAYMENT_WINDOW_HOURS,
+  type OfferSummary,
+} from "@/lib/offers";
+
+const EXPIRY_OPTIONS = [1, 3, 7, 14, MAX_OFFER_EXPIRY_DAYS];
+
+/**
+ * Modal for a buyer to sign an offer, either on one listing (listingSlug)
+ * or on any listing of an app (appId).
+ */
+export function MakeOfferModal({
+  title,
+  listingSlug,
+  appId,
+  askingPrice,
+  onClose,
+  onCreated,
+}: {
+  title: string;
+  listingSlug?: string;
+  appId?: string;
+  // Offers on a listing must be below its price
+  askingPrice?: number;
+  onClose: () => void;
+  onCreated: (offer: OfferSummary) => void;
+}) {
+  const account = useActiveAccount();
+  const [price, setPrice] = useState("");
+  const [expiryDays, setExpiryDays] = useState(7);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  // Disable background scrolling when modal is open
+  useEffect(() => {
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = "";
+    };
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!account) {
+      setError("Please connect your wallet first");
+      return;
+    }
+
+    const priceNum = parseFloat(price);
+    if (isNaN(priceNum) || priceNum <= 0) {
+      setError("Please enter a valid price");
+      return;
+    }
+    if (askingPrice !== undefined && priceNum >= askingPrice) {
+      setError(`Offer must be below the asking price of $${askingPrice}`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError("");
+
+    try {
+      const nonce = BigInt(Date.now());
+      const expiresAt = BigInt(
+        Math.floor(Date.now() / 1000) + expiryDays * 24 * 60 * 60
+      );
+
+      const message: OfferMessage = {
+        listingSlug: listingSlug || "",
+        appId: appId || "",
+        priceUsdc: priceNum.toString(),
+        buyerAddress: account.address as `0x${string}`,
+        expiresAt,
+        nonce,
+      };
+
+      // Sign typed data using thirdweb account
+      const signature = await account.signTypedData({
+        domain: getEIP712Domain(chainId),
+        types: EIP712_OFFER_TYPES,
+        primaryType: "MakeOffer" as const,
+        message,
+      });
+
+      const response = await fetch("/api/offers", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          listingSlug,
+          appId,
+          priceUsdc: priceNum,
+          buyerAddress: account.address,
+          expiresAt: expiresAt.toString(),
+          nonce: nonce.toString(),
+          chainId,
+          signature,
+        }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setError(data.error || "Failed to make offer");
+        return;
+      }
+      onCreated(data.offer);
+    } catch (err) {
+      if (
+        err instanceof Error &&
+        (err.message.includes("User rejected") ||
+          err.message.includes("user rejected"))
+      ) {
+        setError("Signature rejected");
+      } else {
+        console.error("Failed to make offer:", err);
+        setError("Failed to make offer");
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-zinc-900 border border-zinc-800 rounded-2xl p-6 max-w-md w-full"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-bold text-white">
+              {appId ? "Place Buy Order" : "Make an Offer"}
+            </h3>
+            <span className="text-xs text-zinc-500">{title}</span>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-zinc-400 hover:text-white transition-colors cursor-pointer"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-zinc-300 mb-2">
+              Your offer (USDC)
+            </label>
+            <input
+              type="number"
+              step="0.01"
+              min="0.01"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              placeholder="0.00"
+              className="w-full px-4 py-2.5 rounded-xl bg-zinc-950 border border-zinc-800 text-white placeholder:text-zinc-600 focus:border-cyan-500 focus:outline-none"
+            />
+            {askingPrice !== undefined && (
+              <p className="mt-1.5 text-xs text-zinc-500">
+                Asking price: ${askingPrice}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-zinc-300 mb-2">
+              Expires in
+            </label>
+            <select
+              value={expiryDays}
+              onChange={(e) => setExpiryDays(Number(e.target.value))}
+              className="w-full px-4 py-2.5 rounded-xl bg-zinc-950 border border-zinc-800 text-white focus:border-cyan-500 focus:outline-none cursor-pointer"
+            >
+              {EXPIRY_OPTIONS.map((days) => (
+                <option key={days} value={days}>
+                  {days} {days === 1 ? "day" : "days"}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1.5 text-xs text-zinc-500">
+              {appId
+                ? "Any seller of this app can accept."
+                : "The seller can accept until it expires."}{" "}
+              You&apos;ll have {OFFER_PAYMENT_WINDOW_HOURS} hours to pay once
+              accepted.
+            </p>
+          </div>
+
+          {error && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-400 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2.5 rounded-xl bg-zinc-800 hover:bg-zinc-700 text-white font-medium transition-colors cursor-pointer"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="flex-1 px-4 py-2.5 rounded-xl bg-cyan-500 hover:bg-cyan-600 text-white font-medium transition-colors cursor-pointer disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+              {isSubmitting ? "Signing..." : "Sign Offer"}
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </div>
+  );
+}
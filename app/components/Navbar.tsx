@@ -1,11 +1,29 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import Image from "next/image";
 import Link from "next/link";
+import { Search } from "lucide-react";
 import { ConnectButton } from "@/app/components/ConnectButton";
 import { ThemeToggle } from "@/app/components/ThemeToggle";
+import { SearchPalette } from "@/app/components/SearchPalette";
 
 export function Navbar() {
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+
+  // Cmd/Ctrl+K opens search from anywhere
+  useEffect(() => {
+    function handleShortcut(event: KeyboardEvent) {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setIsSearchOpen((open) => !open);
+      }
+    }
+
+    document.addEventListener("keydown", handleShortcut);
+    return () => document.removeEventListener("keydown", handleShortcut);
+  }, []);
+
   return (
     <nav className="sticky top-0 z-50 border-b border-[var(--border)]">
       {/* Navbar background */}
@@ -31,6 +49,16 @@ export function Navbar() {
 
           {/* Desktop navigation */}
           <div className="hidden md:flex items-center gap-2">
+            <button
+              onClick={() => setIsSearchOpen(true)}
+              className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-theme-secondary hover:text-theme-primary transition-colors duration-150 rounded-lg border border-[var(--border)] hover:bg-[var(--surface-elevated)] cursor-pointer"
+            >
+              <Search className="w-4 h-4" />
+              <span className="hidden lg:inline">Search</span>
+              <kbd className="hidden lg:inline font-sans text-[10px] text-zinc-500">
+                ⌘K
+              </kbd>
+            </button>
             <Link
               href="/#latest-listings"
               className="px-4 py-2 text-sm font-medium text-theme-secondary hover:text-theme-primary transition-colors duration-150 rounded-lg hover:bg-[var(--surface-elevated)]"
@@ -55,6 +83,12 @@ export function Navbar() {
             >
               All Sales
             </Link>
+            <Link
+              href="/stats"
+              className="px-4 py-2 text-sm font-medium text-theme-secondary hover:text-theme-primary transition-colors duration-150 rounded-lg hover:bg-[var(--surface-elevated)]"
+            >
+              Stats
+            </Link>
             {process.env.NEXT_PUBLIC_IS_TESTNET === "true" && <ThemeToggle />}
             <Link
               href="/sell"
@@ -112,10 +146,18 @@ export function Navbar() {
             <ConnectButton />
           </div>
 
-          {/* Mobile: Just show nothing (navigation is in bottom nav) */}
-          <div className="md:hidden" />
+          {/* Mobile: only search (navigation is in bottom nav) */}
+          <button
+            onClick={() => setIsSearchOpen(true)}
+            aria-label="Search"
+            className="md:hidden p-2 text-theme-secondary hover:text-theme-primary transition-colors rounded-lg cursor-pointer"
+          >
+            <Search className="w-5 h-5" />
+          </button>
         </div>
       </div>
+
+      {isSearchOpen && <SearchPalette onClose={() => setIsSearchOpen(false)} />}
     </nav>
   );
 }
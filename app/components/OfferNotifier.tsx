@@ -0,0 +1,57 @@
+"use client";
+
+import { useEffect } from "react";
+import { useActiveAccount } from "thirdweb/react";
+import { useToast } from "@/app/components/Toast";
+import { fetchOffers, isOfferPayable } from "@/lib/offers";
+
+const SEEN_OFFERS_STORAGE_KEY = "@invite-market/seen-accepted-offers";
+const POLL_INTERVAL = 60 * 1000;
+
+function getSeenOfferIds(): string[] {
+  try {
+    return JSON.parse(localStorage.getItem(SEEN_OFFERS_STORAGE_KEY) || "[]");
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Tells the connected buyer when one of their offers or buy orders has been
+ * accepted or filled and is waiting for payment. Each offer is announced once.
+ */
+export function OfferNotifier() {
+  const account = useActiveAccount();
+  const { showToast } = useToast();
+  const address = account?.address;
+
+  useEffect(() => {
+    if (!address) return;
+
+    const checkOffers = async () => {
+      const offers = await fetchOffers({ buyer: address });
+      const seen = getSeenOfferIds();
+      const payable = offers.filter(
+        (offer) => isOfferPayable(offer) && !seen.includes(offer.id)
+      );
+      if (payable.length === 0) return;
+
+      showToast(
+        payable.length === 1
+          ? `Your $${payable[0].priceUsdc} offer was accepted. Pay from your profile`
+          : `${payable.length} of your offers were accepted. Pay from your profile`,
+        "success"
+      );
+      localStorage.setItem(
+        SEEN_OFFERS_STORAGE_KEY,
+        JSON.stringify([...seen, ...payable.map((offer) => offer.id)])
+      );
+    };
+
+    checkOffers();
+    const interval = setInterval(checkOffers, POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [address, showToast]);
+
+  return null;
+}
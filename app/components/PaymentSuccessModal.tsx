@@ -4,6 +4,7 @@ import { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { CheckCircle, Copy, Check, X, ExternalLink } from "lucide-react";
 import { EthosRateButton } from "./EthosRateButton";
+import { TxReceiptLink } from "./TxReceiptLink";
 import { type PurchaseResult } from "@/hooks/usePurchase";
 
 interface PaymentSuccessModalProps {
@@ -293,6 +294,16 @@ export function PaymentSuccessModal({
                   </div>
                 )}
 
+                {/* Payment Receipt */}
+                {purchaseData?.txHash && (
+                  <div className="flex justify-center">
+                    <TxReceiptLink
+                      txHash={purchaseData.txHash}
+                      label="View payment on explorer"
+                    />
+                  </div>
+                )}
+
                 {/* Rate Seller on Ethos */}
                 {sellerAddress && (
                   <EthosRateButton
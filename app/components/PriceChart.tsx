@@ -1,183 +1,306 @@
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import {
-  AreaChart,
+  ComposedChart,
   Area,
+  Bar,
+  Line,
   XAxis,
   YAxis,
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
 } from "recharts";
+import {
+  ANALYTICS_RANGES,
+  DEFAULT_ANALYTICS_RANGE,
+  type AnalyticsBucket,
+  type AnalyticsRange,
+  type MarketAnalytics,
+} from "@/lib/market-analytics";
 
-interface SaleData {
-  timestamp: string;
-  priceUsdc: number;
-  slug: string;
-}
+type ChartMode = "price" | "candles" | "volume";
+
+const CHART_MODES: { mode: ChartMode; label: string }[] = [
+  { mode: "price", label: "Price" },
+  { mode: "candles", label: "Candles" },
+  { mode: "volume", label: "Volume" },
+];
+
+const RANGE_LABELS: Record<AnalyticsRange, string> = {
+  "24h": "24H",
+  "7d": "7D",
+  "30d": "30D",
+  "90d": "90D",
+  "1y": "1Y",
+  all: "All",
+};
+
+const UP_COLOR = "#34d399";
+const DOWN_COLOR = "#f87171";
 
 interface PriceChartProps {
-  sales: SaleData[];
+  appId: string;
   gradientFrom: string;
   gradientTo: string;
   className?: string;
 }
 
+interface ChartPoint {
+  x: number;
+  date: string;
+  fullDate: string;
+  floorAsk: number | null;
+  medianPrice: number | null;
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  close: number | null;
+  // Low to high, drawn by the candle shape
+  candle: [number, number] | null;
+  volume: number;
+  sales: number;
+  uniqueBuyers: number;
+}
+
+async function fetchMarketAnalytics(
+  appId: string,
+  range: AnalyticsRange
+): Promise<MarketAnalytics> {
+  const params = new URLSearchParams({ range });
+  const response = await fetch(
+    `/api/apps/${encodeURIComponent(appId)}/analytics?${params}`
+  );
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to fetch price history");
+  }
+
+  return data.analytics;
+}
+
+// Wick from high to low, body from open to close
+function Candle(props: unknown) {
+  const { x, y, width, height, payload } = props as {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    payload: ChartPoint;
+  };
+  const { open, high, low, close } = payload;
+  if (open === null || high === null || low === null || close === null) {
+    return <g />;
+  }
+
+  // The bar spans high (top) to low (bottom); place open and close within it
+  const toY = (price: number) =>
+    high === low ? y : y + ((high - price) / (high - low)) * height;
+  const color = close >= open ? UP_COLOR : DOWN_COLOR;
+  const centerX = x + width / 2;
+  const bodyTop = toY(Math.max(open, close));
+  const bodyHeight = Math.max(1, toY(Math.min(open, close)) - bodyTop);
+
+  return (
+    <g>
+      <line
+        x1={centerX}
+        x2={centerX}
+        y1={y}
+        y2={y + height}
+        stroke={color}
+        strokeWidth={1}
+      />
+      <rect
+        x={x}
+        y={bodyTop}
+        width={width}
+        height={bodyHeight}
+        fill={color}
+        stroke={color}
+      />
+    </g>
+  );
+}
+
+function formatPrice(value: number | null): string {
+  return value === null ? "–" : `$${value.toFixed(2)}`;
+}
+
+// Short label for the XAxis and full label for the tooltip
+function formatBucketLabels(d: Date, bucket: AnalyticsBucket) {
+  if (bucket === "hour") {
+    return {
+      date: d.toLocaleTimeString("en-US", { hour: "numeric" }),
+      fullDate: d.toLocaleString("en-US", {
+        month: "short",
+        day: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+      }),
+    };
+  }
+
+  const fullDate = d.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+  return {
+    date: d.toLocaleDateString("en-US", { month: "short", day: "numeric" }),
+    fullDate: bucket === "week" ? `Week of ${fullDate}` : fullDate,
+  };
+}
+
 export function PriceChart({
-  sales,
+  appId,
   gradientFrom,
   gradientTo,
   className,
 }: PriceChartProps) {
-  const chartData = useMemo(() => {
-    if (!sales || sales.length === 0) return [];
-
-    const sorted = [...sales].sort(
-      (a, b) =>
-        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
-
-    // Determine the time span to decide on label format
-    const firstDate = new Date(sorted[0].timestamp);
-    const lastDate = new Date(sorted[sorted.length - 1].timestamp);
-    const timeSpanMs = lastDate.getTime() - firstDate.getTime();
-    const timeSpanHours = timeSpanMs / (1000 * 60 * 60);
-
-    // If all sales are within 24 hours, show time; otherwise show date
-    const showTimeOnly = timeSpanHours < 24;
-
-    return sorted.map((sale) => {
-      const d = new Date(sale.timestamp);
-
-      // Format axis label based on time span
-      let axisLabel: string;
-      if (showTimeOnly) {
-        // Show time (e.g., "2:30 PM")
-        axisLabel = d.toLocaleTimeString("en-US", {
-          hour: "numeric",
-          minute: "2-digit",
-        });
-      } else {
-        // Show date (e.g., "Jan 6")
-        axisLabel = d.toLocaleDateString("en-US", {
-          month: "short",
-          day: "numeric",
-        });
-      }
+  const [range, setRange] = useState<AnalyticsRange>(DEFAULT_ANALYTICS_RANGE);
+  const [mode, setMode] = useState<ChartMode>("price");
+
+  const {
+    data: analytics,
+    isLoading,
+    isFetching,
+    error,
+  } = useQuery({
+    queryKey: ["analytics", appId, range],
+    queryFn: () => fetchMarketAnalytics(appId, range),
+    // Keep the previous range on screen while switching
+    placeholderData: keepPreviousData,
+    staleTime: 60 * 1000,
+    enabled: !!appId,
+  });
+
+  const chartData = useMemo((): ChartPoint[] => {
+    if (!analytics) return [];
+
+    return analytics.series.map((point) => {
+      const d = new Date(point.start);
 
       return {
-        // numeric x value so each point is unique
+        // numeric x value so each bucket is unique
         x: d.getTime(),
-        // short label for XAxis
-        date: axisLabel,
-        // full label for tooltip
-        fullDate: d.toLocaleString("en-US", {
-          month: "short",
-          day: "numeric",
-          year: "numeric",
-          hour: "2-digit",
-          minute: "2-digit",
-        }),
-        // keep raw price to preserve curve shape
-        price: sale.priceUsdc,
+        ...formatBucketLabels(d, analytics.bucket),
+        floorAsk: point.floorAsk,
+        medianPrice: point.medianPrice,
+        open: point.open,
+        high: point.high,
+        low: point.low,
+        close: point.close,
+        candle:
+          point.low !== null && point.high !== null
+            ? [point.low, point.high]
+            : null,
+        volume: point.volume,
+        sales: point.sales,
+        uniqueBuyers: point.uniqueBuyers,
       };
     });
-  }, [sales]);
+  }, [analytics]);
 
   const stats = useMemo(() => {
-    if (chartData.length === 0)
-      return {
-        avgPrice: 0,
-        minPrice: 0,
-        maxPrice: 0,
-        totalSales: 0,
-        priceChange: 0,
-      };
-
-    const prices = chartData.map((d) => d.price);
-    const avgPrice = prices.reduce((a, b) => a + b, 0) / prices.length;
-    const minPrice = Math.min(...prices);
-    const maxPrice = Math.max(...prices);
-    const totalSales = chartData.length;
+    const totalSales = chartData.reduce((sum, d) => sum + d.sales, 0);
+    const totalVolume = chartData.reduce((sum, d) => sum + d.volume, 0);
+    const floorAsk =
+      chartData.findLast((d) => d.floorAsk !== null)?.floorAsk ?? null;
 
+    // From the range's first sale to its last
+    const closes = chartData
+      .map((d) => d.close)
+      .filter((close): close is number => close !== null);
+    const firstOpen = chartData.find((d) => d.open !== null)?.open ?? null;
     const priceChange =
-      chartData.length > 1
-        ? ((chartData[chartData.length - 1].price - chartData[0].price) /
-            chartData[0].price) *
-          100
+      firstOpen !== null && closes.length > 0
+        ? ((closes[closes.length - 1] - firstOpen) / firstOpen) * 100
         : 0;
 
+    const avgPrice = totalSales > 0 ? totalVolume / totalSales : 0;
+
     return {
+      floorAsk,
       avgPrice: Math.round(avgPrice * 100) / 100,
-      minPrice,
-      maxPrice,
+      totalVolume: Math.round(totalVolume * 100) / 100,
       totalSales,
       priceChange: Math.round(priceChange * 10) / 10,
     };
   }, [chartData]);
 
-  if (chartData.length === 0) {
-    return (
-      <div
-        className={`rounded-xl bg-zinc-950 border border-zinc-800 p-8 flex flex-col justify-center ${className || ""}`}
-      >
-        <div className="text-center">
-          <div className="w-12 h-12 mx-auto mb-3 rounded-full bg-zinc-900 border border-zinc-800 flex items-center justify-center">
-            <svg
-              className="w-6 h-6 text-zinc-600"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z"
-              />
-            </svg>
-          </div>
-          <h3 className="text-sm font-semibold text-zinc-400 mb-1">
-            No sales history yet
-          </h3>
-          <p className="text-xs text-zinc-500">
-            Price history will appear after the first sale
-          </p>
-        </div>
-      </div>
-    );
-  }
+  const hasData =
+    mode === "price"
+      ? chartData.some((d) => d.floorAsk !== null || d.medianPrice !== null)
+      : stats.totalSales > 0;
 
   return (
     <div
       className={`rounded-xl bg-zinc-950 border border-zinc-800 overflow-hidden flex flex-col ${className || ""}`}
     >
       <div className="px-5 py-4 border-b border-zinc-800">
-        <h3 className="text-lg font-bold text-white mb-3">Price History</h3>
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+          <h3 className="text-lg font-bold text-white">Price History</h3>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="flex rounded-lg bg-zinc-900 border border-zinc-800 p-0.5">
+              {CHART_MODES.map(({ mode: value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => setMode(value)}
+                  className={`px-2.5 py-1 text-xs font-medium rounded-md transition-colors cursor-pointer ${
+                    mode === value
+                      ? "bg-zinc-700 text-white"
+                      : "text-zinc-400 hover:text-white"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="flex rounded-lg bg-zinc-900 border border-zinc-800 p-0.5">
+              {ANALYTICS_RANGES.map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setRange(value)}
+                  className={`px-2 py-1 text-xs font-medium rounded-md transition-colors cursor-pointer ${
+                    range === value
+                      ? "bg-zinc-700 text-white"
+                      : "text-zinc-400 hover:text-white"
+                  }`}
+                >
+                  {RANGE_LABELS[value]}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
 
         <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
           <div className="bg-zinc-900/50 rounded-lg p-3 border border-zinc-800 flex flex-col">
-            <div className="text-xs text-zinc-500 mb-1">Avg Price</div>
-            <div className="text-lg font-bold text-white">
-              ${stats.avgPrice}
+            <div className="text-xs text-zinc-500 mb-1">Floor Ask</div>
+            <div className="text-lg font-bold text-emerald-400">
+              {formatPrice(stats.floorAsk)}
             </div>
           </div>
 
           <div className="bg-zinc-900/50 rounded-lg p-3 border border-zinc-800 flex flex-col">
-            <div className="text-xs text-zinc-500 mb-1">Floor</div>
-            <div className="text-lg font-bold text-emerald-400">
-              ${stats.minPrice}
+            <div className="text-xs text-zinc-500 mb-1">Avg Price</div>
+            <div className="text-lg font-bold text-white">
+              ${stats.avgPrice}
             </div>
           </div>
 
           <div className="bg-zinc-900/50 rounded-lg p-3 border border-zinc-800 flex flex-col">
-            <div className="text-xs text-zinc-500 mb-1">Peak</div>
+            <div className="text-xs text-zinc-500 mb-1">Volume</div>
             <div className="text-lg font-bold text-cyan-400">
-              ${stats.maxPrice}
+              ${stats.totalVolume}
             </div>
           </div>
 
           <div className="bg-zinc-900/50 rounded-lg p-3 border border-zinc-800 flex flex-col">
-            <div className="text-xs text-zinc-500 mb-1">Total Sales</div>
+            <div className="text-xs text-zinc-500 mb-1">Sales</div>
             <div className="flex items-baseline gap-2">
               <div className="text-lg font-bold text-white">
                 {stats.totalSales}
@@ -199,77 +322,184 @@ export function PriceChart({
         </div>
       </div>
 
-      <div className="p-5">
-        <ResponsiveContainer width="100%" height={300}>
-          <AreaChart data={chartData}>
-            <defs>
-              <linearGradient id="priceGradient" x1="0" y1="0" x2="0" y2="1">
-                <stop offset="5%" stopColor={gradientFrom} stopOpacity={0.3} />
-                <stop offset="95%" stopColor={gradientTo} stopOpacity={0.05} />
-              </linearGradient>
-            </defs>
-            <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
-            <XAxis
-              dataKey="x"
-              stroke="#71717a"
-              style={{ fontSize: "12px" }}
-              tick={{ fill: "#71717a" }}
-              tickFormatter={(_, index) =>
-                chartData[index] ? chartData[index].date : ""
-              }
-            />
-            <YAxis
-              stroke="#71717a"
-              style={{ fontSize: "12px" }}
-              tick={{ fill: "#71717a" }}
-              tickFormatter={(value) => `$${value.toFixed(2)}`}
-            />
-            <Tooltip
-              content={({ active, payload }) => {
-                if (!active || !payload || !payload.length) return null;
-
-                const data = payload[0].payload;
-                return (
-                  <div
-                    style={{
-                      backgroundColor: "#18181b",
-                      border: "1px solid #3f3f46",
-                      borderRadius: "8px",
-                      padding: "8px 12px",
-                      fontSize: "12px",
-                    }}
-                  >
-                    <div style={{ color: "#a1a1aa", marginBottom: "4px" }}>
-                      {data.fullDate}
-                    </div>
-                    <div style={{ color: "#06b6d4", fontWeight: 600 }}>
-                      Price: ${data.price.toFixed(3)}
+      <div
+        className={`p-5 flex-1 transition-opacity ${isFetching ? "opacity-60" : ""}`}
+      >
+        {isLoading ? (
+          <div className="h-[300px] flex items-center justify-center">
+            <div className="w-6 h-6 border-2 border-zinc-700 border-t-zinc-400 rounded-full animate-spin" />
+          </div>
+        ) : error ? (
+          <div className="h-[300px] flex items-center justify-center text-sm text-red-400">
+            {error instanceof Error
+              ? error.message
+              : "Failed to fetch price history"}
+          </div>
+        ) : !hasData ? (
+          <div className="h-[300px] flex flex-col items-center justify-center text-center">
+            <div className="w-12 h-12 mx-auto mb-3 rounded-full bg-zinc-900 border border-zinc-800 flex items-center justify-center">
+              <svg
+                className="w-6 h-6 text-zinc-600"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z"
+                />
+              </svg>
+            </div>
+            <h3 className="text-sm font-semibold text-zinc-400 mb-1">
+              {range === "all"
+                ? "No sales history yet"
+                : "No sales in this range"}
+            </h3>
+            <p className="text-xs text-zinc-500">
+              {range === "all"
+                ? "Price history will appear after the first sale"
+                : "Try a longer range"}
+            </p>
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height={300}>
+            <ComposedChart data={chartData}>
+              <defs>
+                <linearGradient id="priceGradient" x1="0" y1="0" x2="0" y2="1">
+                  <stop
+                    offset="5%"
+                    stopColor={gradientFrom}
+                    stopOpacity={0.3}
+                  />
+                  <stop
+                    offset="95%"
+                    stopColor={gradientTo}
+                    stopOpacity={0.05}
+                  />
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
+              <XAxis
+                dataKey="x"
+                stroke="#71717a"
+                style={{ fontSize: "12px" }}
+                tick={{ fill: "#71717a" }}
+                tickFormatter={(_, index) =>
+                  chartData[index] ? chartData[index].date : ""
+                }
+              />
+              <YAxis
+                stroke="#71717a"
+                style={{ fontSize: "12px" }}
+                tick={{ fill: "#71717a" }}
+                domain={mode === "volume" ? [0, "auto"] : ["auto", "auto"]}
+                tickFormatter={(value) =>
+                  mode === "volume" ? `$${value}` : `$${value.toFixed(2)}`
+                }
+              />
+              <Tooltip
+                cursor={{ fill: "#27272a", opacity: 0.4 }}
+                content={({ active, payload }) => {
+                  if (!active || !payload || !payload.length) return null;
+
+                  const data = payload[0].payload as ChartPoint;
+                  return (
+                    <div
+                      style={{
+                        backgroundColor: "#18181b",
+                        border: "1px solid #3f3f46",
+                        borderRadius: "8px",
+                        padding: "8px 12px",
+                        fontSize: "12px",
+                      }}
+                    >
+                      <div style={{ color: "#a1a1aa", marginBottom: "4px" }}>
+                        {data.fullDate}
+                      </div>
+                      {mode === "price" && (
+                        <>
+                          <div
+                            style={{ color: gradientFrom, fontWeight: 600 }}
+                          >
+                            Median sale: {formatPrice(data.medianPrice)}
+                          </div>
+                          <div style={{ color: UP_COLOR }}>
+                            Floor ask: {formatPrice(data.floorAsk)}
+                          </div>
+                        </>
+                      )}
+                      {mode === "candles" && (
+                        <div style={{ color: "#e4e4e7" }}>
+                          O {formatPrice(data.open)} · H{" "}
+                          {formatPrice(data.high)} · L {formatPrice(data.low)}{" "}
+                          · C {formatPrice(data.close)}
+                        </div>
+                      )}
+                      {mode === "volume" && (
+                        <div style={{ color: gradientFrom, fontWeight: 600 }}>
+                          Volume: ${data.volume.toFixed(2)}
+                        </div>
+                      )}
+                      <div style={{ color: "#a1a1aa" }}>
+                        {data.sales} {data.sales === 1 ? "sale" : "sales"} ·{" "}
+                        {data.uniqueBuyers}{" "}
+                        {data.uniqueBuyers === 1 ? "buyer" : "buyers"}
+                      </div>
                     </div>
-                  </div>
-                );
-              }}
-            />
-            <Area
-              type="monotone"
-              dataKey="price"
-              stroke={gradientFrom}
-              strokeWidth={2}
-              fill="url(#priceGradient)"
-              dot={{
-                fill: gradientFrom,
-                strokeWidth: 2,
-                r: 4,
-                stroke: "#000",
-              }}
-              activeDot={{
-                r: 6,
-                fill: gradientFrom,
-                stroke: "#000",
-                strokeWidth: 2,
-              }}
-            />
-          </AreaChart>
-        </ResponsiveContainer>
+                  );
+                }}
+              />
+              {mode === "price" && (
+                <Area
+                  type="monotone"
+                  dataKey="medianPrice"
+                  stroke={gradientFrom}
+                  strokeWidth={2}
+                  fill="url(#priceGradient)"
+                  connectNulls
+                  dot={{
+                    fill: gradientFrom,
+                    strokeWidth: 2,
+                    r: 3,
+                    stroke: "#000",
+                  }}
+                  activeDot={{
+                    r: 5,
+                    fill: gradientFrom,
+                    stroke: "#000",
+                    strokeWidth: 2,
+                  }}
+                />
+              )}
+              {mode === "price" && (
+                <Line
+                  type="stepAfter"
+                  dataKey="floorAsk"
+                  stroke={UP_COLOR}
+                  strokeWidth={1.5}
+                  strokeDasharray="4 4"
+                  dot={false}
+                />
+              )}
+              {mode === "candles" && (
+                <Bar
+                  dataKey="candle"
+                  shape={Candle}
+                  isAnimationActive={false}
+                />
+              )}
+              {mode === "volume" && (
+                <Bar
+                  dataKey="volume"
+                  fill={gradientFrom}
+                  radius={[4, 4, 0, 0]}
+                />
+              )}
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
       </div>
     </div>
   );
@@ -4,7 +4,6 @@ import { useState } from "react";
 import Link from "next/link";
 import Image from "next/image";
 import { useQuery } from "@tanstack/react-query";
-import { featuredApps } from "@/data/featuredApps";
 import { getGradientForApp } from "@/lib/listings";
 
 interface Transaction {
@@ -25,15 +24,8 @@ interface SalesData {
   transactions: Transaction[];
 }
 
+// /api/sales resolves names from the App registry
 function resolveAppName(transaction: Transaction): string {
-  if (transaction.appId) {
-    const featuredApp = featuredApps.find(
-      (app) => app.id === transaction.appId
-    );
-    if (featuredApp) {
-      return featuredApp.appName;
-    }
-  }
   return transaction.appName || transaction.appId || "App";
 }
 
@@ -0,0 +1,346 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import NProgress from "nprogress";
+import { blo } from "blo";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { LayoutGrid, Loader2, Search, Tag, User } from "lucide-react";
+import {
+  MIN_SEARCH_QUERY_LENGTH,
+  splitSearchMatches,
+  type SearchResult,
+} from "@/lib/search";
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 200;
+
+const RESOLVED_TYPE_LABELS = {
+  farcaster: "Farcaster",
+  basename: "Basename",
+  ens: "ENS",
+};
+
+async function fetchSearchResults(query: string): Promise<SearchResult[]> {
+  const response = await fetch(`/api/search?q=${encodeURIComponent(query)}`);
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || "Search failed");
+  }
+
+  return data.results;
+}
+
+function getResultHref(result: SearchResult): string {
+  switch (result.type) {
+    case "app":
+      return `/app/${encodeURIComponent(result.id)}`;
+    case "listing":
+      return `/listing/${result.slug}`;
+    case "seller":
+      return `/profile/${result.address}`;
+  }
+}
+
+function getResultKey(result: SearchResult): string {
+  switch (result.type) {
+    case "app":
+      return `app:${result.id}`;
+    case "listing":
+      return `listing:${result.slug}`;
+    case "seller":
+      return `seller:${result.address}`;
+  }
+}
+
+function Highlight({ text, query }: { text: string; query: string }) {
+  return (
+    <>
+      {splitSearchMatches(text, query).map((part, i) =>
+        part.match ? (
+          <mark key={i} className="bg-transparent text-cyan-400 font-semibold">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={i}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+function ResultIcon({ result }: { result: SearchResult }) {
+  const iconUrl =
+    result.type === "app"
+      ? result.iconUrl
+      : result.type === "listing"
+        ? result.appIconUrl
+        : result.avatarUrl || blo(result.address as `0x${string}`);
+
+  if (!iconUrl) {
+    const Icon = result.type === "app" ? LayoutGrid : Tag;
+    return (
+      <div className="w-9 h-9 rounded-lg bg-zinc-800 flex items-center justify-center shrink-0">
+        <Icon className="w-4 h-4 text-zinc-500" />
+      </div>
+    );
+  }
+
+  const needsDarkBg = result.type !== "seller" && result.iconNeedsDarkBg;
+
+  return (
+    <div
+      className={`w-9 h-9 overflow-hidden shrink-0 flex items-center justify-center ${
+        result.type === "seller" ? "rounded-full" : "rounded-lg"
+      } ${needsDarkBg ? "bg-zinc-900" : "bg-white"}`}
+    >
+      <Image
+        src={iconUrl}
+        alt=""
+        width={36}
+        height={36}
+        unoptimized
+        className="w-full h-full object-cover"
+      />
+    </div>
+  );
+}
+
+function ResultDetails({
+  result,
+  query,
+}: {
+  result: SearchResult;
+  query: string;
+}) {
+  switch (result.type) {
+    case "app":
+      return (
+        <>
+          <p className="text-sm font-medium text-white truncate">
+            <Highlight text={result.name} query={query} />
+          </p>
+          <p className="text-xs text-zinc-500 truncate">
+            {result.matchedAlias && (
+              <>
+                Also known as{" "}
+                <Highlight text={result.matchedAlias} query={query} />
+                {" · "}
+              </>
+            )}
+            {result.activeListings}{" "}
+            {result.activeListings === 1 ? "listing" : "listings"}
+          </p>
+        </>
+      );
+    case "listing":
+      return (
+        <>
+          <p className="text-sm font-medium text-white truncate">
+            <Highlight text={result.appName} query={query} /> invite
+            <span className="text-zinc-400"> · ${result.priceUsdc}</span>
+          </p>
+          <p className="text-xs text-zinc-500 truncate">
+            {result.description ? (
+              <Highlight text={result.description} query={query} />
+            ) : (
+              `${result.sellerAddress.slice(0, 6)}…${result.sellerAddress.slice(-4)}`
+            )}
+          </p>
+        </>
+      );
+    case "seller":
+      return (
+        <>
+          <p className="text-sm font-medium text-white truncate">
+            <Highlight text={result.displayName} query={query} />
+          </p>
+          <p className="text-xs text-zinc-500 truncate">
+            {RESOLVED_TYPE_LABELS[result.resolvedType]} ·{" "}
+            {result.activeListings}{" "}
+            {result.activeListings === 1 ? "listing" : "listings"}
+          </p>
+        </>
+      );
+  }
+}
+
+const TYPE_ICONS = { app: LayoutGrid, listing: Tag, seller: User };
+
+const TYPE_LABELS = { app: "App", listing: "Listing", seller: "Seller" };
+
+/**
+ * Command palette searching apps, listings and sellers (/api/search).
+ * Arrow keys move through the results, Enter opens one, Escape closes.
+ * Render it only while open, so each search starts empty.
+ */
+export function SearchPalette({ onClose }: { onClose: () => void }) {
+  const router = useRouter();
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const [input, setInput] = useState("");
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(input.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [input]);
+
+  const canSearch = query.length >= MIN_SEARCH_QUERY_LENGTH;
+
+  const {
+    data: results = [],
+    isFetching,
+    error,
+  } = useQuery({
+    queryKey: ["search", query],
+    queryFn: () => fetchSearchResults(query),
+    enabled: canSearch,
+    // Keep the previous results on screen while typing
+    placeholderData: keepPreviousData,
+    staleTime: 30 * 1000,
+  });
+
+  // Keep the active result in view
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  const visibleResults = canSearch ? results : [];
+  // Results can shrink while typing
+  const selectedIndex = Math.min(activeIndex, visibleResults.length - 1);
+
+  const openResult = (result: SearchResult) => {
+    onClose();
+    NProgress.start();
+    router.push(getResultHref(result));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === "ArrowDown" && visibleResults.length > 0) {
+      e.preventDefault();
+      setActiveIndex((selectedIndex + 1) % visibleResults.length);
+    } else if (e.key === "ArrowUp" && visibleResults.length > 0) {
+      e.preventDefault();
+      setActiveIndex(
+        (selectedIndex - 1 + visibleResults.length) % visibleResults.length
+      );
+    } else if (e.key === "Enter" && visibleResults[selectedIndex]) {
+      e.preventDefault();
+      openResult(visibleResults[selectedIndex]);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-start justify-center p-4 pt-[12vh]"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-label="Search"
+        className="w-full max-w-xl rounded-2xl bg-zinc-950 border border-zinc-800 shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex items-center gap-3 px-4 border-b border-zinc-800">
+          {isFetching ? (
+            <Loader2 className="w-5 h-5 text-zinc-500 animate-spin shrink-0" />
+          ) : (
+            <Search className="w-5 h-5 text-zinc-500 shrink-0" />
+          )}
+          <input
+            type="text"
+            autoFocus
+            value={input}
+            onChange={(e) => {
+              setInput(e.target.value);
+              // Start from the best match of the new results
+              setActiveIndex(0);
+            }}
+            placeholder="Search apps, listings and sellers"
+            role="combobox"
+            aria-expanded={visibleResults.length > 0}
+            aria-controls="search-results"
+            aria-activedescendant={
+              visibleResults.length > 0
+                ? `search-result-${selectedIndex}`
+                : undefined
+            }
+            className="flex-1 py-4 bg-transparent text-zinc-100 placeholder-zinc-500 focus:outline-none text-base"
+          />
+          <kbd className="hidden sm:block px-1.5 py-0.5 rounded border border-zinc-700 text-[10px] text-zinc-500">
+            ESC
+          </kbd>
+        </div>
+
+        {error ? (
+          <p className="px-4 py-8 text-center text-sm text-red-400">
+            {error instanceof Error ? error.message : "Search failed"}
+          </p>
+        ) : !canSearch ? (
+          <p className="px-4 py-8 text-center text-sm text-zinc-500">
+            Type at least {MIN_SEARCH_QUERY_LENGTH} characters to search
+          </p>
+        ) : visibleResults.length === 0 ? (
+          !isFetching && (
+            <p className="px-4 py-8 text-center text-sm text-zinc-500">
+              No results for &ldquo;{query}&rdquo;
+            </p>
+          )
+        ) : (
+          <ul
+            ref={listRef}
+            id="search-results"
+            role="listbox"
+            className="max-h-[60vh] overflow-y-auto py-2"
+          >
+            {visibleResults.map((result, i) => {
+              const TypeIcon = TYPE_ICONS[result.type];
+              return (
+                <li
+                  key={getResultKey(result)}
+                  id={`search-result-${i}`}
+                  data-index={i}
+                  role="option"
+                  aria-selected={i === selectedIndex}
+                  onMouseMove={() => setActiveIndex(i)}
+                  onClick={() => openResult(result)}
+                  className={`mx-2 px-3 py-2.5 rounded-xl flex items-center gap-3 cursor-pointer transition-colors ${
+                    i === selectedIndex ? "bg-zinc-800/80" : ""
+                  }`}
+                >
+                  <ResultIcon result={result} />
+                  <div className="flex-1 min-w-0">
+                    <ResultDetails result={result} query={query} />
+                  </div>
+                  <span className="flex items-center gap-1 text-[10px] uppercase tracking-wide text-zinc-500 shrink-0">
+                    <TypeIcon className="w-3 h-3" />
+                    {TYPE_LABELS[result.type]}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="hidden sm:flex items-center gap-4 px-4 py-2.5 border-t border-zinc-800 text-[11px] text-zinc-500">
+          <span>
+            <kbd className="font-sans">↑↓</kbd> to navigate
+          </span>
+          <span>
+            <kbd className="font-sans">↵</kbd> to open
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
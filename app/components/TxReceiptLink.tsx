@@ -0,0 +1,37 @@
+"use client";
+
+import { ExternalLink } from "lucide-react";
+import { getExplorerTxUrl } from "@/lib/chain";
+
+interface TxReceiptLinkProps {
+  txHash?: string;
+  label?: string;
+  className?: string;
+}
+
+/**
+ * Links a sale to its settlement transaction on the block explorer.
+ * Renders nothing for legacy sales recorded without a transaction hash.
+ */
+export function TxReceiptLink({
+  txHash,
+  label = "Receipt",
+  className = "",
+}: TxReceiptLinkProps) {
+  if (!txHash) return null;
+
+  return (
+    <a
+      href={getExplorerTxUrl(txHash)}
+      target="_blank"
+      rel="noopener noreferrer"
+      // Rows that link to the listing should not navigate when opening the receipt
+      onClick={(e) => e.stopPropagation()}
+      className={`relative z-10 inline-flex items-center gap-1 text-xs text-zinc-500 hover:text-cyan-400 transition-colors ${className}`}
+      title={`View transaction ${txHash.slice(0, 10)}… on explorer`}
+    >
+      <span>{label}</span>
+      <ExternalLink className="w-3 h-3" />
+    </a>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { ShieldCheck } from "lucide-react";
+import { timeAgo } from "@/lib/time";
+
+interface VerifiedLiveBadgeProps {
+  verifiedLive?: boolean;
+  checkedAt?: string;
+  className?: string;
+}
+
+/**
+ * Shown when the listing's invite link passed a recent health check.
+ * Renders nothing otherwise.
+ */
+export function VerifiedLiveBadge({
+  verifiedLive,
+  checkedAt,
+  className = "",
+}: VerifiedLiveBadgeProps) {
+  if (!verifiedLive) return null;
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs font-semibold bg-cyan-500/10 border-cyan-500/30 text-cyan-400 ${className}`}
+      title={
+        checkedAt
+          ? `Invite link checked ${timeAgo(checkedAt)}`
+          : "Invite link recently checked"
+      }
+    >
+      <ShieldCheck className="w-3 h-3" />
+      Live
+    </span>
+  );
+}
@@ -14,6 +14,7 @@ export function InviteClient({ code, isValidCode }: InviteClientProps) {
   const [status, setStatus] = useState<"loading" | "success" | "error">(
     isValidCode ? "loading" : "error"
   );
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
   useEffect(() => {
     // Early return if invalid - state already initialized to "error" via useState
@@ -36,6 +37,8 @@ export function InviteClient({ code, isValidCode }: InviteClientProps) {
             window.location.href = "/";
           }, 1000);
         } else {
+          const data = await response.json().catch(() => ({}));
+          setErrorMessage(data.error ?? null);
           setStatus("error");
         }
       } catch {
@@ -106,8 +109,10 @@ export function InviteClient({ code, isValidCode }: InviteClientProps) {
           Invalid Invite Code
         </h1>
         <p className="text-zinc-400 text-lg mb-8">
-          The invite code you used is not valid. Please check your link and try
-          again.
+          {errorMessage
+            ? `${errorMessage}.`
+            : "The invite code you used is not valid."}{" "}
+          Please check your link and try again.
         </p>
         <Link
           href="/"
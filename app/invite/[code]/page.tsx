@@ -1,8 +1,9 @@
 import { redirect } from "next/navigation";
+import { connectDB } from "@/lib/mongoose";
+import { WhitelistInvite } from "@/models/whitelistInvite";
+import { getInviteUnavailableReason } from "@/lib/whitelist-invites";
 import { InviteClient } from "./invite-client";
 
-const INVITE_ACCESS_CODE = process.env.INVITE_ACCESS_CODE;
-
 interface InvitePageProps {
   params: Promise<{
     code: string;
@@ -17,8 +18,12 @@ export default async function InvitePage({ params }: InvitePageProps) {
     redirect("/");
   }
 
-  // Validate the access code on server
-  const isValidCode = !!(INVITE_ACCESS_CODE && code === INVITE_ACCESS_CODE);
+  // Check the invite on the server; it is redeemed by /api/invite/verify
+  await connectDB();
+  const invite = await WhitelistInvite.findOne({ code })
+    .select("revokedAt expiresAt maxRedemptions redemptionCount")
+    .lean();
+  const isValidCode = getInviteUnavailableReason(invite) === null;
 
   return <InviteClient code={code} isValidCode={isValidCode} />;
 }
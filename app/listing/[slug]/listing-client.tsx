@@ -4,42 +4,47 @@ import { useEffect, useState, useMemo } from "react";
 import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
 import Image from "next/image";
-import { motion } from "framer-motion";
+import { motion, AnimatePresence } from "framer-motion";
+import { useActiveAccount } from "thirdweb/react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { featuredApps } from "@/data/featuredApps";
 import { PaymentSuccessModal } from "@/app/components/PaymentSuccessModal";
 import { EthosRateButton } from "@/app/components/EthosRateButton";
+import { DeliveryRateBadge } from "@/app/components/DeliveryRateBadge";
+import { VerifiedLiveBadge } from "@/app/components/VerifiedLiveBadge";
+import { MakeOfferModal } from "@/app/components/MakeOfferModal";
+import { useToast } from "@/app/components/Toast";
 import { usePurchase, LISTINGS_QUERY_KEY } from "@/hooks/usePurchase";
 import {
   useResolveAddresses,
   getSellerDisplayInfo,
 } from "@/lib/resolve-addresses";
 import { timeAgo } from "@/lib/time";
+import { formatTimeLeft } from "@/lib/listing-expiry";
 import {
   fetchEthosData,
   getTrustLevelConfig,
   type EthosData,
 } from "@/lib/ethos-scores";
 import {
-  fetchListingsData,
+  fetchListingFeedPage,
   getGradientForApp,
   isListingAvailable,
   type Listing,
-  type ListingsData,
 } from "@/lib/listings";
+import { fetchOffers, getHighestOffer } from "@/lib/offers";
 import { blo } from "blo";
 import { useTheme } from "@/app/contexts/ThemeContext";
 
-// Fetch a single listing by slug from the API
+// Fetch a single listing by slug from the API (null when it doesn't exist)
 async function fetchSingleListing(slug: string): Promise<Listing | null> {
-  try {
-    const response = await fetch(`/api/listings/${slug}`);
-    if (!response.ok) return null;
-    const data = await response.json();
-    return data.listing || null;
-  } catch {
-    return null;
+  const response = await fetch(`/api/listings/${slug}`);
+  if (response.status === 404) return null;
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to fetch listing");
   }
+  return data.listing || null;
 }
 
 // Fetch seller statistics
@@ -73,58 +78,30 @@ export default function ListingClient() {
     showSuccessModal,
     closeSuccessModal,
   } = usePurchase();
+  const account = useActiveAccount();
+  const { showToast } = useToast();
+  const [showOfferModal, setShowOfferModal] = useState(false);
 
-  // TanStack Query for listings - shares cache with homepage
   const {
-    data: listingsData,
-    isLoading: cacheLoading,
+    data: listing,
+    isLoading: loading,
     error: queryError,
-  } = useQuery<ListingsData>({
-    queryKey: LISTINGS_QUERY_KEY,
-    queryFn: fetchListingsData,
-    staleTime: 60 * 1000,
-    gcTime: 5 * 60 * 1000,
-  });
-
-  // Find this specific listing from the cache
-  const cachedListing = useMemo(() => {
-    if (!listingsData?.rawListings) return null;
-    return listingsData.rawListings.find((l) => l.slug === slug) || null;
-  }, [listingsData, slug]);
-
-  // Fetch listing directly if not in cache (handles newly created listings)
-  const { data: directListing, isLoading: directLoading } = useQuery({
+  } = useQuery({
     queryKey: ["single-listing", slug],
     queryFn: () => fetchSingleListing(slug),
-    enabled: !cacheLoading && !cachedListing,
     staleTime: 60 * 1000,
   });
 
-  // Add to main cache when direct fetch succeeds
-  useEffect(() => {
-    if (directListing && directListing.status === "active") {
-      queryClient.setQueryData<ListingsData>(LISTINGS_QUERY_KEY, (old) => {
-        if (!old) {
-          return { invites: [], rawListings: [directListing] };
-        }
-        if (old.rawListings.some((l) => l.slug === directListing.slug)) {
-          return old;
-        }
-        return {
-          ...old,
-          rawListings: [directListing, ...old.rawListings],
-        };
-      });
-    }
-  }, [directListing, queryClient]);
-
-  // Use cached listing if available, otherwise use directly fetched listing
-  const listing = cachedListing || directListing;
-  // Show loading while cache is loading OR while direct fetch is in progress (when not in cache)
-  const loading = cacheLoading || (!cachedListing && directLoading);
-
   const error = queryError instanceof Error ? queryError.message : "";
 
+  // Open offers buyers made on this listing
+  const { data: offers = [], refetch: refetchOffers } = useQuery({
+    queryKey: ["offers", "listing", slug],
+    queryFn: () => fetchOffers({ listing: slug }),
+    staleTime: 60 * 1000,
+  });
+  const highestOffer = getHighestOffer(offers);
+
   // Resolve seller address
   const sellerAddresses = useMemo(
     () => (listing?.sellerAddress ? [listing.sellerAddress] : []),
@@ -146,41 +123,34 @@ export default function ListingClient() {
     staleTime: 5 * 60 * 1000,
   });
 
+  // The app's two cheapest available listings: one of them is cheaper than
+  // this listing if any is
+  const { data: cheapestListings } = useQuery({
+    queryKey: [...LISTINGS_QUERY_KEY, "cheapest", listing?.appId],
+    queryFn: () =>
+      fetchListingFeedPage({
+        apps: [listing!.appId!],
+        sort: "price",
+        direction: "asc",
+        limit: 2,
+      }),
+    enabled: !!listing?.appId,
+    staleTime: 60 * 1000,
+  });
+
   // Find cheaper listing for the same app
   const cheaperListing = useMemo(() => {
-    if (!listing || !listingsData?.rawListings) return null;
-
-    // Get the app identifier - could be appId (featured/dropdown) or appName (custom)
-    const appId = listing.appId;
-    const appName = listing.appName;
-
-    // Need at least one identifier to find similar listings
-    if (!appId && !appName) return null;
-
-    const sameAppListings = listingsData.rawListings.filter((l) => {
-      // Must be a different listing
-      if (l.slug === listing.slug) return false;
-      // Must be active and cheaper
-      if (l.status !== "active" || l.priceUsdc >= listing.priceUsdc) return false;
-
-      // Match by appId OR appName (handles both featured apps and custom apps)
-      // This ensures we find all listings for the same app regardless of how they were created
-      const matchesAppId = appId && l.appId === appId;
-      const matchesAppName = appName && l.appName === appName;
-      // Also check cross-matches (appId matches other's appName or vice versa)
-      const crossMatchId = appId && l.appName === appId;
-      const crossMatchName = appName && l.appId === appName;
-
-      return matchesAppId || matchesAppName || crossMatchId || crossMatchName;
-    });
+    if (!listing || !cheapestListings) return null;
 
-    if (sameAppListings.length === 0) return null;
-
-    // Return the cheapest one
-    return sameAppListings.reduce((cheapest, current) =>
-      current.priceUsdc < cheapest.priceUsdc ? current : cheapest
+    return (
+      cheapestListings.listings.find(
+        (l) =>
+          l.slug !== listing.slug &&
+          l.appId === listing.appId &&
+          l.priceUsdc < listing.priceUsdc
+      ) ?? null
     );
-  }, [listing, listingsData]);
+  }, [listing, cheapestListings]);
 
   // Scroll to top on mount
   useEffect(() => {
@@ -223,14 +193,8 @@ export default function ListingClient() {
 
     const result = await purchase(listing.slug, listing.sellerAddress);
     if (result) {
-      // Remove the purchased listing from the shared cache
-      queryClient.setQueryData<ListingsData>(LISTINGS_QUERY_KEY, (old) => {
-        if (!old) return old;
-        return {
-          invites: old.invites.filter((inv) => inv.slug !== listing.slug),
-          rawListings: old.rawListings.filter((l) => l.slug !== listing.slug),
-        };
-      });
+      // Show the listing's new inventory
+      queryClient.invalidateQueries({ queryKey: ["single-listing", slug] });
     }
   };
 
@@ -271,6 +235,20 @@ export default function ListingClient() {
         dot: "bg-red-400",
         label: "Cancelled",
       },
+      expired: {
+        bg: "bg-amber-500/20",
+        border: "border-amber-500/30",
+        text: "text-amber-300",
+        dot: "bg-amber-400",
+        label: "Expired",
+      },
+      paused: {
+        bg: "bg-amber-500/20",
+        border: "border-amber-500/30",
+        text: "text-amber-300",
+        dot: "bg-amber-400",
+        label: "Paused",
+      },
     }[listing.status];
   };
 
@@ -408,13 +386,12 @@ export default function ListingClient() {
     );
   }
 
-  const app = featuredApps.find((a) => a.id === listing.appId) ?? null;
-  // For non-featured apps, appId might contain the app name (when selected from existing apps)
-  const appName = app?.appName ?? listing.appName ?? listing.appId ?? "Invite";
-  const appIconUrl = app?.appIconUrl ?? listing.appIconUrl;
+  // The API resolves the app's name and icon from the registry
+  const appName = listing.appName ?? listing.appId ?? "Invite";
+  const appIconUrl = listing.appIconUrl;
   const iconNeedsDarkBg = listing.iconNeedsDarkBg || false;
-  // For linking to app page: use appId for featured apps, appName for custom apps
-  const appSlug = listing.appId || listing.appName;
+  // The app page is keyed by the app's registry id
+  const appSlug = listing.appId;
   const gradient = getGradientForApp(appName);
   const status = getStatusConfig(listing);
 
@@ -423,7 +400,13 @@ export default function ListingClient() {
   const purchaseCount = listing.purchaseCount ?? 0;
   const isUnlimited = maxUses === -1;
   const remainingUses = isUnlimited ? null : maxUses - purchaseCount;
-  const canPurchase = isListingAvailable(listing);
+  const isOwnListing =
+    account?.address.toLowerCase() === listing.sellerAddress.toLowerCase();
+  // Listings that fill a buy order can only be bought by that order's buyer
+  const isReservedForOther =
+    !!listing.reservedFor &&
+    account?.address.toLowerCase() !== listing.reservedFor;
+  const canPurchase = isListingAvailable(listing) && !isReservedForOther;
 
   const trustLevelConfig = ethosData
     ? getTrustLevelConfig(ethosData.level)
@@ -474,16 +457,27 @@ export default function ListingClient() {
             <div className="rounded-xl bg-zinc-950 border border-zinc-800 p-6">
               {/* Status & Time */}
               <div className="flex items-center justify-between mb-4">
-                <span
-                  className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-full ${status.bg} border ${status.border}`}
-                >
-                  <span className={`w-2 h-2 rounded-full ${status.dot}`} />
-                  <span className={`text-sm font-medium ${status.text}`}>
-                    {status.label}
+                <div className="flex items-center gap-2">
+                  <span
+                    className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-full ${status.bg} border ${status.border}`}
+                  >
+                    <span className={`w-2 h-2 rounded-full ${status.dot}`} />
+                    <span className={`text-sm font-medium ${status.text}`}>
+                      {status.label}
+                    </span>
                   </span>
-                </span>
+                  {listing.status === "active" && (
+                    <VerifiedLiveBadge
+                      verifiedLive={listing.verifiedLive}
+                      checkedAt={listing.healthCheckedAt}
+                    />
+                  )}
+                </div>
                 <span className="text-sm text-zinc-500">
                   Listed {timeAgo(listing.createdAt)}
+                  {listing.status === "active" && listing.expiresAt && (
+                    <> · {formatTimeLeft(listing.expiresAt)}</>
+                  )}
                 </span>
               </div>
 
@@ -516,7 +510,7 @@ export default function ListingClient() {
                     {appName}
                   </h1>
                 )}
-                {app && (
+                {listing.appFeatured && (
                   <span className="shrink-0 px-2.5 py-1 rounded-lg bg-cyan-500/20 border border-cyan-500/30 text-xs font-semibold text-cyan-400">
                     Featured App
                   </span>
@@ -611,6 +605,7 @@ export default function ListingClient() {
                     ) : (
                       <>
                         {remainingUses} of {maxUses} remaining
+                        {listing.codePool && " · unique code each"}
                       </>
                     )}
                   </span>
@@ -726,12 +721,44 @@ export default function ListingClient() {
                 </button>
               )}
 
-              {/* Sold Out state - when status is "sold" or inventory depleted */}
-              {!canPurchase && listing.status !== "cancelled" && (
-                <div className="w-full mt-5 py-4 rounded-xl font-bold text-lg text-center bg-zinc-800 text-zinc-400 border border-zinc-700">
-                  Sold Out
+              {/* Make Offer - buyers can bid below the asking price */}
+              {canPurchase && !isOwnListing && !listing.reservedFor && (
+                <button
+                  onClick={() => setShowOfferModal(true)}
+                  className="w-full mt-3 py-3 rounded-xl font-semibold text-sm text-cyan-400 bg-cyan-500/10 border border-cyan-500/30 hover:bg-cyan-500/20 transition-colors cursor-pointer"
+                >
+                  Make Offer
+                </button>
+              )}
+              {canPurchase && listing.reservedFor && (
+                <p className="mt-3 text-xs text-center text-purple-400">
+                  Reserved for you by your buy order
+                </p>
+              )}
+              {canPurchase &&
+                !listing.reservedFor &&
+                highestOffer !== null && (
+                  <p className="mt-3 text-xs text-center text-zinc-500">
+                    {offers.length} open{" "}
+                    {offers.length === 1 ? "offer" : "offers"} · highest $
+                    {highestOffer}
+                  </p>
+                )}
+
+              {/* Reserved state - filled a buy order for another buyer */}
+              {isListingAvailable(listing) && isReservedForOther && (
+                <div className="w-full mt-5 py-4 rounded-xl font-bold text-lg text-center bg-purple-500/10 text-purple-400 border border-purple-500/30">
+                  Reserved
                 </div>
               )}
+
+              {/* Sold Out state - when status is "sold" or inventory depleted */}
+              {!isListingAvailable(listing) &&
+                listing.status !== "cancelled" && (
+                  <div className="w-full mt-5 py-4 rounded-xl font-bold text-lg text-center bg-zinc-800 text-zinc-400 border border-zinc-700">
+                    Sold Out
+                  </div>
+                )}
             </div>
 
             {/* Seller Card */}
@@ -828,6 +855,10 @@ export default function ListingClient() {
                             {sellerStats.salesCount === 1 ? "sale" : "sales"}
                           </span>
                         </div>
+                        <DeliveryRateBadge
+                          stats={sellerStats.delivery}
+                          showCount
+                        />
                       </div>
                     )}
                   </div>
@@ -1220,6 +1251,22 @@ export default function ListingClient() {
         </div>
       </div>
 
+      <AnimatePresence>
+        {showOfferModal && (
+          <MakeOfferModal
+            title={appName}
+            listingSlug={listing.slug}
+            askingPrice={listing.priceUsdc}
+            onClose={() => setShowOfferModal(false)}
+            onCreated={() => {
+              setShowOfferModal(false);
+              showToast("Offer sent to the seller", "success");
+              refetchOffers();
+            }}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Payment Success Modal */}
       <PaymentSuccessModal
         isOpen={showSuccessModal}
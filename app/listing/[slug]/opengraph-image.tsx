@@ -5,7 +5,6 @@ import {
   formatSellerForOG,
 } from "@/lib/resolve-address-server";
 import { timeAgo } from "@/lib/time";
-import { featuredApps } from "@/data/featuredApps";
 import {
   OG_SIZE,
   OG_CONTENT_TYPE,
@@ -108,14 +107,11 @@ export default async function Image({
     );
   }
 
-  const app = listing.appId
-    ? featuredApps.find((a) => a.id === listing.appId)
-    : null;
-  const appName = app?.appName ?? listing.appName ?? "Invite";
+  const appName = listing.appName ?? "Invite";
   const appIconUrl = listing.appIconUrl;
   const iconNeedsDarkBg = listing.iconNeedsDarkBg || false;
   const gradient = getGradientForApp(appName);
-  const isFeatured = !!app;
+  const isFeatured = listing.appFeatured;
   const resolvedAddress = await getResolvedAddressFromCache(
     listing.sellerAddress
   );
@@ -144,6 +140,20 @@ export default async function Image({
       dot: "#f87171",
       label: "Cancelled",
     },
+    expired: {
+      bg: "rgba(245, 158, 11, 0.2)",
+      border: "rgba(245, 158, 11, 0.4)",
+      text: "#fbbf24",
+      dot: "#fbbf24",
+      label: "Expired",
+    },
+    paused: {
+      bg: "rgba(245, 158, 11, 0.2)",
+      border: "rgba(245, 158, 11, 0.4)",
+      text: "#fbbf24",
+      dot: "#fbbf24",
+      label: "Paused",
+    },
   };
   const status = statusConfig[listing.status] || statusConfig.active;
 
@@ -1,6 +1,5 @@
 import type { Metadata } from "next";
 import { getListingBySlug } from "@/lib/listing";
-import { featuredApps } from "@/data/featuredApps";
 import ListingClient from "./listing-client";
 
 type Props = {
@@ -20,9 +19,8 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
       };
     }
 
-    // Get app name from featured apps or listing
-    const app = featuredApps.find((a) => a.id === listing.appId);
-    const appName = app?.appName ?? listing.appName ?? "Invite";
+    // App name from the registry (resolved by getListingBySlug)
+    const appName = listing.appName ?? "Invite";
 
     const title = `Buy ${appName} Invite for $${listing.priceUsdc}`;
     const description = `Get early access to ${appName} for just $${listing.priceUsdc} USDC. Instant delivery powered by x402 on Base.`;
@@ -6,7 +6,13 @@ import Link from "next/link";
 import Image from "next/image";
 import { motion } from "framer-motion";
 import NProgress from "nprogress";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  keepPreviousData,
+  useInfiniteQuery,
+  useQuery,
+  useQueryClient,
+  type InfiniteData,
+} from "@tanstack/react-query";
 import { timeAgo } from "@/lib/time";
 import {
   useResolveAddresses,
@@ -15,6 +21,8 @@ import {
 import { usePurchase, LISTINGS_QUERY_KEY } from "@/hooks/usePurchase";
 import { PaymentSuccessModal } from "@/app/components/PaymentSuccessModal";
 import { QuickBuyButton } from "@/app/components/QuickBuyButton";
+import { DeliveryRateBadge } from "@/app/components/DeliveryRateBadge";
+import { VerifiedLiveBadge } from "@/app/components/VerifiedLiveBadge";
 import {
   RefreshIndicator,
   AUTO_REFRESH_INTERVAL,
@@ -25,25 +33,22 @@ import {
   type EthosData,
 } from "@/lib/ethos-scores";
 import {
-  fetchListingsData,
+  fetchListingFeedPage,
   getGradientForApp,
   type Listing,
-  type ListingsData,
+  type ListingFeedPage,
 } from "@/lib/listings";
-import { featuredApps } from "@/data/featuredApps";
+import {
+  toListingSearchParams,
+  type ListingQuery,
+  type ListingSortField,
+} from "@/lib/listing-query";
 import { blo } from "blo";
 
 /* ---------- Helper to resolve app name ---------- */
 
 function resolveAppName(listing: Listing): string {
-  // Check if it's a featured app by appId
-  if (listing.appId) {
-    const featuredApp = featuredApps.find((app) => app.id === listing.appId);
-    if (featuredApp) {
-      return featuredApp.appName;
-    }
-  }
-  // Fall back to appName, then appId, then "App"
+  // /api/listings resolves names from the App registry; fall back to appId
   return listing.appName || listing.appId || "App";
 }
 
@@ -66,7 +71,7 @@ interface ListingWithEthos extends Listing {
   ethosData: EthosData | null;
 }
 
-type SortField = "price" | "date" | "ethos" | "app";
+type SortField = "price" | "date" | "ethos" | "delivery" | "app";
 type SortDirection = "asc" | "desc";
 
 /* ---------- Sort Icon Component ---------- */
@@ -122,7 +127,12 @@ function SortIcon({
   );
 }
 
-export default function ListingsClient() {
+export default function ListingsClient({
+  initialPage,
+}: {
+  // First page of the default feed, rendered on the server
+  initialPage?: ListingFeedPage;
+}) {
   const router = useRouter();
   const queryClient = useQueryClient();
 
@@ -136,7 +146,23 @@ export default function ListingsClient() {
   const [selectedApps, setSelectedApps] = useState<Set<string>>(new Set());
   const [showMobileFilters, setShowMobileFilters] = useState(false);
 
-  // TanStack Query for listings
+  // App filters and sorts run on the server; Ethos scores come from Ethos'
+  // API, so that column sorts the loaded listings (newest first from the server)
+  const feedQuery: Partial<ListingQuery> = useMemo(
+    () => ({
+      apps: [...selectedApps],
+      sort: sortField === "ethos" ? "date" : (sortField as ListingSortField),
+      direction: sortField === "ethos" ? "desc" : sortDirection,
+    }),
+    [selectedApps, sortField, sortDirection]
+  );
+  const feedParams = toListingSearchParams(feedQuery).toString();
+  const feedQueryKey = useMemo(
+    () => [...LISTINGS_QUERY_KEY, "feed", feedParams],
+    [feedParams]
+  );
+
+  // TanStack Query for listings, a page at a time
   const {
     data: listingsData,
     isLoading: loading,
@@ -144,9 +170,22 @@ export default function ListingsClient() {
     isFetching: isRefreshing,
     dataUpdatedAt,
     refetch,
-  } = useQuery<ListingsData>({
-    queryKey: LISTINGS_QUERY_KEY,
-    queryFn: fetchListingsData,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: feedQueryKey,
+    queryFn: ({ pageParam }) =>
+      fetchListingFeedPage({ ...feedQuery, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    // The server renders the default feed (no filters, newest first)
+    initialData:
+      initialPage && feedParams === ""
+        ? { pages: [initialPage], pageParams: [undefined] }
+        : undefined,
+    // Keep showing the current rows while a new filter or sort loads
+    placeholderData: keepPreviousData,
     staleTime: AUTO_REFRESH_INTERVAL * 1000,
     gcTime: 5 * 60 * 1000,
   });
@@ -165,10 +204,10 @@ export default function ListingsClient() {
 
   const error = queryError instanceof Error ? queryError.message : "";
 
-  // All raw listings
+  // All loaded listings
   const allListings = useMemo(
-    () => listingsData?.rawListings ?? [],
-    [listingsData?.rawListings]
+    () => listingsData?.pages.flatMap((page) => page.listings) ?? [],
+    [listingsData?.pages]
   );
 
   // Apps with active listings for filters
@@ -195,12 +234,6 @@ export default function ListingsClient() {
     setSelectedApps(new Set());
   };
 
-  // Filter listings by selected apps
-  const filteredListings = useMemo(() => {
-    if (selectedApps.size === 0) return allListings;
-    return allListings.filter((l) => l.appId && selectedApps.has(l.appId));
-  }, [allListings, selectedApps]);
-
   // Toggle sort
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -222,11 +255,11 @@ export default function ListingsClient() {
 
   // Listings with Ethos data
   const listings: ListingWithEthos[] = useMemo(() => {
-    return filteredListings.map((l) => ({
+    return allListings.map((l) => ({
       ...l,
       ethosData: ethosDataMap[l.sellerAddress.toLowerCase()] ?? null,
     }));
-  }, [filteredListings, ethosDataMap]);
+  }, [allListings, ethosDataMap]);
 
   // Get seller addresses for resolution
   const sellerAddresses = useMemo(
@@ -282,36 +315,17 @@ export default function ListingsClient() {
     refetch();
   }, [refetch]);
 
-  // Sort listings
+  // Listings come sorted from the server, except by Ethos score
   const sortedListings = useMemo(() => {
-    const sorted = [...listings];
-    const multiplier = sortDirection === "asc" ? 1 : -1;
+    if (sortField !== "ethos") return listings;
 
-    sorted.sort((a, b) => {
-      switch (sortField) {
-        case "price":
-          return (a.priceUsdc - b.priceUsdc) * multiplier;
-        case "date":
-          return (
-            (new Date(a.createdAt).getTime() -
-              new Date(b.createdAt).getTime()) *
-            multiplier
-          );
-        case "ethos":
-          if (a.ethosData === null && b.ethosData === null) return 0;
-          if (a.ethosData === null) return 1;
-          if (b.ethosData === null) return -1;
-          return (a.ethosData.score - b.ethosData.score) * multiplier;
-        case "app":
-          const appA = a.appName || a.appId || "";
-          const appB = b.appName || b.appId || "";
-          return appA.localeCompare(appB) * multiplier;
-        default:
-          return 0;
-      }
+    const multiplier = sortDirection === "asc" ? 1 : -1;
+    return [...listings].sort((a, b) => {
+      if (a.ethosData === null && b.ethosData === null) return 0;
+      if (a.ethosData === null) return 1;
+      if (b.ethosData === null) return -1;
+      return (a.ethosData.score - b.ethosData.score) * multiplier;
     });
-
-    return sorted;
   }, [listings, sortField, sortDirection]);
 
   const handleQuickBuy = async (listingSlug: string) => {
@@ -319,13 +333,19 @@ export default function ListingsClient() {
     const listing = listings.find((l) => l.slug === listingSlug);
     const result = await purchase(listingSlug, listing?.sellerAddress || "");
     if (result) {
-      queryClient.setQueryData<ListingsData>(LISTINGS_QUERY_KEY, (old) => {
-        if (!old) return old;
-        return {
-          invites: old.invites.filter((inv) => inv.slug !== listingSlug),
-          rawListings: old.rawListings.filter((l) => l.slug !== listingSlug),
-        };
-      });
+      queryClient.setQueryData<InfiniteData<ListingFeedPage>>(
+        feedQueryKey,
+        (old) => {
+          if (!old) return old;
+          return {
+            ...old,
+            pages: old.pages.map((page) => ({
+              ...page,
+              listings: page.listings.filter((l) => l.slug !== listingSlug),
+            })),
+          };
+        }
+      );
     }
     setPurchasingSlug(null);
   };
@@ -579,7 +599,8 @@ export default function ListingsClient() {
                   </h2>
                   {!isPageLoading && (
                     <span className="px-2.5 py-1 rounded-full bg-zinc-800 text-zinc-400 text-sm font-medium">
-                      {sortedListings.length}{" "}
+                      {sortedListings.length}
+                      {hasNextPage ? "+" : ""}{" "}
                       {sortedListings.length === 1 ? "listing" : "listings"}
                     </span>
                   )}
@@ -597,7 +618,7 @@ export default function ListingsClient() {
                 <div className="flex lg:hidden items-center gap-2">
                   <span className="text-xs text-zinc-500">Sort:</span>
                   <div className="flex gap-1 flex-wrap">
-                    {(["price", "date", "ethos"] as SortField[]).map(
+                    {(["price", "date", "ethos", "delivery"] as SortField[]).map(
                       (field) => (
                         <button
                           key={field}
@@ -612,7 +633,9 @@ export default function ListingsClient() {
                             ? "Price"
                             : field === "date"
                             ? "Date"
-                            : "Ethos"}
+                            : field === "ethos"
+                            ? "Ethos"
+                            : "Delivery"}
                           {sortField === field && (
                             <span className="ml-1">
                               {sortDirection === "asc" ? "↑" : "↓"}
@@ -630,11 +653,12 @@ export default function ListingsClient() {
             {isPageLoading && (
               <div className="rounded-xl bg-zinc-950 border border-zinc-800 overflow-hidden">
                 {/* Desktop Loading Header */}
-                <div className="hidden lg:grid grid-cols-[minmax(120px,1.5fr)_minmax(150px,2fr)_minmax(80px,1fr)_minmax(140px,1.5fr)_minmax(80px,1fr)_minmax(180px,auto)] gap-4 px-5 py-3 bg-zinc-900/50 border-b border-zinc-800">
+                <div className="hidden lg:grid grid-cols-[minmax(120px,1.5fr)_minmax(150px,2fr)_minmax(80px,1fr)_minmax(140px,1.5fr)_minmax(90px,1fr)_minmax(80px,1fr)_minmax(180px,auto)] gap-4 px-5 py-3 bg-zinc-900/50 border-b border-zinc-800">
                   <div className="h-3 w-12 bg-zinc-800 rounded" />
                   <div className="h-3 w-16 bg-zinc-800 rounded" />
                   <div className="h-3 w-14 bg-zinc-800 rounded" />
                   <div className="h-3 w-20 bg-zinc-800 rounded" />
+                  <div className="h-3 w-16 bg-zinc-800 rounded" />
                   <div className="h-3 w-12 bg-zinc-800 rounded" />
                   <div />
                 </div>
@@ -645,7 +669,7 @@ export default function ListingsClient() {
                     className="border-b border-zinc-800 last:border-b-0 animate-pulse"
                   >
                     {/* Desktop Loading Row */}
-                    <div className="hidden lg:grid grid-cols-[minmax(120px,1.5fr)_minmax(150px,2fr)_minmax(80px,1fr)_minmax(140px,1.5fr)_minmax(80px,1fr)_minmax(180px,auto)] gap-4 px-5 py-4 items-center">
+                    <div className="hidden lg:grid grid-cols-[minmax(120px,1.5fr)_minmax(150px,2fr)_minmax(80px,1fr)_minmax(140px,1.5fr)_minmax(90px,1fr)_minmax(80px,1fr)_minmax(180px,auto)] gap-4 px-5 py-4 items-center">
                       <div className="flex items-center gap-2">
                         <div className="w-8 h-8 rounded-lg bg-zinc-800 shrink-0" />
                         <div className="h-4 w-16 bg-zinc-800 rounded" />
@@ -663,6 +687,9 @@ export default function ListingsClient() {
                       <div className="flex items-center">
                         <div className="h-6 w-24 bg-zinc-800 rounded-full" />
                       </div>
+                      <div className="flex items-center">
+                        <div className="h-5 w-12 bg-zinc-800 rounded-full" />
+                      </div>
                       <div className="flex items-center">
                         <div className="h-5 w-14 bg-zinc-800 rounded" />
                       </div>
@@ -766,7 +793,7 @@ export default function ListingsClient() {
             {!isPageLoading && !error && sortedListings.length > 0 && (
               <div className="rounded-xl bg-zinc-950 border border-zinc-800 overflow-hidden">
                 {/* Table Header - Desktop Only */}
-                <div className="hidden lg:grid grid-cols-[minmax(120px,1.5fr)_minmax(150px,2fr)_minmax(80px,1fr)_minmax(140px,1.5fr)_minmax(80px,1fr)_minmax(180px,auto)] gap-4 px-5 py-3 bg-zinc-900/50 border-b border-zinc-800 text-xs font-medium uppercase tracking-wider">
+                <div className="hidden lg:grid grid-cols-[minmax(120px,1.5fr)_minmax(150px,2fr)_minmax(80px,1fr)_minmax(140px,1.5fr)_minmax(90px,1fr)_minmax(80px,1fr)_minmax(180px,auto)] gap-4 px-5 py-3 bg-zinc-900/50 border-b border-zinc-800 text-xs font-medium uppercase tracking-wider">
                   <button
                     onClick={() => handleSort("app")}
                     className="flex items-center gap-1 text-left cursor-pointer hover:text-zinc-300 transition-colors group"
@@ -818,6 +845,25 @@ export default function ListingsClient() {
                       direction={sortDirection}
                     />
                   </button>
+                  <button
+                    onClick={() => handleSort("delivery")}
+                    className="flex items-center gap-1 text-left cursor-pointer hover:text-zinc-300 transition-colors group"
+                    title="Share of buyers who reported the seller's invites worked"
+                  >
+                    <span
+                      className={
+                        sortField === "delivery"
+                          ? "text-cyan-400"
+                          : "text-zinc-500"
+                      }
+                    >
+                      Delivery
+                    </span>
+                    <SortIcon
+                      active={sortField === "delivery"}
+                      direction={sortDirection}
+                    />
+                  </button>
                   <button
                     onClick={() => handleSort("price")}
                     className="flex items-center gap-1 cursor-pointer hover:text-zinc-300 transition-colors group"
@@ -861,7 +907,7 @@ export default function ListingsClient() {
                       className="border-b border-zinc-800 last:border-b-0 hover:bg-zinc-900/30 transition-colors cursor-pointer"
                     >
                       {/* Desktop Row */}
-                      <div className="hidden lg:grid grid-cols-[minmax(120px,1.5fr)_minmax(150px,2fr)_minmax(80px,1fr)_minmax(140px,1.5fr)_minmax(80px,1fr)_minmax(180px,auto)] gap-4 px-5 py-4 items-center">
+                      <div className="hidden lg:grid grid-cols-[minmax(120px,1.5fr)_minmax(150px,2fr)_minmax(80px,1fr)_minmax(140px,1.5fr)_minmax(90px,1fr)_minmax(80px,1fr)_minmax(180px,auto)] gap-4 px-5 py-4 items-center">
                         {/* App */}
                         <div className="flex items-center gap-2 min-w-0">
                           {listing.appIconUrl ? (
@@ -1006,6 +1052,24 @@ export default function ListingsClient() {
                           )}
                         </div>
 
+                        {/* Delivery */}
+                        <div className="flex items-center gap-1.5">
+                          {listing.sellerDelivery?.rate != null ? (
+                            <DeliveryRateBadge
+                              stats={listing.sellerDelivery}
+                              showCount
+                            />
+                          ) : (
+                            !listing.verifiedLive && (
+                              <span className="text-sm text-zinc-500">—</span>
+                            )
+                          )}
+                          <VerifiedLiveBadge
+                            verifiedLive={listing.verifiedLive}
+                            checkedAt={listing.healthCheckedAt}
+                          />
+                        </div>
+
                         {/* Price & Stock */}
                         <div className="flex items-center gap-3">
                           <span className="text-lg font-bold text-cyan-400">
@@ -1177,6 +1241,14 @@ export default function ListingsClient() {
                           ) : (
                             <span className="text-sm text-zinc-500">—</span>
                           )}
+                          <DeliveryRateBadge
+                            stats={listing.sellerDelivery}
+                            showCount
+                          />
+                          <VerifiedLiveBadge
+                            verifiedLive={listing.verifiedLive}
+                            checkedAt={listing.healthCheckedAt}
+                          />
                         </div>
 
                         {/* Price & Actions Row */}
@@ -1233,6 +1305,19 @@ export default function ListingsClient() {
                 })}
               </div>
             )}
+
+            {/* Load More */}
+            {!isPageLoading && !error && hasNextPage && (
+              <div className="mt-6 flex justify-center">
+                <button
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                  className="px-6 py-2.5 rounded-xl font-medium text-sm bg-zinc-900 hover:bg-zinc-800 border border-zinc-800 hover:border-zinc-700 transition-all cursor-pointer disabled:opacity-60 disabled:cursor-not-allowed"
+                >
+                  {isFetchingNextPage ? "Loading..." : "Load More"}
+                </button>
+              </div>
+            )}
           </motion.div>
         </div>
       </section>
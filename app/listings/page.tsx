@@ -1,4 +1,5 @@
 import { Metadata } from "next";
+import { queryListings } from "@/lib/listing-feed";
 import ListingsClient from "./listings-client";
 
 export const metadata: Metadata = {
@@ -7,6 +8,15 @@ export const metadata: Metadata = {
     "Browse all available invite listings on invite.markets. Buy early access to the hottest web3 apps.",
 };
 
-export default function ListingsPage() {
-  return <ListingsClient />;
+// Listings change all the time, so render on every request
+export const dynamic = "force-dynamic";
+
+export default async function ListingsPage() {
+  // First page rendered on the server; the client loads more and keeps it fresh
+  const result = await queryListings().catch((error) => {
+    console.error("Error loading listings:", error);
+    return null;
+  });
+
+  return <ListingsClient initialPage={result?.ok ? result.page : undefined} />;
 }
@@ -0,0 +1,121 @@
+"use client";
+
+import { useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { Loader2, ThumbsDown, ThumbsUp } from "lucide-react";
+import { MAX_FEEDBACK_COMMENT_LENGTH } from "@/lib/delivery-feedback";
+
+/**
+ * Lets a buyer report whether a purchased invite worked, with an optional comment.
+ * Signing and submitting is handled by the caller via onSubmit.
+ */
+export function DeliveryFeedbackPrompt({
+  feedback,
+  onSubmit,
+}: {
+  feedback?: { worked: boolean };
+  onSubmit: (worked: boolean, comment: string) => Promise<void>;
+}) {
+  const [choice, setChoice] = useState<boolean | null>(null);
+  const [comment, setComment] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async () => {
+    if (choice === null) return;
+
+    setIsSubmitting(true);
+    setError("");
+    try {
+      await onSubmit(choice, comment.trim());
+      setChoice(null);
+      setComment("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save feedback");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const choiceButtonClass = (worked: boolean) => {
+    const selected =
+      choice === worked || (choice === null && feedback?.worked === worked);
+    if (!selected) {
+      return "bg-zinc-900 border-zinc-800 text-zinc-400 hover:border-zinc-700 hover:text-zinc-200";
+    }
+    return worked
+      ? "bg-emerald-500/10 border-emerald-500/30 text-emerald-400"
+      : "bg-red-500/10 border-red-500/30 text-red-400";
+  };
+
+  return (
+    <div className="relative z-10 mt-3 pt-3 border-t border-zinc-800">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-zinc-500 mr-1">
+          {feedback ? "Your feedback:" : "Did this invite work?"}
+        </span>
+        <button
+          onClick={() => setChoice(true)}
+          disabled={isSubmitting}
+          className={`flex items-center gap-1.5 px-2.5 py-1 rounded-lg border text-xs font-medium transition-colors cursor-pointer disabled:opacity-50 ${choiceButtonClass(true)}`}
+        >
+          <ThumbsUp className="w-3.5 h-3.5" />
+          It worked
+        </button>
+        <button
+          onClick={() => setChoice(false)}
+          disabled={isSubmitting}
+          className={`flex items-center gap-1.5 px-2.5 py-1 rounded-lg border text-xs font-medium transition-colors cursor-pointer disabled:opacity-50 ${choiceButtonClass(false)}`}
+        >
+          <ThumbsDown className="w-3.5 h-3.5" />
+          It didn&apos;t work
+        </button>
+      </div>
+
+      <AnimatePresence>
+        {choice !== null && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: "auto" }}
+            exit={{ opacity: 0, height: 0 }}
+            className="mt-3 space-y-2"
+          >
+            <textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={2}
+              maxLength={MAX_FEEDBACK_COMMENT_LENGTH}
+              placeholder="Add a comment (optional)"
+              className="w-full px-3 py-2 rounded-xl bg-zinc-950 border border-zinc-800 text-sm text-white placeholder:text-zinc-600 focus:border-cyan-500 focus:outline-none resize-none"
+            />
+            {!choice && (
+              <p className="text-xs text-zinc-500">
+                Use Report to open a dispute if you need a refund.
+              </p>
+            )}
+            {error && <p className="text-xs text-red-400">{error}</p>}
+            <div className="flex gap-2">
+              <button
+                onClick={() => {
+                  setChoice(null);
+                  setError("");
+                }}
+                className="px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-xs text-white font-medium transition-colors cursor-pointer"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSubmit}
+                disabled={isSubmitting}
+                className="px-3 py-1.5 rounded-lg bg-cyan-500 hover:bg-cyan-600 text-xs text-white font-medium transition-colors cursor-pointer disabled:opacity-50 flex items-center gap-1.5"
+              >
+                {isSubmitting && <Loader2 className="w-3 h-3 animate-spin" />}
+                {isSubmitting ? "Signing..." : "Submit Feedback"}
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,357 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { AlertTriangle, Loader2, MessageSquare, X } from "lucide-react";
+import { TxReceiptLink } from "@/app/components/TxReceiptLink";
+import {
+  DISPUTE_REASON_LABELS,
+  MAX_DISPUTE_TEXT_LENGTH,
+  type DisputeReason,
+  type DisputeStatus,
+  type DisputeSummary,
+} from "@/lib/disputes";
+
+const STATUS_STYLES: Record<DisputeStatus, { label: string; className: string }> =
+  {
+    open: {
+      label: "Disputed",
+      className: "bg-amber-500/10 border-amber-500/30 text-amber-400",
+    },
+    refunded: {
+      label: "Refunded",
+      className: "bg-emerald-500/10 border-emerald-500/30 text-emerald-400",
+    },
+    rejected: {
+      label: "Dispute rejected",
+      className: "bg-zinc-800 border-zinc-700 text-zinc-400",
+    },
+  };
+
+export function DisputeStatusBadge({ status }: { status: DisputeStatus }) {
+  const style = STATUS_STYLES[status];
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-md border text-[10px] sm:text-xs font-medium ${style.className}`}
+    >
+      <AlertTriangle className="w-3 h-3" />
+      {style.label}
+    </span>
+  );
+}
+
+/**
+ * Modal for a buyer to report a problem with a purchase.
+ * Signing and submitting is handled by the caller via onSubmit.
+ */
+export function OpenDisputeModal({
+  appDisplayName,
+  onClose,
+  onSubmit,
+}: {
+  appDisplayName: string;
+  onClose: () => void;
+  onSubmit: (reason: DisputeReason, evidence: string) => Promise<void>;
+}) {
+  const [reason, setReason] = useState<DisputeReason>("link_expired");
+  const [evidence, setEvidence] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  // Disable background scrolling when modal is open
+  useEffect(() => {
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = "";
+    };
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!evidence.trim()) {
+      setError("Please describe what went wrong");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError("");
+    try {
+      await onSubmit(reason, evidence.trim());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to open dispute");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-zinc-900 border border-zinc-800 rounded-2xl p-6 max-w-md w-full"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-bold text-white">Report a Problem</h3>
+            <span className="text-xs text-zinc-500">{appDisplayName}</span>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-zinc-400 hover:text-white transition-colors cursor-pointer"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-zinc-300 mb-2">
+              What went wrong?
+            </label>
+            <select
+              value={reason}
+              onChange={(e) => setReason(e.target.value as DisputeReason)}
+              className="w-full px-4 py-2.5 rounded-xl bg-zinc-950 border border-zinc-800 text-white focus:border-cyan-500 focus:outline-none cursor-pointer"
+            >
+              {(Object.keys(DISPUTE_REASON_LABELS) as DisputeReason[]).map(
+                (value) => (
+                  <option key={value} value={value}>
+                    {DISPUTE_REASON_LABELS[value]}
+                  </option>
+                )
+              )}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-zinc-300 mb-2">
+              Details
+            </label>
+            <textarea
+              value={evidence}
+              onChange={(e) => setEvidence(e.target.value)}
+              rows={5}
+              maxLength={MAX_DISPUTE_TEXT_LENGTH}
+              placeholder="Describe what happened, including any error message you saw..."
+              className="w-full px-4 py-2.5 rounded-xl bg-zinc-950 border border-zinc-800 text-white placeholder:text-zinc-600 focus:border-cyan-500 focus:outline-none resize-none"
+            />
+            <div className="mt-1.5 flex justify-between items-center">
+              <p className="text-xs text-zinc-500">
+                The seller can respond before an admin reviews it
+              </p>
+              <span className="text-xs text-zinc-500">
+                {evidence.length}/{MAX_DISPUTE_TEXT_LENGTH}
+              </span>
+            </div>
+          </div>
+
+          {error && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-400 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2.5 rounded-xl bg-zinc-800 hover:bg-zinc-700 text-white font-medium transition-colors cursor-pointer"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="flex-1 px-4 py-2.5 rounded-xl bg-amber-500 hover:bg-amber-600 text-white font-medium transition-colors cursor-pointer disabled:opacity-50"
+            >
+              {isSubmitting ? "Submitting..." : "Open Dispute"}
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </div>
+  );
+}
+
+function SellerDisputeRow({
+  dispute,
+  isOwner,
+  onRespond,
+}: {
+  dispute: DisputeSummary;
+  isOwner: boolean;
+  onRespond: (dispute: DisputeSummary, response: string) => Promise<void>;
+}) {
+  const [isResponding, setIsResponding] = useState(false);
+  const [response, setResponse] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async () => {
+    if (!response.trim()) return;
+
+    setIsSubmitting(true);
+    setError("");
+    try {
+      await onRespond(dispute, response.trim());
+      setIsResponding(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to respond");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl bg-zinc-900/50 border border-zinc-800 p-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="flex flex-wrap items-center gap-2 mb-1">
+            <DisputeStatusBadge status={dispute.status} />
+            <span className="text-sm font-medium text-white">
+              {DISPUTE_REASON_LABELS[dispute.reason]}
+            </span>
+          </div>
+          <p className="text-xs text-zinc-500">
+            <Link
+              href={`/listing/${dispute.listingSlug}`}
+              className="hover:text-zinc-300 transition-colors"
+            >
+              ${dispute.priceUsdc.toFixed(2)} sale
+            </Link>{" "}
+            · opened {new Date(dispute.createdAt).toLocaleDateString()}
+            {dispute.hasSellerResponse && " · seller responded"}
+          </p>
+        </div>
+        {dispute.refundTxHash && (
+          <TxReceiptLink txHash={dispute.refundTxHash} label="Refund" />
+        )}
+      </div>
+
+      {/* Details are only returned to the authenticated seller */}
+      {dispute.evidence && (
+        <p className="mt-3 text-sm text-zinc-300 whitespace-pre-wrap break-all">
+          {dispute.evidence}
+        </p>
+      )}
+      {dispute.sellerResponse && !isResponding && (
+        <p className="mt-2 pl-3 border-l-2 border-zinc-700 text-sm text-zinc-400 whitespace-pre-wrap break-all">
+          {dispute.sellerResponse}
+        </p>
+      )}
+      {dispute.resolutionNote && (
+        <p className="mt-2 text-xs text-zinc-500">
+          Resolution: {dispute.resolutionNote}
+        </p>
+      )}
+
+      {isOwner && dispute.status === "open" && (
+        <div className="mt-3">
+          {isResponding ? (
+            <div className="space-y-2">
+              <textarea
+                value={response}
+                onChange={(e) => setResponse(e.target.value)}
+                rows={3}
+                maxLength={MAX_DISPUTE_TEXT_LENGTH}
+                placeholder="Explain your side, e.g. when the invite was last verified..."
+                className="w-full px-3 py-2 rounded-xl bg-zinc-950 border border-zinc-800 text-sm text-white placeholder:text-zinc-600 focus:border-cyan-500 focus:outline-none resize-none"
+              />
+              {error && <p className="text-xs text-red-400">{error}</p>}
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setIsResponding(false)}
+                  className="px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-xs text-white font-medium transition-colors cursor-pointer"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSubmit}
+                  disabled={isSubmitting || !response.trim()}
+                  className="px-3 py-1.5 rounded-lg bg-cyan-500 hover:bg-cyan-600 text-xs text-white font-medium transition-colors cursor-pointer disabled:opacity-50 flex items-center gap-1.5"
+                >
+                  {isSubmitting && <Loader2 className="w-3 h-3 animate-spin" />}
+                  Submit Response
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => {
+                setResponse(dispute.sellerResponse || "");
+                setIsResponding(true);
+              }}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-cyan-500/10 border border-cyan-500/30 hover:bg-cyan-500/20 text-xs font-medium text-cyan-400 transition-colors cursor-pointer"
+            >
+              <MessageSquare className="w-3.5 h-3.5" />
+              {dispute.sellerResponse ? "Edit Response" : "Respond"}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Disputes buyers opened against this seller's sales.
+ * The owner can unlock the details (signed request) and respond to open disputes.
+ */
+export function SellerDisputesSection({
+  disputes,
+  isOwner,
+  hasDetails,
+  isUnlocking,
+  onUnlock,
+  onRespond,
+}: {
+  disputes: DisputeSummary[];
+  isOwner: boolean;
+  hasDetails: boolean;
+  isUnlocking: boolean;
+  onUnlock: () => void;
+  onRespond: (dispute: DisputeSummary, response: string) => Promise<void>;
+}) {
+  if (disputes.length === 0) return null;
+
+  const openCount = disputes.filter((d) => d.status === "open").length;
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <h3 className="text-sm font-semibold text-zinc-300 flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4 text-amber-400" />
+          Disputes
+          {openCount > 0 && (
+            <span className="px-1.5 py-0.5 rounded-md bg-amber-500/20 text-amber-400 text-[10px] sm:text-xs font-semibold">
+              {openCount} open
+            </span>
+          )}
+        </h3>
+        {isOwner && !hasDetails && (
+          <button
+            onClick={onUnlock}
+            disabled={isUnlocking}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-zinc-900 border border-zinc-800 hover:border-zinc-700 text-xs font-medium text-zinc-400 hover:text-zinc-100 transition-colors cursor-pointer disabled:opacity-50"
+          >
+            {isUnlocking && <Loader2 className="w-3 h-3 animate-spin" />}
+            {isUnlocking ? "Signing..." : "View Details"}
+          </button>
+        )}
+      </div>
+      <div className="space-y-3">
+        {disputes.map((dispute) => (
+          <SellerDisputeRow
+            key={dispute.id}
+            dispute={dispute}
+            isOwner={isOwner && hasDetails}
+            onRespond={onRespond}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,396 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { HandCoins, Loader2 } from "lucide-react";
+import { TxReceiptLink } from "@/app/components/TxReceiptLink";
+import {
+  isOfferAcceptable,
+  isOfferPayable,
+  type OfferStatus,
+  type OfferSummary,
+} from "@/lib/offers";
+
+// A seller listing an offer can be accepted on
+export interface OfferListingOption {
+  slug: string;
+  label: string;
+  priceUsdc: number;
+  appId?: string;
+}
+
+const STATUS_STYLES: Record<OfferStatus, { label: string; className: string }> =
+  {
+    open: {
+      label: "Open",
+      className: "bg-cyan-500/10 border-cyan-500/30 text-cyan-400",
+    },
+    accepted: {
+      label: "Accepted",
+      className: "bg-emerald-500/10 border-emerald-500/30 text-emerald-400",
+    },
+    purchasing: {
+      label: "Paying",
+      className: "bg-amber-500/10 border-amber-500/30 text-amber-400",
+    },
+    completed: {
+      label: "Paid",
+      className: "bg-zinc-800 border-zinc-700 text-zinc-300",
+    },
+    cancelled: {
+      label: "Cancelled",
+      className: "bg-zinc-800 border-zinc-700 text-zinc-500",
+    },
+  };
+
+function OfferStatusBadge({ offer }: { offer: OfferSummary }) {
+  // Open offers past their expiry and accepted offers past the payment window
+  const isExpired =
+    (offer.status === "open" && !isOfferAcceptable(offer)) ||
+    (offer.status === "accepted" && !isOfferPayable(offer));
+  const style = isExpired
+    ? { label: "Expired", className: STATUS_STYLES.cancelled.className }
+    : STATUS_STYLES[offer.status];
+
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-0.5 rounded-md border text-[10px] sm:text-xs font-medium ${style.className}`}
+    >
+      {style.label}
+    </span>
+  );
+}
+
+function OfferTarget({
+  offer,
+  getAppName,
+}: {
+  offer: OfferSummary;
+  getAppName: (appId: string) => string;
+}) {
+  const slug = offer.acceptedListingSlug || offer.listingSlug;
+  return (
+    <>
+      {offer.appId ? `Any ${getAppName(offer.appId)} invite` : "Listing"}
+      {slug && (
+        <>
+          {" · "}
+          <Link
+            href={`/listing/${slug}`}
+            className="hover:text-zinc-300 transition-colors"
+          >
+            {slug}
+          </Link>
+        </>
+      )}
+    </>
+  );
+}
+
+function IncomingOfferRow({
+  offer,
+  listingOptions,
+  isOwner,
+  getAppName,
+  onAccept,
+}: {
+  offer: OfferSummary;
+  listingOptions: OfferListingOption[];
+  isOwner: boolean;
+  getAppName: (appId: string) => string;
+  onAccept: (offer: OfferSummary, listingSlug: string) => Promise<void>;
+}) {
+  // Listing offers can only be accepted on that listing; app-wide offers on any matching one
+  const options = offer.listingSlug
+    ? listingOptions.filter((l) => l.slug === offer.listingSlug)
+    : listingOptions.filter((l) => l.appId === offer.appId);
+  const [pickedSlug, setPickedSlug] = useState("");
+  // Fall back to the first option (listings may load after the offers)
+  const selectedSlug = options.some((o) => o.slug === pickedSlug)
+    ? pickedSlug
+    : (options[0]?.slug ?? "");
+  const [showConfirm, setShowConfirm] = useState(false);
+  const [isAccepting, setIsAccepting] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleAccept = async () => {
+    if (!selectedSlug) return;
+
+    setIsAccepting(true);
+    setError("");
+    try {
+      await onAccept(offer, selectedSlug);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to accept offer");
+    } finally {
+      setIsAccepting(false);
+      setShowConfirm(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl bg-zinc-900/50 border border-zinc-800 p-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="flex flex-wrap items-center gap-2 mb-1">
+            <span className="text-base font-bold text-cyan-400">
+              ${offer.priceUsdc}
+            </span>
+            <OfferStatusBadge offer={offer} />
+          </div>
+          <p className="text-xs text-zinc-500 break-all">
+            <OfferTarget offer={offer} getAppName={getAppName} /> · from{" "}
+            <Link
+              href={`/profile/${offer.buyerAddress}`}
+              className="hover:text-zinc-300 transition-colors"
+            >
+              {offer.buyerAddress.slice(0, 6)}...{offer.buyerAddress.slice(-4)}
+            </Link>
+          </p>
+          <p className="text-xs text-zinc-600 mt-0.5">
+            {offer.status === "accepted" && offer.paymentDeadline
+              ? `Buyer can pay until ${new Date(
+                  offer.paymentDeadline
+                ).toLocaleString()}`
+              : `Expires ${new Date(offer.expiresAt).toLocaleDateString()}`}
+          </p>
+        </div>
+        {offer.txHash && <TxReceiptLink txHash={offer.txHash} />}
+      </div>
+
+      {isOwner && isOfferAcceptable(offer) && options.length > 0 && (
+        <div className="mt-3">
+          {showConfirm ? (
+            <div className="p-3 rounded-lg bg-zinc-950 border border-zinc-800 space-y-2">
+              {options.length > 1 && (
+                <select
+                  value={selectedSlug}
+                  onChange={(e) => setPickedSlug(e.target.value)}
+                  className="w-full px-3 py-2 rounded-lg bg-zinc-900 border border-zinc-800 text-sm text-white focus:border-cyan-500 focus:outline-none cursor-pointer"
+                >
+                  {options.map((option) => (
+                    <option key={option.slug} value={option.slug}>
+                      {option.label} · listed at ${option.priceUsdc}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <p className="text-xs text-zinc-400">
+                Sell for ${offer.priceUsdc}? Only this buyer can pay the offer
+                price, and your listing stays up until they do.
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setShowConfirm(false)}
+                  className="px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-xs text-white font-medium transition-colors cursor-pointer"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleAccept}
+                  disabled={isAccepting || !selectedSlug}
+                  className="px-3 py-1.5 rounded-lg bg-emerald-500 hover:bg-emerald-600 text-xs text-white font-medium transition-colors cursor-pointer disabled:opacity-50 flex items-center gap-1.5"
+                >
+                  {isAccepting && <Loader2 className="w-3 h-3 animate-spin" />}
+                  {isAccepting ? "Signing..." : "Accept Offer"}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => setShowConfirm(true)}
+              className="px-3 py-1.5 rounded-lg bg-emerald-500/10 border border-emerald-500/30 hover:bg-emerald-500/20 text-xs font-medium text-emerald-400 transition-colors cursor-pointer"
+            >
+              Accept
+            </button>
+          )}
+        </div>
+      )}
+      {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
+
+/**
+ * Offers buyers made on this seller's listings (or their apps), and the ones
+ * the seller accepted. The owner can accept open offers.
+ */
+export function IncomingOffersSection({
+  offers,
+  listingOptions,
+  isOwner,
+  getAppName,
+  onAccept,
+}: {
+  offers: OfferSummary[];
+  listingOptions: OfferListingOption[];
+  isOwner: boolean;
+  getAppName: (appId: string) => string;
+  onAccept: (offer: OfferSummary, listingSlug: string) => Promise<void>;
+}) {
+  if (offers.length === 0) return null;
+
+  const openCount = offers.filter((o) => isOfferAcceptable(o)).length;
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-sm font-semibold text-zinc-300 flex items-center gap-2 mb-3">
+        <HandCoins className="w-4 h-4 text-cyan-400" />
+        Offers
+        {openCount > 0 && (
+          <span className="px-1.5 py-0.5 rounded-md bg-cyan-500/20 text-cyan-400 text-[10px] sm:text-xs font-semibold">
+            {openCount} open
+          </span>
+        )}
+      </h3>
+      <div className="space-y-3">
+        {offers.map((offer) => (
+          <IncomingOfferRow
+            key={offer.id}
+            offer={offer}
+            listingOptions={listingOptions}
+            isOwner={isOwner}
+            getAppName={getAppName}
+            onAccept={onAccept}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function MyOfferRow({
+  offer,
+  isOwner,
+  isPaying,
+  getAppName,
+  onCancel,
+  onPay,
+}: {
+  offer: OfferSummary;
+  isOwner: boolean;
+  isPaying: boolean;
+  getAppName: (appId: string) => string;
+  onCancel: (offer: OfferSummary) => Promise<void>;
+  onPay: (offer: OfferSummary) => void;
+}) {
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [error, setError] = useState("");
+
+  const canCancel = isOfferAcceptable(offer) || isOfferPayable(offer);
+
+  const handleCancel = async () => {
+    setIsCancelling(true);
+    setError("");
+    try {
+      await onCancel(offer);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to cancel offer");
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl bg-zinc-900/50 border border-zinc-800 p-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="flex flex-wrap items-center gap-2 mb-1">
+            <span className="text-base font-bold text-cyan-400">
+              ${offer.priceUsdc}
+            </span>
+            <OfferStatusBadge offer={offer} />
+          </div>
+          <p className="text-xs text-zinc-500 break-all">
+            <OfferTarget offer={offer} getAppName={getAppName} />
+          </p>
+          <p className="text-xs text-zinc-600 mt-0.5">
+            {isOfferPayable(offer) && offer.paymentDeadline
+              ? `Accepted! Pay before ${new Date(
+                  offer.paymentDeadline
+                ).toLocaleString()}`
+              : `Expires ${new Date(offer.expiresAt).toLocaleDateString()}`}
+          </p>
+        </div>
+        {offer.txHash && <TxReceiptLink txHash={offer.txHash} />}
+      </div>
+
+      {isOwner && (isOfferPayable(offer) || canCancel) && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {isOfferPayable(offer) && (
+            <button
+              onClick={() => onPay(offer)}
+              disabled={isPaying}
+              className="px-3 py-1.5 rounded-lg bg-emerald-500 hover:bg-emerald-600 text-xs text-white font-medium transition-colors cursor-pointer disabled:opacity-50 flex items-center gap-1.5"
+            >
+              {isPaying && <Loader2 className="w-3 h-3 animate-spin" />}
+              {isPaying ? "Processing..." : `Buy at $${offer.priceUsdc}`}
+            </button>
+          )}
+          {canCancel && (
+            <button
+              onClick={handleCancel}
+              disabled={isCancelling || isPaying}
+              className="px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-xs text-white font-medium transition-colors cursor-pointer disabled:opacity-50 flex items-center gap-1.5"
+            >
+              {isCancelling && <Loader2 className="w-3 h-3 animate-spin" />}
+              {isCancelling ? "Signing..." : "Cancel Offer"}
+            </button>
+          )}
+        </div>
+      )}
+      {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
+
+/**
+ * Offers this wallet made. The owner can cancel them, and pay for accepted
+ * ones at the offer price.
+ */
+export function MyOffersSection({
+  offers,
+  isOwner,
+  payingOfferId,
+  getAppName,
+  onCancel,
+  onPay,
+}: {
+  offers: OfferSummary[];
+  isOwner: boolean;
+  payingOfferId: string | null;
+  getAppName: (appId: string) => string;
+  onCancel: (offer: OfferSummary) => Promise<void>;
+  onPay: (offer: OfferSummary) => void;
+}) {
+  if (offers.length === 0) return null;
+
+  const payableCount = offers.filter((o) => isOfferPayable(o)).length;
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-sm font-semibold text-zinc-300 flex items-center gap-2 mb-3">
+        <HandCoins className="w-4 h-4 text-cyan-400" />
+        My Offers
+        {payableCount > 0 && (
+          <span className="px-1.5 py-0.5 rounded-md bg-emerald-500/20 text-emerald-400 text-[10px] sm:text-xs font-semibold">
+            {payableCount} accepted
+          </span>
+        )}
+      </h3>
+      <div className="space-y-3">
+        {offers.map((offer) => (
+          <MyOfferRow
+            key={offer.id}
+            offer={offer}
+            isOwner={isOwner}
+            isPaying={payingOfferId === offer.id}
+            getAppName={getAppName}
+            onCancel={onCancel}
+            onPay={onPay}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
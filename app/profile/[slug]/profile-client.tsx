@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback } from "react";
 import Image from "next/image";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
@@ -16,35 +16,65 @@ import {
   getTrustLevelConfig,
   type EthosData,
 } from "@/lib/ethos-scores";
-import { featuredApps } from "@/data/featuredApps";
 import { useActiveAccount } from "thirdweb/react";
-import { signMessage } from "thirdweb/utils";
 import {
   getEIP712Domain,
   EIP712_UPDATE_TYPES,
   EIP712_DELETE_TYPES,
+  EIP712_CODE_POOL_UPDATE_TYPES,
+  EIP712_ACCEPT_OFFER_TYPES,
+  EIP712_CANCEL_OFFER_TYPES,
+  hashCodePool,
+  parseCodePoolInput,
   type UpdateListingMessage,
+  type UpdateCodePoolListingMessage,
   type DeleteListingMessage,
+  type AcceptOfferMessage,
+  type CancelOfferMessage,
   type ListingType,
 } from "@/lib/signature";
 import { EthosRateButton } from "@/app/components/EthosRateButton";
+import { TxReceiptLink } from "@/app/components/TxReceiptLink";
+import { PaymentSuccessModal } from "@/app/components/PaymentSuccessModal";
+import { usePurchase } from "@/hooks/usePurchase";
+import { useSession } from "@/hooks/useSession";
 import { useTheme } from "@/app/contexts/ThemeContext";
-
-// Helper to resolve appId to proper app name
+import {
+  isDisputeOpenable,
+  type DisputeReason,
+  type DisputeStatus,
+  type DisputeSummary,
+} from "@/lib/disputes";
+import {
+  DisputeStatusBadge,
+  OpenDisputeModal,
+  SellerDisputesSection,
+} from "./disputes";
+import type { EscrowStatus } from "@/models/transaction";
+import { DeliveryFeedbackPrompt } from "./delivery-feedback";
+import {
+  formatDeliveryRate,
+  type DeliveryStats,
+} from "@/lib/delivery-feedback";
+import { fetchOffers, type OfferSummary } from "@/lib/offers";
+import { isListingAvailable } from "@/lib/listings";
+import {
+  LISTING_EXPIRY_OPTIONS,
+  formatTimeLeft,
+  getListingExpiry,
+  toListingExpirySeconds,
+} from "@/lib/listing-expiry";
+import { IncomingOffersSection, MyOffersSection } from "./offers";
+import { SellerAnalyticsSection } from "./seller-analytics";
+
+// App names come from the App registry through the API; older records may
+// only have an appId
 function getAppDisplayName(
   appId?: string,
   appName?: string,
   fallback?: string
 ): string {
-  if (appId) {
-    const featuredApp = featuredApps.find((app) => app.id === appId);
-    if (featuredApp) {
-      return featuredApp.appName;
-    }
-    // If appId doesn't match any featured app, use appName or appId
-    return appName || appId;
-  }
-  return appName || fallback || "Unknown App";
+  return appName || appId || fallback || "Unknown App";
 }
 
 interface ProfileClientProps {
@@ -58,6 +88,17 @@ interface Purchase {
   sellerAddress: string;
   priceUsdc: number;
   appId?: string;
+  appName?: string;
+  txHash?: string;
+  disputeStatus?: DisputeStatus;
+  // USDC transfer that refunded a disputed purchase
+  refundTxHash?: string;
+  // Escrowed purchases: funds are held until the buyer confirms or the window passes
+  escrowStatus?: EscrowStatus;
+  escrowReleaseAt?: string;
+  payoutTxHash?: string;
+  // Buyer's report of whether the invite worked
+  deliveryFeedback?: { worked: boolean; submittedAt: string };
   createdAt: string;
 }
 
@@ -79,15 +120,29 @@ interface Listing {
   appUrl?: string;
   // accessCode is only returned when authenticated as the seller (access_code type)
   accessCode?: string;
+  // Number of codes in the pool when each buyer gets a distinct code (access_code type)
+  codePoolSize?: number;
   priceUsdc: number;
   sellerAddress: string;
-  status: "active" | "sold" | "cancelled";
+  status: "active" | "sold" | "cancelled" | "expired" | "paused";
   appId?: string;
   appName?: string;
+  // Featured apps can't be renamed; custom apps can
+  appFeatured?: boolean;
+  // When the listing stops being sold unless renewed
+  expiresAt?: string;
+  // Latest invite-link health check (invite_link type)
+  healthStatus?: "live" | "dead" | "unreachable";
+  healthReason?: string;
+  healthCheckedAt?: string;
   // Multi-use listing fields
   maxUses?: number; // -1 for unlimited, default: 1
   purchaseCount?: number; // default: 0
+  // Buyer a buy-order listing is reserved for
+  reservedFor?: string;
   description?: string;
+  // Bumped on every seller update; signed into update/delete messages (default: 0)
+  version?: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -95,6 +150,8 @@ interface Listing {
 interface SellerStats {
   salesCount: number;
   totalRevenue: number;
+  disputes?: Record<DisputeStatus | "total", number>;
+  delivery?: DeliveryStats;
 }
 
 function CopyButton({
@@ -178,17 +235,23 @@ function EditListingModal({
   listing,
   onClose,
   onUpdate,
+  onConflict,
+  reloadedAfterConflict = false,
   account,
   chainId,
 }: {
   listing: Listing;
   onClose: () => void;
   onUpdate: () => void;
+  // Reloads the listing when it changed after the modal was opened
+  onConflict: () => void;
+  reloadedAfterConflict?: boolean;
   account: ReturnType<typeof useActiveAccount>;
   chainId: number;
 }) {
   const listingType: ListingType = listing.listingType || "invite_link";
   const isAccessCode = listingType === "access_code";
+  const isCodePool = !!listing.codePoolSize;
 
   const [price, setPrice] = useState(listing.priceUsdc.toString());
   // inviteUrl is available when authenticated as the seller (invite_link type)
@@ -199,6 +262,8 @@ function EditListingModal({
   const [accessCode, setAccessCode] = useState(listing.accessCode || "");
   const [appName, setAppName] = useState(listing.appName || "");
   const [description, setDescription] = useState(listing.description || "");
+  // Code pool listings: new codes to append, one per line
+  const [newCodes, setNewCodes] = useState("");
   // Multi-use inventory fields
   const currentMaxUses = listing.maxUses ?? 1;
   const [maxUses, setMaxUses] = useState(
@@ -206,6 +271,11 @@ function EditListingModal({
   );
   const [isUnlimitedUses, setIsUnlimitedUses] = useState(currentMaxUses === -1);
   const purchaseCount = listing.purchaseCount ?? 0;
+  // Days until the listing expires ("keep" leaves the current expiry);
+  // renewing an expired listing starts from 30 days
+  const isExpired = listing.status === "expired";
+  const isPaused = listing.status === "paused";
+  const [expiryDays, setExpiryDays] = useState(isExpired ? "30" : "keep");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
   const [isSecretFocused, setIsSecretFocused] = useState(false);
@@ -235,33 +305,67 @@ function EditListingModal({
 
     try {
       const nonce = BigInt(Date.now());
-      const appNameValue = listing.appId ? "" : appName;
+      const version = listing.version ?? 0;
+      const expiresAt =
+        expiryDays === "keep"
+          ? toListingExpirySeconds(listing.expiresAt)
+          : getListingExpiry(parseInt(expiryDays, 10));
+      const appNameValue = listing.appFeatured ? "" : appName;
       // Calculate maxUses value: -1 for unlimited, or the entered number
       const maxUsesValue = isUnlimitedUses
         ? -1
         : parseInt(maxUses, 10) || currentMaxUses;
 
-      const message: UpdateListingMessage = {
-        slug: listing.slug,
-        listingType,
-        inviteUrl: isAccessCode ? "" : inviteUrl,
-        appUrl: isAccessCode ? appUrl : "",
-        accessCode: isAccessCode ? accessCode : "",
-        priceUsdc: price,
-        sellerAddress: account.address as `0x${string}`,
-        appName: appNameValue,
-        maxUses: maxUsesValue.toString(),
-        description: description || "",
-        nonce,
-      };
+      const addedCodes = parseCodePoolInput(newCodes);
 
-      // Sign typed data using thirdweb account
-      const signature = await account.signTypedData({
-        domain: getEIP712Domain(chainId),
-        types: EIP712_UPDATE_TYPES,
-        primaryType: "UpdateListing" as const,
-        message,
-      });
+      let signature: `0x${string}`;
+      if (isCodePool) {
+        // maxUses follows the pool, so only the added codes are signed (as a hash)
+        const message: UpdateCodePoolListingMessage = {
+          slug: listing.slug,
+          appUrl,
+          addedCodesHash: hashCodePool(addedCodes),
+          addedCodeCount: addedCodes.length.toString(),
+          priceUsdc: price,
+          sellerAddress: account.address as `0x${string}`,
+          appName: appNameValue,
+          description: description || "",
+          expiresAt: BigInt(expiresAt),
+          version: BigInt(version),
+          nonce,
+        };
+
+        signature = await account.signTypedData({
+          domain: getEIP712Domain(chainId),
+          types: EIP712_CODE_POOL_UPDATE_TYPES,
+          primaryType: "UpdateCodePoolListing" as const,
+          message,
+        });
+      } else {
+        const message: UpdateListingMessage = {
+          slug: listing.slug,
+          listingType,
+          inviteUrl: isAccessCode ? "" : inviteUrl,
+          appUrl: isAccessCode ? appUrl : "",
+          accessCode: isAccessCode ? accessCode : "",
+          priceUsdc: price,
+          sellerAddress: account.address as `0x${string}`,
+          appName: appNameValue,
+          maxUses: maxUsesValue.toString(),
+          description: description || "",
+          expiresAt: BigInt(expiresAt),
+          version: BigInt(version),
+          nonce,
+        };
+
+        // Sign typed data using thirdweb account
+        signature = await account.signTypedData({
+          domain: getEIP712Domain(chainId),
+          types: EIP712_UPDATE_TYPES,
+          primaryType: "UpdateListing" as const,
+          message,
+        });
+      }
 
       const response = await fetch("/api/listings/update", {
         method: "PATCH",
@@ -270,10 +374,16 @@ function EditListingModal({
           slug: listing.slug,
           sellerAddress: account.address,
           priceUsdc: parseFloat(price),
-          ...(isAccessCode ? { appUrl, accessCode } : { inviteUrl }),
-          appName: listing.appId ? undefined : appName,
-          maxUses: maxUsesValue,
+          ...(isCodePool
+            ? { appUrl, codes: addedCodes }
+            : isAccessCode
+              ? { appUrl, accessCode }
+              : { inviteUrl }),
+          appName: listing.appFeatured ? undefined : appName,
+          maxUses: isCodePool ? undefined : maxUsesValue,
           description: description.trim() || undefined,
+          expiresAt,
+          version,
           nonce: nonce.toString(),
           chainId,
           signature,
@@ -284,6 +394,9 @@ function EditListingModal({
       if (data.success) {
         onUpdate();
         onClose();
+      } else if (response.status === 409 && data.currentVersion !== undefined) {
+        // Someone saved a newer version; reload it instead of overwriting
+        onConflict();
       } else {
         setError(data.error || "Failed to update listing");
       }
@@ -317,7 +430,9 @@ function EditListingModal({
       >
         <div className="flex items-center justify-between mb-6">
           <div>
-            <h3 className="text-xl font-bold text-white">Edit Listing</h3>
+            <h3 className="text-xl font-bold text-white">
+              {isExpired ? "Renew Listing" : "Edit Listing"}
+            </h3>
             <span className="text-xs text-zinc-500">
               {isAccessCode ? "Access Code" : "Invite Link"}
             </span>
@@ -378,30 +493,50 @@ function EditListingModal({
                 </p>
               </div>
 
-              {/* Access Code - secret */}
-              <div>
-                <label className="block text-sm font-medium text-zinc-300 mb-2">
-                  Access Code
-                </label>
-                <input
-                  type={isSecretFocused ? "text" : "password"}
-                  value={accessCode}
-                  onChange={(e) => setAccessCode(e.target.value)}
-                  onFocus={() => setIsSecretFocused(true)}
-                  onBlur={() => setIsSecretFocused(false)}
-                  placeholder={
-                    hasExistingSecret
-                      ? undefined
-                      : "Leave empty to keep existing code"
-                  }
-                  className="w-full px-4 py-2.5 rounded-xl bg-zinc-950 border border-zinc-800 text-white placeholder:text-zinc-600 focus:border-cyan-500 focus:outline-none font-mono"
-                />
-                {!hasExistingSecret && (
+              {isCodePool ? (
+                /* Code pool - append new codes */
+                <div>
+                  <label className="block text-sm font-medium text-zinc-300 mb-2">
+                    Add Codes
+                  </label>
+                  <textarea
+                    value={newCodes}
+                    onChange={(e) => setNewCodes(e.target.value)}
+                    rows={4}
+                    placeholder="One code per line"
+                    className="w-full px-4 py-2.5 rounded-xl bg-zinc-950 border border-zinc-800 text-white placeholder:text-zinc-600 focus:border-cyan-500 focus:outline-none font-mono resize-y"
+                  />
                   <p className="mt-1.5 text-xs text-zinc-500">
-                    Leave empty to keep the existing code unchanged.
+                    {purchaseCount} of {listing.codePoolSize} codes handed out.
+                    Each new code adds one more sale.
                   </p>
-                )}
-              </div>
+                </div>
+              ) : (
+                /* Access Code - secret */
+                <div>
+                  <label className="block text-sm font-medium text-zinc-300 mb-2">
+                    Access Code
+                  </label>
+                  <input
+                    type={isSecretFocused ? "text" : "password"}
+                    value={accessCode}
+                    onChange={(e) => setAccessCode(e.target.value)}
+                    onFocus={() => setIsSecretFocused(true)}
+                    onBlur={() => setIsSecretFocused(false)}
+                    placeholder={
+                      hasExistingSecret
+                        ? undefined
+                        : "Leave empty to keep existing code"
+                    }
+                    className="w-full px-4 py-2.5 rounded-xl bg-zinc-950 border border-zinc-800 text-white placeholder:text-zinc-600 focus:border-cyan-500 focus:outline-none font-mono"
+                  />
+                  {!hasExistingSecret && (
+                    <p className="mt-1.5 text-xs text-zinc-500">
+                      Leave empty to keep the existing code unchanged.
+                    </p>
+                  )}
+                </div>
+              )}
             </>
           ) : (
             <div>
@@ -426,10 +561,18 @@ function EditListingModal({
                   Leave empty to keep the existing URL unchanged.
                 </p>
               )}
+              {isPaused && (
+                <p className="mt-1.5 text-xs text-amber-400">
+                  Paused because the invite link failed several checks
+                  {listing.healthReason ? ` (${listing.healthReason})` : ""}.
+                  Saving re-checks it and puts the listing back on sale if it
+                  works.
+                </p>
+              )}
             </div>
           )}
 
-          {!listing.appId && (
+          {!listing.appFeatured && (
             <div>
               <label className="block text-sm font-medium text-zinc-300 mb-2">
                 App Name
@@ -470,8 +613,39 @@ function EditListingModal({
             </div>
           </div>
 
-          {/* Max Uses (Inventory) - only show if not sold out */}
-          {listing.status === "active" && (
+          {/* Expiry - a new expiry renews the listing */}
+          <div>
+            <label className="block text-sm font-medium text-zinc-300 mb-2">
+              Expires
+            </label>
+            <select
+              value={expiryDays}
+              onChange={(e) => setExpiryDays(e.target.value)}
+              className="w-full px-4 py-2.5 rounded-xl bg-zinc-950 border border-zinc-800 text-white focus:border-cyan-500 focus:outline-none cursor-pointer"
+            >
+              {!isExpired && (
+                <option value="keep">
+                  {listing.expiresAt
+                    ? `Keep current (${formatTimeLeft(listing.expiresAt)})`
+                    : "Keep current (never)"}
+                </option>
+              )}
+              {LISTING_EXPIRY_OPTIONS.map((days) => (
+                <option key={days} value={days}>
+                  {days === 0 ? "Never" : `In ${days} days`}
+                </option>
+              ))}
+            </select>
+            {isExpired && (
+              <p className="mt-1.5 text-xs text-amber-400">
+                This listing expired and is off the market. Saving puts it back
+                on sale.
+              </p>
+            )}
+          </div>
+
+          {/* Max Uses (Inventory) - only show if not sold out (code pools grow by adding codes) */}
+          {(listing.status === "active" || isPaused) && !isCodePool && (
             <div>
               <label className="block text-sm font-medium text-zinc-300 mb-2">
                 Number of Uses
@@ -531,6 +705,13 @@ function EditListingModal({
             </div>
           )}
 
+          {reloadedAfterConflict && !error && (
+            <div className="p-3 rounded-lg bg-amber-500/10 border border-amber-500/30 text-amber-400 text-sm">
+              This listing changed after you opened it. The latest version is
+              shown below; review it and save again.
+            </div>
+          )}
+
           {error && (
             <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-400 text-sm">
               {error}
@@ -550,7 +731,7 @@ function EditListingModal({
               disabled={isLoading}
               className="flex-1 px-4 py-2.5 rounded-xl bg-cyan-500 hover:bg-cyan-600 text-white font-medium transition-colors cursor-pointer disabled:opacity-50"
             >
-              {isLoading ? "Updating..." : "Update"}
+              {isLoading ? "Updating..." : isExpired ? "Renew" : "Update"}
             </button>
           </div>
         </form>
@@ -615,7 +796,7 @@ function ViewCodeModal({
           <div>
             <h3 className="text-xl font-bold text-white">Your Purchase</h3>
             <span className="text-xs text-zinc-500">
-              {getAppDisplayName(purchase.appId, undefined, purchase.listingSlug)}
+              {getAppDisplayName(purchase.appId, purchase.appName, purchase.listingSlug)}
             </span>
           </div>
           <button
@@ -823,6 +1004,7 @@ function ListingCard({
   isOwner,
   onEdit,
   onDelete,
+  onConflict,
   account,
   chainId,
   isAuthenticating = false,
@@ -831,6 +1013,8 @@ function ListingCard({
   isOwner: boolean;
   onEdit: () => void;
   onDelete: () => void;
+  // Reloads listings when this one changed after the seller last loaded it
+  onConflict: () => void;
   account: ReturnType<typeof useActiveAccount>;
   chainId: number;
   isAuthenticating?: boolean;
@@ -838,6 +1022,10 @@ function ListingCard({
   const [isDeleting, setIsDeleting] = useState(false);
   const [showConfirmDelete, setShowConfirmDelete] = useState(false);
   const [deleteError, setDeleteError] = useState("");
+  // Expired listings are off the market until the seller renews them
+  const isExpired = listing.status === "expired";
+  // Paused listings are off the market until their invite link works again
+  const isPaused = listing.status === "paused";
 
   const handleDelete = async () => {
     if (!account) {
@@ -851,9 +1039,12 @@ function ListingCard({
     try {
       const nonce = BigInt(Date.now());
 
+      const version = listing.version ?? 0;
+
       const message: DeleteListingMessage = {
         slug: listing.slug,
         sellerAddress: account.address as `0x${string}`,
+        version: BigInt(version),
         nonce,
       };
 
@@ -871,6 +1062,7 @@ function ListingCard({
         body: JSON.stringify({
           slug: listing.slug,
           sellerAddress: account.address,
+          version,
           nonce: nonce.toString(),
           chainId,
           signature,
@@ -881,6 +1073,10 @@ function ListingCard({
         onDelete();
       } else {
         setDeleteError(data.error || "Failed to delete listing");
+        // Load the latest version so deleting again signs against it
+        if (response.status === 409 && data.currentVersion !== undefined) {
+          onConflict();
+        }
       }
     } catch (err) {
       if (err instanceof Error) {
@@ -942,11 +1138,26 @@ function ListingCard({
                   ? "bg-emerald-500/10 text-emerald-400"
                   : listing.status === "sold"
                   ? "bg-blue-500/10 text-blue-400"
+                  : isExpired || isPaused
+                  ? "bg-amber-500/10 text-amber-400"
                   : "bg-zinc-500/10 text-zinc-400"
               }`}
             >
               {listing.status}
             </span>
+            {listing.status === "active" && listing.expiresAt && (
+              <span className="px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-medium bg-zinc-500/10 text-zinc-400">
+                {formatTimeLeft(listing.expiresAt)}
+              </span>
+            )}
+            {isOwner && isPaused && listing.healthReason && (
+              <span
+                className="px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-medium bg-amber-500/10 text-amber-400"
+                title="Paused after the invite link failed several checks in a row. It goes back on sale once the link works again, or update it now."
+              >
+                Link check: {listing.healthReason}
+              </span>
+            )}
             {/* Inventory Badge - only show for multi-use listings */}
             {(() => {
               const maxUses = listing.maxUses ?? 1;
@@ -973,53 +1184,73 @@ function ListingCard({
                 </span>
               );
             })()}
+            {listing.reservedFor && (
+              <Link
+                href={`/profile/${listing.reservedFor}`}
+                className="px-2 py-0.5 rounded-full text-[10px] sm:text-xs font-medium bg-purple-500/10 text-purple-400 hover:text-purple-300 transition-colors"
+              >
+                Reserved for {listing.reservedFor.slice(0, 6)}...
+                {listing.reservedFor.slice(-4)}
+              </Link>
+            )}
           </div>
         </div>
 
-        {isOwner && listing.status === "active" && (
+        {isOwner && (listing.status === "active" || isExpired || isPaused) && (
           <div className="flex gap-1.5 sm:gap-2 shrink-0">
-            <button
-              onClick={onEdit}
-              disabled={isAuthenticating}
-              className="p-1.5 sm:p-2 rounded-lg bg-cyan-500/10 border border-cyan-500/30 hover:bg-cyan-500/20 hover:border-cyan-500/50 transition-all group cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
-              title={isAuthenticating ? "Signing..." : "Edit listing"}
-            >
-              {isAuthenticating ? (
-                <svg
-                  className="w-3.5 h-3.5 sm:w-4 sm:h-4 text-cyan-400 animate-spin"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                >
-                  <circle
-                    className="opacity-25"
-                    cx="12"
-                    cy="12"
-                    r="10"
+            {isExpired && (
+              <button
+                onClick={onEdit}
+                disabled={isAuthenticating}
+                className="px-2.5 sm:px-3 py-1.5 sm:py-2 rounded-lg bg-amber-500/10 border border-amber-500/30 hover:bg-amber-500/20 hover:border-amber-500/50 text-xs sm:text-sm font-medium text-amber-400 transition-all cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isAuthenticating ? "Signing..." : "Renew"}
+              </button>
+            )}
+            {(listing.status === "active" || isPaused) && (
+              <button
+                onClick={onEdit}
+                disabled={isAuthenticating}
+                className="p-1.5 sm:p-2 rounded-lg bg-cyan-500/10 border border-cyan-500/30 hover:bg-cyan-500/20 hover:border-cyan-500/50 transition-all group cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                title={isAuthenticating ? "Signing..." : "Edit listing"}
+              >
+                {isAuthenticating ? (
+                  <svg
+                    className="w-3.5 h-3.5 sm:w-4 sm:h-4 text-cyan-400 animate-spin"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                  >
+                    <circle
+                      className="opacity-25"
+                      cx="12"
+                      cy="12"
+                      r="10"
+                      stroke="currentColor"
+                      strokeWidth="4"
+                    />
+                    <path
+                      className="opacity-75"
+                      fill="currentColor"
+                      d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                    />
+                  </svg>
+                ) : (
+                  <svg
+                    className="w-3.5 h-3.5 sm:w-4 sm:h-4 text-cyan-400 group-hover:text-cyan-300"
+                    fill="none"
                     stroke="currentColor"
-                    strokeWidth="4"
-                  />
-                  <path
-                    className="opacity-75"
-                    fill="currentColor"
-                    d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                  />
-                </svg>
-              ) : (
-                <svg
-                  className="w-3.5 h-3.5 sm:w-4 sm:h-4 text-cyan-400 group-hover:text-cyan-300"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
-                  />
-                </svg>
-              )}
-            </button>
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                    />
+                  </svg>
+                )}
+              </button>
+            )}
             <button
               onClick={() => setShowConfirmDelete(true)}
               disabled={isDeleting}
@@ -1088,14 +1319,39 @@ function PurchaseCard({
   sellerInfo,
   isOwner,
   onViewCode,
+  onDispute,
+  onConfirmDelivery,
+  onDeliveryFeedback,
   isRevealing = false,
 }: {
   purchase: Purchase;
   sellerInfo: ReturnType<typeof getSellerDisplayInfo>;
   isOwner: boolean;
   onViewCode: () => void;
+  onDispute: () => void;
+  onConfirmDelivery: () => Promise<void>;
+  onDeliveryFeedback: (worked: boolean, comment: string) => Promise<void>;
   isRevealing?: boolean;
 }) {
+  const [showConfirmRelease, setShowConfirmRelease] = useState(false);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [confirmError, setConfirmError] = useState("");
+
+  const handleConfirmRelease = async () => {
+    setIsConfirming(true);
+    setConfirmError("");
+    try {
+      await onConfirmDelivery();
+      setShowConfirmRelease(false);
+    } catch (error) {
+      setConfirmError(
+        error instanceof Error ? error.message : "Failed to confirm delivery"
+      );
+    } finally {
+      setIsConfirming(false);
+    }
+  };
+
   const date = new Date(purchase.createdAt);
   const formattedDate = date.toLocaleDateString("en-US", {
     year: "numeric",
@@ -1115,14 +1371,14 @@ function PurchaseCard({
         className="absolute inset-0 z-0"
         aria-label={`View listing: ${getAppDisplayName(
           purchase.appId,
-          undefined,
+          purchase.appName,
           purchase.listingSlug
         )}`}
       />
       <div className="flex items-start justify-between gap-4">
         <div className="flex-1 min-w-0">
           <span className="text-base font-semibold text-white block mb-2">
-            {getAppDisplayName(purchase.appId, undefined, purchase.listingSlug)}
+            {getAppDisplayName(purchase.appId, purchase.appName, purchase.listingSlug)}
           </span>
           <div className="flex items-center gap-2 mb-3">
             <span className="text-sm text-zinc-500">Seller:</span>
@@ -1180,6 +1436,32 @@ function PurchaseCard({
                 ${purchase.priceUsdc.toFixed(2)}
               </span>
             </div>
+            <TxReceiptLink txHash={purchase.txHash} />
+            {purchase.disputeStatus && (
+              <DisputeStatusBadge status={purchase.disputeStatus} />
+            )}
+            <TxReceiptLink
+              txHash={
+                purchase.refundTxHash ??
+                (purchase.escrowStatus === "refunded"
+                  ? purchase.payoutTxHash
+                  : undefined)
+              }
+              label="Refund"
+            />
+            {purchase.escrowStatus === "pending_release" &&
+              purchase.escrowReleaseAt && (
+                <span
+                  className="px-2 py-0.5 rounded-md bg-cyan-500/10 border border-cyan-500/30 text-cyan-400 text-[10px] sm:text-xs font-medium"
+                  title="Payment is held in escrow until you confirm the invite worked or the confirmation window ends"
+                >
+                  In escrow until{" "}
+                  {new Date(purchase.escrowReleaseAt).toLocaleDateString(
+                    "en-US",
+                    { month: "short", day: "numeric" }
+                  )}
+                </span>
+              )}
           </div>
         </div>
         <div className="relative z-10 flex flex-col gap-2">
@@ -1255,8 +1537,108 @@ function PurchaseCard({
               Review
             </span>
           </a>
+          {/* Confirm delivery - releases escrowed funds to the seller early */}
+          {isOwner &&
+            purchase.escrowStatus === "pending_release" &&
+            purchase.disputeStatus !== "open" && (
+              <button
+                onClick={() => setShowConfirmRelease(true)}
+                disabled={isConfirming}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg bg-cyan-500/10 border border-cyan-500/30 hover:bg-cyan-500/20 hover:border-cyan-500/50 transition-all group cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Confirm the invite worked and release payment to the seller"
+              >
+                <svg
+                  className="w-4 h-4 text-cyan-400 group-hover:text-cyan-300 transition-colors"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M5 13l4 4L19 7"
+                  />
+                </svg>
+                <span className="text-xs font-medium text-cyan-400 group-hover:text-cyan-300 transition-colors">
+                  It Worked
+                </span>
+              </button>
+            )}
+          {/* Report problem - buyers can dispute within the dispute window */}
+          {isOwner &&
+            !purchase.disputeStatus &&
+            isDisputeOpenable(purchase.createdAt) && (
+              <button
+                onClick={onDispute}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg bg-amber-500/10 border border-amber-500/30 hover:bg-amber-500/20 hover:border-amber-500/50 transition-all group cursor-pointer"
+                title="Report a problem with this purchase"
+              >
+                <svg
+                  className="w-4 h-4 text-amber-400 group-hover:text-amber-300 transition-colors"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+                  />
+                </svg>
+                <span className="text-xs font-medium text-amber-400 group-hover:text-amber-300 transition-colors">
+                  Report
+                </span>
+              </button>
+            )}
         </div>
       </div>
+
+      {/* Delivery feedback - escrowed purchases are confirmed with "It Worked" instead */}
+      {isOwner && purchase.escrowStatus !== "pending_release" && (
+        <DeliveryFeedbackPrompt
+          feedback={purchase.deliveryFeedback}
+          onSubmit={onDeliveryFeedback}
+        />
+      )}
+
+      <AnimatePresence>
+        {showConfirmRelease && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: "auto" }}
+            exit={{ opacity: 0, height: 0 }}
+            className="relative z-10 mt-3 pt-3 border-t border-zinc-800"
+          >
+            <p className="text-sm text-zinc-400 mb-3">
+              Release the payment to the seller? Sign a message to confirm the
+              invite worked. This can&apos;t be undone.
+            </p>
+            {confirmError && (
+              <p className="text-sm text-red-400 mb-3">{confirmError}</p>
+            )}
+            <div className="flex gap-2">
+              <button
+                onClick={() => {
+                  setShowConfirmRelease(false);
+                  setConfirmError("");
+                }}
+                className="flex-1 px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-sm font-medium text-white transition-colors cursor-pointer"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirmRelease}
+                disabled={isConfirming}
+                className="flex-1 px-3 py-1.5 rounded-lg bg-cyan-500 hover:bg-cyan-600 text-sm font-medium text-white transition-colors cursor-pointer disabled:opacity-50"
+              >
+                {isConfirming ? "Releasing..." : "Release Payment"}
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
     </motion.div>
   );
 }
@@ -1275,9 +1657,12 @@ export default function ProfileClient({ address }: ProfileClientProps) {
   const [listingsLoading, setListingsLoading] = useState(true);
   const [sellerStats, setSellerStats] = useState<SellerStats | null>(null);
   const [editingListing, setEditingListing] = useState<Listing | null>(null);
-  const [activeTab, setActiveTab] = useState<"listings" | "purchases">(
-    "listings"
-  );
+  // Set when the edit modal was reloaded because the listing changed meanwhile
+  const [editReloadedAfterConflict, setEditReloadedAfterConflict] =
+    useState(false);
+  const [activeTab, setActiveTab] = useState<
+    "listings" | "purchases" | "analytics"
+  >("listings");
   // State for viewing purchased codes
   const [viewingPurchase, setViewingPurchase] = useState<Purchase | null>(null);
   const [revealedData, setRevealedData] = useState<RevealedPurchaseData | null>(
@@ -1286,6 +1671,23 @@ export default function ProfileClient({ address }: ProfileClientProps) {
   const [revealingPurchaseId, setRevealingPurchaseId] = useState<string | null>(
     null
   );
+  // Disputes: buyer reporting a purchase, and disputes against this seller
+  const [disputingPurchase, setDisputingPurchase] = useState<Purchase | null>(
+    null
+  );
+  const [sellerDisputes, setSellerDisputes] = useState<DisputeSummary[]>([]);
+  const [isUnlockingDisputes, setIsUnlockingDisputes] = useState(false);
+  // Offers: ones buyers made to this seller, and ones this wallet made
+  const [incomingOffers, setIncomingOffers] = useState<OfferSummary[]>([]);
+  const [myOffers, setMyOffers] = useState<OfferSummary[]>([]);
+  const [payingOfferId, setPayingOfferId] = useState<string | null>(null);
+  const {
+    purchase,
+    purchaseData,
+    purchasedSellerAddress,
+    showSuccessModal,
+    closeSuccessModal,
+  } = usePurchase();
   const account = useActiveAccount();
   // Always use the server-configured chainId, not the wallet's connected chain
 
@@ -1305,121 +1707,58 @@ export default function ProfileClient({ address }: ProfileClientProps) {
     });
   }, [address]);
 
-  useEffect(() => {
-    const fetchPurchases = async () => {
-      try {
-        const response = await fetch(`/api/buyer/${address}`);
-        const data = await response.json();
-        if (data.success) {
-          setPurchases(data.purchases);
-          const sellers = [
-            ...new Set(data.purchases.map((p: Purchase) => p.sellerAddress)),
-          ] as string[];
-          setSellerAddresses(sellers);
-        }
-      } catch (error) {
-        console.error("Failed to fetch purchases:", error);
-      } finally {
-        setPurchasesLoading(false);
+  const fetchPurchases = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/buyer/${address}`);
+      const data = await response.json();
+      if (data.success) {
+        setPurchases(data.purchases);
+        const sellers = [
+          ...new Set(data.purchases.map((p: Purchase) => p.sellerAddress)),
+        ] as string[];
+        setSellerAddresses(sellers);
       }
-    };
+    } catch (error) {
+      console.error("Failed to fetch purchases:", error);
+    } finally {
+      setPurchasesLoading(false);
+    }
+  }, [address]);
+
+  useEffect(() => {
     fetchPurchases();
+  }, [fetchPurchases]);
+
+  const fetchProfileOffers = useCallback(async () => {
+    const [incoming, made] = await Promise.all([
+      fetchOffers({ seller: address }),
+      fetchOffers({ buyer: address }),
+    ]);
+    setIncomingOffers(incoming);
+    setMyOffers(made);
   }, [address]);
 
-  // Store auth data for authenticated seller requests with caching
-  // Includes wallet address and timestamp to validate cache
-  const authDataRef = useRef<{
-    signature: string;
-    message: string;
-    walletAddress: string;
-    createdAt: number;
-  } | null>(null);
+  useEffect(() => {
+    fetchProfileOffers();
+  }, [fetchProfileOffers]);
+
+  // Seller and buyer actions share one Sign-In with Ethereum session
+  const { ensureSession, refreshSession } = useSession();
   const [authenticatingListingId, setAuthenticatingListingId] = useState<
     string | null
   >(null);
 
-  // Store auth data for authenticated buyer requests (for viewing purchased codes)
-  // Separate from seller auth since message format is different
-  const buyerAuthDataRef = useRef<{
-    signature: string;
-    message: string;
-    walletAddress: string;
-    createdAt: number;
-  } | null>(null);
-
-  // Check if cached auth is still valid
-  const isAuthCacheValid = useCallback(() => {
-    // Cache validity duration (5 minutes in milliseconds)
-    const AUTH_CACHE_DURATION = 5 * 60 * 1000;
-
-    if (!authDataRef.current || !account) return false;
-
-    const { walletAddress, createdAt } = authDataRef.current;
-    const now = Date.now();
-
-    // Validate: same wallet and within cache duration
-    const isSameWallet =
-      walletAddress.toLowerCase() === account.address.toLowerCase();
-    const isNotExpired = now - createdAt < AUTH_CACHE_DURATION;
-
-    return isSameWallet && isNotExpired;
-  }, [account]);
-
-  // Clear auth cache when wallet changes
-  useEffect(() => {
-    if (authDataRef.current && account) {
-      const cachedWallet = authDataRef.current.walletAddress.toLowerCase();
-      const currentWallet = account.address.toLowerCase();
-
-      if (cachedWallet !== currentWallet) {
-        // Wallet changed, clear the cache
-        authDataRef.current = null;
-      }
-    }
-    // Also clear buyer auth cache
-    if (buyerAuthDataRef.current && account) {
-      const cachedWallet = buyerAuthDataRef.current.walletAddress.toLowerCase();
-      const currentWallet = account.address.toLowerCase();
-
-      if (cachedWallet !== currentWallet) {
-        buyerAuthDataRef.current = null;
-      }
-    }
-  }, [account]);
-
-  // Check if cached buyer auth is still valid
-  const isBuyerAuthCacheValid = useCallback(() => {
-    const AUTH_CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
-
-    if (!buyerAuthDataRef.current || !account) return false;
-
-    const { walletAddress, createdAt } = buyerAuthDataRef.current;
-    const now = Date.now();
-
-    const isSameWallet =
-      walletAddress.toLowerCase() === account.address.toLowerCase();
-    const isNotExpired = now - createdAt < AUTH_CACHE_DURATION;
-
-    return isSameWallet && isNotExpired;
-  }, [account]);
-
-  // Function to fetch seller data with optional authentication
+  // Fetch seller data; secrets and dispute evidence are included when the
+  // seller is signed in
   const fetchSellerData = useCallback(
-    async (authenticate: boolean = false): Promise<Listing[] | null> => {
+    async (): Promise<Listing[] | null> => {
       try {
-        const headers: HeadersInit = {};
-
-        // If authenticated and we have valid auth data, include it
-        if (authenticate && authDataRef.current) {
-          headers["x-seller-signature"] = authDataRef.current.signature;
-          headers["x-seller-message"] = btoa(authDataRef.current.message);
-        }
-
-        const response = await fetch(`/api/seller/${address}`, { headers });
+        const response = await fetch(`/api/seller/${address}`);
         const data = await response.json();
         if (data.success) {
           setListings(data.listings || []);
           setSellerStats(data.stats);
+          setSellerDisputes(data.disputes || []);
           return data.listings || [];
         }
         return null;
@@ -1433,12 +1772,12 @@ export default function ProfileClient({ address }: ProfileClientProps) {
     [address]
   );
 
-  // Fetch seller data on page load (without authentication)
+  // Fetch seller data on page load
   useEffect(() => {
-    fetchSellerData(false);
+    fetchSellerData();
   }, [address, fetchSellerData]);
 
-  // Handle edit button click - use cached auth or request new signature
+  // Handle edit button click - signs in first if there is no session
   const handleEditClick = useCallback(
     async (listing: Listing) => {
       if (!account) return;
@@ -1446,42 +1785,10 @@ export default function ProfileClient({ address }: ProfileClientProps) {
       setAuthenticatingListingId(listing._id);
 
       try {
-        // Check if we have valid cached auth
-        if (isAuthCacheValid()) {
-          // Use cached auth - just fetch and open modal
-          const authenticatedListings = await fetchSellerData(true);
-
-          if (authenticatedListings) {
-            const authenticatedListing = authenticatedListings.find(
-              (l) => l._id === listing._id
-            );
-            if (authenticatedListing) {
-              setEditingListing(authenticatedListing);
-            }
-          }
-          setAuthenticatingListingId(null);
-          return;
-        }
-
-        // No valid cache - request new signature
-        const timestamp = Date.now();
-        const message = `Edit my listing on invite.markets\nTimestamp: ${timestamp}\nAddress: ${account.address}`;
-
-        const signature = await signMessage({
-          account,
-          message,
-        });
-
-        // Store with wallet address and timestamp for cache validation
-        authDataRef.current = {
-          signature,
-          message,
-          walletAddress: account.address,
-          createdAt: timestamp,
-        };
+        await ensureSession();
 
         // Fetch authenticated data to get inviteUrl
-        const authenticatedListings = await fetchSellerData(true);
+        const authenticatedListings = await fetchSellerData();
 
         if (authenticatedListings) {
           // Find the listing with inviteUrl included
@@ -1489,25 +1796,37 @@ export default function ProfileClient({ address }: ProfileClientProps) {
             (l) => l._id === listing._id
           );
           if (authenticatedListing) {
+            setEditReloadedAfterConflict(false);
             setEditingListing(authenticatedListing);
           }
         }
       } catch (error) {
-        // User rejected signature - don't open modal
+        // User rejected sign-in - don't open modal
         console.log("Edit authentication cancelled:", error);
       } finally {
         setAuthenticatingListingId(null);
       }
     },
-    [account, fetchSellerData, isAuthCacheValid]
+    [account, fetchSellerData, ensureSession]
+  );
+
+  // A signed update was rejected as stale: reopen the modal with the latest version
+  const handleEditConflict = useCallback(
+    async (slug: string) => {
+      const latestListings = await fetchSellerData();
+      const latest = latestListings?.find((l) => l.slug === slug);
+      setEditReloadedAfterConflict(true);
+      setEditingListing(latest ?? null);
+    },
+    [fetchSellerData]
   );
 
   const handleListingUpdate = useCallback(() => {
-    // Re-fetch with auth if cache is still valid
-    fetchSellerData(isAuthCacheValid());
-  }, [fetchSellerData, isAuthCacheValid]);
+    // Re-fetch (secrets are included while the seller is signed in)
+    fetchSellerData();
+  }, [fetchSellerData]);
 
-  // Handle view code button click - use cached auth or request new signature
+  // Handle view code button click - signs in first if there is no session
   const handleViewCodeClick = useCallback(
     async (purchase: Purchase) => {
       if (!account) return;
@@ -1515,41 +1834,13 @@ export default function ProfileClient({ address }: ProfileClientProps) {
       setRevealingPurchaseId(purchase.id);
 
       try {
-        let signature: string;
-        let message: string;
-
-        // Check if we have valid cached buyer auth
-        if (isBuyerAuthCacheValid() && buyerAuthDataRef.current) {
-          signature = buyerAuthDataRef.current.signature;
-          message = buyerAuthDataRef.current.message;
-        } else {
-          // No valid cache - request new signature
-          const timestamp = Date.now();
-          message = `View my purchase on invite.markets\nTimestamp: ${timestamp}\nAddress: ${account.address}`;
-
-          signature = await signMessage({
-            account,
-            message,
-          });
-
-          // Store with wallet address and timestamp for cache validation
-          buyerAuthDataRef.current = {
-            signature,
-            message,
-            walletAddress: account.address,
-            createdAt: timestamp,
-          };
-        }
+        await ensureSession();
 
         // Call the reveal API
         const response = await fetch("/api/buyer/reveal", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            transactionId: purchase.id,
-            signature,
-            message: btoa(message),
-          }),
+          body: JSON.stringify({ transactionId: purchase.id }),
         });
 
         const data = await response.json();
@@ -1559,25 +1850,305 @@ export default function ProfileClient({ address }: ProfileClientProps) {
           setViewingPurchase(purchase);
         } else {
           console.error("Failed to reveal purchase:", data.error);
-          // If auth failed, clear the cache so user can try again
+          // If the session expired, re-check it so the user can sign in again
           if (response.status === 401) {
-            buyerAuthDataRef.current = null;
+            refreshSession();
           }
         }
       } catch (error) {
-        // User rejected signature - don't show modal
+        // User rejected sign-in - don't show modal
         console.log("View code authentication cancelled:", error);
       } finally {
         setRevealingPurchaseId(null);
       }
     },
-    [account, isBuyerAuthCacheValid]
+    [account, ensureSession, refreshSession]
+  );
+
+  // Open a dispute on a purchase (errors are shown in the dispute modal)
+  const handleOpenDispute = useCallback(
+    async (purchase: Purchase, reason: DisputeReason, evidence: string) => {
+      await ensureSession();
+
+      const response = await fetch("/api/disputes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          transactionId: purchase.id,
+          reason,
+          evidence,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        if (response.status === 401) {
+          refreshSession();
+        }
+        throw new Error(data.error || "Failed to open dispute");
+      }
+
+      setPurchases((prev) =>
+        prev.map((p) =>
+          p.id === purchase.id ? { ...p, disputeStatus: "open" } : p
+        )
+      );
+      setDisputingPurchase(null);
+    },
+    [ensureSession, refreshSession]
+  );
+
+  // Buyer confirms an escrowed purchase worked, releasing payment to the seller
+  // (errors are shown on the purchase card)
+  const handleConfirmDelivery = useCallback(
+    async (purchase: Purchase) => {
+      await ensureSession();
+
+      const response = await fetch("/api/escrow/confirm", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ transactionId: purchase.id }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        if (response.status === 401) {
+          refreshSession();
+        }
+        throw new Error(data.error || "Failed to confirm delivery");
+      }
+
+      setPurchases((prev) =>
+        prev.map((p) =>
+          p.id === purchase.id
+            ? {
+                ...p,
+                escrowStatus: data.escrowStatus,
+                payoutTxHash: data.payoutTxHash,
+                deliveryFeedback: {
+                  worked: true,
+                  submittedAt: new Date().toISOString(),
+                },
+              }
+            : p
+        )
+      );
+    },
+    [ensureSession, refreshSession]
+  );
+
+  // Buyer reports whether a purchased invite worked (errors are shown on the purchase card)
+  const handleDeliveryFeedback = useCallback(
+    async (purchase: Purchase, worked: boolean, comment: string) => {
+      await ensureSession();
+
+      const response = await fetch("/api/buyer/feedback", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          transactionId: purchase.id,
+          worked,
+          comment: comment || undefined,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        if (response.status === 401) {
+          refreshSession();
+        }
+        throw new Error(data.error || "Failed to save feedback");
+      }
+
+      setPurchases((prev) =>
+        prev.map((p) =>
+          p.id === purchase.id
+            ? {
+                ...p,
+                deliveryFeedback: {
+                  worked: data.deliveryFeedback.worked,
+                  submittedAt: data.deliveryFeedback.submittedAt,
+                },
+              }
+            : p
+        )
+      );
+    },
+    [ensureSession, refreshSession]
+  );
+
+  // Sign in once to see dispute evidence and respond
+  const handleUnlockDisputes = useCallback(async () => {
+    setIsUnlockingDisputes(true);
+    try {
+      await ensureSession();
+      await fetchSellerData();
+    } catch (error) {
+      console.log("Dispute authentication cancelled:", error);
+    } finally {
+      setIsUnlockingDisputes(false);
+    }
+  }, [ensureSession, fetchSellerData]);
+
+  const handleRespondToDispute = useCallback(
+    async (dispute: DisputeSummary, responseText: string) => {
+      await ensureSession();
+
+      const response = await fetch(`/api/disputes/${dispute.id}/respond`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ response: responseText }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        if (response.status === 401) {
+          refreshSession();
+        }
+        throw new Error(data.error || "Failed to respond");
+      }
+
+      setSellerDisputes((prev) =>
+        prev.map((d) => (d.id === dispute.id ? data.dispute : d))
+      );
+    },
+    [ensureSession, refreshSession]
+  );
+
+  // Seller accepts an offer on one of their listings (errors are shown on the offer)
+  const handleAcceptOffer = useCallback(
+    async (offer: OfferSummary, listingSlug: string) => {
+      if (!account) throw new Error("Please connect your wallet first");
+
+      const nonce = BigInt(Date.now());
+      const message: AcceptOfferMessage = {
+        offerId: offer.id,
+        listingSlug,
+        sellerAddress: account.address as `0x${string}`,
+        nonce,
+      };
+
+      const signature = await account.signTypedData({
+        domain: getEIP712Domain(chainId),
+        types: EIP712_ACCEPT_OFFER_TYPES,
+        primaryType: "AcceptOffer" as const,
+        message,
+      });
+
+      const response = await fetch(`/api/offers/${offer.id}/accept`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          listingSlug,
+          sellerAddress: account.address,
+          nonce: nonce.toString(),
+          chainId,
+          signature,
+        }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || "Failed to accept offer");
+      }
+
+      setIncomingOffers((prev) =>
+        prev.map((o) => (o.id === offer.id ? data.offer : o))
+      );
+    },
+    [account]
+  );
+
+  // Buyer withdraws an open or accepted offer
+  const handleCancelOffer = useCallback(
+    async (offer: OfferSummary) => {
+      if (!account) throw new Error("Please connect your wallet first");
+
+      const nonce = BigInt(Date.now());
+      const message: CancelOfferMessage = {
+        offerId: offer.id,
+        buyerAddress: account.address as `0x${string}`,
+        nonce,
+      };
+
+      const signature = await account.signTypedData({
+        domain: getEIP712Domain(chainId),
+        types: EIP712_CANCEL_OFFER_TYPES,
+        primaryType: "CancelOffer" as const,
+        message,
+      });
+
+      const response = await fetch(`/api/offers/${offer.id}/cancel`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          buyerAddress: account.address,
+          nonce: nonce.toString(),
+          chainId,
+          signature,
+        }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || "Failed to cancel offer");
+      }
+
+      setMyOffers((prev) =>
+        prev.map((o) => (o.id === offer.id ? data.offer : o))
+      );
+    },
+    [account]
+  );
+
+  // Buyer pays for an accepted offer at the offer price
+  const handlePayOffer = useCallback(
+    async (offer: OfferSummary) => {
+      if (!offer.acceptedListingSlug || !offer.acceptedBy) return;
+
+      setPayingOfferId(offer.id);
+      try {
+        const result = await purchase(
+          offer.acceptedListingSlug,
+          offer.acceptedBy,
+          { offerId: offer.id }
+        );
+        if (result) {
+          fetchPurchases();
+          fetchProfileOffers();
+        }
+      } finally {
+        setPayingOfferId(null);
+      }
+    },
+    [purchase, fetchPurchases, fetchProfileOffers]
   );
 
   const trustLevelConfig = ethosData
     ? getTrustLevelConfig(ethosData.level)
     : null;
   const activeListings = listings.filter((l) => l.status === "active");
+  // Only the seller sees expired and paused listings, to renew or fix them
+  const expiredListings = isOwnProfile
+    ? listings.filter((l) => l.status === "expired" || l.status === "paused")
+    : [];
+  const offerListingOptions = activeListings
+    .filter((l) => isListingAvailable(l) && !l.reservedFor)
+    .map((l) => ({
+      slug: l.slug,
+      label: getAppDisplayName(l.appId, l.appName, l.slug),
+      priceUsdc: l.priceUsdc,
+      appId: l.appId,
+    }));
+  const offerAppNames = new Map(
+    [...incomingOffers, ...myOffers]
+      .filter((offer) => offer.appId && offer.appName)
+      .map((offer) => [offer.appId!, offer.appName!])
+  );
+  const getOfferAppName = (appId: string) =>
+    getAppDisplayName(appId, offerAppNames.get(appId));
 
   return (
     <div className="min-h-screen text-zinc-100">
@@ -1861,6 +2432,27 @@ export default function ProfileClient({ address }: ProfileClientProps) {
                 </a>
               )}
 
+              {/* Buyer-reported delivery success rate */}
+              {sellerStats?.delivery && sellerStats.delivery.rate !== null && (
+                <div
+                  className="inline-flex items-center gap-2 sm:gap-3 px-3 sm:px-4 py-2.5 sm:py-3 rounded-xl bg-zinc-900/50 border border-zinc-800"
+                  title="Share of buyers who reported this seller's invites worked"
+                >
+                  <span className="text-base sm:text-lg font-bold text-emerald-400">
+                    {formatDeliveryRate(sellerStats.delivery.rate)}
+                  </span>
+                  <div className="h-4 w-px bg-zinc-700" />
+                  <span className="text-xs sm:text-sm font-semibold text-zinc-400">
+                    delivered ·{" "}
+                    {sellerStats.delivery.worked + sellerStats.delivery.failed}{" "}
+                    {sellerStats.delivery.worked + sellerStats.delivery.failed ===
+                    1
+                      ? "report"
+                      : "reports"}
+                  </span>
+                </div>
+              )}
+
               {/* Rate on Ethos button */}
               <EthosRateButton
                 address={address}
@@ -1893,6 +2485,16 @@ export default function ProfileClient({ address }: ProfileClientProps) {
                       ${sellerStats.totalRevenue.toFixed(2)}
                     </p>
                   </div>
+                  {!!sellerStats.disputes?.total && (
+                    <p className="col-span-2 text-xs text-zinc-500">
+                      {sellerStats.disputes.total} disputed{" "}
+                      {sellerStats.disputes.total === 1 ? "sale" : "sales"} ·{" "}
+                      {sellerStats.disputes.refunded} refunded ·{" "}
+                      {sellerStats.disputes.rejected} rejected
+                      {sellerStats.disputes.open > 0 &&
+                        ` · ${sellerStats.disputes.open} open`}
+                    </p>
+                  )}
                 </motion.div>
               )}
           </div>
@@ -1964,11 +2566,47 @@ export default function ProfileClient({ address }: ProfileClientProps) {
                 </span>
               )}
             </button>
+            {/* Sales analytics are private to the seller */}
+            {isOwnProfile && (
+              <button
+                onClick={() => setActiveTab("analytics")}
+                className={`flex-1 flex items-center justify-center gap-1.5 sm:gap-2 px-2 sm:px-4 py-2.5 sm:py-3 rounded-lg font-medium text-xs sm:text-sm transition-all cursor-pointer ${
+                  activeTab === "analytics"
+                    ? "bg-zinc-800 text-white shadow-sm"
+                    : "text-zinc-400 hover:text-zinc-300 hover:bg-zinc-800/50"
+                }`}
+              >
+                <svg
+                  className="w-4 h-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z"
+                  />
+                </svg>
+                <span>Analytics</span>
+              </button>
+            )}
           </div>
 
           {/* Tab Content */}
           <AnimatePresence mode="wait">
-            {activeTab === "listings" ? (
+            {activeTab === "analytics" && isOwnProfile ? (
+              <motion.div
+                key="analytics"
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -10 }}
+                transition={{ duration: 0.2 }}
+              >
+                <SellerAnalyticsSection address={address} />
+              </motion.div>
+            ) : activeTab === "listings" ? (
               <motion.div
                 key="listings"
                 initial={{ opacity: 0, y: 10 }}
@@ -1985,15 +2623,16 @@ export default function ProfileClient({ address }: ProfileClientProps) {
                       />
                     ))}
                   </div>
-                ) : activeListings.length > 0 ? (
+                ) : activeListings.length > 0 || expiredListings.length > 0 ? (
                   <div className="space-y-3">
-                    {activeListings.map((listing) => (
+                    {[...activeListings, ...expiredListings].map((listing) => (
                       <ListingCard
                         key={listing._id}
                         listing={listing}
                         isOwner={isOwnProfile}
                         onEdit={() => handleEditClick(listing)}
                         onDelete={handleListingUpdate}
+                        onConflict={handleListingUpdate}
                         account={account}
                         chainId={chainId}
                         isAuthenticating={
@@ -2047,6 +2686,21 @@ export default function ProfileClient({ address }: ProfileClientProps) {
                     )}
                   </div>
                 )}
+                <IncomingOffersSection
+                  offers={incomingOffers}
+                  listingOptions={offerListingOptions}
+                  isOwner={isOwnProfile}
+                  getAppName={getOfferAppName}
+                  onAccept={handleAcceptOffer}
+                />
+                <SellerDisputesSection
+                  disputes={sellerDisputes}
+                  isOwner={isOwnProfile}
+                  hasDetails={sellerDisputes.some((d) => d.evidence)}
+                  isUnlocking={isUnlockingDisputes}
+                  onUnlock={handleUnlockDisputes}
+                  onRespond={handleRespondToDispute}
+                />
               </motion.div>
             ) : (
               <motion.div
@@ -2056,6 +2710,14 @@ export default function ProfileClient({ address }: ProfileClientProps) {
                 exit={{ opacity: 0, y: -10 }}
                 transition={{ duration: 0.2 }}
               >
+                <MyOffersSection
+                  offers={myOffers}
+                  isOwner={isOwnProfile}
+                  payingOfferId={payingOfferId}
+                  getAppName={getOfferAppName}
+                  onCancel={handleCancelOffer}
+                  onPay={handlePayOffer}
+                />
                 {purchasesLoading ? (
                   <div className="space-y-3">
                     {[1, 2, 3].map((i) => (
@@ -2077,6 +2739,13 @@ export default function ProfileClient({ address }: ProfileClientProps) {
                         )}
                         isOwner={isOwnProfile}
                         onViewCode={() => handleViewCodeClick(purchase)}
+                        onDispute={() => setDisputingPurchase(purchase)}
+                        onConfirmDelivery={() =>
+                          handleConfirmDelivery(purchase)
+                        }
+                        onDeliveryFeedback={(worked, comment) =>
+                          handleDeliveryFeedback(purchase, worked, comment)
+                        }
                         isRevealing={revealingPurchaseId === purchase.id}
                       />
                     ))}
@@ -2131,12 +2800,16 @@ export default function ProfileClient({ address }: ProfileClientProps) {
       <AnimatePresence>
         {editingListing && (
           <EditListingModal
+            // Remount with fresh form values when a newer version is loaded
+            key={`${editingListing._id}-${editingListing.version ?? 0}`}
             listing={editingListing}
             onClose={() => setEditingListing(null)}
             onUpdate={() => {
               handleListingUpdate();
               setEditingListing(null);
             }}
+            onConflict={() => handleEditConflict(editingListing.slug)}
+            reloadedAfterConflict={editReloadedAfterConflict}
             account={account}
             chainId={chainId}
           />
@@ -2155,6 +2828,30 @@ export default function ProfileClient({ address }: ProfileClientProps) {
           />
         )}
       </AnimatePresence>
+
+      <AnimatePresence>
+        {disputingPurchase && (
+          <OpenDisputeModal
+            appDisplayName={getAppDisplayName(
+              disputingPurchase.appId,
+              disputingPurchase.appName,
+              disputingPurchase.listingSlug
+            )}
+            onClose={() => setDisputingPurchase(null)}
+            onSubmit={(reason, evidence) =>
+              handleOpenDispute(disputingPurchase, reason, evidence)
+            }
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Payment Success Modal for offers paid from this page */}
+      <PaymentSuccessModal
+        isOpen={showSuccessModal}
+        purchaseData={purchaseData}
+        sellerAddress={purchasedSellerAddress}
+        onClose={closeSuccessModal}
+      />
     </div>
   );
 }
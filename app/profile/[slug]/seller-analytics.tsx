@@ -0,0 +1,491 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { BarChart3, Download, Loader2, Lock } from "lucide-react";
+import { useSession } from "@/hooks/useSession";
+import { formatDuration } from "@/lib/time";
+import {
+  ANALYTICS_RANGES,
+  type AnalyticsBucket,
+  type AnalyticsRange,
+} from "@/lib/market-analytics";
+import {
+  DEFAULT_SELLER_ANALYTICS_RANGE,
+  SELLER_EXPORT_FORMATS,
+  type ListingPerformance,
+  type RepeatBuyer,
+  type SellerAnalytics,
+  type SellerExportFormat,
+} from "@/lib/seller-analytics";
+
+const RANGE_LABELS: Record<AnalyticsRange, string> = {
+  "24h": "24H",
+  "7d": "7D",
+  "30d": "30D",
+  "90d": "90D",
+  "1y": "1Y",
+  all: "All",
+};
+
+const TOOLTIP_STYLE = {
+  backgroundColor: "#18181b",
+  border: "1px solid #3f3f46",
+  borderRadius: "8px",
+  padding: "8px 12px",
+  fontSize: "12px",
+};
+
+class SellerAnalyticsError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+  }
+}
+
+async function fetchSellerAnalytics(
+  address: string,
+  range: AnalyticsRange
+): Promise<SellerAnalytics> {
+  const params = new URLSearchParams({ range });
+  const response = await fetch(`/api/seller/${address}/analytics?${params}`);
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new SellerAnalyticsError(
+      data.error || "Failed to fetch analytics",
+      response.status
+    );
+  }
+
+  return data.analytics;
+}
+
+function formatUsdc(value: number): string {
+  return `$${value.toLocaleString("en-US", { maximumFractionDigits: 2 })}`;
+}
+
+function formatBucketDate(start: string, bucket: AnalyticsBucket): string {
+  const d = new Date(start);
+  return bucket === "hour"
+    ? d.toLocaleTimeString("en-US", { hour: "numeric" })
+    : d.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+function StatCard({
+  label,
+  value,
+  detail,
+}: {
+  label: string;
+  value: string;
+  detail?: string;
+}) {
+  return (
+    <div className="rounded-xl bg-zinc-950 border border-zinc-800 p-4 flex flex-col">
+      <div className="text-xs text-zinc-500 mb-1">{label}</div>
+      <div className="text-xl sm:text-2xl font-bold text-white">{value}</div>
+      {detail && <div className="text-xs text-zinc-500 mt-1">{detail}</div>}
+    </div>
+  );
+}
+
+function Panel({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="rounded-xl bg-zinc-950 border border-zinc-800 overflow-hidden">
+      <div className="px-4 sm:px-5 py-3 sm:py-4 border-b border-zinc-800">
+        <h3 className="text-sm sm:text-base font-bold text-white">{title}</h3>
+      </div>
+      <div className="p-4 sm:p-5">{children}</div>
+    </div>
+  );
+}
+
+function EmptyRow({ children }: { children: React.ReactNode }) {
+  return <p className="py-8 text-center text-sm text-zinc-500">{children}</p>;
+}
+
+function FloorBadge({ listing }: { listing: ListingPerformance }) {
+  if (listing.priceVsFloor === null) {
+    return <span className="text-zinc-600">—</span>;
+  }
+  if (listing.priceVsFloor === 0) {
+    return <span className="text-emerald-400">At floor</span>;
+  }
+
+  return (
+    <span
+      className={
+        listing.priceVsFloor > 0 ? "text-amber-400" : "text-emerald-400"
+      }
+      title={`Floor ${formatUsdc(listing.appFloor ?? 0)}`}
+    >
+      {listing.priceVsFloor > 0 ? "+" : ""}
+      {listing.priceVsFloor}%
+    </span>
+  );
+}
+
+function ListingPerformanceTable({
+  listings,
+}: {
+  listings: ListingPerformance[];
+}) {
+  if (listings.length === 0) {
+    return <EmptyRow>No listings yet</EmptyRow>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-zinc-500">
+            <th className="pb-3 font-medium">Listing</th>
+            <th className="pb-3 font-medium text-right">Price</th>
+            <th className="pb-3 font-medium text-right">vs Floor</th>
+            <th className="pb-3 font-medium text-right">Sold</th>
+            <th className="pb-3 font-medium text-right">Revenue</th>
+            <th className="pb-3 font-medium text-right">Time to Sell</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-zinc-800/60">
+          {listings.map((listing) => (
+            <tr key={listing.slug}>
+              <td className="py-3 pr-3">
+                <Link
+                  href={`/listing/${listing.slug}`}
+                  className="font-medium text-white hover:text-cyan-400 transition-colors"
+                >
+                  {listing.appName}
+                </Link>
+                <div className="text-xs text-zinc-500 capitalize">
+                  {listing.status}
+                </div>
+              </td>
+              <td className="py-3 text-right text-zinc-300 tabular-nums">
+                {formatUsdc(listing.priceUsdc)}
+              </td>
+              <td className="py-3 text-right tabular-nums">
+                <FloorBadge listing={listing} />
+              </td>
+              <td className="py-3 text-right tabular-nums">
+                <div className="text-zinc-300">
+                  {listing.purchaseCount}
+                  {listing.maxUses === -1 ? "" : ` / ${listing.maxUses}`}
+                </div>
+                {listing.conversion !== null && (
+                  <div className="text-xs text-zinc-500">
+                    {Math.round(listing.conversion * 100)}%
+                  </div>
+                )}
+              </td>
+              <td className="py-3 text-right text-white font-semibold tabular-nums">
+                {formatUsdc(listing.revenue)}
+              </td>
+              <td className="py-3 text-right text-zinc-300 tabular-nums">
+                {listing.avgTimeToSaleMs === null
+                  ? "—"
+                  : formatDuration(listing.avgTimeToSaleMs)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function RepeatBuyerList({ buyers }: { buyers: RepeatBuyer[] }) {
+  if (buyers.length === 0) {
+    return <EmptyRow>No repeat buyers in this range</EmptyRow>;
+  }
+
+  return (
+    <ol className="flex flex-col gap-3">
+      {buyers.map((buyer) => (
+        <li key={buyer.address} className="flex items-center gap-3">
+          <Link
+            href={`/profile/${buyer.address}`}
+            className="flex-1 min-w-0 font-mono text-sm text-zinc-400 hover:text-cyan-400 transition-colors truncate"
+          >
+            {shortAddress(buyer.address)}
+          </Link>
+          <div className="text-right">
+            <div className="text-sm font-semibold text-white">
+              {formatUsdc(buyer.spent)}
+            </div>
+            <div className="text-xs text-zinc-500">
+              {buyer.purchases} purchases · last{" "}
+              {new Date(buyer.lastPurchaseAt).toLocaleDateString()}
+            </div>
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+/**
+ * The seller's own analytics on their profile: revenue over time, listing
+ * conversion and floor comparison, repeat buyers and an export of every sale.
+ * Requires the seller to sign in.
+ */
+export function SellerAnalyticsSection({ address }: { address: string }) {
+  const { isSignedIn, ensureSession, refreshSession } = useSession();
+  const [range, setRange] = useState<AnalyticsRange>(
+    DEFAULT_SELLER_ANALYTICS_RANGE
+  );
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [exporting, setExporting] = useState<SellerExportFormat | null>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["seller-analytics", address.toLowerCase(), range],
+    queryFn: async () => {
+      try {
+        return await fetchSellerAnalytics(address, range);
+      } catch (error) {
+        // The session expired or was signed out elsewhere
+        if (error instanceof SellerAnalyticsError && error.status === 401) {
+          refreshSession();
+        }
+        throw error;
+      }
+    },
+    enabled: isSignedIn,
+    placeholderData: keepPreviousData,
+    retry: false,
+  });
+
+  const handleSignIn = async () => {
+    setIsSigningIn(true);
+    try {
+      await ensureSession();
+    } catch (error) {
+      console.log("Analytics authentication cancelled:", error);
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  const exportSales = async (format: SellerExportFormat) => {
+    setExporting(format);
+    try {
+      const params = new URLSearchParams({ format });
+      const response = await fetch(
+        `/api/seller/${address}/analytics?${params}`
+      );
+      if (!response.ok) {
+        if (response.status === 401) refreshSession();
+        throw new Error("Export failed");
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `sales-${new Date().toISOString().split("T")[0]}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to export sales:", error);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  if (!isSignedIn) {
+    return (
+      <div className="rounded-xl bg-zinc-950/50 border border-zinc-800/50 p-8 text-center">
+        <div className="w-16 h-16 rounded-full bg-zinc-800/50 flex items-center justify-center mx-auto mb-4">
+          <Lock className="w-8 h-8 text-zinc-600" />
+        </div>
+        <p className="text-zinc-500">
+          Sign in with your wallet to see your sales analytics.
+        </p>
+        <button
+          onClick={handleSignIn}
+          disabled={isSigningIn}
+          className="inline-flex items-center gap-2 mt-4 px-4 py-2 rounded-lg bg-cyan-500/10 border border-cyan-500/30 text-cyan-400 text-sm font-medium hover:bg-cyan-500/20 transition-colors cursor-pointer disabled:opacity-50"
+        >
+          {isSigningIn && <Loader2 className="w-4 h-4 animate-spin" />}
+          {isSigningIn ? "Signing..." : "Sign In"}
+        </button>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="w-8 h-8 text-zinc-500 animate-spin" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <EmptyRow>
+        {error instanceof Error ? error.message : "Failed to load analytics"}
+      </EmptyRow>
+    );
+  }
+
+  const { summary } = data;
+  const chartData = data.revenueSeries.map((point) => ({
+    ...point,
+    label: formatBucketDate(point.start, data.bucket),
+  }));
+
+  return (
+    <div className="flex flex-col gap-4 sm:gap-6">
+      {/* Range and export */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex gap-1 p-1 rounded-lg bg-zinc-900/50 border border-zinc-800">
+          {ANALYTICS_RANGES.map((value) => (
+            <button
+              key={value}
+              onClick={() => setRange(value)}
+              className={`px-2.5 sm:px-3 py-1.5 rounded-md text-xs font-medium transition-colors cursor-pointer ${
+                range === value
+                  ? "bg-zinc-800 text-white"
+                  : "text-zinc-400 hover:text-zinc-300"
+              }`}
+            >
+              {RANGE_LABELS[value]}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          {SELLER_EXPORT_FORMATS.map((format) => (
+            <button
+              key={format}
+              onClick={() => exportSales(format)}
+              disabled={exporting !== null}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-zinc-900 border border-zinc-800 hover:border-zinc-700 text-xs font-medium text-zinc-400 hover:text-zinc-100 transition-colors cursor-pointer disabled:opacity-50"
+            >
+              {exporting === format ? (
+                <Loader2 className="w-3 h-3 animate-spin" />
+              ) : (
+                <Download className="w-3 h-3" />
+              )}
+              Export {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        <StatCard
+          label="Revenue"
+          value={formatUsdc(summary.revenue)}
+          detail={`${summary.sales} ${summary.sales === 1 ? "sale" : "sales"}`}
+        />
+        <StatCard
+          label="Buyers"
+          value={`${summary.uniqueBuyers}`}
+          detail={`${summary.repeatBuyers} repeat`}
+        />
+        <StatCard
+          label="Repeat Buyer Revenue"
+          value={formatUsdc(summary.repeatBuyerRevenue)}
+        />
+        <StatCard
+          label="Avg Time to Sell"
+          value={
+            summary.avgTimeToSaleMs === null
+              ? "—"
+              : formatDuration(summary.avgTimeToSaleMs)
+          }
+        />
+      </div>
+
+      {/* Revenue over time */}
+      <Panel title="Revenue">
+        {summary.sales === 0 ? (
+          <EmptyRow>No sales in this range</EmptyRow>
+        ) : (
+          <ResponsiveContainer width="100%" height={240}>
+            <AreaChart data={chartData}>
+              <defs>
+                <linearGradient id="sellerRevenue" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#06b6d4" stopOpacity={0.4} />
+                  <stop offset="95%" stopColor="#06b6d4" stopOpacity={0} />
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
+              <XAxis
+                dataKey="label"
+                stroke="#71717a"
+                style={{ fontSize: "12px" }}
+                tick={{ fill: "#71717a" }}
+                minTickGap={24}
+              />
+              <YAxis
+                stroke="#71717a"
+                style={{ fontSize: "12px" }}
+                tick={{ fill: "#71717a" }}
+                tickFormatter={(value) => `$${value}`}
+                width={48}
+              />
+              <Tooltip
+                contentStyle={TOOLTIP_STYLE}
+                labelStyle={{ color: "#a1a1aa" }}
+                formatter={(value, name) =>
+                  name === "revenue"
+                    ? [formatUsdc(Number(value)), "Revenue"]
+                    : [value, "Sales"]
+                }
+              />
+              <Area
+                type="monotone"
+                dataKey="revenue"
+                stroke="#06b6d4"
+                strokeWidth={2}
+                fill="url(#sellerRevenue)"
+              />
+            </AreaChart>
+          </ResponsiveContainer>
+        )}
+      </Panel>
+
+      {/* Listings */}
+      <Panel title="Listing Performance">
+        <ListingPerformanceTable listings={data.listings} />
+      </Panel>
+
+      {/* Repeat buyers */}
+      <Panel title="Repeat Buyers">
+        <RepeatBuyerList buyers={data.repeatBuyers} />
+      </Panel>
+
+      <p className="flex items-center gap-1.5 text-xs text-zinc-600">
+        <BarChart3 className="w-3 h-3" />
+        Listing performance covers each listing&apos;s whole history; the
+        floor is the lowest available ask for the app.
+      </p>
+    </div>
+  );
+}
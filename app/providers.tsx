@@ -4,6 +4,7 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { useState } from "react";
 import { ThirdwebProvider } from "thirdweb/react";
 import { ToastProvider } from "@/app/components/Toast";
+import { OfferNotifier } from "@/app/components/OfferNotifier";
 import { AccessGateProvider } from "@/app/components/AccessGateProvider";
 import { FarcasterProvider } from "@/app/components/FarcasterProvider";
 import { ThemeProvider } from "@/app/contexts/ThemeContext";
@@ -17,6 +18,7 @@ export function Providers({ children }: { children: React.ReactNode }) {
         <QueryClientProvider client={queryClient}>
           <FarcasterProvider>
             <ToastProvider>
+              <OfferNotifier />
               <AccessGateProvider>{children}</AccessGateProvider>
             </ToastProvider>
           </FarcasterProvider>
@@ -5,17 +5,17 @@ import { useQuery } from "@tanstack/react-query";
 import Link from "next/link";
 import Image from "next/image";
 import { motion } from "framer-motion";
-import { featuredApps } from "@/data/featuredApps";
 import { getGradientForApp } from "@/lib/listings";
 import {
   useResolveAddresses,
   getSellerDisplayInfo,
 } from "@/lib/resolve-addresses";
 import { blo } from "blo";
+import { TxReceiptLink } from "@/app/components/TxReceiptLink";
 
 interface Transaction {
   _id: string;
-  txHash: string;
+  txHash?: string;
   listingSlug: string;
   sellerAddress: string;
   buyerAddress: string;
@@ -45,13 +45,8 @@ const AUTO_REFRESH_INTERVAL = 30;
 type SortField = "app" | "time" | "price";
 type SortDirection = "asc" | "desc";
 
+// /api/sales resolves names from the App registry
 function resolveAppName(transaction: Transaction): string {
-  if (transaction.appId) {
-    const featuredApp = featuredApps.find((app) => app.id === transaction.appId);
-    if (featuredApp) {
-      return featuredApp.appName;
-    }
-  }
   return transaction.appName || transaction.appId || "App";
 }
 
@@ -841,10 +836,11 @@ export default function SalesClient() {
                           </div>
 
                           {/* Time */}
-                          <div className="flex items-center">
+                          <div className="flex flex-col justify-center">
                             <p className="text-sm font-medium text-zinc-300">
                               {formatDate(tx.createdAt)}
                             </p>
+                            <TxReceiptLink txHash={tx.txHash} />
                           </div>
 
                           {/* Buyer */}
@@ -977,9 +973,12 @@ export default function SalesClient() {
                               >
                                 {appName}
                               </Link>
-                              <p className="text-sm text-zinc-400 mt-1">
-                                {formatDate(tx.createdAt)}
-                              </p>
+                              <div className="flex items-center gap-3 mt-1">
+                                <p className="text-sm text-zinc-400">
+                                  {formatDate(tx.createdAt)}
+                                </p>
+                                <TxReceiptLink txHash={tx.txHash} />
+                              </div>
                             </div>
                           </div>
 
@@ -11,13 +11,21 @@ import { useQueryClient } from "@tanstack/react-query";
 import {
   getEIP712Domain,
   EIP712_TYPES,
+  EIP712_CODE_POOL_TYPES,
+  hashCodePool,
+  parseCodePoolInput,
   type ListingMessage,
+  type CodePoolListingMessage,
   type ListingType,
 } from "@/lib/signature";
-import { getFeaturedAppsForChain } from "@/data/featuredApps";
 import { LISTINGS_QUERY_KEY } from "@/hooks/usePurchase";
 import { type Listing, type ListingsData } from "@/lib/listings";
 import { chainId, isTestnet } from "@/lib/chain";
+import {
+  LISTING_EXPIRY_OPTIONS,
+  getListingExpiry,
+} from "@/lib/listing-expiry";
+import { validateListingFormat, type AppFormat } from "@/lib/listing-format";
 
 const thirdwebChain = isTestnet ? baseSepolia : base;
 
@@ -30,6 +38,8 @@ interface ExistingApp {
   name: string;
   iconUrl: string;
   isFeatured: boolean;
+  // Link and code rules for the app's listings
+  format?: AppFormat;
 }
 
 export default function SellClient() {
@@ -52,8 +62,12 @@ export default function SellClient() {
     appInput: "",
     maxUses: "1", // Default to single use
     description: "",
+    codePool: "", // One code per line, when selling a distinct code to each buyer
+    expiryDays: "0", // Days until the listing expires ("0" = never)
   });
   const [isUnlimitedUses, setIsUnlimitedUses] = useState(false);
+  // access_code only: hand each buyer their own code instead of a shared one
+  const [isCodePool, setIsCodePool] = useState(false);
   const [isUsesExpanded, setIsUsesExpanded] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState("");
@@ -63,6 +77,7 @@ export default function SellClient() {
     id: string;
     appName: string;
     appIconUrl?: string;
+    format?: AppFormat;
   } | null>(null);
   const [highlightedIndex, setHighlightedIndex] = useState(0);
   const [isValueConfirmed, setIsValueConfirmed] = useState(false);
@@ -79,11 +94,7 @@ export default function SellClient() {
         const response = await fetch("/api/apps");
         const data = await response.json();
         if (data.success) {
-          // Filter out featured apps (we show them separately)
-          const nonFeaturedApps = data.apps.filter(
-            (app: ExistingApp) => !app.isFeatured
-          );
-          setExistingApps(nonFeaturedApps);
+          setExistingApps(data.apps);
         }
       } catch (error) {
         console.error("Error fetching existing apps:", error);
@@ -93,14 +104,17 @@ export default function SellClient() {
     fetchExistingApps();
   }, []);
 
-  // Filter featured apps based on input (already filtered by chain)
-  const filteredFeaturedApps = getFeaturedAppsForChain().filter((app) =>
-    app.appName.toLowerCase().includes(formData.appInput.toLowerCase())
+  // Filter apps based on input (featured apps are already filtered by chain
+  // and shown in their own section)
+  const filteredFeaturedApps = existingApps.filter(
+    (app) =>
+      app.isFeatured &&
+      app.name.toLowerCase().includes(formData.appInput.toLowerCase())
   );
-
-  // Filter existing apps based on input
-  const filteredExistingApps = existingApps.filter((app) =>
-    app.name.toLowerCase().includes(formData.appInput.toLowerCase())
+  const filteredExistingApps = existingApps.filter(
+    (app) =>
+      !app.isFeatured &&
+      app.name.toLowerCase().includes(formData.appInput.toLowerCase())
   );
 
   // Create dropdown items list with sections
@@ -109,6 +123,7 @@ export default function SellClient() {
       id: string;
       appName: string;
       appIconUrl?: string;
+      format?: AppFormat;
       section: "featured" | "existing" | "custom";
     }[] = [];
 
@@ -116,8 +131,9 @@ export default function SellClient() {
     for (const app of filteredFeaturedApps) {
       items.push({
         id: app.id,
-        appName: app.appName,
-        appIconUrl: app.appIconUrl,
+        appName: app.name,
+        appIconUrl: app.iconUrl,
+        format: app.format,
         section: "featured",
       });
     }
@@ -128,6 +144,7 @@ export default function SellClient() {
         id: app.id,
         appName: app.name,
         appIconUrl: app.iconUrl,
+        format: app.format,
         section: "existing",
       });
     }
@@ -208,6 +225,42 @@ export default function SellClient() {
     }
   }, [createdSlug, router]);
 
+  // Codes entered for a code pool, one per line
+  const codePool = useMemo(
+    () => parseCodePoolInput(formData.codePool),
+    [formData.codePool]
+  );
+  const sellsCodePool = listingType === "access_code" && isCodePool;
+
+  // Checks the link and codes against the picked app's rules as the seller types
+  // (the server enforces the same rules, and checks custom apps' domains).
+  // A typed name can still match an app in the registry.
+  const typedApp = existingApps.find(
+    (app) =>
+      app.name.toLowerCase() === formData.appInput.trim().toLowerCase()
+  );
+  const formatApp = {
+    app: selectedApp
+      ? { name: selectedApp.appName, format: selectedApp.format }
+      : typedApp
+        ? { name: typedApp.name, format: typedApp.format }
+        : null,
+    listingType,
+  };
+  const urlFormatError = validateListingFormat({
+    ...formatApp,
+    inviteUrl: formData.inviteUrl || undefined,
+    appUrl: formData.appUrl || undefined,
+  });
+  const codeFormatError = validateListingFormat({
+    ...formatApp,
+    accessCodes: sellsCodePool
+      ? codePool
+      : formData.accessCode
+        ? [formData.accessCode]
+        : [],
+  });
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
@@ -233,42 +286,85 @@ export default function SellClient() {
         setError("Please enter the app URL");
         return;
       }
-      if (!formData.accessCode) {
+      if (isCodePool) {
+        if (codePool.length === 0) {
+          setError("Please enter at least one access code");
+          return;
+        }
+        if (new Set(codePool).size !== codePool.length) {
+          setError("Each access code in the pool must be different");
+          return;
+        }
+      } else if (!formData.accessCode) {
         setError("Please enter the access code");
         return;
       }
     }
 
+    const formatError = urlFormatError || codeFormatError;
+    if (formatError) {
+      setError(formatError);
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
       const nonce = BigInt(Date.now());
+      const expiresAt = getListingExpiry(parseInt(formData.expiryDays, 10));
 
       // Calculate maxUses value: -1 for unlimited, or the entered number
-      const maxUsesValue = isUnlimitedUses
-        ? -1
-        : parseInt(formData.maxUses, 10) || 1;
-
-      const message: ListingMessage = {
-        listingType,
-        inviteUrl: listingType === "invite_link" ? formData.inviteUrl : "",
-        appUrl: listingType === "access_code" ? formData.appUrl : "",
-        accessCode: listingType === "access_code" ? formData.accessCode : "",
-        priceUsdc: formData.priceUsdc,
-        sellerAddress: address as `0x${string}`,
-        appId: selectedApp ? selectedApp.id : "",
-        appName: selectedApp ? "" : formData.appInput.trim(),
-        maxUses: maxUsesValue.toString(),
-        nonce,
-      };
+      // (a code pool sells exactly one use per code)
+      const maxUsesValue = sellsCodePool
+        ? codePool.length
+        : isUnlimitedUses
+          ? -1
+          : parseInt(formData.maxUses, 10) || 1;
 
-      // Sign typed data using thirdweb account
-      const signature = await account.signTypedData({
-        domain: getEIP712Domain(chainId),
-        types: EIP712_TYPES,
-        primaryType: "CreateListing" as const,
-        message,
-      });
+      let signature: `0x${string}`;
+      if (sellsCodePool) {
+        // Sign a hash of the codes; the codes themselves go in the request body
+        const message: CodePoolListingMessage = {
+          appUrl: formData.appUrl,
+          codePoolHash: hashCodePool(codePool),
+          codeCount: codePool.length.toString(),
+          priceUsdc: formData.priceUsdc,
+          sellerAddress: address as `0x${string}`,
+          appId: selectedApp ? selectedApp.id : "",
+          appName: selectedApp ? "" : formData.appInput.trim(),
+          expiresAt: BigInt(expiresAt),
+          nonce,
+        };
+
+        signature = await account.signTypedData({
+          domain: getEIP712Domain(chainId),
+          types: EIP712_CODE_POOL_TYPES,
+          primaryType: "CreateCodePoolListing" as const,
+          message,
+        });
+      } else {
+        const message: ListingMessage = {
+          listingType,
+          inviteUrl: listingType === "invite_link" ? formData.inviteUrl : "",
+          appUrl: listingType === "access_code" ? formData.appUrl : "",
+          accessCode: listingType === "access_code" ? formData.accessCode : "",
+          priceUsdc: formData.priceUsdc,
+          sellerAddress: address as `0x${string}`,
+          appId: selectedApp ? selectedApp.id : "",
+          appName: selectedApp ? "" : formData.appInput.trim(),
+          maxUses: maxUsesValue.toString(),
+          expiresAt: BigInt(expiresAt),
+          nonce,
+        };
+
+        // Sign typed data using thirdweb account
+        signature = await account.signTypedData({
+          domain: getEIP712Domain(chainId),
+          types: EIP712_TYPES,
+          primaryType: "CreateListing" as const,
+          message,
+        });
+      }
 
       const response = await fetch("/api/listings", {
         method: "POST",
@@ -281,7 +377,10 @@ export default function SellClient() {
             listingType === "invite_link" ? formData.inviteUrl : undefined,
           appUrl: listingType === "access_code" ? formData.appUrl : undefined,
           accessCode:
-            listingType === "access_code" ? formData.accessCode : undefined,
+            listingType === "access_code" && !sellsCodePool
+              ? formData.accessCode
+              : undefined,
+          codes: sellsCodePool ? codePool : undefined,
           priceUsdc: parseFloat(formData.priceUsdc),
           sellerAddress: address,
           nonce: nonce.toString(),
@@ -289,7 +388,8 @@ export default function SellClient() {
           signature,
           maxUses: maxUsesValue,
           description: formData.description.trim() || undefined,
-          // Send appId for featured apps, appName for custom apps
+          expiresAt,
+          // Send appId for apps picked from the list, appName for new ones
           ...(selectedApp
             ? { appId: selectedApp.id }
             : { appName: formData.appInput.trim() }),
@@ -331,6 +431,8 @@ export default function SellClient() {
           rawListings: [newListing, ...old.rawListings],
         };
       });
+      // The homepage and listings page feeds are paged by the server
+      queryClient.invalidateQueries({ queryKey: LISTINGS_QUERY_KEY });
 
       setCreatedSlug(data.listing.slug);
     } catch (err) {
@@ -353,7 +455,11 @@ export default function SellClient() {
     }
   };
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleChange = (
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+    >
+  ) => {
     setFormData((prev) => ({
       ...prev,
       [e.target.name]: e.target.value,
@@ -370,11 +476,14 @@ export default function SellClient() {
       appInput: "",
       maxUses: "1",
       description: "",
+      codePool: "",
+      expiryDays: "0",
     });
     setSelectedApp(null);
     setIsValueConfirmed(false);
     setListingType("invite_link");
     setIsUnlimitedUses(false);
+    setIsCodePool(false);
   };
 
   if (createdSlug) {
@@ -604,6 +713,7 @@ export default function SellClient() {
                                 id: selected.id,
                                 appName: selected.appName,
                                 appIconUrl,
+                                format: selected.format,
                               });
                             } else {
                               setSelectedApp(null);
@@ -714,6 +824,7 @@ export default function SellClient() {
                                     id: item.id,
                                     appName: item.appName,
                                     appIconUrl: item.appIconUrl,
+                                    format: item.format,
                                   });
                                 } else {
                                   setSelectedApp(null);
@@ -821,6 +932,47 @@ export default function SellClient() {
               </div>
             </div>
 
+            {/* Expiry Field */}
+            <div>
+              <label
+                htmlFor="expiryDays"
+                className="flex items-center gap-2 text-sm font-semibold text-zinc-300 mb-3"
+              >
+                <svg
+                  className="w-4 h-4 text-cyan-400"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+                  />
+                </svg>
+                Expires
+                <span className="text-zinc-500 font-normal text-xs">(Optional)</span>
+              </label>
+              <select
+                id="expiryDays"
+                name="expiryDays"
+                value={formData.expiryDays}
+                onChange={handleChange}
+                className="w-full px-4 sm:px-5 py-3.5 sm:py-4 rounded-xl bg-zinc-900 border border-zinc-700 text-zinc-100 focus:outline-none focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500/50 transition-all duration-150 hover:border-zinc-600 text-sm sm:text-base cursor-pointer"
+              >
+                {LISTING_EXPIRY_OPTIONS.map((days) => (
+                  <option key={days} value={days}>
+                    {days === 0 ? "Never" : `In ${days} days`}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-2 text-xs text-zinc-500">
+                Expired listings leave the market. You can renew them from
+                your profile.
+              </p>
+            </div>
+
             {/* Conditional fields based on listing type */}
             <AnimatePresence mode="wait">
               {listingType === "invite_link" ? (
@@ -862,9 +1014,15 @@ export default function SellClient() {
                     autoComplete="off"
                     className="w-full px-4 sm:px-5 py-3.5 sm:py-4 rounded-xl bg-zinc-900 border border-zinc-700 text-zinc-100 placeholder:text-zinc-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500/50 transition-all duration-150 hover:border-zinc-600 text-sm sm:text-base"
                   />
-                  <p className="mt-2 text-xs text-zinc-500">
-                    The unique invite link you want to sell
-                  </p>
+                  {urlFormatError ? (
+                    <p className="mt-2 text-xs text-red-400">
+                      {urlFormatError}
+                    </p>
+                  ) : (
+                    <p className="mt-2 text-xs text-zinc-500">
+                      The unique invite link you want to sell
+                    </p>
+                  )}
                 </motion.div>
               ) : (
                 <motion.div
@@ -907,6 +1065,11 @@ export default function SellClient() {
                       placeholder="https://app.example.com"
                       className="w-full px-4 sm:px-5 py-3.5 sm:py-4 rounded-xl bg-zinc-900 border border-zinc-700 text-zinc-100 placeholder:text-zinc-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500/50 transition-all duration-150 hover:border-zinc-600 text-sm sm:text-base"
                     />
+                    {urlFormatError && (
+                      <p className="mt-2 text-xs text-red-400">
+                        {urlFormatError}
+                      </p>
+                    )}
                     <div className="mt-2 p-2.5 rounded-lg bg-yellow-500/10 border border-yellow-500/20">
                       <p className="text-xs text-yellow-400 flex items-center gap-1.5">
                         <svg
@@ -946,23 +1109,76 @@ export default function SellClient() {
                           d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z"
                         />
                       </svg>
-                      Access Code
+                      {isCodePool ? "Access Codes" : "Access Code"}
                     </label>
-                    <input
-                      type="text"
-                      id="accessCode"
-                      name="accessCode"
-                      value={formData.accessCode}
-                      onChange={handleChange}
-                      required={listingType === "access_code"}
-                      placeholder="Enter the access code"
-                      autoComplete="off"
-                      className="w-full px-4 sm:px-5 py-3.5 sm:py-4 rounded-xl bg-zinc-900 border border-zinc-700 text-zinc-100 placeholder:text-zinc-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500/50 transition-all duration-150 hover:border-zinc-600 text-sm sm:text-base font-mono"
-                    />
-                    <p className="mt-2 text-xs text-zinc-500">
-                      The secret code buyers will use to access the app (only
-                      revealed after payment)
-                    </p>
+
+                    {/* One code per buyer toggle */}
+                    <label className="flex items-center gap-3 cursor-pointer group mb-3">
+                      <div className="relative">
+                        <input
+                          type="checkbox"
+                          checked={isCodePool}
+                          onChange={(e) => setIsCodePool(e.target.checked)}
+                          className="sr-only peer"
+                        />
+                        <div className="w-11 h-6 rounded-full bg-zinc-700 peer-checked:bg-cyan-500 transition-colors"></div>
+                        <div className="absolute left-0.5 top-0.5 w-5 h-5 rounded-full bg-white transition-transform peer-checked:translate-x-5"></div>
+                      </div>
+                      <span className="text-sm text-zinc-300 group-hover:text-zinc-200 transition-colors">
+                        Different code for each buyer
+                      </span>
+                    </label>
+
+                    {isCodePool ? (
+                      <>
+                        <textarea
+                          id="codePool"
+                          name="codePool"
+                          value={formData.codePool}
+                          onChange={handleChange}
+                          required={listingType === "access_code"}
+                          rows={5}
+                          placeholder={"One code per line\nCODE-1\nCODE-2"}
+                          autoComplete="off"
+                          className="w-full px-4 sm:px-5 py-3.5 sm:py-4 rounded-xl bg-zinc-900 border border-zinc-700 text-zinc-100 placeholder:text-zinc-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500/50 transition-all duration-150 hover:border-zinc-600 text-sm sm:text-base font-mono resize-y"
+                        />
+                        {codeFormatError && (
+                          <p className="mt-2 text-xs text-red-400">
+                            {codeFormatError}
+                          </p>
+                        )}
+                        <p className="mt-2 text-xs text-zinc-500">
+                          {codePool.length} code
+                          {codePool.length === 1 ? "" : "s"} · each buyer
+                          receives one unused code after payment, so the
+                          listing sells {codePool.length} time
+                          {codePool.length === 1 ? "" : "s"}
+                        </p>
+                      </>
+                    ) : (
+                      <>
+                        <input
+                          type="text"
+                          id="accessCode"
+                          name="accessCode"
+                          value={formData.accessCode}
+                          onChange={handleChange}
+                          required={listingType === "access_code"}
+                          placeholder="Enter the access code"
+                          autoComplete="off"
+                          className="w-full px-4 sm:px-5 py-3.5 sm:py-4 rounded-xl bg-zinc-900 border border-zinc-700 text-zinc-100 placeholder:text-zinc-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500/50 transition-all duration-150 hover:border-zinc-600 text-sm sm:text-base font-mono"
+                        />
+                        {codeFormatError && (
+                          <p className="mt-2 text-xs text-red-400">
+                            {codeFormatError}
+                          </p>
+                        )}
+                        <p className="mt-2 text-xs text-zinc-500">
+                          The secret code buyers will use to access the app
+                          (only revealed after payment)
+                        </p>
+                      </>
+                    )}
                   </div>
                 </motion.div>
               )}
@@ -1038,33 +1254,12 @@ export default function SellClient() {
               </AnimatePresence>
             </div>
 
-            {/* Number of Uses - Collapsible */}
-            <div>
-              <div className="flex items-center gap-2 text-sm font-semibold text-zinc-300 py-2">
-                <svg
-                  className="w-4 h-4 text-cyan-400"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z"
-                  />
-                </svg>
-                <span>Number of Uses</span>
-                <span className="text-cyan-400 font-normal">
-                  {isUnlimitedUses ? "∞ Unlimited" : formData.maxUses || "1"}
-                </span>
-                <button
-                  type="button"
-                  onClick={() => setIsUsesExpanded(!isUsesExpanded)}
-                  className="p-1.5 rounded-lg border border-zinc-700 hover:border-cyan-500/50 hover:bg-zinc-800 cursor-pointer transition-all"
-                >
+            {/* Number of Uses - Collapsible (derived from the pool size for code pools) */}
+            {!sellsCodePool && (
+              <div>
+                <div className="flex items-center gap-2 text-sm font-semibold text-zinc-300 py-2">
                   <svg
-                    className="w-3.5 h-3.5 text-zinc-400"
+                    className="w-4 h-4 text-cyan-400"
                     fill="none"
                     stroke="currentColor"
                     viewBox="0 0 24 24"
@@ -1073,79 +1268,102 @@ export default function SellClient() {
                       strokeLinecap="round"
                       strokeLinejoin="round"
                       strokeWidth={2}
-                      d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z"
+                      d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z"
                     />
                   </svg>
-                </button>
-              </div>
-
-              <AnimatePresence>
-                {isUsesExpanded && (
-                  <motion.div
-                    initial={{ opacity: 0, height: 0 }}
-                    animate={{ opacity: 1, height: "auto" }}
-                    exit={{ opacity: 0, height: 0 }}
-                    transition={{ duration: 0.2 }}
-                    className="overflow-hidden"
+                  <span>Number of Uses</span>
+                  <span className="text-cyan-400 font-normal">
+                    {isUnlimitedUses ? "∞ Unlimited" : formData.maxUses || "1"}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setIsUsesExpanded(!isUsesExpanded)}
+                    className="p-1.5 rounded-lg border border-zinc-700 hover:border-cyan-500/50 hover:bg-zinc-800 cursor-pointer transition-all"
                   >
-                    <div className="pt-3 space-y-3">
-                      {/* Unlimited Toggle */}
-                      <label className="flex items-center gap-3 cursor-pointer group">
-                        <div className="relative">
-                          <input
-                            type="checkbox"
-                            checked={isUnlimitedUses}
-                            onChange={(e) =>
-                              setIsUnlimitedUses(e.target.checked)
-                            }
-                            className="sr-only peer"
-                          />
-                          <div className="w-11 h-6 rounded-full bg-zinc-700 peer-checked:bg-cyan-500 transition-colors"></div>
-                          <div className="absolute left-0.5 top-0.5 w-5 h-5 rounded-full bg-white transition-transform peer-checked:translate-x-5"></div>
-                        </div>
-                        <span className="text-sm text-zinc-300 group-hover:text-zinc-200 transition-colors">
-                          Unlimited uses
-                        </span>
-                      </label>
-
-                      {/* Number Input - hidden when unlimited */}
-                      {!isUnlimitedUses && (
-                        <motion.div
-                          initial={{ opacity: 0, height: 0 }}
-                          animate={{ opacity: 1, height: "auto" }}
-                          exit={{ opacity: 0, height: 0 }}
-                        >
-                          <input
-                            type="number"
-                            id="maxUses"
-                            name="maxUses"
-                            value={formData.maxUses}
-                            onChange={handleChange}
-                            onWheel={(e) => e.currentTarget.blur()}
-                            min="1"
-                            step="1"
-                            placeholder="1"
-                            className="w-full px-4 sm:px-5 py-3.5 sm:py-4 rounded-xl bg-zinc-900 border border-zinc-700 text-zinc-100 placeholder:text-zinc-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500/50 transition-all duration-150 hover:border-zinc-600 text-sm sm:text-base [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
-                          />
-                        </motion.div>
-                      )}
-
-                      <p className="text-xs text-cyan-400">
-                        {isUnlimitedUses
-                          ? "This invite can be used unlimited times"
-                          : `This invite can be used ${
-                              formData.maxUses || 1
-                            } time${
-                              (parseInt(formData.maxUses, 10) || 1) === 1
-                                ? ""
-                                : "s"
-                            }`}
-                      </p>
-                    </div>
-                  </motion.div>
-                )}
-              </AnimatePresence>
-            </div>
+                    <svg
+                      className="w-3.5 h-3.5 text-zinc-400"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z"
+                      />
+                    </svg>
+                  </button>
+                </div>
+
+                <AnimatePresence>
+                  {isUsesExpanded && (
+                    <motion.div
+                      initial={{ opacity: 0, height: 0 }}
+                      animate={{ opacity: 1, height: "auto" }}
+                      exit={{ opacity: 0, height: 0 }}
+                      transition={{ duration: 0.2 }}
+                      className="overflow-hidden"
+                    >
+                      <div className="pt-3 space-y-3">
+                        {/* Unlimited Toggle */}
+                        <label className="flex items-center gap-3 cursor-pointer group">
+                          <div className="relative">
+                            <input
+                              type="checkbox"
+                              checked={isUnlimitedUses}
+                              onChange={(e) =>
+                                setIsUnlimitedUses(e.target.checked)
+                              }
+                              className="sr-only peer"
+                            />
+                            <div className="w-11 h-6 rounded-full bg-zinc-700 peer-checked:bg-cyan-500 transition-colors"></div>
+                            <div className="absolute left-0.5 top-0.5 w-5 h-5 rounded-full bg-white transition-transform peer-checked:translate-x-5"></div>
+                          </div>
+                          <span className="text-sm text-zinc-300 group-hover:text-zinc-200 transition-colors">
+                            Unlimited uses
+                          </span>
+                        </label>
+
+                        {/* Number Input - hidden when unlimited */}
+                        {!isUnlimitedUses && (
+                          <motion.div
+                            initial={{ opacity: 0, height: 0 }}
+                            animate={{ opacity: 1, height: "auto" }}
+                            exit={{ opacity: 0, height: 0 }}
+                          >
+                            <input
+                              type="number"
+                              id="maxUses"
+                              name="maxUses"
+                              value={formData.maxUses}
+                              onChange={handleChange}
+                              onWheel={(e) => e.currentTarget.blur()}
+                              min="1"
+                              step="1"
+                              placeholder="1"
+                              className="w-full px-4 sm:px-5 py-3.5 sm:py-4 rounded-xl bg-zinc-900 border border-zinc-700 text-zinc-100 placeholder:text-zinc-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500/50 transition-all duration-150 hover:border-zinc-600 text-sm sm:text-base [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                            />
+                          </motion.div>
+                        )}
+
+                        <p className="text-xs text-cyan-400">
+                          {isUnlimitedUses
+                            ? "This invite can be used unlimited times"
+                            : `This invite can be used ${
+                                formData.maxUses || 1
+                              } time${
+                                (parseInt(formData.maxUses, 10) || 1) === 1
+                                  ? ""
+                                  : "s"
+                              }`}
+                        </p>
+                      </div>
+                    </motion.div>
+                  )}
+                </AnimatePresence>
+              </div>
+            )}
 
             {isConnected && address && (
               <motion.div
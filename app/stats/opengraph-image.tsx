@@ -0,0 +1,267 @@
+import { ImageResponse } from "next/og";
+import { getMarketStats } from "@/lib/market-stats-server";
+import {
+  getResolvedAddressFromCache,
+  formatSellerForOG,
+} from "@/lib/resolve-address-server";
+import {
+  DEFAULT_ANALYTICS_BUCKETS,
+  DEFAULT_ANALYTICS_RANGE,
+} from "@/lib/market-analytics";
+import {
+  OG_SIZE,
+  OG_CONTENT_TYPE,
+  OGBackground,
+  OGBottomAccent,
+} from "@/lib/og-image";
+
+// Image metadata
+export const alt = "Market Stats | invite.markets";
+export const size = OG_SIZE;
+export const contentType = OG_CONTENT_TYPE;
+
+// Stats change with every sale
+export const dynamic = "force-dynamic";
+
+function formatUsdc(value: number): string {
+  return `$${value.toLocaleString("en-US", { maximumFractionDigits: 0 })}`;
+}
+
+// Headline numbers of the page's default range
+async function getStatsData() {
+  const result = await getMarketStats(
+    DEFAULT_ANALYTICS_RANGE,
+    DEFAULT_ANALYTICS_BUCKETS[DEFAULT_ANALYTICS_RANGE]
+  ).catch((error) => {
+    console.error("Error loading market stats for OG image:", error);
+    return null;
+  });
+  if (!result?.ok) return null;
+
+  const { stats } = result;
+  const topSeller = stats.topSellers[0];
+  const topSellerName = topSeller
+    ? formatSellerForOG(
+        topSeller.address,
+        await getResolvedAddressFromCache(topSeller.address)
+      ).displayName
+    : null;
+
+  return {
+    volume: stats.totals.volume,
+    sales: stats.totals.sales,
+    activeListings: stats.totals.activeListings,
+    topAppName: stats.topAppsByVolume[0]?.appName ?? null,
+    topSellerName,
+  };
+}
+
+function StatTile({ label, value }: { label: string; value: string }) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        alignItems: "center",
+        padding: "20px 36px",
+        borderRadius: "16px",
+        background: "rgba(24, 24, 27, 0.85)",
+        border: "1px solid rgba(63, 63, 70, 0.6)",
+        minWidth: "220px",
+      }}
+    >
+      <span style={{ fontSize: "44px", fontWeight: 800, color: "#ffffff" }}>
+        {value}
+      </span>
+      <span style={{ fontSize: "18px", color: "#a1a1aa", marginTop: "4px" }}>
+        {label}
+      </span>
+    </div>
+  );
+}
+
+// Image generation
+export default async function Image() {
+  const data = await getStatsData();
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          background: "#000000",
+          position: "relative",
+          overflow: "hidden",
+          alignItems: "center",
+          justifyContent: "center",
+        }}
+      >
+        <OGBackground />
+
+        {/* Content container */}
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            alignItems: "center",
+            justifyContent: "center",
+            padding: "60px",
+            position: "relative",
+            zIndex: 10,
+          }}
+        >
+          {/* Main branding - invite.markets */}
+          <div
+            style={{
+              display: "flex",
+              fontSize: "64px",
+              fontWeight: 800,
+              letterSpacing: "-0.03em",
+              marginBottom: "20px",
+            }}
+          >
+            <span style={{ color: "#ffffff" }}>invite</span>
+            <span
+              style={{
+                background: "linear-gradient(135deg, #06b6d4 0%, #a855f7 100%)",
+                backgroundClip: "text",
+                color: "transparent",
+              }}
+            >
+              .markets
+            </span>
+          </div>
+
+          {/* Page title */}
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: "12px",
+              marginBottom: "40px",
+            }}
+          >
+            <span
+              style={{
+                fontSize: "48px",
+                fontWeight: 700,
+                color: "#ffffff",
+              }}
+            >
+              Market
+            </span>
+            <span
+              style={{
+                fontSize: "48px",
+                fontWeight: 700,
+                background: "linear-gradient(90deg, #06b6d4, #3b82f6)",
+                backgroundClip: "text",
+                color: "transparent",
+              }}
+            >
+              Stats
+            </span>
+          </div>
+
+          {data ? (
+            <div
+              style={{
+                display: "flex",
+                flexDirection: "column",
+                alignItems: "center",
+              }}
+            >
+              {/* Headline numbers */}
+              <div style={{ display: "flex", gap: "20px" }}>
+                <StatTile
+                  label="30-day volume"
+                  value={formatUsdc(data.volume)}
+                />
+                <StatTile label="30-day sales" value={`${data.sales}`} />
+                <StatTile
+                  label="Active listings"
+                  value={`${data.activeListings}`}
+                />
+              </div>
+
+              {/* Leaders */}
+              {(data.topAppName || data.topSellerName) && (
+                <div
+                  style={{ display: "flex", gap: "20px", marginTop: "28px" }}
+                >
+                  {data.topAppName && (
+                    <div
+                      style={{
+                        display: "flex",
+                        alignItems: "center",
+                        gap: "8px",
+                        padding: "12px 24px",
+                        borderRadius: "12px",
+                        background: "rgba(6, 182, 212, 0.15)",
+                        border: "1px solid rgba(6, 182, 212, 0.3)",
+                      }}
+                    >
+                      <span style={{ fontSize: "20px" }}>🏆</span>
+                      <span
+                        style={{
+                          fontSize: "18px",
+                          color: "#22d3ee",
+                          fontWeight: 500,
+                        }}
+                      >
+                        Top app: {data.topAppName}
+                      </span>
+                    </div>
+                  )}
+                  {data.topSellerName && (
+                    <div
+                      style={{
+                        display: "flex",
+                        alignItems: "center",
+                        gap: "8px",
+                        padding: "12px 24px",
+                        borderRadius: "12px",
+                        background: "rgba(39, 39, 42, 0.8)",
+                        border: "1px solid rgba(63, 63, 70, 0.8)",
+                      }}
+                    >
+                      <span style={{ fontSize: "20px" }}>⭐</span>
+                      <span
+                        style={{
+                          fontSize: "18px",
+                          color: "#e4e4e7",
+                          fontWeight: 500,
+                        }}
+                      >
+                        Top seller: {data.topSellerName}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          ) : (
+            /* Tagline when the stats can't be loaded */
+            <span
+              style={{
+                fontSize: "24px",
+                color: "#a1a1aa",
+                fontWeight: 400,
+              }}
+            >
+              Volume, top apps and traders across the marketplace
+            </span>
+          )}
+        </div>
+
+        <OGBottomAccent />
+      </div>
+    ),
+    {
+      ...size,
+    }
+  );
+}
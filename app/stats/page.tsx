@@ -0,0 +1,41 @@
+import type { Metadata } from "next";
+import { getMarketStats } from "@/lib/market-stats-server";
+import {
+  DEFAULT_ANALYTICS_BUCKETS,
+  DEFAULT_ANALYTICS_RANGE,
+} from "@/lib/market-analytics";
+import StatsClient from "./stats-client";
+
+export const metadata: Metadata = {
+  title: "Market Stats | invite.markets",
+  description:
+    "Volume, sales, top apps, top traders and prices across the invite.markets marketplace.",
+  openGraph: {
+    title: "Market Stats | invite.markets",
+    description:
+      "Volume, sales, top apps, top traders and prices across the invite.markets marketplace.",
+    type: "website",
+  },
+  twitter: {
+    card: "summary_large_image",
+    title: "Market Stats | invite.markets",
+    description:
+      "Volume, sales, top apps, top traders and prices across the invite.markets marketplace.",
+  },
+};
+
+// Stats change with every sale, so render on every request (cached a minute)
+export const dynamic = "force-dynamic";
+
+export default async function StatsPage() {
+  // Default range rendered on the server; other ranges load on the client
+  const result = await getMarketStats(
+    DEFAULT_ANALYTICS_RANGE,
+    DEFAULT_ANALYTICS_BUCKETS[DEFAULT_ANALYTICS_RANGE]
+  ).catch((error) => {
+    console.error("Error loading market stats:", error);
+    return null;
+  });
+
+  return <StatsClient initialStats={result?.ok ? result.stats : undefined} />;
+}
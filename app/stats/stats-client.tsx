@@ -0,0 +1,706 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { motion } from "framer-motion";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { blo } from "blo";
+import { getGradientForApp } from "@/lib/listings";
+import { formatDuration } from "@/lib/time";
+import {
+  useResolveAddresses,
+  getSellerDisplayInfo,
+  type ResolvedAddress,
+} from "@/lib/resolve-addresses";
+import {
+  ANALYTICS_RANGES,
+  DEFAULT_ANALYTICS_RANGE,
+  type AnalyticsBucket,
+  type AnalyticsRange,
+} from "@/lib/market-analytics";
+import type {
+  AppStats,
+  MarketStats,
+  PriceHistogramBin,
+  TraderStats,
+} from "@/lib/market-stats";
+
+type SeriesMode = "volume" | "sales" | "activeListings";
+
+const SERIES_MODES: { mode: SeriesMode; label: string }[] = [
+  { mode: "volume", label: "Volume" },
+  { mode: "sales", label: "Sales" },
+  { mode: "activeListings", label: "Active Listings" },
+];
+
+const RANGE_LABELS: Record<AnalyticsRange, string> = {
+  "24h": "24H",
+  "7d": "7D",
+  "30d": "30D",
+  "90d": "90D",
+  "1y": "1Y",
+  all: "All",
+};
+
+const TOOLTIP_STYLE = {
+  backgroundColor: "#18181b",
+  border: "1px solid #3f3f46",
+  borderRadius: "8px",
+  padding: "8px 12px",
+  fontSize: "12px",
+};
+
+async function fetchMarketStats(range: AnalyticsRange): Promise<MarketStats> {
+  const params = new URLSearchParams({ range });
+  const response = await fetch(`/api/stats?${params}`);
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to fetch stats");
+  }
+
+  return data.stats;
+}
+
+function formatUsdc(value: number): string {
+  return `$${value.toLocaleString("en-US", { maximumFractionDigits: 2 })}`;
+}
+
+function formatBucketDate(start: string, bucket: AnalyticsBucket): string {
+  const d = new Date(start);
+  return bucket === "hour"
+    ? d.toLocaleTimeString("en-US", { hour: "numeric" })
+    : d.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
+
+function formatBin(bin: PriceHistogramBin): string {
+  return bin.max === null ? `$${bin.min}+` : `$${bin.min}–${bin.max}`;
+}
+
+function StatCard({
+  label,
+  value,
+  detail,
+}: {
+  label: string;
+  value: string;
+  detail?: string;
+}) {
+  return (
+    <div className="rounded-xl bg-zinc-950 border border-zinc-800 p-4 flex flex-col">
+      <div className="text-xs text-zinc-500 mb-1">{label}</div>
+      <div className="text-2xl font-bold text-white">{value}</div>
+      {detail && <div className="text-xs text-zinc-500 mt-1">{detail}</div>}
+    </div>
+  );
+}
+
+function Panel({
+  title,
+  children,
+  action,
+}: {
+  title: string;
+  children: React.ReactNode;
+  action?: React.ReactNode;
+}) {
+  return (
+    <div className="rounded-xl bg-zinc-950 border border-zinc-800 overflow-hidden flex flex-col">
+      <div className="px-5 py-4 border-b border-zinc-800 flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-lg font-bold text-white">{title}</h2>
+        {action}
+      </div>
+      <div className="p-5 flex-1">{children}</div>
+    </div>
+  );
+}
+
+function EmptyRow({ children }: { children: React.ReactNode }) {
+  return <p className="py-8 text-center text-sm text-zinc-500">{children}</p>;
+}
+
+function AppIcon({ app }: { app: AppStats }) {
+  const gradient = getGradientForApp(app.appName);
+
+  if (!app.appIconUrl) {
+    return (
+      <div
+        className="w-8 h-8 rounded-lg shrink-0 flex items-center justify-center font-bold text-white text-sm"
+        style={{
+          background: `linear-gradient(135deg, ${gradient.from}, ${gradient.to})`,
+        }}
+      >
+        {app.appName.charAt(0).toUpperCase()}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`w-8 h-8 rounded-lg overflow-hidden border shrink-0 p-0.5 ${
+        app.iconNeedsDarkBg ? "bg-zinc-900" : "bg-white"
+      }`}
+      style={{ borderColor: gradient.from }}
+    >
+      <Image
+        src={app.appIconUrl}
+        alt={app.appName}
+        width={28}
+        height={28}
+        className="w-full h-full object-contain rounded-md"
+        unoptimized
+      />
+    </div>
+  );
+}
+
+function ChangeBadge({ change }: { change: number | null }) {
+  if (change === null) {
+    return <span className="text-xs font-semibold text-cyan-400">New</span>;
+  }
+
+  return (
+    <span
+      className={`text-xs font-semibold ${
+        change >= 0 ? "text-emerald-400" : "text-red-400"
+      }`}
+    >
+      {change > 0 ? "+" : ""}
+      {change}%
+    </span>
+  );
+}
+
+function AppLeaderboard({
+  apps,
+  metric,
+}: {
+  apps: AppStats[];
+  metric: "volume" | "change";
+}) {
+  if (apps.length === 0) {
+    return (
+      <EmptyRow>
+        {metric === "volume"
+          ? "No sales in this range"
+          : "No sales in the last 48 hours"}
+      </EmptyRow>
+    );
+  }
+
+  return (
+    <ol className="flex flex-col gap-3">
+      {apps.map((app, i) => (
+        <li key={app.appId} className="flex items-center gap-3">
+          <span className="w-5 text-sm text-zinc-500 tabular-nums">
+            {i + 1}
+          </span>
+          <AppIcon app={app} />
+          <Link
+            href={`/app/${encodeURIComponent(app.appId)}`}
+            className="flex-1 min-w-0 font-medium text-sm text-white hover:text-cyan-400 transition-colors truncate"
+          >
+            {app.appName}
+          </Link>
+          {metric === "volume" ? (
+            <div className="text-right">
+              <div className="text-sm font-semibold text-white">
+                {formatUsdc(app.volume)}
+              </div>
+              <div className="text-xs text-zinc-500">
+                {app.sales} {app.sales === 1 ? "sale" : "sales"}
+              </div>
+            </div>
+          ) : (
+            <div className="text-right">
+              <div className="text-sm font-semibold text-white">
+                {formatUsdc(app.volume24h)}
+              </div>
+              <ChangeBadge change={app.change24h} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+function TraderLeaderboard({
+  traders,
+  resolvedAddresses,
+  verb,
+}: {
+  traders: TraderStats[];
+  resolvedAddresses: Record<string, ResolvedAddress>;
+  verb: "sold" | "bought";
+}) {
+  if (traders.length === 0) {
+    return <EmptyRow>No sales in this range</EmptyRow>;
+  }
+
+  return (
+    <ol className="flex flex-col gap-3">
+      {traders.map((trader, i) => {
+        const info = getSellerDisplayInfo(trader.address, resolvedAddresses);
+
+        return (
+          <li key={trader.address} className="flex items-center gap-3">
+            <span className="w-5 text-sm text-zinc-500 tabular-nums">
+              {i + 1}
+            </span>
+            <div className="w-8 h-8 rounded-full overflow-hidden shrink-0 border border-zinc-700">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={info.avatarUrl || blo(trader.address as `0x${string}`)}
+                alt=""
+                width={32}
+                height={32}
+                className="w-full h-full object-cover"
+              />
+            </div>
+            <Link
+              href={`/profile/${trader.address}`}
+              className={`flex-1 min-w-0 font-medium text-sm hover:text-cyan-400 transition-colors truncate ${
+                info.resolvedType ? "text-white" : "text-zinc-400 font-mono"
+              }`}
+            >
+              {info.resolvedType === "farcaster" && "@"}
+              {info.resolvedType ? info.displayName : info.shortAddress}
+            </Link>
+            <div className="text-right">
+              <div className="text-sm font-semibold text-white">
+                {formatUsdc(trader.volume)}
+              </div>
+              <div className="text-xs text-zinc-500">
+                {trader.sales} {verb}
+              </div>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+function PriceHistogram({
+  bins,
+  color,
+  unit,
+}: {
+  bins: PriceHistogramBin[];
+  color: string;
+  unit: string;
+}) {
+  const data = useMemo(
+    () => bins.map((bin) => ({ label: formatBin(bin), count: bin.count })),
+    [bins]
+  );
+
+  if (bins.every((bin) => bin.count === 0)) {
+    return <EmptyRow>No {unit} yet</EmptyRow>;
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height={220}>
+      <BarChart data={data}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
+        <XAxis
+          dataKey="label"
+          stroke="#71717a"
+          style={{ fontSize: "11px" }}
+          tick={{ fill: "#71717a" }}
+          interval={0}
+        />
+        <YAxis
+          stroke="#71717a"
+          style={{ fontSize: "12px" }}
+          tick={{ fill: "#71717a" }}
+          allowDecimals={false}
+        />
+        <Tooltip
+          cursor={{ fill: "#27272a", opacity: 0.4 }}
+          content={({ active, payload }) => {
+            if (!active || !payload || !payload.length) return null;
+
+            const bin = payload[0].payload as (typeof data)[number];
+            return (
+              <div style={TOOLTIP_STYLE}>
+                <div style={{ color: "#a1a1aa", marginBottom: "4px" }}>
+                  {bin.label}
+                </div>
+                <div style={{ color, fontWeight: 600 }}>
+                  {bin.count} {unit}
+                </div>
+              </div>
+            );
+          }}
+        />
+        <Bar dataKey="count" fill={color} radius={[4, 4, 0, 0]} />
+      </BarChart>
+    </ResponsiveContainer>
+  );
+}
+
+export default function StatsClient({
+  initialStats,
+}: {
+  initialStats?: MarketStats;
+}) {
+  const [range, setRange] = useState<AnalyticsRange>(DEFAULT_ANALYTICS_RANGE);
+  const [seriesMode, setSeriesMode] = useState<SeriesMode>("volume");
+
+  const {
+    data: stats,
+    isLoading,
+    isFetching,
+    error,
+  } = useQuery({
+    queryKey: ["stats", range],
+    queryFn: () => fetchMarketStats(range),
+    // The server rendered the default range
+    initialData: range === DEFAULT_ANALYTICS_RANGE ? initialStats : undefined,
+    initialDataUpdatedAt: 0,
+    // Keep the previous range on screen while switching
+    placeholderData: keepPreviousData,
+    staleTime: 60 * 1000,
+  });
+
+  const traderAddresses = useMemo(
+    () =>
+      stats
+        ? [...stats.topSellers, ...stats.topBuyers].map(
+            (trader) => trader.address
+          )
+        : [],
+    [stats]
+  );
+  const { resolvedAddresses } = useResolveAddresses(traderAddresses);
+
+  const seriesData = useMemo(
+    () =>
+      stats
+        ? stats.series.map((point) => ({
+            ...point,
+            date: formatBucketDate(point.start, stats.bucket),
+          }))
+        : [],
+    [stats]
+  );
+
+  return (
+    <div className="min-h-screen text-zinc-100">
+      {/* Hero Section */}
+      <section className="relative pt-16 md:pt-20 pb-8 px-4">
+        <div className="max-w-7xl mx-auto">
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5 }}
+          >
+            {/* Breadcrumb */}
+            <div className="flex items-center gap-2 text-sm text-zinc-500 mb-6">
+              <Link href="/" className="hover:text-zinc-300 transition-colors">
+                Home
+              </Link>
+              <svg
+                className="w-4 h-4"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M9 5l7 7-7 7"
+                />
+              </svg>
+              <span className="text-zinc-300">Market Stats</span>
+            </div>
+
+            <div className="flex flex-wrap items-end justify-between gap-6">
+              <div>
+                <h1 className="text-4xl md:text-5xl lg:text-6xl font-bold tracking-tight mb-4">
+                  <span className="text-white">Market </span>
+                  <span className="bg-gradient-to-r from-cyan-400 to-blue-500 bg-clip-text text-transparent">
+                    Stats
+                  </span>
+                </h1>
+
+                <p className="text-lg md:text-xl text-zinc-400 max-w-2xl">
+                  Volume, top apps and traders across the marketplace
+                </p>
+              </div>
+
+              {/* Range tabs */}
+              <div className="flex rounded-xl bg-zinc-950 border border-zinc-800 p-1">
+                {ANALYTICS_RANGES.map((value) => (
+                  <button
+                    key={value}
+                    onClick={() => setRange(value)}
+                    className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors cursor-pointer ${
+                      range === value
+                        ? "bg-zinc-800 text-white"
+                        : "text-zinc-400 hover:text-white"
+                    }`}
+                  >
+                    {RANGE_LABELS[value]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </motion.div>
+        </div>
+      </section>
+
+      {/* Main Content */}
+      <section className="px-4 pb-24 max-w-7xl mx-auto">
+        {isLoading ? (
+          <div className="py-24 flex items-center justify-center">
+            <div className="w-8 h-8 border-2 border-zinc-700 border-t-zinc-400 rounded-full animate-spin" />
+          </div>
+        ) : !stats ? (
+          <div className="py-24 text-center text-red-400">
+            {error instanceof Error ? error.message : "Failed to fetch stats"}
+          </div>
+        ) : (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.1 }}
+            className={`flex flex-col gap-6 transition-opacity ${
+              isFetching ? "opacity-60" : ""
+            }`}
+          >
+            {/* Totals */}
+            <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+              <StatCard
+                label="Volume"
+                value={formatUsdc(stats.totals.volume)}
+              />
+              <StatCard label="Sales" value={`${stats.totals.sales}`} />
+              <StatCard
+                label="Active Listings"
+                value={`${stats.totals.activeListings}`}
+                detail="Right now"
+              />
+              <StatCard
+                label="Traders"
+                value={`${stats.totals.uniqueBuyers + stats.totals.uniqueSellers}`}
+                detail={`${stats.totals.uniqueBuyers} buyers · ${stats.totals.uniqueSellers} sellers`}
+              />
+              <StatCard
+                label="Median Time to Sell"
+                value={
+                  stats.timeToSell.medianMs === null
+                    ? "–"
+                    : formatDuration(stats.timeToSell.medianMs)
+                }
+                detail="From listing to sale"
+              />
+            </div>
+
+            {/* Over time */}
+            <Panel
+              title="Over Time"
+              action={
+                <div className="flex rounded-lg bg-zinc-900 border border-zinc-800 p-0.5">
+                  {SERIES_MODES.map(({ mode, label }) => (
+                    <button
+                      key={mode}
+                      onClick={() => setSeriesMode(mode)}
+                      className={`px-2.5 py-1 text-xs font-medium rounded-md transition-colors cursor-pointer ${
+                        seriesMode === mode
+                          ? "bg-zinc-700 text-white"
+                          : "text-zinc-400 hover:text-white"
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              }
+            >
+              <ResponsiveContainer width="100%" height={300}>
+                {seriesMode === "activeListings" ? (
+                  <AreaChart data={seriesData}>
+                    <defs>
+                      <linearGradient
+                        id="listingsGradient"
+                        x1="0"
+                        y1="0"
+                        x2="0"
+                        y2="1"
+                      >
+                        <stop
+                          offset="5%"
+                          stopColor="#a855f7"
+                          stopOpacity={0.3}
+                        />
+                        <stop
+                          offset="95%"
+                          stopColor="#a855f7"
+                          stopOpacity={0.05}
+                        />
+                      </linearGradient>
+                    </defs>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
+                    <XAxis
+                      dataKey="date"
+                      stroke="#71717a"
+                      style={{ fontSize: "12px" }}
+                      tick={{ fill: "#71717a" }}
+                    />
+                    <YAxis
+                      stroke="#71717a"
+                      style={{ fontSize: "12px" }}
+                      tick={{ fill: "#71717a" }}
+                      allowDecimals={false}
+                    />
+                    <Tooltip contentStyle={TOOLTIP_STYLE} />
+                    <Area
+                      type="monotone"
+                      dataKey="activeListings"
+                      name="Active listings"
+                      stroke="#a855f7"
+                      strokeWidth={2}
+                      fill="url(#listingsGradient)"
+                    />
+                  </AreaChart>
+                ) : (
+                  <BarChart data={seriesData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
+                    <XAxis
+                      dataKey="date"
+                      stroke="#71717a"
+                      style={{ fontSize: "12px" }}
+                      tick={{ fill: "#71717a" }}
+                    />
+                    <YAxis
+                      stroke="#71717a"
+                      style={{ fontSize: "12px" }}
+                      tick={{ fill: "#71717a" }}
+                      allowDecimals={seriesMode === "volume"}
+                      tickFormatter={(value) =>
+                        seriesMode === "volume" ? `$${value}` : `${value}`
+                      }
+                    />
+                    <Tooltip
+                      cursor={{ fill: "#27272a", opacity: 0.4 }}
+                      contentStyle={TOOLTIP_STYLE}
+                      formatter={(value) =>
+                        seriesMode === "volume"
+                          ? formatUsdc(Number(value))
+                          : `${value}`
+                      }
+                    />
+                    <Bar
+                      dataKey={seriesMode}
+                      name={seriesMode === "volume" ? "Volume" : "Sales"}
+                      fill="#06b6d4"
+                      radius={[4, 4, 0, 0]}
+                    />
+                  </BarChart>
+                )}
+              </ResponsiveContainer>
+            </Panel>
+
+            {/* Top apps */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Panel title="Top Apps by Volume">
+                <AppLeaderboard apps={stats.topAppsByVolume} metric="volume" />
+              </Panel>
+              <Panel title="Top Apps by 24h Change">
+                <AppLeaderboard apps={stats.topAppsByChange} metric="change" />
+              </Panel>
+            </div>
+
+            {/* Traders */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Panel title="Top Sellers">
+                <TraderLeaderboard
+                  traders={stats.topSellers}
+                  resolvedAddresses={resolvedAddresses}
+                  verb="sold"
+                />
+              </Panel>
+              <Panel title="Top Buyers">
+                <TraderLeaderboard
+                  traders={stats.topBuyers}
+                  resolvedAddresses={resolvedAddresses}
+                  verb="bought"
+                />
+              </Panel>
+            </div>
+
+            {/* Prices */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Panel title="Sale Prices">
+                <PriceHistogram
+                  bins={stats.salePriceHistogram}
+                  color="#06b6d4"
+                  unit="sales"
+                />
+              </Panel>
+              <Panel title="Current Asks">
+                <PriceHistogram
+                  bins={stats.askPriceHistogram}
+                  color="#a855f7"
+                  unit="listings"
+                />
+              </Panel>
+            </div>
+
+            {/* Time to sell */}
+            <Panel title="Time to Sell">
+              {stats.timeToSell.byApp.length === 0 ? (
+                <EmptyRow>No sales in this range</EmptyRow>
+              ) : (
+                <div className="flex flex-col">
+                  <div className="grid grid-cols-[1fr_auto_auto] gap-6 pb-2 text-xs text-zinc-500 border-b border-zinc-800">
+                    <span>App</span>
+                    <span className="text-right">Sales</span>
+                    <span className="w-24 text-right">Median</span>
+                  </div>
+                  {stats.timeToSell.byApp.map((app) => (
+                    <div
+                      key={app.appId}
+                      className="grid grid-cols-[1fr_auto_auto] gap-6 py-2.5 text-sm border-b border-zinc-800/60 last:border-b-0"
+                    >
+                      <Link
+                        href={`/app/${encodeURIComponent(app.appId)}`}
+                        className="font-medium text-white hover:text-cyan-400 transition-colors truncate"
+                      >
+                        {app.appName}
+                      </Link>
+                      <span className="text-right text-zinc-400 tabular-nums">
+                        {app.sales}
+                      </span>
+                      <span className="w-24 text-right font-semibold text-white tabular-nums">
+                        {app.medianMs === null
+                          ? "–"
+                          : formatDuration(app.medianMs)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </Panel>
+          </motion.div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import { redirect } from "next/navigation";
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Join the Waitlist | invite.markets",
+  description: "invite.markets is invite-only for now. Join the waitlist to get access.",
+};
+
+// Gated pages redirect here in whitelist mode; AccessGateProvider renders
+// the waitlist form in place of the page content.
+export default function WaitlistPage() {
+  if (process.env.NEXT_PUBLIC_IS_ONLY_WHITELIST !== "true") {
+    redirect("/");
+  }
+
+  return null;
+}
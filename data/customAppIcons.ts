@@ -1,11 +1,12 @@
 /**
- * Custom icon configuration for non-featured apps.
+ * Seed icons for custom (non-featured) apps in the App registry (models/app.ts).
  * Keys can be:
  * - Domain (e.g., "friend.space" or "app.friend.space")
  * - App name (case-insensitive)
  *
- * This allows overriding the default Google favicon service for apps
- * that have better custom icons available.
+ * A custom app gets its icon from here when it's first listed, and
+ * `pnpm migrate:apps` applies changes to existing apps. Apps without one
+ * fall back to the Google favicon service.
  */
 export interface CustomAppIconConfig {
   /** The icon URL (can be absolute or relative to public folder) */
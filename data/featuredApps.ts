@@ -1,13 +1,30 @@
 import { base, baseSepolia } from "thirdweb/chains";
-import { chainId } from "@/lib/chain";
+import type { AppFormat } from "@/lib/listing-format";
 
+// Invite links that carry a code or path, rather than the app's home page
+const inviteLinkWithCode = {
+  pattern: /^https:\/\/[^/?#\s]+[/?#]+[^/?#\s]\S*$/.source,
+  description: "an https link with the invite code in it",
+};
+
+const simpleAccessCode = {
+  pattern: /^[A-Za-z0-9_-]{3,64}$/.source,
+  description: "3-64 letters, digits, dashes or underscores",
+};
+
+/**
+ * Seed data for the featured apps in the App registry (models/app.ts).
+ * Changes take effect when `pnpm migrate:apps` runs (see lib/apps.ts seedApps);
+ * the app reads apps from the registry, not from this file.
+ */
 export const featuredApps: {
-  id: string;
+  id: string; // Becomes the app's slug (the appId stored on listings)
   appName: string;
   siteUrl: string;
   appIconUrl: string;
   description: string;
   chainIds: number[];
+  format: AppFormat;
 }[] = [
   {
     id: "ethos",
@@ -17,6 +34,10 @@ export const featuredApps: {
     description:
       "Reputation & credibility for crypto, driven by peer-to-peer reviews & secured by staked Ethereum. What’s your crypto credibility score?",
     chainIds: [base.id, baseSepolia.id],
+    format: {
+      hosts: ["ethos.network"],
+      inviteUrl: inviteLinkWithCode,
+    },
   },
   {
     id: "cascade",
@@ -26,6 +47,9 @@ export const featuredApps: {
     description:
       "Trade crypto, U.S. equities, private markets 24/7. Fully accessible in the U.S. — no geo-blocking. Onboard with wire, ACH or stablecoin.",
     chainIds: [base.id, baseSepolia.id],
+    format: {
+      hosts: ["cascade.xyz"],
+    },
   },
   {
     id: "hyENA",
@@ -35,6 +59,10 @@ export const featuredApps: {
     description:
       "Trade any asset on earth 24/7 with maximum capital efficiency.",
     chainIds: [base.id, baseSepolia.id],
+    format: {
+      hosts: ["hyena.trade"],
+      accessCode: simpleAccessCode,
+    },
   },
   {
     id: "nado",
@@ -44,6 +72,10 @@ export const featuredApps: {
     description:
       "Orderbook on Ink L2 fusing CEX speed (5-15ms latency) & DeFi security. Trade spot & perps via a unified cross-margin system with deep liquidity",
     chainIds: [base.id, baseSepolia.id],
+    format: {
+      hosts: ["nado.xyz"],
+      accessCode: simpleAccessCode,
+    },
   },
   {
     id: "base-app",
@@ -53,9 +85,9 @@ export const featuredApps: {
     description:
       "Create, earn, trade, discover apps, and chat with friends all in one place",
     chainIds: [baseSepolia.id],
+    format: {
+      hosts: ["base.app"],
+      inviteUrl: inviteLinkWithCode,
+    },
   },
 ];
-
-// Helper to get featured apps filtered by the current chain
-export const getFeaturedAppsForChain = () =>
-  featuredApps.filter((app) => app.chainIds.includes(chainId));
@@ -0,0 +1,73 @@
+/**
+ * Rules for invite-link health checks (lib/link-health.ts).
+ * Keys can be:
+ * - Featured app id (e.g., "ethos", see featuredApps.ts)
+ * - Invite domain (e.g., "join.base.app")
+ *
+ * A check follows the invite URL's redirects and marks the invite dead when it is
+ * redirected to a URL, or lands on page text, matching the app's rules or the defaults.
+ */
+export interface InviteLinkRules {
+  /** URLs that, when the invite redirects to them, mean the invite is dead */
+  deadRedirectPatterns?: RegExp[];
+  /** Page text that means the invite is dead, e.g. an "invite expired" page */
+  deadTextPatterns?: RegExp[];
+}
+
+/** Applied to every invite link, in addition to the app's own rules */
+export const defaultInviteLinkRules: Required<InviteLinkRules> = {
+  deadRedirectPatterns: [
+    /\/(404|not-found|expired|invalid-invite)(\/|\?|#|$)/i,
+  ],
+  deadTextPatterns: [
+    /invite (link |code )?(has )?(expired|been revoked)/i,
+    /invite (link |code )?is (no longer valid|invalid)/i,
+    /invitation (has )?expired/i,
+    /code (has )?already been (used|redeemed)/i,
+  ],
+};
+
+export const inviteLinkRules: Record<string, InviteLinkRules> = {
+  ethos: {
+    // Used or unknown invites send the visitor back to the app's home page
+    deadRedirectPatterns: [/^https:\/\/app\.ethos\.network\/?$/i],
+  },
+  "base-app": {
+    deadRedirectPatterns: [/^https:\/\/join\.base\.app\/?$/i],
+    deadTextPatterns: [/this invite is no longer available/i],
+  },
+};
+
+/**
+ * Gets the health-check rules for an invite link: the defaults plus any rules
+ * for the listing's app id or the invite's domain.
+ * @param appId - Featured app id, if the listing has one
+ * @param inviteUrl - The invite URL being checked
+ */
+export function getInviteLinkRules(
+  appId: string | undefined,
+  inviteUrl: string
+): Required<InviteLinkRules> {
+  let domain = "";
+  try {
+    domain = new URL(inviteUrl).hostname.toLowerCase();
+  } catch {
+    // Unparseable URLs only get the default rules
+  }
+
+  const appRules = (appId && inviteLinkRules[appId]) || {};
+  const domainRules = (domain && inviteLinkRules[domain]) || {};
+
+  return {
+    deadRedirectPatterns: [
+      ...defaultInviteLinkRules.deadRedirectPatterns,
+      ...(appRules.deadRedirectPatterns ?? []),
+      ...(domainRules.deadRedirectPatterns ?? []),
+    ],
+    deadTextPatterns: [
+      ...defaultInviteLinkRules.deadTextPatterns,
+      ...(appRules.deadTextPatterns ?? []),
+      ...(domainRules.deadTextPatterns ?? []),
+    ],
+  };
+}
@@ -20,10 +20,21 @@ export interface PurchaseResult {
   inviteUrl?: string;
   appUrl?: string;
   accessCode?: string;
+  // Settlement transaction hash for the payment receipt
+  txHash?: string;
+}
+
+export interface PurchaseOptions {
+  // Pay for an accepted offer at the offer price instead of the listing price
+  offerId?: string;
 }
 
 interface UsePurchaseResult {
-  purchase: (slug: string, sellerAddress: string) => Promise<PurchaseResult | null>;
+  purchase: (
+    slug: string,
+    sellerAddress: string,
+    options?: PurchaseOptions
+  ) => Promise<PurchaseResult | null>;
   isPending: boolean;
   purchaseData: PurchaseResult | null;
   purchasedSellerAddress: string | null;
@@ -56,13 +67,17 @@ export function usePurchase(): UsePurchaseResult {
 
   const purchase = async (
     slug: string,
-    sellerAddress: string
+    sellerAddress: string,
+    options?: PurchaseOptions
   ): Promise<PurchaseResult | null> => {
     console.log(`[x402 CLIENT] Starting purchase for slug: ${slug}, seller: ${sellerAddress}`);
     
     try {
       console.log(`[x402 CLIENT] Calling fetchWithPayment...`);
-      const res = (await fetchWithPayment(`/api/purchase/${slug}`, {
+      const url = options?.offerId
+        ? `/api/purchase/${slug}?offer=${encodeURIComponent(options.offerId)}`
+        : `/api/purchase/${slug}`;
+      const res = (await fetchWithPayment(url, {
         method: "POST",
       })) as PurchaseResult | undefined;
 
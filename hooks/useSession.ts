@@ -0,0 +1,118 @@
+"use client";
+
+import { useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useActiveAccount } from "thirdweb/react";
+import { signMessage } from "thirdweb/utils";
+import type { Account } from "thirdweb/wallets";
+import { createSiweMessage } from "viem/siwe";
+import { chainId } from "@/lib/chain";
+
+export const SESSION_QUERY_KEY = ["session"];
+
+// How long the signed sign-in message can be submitted for
+const SIGN_IN_MESSAGE_TTL_MS = 10 * 60 * 1000;
+
+export interface Session {
+  // Signed-in wallet (lowercase), null when signed out
+  address: string | null;
+  isAdmin: boolean;
+}
+
+const SIGNED_OUT: Session = { address: null, isAdmin: false };
+
+async function fetchSession(): Promise<Session> {
+  const response = await fetch("/api/auth/session");
+  const data = await response.json();
+  return data.success
+    ? { address: data.address, isAdmin: data.isAdmin }
+    : SIGNED_OUT;
+}
+
+// Sign-In with Ethereum (EIP-4361) using a nonce issued by the server
+async function signIn(account: Account): Promise<Session> {
+  const nonceResponse = await fetch("/api/auth/nonce");
+  const nonceData = await nonceResponse.json();
+  if (!nonceResponse.ok) {
+    throw new Error(nonceData.error || "Failed to start sign-in");
+  }
+
+  const now = Date.now();
+  const message = createSiweMessage({
+    domain: window.location.host,
+    address: account.address as `0x${string}`,
+    statement: "Sign in to invite.markets",
+    uri: window.location.origin,
+    version: "1",
+    chainId,
+    nonce: nonceData.nonce,
+    issuedAt: new Date(now),
+    expirationTime: new Date(now + SIGN_IN_MESSAGE_TTL_MS),
+  });
+
+  const signature = await signMessage({ account, message });
+
+  const response = await fetch("/api/auth/verify", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ message, signature }),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || "Sign-in failed");
+  }
+
+  return { address: data.address, isAdmin: data.isAdmin };
+}
+
+/**
+ * Wallet session shared by seller, buyer and admin actions.
+ * The session lives in an httpOnly cookie, so API calls made after
+ * ensureSession() are authenticated without signing again.
+ */
+export function useSession() {
+  const account = useActiveAccount();
+  const queryClient = useQueryClient();
+
+  const { data: session = SIGNED_OUT, isLoading } = useQuery({
+    queryKey: SESSION_QUERY_KEY,
+    queryFn: fetchSession,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  // A session only counts for the wallet that is connected now
+  const isSignedIn =
+    !!account && session.address === account.address.toLowerCase();
+
+  // Returns the current session, or asks the wallet to sign in
+  const ensureSession = useCallback(async (): Promise<Session> => {
+    if (!account) throw new Error("Wallet not connected");
+
+    if (session.address === account.address.toLowerCase()) {
+      return session;
+    }
+
+    const signedIn = await signIn(account);
+    queryClient.setQueryData(SESSION_QUERY_KEY, signedIn);
+    return signedIn;
+  }, [account, session, queryClient]);
+
+  // Re-check the cookie, e.g. after an API call returned 401
+  const refreshSession = useCallback(() => {
+    return queryClient.invalidateQueries({ queryKey: SESSION_QUERY_KEY });
+  }, [queryClient]);
+
+  const signOut = useCallback(async () => {
+    await fetch("/api/auth/session", { method: "DELETE" });
+    queryClient.setQueryData(SESSION_QUERY_KEY, SIGNED_OUT);
+  }, [queryClient]);
+
+  return {
+    session,
+    isSignedIn,
+    isLoading,
+    ensureSession,
+    refreshSession,
+    signOut,
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * Route allowlist for whitelist mode (NEXT_PUBLIC_IS_ONLY_WHITELIST=true).
+ *
+ * `proxy.ts` requires a valid invite_access cookie for every other page and
+ * API route. Extra public routes can be added with WHITELIST_PUBLIC_ROUTES
+ * (comma-separated path prefixes, e.g. "/api/apps,/sales").
+ */
+
+// Page users without access are redirected to
+export const WAITLIST_PATH = "/waitlist";
+
+const PUBLIC_ROUTES: RegExp[] = [
+  // Social preview images, so shared links unfurl for everyone
+  /\/(opengraph|twitter)-image(-\w+)?$/,
+  // Invite links and the endpoint that turns them into an access cookie
+  /^\/invite\/[^/]+$/,
+  /^\/api\/invite\/verify$/,
+  // Waitlist signup
+  /^\/waitlist$/,
+  /^\/api\/waitlist$/,
+  // Lets AccessGateProvider ask whether the cookie is valid
+  /^\/api\/access\/check$/,
+  // Admins sign in with their wallet; admin APIs check the session role
+  /^\/admin$/,
+  /^\/api\/auth\/(nonce|verify|session)$/,
+  /^\/api\/admin(\/.*)?$/,
+];
+
+const EXTRA_PUBLIC_PREFIXES = (process.env.WHITELIST_PUBLIC_ROUTES || "")
+  .split(",")
+  .map((route) => route.trim())
+  .filter(Boolean);
+
+export function isWhitelistMode(): boolean {
+  return process.env.NEXT_PUBLIC_IS_ONLY_WHITELIST === "true";
+}
+
+export function isPublicRoute(pathname: string): boolean {
+  return (
+    PUBLIC_ROUTES.some((pattern) => pattern.test(pathname)) ||
+    EXTRA_PUBLIC_PREFIXES.some(
+      (prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`)
+    )
+  );
+}
@@ -1,39 +1,113 @@
-import { createHmac, randomBytes } from "crypto";
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
 
-const INVITE_ACCESS_CODE = process.env.INVITE_ACCESS_CODE;
+// The shared invite code used before per-person invites. Cookies it signed
+// (timestamp.nonce.signature) stay valid while it is set.
+const LEGACY_INVITE_CODE = process.env.INVITE_ACCESS_CODE;
+
+// Falls back to the old global invite code so existing deployments keep a secret
+const ACCESS_TOKEN_SECRET =
+  process.env.ACCESS_TOKEN_SECRET || LEGACY_INVITE_CODE;
+
+// Cookie holding the signed access token in whitelist mode
+export const ACCESS_COOKIE_NAME = "invite_access";
+
+// How long access lasts after redeeming an invite code
+export const ACCESS_TOKEN_TTL_SECONDS = 365 * 24 * 60 * 60;
+
+export interface AccessTokenPayload {
+  // WhitelistInvite the token was issued for; null for legacy tokens, which
+  // belong to the shared invite code (see getSharedInviteId)
+  inviteId: string | null;
+  expiresAt: Date;
+}
+
+export function isAccessTokenConfigured(): boolean {
+  return !!ACCESS_TOKEN_SECRET;
+}
+
+function sign(data: string, secret: string): string {
+  const hmac = createHmac("sha256", secret);
+  hmac.update(data);
+  return hmac.digest("hex");
+}
+
+function isSignatureValid(
+  data: string,
+  signature: string,
+  secret: string
+): boolean {
+  const expectedSignature = sign(data, secret);
+  return (
+    signature.length === expectedSignature.length &&
+    timingSafeEqual(Buffer.from(signature), Buffer.from(expectedSignature))
+  );
+}
+
+// Tokens issued with the shared code before per-person invites, valid for the
+// cookie's lifetime after they were issued
+function verifyLegacyAccessToken(
+  timestamp: string,
+  nonce: string,
+  signature: string
+): AccessTokenPayload | null {
+  if (
+    !LEGACY_INVITE_CODE ||
+    !isSignatureValid(`${timestamp}.${nonce}`, signature, LEGACY_INVITE_CODE)
+  ) {
+    return null;
+  }
+
+  const expiresAtMs = Number(timestamp) + ACCESS_TOKEN_TTL_SECONDS * 1000;
+  if (!Number.isFinite(expiresAtMs) || expiresAtMs <= Date.now()) {
+    return null;
+  }
+
+  return { inviteId: null, expiresAt: new Date(expiresAtMs) };
+}
 
 // Create a signed token for the cookie
-// Format: timestamp.nonce.signature
-export function createAccessToken(): string {
-  if (!INVITE_ACCESS_CODE) {
-    throw new Error("INVITE_ACCESS_CODE not configured");
+// Format: inviteId.expiresAt.nonce.signature (expiresAt in ms)
+export function createAccessToken(inviteId: string): string {
+  if (!ACCESS_TOKEN_SECRET) {
+    throw new Error("ACCESS_TOKEN_SECRET not configured");
   }
-  const timestamp = Date.now().toString();
+  const expiresAt = (Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000).toString();
   const nonce = randomBytes(16).toString("hex"); // Random entropy
-  const data = `${timestamp}.${nonce}`;
-  const hmac = createHmac("sha256", INVITE_ACCESS_CODE);
-  hmac.update(data);
-  const signature = hmac.digest("hex");
-  return `${timestamp}.${nonce}.${signature}`;
+  const data = `${inviteId}.${expiresAt}.${nonce}`;
+  return `${data}.${sign(data, ACCESS_TOKEN_SECRET)}`;
 }
 
-// Verify a signed token
-export function verifyAccessToken(token: string): boolean {
-  if (!INVITE_ACCESS_CODE || !token) {
-    return false;
+// Verify a signed token's signature and expiry. Revocation of the invite is
+// checked separately (see hasWhitelistAccess in lib/whitelist-invites.ts).
+export function verifyAccessToken(token: string): AccessTokenPayload | null {
+  if (!ACCESS_TOKEN_SECRET || !token) {
+    return null;
   }
 
   const parts = token.split(".");
-  if (parts.length !== 3) {
-    return false;
+  if (parts.length === 3) {
+    const [timestamp, nonce, signature] = parts;
+    return verifyLegacyAccessToken(timestamp, nonce, signature);
+  }
+  if (parts.length !== 4) {
+    return null;
   }
 
-  const [timestamp, nonce, signature] = parts;
-  const data = `${timestamp}.${nonce}`;
-  const hmac = createHmac("sha256", INVITE_ACCESS_CODE);
-  hmac.update(data);
-  const expectedSignature = hmac.digest("hex");
+  const [inviteId, expiresAt, nonce, signature] = parts;
+  if (
+    !isSignatureValid(
+      `${inviteId}.${expiresAt}.${nonce}`,
+      signature,
+      ACCESS_TOKEN_SECRET
+    )
+  ) {
+    return null;
+  }
 
-  return signature === expectedSignature;
-}
+  const expiresAtMs = Number(expiresAt);
+  if (!Number.isFinite(expiresAtMs) || expiresAtMs <= Date.now()) {
+    return null;
+  }
 
+  return { inviteId, expiresAt: new Date(expiresAtMs) };
+}
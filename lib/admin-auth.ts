@@ -0,0 +1,39 @@
+import { NextRequest } from "next/server";
+import { getSessionAddress, type SessionAuthResult } from "@/lib/session";
+
+export const ADMIN_ETH_ADDRESSES = (process.env.ADMIN_ETH_ADDRESSES || "")
+  .split(",")
+  .map((addr) => addr.trim().toLowerCase())
+  .filter(Boolean);
+
+export function isAdminAddress(address: string | null | undefined): boolean {
+  return !!address && ADMIN_ETH_ADDRESSES.includes(address.toLowerCase());
+}
+
+export type AdminAuthResult = SessionAuthResult;
+
+/**
+ * Verify that a request comes from an admin.
+ * Uses the session cookie set by signing in with Ethereum at /admin
+ * (see /api/auth/verify); the session address must be in ADMIN_ETH_ADDRESSES.
+ */
+export async function verifyAdminRequest(
+  request: NextRequest
+): Promise<AdminAuthResult> {
+  const address = getSessionAddress(request);
+
+  if (!address) {
+    return { ok: false, error: "Admin authentication required", status: 401 };
+  }
+
+  // Verify the address is an admin
+  if (!isAdminAddress(address)) {
+    return {
+      ok: false,
+      error: "Unauthorized: Not an admin address",
+      status: 403,
+    };
+  }
+
+  return { ok: true, address };
+}
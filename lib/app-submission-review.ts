@@ -0,0 +1,163 @@
+import mongoose from "mongoose";
+import { connectDB } from "@/lib/mongoose";
+import { App, type IApp } from "@/models/app";
+import { AppSubmission } from "@/models/appSubmission";
+import { chainId } from "@/lib/chain";
+import {
+  createCustomApp,
+  findApp,
+  getAppIconPath,
+  toAppAlias,
+  toAppSummary,
+  type AppSummary,
+} from "@/lib/apps";
+import {
+  toAppSubmissionSummary,
+  type AppSubmissionAction,
+  type AppSubmissionStatus,
+  type AppSubmissionSummary,
+} from "@/lib/app-submissions";
+
+// Admin review of community app submissions. Approving adds the app to the
+// registry (or fills in a custom app someone already listed under that name),
+// merging makes the submitted name another name of an existing app, and
+// rejecting only records the note.
+
+export type AppSubmissionReviewResult =
+  | { ok: true; submission: AppSubmissionSummary; app?: AppSummary }
+  | { ok: false; error: string; status: number };
+
+const REVIEW_STATUS: Record<AppSubmissionAction, AppSubmissionStatus> = {
+  approve: "approved",
+  merge: "merged",
+  reject: "rejected",
+};
+
+/**
+ * Reviews a pending submission.
+ * @param id - Submission id
+ * @param action - approve, merge or reject
+ * @param actor - Admin wallet address
+ * @param options.appSlug - App to merge into (merge only)
+ * @param options.note - Review note shown to the submitter
+ */
+export async function reviewAppSubmission(
+  id: string,
+  action: AppSubmissionAction,
+  actor: string,
+  { appSlug, note }: { appSlug?: string; note?: string } = {}
+): Promise<AppSubmissionReviewResult> {
+  await connectDB();
+
+  if (!mongoose.isValidObjectId(id)) {
+    return { ok: false, error: "Submission not found", status: 404 };
+  }
+
+  const submission = await AppSubmission.findOne({ _id: id, chainId })
+    .select("+icon")
+    .lean();
+  if (!submission) {
+    return { ok: false, error: "Submission not found", status: 404 };
+  }
+  if (submission.status !== "pending") {
+    return {
+      ok: false,
+      error: "This submission has already been reviewed",
+      status: 409,
+    };
+  }
+
+  let app: IApp | null = null;
+
+  if (action === "approve") {
+    const existing = await findApp(submission.name);
+    if (existing?.featured) {
+      return {
+        ok: false,
+        error: `${existing.name} is already a featured app; merge into it instead`,
+        status: 409,
+      };
+    }
+
+    if (existing) {
+      // A custom app someone already listed: give it the submitted details
+      app = await App.findOneAndUpdate(
+        { slug: existing.slug },
+        {
+          $set: {
+            siteUrl: new URL(submission.siteUrl).origin,
+            description: submission.description,
+            approvedAt: new Date(),
+            ...(submission.icon
+              ? {
+                  icon: submission.icon,
+                  iconUrl: getAppIconPath(existing.slug),
+                  iconNeedsDarkBg: false,
+                }
+              : {}),
+          },
+        },
+        { new: true }
+      ).lean<IApp>();
+    } else {
+      app = await createCustomApp({
+        name: submission.name,
+        url: submission.siteUrl,
+        description: submission.description,
+        icon: submission.icon,
+        approvedAt: new Date(),
+      });
+    }
+  }
+
+  if (action === "merge") {
+    const target = appSlug ? await findApp(appSlug) : null;
+    if (!target || target.slug !== appSlug) {
+      return { ok: false, error: "App not found", status: 404 };
+    }
+
+    const owner = await findApp(submission.name);
+    if (owner && owner.slug !== target.slug) {
+      return {
+        ok: false,
+        error: `"${submission.name}" is already the name of ${owner.name}`,
+        status: 409,
+      };
+    }
+
+    app = await App.findOneAndUpdate(
+      { slug: target.slug },
+      { $addToSet: { aliases: toAppAlias(submission.name) } },
+      { new: true }
+    ).lean<IApp>();
+  }
+
+  // Only pending submissions can be reviewed, so two admins can't both decide
+  const reviewed = await AppSubmission.findOneAndUpdate(
+    { _id: id, chainId, status: "pending" },
+    {
+      $set: {
+        status: REVIEW_STATUS[action],
+        reviewedBy: actor,
+        reviewedAt: new Date(),
+        ...(app ? { appSlug: app.slug } : {}),
+        ...(note ? { reviewNote: note } : {}),
+      },
+    },
+    { new: true }
+  ).lean();
+
+  if (!reviewed) {
+    return {
+      ok: false,
+      error: "This submission has already been reviewed",
+      status: 409,
+    };
+  }
+
+  return {
+    ok: true,
+    submission: toAppSubmissionSummary(reviewed),
+    ...(app ? { app: toAppSummary(app) } : {}),
+  };
+}
@@ -0,0 +1,120 @@
+// App submission types, limits and checks, shared by the API routes, the submit
+// form and the admin UI.
+
+import type { IAppSubmission } from "@/models/appSubmission";
+import { getUrlHost } from "@/lib/listing-format";
+
+// "pending" until an admin approves it as a new app, merges it into an
+// existing app (as another name for it) or rejects it
+export type AppSubmissionStatus =
+  | "pending"
+  | "approved"
+  | "merged"
+  | "rejected";
+
+export type AppSubmissionAction = "approve" | "merge" | "reject";
+
+export type AppIconType = "image/png" | "image/jpeg" | "image/webp";
+
+export const APP_ICON_TYPES: AppIconType[] = [
+  "image/png",
+  "image/jpeg",
+  "image/webp",
+];
+
+export const MAX_APP_ICON_BYTES = 256 * 1024;
+
+export const MAX_APP_NAME_LENGTH = 48;
+
+export const MAX_APP_DESCRIPTION_LENGTH = 300;
+
+// Submissions a wallet can have waiting for review at once
+export const MAX_PENDING_APP_SUBMISSIONS = 3;
+
+export function isAppSubmissionAction(
+  value: unknown
+): value is AppSubmissionAction {
+  return value === "approve" || value === "merge" || value === "reject";
+}
+
+/**
+ * Validates a submission's text fields.
+ * Returns an error message, or null if they're fine.
+ */
+export function validateAppSubmission({
+  name,
+  siteUrl,
+  description,
+}: {
+  name: string;
+  siteUrl: string;
+  description: string;
+}): string | null {
+  if (!name.trim()) return "App name is required";
+  if (name.trim().length > MAX_APP_NAME_LENGTH) {
+    return `App name must be at most ${MAX_APP_NAME_LENGTH} characters`;
+  }
+  if (!getUrlHost(siteUrl.trim()) || !siteUrl.trim().startsWith("https://")) {
+    return "Website must be an https:// link";
+  }
+  if (!description.trim()) return "Description is required";
+  if (description.trim().length > MAX_APP_DESCRIPTION_LENGTH) {
+    return `Description must be at most ${MAX_APP_DESCRIPTION_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * The image type of an uploaded icon, from its first bytes rather than the
+ * type the browser claims. Returns null for anything but PNG, JPEG or WebP.
+ */
+export function detectAppIconType(bytes: Uint8Array): AppIconType | null {
+  const startsWith = (signature: number[], offset = 0) =>
+    signature.every((byte, i) => bytes[offset + i] === byte);
+
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return "image/png";
+  }
+  if (startsWith([0xff, 0xd8, 0xff])) return "image/jpeg";
+  // "RIFF" .... "WEBP"
+  if (
+    startsWith([0x52, 0x49, 0x46, 0x46]) &&
+    startsWith([0x57, 0x45, 0x42, 0x50], 8)
+  ) {
+    return "image/webp";
+  }
+  return null;
+}
+
+// Submission as returned by the API
+export interface AppSubmissionSummary {
+  id: string;
+  submitterAddress: string;
+  name: string;
+  siteUrl: string;
+  description: string;
+  status: AppSubmissionStatus;
+  appSlug?: string;
+  reviewNote?: string;
+  createdAt: string;
+  reviewedAt?: string;
+}
+
+export function toAppSubmissionSummary(
+  submission: Omit<IAppSubmission, "icon"> & { _id: { toString(): string } }
+): AppSubmissionSummary {
+  return {
+    id: submission._id.toString(),
+    submitterAddress: submission.submitterAddress,
+    name: submission.name,
+    siteUrl: submission.siteUrl,
+    description: submission.description,
+    status: submission.status,
+    appSlug: submission.appSlug,
+    reviewNote: submission.reviewNote,
+    createdAt: new Date(submission.createdAt).toISOString(),
+    reviewedAt: submission.reviewedAt
+      ? new Date(submission.reviewedAt).toISOString()
+      : undefined,
+  };
+}
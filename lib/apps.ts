@@ -0,0 +1,430 @@
+import mongoose from "mongoose";
+import { connectDB, isDuplicateKeyError } from "@/lib/mongoose";
+import { App, type IApp, type IAppIcon } from "@/models/app";
+import { Listing } from "@/models/listing";
+import { Transaction } from "@/models/transaction";
+import { Offer } from "@/models/offer";
+import { featuredApps } from "@/data/featuredApps";
+import { getCustomAppIconConfig } from "@/data/customAppIcons";
+import { chainId } from "@/lib/chain";
+import { getAppIconInfo, type ListingType } from "@/lib/url";
+import { getUrlHost, type AppFormat } from "@/lib/listing-format";
+
+// App registry. Every listing, transaction and offer stores its app's slug as
+// appId; names typed by sellers are matched against each app's aliases, so
+// "ethos", "Ethos" and "ETHOS" all resolve to the same app.
+
+// App as returned by the API
+export interface AppSummary {
+  id: string;
+  name: string;
+  iconUrl?: string;
+  iconNeedsDarkBg: boolean;
+  description?: string;
+  siteUrl?: string;
+  featured: boolean;
+  format?: AppFormat;
+}
+
+export function toAppAlias(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+// URL-safe slug for a new custom app
+function slugifyAppName(name: string): string {
+  return (
+    name
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 48) || "app"
+  );
+}
+
+// Where an app's uploaded icon is served
+export function getAppIconPath(slug: string): string {
+  return `/api/apps/${encodeURIComponent(slug)}/icon`;
+}
+
+/**
+ * An uploaded icon's bytes, or null when they don't match the stored size.
+ * Lean reads return `data` as a BSON Binary rather than a Buffer, and
+ * `new Uint8Array(binary)` is empty.
+ */
+export function getAppIconBytes(
+  icon: IAppIcon
+): Uint8Array<ArrayBuffer> | null {
+  const data: unknown = icon.data;
+  const bytes = new Uint8Array(
+    data instanceof mongoose.mongo.Binary
+      ? data.buffer.subarray(0, data.position)
+      : icon.data
+  );
+
+  if (
+    bytes.length === 0 ||
+    (icon.size !== undefined && bytes.length !== icon.size)
+  ) {
+    return null;
+  }
+  return bytes;
+}
+
+export function toAppSummary(app: IApp): AppSummary {
+  return {
+    id: app.slug,
+    name: app.name,
+    iconUrl: app.iconUrl,
+    iconNeedsDarkBg: app.iconNeedsDarkBg ?? false,
+    description: app.description,
+    siteUrl: app.siteUrl,
+    featured: app.featured,
+    format: app.format,
+  };
+}
+
+/**
+ * Finds an app by slug or by any of its names (case-insensitive).
+ */
+export async function findApp(key?: string | null): Promise<IApp | null> {
+  const value = key?.trim();
+  if (!value) return null;
+
+  await connectDB();
+  // Oldest first, so apps created concurrently for the same name resolve alike
+  return App.findOne({
+    $or: [{ slug: value }, { aliases: toAppAlias(value) }],
+  })
+    .sort({ createdAt: 1 })
+    .lean<IApp>();
+}
+
+/**
+ * Adds a custom app to the registry, e.g. the first time someone lists it or
+ * when an admin approves a submission. The site URL and icon come from the
+ * given URL (icons from data/customAppIcons.ts) unless an icon was uploaded.
+ */
+export async function createCustomApp({
+  name,
+  url,
+  description,
+  icon: uploadedIcon,
+  approvedAt,
+}: {
+  name: string;
+  url?: string;
+  description?: string;
+  icon?: IAppIcon;
+  approvedAt?: Date;
+}): Promise<IApp> {
+  await connectDB();
+
+  const displayName = name.trim();
+  const host = url ? getUrlHost(url) : null;
+  const icon =
+    (host && getCustomAppIconConfig(host)) || getCustomAppIconConfig(displayName);
+
+  const baseSlug = slugifyAppName(displayName);
+  for (let attempt = 1; attempt <= 20; attempt++) {
+    const slug = attempt === 1 ? baseSlug : `${baseSlug}-${attempt}`;
+    if (await App.exists({ slug })) continue;
+
+    try {
+      const app = await App.create({
+        slug,
+        name: displayName,
+        aliases: [...new Set([toAppAlias(displayName), slug])],
+        ...(host ? { siteUrl: new URL(url!).origin } : {}),
+        ...(uploadedIcon
+          ? { icon: uploadedIcon, iconUrl: getAppIconPath(slug) }
+          : icon
+            ? { iconUrl: icon.url, iconNeedsDarkBg: icon.needsDarkBg }
+            : {}),
+        ...(description ? { description } : {}),
+        ...(approvedAt ? { approvedAt } : {}),
+        featured: false,
+      });
+      // Like a query, leave out the icon's bytes
+      const created = app.toObject();
+      delete created.icon;
+      return created;
+    } catch (error) {
+      // Someone took the slug in the meantime; try the next one
+      if (!isDuplicateKeyError(error)) throw error;
+    }
+  }
+
+  throw new Error(`Could not find a free slug for app "${displayName}"`);
+}
+
+/**
+ * The app a listing (or buy order) belongs to: an existing app matching the
+ * seller's app id or name, or a new custom app for a name nobody has listed yet.
+ */
+export async function resolveApp({
+  appKey,
+  url,
+}: {
+  appKey: string;
+  url?: string;
+}): Promise<IApp> {
+  const existing = await findApp(appKey);
+  if (existing) return existing;
+
+  const created = await createCustomApp({ name: appKey, url });
+
+  // Two first listings for the same name can race; keep the older app
+  const winner = await findApp(appKey);
+  if (winner && winner.slug !== created.slug) {
+    await App.deleteOne({ slug: created.slug });
+    return winner;
+  }
+  return created;
+}
+
+/**
+ * Featured apps shown on the current chain, in seed order.
+ */
+export async function getFeaturedApps(): Promise<IApp[]> {
+  await connectDB();
+  const apps = await App.find({ featured: true, chainIds: chainId }).lean<
+    IApp[]
+  >();
+  const order = featuredApps.map((app) => app.id);
+  return apps.sort((a, b) => order.indexOf(a.slug) - order.indexOf(b.slug));
+}
+
+/**
+ * Apps approved from community submissions (not featured), newest first.
+ */
+export async function getApprovedApps(): Promise<IApp[]> {
+  await connectDB();
+  return App.find({ featured: false, approvedAt: { $exists: true } })
+    .sort({ approvedAt: -1 })
+    .lean<IApp[]>();
+}
+
+/**
+ * Loads apps by slug, for attaching names and icons to listings, sales and offers.
+ */
+export async function getAppsBySlug(
+  slugs: (string | undefined | null)[]
+): Promise<Map<string, IApp>> {
+  const unique = [...new Set(slugs.filter((slug): slug is string => !!slug))];
+  if (unique.length === 0) return new Map();
+
+  await connectDB();
+  const apps = await App.find({ slug: { $in: unique } }).lean<IApp[]>();
+  return new Map(apps.map((app) => [app.slug, app]));
+}
+
+/**
+ * Display name and icon of a listing's app, for API responses.
+ * Listings whose app isn't in the registry (before `pnpm migrate:apps`) fall
+ * back to their own appName and a favicon.
+ */
+export function describeListingApp(
+  listing: {
+    appId?: string;
+    appName?: string;
+    inviteDomain?: string;
+    appUrl?: string;
+    listingType?: ListingType;
+  },
+  app?: IApp | null
+) {
+  const iconInfo = getAppIconInfo(listing, app);
+  return {
+    appName: app?.name ?? listing.appName ?? listing.appId,
+    appFeatured: app?.featured ?? false,
+    appIconUrl: iconInfo.url,
+    iconNeedsDarkBg: iconInfo.needsDarkBg || false,
+  };
+}
+
+/**
+ * Upserts the featured apps from data/featuredApps.ts and applies the icons in
+ * data/customAppIcons.ts to custom apps without an uploaded icon.
+ * Safe to run repeatedly.
+ */
+export async function seedApps({ dryRun = false } = {}) {
+  await connectDB();
+
+  let featured = 0;
+  for (const seed of featuredApps) {
+    featured++;
+    if (dryRun) continue;
+
+    await App.updateOne(
+      { slug: seed.id },
+      {
+        $set: {
+          name: seed.appName,
+          siteUrl: seed.siteUrl,
+          iconUrl: seed.appIconUrl,
+          description: seed.description,
+          featured: true,
+          chainIds: seed.chainIds,
+          format: seed.format,
+        },
+        $addToSet: {
+          aliases: {
+            $each: [toAppAlias(seed.id), toAppAlias(seed.appName)],
+          },
+        },
+      },
+      { upsert: true }
+    );
+  }
+
+  let icons = 0;
+  const customApps = await App.find({
+    featured: false,
+    icon: { $exists: false },
+  })
+    .select("slug name siteUrl iconUrl")
+    .lean();
+  for (const app of customApps) {
+    const host = app.siteUrl ? getUrlHost(app.siteUrl) : null;
+    const icon =
+      (host && getCustomAppIconConfig(host)) || getCustomAppIconConfig(app.name);
+    if (!icon || icon.url === app.iconUrl) continue;
+
+    icons++;
+    if (!dryRun) {
+      await App.updateOne(
+        { _id: app._id },
+        { $set: { iconUrl: icon.url, iconNeedsDarkBg: icon.needsDarkBg } }
+      );
+    }
+  }
+
+  return { featured, icons };
+}
+
+export interface AppMigrationReport {
+  // Custom apps added to the registry (names, in dry runs)
+  createdApps: string[];
+  listings: number;
+  transactions: number;
+  offers: number;
+  // Buy-order app ids that match no app
+  unmatchedOffers: string[];
+}
+
+/**
+ * Links existing listings, transactions and offers to the App registry: every
+ * app id or custom app name becomes the slug of its app, creating custom apps
+ * as needed. Safe to run repeatedly; run seedApps first.
+ */
+export async function linkRecordsToApps({
+  dryRun = false,
+} = {}): Promise<AppMigrationReport> {
+  await connectDB();
+
+  const report: AppMigrationReport = {
+    createdApps: [],
+    listings: 0,
+    transactions: 0,
+    offers: 0,
+    unmatchedOffers: [],
+  };
+
+  // Listings, grouped by how they name their app
+  const groups = await Listing.aggregate<{
+    _id: { appId: string | null; appName: string | null };
+    slugs: string[];
+    inviteDomain: string | null;
+    appUrl: string | null;
+  }>([
+    {
+      $group: {
+        _id: {
+          appId: { $ifNull: ["$appId", null] },
+          appName: { $ifNull: ["$appName", null] },
+        },
+        slugs: { $push: "$slug" },
+        inviteDomain: { $first: "$inviteDomain" },
+        appUrl: { $first: "$appUrl" },
+      },
+    },
+  ]);
+
+  for (const group of groups) {
+    const key = group._id.appId || group._id.appName;
+    if (!key) continue;
+
+    let app = await findApp(key);
+    if (!app) {
+      report.createdApps.push(key);
+      if (dryRun) {
+        report.listings += group.slugs.length;
+        continue;
+      }
+      app = await createCustomApp({
+        name: key,
+        url: group.inviteDomain
+          ? `https://${group.inviteDomain}`
+          : (group.appUrl ?? undefined),
+      });
+    }
+
+    const listingUpdate = {
+      appId: app.slug,
+      ...(app.featured ? {} : { appName: app.name }),
+    };
+    if (
+      group._id.appId !== listingUpdate.appId ||
+      (!app.featured && group._id.appName !== app.name)
+    ) {
+      report.listings += group.slugs.length;
+      if (!dryRun) {
+        await Listing.updateMany(
+          { slug: { $in: group.slugs } },
+          { $set: listingUpdate }
+        );
+      }
+    }
+
+    // Sales take their listing's app
+    const transactionFilter = {
+      listingSlug: { $in: group.slugs },
+      appId: { $ne: app.slug },
+    };
+    if (dryRun) {
+      report.transactions +=
+        await Transaction.countDocuments(transactionFilter);
+    } else {
+      const result = await Transaction.updateMany(transactionFilter, {
+        $set: { appId: app.slug },
+      });
+      report.transactions += result.modifiedCount;
+    }
+  }
+
+  // Buy orders name their app by id, or by name for custom apps
+  const offerAppIds = (await Offer.distinct("appId")).filter(
+    (appId): appId is string => !!appId
+  );
+  for (const appId of offerAppIds) {
+    const app = await findApp(appId);
+    if (!app) {
+      report.unmatchedOffers.push(appId);
+      continue;
+    }
+    if (app.slug === appId) continue;
+
+    if (dryRun) {
+      report.offers += await Offer.countDocuments({ appId });
+    } else {
+      const result = await Offer.updateMany(
+        { appId },
+        { $set: { appId: app.slug } }
+      );
+      report.offers += result.modifiedCount;
+    }
+  }
+
+  return report;
+}
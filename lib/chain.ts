@@ -8,6 +8,26 @@ export const explorerBaseUrl = isTestnet
   ? "https://sepolia.basescan.org"
   : "https://basescan.org";
 
+// Native USDC token contract on the configured chain
+export const usdcAddress: `0x${string}` = isTestnet
+  ? "0x036CbD53842c5426634e7929541eC2318f3dCF7e"
+  : "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+
+// Raw token units per USDC (6 decimals)
+export const USDC_DECIMALS = 1_000_000;
+
+/**
+ * Converts a USDC price to raw token units.
+ */
+export function toUsdcUnits(priceUsdc: number): bigint {
+  return BigInt(Math.round(priceUsdc * USDC_DECIMALS));
+}
+
+// Default public RPC for the configured chain
+export const defaultRpcUrl = isTestnet
+  ? "https://sepolia.base.org"
+  : "https://mainnet.base.org";
+
 export function getExplorerAddressUrl(address: string): string {
   return `${explorerBaseUrl}/address/${address}`;
 }
@@ -0,0 +1,154 @@
+import { connectDB } from "@/lib/mongoose";
+import { PoolCode, type IPoolCode } from "@/models/poolCode";
+import { chainId } from "@/lib/chain";
+import { decryptSecret, encryptSecret } from "@/lib/encryption";
+import { getPoolCodeContext } from "@/lib/listing-secrets";
+import type { Types } from "mongoose";
+
+// Code pools let an access_code listing hand a distinct code to every buyer.
+// Codes are stored one document per code so a purchase can pop one atomically.
+
+export const MAX_CODE_POOL_SIZE = 1000;
+export const MAX_POOL_CODE_LENGTH = 500;
+
+/**
+ * Validates a list of uploaded codes (as produced by parseCodePoolInput).
+ * Returns an error message, or null if the codes are valid.
+ */
+export function validateCodePool(
+  codes: unknown,
+  existingCount = 0
+): string | null {
+  if (!Array.isArray(codes) || codes.length === 0) {
+    return "At least one access code is required";
+  }
+
+  if (
+    codes.some(
+      (code) =>
+        typeof code !== "string" ||
+        code.trim() === "" ||
+        code !== code.trim() ||
+        code.includes("\n")
+    )
+  ) {
+    return "Each access code must be a non-empty single line";
+  }
+
+  if (codes.some((code: string) => code.length > MAX_POOL_CODE_LENGTH)) {
+    return `Access codes must be at most ${MAX_POOL_CODE_LENGTH} characters`;
+  }
+
+  if (new Set(codes).size !== codes.length) {
+    return "Access codes must be distinct";
+  }
+
+  if (existingCount + codes.length > MAX_CODE_POOL_SIZE) {
+    return `A listing can hold at most ${MAX_CODE_POOL_SIZE} access codes`;
+  }
+
+  return null;
+}
+
+/**
+ * Decrypts a pool code. Only call this for the buyer it was assigned to, or its seller.
+ */
+export function revealPoolCode(
+  poolCode: Pick<IPoolCode, "listingSlug" | "position" | "code">
+): string {
+  return decryptSecret(
+    poolCode.code,
+    getPoolCodeContext(poolCode.listingSlug, poolCode.position)
+  );
+}
+
+/**
+ * Returns every code in a listing's pool (decrypted), in upload order.
+ */
+export async function getPoolCodes(slug: string): Promise<string[]> {
+  await connectDB();
+
+  const poolCodes = await PoolCode.find({ listingSlug: slug, chainId })
+    .sort({ position: 1 })
+    .lean();
+
+  return poolCodes.map(revealPoolCode);
+}
+
+/**
+ * Appends codes to a listing's pool, encrypted, starting at the given position.
+ */
+export async function addPoolCodes(
+  slug: string,
+  codes: string[],
+  startPosition: number
+) {
+  await connectDB();
+
+  await PoolCode.insertMany(
+    codes.map((code, index) => {
+      const position = startPosition + index;
+      return {
+        listingSlug: slug,
+        chainId,
+        position,
+        code: encryptSecret(code, getPoolCodeContext(slug, position)),
+        status: "available" as const,
+      };
+    })
+  );
+}
+
+/**
+ * Atomically assigns the next available code to a purchase.
+ * Claiming again with the same key returns the code already assigned to it.
+ * Returns null if the pool is empty.
+ */
+export async function claimPoolCode(
+  slug: string,
+  { claimKey, buyerAddress }: { claimKey?: string; buyerAddress?: string }
+) {
+  await connectDB();
+
+  if (claimKey) {
+    const existing = await PoolCode.findOne({ claimKey });
+    if (existing) return existing;
+  }
+
+  return PoolCode.findOneAndUpdate(
+    { listingSlug: slug, chainId, status: "available" },
+    {
+      $set: {
+        status: "assigned",
+        ...(claimKey ? { claimKey } : {}),
+        buyerAddress: buyerAddress?.toLowerCase(),
+        assignedAt: new Date(),
+      },
+    },
+    { sort: { position: 1 }, new: true }
+  );
+}
+
+/**
+ * Returns the code assigned to a purchase, if any.
+ */
+export async function getClaimedPoolCode(claimKey: string) {
+  await connectDB();
+
+  return PoolCode.findOne({ claimKey });
+}
+
+/**
+ * Records which Transaction a claimed code belongs to.
+ */
+export async function bindPoolCode(
+  poolCodeId: Types.ObjectId,
+  transactionId: Types.ObjectId
+) {
+  await connectDB();
+
+  await PoolCode.updateOne(
+    { _id: poolCodeId },
+    { $set: { transactionId } }
+  );
+}
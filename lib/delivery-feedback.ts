@@ -0,0 +1,46 @@
+// Shared (client-safe) delivery feedback types and helpers.
+// Buyers report whether a purchased invite worked; sellers are rated on the share that did.
+
+export const MAX_FEEDBACK_COMMENT_LENGTH = 500;
+
+export interface DeliveryStats {
+  worked: number;
+  failed: number;
+  // Share of feedback that reported a working invite (0-1), null without any feedback
+  rate: number | null;
+}
+
+export function toDeliveryStats(worked: number, failed: number): DeliveryStats {
+  const total = worked + failed;
+  return {
+    worked,
+    failed,
+    rate: total > 0 ? worked / total : null,
+  };
+}
+
+/**
+ * Formats a delivery rate as a whole percentage, e.g. "92%".
+ */
+export function formatDeliveryRate(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+/**
+ * Compares delivery stats for sorting. Sellers without feedback sort last
+ * regardless of direction, matching how missing Ethos scores are handled.
+ */
+export function compareDeliveryStats(
+  a: DeliveryStats | null | undefined,
+  b: DeliveryStats | null | undefined,
+  multiplier: number
+): number {
+  const rateA = a?.rate ?? null;
+  const rateB = b?.rate ?? null;
+  if (rateA === null && rateB === null) return 0;
+  if (rateA === null) return 1;
+  if (rateB === null) return -1;
+  if (rateA !== rateB) return (rateA - rateB) * multiplier;
+  // Same rate: more feedback is the stronger signal
+  return (a!.worked + a!.failed - (b!.worked + b!.failed)) * multiplier;
+}
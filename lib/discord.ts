@@ -7,7 +7,7 @@
  */
 
 import { ListingType } from "@/models/listing";
-import { featuredApps } from "@/data/featuredApps";
+import { getExplorerTxUrl } from "@/lib/chain";
 
 // =============================================================================
 // SAFE DATA TYPES - Explicitly exclude sensitive fields
@@ -22,6 +22,8 @@ export interface ListingNotificationData {
   listingType: ListingType;
   appName?: string;
   appId?: string;
+  // App icon from the App registry (absolute URL or path under /public)
+  appIconUrl?: string;
   appUrl?: string; // Only for access_code type (public)
   priceUsdc: number;
   sellerAddress: string;
@@ -38,14 +40,33 @@ export interface PurchaseNotificationData {
   slug: string;
   appName?: string;
   appId?: string;
+  // App icon from the App registry (absolute URL or path under /public)
+  appIconUrl?: string;
   priceUsdc: number;
   sellerAddress: string;
   buyerAddress: string;
+  // Settlement transaction hash (linked to the block explorer when present)
+  txHash?: string;
   // Optional pre-resolved display names (farcaster/basename/ens)
   sellerDisplayName?: string;
   buyerDisplayName?: string;
 }
 
+/**
+ * Safe data for a filled buy order (a listing created for one buyer).
+ * NOTE: inviteUrl and accessCode are intentionally NOT included.
+ */
+export interface BuyOrderFilledNotificationData {
+  slug: string;
+  appName?: string;
+  appId?: string;
+  // App icon from the App registry (absolute URL or path under /public)
+  appIconUrl?: string;
+  priceUsdc: number;
+  sellerAddress: string;
+  buyerAddress: string;
+}
+
 // =============================================================================
 // CONSTANTS (exported for backfill script)
 // =============================================================================
@@ -57,6 +78,7 @@ export const BASE_SEPOLIA_CHAIN_ID = 84532;
 export const DISCORD_COLORS = {
   GREEN: 0x00ff00, // New listing
   BLUE: 0x0099ff, // Purchase
+  PURPLE: 0x9b59b6, // Buy order filled
 };
 
 // =============================================================================
@@ -107,44 +129,26 @@ export function truncateAddress(address: string | undefined | null): string {
   return `${address.slice(0, 6)}...${address.slice(-4)}`;
 }
 
-/**
- * Gets featured app info by ID.
- * Returns the app config if found, otherwise null.
- */
-export function getFeaturedAppById(
-  appId: string | undefined
-): (typeof featuredApps)[0] | null {
-  if (!appId) return null;
-  return featuredApps.find((app) => app.id === appId) ?? null;
-}
-
 /**
  * Gets the display name for an app.
- * For featured apps (appId), looks up the proper appName.
- * Falls back to custom appName, then appId, then "Unknown App".
+ * Callers pass the name from the App registry; falls back to appId, then "Unknown App".
  */
 export function getAppDisplayName(appName?: string, appId?: string): string {
-  // First check if it's a featured app - use proper appName
-  const featuredApp = getFeaturedAppById(appId);
-  if (featuredApp) {
-    return featuredApp.appName;
-  }
-  // Otherwise use custom appName or fallback
   return appName || appId || "Unknown App";
 }
 
 /**
  * Gets the full URL for an app icon (for Discord thumbnail).
- * Returns null if no icon is available.
+ * Icons under /public are made absolute. Returns null if no icon is available.
  */
-export function getAppIconUrl(appName?: string, appId?: string): string | null {
-  const featuredApp = getFeaturedAppById(appId);
-  if (featuredApp) {
+export function getAppIconUrl(appIconUrl?: string): string | null {
+  if (!appIconUrl) return null;
+  if (appIconUrl.startsWith("/")) {
     const baseUrl =
       process.env.NEXT_PUBLIC_BASE_URL || "https://invite.markets";
-    return `${baseUrl}${featuredApp.appIconUrl}`;
+    return `${baseUrl}${appIconUrl}`;
   }
-  return null;
+  return appIconUrl;
 }
 
 /**
@@ -187,7 +191,7 @@ export function buildNewListingEmbed(
 ): DiscordEmbed {
   const appName = getAppDisplayName(data.appName, data.appId);
   const listingUrl = getListingUrl(data.slug);
-  const appIconUrl = getAppIconUrl(data.appName, data.appId);
+  const appIconUrl = getAppIconUrl(data.appIconUrl);
 
   // Use resolved display name if provided, otherwise truncate address
   const sellerDisplay =
@@ -230,6 +234,52 @@ export function buildNewListingEmbed(
   return embed;
 }
 
+/**
+ * Builds a Discord embed telling a buyer their buy order was filled.
+ */
+export function buildBuyOrderFilledEmbed(
+  data: BuyOrderFilledNotificationData,
+  chainId: number,
+  timestamp?: Date
+): DiscordEmbed {
+  const appName = getAppDisplayName(data.appName, data.appId);
+  const listingUrl = getListingUrl(data.slug);
+  const appIconUrl = getAppIconUrl(data.appIconUrl);
+
+  const embed: DiscordEmbed = {
+    title: `🤝 Buy Order Filled: ${appName}`,
+    description: `${truncateAddress(data.buyerAddress)}, your buy order was filled. Complete the purchase from your profile before the payment window closes.`,
+    color: DISCORD_COLORS.PURPLE,
+    fields: [
+      { name: "💵 Price", value: `${data.priceUsdc} USDC`, inline: true },
+      {
+        name: "🛒 Buyer",
+        value: truncateAddress(data.buyerAddress),
+        inline: true,
+      },
+      {
+        name: "👤 Seller",
+        value: truncateAddress(data.sellerAddress),
+        inline: true,
+      },
+      {
+        name: "🔗 Link",
+        value: `[View Listing](${listingUrl})`,
+        inline: true,
+      },
+    ],
+    url: listingUrl,
+    footer: { text: getNetworkName(chainId) },
+    timestamp: (timestamp || new Date()).toISOString(),
+  };
+
+  if (appIconUrl) {
+    embed.thumbnail = { url: appIconUrl };
+  }
+
+  return embed;
+}
+
 /**
  * Builds a Discord embed for a purchase notification.
  */
@@ -240,7 +290,7 @@ export function buildPurchaseEmbed(
 ): DiscordEmbed {
   const appName = getAppDisplayName(data.appName, data.appId);
   const listingUrl = getListingUrl(data.slug);
-  const appIconUrl = getAppIconUrl(data.appName, data.appId);
+  const appIconUrl = getAppIconUrl(data.appIconUrl);
 
   // Use resolved display names if provided, otherwise truncate addresses
   const buyerDisplay =
@@ -267,6 +317,14 @@ export function buildPurchaseEmbed(
     },
   ];
 
+  if (data.txHash) {
+    fields.push({
+      name: "🧾 Receipt",
+      value: `[View Transaction](${getExplorerTxUrl(data.txHash)})`,
+      inline: true,
+    });
+  }
+
   const embed: DiscordEmbed = {
     title: `💸 Sale: ${appName}`,
     color: DISCORD_COLORS.BLUE,
@@ -464,3 +522,18 @@ export async function sendPurchaseNotification(
   const embed = buildPurchaseEmbed(data, chainId);
   await sendDiscordEmbed(embed, chainId);
 }
+
+/**
+ * Sends a buy order filled notification to Discord.
+ * Fire-and-forget - errors are logged but don't throw.
+ *
+ * @param data - Safe order data (sensitive fields excluded by type)
+ * @param chainId - Chain ID to determine which channel to post to
+ */
+export async function sendBuyOrderFilledNotification(
+  data: BuyOrderFilledNotificationData,
+  chainId: number
+): Promise<void> {
+  const embed = buildBuyOrderFilledEmbed(data, chainId);
+  await sendDiscordEmbed(embed, chainId);
+}
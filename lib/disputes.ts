@@ -0,0 +1,97 @@
+// Dispute types and limits, shared by the API routes and the profile/admin UI.
+
+import type { IDispute } from "@/models/dispute";
+
+export type DisputeReason =
+  | "link_expired"
+  | "already_used"
+  | "invalid_code"
+  | "other";
+
+// "open" until an admin resolves it as refunded (buyer was right) or rejected
+export type DisputeStatus = "open" | "refunded" | "rejected";
+
+export const DISPUTE_REASON_LABELS: Record<DisputeReason, string> = {
+  link_expired: "Invite link expired",
+  already_used: "Invite already used",
+  invalid_code: "Code or link doesn't work",
+  other: "Other",
+};
+
+// Buyers can open a dispute for this long after the purchase
+export const DISPUTE_WINDOW_DAYS = 14;
+
+export const MAX_DISPUTE_TEXT_LENGTH = 2000;
+
+/**
+ * Matches the sales a seller keeps the money for: not refunded through a
+ * dispute, and not refunded (or being refunded) out of escrow.
+ * Use it in Transaction queries that count sales or revenue.
+ */
+export function settledSaleFilter() {
+  return {
+    disputeStatus: { $ne: "refunded" },
+    escrowStatus: { $nin: ["refunded", "refunding"] },
+  };
+}
+
+export function isDisputeReason(value: unknown): value is DisputeReason {
+  return typeof value === "string" && value in DISPUTE_REASON_LABELS;
+}
+
+export function isDisputeOpenable(purchasedAt: Date | string): boolean {
+  const windowMs = DISPUTE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  return Date.now() - new Date(purchasedAt).getTime() <= windowMs;
+}
+
+// Dispute as returned by the API; free-text fields are only included for the
+// parties to the dispute and admins
+export interface DisputeSummary {
+  id: string;
+  transactionId: string;
+  listingSlug: string;
+  buyerAddress: string;
+  sellerAddress: string;
+  priceUsdc: number;
+  reason: DisputeReason;
+  status: DisputeStatus;
+  hasSellerResponse: boolean;
+  refundTxHash?: string;
+  createdAt: string;
+  resolvedAt?: string;
+  evidence?: string;
+  sellerResponse?: string;
+  resolutionNote?: string;
+}
+
+export function toDisputeSummary(
+  dispute: Omit<IDispute, "transactionId"> & {
+    _id: { toString(): string };
+    transactionId: { toString(): string };
+  },
+  includeDetails: boolean
+): DisputeSummary {
+  return {
+    id: dispute._id.toString(),
+    transactionId: dispute.transactionId.toString(),
+    listingSlug: dispute.listingSlug,
+    buyerAddress: dispute.buyerAddress,
+    sellerAddress: dispute.sellerAddress,
+    priceUsdc: dispute.priceUsdc,
+    reason: dispute.reason,
+    status: dispute.status,
+    hasSellerResponse: !!dispute.sellerResponse,
+    refundTxHash: dispute.refundTxHash,
+    createdAt: new Date(dispute.createdAt).toISOString(),
+    resolvedAt: dispute.resolvedAt
+      ? new Date(dispute.resolvedAt).toISOString()
+      : undefined,
+    ...(includeDetails
+      ? {
+          evidence: dispute.evidence,
+          sellerResponse: dispute.sellerResponse,
+          resolutionNote: dispute.resolutionNote,
+        }
+      : {}),
+  };
+}
@@ -0,0 +1,167 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+/**
+ * Envelope encryption for secrets stored at rest.
+ *
+ * Every value is encrypted with its own random data key (AES-256-GCM), and the
+ * data key is wrapped by a server key from SECRETS_ENCRYPTION_KEYS. Both layers
+ * are bound to a caller-provided context (e.g. "listing:abc123:inviteUrl") so a
+ * ciphertext copied onto another document fails to decrypt.
+ *
+ * Stored format: enc:v1:<keyId>:<wrappedDataKey>:<ciphertext>
+ *
+ * SECRETS_ENCRYPTION_KEYS is a comma-separated list of `<keyId>:<base64 key>`
+ * entries (32-byte keys, e.g. `openssl rand -base64 32`). The first key wraps
+ * new values; the others are only used to unwrap. To rotate, prepend a new key
+ * and re-wrap existing values with `pnpm migrate:encrypt-secrets`.
+ */
+
+const PREFIX = "enc:v1:";
+const ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+interface ServerKey {
+  id: string;
+  key: Buffer;
+}
+
+interface EncryptedSecret {
+  keyId: string;
+  wrappedKey: string;
+  ciphertext: string;
+}
+
+let keyringCache: { raw: string; keys: ServerKey[] } | null = null;
+
+// Parsed lazily so scripts can load .env.local before the first use
+function getServerKeys(): ServerKey[] {
+  const raw = process.env.SECRETS_ENCRYPTION_KEYS || "";
+  if (keyringCache?.raw === raw) return keyringCache.keys;
+
+  const keys = raw
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(":");
+      if (separator <= 0) {
+        throw new Error(
+          "Invalid SECRETS_ENCRYPTION_KEYS entry, expected <keyId>:<base64 key>"
+        );
+      }
+      const id = entry.slice(0, separator);
+      const key = Buffer.from(entry.slice(separator + 1), "base64");
+      if (key.length !== KEY_LENGTH) {
+        throw new Error(`Encryption key "${id}" must be ${KEY_LENGTH} bytes`);
+      }
+      return { id, key };
+    });
+
+  if (keys.length === 0) {
+    throw new Error("SECRETS_ENCRYPTION_KEYS is not configured");
+  }
+
+  keyringCache = { raw, keys };
+  return keys;
+}
+
+function getServerKey(keyId: string): ServerKey {
+  const serverKey = getServerKeys().find((k) => k.id === keyId);
+  if (!serverKey) {
+    throw new Error(`Unknown encryption key "${keyId}"`);
+  }
+  return serverKey;
+}
+
+// Output layout: iv | auth tag | ciphertext, base64url encoded
+function seal(key: Buffer, plaintext: Buffer, context: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(context, "utf-8"));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString(
+    "base64url"
+  );
+}
+
+function open(key: Buffer, sealed: string, context: string): Buffer {
+  const data = Buffer.from(sealed, "base64url");
+  const iv = data.subarray(0, IV_LENGTH);
+  const tag = data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAAD(Buffer.from(context, "utf-8"));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([
+    decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)),
+    decipher.final(),
+  ]);
+}
+
+function parse(value: string): EncryptedSecret {
+  const [keyId, wrappedKey, ciphertext] = value
+    .slice(PREFIX.length)
+    .split(":");
+  if (!keyId || !wrappedKey || !ciphertext) {
+    throw new Error("Malformed encrypted secret");
+  }
+  return { keyId, wrappedKey, ciphertext };
+}
+
+function unwrapDataKey(secret: EncryptedSecret, context: string): Buffer {
+  return open(getServerKey(secret.keyId).key, secret.wrappedKey, context);
+}
+
+/**
+ * Whether a stored value is already encrypted (as opposed to legacy plaintext).
+ */
+export function isEncryptedSecret(value: string | null | undefined): boolean {
+  return !!value && value.startsWith(PREFIX);
+}
+
+/**
+ * Encrypts a secret under a fresh data key wrapped by the current server key.
+ */
+export function encryptSecret(plaintext: string, context: string): string {
+  const serverKey = getServerKeys()[0];
+  const dataKey = randomBytes(KEY_LENGTH);
+  const wrappedKey = seal(serverKey.key, dataKey, context);
+  const ciphertext = seal(dataKey, Buffer.from(plaintext, "utf-8"), context);
+  return `${PREFIX}${serverKey.id}:${wrappedKey}:${ciphertext}`;
+}
+
+/**
+ * Decrypts a stored secret. Values that were never encrypted (documents not yet
+ * migrated) are returned unchanged.
+ */
+export function decryptSecret(value: string, context: string): string {
+  if (!isEncryptedSecret(value)) return value;
+
+  const secret = parse(value);
+  const dataKey = unwrapDataKey(secret, context);
+  return open(dataKey, secret.ciphertext, context).toString("utf-8");
+}
+
+/**
+ * Whether an encrypted value is wrapped by a key other than the current one.
+ */
+export function needsRewrap(value: string): boolean {
+  return (
+    isEncryptedSecret(value) && parse(value).keyId !== getServerKeys()[0].id
+  );
+}
+
+/**
+ * Re-wraps the data key of an encrypted value with the current server key.
+ * The ciphertext itself is unchanged, so rotation never handles the plaintext.
+ */
+export function rewrapSecret(value: string, context: string): string {
+  const secret = parse(value);
+  const serverKey = getServerKeys()[0];
+  if (secret.keyId === serverKey.id) return value;
+
+  const dataKey = unwrapDataKey(secret, context);
+  const wrappedKey = seal(serverKey.key, dataKey, context);
+  return `${PREFIX}${serverKey.id}:${wrappedKey}:${secret.ciphertext}`;
+}
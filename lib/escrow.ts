@@ -0,0 +1,432 @@
+/**
+ * Escrowed payments
+ *
+ * When ESCROW_ADDRESS is set, x402 purchases pay the platform escrow wallet
+ * instead of the seller. The Transaction is recorded as "pending_release" and
+ * the seller is paid from the escrow wallet once the buyer confirms the invite
+ * worked, or when the confirmation window (ESCROW_RELEASE_HOURS) has passed.
+ * Admins can refund the buyer instead. Purchases with an open dispute are never
+ * released automatically.
+ *
+ * Every payout is claimed atomically before the transfer is sent, so a purchase
+ * can't be paid out twice, and each step is appended to Transaction.escrowEvents.
+ *
+ * Used by the purchase route, `/api/escrow/confirm`, `/api/admin/escrow/*`
+ * and `pnpm escrow:release`.
+ */
+
+import {
+  createPublicClient,
+  createWalletClient,
+  http,
+  parseAbi,
+  type PublicClient,
+  type WalletClient,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { connectDB } from "@/lib/mongoose";
+import {
+  chainId,
+  defaultRpcUrl,
+  toUsdcUnits,
+  usdcAddress,
+} from "@/lib/chain";
+import {
+  Transaction,
+  type EscrowStatus,
+  type IEscrowEvent,
+} from "@/models/transaction";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type EscrowPayoutAction = "release" | "refund";
+
+export interface EscrowPayoutOptions {
+  // RPC endpoint (an anvil-style local node works for testing)
+  rpcUrl?: string;
+  // USDC contract override, for local chains with a mock token
+  tokenAddress?: `0x${string}`;
+  // Inject clients directly (e.g. in tests)
+  publicClient?: PublicClient;
+  walletClient?: WalletClient;
+}
+
+export type EscrowPayoutResult =
+  | { ok: true; txHash: string; status: EscrowStatus }
+  | { ok: false; error: string; status: number };
+
+export interface EscrowReleaseEntry {
+  transactionId: string;
+  listingSlug: string;
+  sellerAddress: string;
+  priceUsdc: number;
+  outcome: "released" | "would_release" | "failed";
+  txHash?: string;
+  error?: string;
+}
+
+export interface EscrowReleaseReport {
+  dryRun: boolean;
+  due: number;
+  released: number;
+  failed: number;
+  entries: EscrowReleaseEntry[];
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const ERC20_ABI = parseAbi([
+  "function transfer(address to, uint256 amount) returns (bool)",
+]);
+
+const DEFAULT_RELEASE_HOURS = 72;
+
+export function isEscrowEnabled(): boolean {
+  return !!process.env.ESCROW_ADDRESS;
+}
+
+export function getEscrowAddress(): `0x${string}` {
+  const address = process.env.ESCROW_ADDRESS;
+  if (!address) {
+    throw new Error("ESCROW_ADDRESS is not configured");
+  }
+  return address.toLowerCase() as `0x${string}`;
+}
+
+/**
+ * When funds paid now are released to the seller if the buyer doesn't confirm.
+ */
+export function getEscrowReleaseAt(from: Date = new Date()): Date {
+  const hours =
+    Number(process.env.ESCROW_RELEASE_HOURS) || DEFAULT_RELEASE_HOURS;
+  return new Date(from.getTime() + hours * 60 * 60 * 1000);
+}
+
+export function getEscrowRpcUrl(): string {
+  return process.env.ESCROW_RPC_URL || defaultRpcUrl;
+}
+
+function getEscrowTokenAddress(options: EscrowPayoutOptions): `0x${string}` {
+  return (
+    options.tokenAddress ??
+    (process.env.ESCROW_TOKEN_ADDRESS as `0x${string}` | undefined) ??
+    usdcAddress
+  );
+}
+
+function getWalletClient(options: EscrowPayoutOptions): WalletClient {
+  if (options.walletClient) return options.walletClient;
+
+  const privateKey = process.env.ESCROW_PRIVATE_KEY;
+  if (!privateKey) {
+    throw new Error("ESCROW_PRIVATE_KEY is not configured");
+  }
+
+  const account = privateKeyToAccount(privateKey as `0x${string}`);
+  if (account.address.toLowerCase() !== getEscrowAddress()) {
+    throw new Error("ESCROW_PRIVATE_KEY does not match ESCROW_ADDRESS");
+  }
+
+  return createWalletClient({
+    account,
+    transport: http(options.rpcUrl || getEscrowRpcUrl()),
+  });
+}
+
+function getPublicClient(options: EscrowPayoutOptions): PublicClient {
+  return (
+    options.publicClient ??
+    createPublicClient({ transport: http(options.rpcUrl || getEscrowRpcUrl()) })
+  );
+}
+
+// =============================================================================
+// PAYOUTS
+// =============================================================================
+
+function escrowEvent(
+  action: IEscrowEvent["action"],
+  actor: string,
+  extra: { txHash?: string; note?: string } = {}
+): IEscrowEvent {
+  return { action, actor: actor.toLowerCase(), ...extra, at: new Date() };
+}
+
+/**
+ * Audit event recorded when a purchase is paid into escrow.
+ */
+export function escrowHeldEvent(txHash?: string): IEscrowEvent {
+  return escrowEvent("held", "system", { txHash });
+}
+
+/**
+ * Sends an escrowed purchase to the seller (release) or back to the buyer (refund).
+ *
+ * The purchase is first moved to "releasing"/"refunding" so concurrent callers
+ * can't both pay it out. If the transfer fails before it is sent, or reverts,
+ * the purchase goes back to "pending_release". If the outcome is unknown (sent
+ * but never confirmed) it stays in "releasing"/"refunding" with the payout hash
+ * for an admin to check - it is never retried automatically.
+ */
+export async function payoutEscrow(
+  transactionId: string,
+  action: EscrowPayoutAction,
+  actor: string,
+  { note, ...options }: EscrowPayoutOptions & { note?: string } = {}
+): Promise<EscrowPayoutResult> {
+  await connectDB();
+
+  const inFlightStatus: EscrowStatus =
+    action === "release" ? "releasing" : "refunding";
+  const finalStatus: EscrowStatus =
+    action === "release" ? "released" : "refunded";
+
+  const transaction = await Transaction.findOneAndUpdate(
+    {
+      _id: transactionId,
+      chainId,
+      escrowStatus: "pending_release",
+      // Disputed purchases are only paid out to the seller once the dispute is resolved
+      ...(action === "release" ? { disputeStatus: { $ne: "open" } } : {}),
+    },
+    { $set: { escrowStatus: inFlightStatus } },
+    { new: true }
+  ).lean();
+
+  if (!transaction) {
+    const existing = await Transaction.findOne({ _id: transactionId, chainId })
+      .select("escrowStatus disputeStatus")
+      .lean();
+
+    if (!existing || !existing.escrowStatus) {
+      return { ok: false, error: "Escrowed purchase not found", status: 404 };
+    }
+    if (existing.escrowStatus === "pending_release") {
+      return {
+        ok: false,
+        error: "Purchase has an open dispute and can't be released",
+        status: 409,
+      };
+    }
+    return {
+      ok: false,
+      error: `Escrow is already ${existing.escrowStatus.replace("_", " ")}`,
+      status: 409,
+    };
+  }
+
+  const recipient =
+    action === "release" ? transaction.sellerAddress : transaction.buyerAddress;
+
+  let txHash: `0x${string}`;
+  try {
+    const walletClient = getWalletClient(options);
+    const publicClient = getPublicClient(options);
+
+    // Guard against paying out on the wrong network with the real USDC address
+    if (!options.tokenAddress && !process.env.ESCROW_TOKEN_ADDRESS) {
+      const rpcChainId = await publicClient.getChainId();
+      if (rpcChainId !== chainId) {
+        throw new Error(
+          `Escrow RPC is on chain ${rpcChainId}, expected ${chainId}`
+        );
+      }
+    }
+
+    txHash = await walletClient.writeContract({
+      address: getEscrowTokenAddress(options),
+      abi: ERC20_ABI,
+      functionName: "transfer",
+      args: [recipient as `0x${string}`, toUsdcUnits(transaction.priceUsdc)],
+      account: walletClient.account!,
+      chain: null,
+    });
+  } catch (error) {
+    // Nothing was sent - put the purchase back so it can be retried
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Escrow ${action} failed for ${transactionId}:`, error);
+    await Transaction.updateOne(
+      { _id: transaction._id, escrowStatus: inFlightStatus },
+      {
+        $set: { escrowStatus: "pending_release" },
+        $push: {
+          escrowEvents: escrowEvent("payout_failed", actor, {
+            note: `${action}: ${message}`.slice(0, 500),
+          }),
+        },
+      }
+    );
+    return { ok: false, error: `Payout failed: ${message}`, status: 502 };
+  }
+
+  // Record the hash before waiting, so an unconfirmed payout is never re-sent
+  const payoutTxHash = txHash.toLowerCase();
+  await Transaction.updateOne(
+    { _id: transaction._id },
+    { $set: { payoutTxHash } }
+  );
+
+  try {
+    const receipt = await getPublicClient(options).waitForTransactionReceipt({
+      hash: txHash,
+    });
+
+    if (receipt.status !== "success") {
+      await Transaction.updateOne(
+        { _id: transaction._id, escrowStatus: inFlightStatus },
+        {
+          $set: { escrowStatus: "pending_release" },
+          $unset: { payoutTxHash: "" },
+          $push: {
+            escrowEvents: escrowEvent("payout_failed", actor, {
+              txHash: payoutTxHash,
+              note: `${action}: transfer reverted`,
+            }),
+          },
+        }
+      );
+      return { ok: false, error: "Payout transfer reverted", status: 502 };
+    }
+  } catch (error) {
+    console.error(
+      `Escrow ${action} for ${transactionId} sent as ${payoutTxHash} but not confirmed:`,
+      error
+    );
+    return {
+      ok: false,
+      error: `Payout sent (${payoutTxHash}) but not yet confirmed - check it on the explorer`,
+      status: 504,
+    };
+  }
+
+  await Transaction.updateOne(
+    { _id: transaction._id, escrowStatus: inFlightStatus },
+    {
+      $set: { escrowStatus: finalStatus },
+      $push: {
+        escrowEvents: escrowEvent(finalStatus, actor, {
+          txHash: payoutTxHash,
+          note,
+        }),
+      },
+    }
+  );
+
+  return { ok: true, txHash: payoutTxHash, status: finalStatus };
+}
+
+/**
+ * Buyer confirmed the invite worked: record it and release the funds right away.
+ */
+export async function confirmEscrowDelivery(
+  transactionId: string,
+  buyerAddress: string,
+  options: EscrowPayoutOptions = {}
+): Promise<EscrowPayoutResult> {
+  await connectDB();
+
+  const confirmed = await Transaction.updateOne(
+    {
+      _id: transactionId,
+      chainId,
+      escrowStatus: "pending_release",
+      buyerConfirmedAt: { $exists: false },
+    },
+    {
+      $set: {
+        buyerConfirmedAt: new Date(),
+        // Confirming delivery counts as "it worked" feedback for the seller
+        deliveryFeedback: { worked: true, submittedAt: new Date() },
+      },
+      $push: { escrowEvents: escrowEvent("buyer_confirmed", buyerAddress) },
+    }
+  );
+
+  if (confirmed.modifiedCount === 0) {
+    const existing = await Transaction.findOne({ _id: transactionId, chainId })
+      .select("escrowStatus buyerConfirmedAt")
+      .lean();
+    // Already confirmed earlier but the release failed: retry it
+    if (
+      existing?.escrowStatus !== "pending_release" ||
+      !existing.buyerConfirmedAt
+    ) {
+      return {
+        ok: false,
+        error: existing?.escrowStatus
+          ? "This purchase is no longer held in escrow"
+          : "Escrowed purchase not found",
+        status: existing?.escrowStatus ? 409 : 404,
+      };
+    }
+  }
+
+  return payoutEscrow(transactionId, "release", buyerAddress, {
+    ...options,
+    note: "Buyer confirmed delivery",
+  });
+}
+
+/**
+ * Releases every escrowed purchase whose confirmation window has passed
+ * (skipping open disputes). Safe to run repeatedly, e.g. from cron.
+ */
+export async function releaseDueEscrows(
+  {
+    dryRun = false,
+    now = new Date(),
+    actor = "system",
+    ...options
+  }: EscrowPayoutOptions & { dryRun?: boolean; now?: Date; actor?: string } = {}
+): Promise<EscrowReleaseReport> {
+  await connectDB();
+
+  const due = await Transaction.find({
+    chainId,
+    escrowStatus: "pending_release",
+    escrowReleaseAt: { $lte: now },
+    disputeStatus: { $ne: "open" },
+  })
+    .select("_id listingSlug sellerAddress priceUsdc")
+    .sort({ escrowReleaseAt: 1 })
+    .lean();
+
+  const entries: EscrowReleaseEntry[] = [];
+
+  for (const transaction of due) {
+    const entry = {
+      transactionId: transaction._id.toString(),
+      listingSlug: transaction.listingSlug,
+      sellerAddress: transaction.sellerAddress,
+      priceUsdc: transaction.priceUsdc,
+    };
+
+    if (dryRun) {
+      entries.push({ ...entry, outcome: "would_release" });
+      continue;
+    }
+
+    const result = await payoutEscrow(entry.transactionId, "release", actor, {
+      ...options,
+      note: "Confirmation window passed",
+    });
+
+    entries.push(
+      result.ok
+        ? { ...entry, outcome: "released", txHash: result.txHash }
+        : { ...entry, outcome: "failed", error: result.error }
+    );
+  }
+
+  return {
+    dryRun,
+    due: due.length,
+    released: entries.filter((e) => e.outcome === "released").length,
+    failed: entries.filter((e) => e.outcome === "failed").length,
+    entries,
+  };
+}
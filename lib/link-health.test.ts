@@ -0,0 +1,85 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import type { AddressInfo } from "net";
+// Sets up the environment lib/mongoose.ts needs on import
+import "@/lib/test-db";
+import { createHttpProber, type HostResolver } from "@/lib/link-health";
+
+// A public address for the stubbed DNS answers
+const PUBLIC_ADDRESS = "192.88.99.1";
+
+describe("link prober", () => {
+  // Local server standing in for an internal service
+  let requests = 0;
+  let port = 0;
+  const server = http.createServer((_request, response) => {
+    requests++;
+    response.end("internal");
+  });
+
+  before(async () => {
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    port = (server.address() as AddressInfo).port;
+  });
+  after(() => {
+    server.close();
+  });
+
+  it("refuses private, loopback, link-local and CGNAT addresses", async () => {
+    const probe = createHttpProber({ timeoutMs: 1000 });
+
+    for (const url of [
+      `http://127.0.0.1:${port}/`,
+      `http://0.0.0.0:${port}/`,
+      `http://[::1]:${port}/`,
+      `http://[::ffff:127.0.0.1]:${port}/`,
+      "http://10.0.0.1/",
+      "http://192.168.1.1/",
+      "http://169.254.169.254/latest/meta-data/",
+      "http://100.64.0.1/",
+    ]) {
+      const result = await probe(url, { method: "GET" });
+      assert.equal(result.error, "Private address", url);
+    }
+    assert.equal(requests, 0);
+  });
+
+  it("refuses a host with any private address", async () => {
+    const probe = createHttpProber({
+      timeoutMs: 1000,
+      resolveHost: async () => [
+        { address: PUBLIC_ADDRESS, family: 4 },
+        { address: "127.0.0.1", family: 4 },
+      ],
+    });
+
+    const result = await probe(`http://invite.example:${port}/`, {
+      method: "GET",
+    });
+
+    assert.equal(result.error, "Private address");
+    assert.equal(requests, 0);
+  });
+
+  it("connects to the address it checked, not a rebound one", async () => {
+    // The system resolves localhost to the local server; the checked answer
+    // is public
+    const lookups: string[] = [];
+    const resolveHost: HostResolver = async (hostname) => {
+      lookups.push(hostname);
+      return [{ address: PUBLIC_ADDRESS, family: 4 }];
+    };
+    const probe = createHttpProber({ timeoutMs: 1000, resolveHost });
+
+    const result = await probe(`http://localhost:${port}/`, {
+      method: "GET",
+    });
+
+    assert.notEqual(result.error, "Private address");
+    assert.deepEqual(lookups, ["localhost"]);
+    assert.equal(requests, 0);
+  });
+});
@@ -0,0 +1,491 @@
+import http from "http";
+import https from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import { lookup } from "dns/promises";
+import type { LookupAddress } from "dns";
+import { connectDB } from "@/lib/mongoose";
+import { Listing, type LinkHealthStatus } from "@/models/listing";
+import { chainId } from "@/lib/chain";
+import { openListingSecrets } from "@/lib/listing-secrets";
+import { getInviteLinkRules } from "@/data/inviteLinkRules";
+
+// Invite-link health checks. A prober fetches the invite URL server-side
+// (HEAD, then GET for the page text), the app's rules in data/inviteLinkRules.ts
+// decide whether the invite is dead, and the result is stored on the listing.
+
+// Consecutive dead checks after which an active listing is paused
+export const LINK_FAILURES_BEFORE_PAUSE = 3;
+
+// How often scripts/check-listing-links.ts re-checks a listing
+export const LINK_CHECK_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// A live result newer than this shows the "Verified live" badge
+const VERIFIED_LIVE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Only the start of a page is searched for "invite expired" text
+const MAX_BODY_BYTES = 64 * 1024;
+
+export interface ProbeResult {
+  // HTTP status of the final response (0 when no response was received)
+  status: number;
+  // URL the invite ended up on after redirects
+  finalUrl: string;
+  // Start of the page text, when the prober read it
+  body?: string;
+  error?: string;
+}
+
+/**
+ * Fetches an invite URL and reports where it ended up.
+ * The HTTP prober is used by default; setLinkProber swaps it, e.g. for a
+ * prober pointed at a local HTTP stub.
+ */
+export type LinkProber = (
+  url: string,
+  options: { method: "HEAD" | "GET" }
+) => Promise<ProbeResult>;
+
+export interface LinkCheck {
+  status: LinkHealthStatus;
+  // Why the link isn't live, shown to the seller
+  reason?: string;
+  checkedAt: Date;
+}
+
+// Addresses a probe must never reach: loopback, private, link-local, CGNAT,
+// multicast and reserved ranges. IPv4-mapped IPv6 (::ffff:a.b.c.d) is checked
+// against the IPv4 ranges by BlockList itself.
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  // NAT64, which can reach IPv4 ranges through a gateway
+  ["64:ff9b::", 96],
+  ["100::", 64],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  return (
+    family === 0 ||
+    BLOCKED_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6")
+  );
+}
+
+// Every address of a host, like dns.lookup with `all`
+export type HostResolver = (hostname: string) => Promise<LookupAddress[]>;
+
+const resolveWithDns: HostResolver = (hostname) =>
+  lookup(hostname, { all: true, verbatim: true });
+
+/**
+ * Resolves a host to the address a probe connects to, or null when any of its
+ * addresses is private (so DNS rebinding between checks can't pick another).
+ */
+async function resolvePublicAddress(
+  hostname: string,
+  resolveHost: HostResolver
+): Promise<LookupAddress | null> {
+  const host = hostname.replace(/^\[|\]$/g, "");
+  const family = isIP(host);
+  if (family) {
+    return isPrivateAddress(host) ? null : { address: host, family };
+  }
+
+  let addresses: LookupAddress[];
+  try {
+    addresses = await resolveHost(host);
+  } catch {
+    return null;
+  }
+  if (
+    addresses.length === 0 ||
+    addresses.some(({ address }) => isPrivateAddress(address))
+  ) {
+    return null;
+  }
+  return addresses[0];
+}
+
+// Makes the connection use the already-checked address instead of resolving
+// the host again
+function pinnedLookup(pinned: LookupAddress): LookupFunction {
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [pinned]);
+    } else {
+      callback(null, pinned.address, pinned.family);
+    }
+  };
+}
+
+/**
+ * Sends one request without following redirects, reading at most
+ * MAX_BODY_BYTES of the body for GET requests.
+ */
+function sendProbeRequest(
+  url: URL,
+  {
+    method,
+    timeoutMs,
+    address,
+  }: {
+    method: "HEAD" | "GET";
+    timeoutMs: number;
+    // Connect to this address; resolved normally when not set
+    address?: LookupAddress;
+  }
+): Promise<{ status: number; location?: string; body?: string }> {
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === "https:" ? https : http).request(
+      url,
+      {
+        method,
+        headers: { "User-Agent": "invite.markets link checker" },
+        ...(address ? { lookup: pinnedLookup(address) } : {}),
+      },
+      (response) => {
+        const status = response.statusCode ?? 0;
+        const location = response.headers.location;
+        if (method !== "GET" || (status >= 300 && status < 400)) {
+          response.destroy();
+          resolve({ status, location });
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        let total = 0;
+        const finish = () => {
+          response.destroy();
+          resolve({
+            status,
+            location,
+            body: new TextDecoder().decode(
+              Buffer.concat(chunks).subarray(0, MAX_BODY_BYTES)
+            ),
+          });
+        };
+        response.on("data", (chunk: Buffer) => {
+          chunks.push(chunk);
+          total += chunk.length;
+          if (total >= MAX_BODY_BYTES) finish();
+        });
+        response.on("end", finish);
+        response.on("error", finish);
+      }
+    );
+
+    request.setTimeout(timeoutMs, () => {
+      request.destroy(new Error("Timed out"));
+    });
+    request.on("error", reject);
+    request.end();
+  });
+}
+
+/**
+ * Prober that fetches the URL over HTTP, following redirects itself so every hop
+ * can be checked. Unless allowPrivateHosts is set, each hop's host is resolved
+ * first (with resolveHost, DNS by default), refused if it has a private
+ * address, and connected to at the address that was checked.
+ */
+export function createHttpProber({
+  timeoutMs = 5000,
+  maxRedirects = 5,
+  allowPrivateHosts = false,
+  resolveHost = resolveWithDns,
+}: {
+  timeoutMs?: number;
+  maxRedirects?: number;
+  allowPrivateHosts?: boolean;
+  resolveHost?: HostResolver;
+} = {}): LinkProber {
+  return async (url, { method }) => {
+    let currentUrl = url;
+
+    for (let hop = 0; hop <= maxRedirects; hop++) {
+      let parsed: URL;
+      try {
+        parsed = new URL(currentUrl);
+      } catch {
+        return { status: 0, finalUrl: currentUrl, error: "Invalid URL" };
+      }
+
+      if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+        return { status: 0, finalUrl: currentUrl, error: "Unsupported URL" };
+      }
+
+      let address: LookupAddress | undefined;
+      if (!allowPrivateHosts) {
+        const resolved = await resolvePublicAddress(
+          parsed.hostname,
+          resolveHost
+        );
+        if (!resolved) {
+          return { status: 0, finalUrl: currentUrl, error: "Private address" };
+        }
+        address = resolved;
+      }
+
+      let response: Awaited<ReturnType<typeof sendProbeRequest>>;
+      try {
+        response = await sendProbeRequest(parsed, {
+          method,
+          timeoutMs,
+          address,
+        });
+      } catch (error) {
+        return {
+          status: 0,
+          finalUrl: currentUrl,
+          error:
+            error instanceof Error && error.message === "Timed out"
+              ? "Timed out"
+              : "Request failed",
+        };
+      }
+
+      if (
+        response.status >= 300 &&
+        response.status < 400 &&
+        response.location
+      ) {
+        currentUrl = new URL(response.location, currentUrl).toString();
+        continue;
+      }
+
+      return {
+        status: response.status,
+        finalUrl: currentUrl,
+        body: response.body,
+      };
+    }
+
+    return { status: 0, finalUrl: currentUrl, error: "Too many redirects" };
+  };
+}
+
+let prober: LinkProber = createHttpProber();
+
+// Replaces the prober used by every check
+export function setLinkProber(next: LinkProber) {
+  prober = next;
+}
+
+// Classifies a probe: null if it shows nothing wrong yet
+function evaluateProbe(
+  url: string,
+  probe: ProbeResult,
+  rules: ReturnType<typeof getInviteLinkRules>
+): Omit<LinkCheck, "checkedAt"> | null {
+  if (probe.error || probe.status === 0) {
+    return { status: "unreachable", reason: probe.error || "No response" };
+  }
+  if (probe.status === 404 || probe.status === 410) {
+    return { status: "dead", reason: `Page not found (${probe.status})` };
+  }
+  if (
+    probe.finalUrl !== url &&
+    rules.deadRedirectPatterns.some((pattern) => pattern.test(probe.finalUrl))
+  ) {
+    return { status: "dead", reason: "Redirects to an error page" };
+  }
+  if (
+    probe.body &&
+    rules.deadTextPatterns.some((pattern) => pattern.test(probe.body!))
+  ) {
+    return {
+      status: "dead",
+      reason: "Page says the invite is no longer valid",
+    };
+  }
+  // Bot protection and outages don't say anything about the invite itself
+  if (probe.status >= 400) {
+    return { status: "unreachable", reason: `HTTP ${probe.status}` };
+  }
+  return null;
+}
+
+/**
+ * Probes an invite URL and classifies it as live, dead or unreachable.
+ * A HEAD request catches missing pages and error redirects cheaply; otherwise
+ * the page is fetched with GET and its text checked for "invite expired" pages.
+ */
+export async function checkInviteLink(
+  inviteUrl: string,
+  appId?: string
+): Promise<LinkCheck> {
+  const rules = getInviteLinkRules(appId, inviteUrl);
+  const checkedAt = new Date();
+
+  const head = await prober(inviteUrl, { method: "HEAD" });
+  const headResult = evaluateProbe(inviteUrl, head, rules);
+  if (headResult?.status === "dead") {
+    return { ...headResult, checkedAt };
+  }
+
+  // Page text needs a GET, which also gives sites that reject HEAD a second chance
+  const get = await prober(inviteUrl, { method: "GET" });
+  const getResult = evaluateProbe(inviteUrl, get, rules);
+  return { ...(getResult ?? { status: "live" }), checkedAt };
+}
+
+/**
+ * Stores a check on a listing in one atomic update.
+ * Dead results are counted; an active listing is paused after
+ * LINK_FAILURES_BEFORE_PAUSE in a row, and a paused listing goes back on sale
+ * once its link is live again. Unreachable results (outages, bot protection)
+ * leave the count alone.
+ * Returns the updated listing.
+ */
+export async function recordLinkCheck(slug: string, check: LinkCheck) {
+  await connectDB();
+
+  return Listing.findOneAndUpdate(
+    { slug, chainId },
+    [
+      {
+        $set: {
+          healthStatus: check.status,
+          healthReason: check.reason ?? "$$REMOVE",
+          healthCheckedAt: check.checkedAt,
+          healthFailures:
+            check.status === "live"
+              ? 0
+              : check.status === "dead"
+                ? { $add: [{ $ifNull: ["$healthFailures", 0] }, 1] }
+                : { $ifNull: ["$healthFailures", 0] },
+        },
+      },
+      {
+        $set: {
+          status: {
+            $switch: {
+              branches: [
+                {
+                  case: {
+                    $and: [
+                      { $eq: ["$status", "active"] },
+                      { $eq: ["$healthStatus", "dead"] },
+                      {
+                        $gte: ["$healthFailures", LINK_FAILURES_BEFORE_PAUSE],
+                      },
+                    ],
+                  },
+                  then: "paused",
+                },
+                {
+                  case: {
+                    $and: [
+                      { $eq: ["$status", "paused"] },
+                      { $eq: ["$healthStatus", "live"] },
+                    ],
+                  },
+                  then: "active",
+                },
+              ],
+              default: "$status",
+            },
+          },
+        },
+      },
+    ],
+    { new: true, updatePipeline: true }
+  );
+}
+
+/**
+ * Whether a listing's invite link passed a recent check.
+ */
+export function isVerifiedLive(listing: {
+  healthStatus?: LinkHealthStatus;
+  healthCheckedAt?: Date;
+}): boolean {
+  return (
+    listing.healthStatus === "live" &&
+    !!listing.healthCheckedAt &&
+    Date.now() - new Date(listing.healthCheckedAt).getTime() <
+      VERIFIED_LIVE_MAX_AGE_MS
+  );
+}
+
+export interface LinkCheckReportEntry {
+  slug: string;
+  status: LinkHealthStatus;
+  reason?: string;
+  // Listing status after the check (e.g. "paused")
+  listingStatus?: string;
+}
+
+/**
+ * Re-checks invite links not checked within LINK_CHECK_INTERVAL_MS, oldest first.
+ * Active and paused listings are checked, so paused ones can come back once live.
+ * Run periodically by scripts/check-listing-links.ts.
+ */
+export async function checkDueListingLinks({
+  limit = 100,
+  dryRun = false,
+}: {
+  limit?: number;
+  dryRun?: boolean;
+} = {}): Promise<LinkCheckReportEntry[]> {
+  await connectDB();
+
+  const checkedBefore = new Date(Date.now() - LINK_CHECK_INTERVAL_MS);
+  const listings = await Listing.find({
+    chainId,
+    listingType: { $in: ["invite_link", null] },
+    status: { $in: ["active", "paused"] },
+    $or: [
+      { healthCheckedAt: { $exists: false } },
+      { healthCheckedAt: { $lt: checkedBefore } },
+    ],
+  })
+    .sort({ healthCheckedAt: 1 })
+    .limit(limit)
+    .lean();
+
+  const entries: LinkCheckReportEntry[] = [];
+
+  // One at a time, to stay gentle with the apps being checked
+  for (const listing of listings) {
+    const { inviteUrl } = openListingSecrets(listing);
+    if (!inviteUrl) continue;
+
+    const check = await checkInviteLink(inviteUrl, listing.appId);
+    const updated = dryRun ? null : await recordLinkCheck(listing.slug, check);
+
+    entries.push({
+      slug: listing.slug,
+      status: check.status,
+      reason: check.reason,
+      listingStatus: updated?.status ?? listing.status,
+    });
+  }
+
+  return entries;
+}
@@ -0,0 +1,47 @@
+// In-process cache of listing feed pages (lib/listing-feed.ts), keyed by query.
+// Routes that create, update, delete or sell listings call invalidateListingCache;
+// changes made by scripts in other processes (expiry sweeps, link checks) show
+// up once entries expire.
+
+const CACHE_TTL_MS = 30 * 1000;
+
+const MAX_CACHE_ENTRIES = 500;
+
+const entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+// Bumped on every invalidation, so a page loaded before it isn't cached after it
+let generation = 0;
+
+/**
+ * Returns the cached value for a key, or loads and caches it.
+ */
+export async function getCachedListingPage<T>(
+  key: string,
+  load: () => Promise<T>
+): Promise<T> {
+  const cached = entries.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.value as T;
+  }
+
+  const startedAt = generation;
+  const value = await load();
+
+  if (generation === startedAt) {
+    // Maps keep insertion order, so the first key is the oldest entry
+    if (entries.size >= MAX_CACHE_ENTRIES) {
+      entries.delete(entries.keys().next().value!);
+    }
+    entries.set(key, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+  }
+
+  return value;
+}
+
+/**
+ * Drops every cached page, e.g. after a listing was created or sold.
+ */
+export function invalidateListingCache() {
+  generation++;
+  entries.clear();
+}
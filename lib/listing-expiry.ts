@@ -0,0 +1,56 @@
+// Shared (client-safe) helpers for listings with an expiry.
+// Sellers pick an expiry when listing or renewing; past it, the listing drops off the
+// market and scripts/expire-listings.ts marks it "expired".
+
+// Longest a listing can run before the seller has to renew it
+export const MAX_LISTING_EXPIRY_DAYS = 90;
+
+// Expiry choices in the sell form and the edit modal (0 = never expires)
+export const LISTING_EXPIRY_OPTIONS = [0, 7, 14, 30, MAX_LISTING_EXPIRY_DAYS];
+
+// Expiry signed for a listing that runs for `days` (Unix seconds, 0 = never expires)
+export function getListingExpiry(days: number): number {
+  if (days <= 0) return 0;
+  return Math.floor(Date.now() / 1000) + days * 24 * 60 * 60;
+}
+
+// The signed expiry (Unix seconds, 0 = never expires) of a stored expiresAt
+export function toListingExpirySeconds(expiresAt?: Date | string | null): number {
+  return expiresAt ? Math.floor(new Date(expiresAt).getTime() / 1000) : 0;
+}
+
+/**
+ * Validates a signed listing expiry (Unix seconds, 0 = never expires).
+ * Returns an error message, or null if the expiry is valid.
+ */
+export function validateListingExpiry(expiresAt: unknown): string | null {
+  if (typeof expiresAt !== "number" || !Number.isInteger(expiresAt)) {
+    return "Expiry must be a Unix timestamp in seconds";
+  }
+  if (expiresAt === 0) return null;
+
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  if (
+    expiresAt <= nowSeconds ||
+    expiresAt > nowSeconds + MAX_LISTING_EXPIRY_DAYS * 24 * 60 * 60
+  ) {
+    return `Expiry must be within the next ${MAX_LISTING_EXPIRY_DAYS} days`;
+  }
+  return null;
+}
+
+/**
+ * Whether a listing is past its expiry, whether or not the sweep has marked it yet.
+ */
+export function isPastExpiry(expiresAt?: Date | string | null): boolean {
+  return !!expiresAt && new Date(expiresAt).getTime() <= Date.now();
+}
+
+// "3d left" style label for a listing's remaining time
+export function formatTimeLeft(expiresAt: Date | string): string {
+  const diffMs = new Date(expiresAt).getTime() - Date.now();
+  const diffHours = Math.floor(diffMs / 3600000);
+  if (diffHours < 1) return "< 1h left";
+  if (diffHours < 24) return `${diffHours}h left`;
+  return `${Math.floor(diffHours / 24)}d left`;
+}
@@ -0,0 +1,399 @@
+import mongoose, { type PipelineStage } from "mongoose";
+import { connectDB } from "@/lib/mongoose";
+import { Listing, type IListing } from "@/models/listing";
+import { App, type IApp } from "@/models/app";
+import { Transaction } from "@/models/transaction";
+import { chainId } from "@/lib/chain";
+import { describeListingApp, findApp, getAppsBySlug } from "@/lib/apps";
+import { hasUsesLeftExpression, notExpiredFilter } from "@/lib/listing";
+import { isVerifiedLive } from "@/lib/link-health";
+import { getSellerDeliveryStats } from "@/lib/seller-delivery";
+import { getCachedListingPage } from "@/lib/listing-cache";
+import type { DeliveryStats } from "@/lib/delivery-feedback";
+import type {
+  ListingFeedPage,
+  Listing as PublicListing,
+} from "@/lib/listings";
+import {
+  DEFAULT_LISTING_QUERY,
+  toListingSearchParams,
+  type ListingQuery,
+} from "@/lib/listing-query";
+
+// The public listings feed behind GET /api/listings and the server-rendered
+// first pages of /listings and /. Filters, availability and sorting run in the
+// database; pages are cached in-process (lib/listing-cache.ts).
+
+export type ListingFeedResult =
+  | { ok: true; page: ListingFeedPage }
+  | { ok: false; error: string; status: number };
+
+interface SortKey {
+  field: string;
+  order: 1 | -1;
+}
+
+// Fields of the public listing, plus the computed sort fields
+const FEED_PROJECTION = {
+  slug: 1,
+  listingType: 1,
+  priceUsdc: 1,
+  sellerAddress: 1,
+  status: 1,
+  appId: 1,
+  appName: 1,
+  appUrl: 1,
+  inviteDomain: 1,
+  maxUses: 1,
+  purchaseCount: 1,
+  codePoolSize: 1,
+  description: 1,
+  expiresAt: 1,
+  healthStatus: 1,
+  healthCheckedAt: 1,
+  createdAt: 1,
+  updatedAt: 1,
+  sortAppName: 1,
+  sortDeliveryRated: 1,
+  sortDeliveryRate: 1,
+  sortDeliveryCount: 1,
+};
+
+type FeedRow = Pick<
+  IListing,
+  | "slug"
+  | "listingType"
+  | "priceUsdc"
+  | "sellerAddress"
+  | "status"
+  | "appId"
+  | "appName"
+  | "appUrl"
+  | "inviteDomain"
+  | "maxUses"
+  | "purchaseCount"
+  | "codePoolSize"
+  | "description"
+  | "expiresAt"
+  | "healthStatus"
+  | "healthCheckedAt"
+  | "createdAt"
+  | "updatedAt"
+> & { _id: mongoose.Types.ObjectId } & Record<string, unknown>;
+
+// Sort keys for a query, ending with _id so every listing has a unique position
+function getSortKeys(query: ListingQuery): SortKey[] {
+  const order = query.direction === "asc" ? 1 : -1;
+
+  switch (query.sort) {
+    case "price":
+      return [
+        { field: "priceUsdc", order },
+        { field: "_id", order },
+      ];
+    case "app":
+      return [
+        { field: "sortAppName", order },
+        { field: "_id", order },
+      ];
+    case "delivery":
+      // Sellers without feedback last in either direction, like the client sort
+      return [
+        { field: "sortDeliveryRated", order: -1 },
+        { field: "sortDeliveryRate", order },
+        { field: "sortDeliveryCount", order },
+        { field: "_id", order },
+      ];
+    default:
+      return [
+        { field: "createdAt", order },
+        { field: "_id", order },
+      ];
+  }
+}
+
+// Stages adding the computed fields a sort needs
+function getSortStages(query: ListingQuery): PipelineStage[] {
+  if (query.sort === "app") {
+    return [
+      {
+        $lookup: {
+          from: App.collection.name,
+          let: { appId: "$appId" },
+          pipeline: [
+            { $match: { $expr: { $eq: ["$slug", "$$appId"] } } },
+            { $project: { name: 1 } },
+          ],
+          as: "sortApp",
+        },
+      },
+      {
+        $addFields: {
+          sortAppName: {
+            $toLower: {
+              $ifNull: [
+                { $arrayElemAt: ["$sortApp.name", 0] },
+                { $ifNull: ["$appName", { $ifNull: ["$appId", ""] }] },
+              ],
+            },
+          },
+        },
+      },
+    ];
+  }
+
+  if (query.sort === "delivery") {
+    return [
+      {
+        $lookup: {
+          from: Transaction.collection.name,
+          let: { seller: "$sellerAddress" },
+          pipeline: [
+            {
+              $match: {
+                $expr: { $eq: ["$sellerAddress", "$$seller"] },
+                chainId,
+                "deliveryFeedback.worked": { $exists: true },
+              },
+            },
+            {
+              $group: {
+                _id: null,
+                worked: { $sum: { $cond: ["$deliveryFeedback.worked", 1, 0] } },
+                total: { $sum: 1 },
+              },
+            },
+          ],
+          as: "sortDelivery",
+        },
+      },
+      {
+        $addFields: {
+          sortDeliveryCount: {
+            $ifNull: [{ $arrayElemAt: ["$sortDelivery.total", 0] }, 0],
+          },
+          sortDeliveryWorked: {
+            $ifNull: [{ $arrayElemAt: ["$sortDelivery.worked", 0] }, 0],
+          },
+        },
+      },
+      {
+        $addFields: {
+          sortDeliveryRated: {
+            $cond: [{ $gt: ["$sortDeliveryCount", 0] }, 1, 0],
+          },
+          sortDeliveryRate: {
+            $cond: [
+              { $gt: ["$sortDeliveryCount", 0] },
+              { $divide: ["$sortDeliveryWorked", "$sortDeliveryCount"] },
+              0,
+            ],
+          },
+        },
+      },
+    ];
+  }
+
+  return [];
+}
+
+// Cursor values are tagged so dates and ids survive the JSON round trip
+type CursorValue = string | number | { d: string } | { o: string };
+
+function encodeCursor(query: ListingQuery, row: FeedRow): string {
+  const values: CursorValue[] = getSortKeys(query).map(({ field }) => {
+    const value = row[field];
+    if (value instanceof Date) return { d: value.toISOString() };
+    if (value instanceof mongoose.Types.ObjectId) {
+      return { o: value.toString() };
+    }
+    return value as string | number;
+  });
+  return Buffer.from(
+    JSON.stringify({ s: `${query.sort}:${query.direction}`, v: values })
+  ).toString("base64url");
+}
+
+// The sort values of the cursor's listing, or null if it doesn't fit the query
+function decodeCursor(query: ListingQuery, cursor: string): unknown[] | null {
+  try {
+    const { s, v } = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (
+      s !== `${query.sort}:${query.direction}` ||
+      !Array.isArray(v) ||
+      v.length !== getSortKeys(query).length
+    ) {
+      return null;
+    }
+    return (v as CursorValue[]).map((value) => {
+      if (value && typeof value === "object" && "d" in value) {
+        return new Date(value.d);
+      }
+      if (value && typeof value === "object" && "o" in value) {
+        return new mongoose.Types.ObjectId(value.o);
+      }
+      return value;
+    });
+  } catch {
+    return null;
+  }
+}
+
+// Match for the listings after the cursor's listing in sort order
+function afterCursorFilter(keys: SortKey[], values: unknown[]) {
+  return {
+    $or: keys.map((key, i) => ({
+      ...Object.fromEntries(
+        keys.slice(0, i).map((previous, j) => [previous.field, values[j]])
+      ),
+      [key.field]: { [key.order === 1 ? "$gt" : "$lt"]: values[i] },
+    })),
+  };
+}
+
+/**
+ * A listing as returned by the API: public fields only, with the app's name and
+ * icon from the registry and the seller's delivery stats.
+ */
+export function toPublicListing(
+  listing: FeedRow,
+  app: IApp | null | undefined,
+  sellerDelivery: DeliveryStats | null
+): PublicListing {
+  return {
+    slug: listing.slug,
+    listingType: listing.listingType || "invite_link",
+    priceUsdc: listing.priceUsdc,
+    sellerAddress: listing.sellerAddress,
+    status: listing.status,
+    appId: listing.appId,
+    // appUrl is public for access_code type
+    appUrl: listing.listingType === "access_code" ? listing.appUrl : undefined,
+    ...describeListingApp(listing, app),
+    // Multi-use listing fields (with backward compatibility defaults)
+    maxUses: listing.maxUses ?? 1,
+    purchaseCount: listing.purchaseCount ?? 0,
+    codePool: !!listing.codePoolSize,
+    description: listing.description,
+    expiresAt: listing.expiresAt
+      ? new Date(listing.expiresAt).toISOString()
+      : undefined,
+    // The invite link passed a recent health check
+    verifiedLive: isVerifiedLive(listing),
+    healthCheckedAt: listing.healthCheckedAt
+      ? new Date(listing.healthCheckedAt).toISOString()
+      : undefined,
+    // Buyer-reported delivery success rate for the seller
+    sellerDelivery,
+    createdAt: new Date(listing.createdAt).toISOString(),
+    updatedAt: new Date(listing.updatedAt).toISOString(),
+  };
+}
+
+async function loadListingPage(
+  query: ListingQuery,
+  cursorValues: unknown[] | null
+): Promise<ListingFeedPage> {
+  await connectDB();
+
+  // Listings reserved for a buy order's buyer, or expired, aren't on the public market
+  const match: Record<string, unknown> = {
+    chainId,
+    reservedFor: { $exists: false },
+    ...notExpiredFilter(),
+  };
+
+  if (query.status === "available") {
+    match.status = "active";
+  } else if (query.status !== "all") {
+    match.status = query.status;
+  }
+
+  if (query.apps.length > 0) {
+    // App names resolve through the registry's aliases; unknown apps match nothing
+    const apps = await Promise.all(query.apps.map((key) => findApp(key)));
+    match.appId = {
+      $in: apps.filter((app): app is IApp => !!app).map((app) => app.slug),
+    };
+  }
+
+  if (query.minPrice !== undefined || query.maxPrice !== undefined) {
+    match.priceUsdc = {
+      ...(query.minPrice !== undefined ? { $gte: query.minPrice } : {}),
+      ...(query.maxPrice !== undefined ? { $lte: query.maxPrice } : {}),
+    };
+  }
+
+  if (query.seller) match.sellerAddress = query.seller;
+
+  if (query.listingType) {
+    // Listings created before access codes existed have no listingType
+    match.listingType =
+      query.listingType === "invite_link"
+        ? { $in: ["invite_link", null] }
+        : "access_code";
+  }
+
+  const keys = getSortKeys(query);
+  const pipeline: PipelineStage[] = [
+    { $match: match },
+    // Same uses-left check as /api/listings/lowest-price
+    ...(query.status === "available"
+      ? [{ $match: { $expr: hasUsesLeftExpression } }]
+      : []),
+    ...getSortStages(query),
+    ...(cursorValues
+      ? [{ $match: afterCursorFilter(keys, cursorValues) }]
+      : []),
+    {
+      $sort: Object.fromEntries(keys.map(({ field, order }) => [field, order])),
+    },
+    // One extra row tells whether there is a next page
+    { $limit: query.limit + 1 },
+    { $project: FEED_PROJECTION },
+  ];
+
+  const rows = await Listing.aggregate<FeedRow>(pipeline);
+  const pageRows = rows.slice(0, query.limit);
+
+  const [deliveryStats, apps] = await Promise.all([
+    getSellerDeliveryStats(pageRows.map((row) => row.sellerAddress)),
+    getAppsBySlug(pageRows.map((row) => row.appId)),
+  ]);
+
+  return {
+    listings: pageRows.map((row) =>
+      toPublicListing(
+        row,
+        row.appId ? apps.get(row.appId) : null,
+        deliveryStats[row.sellerAddress] ?? null
+      )
+    ),
+    nextCursor:
+      rows.length > query.limit
+        ? encodeCursor(query, pageRows[pageRows.length - 1])
+        : null,
+  };
+}
+
+/**
+ * One page of the public listings feed (see lib/listing-query.ts for the
+ * parameters). Missing parameters take their defaults: available listings,
+ * newest first.
+ */
+export async function queryListings(
+  partialQuery: Partial<ListingQuery> = {}
+): Promise<ListingFeedResult> {
+  const query = { ...DEFAULT_LISTING_QUERY, ...partialQuery };
+
+  const cursorValues = query.cursor ? decodeCursor(query, query.cursor) : null;
+  if (query.cursor && !cursorValues) {
+    return { ok: false, error: "Invalid cursor", status: 400 };
+  }
+
+  const page = await getCachedListingPage(
+    toListingSearchParams(query).toString(),
+    () => loadListingPage(query, cursorValues)
+  );
+  return { ok: true, page };
+}
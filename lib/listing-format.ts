@@ -0,0 +1,107 @@
+import type { ListingType } from "@/lib/url";
+
+// Shared (client-safe) checks that a listing's links and codes belong to its app.
+// Apps in the registry (models/app.ts) can pin their hosts and formats; the sell
+// form checks them as the seller types and the create/update routes enforce them.
+
+/** A format rule: a regex source, described for error messages */
+export interface AppFormatRule {
+  pattern: string;
+  description: string;
+}
+
+/**
+ * What an app's listings may link to.
+ * Hosts include their subdomains, e.g. "ethos.network" allows "app.ethos.network".
+ */
+export interface AppFormat {
+  /** Hosts invite links and app URLs must be on */
+  hosts: string[];
+  /** Format of a full invite URL */
+  inviteUrl?: AppFormatRule;
+  /** Format of an access code */
+  accessCode?: AppFormatRule;
+}
+
+/**
+ * Hostname of an http(s) URL, lowercased and without "www.".
+ * Returns null if the value isn't an http(s) URL.
+ */
+export function getUrlHost(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+      return null;
+    }
+    return parsed.hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a host is one of the given hosts or a subdomain of one.
+ */
+export function isHostWithin(host: string, hosts: string[]): boolean {
+  return hosts.some(
+    (allowed) => host === allowed || host.endsWith(`.${allowed}`)
+  );
+}
+
+function matchesRule(value: string, rule: AppFormatRule): boolean {
+  return new RegExp(rule.pattern).test(value);
+}
+
+/**
+ * Validates a listing's invite URL, app URL and access codes against its app's format.
+ * Only the values passed in are checked, so updates can check just what changed.
+ * Returns an error message, or null if everything matches.
+ */
+export function validateListingFormat({
+  app,
+  listingType,
+  inviteUrl,
+  appUrl,
+  accessCodes = [],
+}: {
+  // The listing's app, if it is in the registry
+  app?: { name: string; format?: AppFormat } | null;
+  listingType: ListingType;
+  inviteUrl?: string;
+  appUrl?: string;
+  accessCodes?: string[];
+}): string | null {
+  const url = listingType === "invite_link" ? inviteUrl : appUrl;
+  const label = listingType === "invite_link" ? "Invite URL" : "App URL";
+
+  const host = url ? getUrlHost(url) : null;
+  if (url && !host) {
+    return `${label} must be a valid http(s) link`;
+  }
+
+  const format = app?.format;
+  if (!app || !format) return null;
+
+  if (host && format.hosts.length > 0 && !isHostWithin(host, format.hosts)) {
+    return `${label} must be a ${app.name} link (${format.hosts.join(", ")})`;
+  }
+
+  if (
+    listingType === "invite_link" &&
+    inviteUrl &&
+    format.inviteUrl &&
+    !matchesRule(inviteUrl, format.inviteUrl)
+  ) {
+    return `${app.name} invite URLs must be ${format.inviteUrl.description}`;
+  }
+
+  if (
+    listingType === "access_code" &&
+    format.accessCode &&
+    accessCodes.some((code) => !matchesRule(code, format.accessCode!))
+  ) {
+    return `${app.name} access codes must be ${format.accessCode.description}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,163 @@
+import type { ListingType } from "@/lib/url";
+
+// Shared (client-safe) query parameters of GET /api/listings: filters, sort and
+// cursor pagination. The server runs them in lib/listing-feed.ts; client pages
+// build them with toListingSearchParams.
+
+export type ListingStatusFilter =
+  | "available" // Active, unexpired and with uses left (the default)
+  | "active"
+  | "sold"
+  | "cancelled"
+  | "paused"
+  | "all";
+
+// Sorts run by the database; the listings page's Ethos column sorts the loaded
+// rows instead, as Ethos scores come from Ethos' API
+export type ListingSortField = "date" | "price" | "delivery" | "app";
+
+export type ListingSortDirection = "asc" | "desc";
+
+export interface ListingQuery {
+  status: ListingStatusFilter;
+  // App ids or names (any of them)
+  apps: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  // Seller wallet address
+  seller?: string;
+  listingType?: ListingType;
+  sort: ListingSortField;
+  direction: ListingSortDirection;
+  limit: number;
+  // Opaque cursor from the previous page's nextCursor
+  cursor?: string;
+}
+
+export const LISTING_PAGE_SIZE = 24;
+
+export const MAX_LISTING_PAGE_SIZE = 100;
+
+// Latest listings shown on the homepage
+export const HOME_LISTINGS_COUNT = 6;
+
+export const DEFAULT_LISTING_QUERY: ListingQuery = {
+  status: "available",
+  apps: [],
+  sort: "date",
+  direction: "desc",
+  limit: LISTING_PAGE_SIZE,
+};
+
+const STATUS_FILTERS: ListingStatusFilter[] = [
+  "available",
+  "active",
+  "sold",
+  "cancelled",
+  "paused",
+  "all",
+];
+
+const SORT_FIELDS: ListingSortField[] = ["date", "price", "delivery", "app"];
+
+function parsePrice(value: string | null): number | undefined | null {
+  if (value === null || value === "") return undefined;
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : null;
+}
+
+/**
+ * Parses GET /api/listings query parameters, applying the defaults.
+ * Returns an error message for values that can't be parsed.
+ */
+export function parseListingQuery(
+  params: URLSearchParams
+): { ok: true; query: ListingQuery } | { ok: false; error: string } {
+  const status = params.get("status") ?? DEFAULT_LISTING_QUERY.status;
+  if (!STATUS_FILTERS.includes(status as ListingStatusFilter)) {
+    return { ok: false, error: `Invalid status: ${status}` };
+  }
+
+  const sort = params.get("sort") ?? DEFAULT_LISTING_QUERY.sort;
+  if (!SORT_FIELDS.includes(sort as ListingSortField)) {
+    return { ok: false, error: `Invalid sort: ${sort}` };
+  }
+
+  const direction = params.get("direction") ?? DEFAULT_LISTING_QUERY.direction;
+  if (direction !== "asc" && direction !== "desc") {
+    return { ok: false, error: "Direction must be asc or desc" };
+  }
+
+  const listingType = params.get("type") || undefined;
+  if (
+    listingType !== undefined &&
+    listingType !== "invite_link" &&
+    listingType !== "access_code"
+  ) {
+    return { ok: false, error: "Type must be invite_link or access_code" };
+  }
+
+  const minPrice = parsePrice(params.get("minPrice"));
+  const maxPrice = parsePrice(params.get("maxPrice"));
+  if (minPrice === null || maxPrice === null) {
+    return { ok: false, error: "Prices must be non-negative numbers" };
+  }
+
+  const limit = Number(params.get("limit") ?? DEFAULT_LISTING_QUERY.limit);
+  if (!Number.isInteger(limit) || limit < 1) {
+    return { ok: false, error: "Limit must be a positive integer" };
+  }
+
+  const seller = params.get("seller")?.trim().toLowerCase();
+
+  return {
+    ok: true,
+    query: {
+      status: status as ListingStatusFilter,
+      // Repeated (app=a&app=b) or comma-separated
+      apps: params
+        .getAll("app")
+        .flatMap((value) => value.split(","))
+        .map((value) => value.trim())
+        .filter(Boolean),
+      minPrice,
+      maxPrice,
+      seller: seller || undefined,
+      listingType,
+      sort: sort as ListingSortField,
+      direction,
+      limit: Math.min(limit, MAX_LISTING_PAGE_SIZE),
+      cursor: params.get("cursor") || undefined,
+    },
+  };
+}
+
+/**
+ * Query string for GET /api/listings. Values matching the defaults are left
+ * out, so equal queries give equal strings (and cache keys).
+ */
+export function toListingSearchParams(
+  query: Partial<ListingQuery>
+): URLSearchParams {
+  const params = new URLSearchParams();
+  const full = { ...DEFAULT_LISTING_QUERY, ...query };
+
+  if (full.status !== DEFAULT_LISTING_QUERY.status) {
+    params.set("status", full.status);
+  }
+  for (const app of [...full.apps].sort()) params.append("app", app);
+  if (full.minPrice !== undefined) params.set("minPrice", `${full.minPrice}`);
+  if (full.maxPrice !== undefined) params.set("maxPrice", `${full.maxPrice}`);
+  if (full.seller) params.set("seller", full.seller.toLowerCase());
+  if (full.listingType) params.set("type", full.listingType);
+  if (full.sort !== DEFAULT_LISTING_QUERY.sort) params.set("sort", full.sort);
+  if (full.direction !== DEFAULT_LISTING_QUERY.direction) {
+    params.set("direction", full.direction);
+  }
+  if (full.limit !== DEFAULT_LISTING_QUERY.limit) {
+    params.set("limit", `${full.limit}`);
+  }
+  if (full.cursor) params.set("cursor", full.cursor);
+
+  return params;
+}
@@ -0,0 +1,86 @@
+import { decryptSecret, encryptSecret } from "@/lib/encryption";
+import { getDomain } from "@/lib/url";
+
+export type ListingSecretField = "inviteUrl" | "accessCode";
+
+/**
+ * Encryption context for a listing secret, binding the ciphertext to its listing and field.
+ */
+export function getListingSecretContext(
+  slug: string,
+  field: ListingSecretField
+): string {
+  return `listing:${slug}:${field}`;
+}
+
+/**
+ * Encryption context for one code in a listing's code pool (see lib/code-pool.ts).
+ */
+export function getPoolCodeContext(slug: string, position: number): string {
+  return `listing:${slug}:poolCode:${position}`;
+}
+
+/**
+ * Returns the public origin of an invite URL (used for icon lookup), or undefined if unparseable.
+ */
+export function getInviteDomain(inviteUrl: string): string | undefined {
+  try {
+    return getDomain(inviteUrl);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Builds the encrypted listing fields to store for the given secrets.
+ * Invite links also keep their domain in plaintext so icons resolve without decrypting.
+ */
+export function sealListingSecrets(
+  slug: string,
+  secrets: { inviteUrl?: string; accessCode?: string }
+): { inviteUrl?: string; inviteDomain?: string; accessCode?: string } {
+  return {
+    ...(secrets.inviteUrl
+      ? {
+          inviteUrl: encryptSecret(
+            secrets.inviteUrl,
+            getListingSecretContext(slug, "inviteUrl")
+          ),
+          inviteDomain: getInviteDomain(secrets.inviteUrl),
+        }
+      : {}),
+    ...(secrets.accessCode
+      ? {
+          accessCode: encryptSecret(
+            secrets.accessCode,
+            getListingSecretContext(slug, "accessCode")
+          ),
+        }
+      : {}),
+  };
+}
+
+/**
+ * Decrypts a listing's stored secrets.
+ * Only call this where the caller is entitled to them (buyer reveal, post-payment, seller).
+ */
+export function openListingSecrets(listing: {
+  slug: string;
+  inviteUrl?: string;
+  accessCode?: string;
+}): { inviteUrl?: string; accessCode?: string } {
+  return {
+    inviteUrl: listing.inviteUrl
+      ? decryptSecret(
+          listing.inviteUrl,
+          getListingSecretContext(listing.slug, "inviteUrl")
+        )
+      : undefined,
+    accessCode: listing.accessCode
+      ? decryptSecret(
+          listing.accessCode,
+          getListingSecretContext(listing.slug, "accessCode")
+        )
+      : undefined,
+  };
+}
@@ -1,7 +1,13 @@
 import { connectDB } from "@/lib/mongoose";
 import { Listing, type ListingType } from "@/models/listing";
-import { getAppIconInfo } from "@/lib/url";
+import { openListingSecrets } from "@/lib/listing-secrets";
 import { chainId } from "@/lib/chain";
+import { isPastExpiry } from "@/lib/listing-expiry";
+import { isVerifiedLive } from "@/lib/link-health";
+import { getUrlHost, isHostWithin } from "@/lib/listing-format";
+import { invalidateListingCache } from "@/lib/listing-cache";
+import { describeListingApp, findApp } from "@/lib/apps";
+import type { IApp } from "@/models/app";
 
 export async function getListingBySlug(slug: string, includeSecrets: boolean) {
   await connectDB();
@@ -16,8 +22,15 @@ export async function getListingBySlug(slug: string, includeSecrets: boolean) {
   const maxUses = listing.maxUses ?? 1;
   const purchaseCount = listing.purchaseCount ?? 0;
 
-  // Get icon info including dark background flag
-  const iconInfo = getAppIconInfo(listing);
+  // App name and icon come from the registry
+  const app = await findApp(listing.appId);
+  const { appName, appFeatured, appIconUrl, iconNeedsDarkBg } =
+    describeListingApp(listing, app);
+
+  // Secrets are encrypted at rest and only decrypted when requested
+  const secrets: { inviteUrl?: string; accessCode?: string } = includeSecrets
+    ? openListingSecrets(listing)
+    : {};
 
   // Base response - public data only
   const response = {
@@ -25,21 +38,35 @@ export async function getListingBySlug(slug: string, includeSecrets: boolean) {
     listingType,
     priceUsdc: listing.priceUsdc,
     sellerAddress: listing.sellerAddress,
-    status: listing.status,
+    // Listings past their expiry read as expired before the sweep marks them
+    status:
+      listing.status === "active" && isPastExpiry(listing.expiresAt)
+        ? ("expired" as const)
+        : listing.status,
     appId: listing.appId,
-    appName: listing.appName,
-    appIconUrl: iconInfo.url,
-    iconNeedsDarkBg: iconInfo.needsDarkBg || false,
+    appName,
+    appFeatured,
+    appIconUrl,
+    iconNeedsDarkBg,
     // appUrl is public for access_code type
     appUrl: listingType === "access_code" ? listing.appUrl : undefined,
     // Multi-use listing fields
     maxUses,
     purchaseCount,
+    // Each buyer gets their own code from the pool (lib/code-pool.ts)
+    codePool: !!listing.codePoolSize,
+    // Listings that fill a buy order can only be bought by the order's buyer
+    reservedFor: listing.reservedFor,
+    reservedOfferId: listing.reservedOfferId?.toString(),
+    expiresAt: listing.expiresAt,
+    // invite_link only: the invite passed a recent health check
+    verifiedLive: isVerifiedLive(listing),
+    healthCheckedAt: listing.healthCheckedAt,
     createdAt: listing.createdAt,
     updatedAt: listing.updatedAt,
     // Private fields - only included when includeSecrets is true
-    inviteUrl: includeSecrets && listingType === "invite_link" ? listing.inviteUrl : undefined,
-    accessCode: includeSecrets && listingType === "access_code" ? listing.accessCode : undefined,
+    inviteUrl: listingType === "invite_link" ? secrets.inviteUrl : undefined,
+    accessCode: listingType === "access_code" ? secrets.accessCode : undefined,
   };
 
   return response;
@@ -53,7 +80,8 @@ export async function getSoldListingsBySlug(slug: string) {
     status: "sold",
     chainId,
   })
-    .sort({ completedAt: -1 })
+    // Listings have no sale time; their last update is when they sold out
+    .sort({ updatedAt: -1 })
     .limit(100)
     .select("priceUsdc updatedAt appId")
     .lean();
@@ -69,30 +97,108 @@ export async function getSoldListingsBySlug(slug: string) {
 
 /**
  * Increments the purchase count for a listing and marks it as sold if all uses are consumed.
+ * The update is a single atomic pipeline, so concurrent purchases never lose increments.
+ * Pass `releaseHold` when the purchase consumed a reservation made by reserveListingUnit.
  * Returns the updated listing.
  */
-export async function incrementPurchaseCount(slug: string) {
+export async function incrementPurchaseCount(
+  slug: string,
+  { releaseHold = false }: { releaseHold?: boolean } = {}
+) {
   await connectDB();
 
-  // First, get the current listing to check maxUses
-  const listing = await Listing.findOne({ slug, chainId });
-  if (!listing) return null;
+  const listing = await Listing.findOneAndUpdate(
+    { slug, chainId },
+    [
+      {
+        $set: {
+          purchaseCount: { $add: [{ $ifNull: ["$purchaseCount", 0] }, 1] },
+          ...(releaseHold
+            ? {
+                reservedCount: {
+                  $max: [
+                    { $subtract: [{ $ifNull: ["$reservedCount", 0] }, 1] },
+                    0,
+                  ],
+                },
+              }
+            : {}),
+          updatedAt: "$$NOW",
+        },
+      },
+      {
+        // -1 means unlimited, so never mark as sold based on count
+        $set: {
+          status: {
+            $cond: [
+              {
+                $and: [
+                  { $ne: [{ $ifNull: ["$maxUses", 1] }, -1] },
+                  { $gte: ["$purchaseCount", { $ifNull: ["$maxUses", 1] }] },
+                ],
+              },
+              "sold",
+              "$status",
+            ],
+          },
+        },
+      },
+    ],
+    { new: true, updatePipeline: true }
+  );
 
-  const maxUses = listing.maxUses ?? 1;
-  const currentCount = listing.purchaseCount ?? 0;
-  const newCount = currentCount + 1;
+  // The listing may have sold out of the public feed
+  invalidateListingCache();
+
+  return listing;
+}
 
-  // Determine if we should mark as sold
-  // -1 means unlimited, so never mark as sold based on count
-  const shouldMarkSold = maxUses !== -1 && newCount >= maxUses;
+/**
+ * Atomically holds one unit of a listing for an in-flight purchase.
+ * Only succeeds while the listing is active, unexpired, and purchased + held units are
+ * below maxUses.
+ * Returns the updated listing, or null if no unit is available.
+ */
+export async function reserveListingUnit(slug: string) {
+  await connectDB();
 
   return Listing.findOneAndUpdate(
-    { slug, chainId },
     {
-      purchaseCount: newCount,
-      ...(shouldMarkSold ? { status: "sold" } : {}),
-      updatedAt: new Date(),
+      slug,
+      chainId,
+      status: "active",
+      expiresAt: { $not: { $lte: new Date() } },
+      $expr: {
+        $or: [
+          { $eq: [{ $ifNull: ["$maxUses", 1] }, -1] }, // Unlimited
+          {
+            $lt: [
+              {
+                $add: [
+                  { $ifNull: ["$purchaseCount", 0] },
+                  { $ifNull: ["$reservedCount", 0] },
+                ],
+              },
+              { $ifNull: ["$maxUses", 1] },
+            ],
+          },
+        ],
+      },
     },
+    { $inc: { reservedCount: 1 } },
+    { new: true }
+  );
+}
+
+/**
+ * Returns a unit held by reserveListingUnit to the listing's inventory.
+ */
+export async function releaseListingUnit(slug: string) {
+  await connectDB();
+
+  return Listing.findOneAndUpdate(
+    { slug, chainId, reservedCount: { $gt: 0 } },
+    { $inc: { reservedCount: -1 } },
     { new: true }
   );
 }
@@ -109,14 +215,17 @@ export async function markListingAsSold(slug: string) {
  * Checks if a listing is available for purchase.
  * A listing is available if:
  * - status is "active"
+ * - AND it is not past expiresAt
  * - AND (maxUses is unlimited (-1) OR purchaseCount < maxUses)
  */
 export function isListingAvailable(listing: {
   status: string;
   maxUses?: number;
   purchaseCount?: number;
+  expiresAt?: Date | string | null;
 }): boolean {
   if (listing.status !== "active") return false;
+  if (isPastExpiry(listing.expiresAt)) return false;
 
   const maxUses = listing.maxUses ?? 1;
   const purchaseCount = listing.purchaseCount ?? 0;
@@ -126,3 +235,116 @@ export function isListingAvailable(listing: {
 
   return purchaseCount < maxUses;
 }
+
+// Query condition for a listing still at the version a seller signed
+// (listings created before versioning have no version field)
+export function listingVersionFilter(version: number) {
+  return version === 0 ? { version: { $in: [0, null] } } : { version };
+}
+
+// Aggregation expression for a listing with uses left (-1 = unlimited), the
+// database side of isListingAvailable together with status and notExpiredFilter
+export const hasUsesLeftExpression = {
+  $or: [
+    { $eq: ["$maxUses", -1] }, // Unlimited
+    {
+      $lt: [{ $ifNull: ["$purchaseCount", 0] }, { $ifNull: ["$maxUses", 1] }],
+    },
+  ],
+};
+
+// Query condition leaving out expired listings, including active ones past expiresAt
+// that the expiry sweep (expireListings) hasn't marked yet
+export function notExpiredFilter(now = new Date()) {
+  return {
+    $nor: [{ status: "expired" }, { status: "active", expiresAt: { $lte: now } }],
+  };
+}
+
+// Listings on the public market with uses left, as in GET /api/listings
+export function availableListingFilter() {
+  return {
+    chainId,
+    status: "active",
+    reservedFor: { $exists: false },
+    ...notExpiredFilter(),
+    $expr: hasUsesLeftExpression,
+  };
+}
+
+/**
+ * Marks active listings past their expiresAt as "expired".
+ * Run periodically by scripts/expire-listings.ts; sellers renew them from their profile.
+ * Returns the slugs of the listings found past their expiry (with dryRun, nothing is updated).
+ */
+export async function expireListings({ dryRun = false } = {}) {
+  await connectDB();
+
+  const now = new Date();
+  const filter = { chainId, status: "active", expiresAt: { $lte: now } };
+
+  const due = await Listing.find(filter).select("slug").lean();
+  const slugs = due.map((listing) => listing.slug);
+
+  if (!dryRun && slugs.length > 0) {
+    // Re-check the filter so a listing renewed in the meantime stays active
+    await Listing.updateMany(
+      { ...filter, slug: { $in: slugs } },
+      { $set: { status: "expired" } }
+    );
+  }
+
+  return slugs;
+}
+
+/**
+ * Checks a custom app listing's link against the app's other listings, so one
+ * app can't be used to list invites for unrelated sites.
+ * Apps with a format (featured apps) are checked by validateListingFormat instead.
+ * Returns an error message, or null if the link's site matches (or it's the first listing).
+ */
+export async function validateCustomAppDomain({
+  app,
+  url,
+  excludeSlug,
+}: {
+  // The listing's app; a new custom app has no other listings yet
+  app: IApp | null;
+  url: string;
+  excludeSlug?: string;
+}): Promise<string | null> {
+  const host = getUrlHost(url);
+  if (!app || app.format || !host) return null;
+
+  await connectDB();
+
+  const others = await Listing.find({
+    chainId,
+    appId: app.slug,
+    status: { $ne: "cancelled" },
+    ...(excludeSlug ? { slug: { $ne: excludeSlug } } : {}),
+  })
+    .select("listingType inviteDomain appUrl")
+    .limit(50)
+    .lean();
+
+  const otherHosts = new Set<string>();
+  for (const other of others) {
+    const otherUrl =
+      other.listingType === "access_code" ? other.appUrl : other.inviteDomain;
+    const otherHost = otherUrl ? getUrlHost(otherUrl) : null;
+    if (otherHost) otherHosts.add(otherHost);
+  }
+  if (otherHosts.size === 0) return null;
+
+  // Subdomains count as the same site either way (app.example.com / example.com)
+  const hosts = [...otherHosts];
+  if (
+    isHostWithin(host, hosts) ||
+    hosts.some((otherHost) => isHostWithin(otherHost, [host]))
+  ) {
+    return null;
+  }
+
+  return `Other ${app.name} listings link to ${hosts.join(", ")}. Use a link on the same site, or a different app name.`;
+}
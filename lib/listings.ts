@@ -1,7 +1,9 @@
 "use client";
 
-import { featuredApps } from "@/data/featuredApps";
 import { fetchEthosData, type EthosData } from "@/lib/ethos-scores";
+import type { DeliveryStats } from "@/lib/delivery-feedback";
+import { isPastExpiry } from "@/lib/listing-expiry";
+import { toListingSearchParams, type ListingQuery } from "@/lib/listing-query";
 
 // ============================================================================
 // TYPES
@@ -14,16 +16,23 @@ export interface Listing {
   listingType?: ListingType;
   priceUsdc: number;
   sellerAddress: string;
-  status: "active" | "sold" | "cancelled";
+  status: "active" | "sold" | "cancelled" | "expired" | "paused";
   appId?: string;
   appName?: string;
+  appFeatured?: boolean; // The app is featured in the App registry
   appUrl?: string; // For access_code type - public URL
   appIconUrl?: string;
   iconNeedsDarkBg?: boolean; // Whether the icon needs a dark background (e.g., white icons)
   // Multi-use listing fields
   maxUses?: number; // Maximum purchases allowed (-1 for unlimited, default: 1)
   purchaseCount?: number; // Current number of purchases (default: 0)
+  codePool?: boolean; // access_code only: each buyer gets a distinct code
   description?: string; // Optional description for the listing
+  sellerDelivery?: DeliveryStats | null; // Buyer-reported delivery success for the seller
+  reservedFor?: string; // Set when the listing fills a buy order: only this buyer can purchase it
+  expiresAt?: string; // When the listing stops being sold unless the seller renews it
+  verifiedLive?: boolean; // invite_link only: the invite passed a recent health check
+  healthCheckedAt?: string; // When the invite link was last checked
   createdAt: string;
   updatedAt: string;
 }
@@ -37,6 +46,9 @@ export interface Invite {
   priceUsdc: number;
   seller: string;
   ethosData: EthosData | null;
+  deliveryStats: DeliveryStats | null;
+  verifiedLive: boolean;
+  healthCheckedAt?: string;
   gradientFrom: string;
   gradientTo: string;
   slug: string;
@@ -53,6 +65,12 @@ export interface ListingsData {
   rawListings: Listing[];
 }
 
+// One page of GET /api/listings
+export interface ListingFeedPage {
+  listings: Listing[];
+  nextCursor: string | null; // Cursor for the next page, null on the last page
+}
+
 // ============================================================================
 // GRADIENT HELPERS
 // ============================================================================
@@ -89,14 +107,16 @@ export function getGradientForApp(appName: string): {
 
 /**
  * Checks if a listing is available for purchase.
- * A listing is available if status is "active" AND has remaining inventory.
+ * A listing is available if status is "active", it hasn't expired, AND has remaining inventory.
  */
 export function isListingAvailable(listing: {
   status: string;
   maxUses?: number;
   purchaseCount?: number;
+  expiresAt?: string;
 }): boolean {
   if (listing.status !== "active") return false;
+  if (isPastExpiry(listing.expiresAt)) return false;
 
   const maxUses = listing.maxUses ?? 1;
   const purchaseCount = listing.purchaseCount ?? 0;
@@ -112,18 +132,8 @@ export function isListingAvailable(listing: {
 // ============================================================================
 
 function transformListing(listing: Listing): Invite {
-  let host = "App";
-
-  if (listing.appId) {
-    const featuredApp = featuredApps.find((app) => app.id === listing.appId);
-    if (featuredApp) {
-      host = featuredApp.appName;
-    } else {
-      host = listing.appId;
-    }
-  } else if (listing.appName) {
-    host = listing.appName;
-  }
+  // The API resolves the app's name from the registry
+  const host = listing.appName || listing.appId || "App";
 
   const gradient = getGradientForApp(host);
   const shortAddr = `${listing.sellerAddress.slice(
@@ -145,6 +155,9 @@ function transformListing(listing: Listing): Invite {
     priceUsdc: listing.priceUsdc,
     seller: shortAddr,
     ethosData: null,
+    deliveryStats: listing.sellerDelivery ?? null,
+    verifiedLive: listing.verifiedLive ?? false,
+    healthCheckedAt: listing.healthCheckedAt,
     gradientFrom: gradient.from,
     gradientTo: gradient.to,
     slug: listing.slug,
@@ -161,36 +174,60 @@ function transformListing(listing: Listing): Invite {
 // ============================================================================
 
 /**
- * Fetch listings data with Ethos scores and trust levels.
- * This is the single source of truth for the TanStack Query cache.
- * All pages should use this function to ensure cache consistency.
+ * Fetch one page of the listings feed (see lib/listing-query.ts for the query).
  */
-export async function fetchListingsData(): Promise<ListingsData> {
-  const response = await fetch("/api/listings");
+export async function fetchListingFeedPage(
+  query: Partial<ListingQuery> = {}
+): Promise<ListingFeedPage> {
+  const response = await fetch(`/api/listings?${toListingSearchParams(query)}`);
   const data = await response.json();
 
   if (!response.ok) {
     throw new Error(data.error || "Failed to fetch listings");
   }
 
-  const listings: Listing[] = data.listings || [];
+  return { listings: data.listings || [], nextCursor: data.nextCursor ?? null };
+}
+
+/**
+ * Transforms listings into invites, leaving out unavailable ones.
+ * Pass the sellers' Ethos data if it's already loaded.
+ */
+export function toListingsData(
+  listings: Listing[],
+  ethosDataMap: Record<string, EthosData> = {}
+): ListingsData {
   // Filter to only show listings with remaining inventory
   const available = listings.filter((l) => isListingAvailable(l));
-  const transformedInvites = available.map(transformListing);
+  const invites = available.map((listing) => ({
+    ...transformListing(listing),
+    ethosData: ethosDataMap[listing.sellerAddress.toLowerCase()] ?? null,
+  }));
 
+  return { invites, rawListings: available };
+}
+
+async function withEthosData(listings: Listing[]): Promise<ListingsData> {
   // Only fetch Ethos data if there are active listings
   let ethosDataMap: Record<string, EthosData> = {};
-  if (transformedInvites.length > 0) {
+  const available = listings.filter((l) => isListingAvailable(l));
+  if (available.length > 0) {
     const uniqueAddresses = [
-      ...new Set(transformedInvites.map((invite) => invite.sellerAddress)),
+      ...new Set(available.map((listing) => listing.sellerAddress)),
     ];
     ethosDataMap = await fetchEthosData(uniqueAddresses);
   }
 
-  const invitesWithEthosData = transformedInvites.map((invite) => ({
-    ...invite,
-    ethosData: ethosDataMap[invite.sellerAddress.toLowerCase()] ?? null,
-  }));
+  return toListingsData(available, ethosDataMap);
+}
 
-  return { invites: invitesWithEthosData, rawListings: available };
-}
\ No newline at end of file
+/**
+ * Fetch one page of listings data with Ethos scores and trust levels.
+ */
+export async function fetchListingsPage(
+  query: Partial<ListingQuery> = {}
+): Promise<ListingsData & { nextCursor: string | null }> {
+  const page = await fetchListingFeedPage(query);
+  const data = await withEthosData(page.listings);
+  return { ...data, nextCursor: page.nextCursor };
+}
@@ -0,0 +1,331 @@
+import type { PipelineStage } from "mongoose";
+import { connectDB } from "@/lib/mongoose";
+import { Listing } from "@/models/listing";
+import { Transaction } from "@/models/transaction";
+import { chainId } from "@/lib/chain";
+import { settledSaleFilter } from "@/lib/disputes";
+import {
+  ANALYTICS_BUCKET_MS,
+  ANALYTICS_RANGE_MS,
+  MAX_ANALYTICS_BUCKETS,
+  type AnalyticsBucket,
+  type AnalyticsRange,
+  type MarketAnalytics,
+  type MarketAnalyticsPoint,
+} from "@/lib/market-analytics";
+
+// Server side of GET /api/apps/[slug]/analytics: an app's sales and asks per
+// time bucket, aggregated by MongoDB; refunded sales are left out. The
+// bucketing helpers are shared with the marketplace-wide stats
+// (lib/market-stats-server.ts).
+
+// 1970-01-05, the first Monday after the epoch: weeks start on Mondays (UTC)
+const WEEK_OFFSET_MS = 4 * 24 * 60 * 60 * 1000;
+
+// Start of the bucket containing a time (UTC hours, days and weeks)
+function alignToBucket(time: number, bucket: AnalyticsBucket): number {
+  const size = ANALYTICS_BUCKET_MS[bucket];
+  const offset = bucket === "week" ? WEEK_OFFSET_MS : 0;
+  return Math.floor((time - offset) / size) * size + offset;
+}
+
+// Index of the bucket containing a date expression, as of `from`
+export function bucketIndexExpression(
+  date: unknown,
+  from: Date,
+  bucket: AnalyticsBucket
+) {
+  return {
+    $toInt: {
+      $floor: {
+        $divide: [{ $subtract: [date, from] }, ANALYTICS_BUCKET_MS[bucket]],
+      },
+    },
+  };
+}
+
+// The first listing or sale on the chain matching a filter (e.g. an app's),
+// where an "all" range starts
+async function getFirstActivity(
+  filter: Record<string, unknown>
+): Promise<Date | null> {
+  const [listing, transaction] = await Promise.all([
+    Listing.findOne({ chainId, ...filter }).sort({ createdAt: 1 }).lean(),
+    Transaction.findOne({ chainId, ...filter, ...settledSaleFilter() })
+      .sort({ createdAt: 1 })
+      .lean(),
+  ]);
+  const times = [listing?.createdAt, transaction?.createdAt]
+    .filter((date): date is Date => !!date)
+    .map((date) => date.getTime());
+  return times.length > 0 ? new Date(Math.min(...times)) : null;
+}
+
+/**
+ * Buckets covering a range up to now: the start of the first one and how many
+ * there are. An "all" range starts at the first listing or sale matching
+ * `filter` (fields shared by listings and transactions, e.g. appId).
+ * Fails with 400 past MAX_ANALYTICS_BUCKETS.
+ */
+export async function getBucketWindow(
+  range: AnalyticsRange,
+  bucket: AnalyticsBucket,
+  now: Date,
+  filter: Record<string, unknown> = {}
+): Promise<
+  | { ok: true; from: Date; bucketCount: number }
+  | { ok: false; error: string; status: number }
+> {
+  const rangeMs = ANALYTICS_RANGE_MS[range];
+  const start =
+    rangeMs === null
+      ? ((await getFirstActivity(filter))?.getTime() ?? now.getTime())
+      : now.getTime() - rangeMs;
+  const from = new Date(alignToBucket(start, bucket));
+  const bucketCount = Math.max(
+    1,
+    Math.ceil((now.getTime() - from.getTime()) / ANALYTICS_BUCKET_MS[bucket])
+  );
+
+  if (bucketCount > MAX_ANALYTICS_BUCKETS) {
+    return {
+      ok: false,
+      error: `Too many ${bucket} buckets for this range; pick a longer bucket`,
+      status: 400,
+    };
+  }
+
+  return { ok: true, from, bucketCount };
+}
+
+/**
+ * Stages turning matched listings into one document per bucket each was on
+ * sale in ({ priceUsdc, bucketIndex }). A listing is on sale from its creation
+ * until it expires (active and expired listings) or until its last change
+ * (sold, cancelled and paused listings). Deleted listings leave no trace.
+ */
+export function listingOnSaleStages(
+  from: Date,
+  to: Date,
+  bucket: AnalyticsBucket,
+  bucketCount: number
+): PipelineStage[] {
+  return [
+    {
+      $addFields: {
+        listedUntil: {
+          $switch: {
+            branches: [
+              {
+                case: { $eq: ["$status", "active"] },
+                then: { $ifNull: ["$expiresAt", to] },
+              },
+              {
+                case: { $eq: ["$status", "expired"] },
+                then: { $ifNull: ["$expiresAt", "$updatedAt"] },
+              },
+            ],
+            default: "$updatedAt",
+          },
+        },
+      },
+    },
+    { $match: { listedUntil: { $gte: from } } },
+    {
+      $addFields: {
+        firstBucket: {
+          $max: [0, bucketIndexExpression("$createdAt", from, bucket)],
+        },
+        lastBucket: {
+          $min: [
+            bucketCount - 1,
+            bucketIndexExpression("$listedUntil", from, bucket),
+          ],
+        },
+      },
+    },
+    {
+      $project: {
+        priceUsdc: 1,
+        bucketIndex: {
+          $range: ["$firstBucket", { $add: ["$lastBucket", 1] }],
+        },
+      },
+    },
+    { $unwind: "$bucketIndex" },
+  ];
+}
+
+// Sale prices per bucket: median, open/high/low/close, volume and buyers
+async function aggregateSales(
+  appId: string,
+  from: Date,
+  to: Date,
+  bucket: AnalyticsBucket
+) {
+  const pipeline: PipelineStage[] = [
+    {
+      $match: {
+        chainId,
+        appId,
+        createdAt: { $gte: from, $lte: to },
+        ...settledSaleFilter(),
+      },
+    },
+    {
+      $addFields: {
+        bucketIndex: bucketIndexExpression("$createdAt", from, bucket),
+      },
+    },
+    // Pushed prices come out sorted, for the median
+    { $sort: { bucketIndex: 1, priceUsdc: 1 } },
+    {
+      $group: {
+        _id: "$bucketIndex",
+        prices: { $push: "$priceUsdc" },
+        volume: { $sum: "$priceUsdc" },
+        sales: { $sum: 1 },
+        buyers: { $addToSet: "$buyerAddress" },
+        high: { $max: "$priceUsdc" },
+        low: { $min: "$priceUsdc" },
+        // Documents compare field by field: earliest and latest sale first
+        first: { $min: { at: "$createdAt", price: "$priceUsdc" } },
+        last: { $max: { at: "$createdAt", price: "$priceUsdc" } },
+      },
+    },
+    {
+      $project: {
+        volume: 1,
+        sales: 1,
+        high: 1,
+        low: 1,
+        open: "$first.price",
+        close: "$last.price",
+        uniqueBuyers: { $size: "$buyers" },
+        medianPrice: {
+          $let: {
+            vars: {
+              middle: { $floor: { $divide: [{ $size: "$prices" }, 2] } },
+            },
+            in: {
+              $cond: [
+                { $eq: [{ $mod: [{ $size: "$prices" }, 2] }, 1] },
+                { $arrayElemAt: ["$prices", "$$middle"] },
+                {
+                  $avg: [
+                    {
+                      $arrayElemAt: [
+                        "$prices",
+                        { $subtract: ["$$middle", 1] },
+                      ],
+                    },
+                    { $arrayElemAt: ["$prices", "$$middle"] },
+                  ],
+                },
+              ],
+            },
+          },
+        },
+      },
+    },
+  ];
+
+  return Transaction.aggregate<{
+    _id: number;
+    volume: number;
+    sales: number;
+    high: number;
+    low: number;
+    open: number;
+    close: number;
+    uniqueBuyers: number;
+    medianPrice: number;
+  }>(pipeline);
+}
+
+// Lowest ask per bucket, over every listing on sale at some point in it
+async function aggregateFloorAsks(
+  appId: string,
+  from: Date,
+  to: Date,
+  bucket: AnalyticsBucket,
+  bucketCount: number
+) {
+  const pipeline: PipelineStage[] = [
+    {
+      $match: {
+        chainId,
+        appId,
+        // Listings reserved for a buy order's buyer were never on the market
+        reservedFor: { $exists: false },
+        createdAt: { $lte: to },
+      },
+    },
+    ...listingOnSaleStages(from, to, bucket, bucketCount),
+    { $group: { _id: "$bucketIndex", floorAsk: { $min: "$priceUsdc" } } },
+  ];
+
+  return Listing.aggregate<{ _id: number; floorAsk: number }>(pipeline);
+}
+
+/**
+ * An app's market per time bucket over a range: floor ask, median sale
+ * (with open/high/low/close), volume, sale count and unique buyers.
+ * Buckets are UTC hours, days or weeks (starting Mondays); the last one ends
+ * now.
+ */
+export async function getMarketAnalytics(
+  appId: string,
+  range: AnalyticsRange,
+  bucket: AnalyticsBucket,
+  now = new Date()
+): Promise<
+  | { ok: true; analytics: MarketAnalytics }
+  | { ok: false; error: string; status: number }
+> {
+  await connectDB();
+
+  const bucketWindow = await getBucketWindow(range, bucket, now, { appId });
+  if (!bucketWindow.ok) return bucketWindow;
+  const { from, bucketCount } = bucketWindow;
+  const bucketMs = ANALYTICS_BUCKET_MS[bucket];
+
+  const [sales, floorAsks] = await Promise.all([
+    aggregateSales(appId, from, now, bucket),
+    aggregateFloorAsks(appId, from, now, bucket, bucketCount),
+  ]);
+
+  const salesByBucket = new Map(sales.map((entry) => [entry._id, entry]));
+  const floorByBucket = new Map(
+    floorAsks.map((entry) => [entry._id, entry.floorAsk])
+  );
+
+  const series: MarketAnalyticsPoint[] = [];
+  for (let i = 0; i < bucketCount; i++) {
+    const bucketSales = salesByBucket.get(i);
+    series.push({
+      start: new Date(from.getTime() + i * bucketMs).toISOString(),
+      floorAsk: floorByBucket.get(i) ?? null,
+      medianPrice: bucketSales?.medianPrice ?? null,
+      open: bucketSales?.open ?? null,
+      high: bucketSales?.high ?? null,
+      low: bucketSales?.low ?? null,
+      close: bucketSales?.close ?? null,
+      volume: bucketSales?.volume ?? 0,
+      sales: bucketSales?.sales ?? 0,
+      uniqueBuyers: bucketSales?.uniqueBuyers ?? 0,
+    });
+  }
+
+  return {
+    ok: true,
+    analytics: {
+      appId,
+      range,
+      bucket,
+      from: from.toISOString(),
+      to: now.toISOString(),
+      series,
+    },
+  };
+}
@@ -0,0 +1,84 @@
+// Shared (client-safe) types and parameters of the per-app market analytics
+// endpoint (GET /api/apps/[slug]/analytics) and the app page's price chart.
+
+export type AnalyticsRange = "24h" | "7d" | "30d" | "90d" | "1y" | "all";
+
+export type AnalyticsBucket = "hour" | "day" | "week";
+
+export const ANALYTICS_RANGES: AnalyticsRange[] = [
+  "24h",
+  "7d",
+  "30d",
+  "90d",
+  "1y",
+  "all",
+];
+
+export const ANALYTICS_BUCKETS: AnalyticsBucket[] = ["hour", "day", "week"];
+
+export const DEFAULT_ANALYTICS_RANGE: AnalyticsRange = "30d";
+
+// Bucket used when a request doesn't pick one
+export const DEFAULT_ANALYTICS_BUCKETS: Record<
+  AnalyticsRange,
+  AnalyticsBucket
+> = {
+  "24h": "hour",
+  "7d": "day",
+  "30d": "day",
+  "90d": "day",
+  "1y": "week",
+  all: "week",
+};
+
+// Length of each range (null: since the app's first listing or sale)
+export const ANALYTICS_RANGE_MS: Record<AnalyticsRange, number | null> = {
+  "24h": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+  "30d": 30 * 24 * 60 * 60 * 1000,
+  "90d": 90 * 24 * 60 * 60 * 1000,
+  "1y": 365 * 24 * 60 * 60 * 1000,
+  all: null,
+};
+
+export const ANALYTICS_BUCKET_MS: Record<AnalyticsBucket, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Most buckets one response may have, e.g. hourly buckets cover at most ~15 days
+export const MAX_ANALYTICS_BUCKETS = 366;
+
+export function isAnalyticsRange(value: unknown): value is AnalyticsRange {
+  return ANALYTICS_RANGES.includes(value as AnalyticsRange);
+}
+
+export function isAnalyticsBucket(value: unknown): value is AnalyticsBucket {
+  return ANALYTICS_BUCKETS.includes(value as AnalyticsBucket);
+}
+
+// One time bucket of an app's market
+export interface MarketAnalyticsPoint {
+  start: string; // Start of the bucket (ISO); it ends where the next one starts
+  // Lowest asking price of any listing on sale during the bucket
+  floorAsk: number | null;
+  // Sales in the bucket; prices are null without sales
+  medianPrice: number | null;
+  open: number | null; // First sale's price
+  high: number | null;
+  low: number | null;
+  close: number | null; // Last sale's price
+  volume: number; // USDC
+  sales: number;
+  uniqueBuyers: number;
+}
+
+export interface MarketAnalytics {
+  appId: string;
+  range: AnalyticsRange;
+  bucket: AnalyticsBucket;
+  from: string;
+  to: string;
+  series: MarketAnalyticsPoint[];
+}
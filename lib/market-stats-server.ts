@@ -0,0 +1,486 @@
+import type { PipelineStage } from "mongoose";
+import { connectDB } from "@/lib/mongoose";
+import { Listing } from "@/models/listing";
+import { Transaction } from "@/models/transaction";
+import { chainId } from "@/lib/chain";
+import { describeListingApp, getAppsBySlug } from "@/lib/apps";
+import { availableListingFilter } from "@/lib/listing";
+import { settledSaleFilter } from "@/lib/disputes";
+import {
+  bucketIndexExpression,
+  getBucketWindow,
+  listingOnSaleStages,
+} from "@/lib/market-analytics-server";
+import {
+  ANALYTICS_BUCKET_MS,
+  type AnalyticsBucket,
+  type AnalyticsRange,
+} from "@/lib/market-analytics";
+import {
+  PRICE_HISTOGRAM_EDGES,
+  STATS_LEADERBOARD_SIZE,
+  type AppStats,
+  type MarketStats,
+  type MarketStatsPoint,
+  type PriceHistogramBin,
+  type TraderStats,
+} from "@/lib/market-stats";
+
+// Server side of GET /api/stats and the /stats page: the whole market of the
+// current chain, aggregated by MongoDB. Refunded sales are left out.
+
+// Stats are recomputed at most this often per range and bucket
+const STATS_CACHE_TTL_MS = 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const statsCache = new Map<
+  string,
+  { stats: MarketStats; expiresAt: number }
+>();
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function median(sorted: number[]): number | null {
+  if (sorted.length === 0) return null;
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Volume and sales per bucket, and listings on sale per bucket
+async function aggregateSeries(
+  from: Date,
+  to: Date,
+  bucket: AnalyticsBucket,
+  bucketCount: number
+): Promise<MarketStatsPoint[]> {
+  const [sales, listings] = await Promise.all([
+    Transaction.aggregate<{ _id: number; volume: number; sales: number }>([
+      {
+        $match: {
+          chainId,
+          createdAt: { $gte: from, $lte: to },
+          ...settledSaleFilter(),
+        },
+      },
+      {
+        $group: {
+          _id: bucketIndexExpression("$createdAt", from, bucket),
+          volume: { $sum: "$priceUsdc" },
+          sales: { $sum: 1 },
+        },
+      },
+    ]),
+    Listing.aggregate<{ _id: number; count: number }>([
+      {
+        $match: {
+          chainId,
+          // Listings reserved for a buy order's buyer were never on the market
+          reservedFor: { $exists: false },
+          createdAt: { $lte: to },
+        },
+      },
+      ...listingOnSaleStages(from, to, bucket, bucketCount),
+      { $group: { _id: "$bucketIndex", count: { $sum: 1 } } },
+    ]),
+  ]);
+
+  const salesByBucket = new Map(sales.map((entry) => [entry._id, entry]));
+  const listingsByBucket = new Map(
+    listings.map((entry) => [entry._id, entry.count])
+  );
+  const bucketMs = ANALYTICS_BUCKET_MS[bucket];
+
+  return Array.from({ length: bucketCount }, (_, i) => ({
+    start: new Date(from.getTime() + i * bucketMs).toISOString(),
+    volume: round(salesByBucket.get(i)?.volume ?? 0),
+    sales: salesByBucket.get(i)?.sales ?? 0,
+    activeListings: listingsByBucket.get(i) ?? 0,
+  }));
+}
+
+async function aggregateTotals(from: Date, to: Date) {
+  const [[totals], activeListings] = await Promise.all([
+    Transaction.aggregate<{
+      volume: number;
+      sales: number;
+      uniqueBuyers: number;
+      uniqueSellers: number;
+    }>([
+      {
+        $match: {
+          chainId,
+          createdAt: { $gte: from, $lte: to },
+          ...settledSaleFilter(),
+        },
+      },
+      {
+        $group: {
+          _id: null,
+          volume: { $sum: "$priceUsdc" },
+          sales: { $sum: 1 },
+          buyers: { $addToSet: "$buyerAddress" },
+          sellers: { $addToSet: "$sellerAddress" },
+        },
+      },
+      {
+        $project: {
+          volume: 1,
+          sales: 1,
+          uniqueBuyers: { $size: "$buyers" },
+          uniqueSellers: { $size: "$sellers" },
+        },
+      },
+    ]),
+    Listing.countDocuments(availableListingFilter()),
+  ]);
+
+  return {
+    volume: round(totals?.volume ?? 0),
+    sales: totals?.sales ?? 0,
+    uniqueBuyers: totals?.uniqueBuyers ?? 0,
+    uniqueSellers: totals?.uniqueSellers ?? 0,
+    activeListings,
+  };
+}
+
+// Apps by volume over the range, and by volume change over the last 24 hours
+async function aggregateTopApps(from: Date, to: Date) {
+  const dayAgo = new Date(to.getTime() - DAY_MS);
+  const twoDaysAgo = new Date(to.getTime() - 2 * DAY_MS);
+
+  const [byVolume, recent] = await Promise.all([
+    Transaction.aggregate<{ _id: string; volume: number; sales: number }>([
+      {
+        $match: {
+          chainId,
+          createdAt: { $gte: from, $lte: to },
+          ...settledSaleFilter(),
+        },
+      },
+      {
+        $group: {
+          _id: "$appId",
+          volume: { $sum: "$priceUsdc" },
+          sales: { $sum: 1 },
+        },
+      },
+      { $sort: { volume: -1, _id: 1 } },
+      { $limit: STATS_LEADERBOARD_SIZE },
+    ]),
+    Transaction.aggregate<{
+      _id: string;
+      volume24h: number;
+      volumePrevious24h: number;
+    }>([
+      {
+        $match: {
+          chainId,
+          createdAt: { $gte: twoDaysAgo, $lte: to },
+          ...settledSaleFilter(),
+        },
+      },
+      {
+        $group: {
+          _id: "$appId",
+          volume24h: {
+            $sum: {
+              $cond: [{ $gte: ["$createdAt", dayAgo] }, "$priceUsdc", 0],
+            },
+          },
+          volumePrevious24h: {
+            $sum: {
+              $cond: [{ $lt: ["$createdAt", dayAgo] }, "$priceUsdc", 0],
+            },
+          },
+        },
+      },
+    ]),
+  ]);
+
+  const recentByApp = new Map(recent.map((entry) => [entry._id, entry]));
+  // Apps outside the top by volume still need their totals over the range
+  const changeApps = recent.map((entry) => entry._id);
+  const rangeTotals = await Transaction.aggregate<{
+    _id: string;
+    volume: number;
+    sales: number;
+  }>([
+    {
+      $match: {
+        chainId,
+        appId: { $in: changeApps },
+        createdAt: { $gte: from, $lte: to },
+        ...settledSaleFilter(),
+      },
+    },
+    {
+      $group: {
+        _id: "$appId",
+        volume: { $sum: "$priceUsdc" },
+        sales: { $sum: 1 },
+      },
+    },
+  ]);
+  const totalsByApp = new Map([
+    ...rangeTotals.map((entry) => [entry._id, entry] as const),
+    ...byVolume.map((entry) => [entry._id, entry] as const),
+  ]);
+
+  const apps = await getAppsBySlug([...totalsByApp.keys(), ...changeApps]);
+
+  const toAppStats = (appId: string): AppStats => {
+    const { appName, appIconUrl, iconNeedsDarkBg } = describeListingApp(
+      { appId },
+      apps.get(appId)
+    );
+    const totals = totalsByApp.get(appId);
+    const volume24h = recentByApp.get(appId)?.volume24h ?? 0;
+    const volumePrevious24h = recentByApp.get(appId)?.volumePrevious24h ?? 0;
+
+    return {
+      appId,
+      appName: appName ?? "App",
+      appIconUrl,
+      iconNeedsDarkBg,
+      volume: round(totals?.volume ?? 0),
+      sales: totals?.sales ?? 0,
+      volume24h: round(volume24h),
+      volumePrevious24h: round(volumePrevious24h),
+      change24h:
+        volumePrevious24h > 0
+          ? round(((volume24h - volumePrevious24h) / volumePrevious24h) * 100)
+          : null,
+    };
+  };
+
+  // Apps new in the last 24 hours rank above any gain, by volume
+  const topAppsByChange = changeApps
+    .map(toAppStats)
+    .sort(
+      (a, b) =>
+        (b.change24h ?? Infinity) - (a.change24h ?? Infinity) ||
+        b.volume24h - a.volume24h
+    )
+    .slice(0, STATS_LEADERBOARD_SIZE);
+
+  return {
+    topAppsByVolume: byVolume.map((entry) => toAppStats(entry._id)),
+    topAppsByChange,
+  };
+}
+
+async function aggregateTopTraders(
+  field: "sellerAddress" | "buyerAddress",
+  from: Date,
+  to: Date
+): Promise<TraderStats[]> {
+  const traders = await Transaction.aggregate<{
+    _id: string;
+    volume: number;
+    sales: number;
+  }>([
+    {
+      $match: {
+        chainId,
+        createdAt: { $gte: from, $lte: to },
+        ...settledSaleFilter(),
+      },
+    },
+    {
+      $group: {
+        _id: { $toLower: `$${field}` },
+        volume: { $sum: "$priceUsdc" },
+        sales: { $sum: 1 },
+      },
+    },
+    { $sort: { volume: -1, sales: -1, _id: 1 } },
+    { $limit: STATS_LEADERBOARD_SIZE },
+  ]);
+
+  return traders.map((entry) => ({
+    address: entry._id,
+    volume: round(entry.volume),
+    sales: entry.sales,
+  }));
+}
+
+// Prices counted per PRICE_HISTOGRAM_EDGES bin
+function priceHistogramStages(): PipelineStage[] {
+  return [
+    {
+      $bucket: {
+        groupBy: "$priceUsdc",
+        boundaries: PRICE_HISTOGRAM_EDGES,
+        // Prices past the last edge
+        default: "last",
+        output: { count: { $sum: 1 } },
+      },
+    },
+  ];
+}
+
+function toHistogram(
+  counts: { _id: number | "last"; count: number }[]
+): PriceHistogramBin[] {
+  const byBin = new Map(counts.map((entry) => [entry._id, entry.count]));
+  const last = PRICE_HISTOGRAM_EDGES.length - 1;
+
+  return PRICE_HISTOGRAM_EDGES.map((min, i) => ({
+    min,
+    max: i < last ? PRICE_HISTOGRAM_EDGES[i + 1] : null,
+    count:
+      i < last
+        ? (byBin.get(min) ?? 0)
+        : (byBin.get(min) ?? 0) + (byBin.get("last") ?? 0),
+  }));
+}
+
+async function aggregatePriceHistograms(from: Date, to: Date) {
+  const [sales, asks] = await Promise.all([
+    Transaction.aggregate<{ _id: number | "last"; count: number }>([
+      {
+        $match: {
+          chainId,
+          createdAt: { $gte: from, $lte: to },
+          ...settledSaleFilter(),
+        },
+      },
+      ...priceHistogramStages(),
+    ]),
+    Listing.aggregate<{ _id: number | "last"; count: number }>([
+      { $match: availableListingFilter() },
+      ...priceHistogramStages(),
+    ]),
+  ]);
+
+  return {
+    salePriceHistogram: toHistogram(sales),
+    askPriceHistogram: toHistogram(asks),
+  };
+}
+
+// Median time from listing to sale, overall and for the apps with most sales
+async function aggregateTimeToSell(
+  from: Date,
+  to: Date
+): Promise<MarketStats["timeToSell"]> {
+  const durations = await Transaction.aggregate<{
+    _id: string;
+    durations: number[];
+  }>([
+    {
+      $match: {
+        chainId,
+        createdAt: { $gte: from, $lte: to },
+        ...settledSaleFilter(),
+      },
+    },
+    {
+      $lookup: {
+        from: Listing.collection.name,
+        localField: "listingSlug",
+        foreignField: "slug",
+        as: "listing",
+      },
+    },
+    { $unwind: "$listing" },
+    // Buy order fills are created for the buyer and sell right away
+    { $match: { "listing.reservedFor": { $exists: false } } },
+    {
+      $project: {
+        appId: 1,
+        duration: { $subtract: ["$createdAt", "$listing.createdAt"] },
+      },
+    },
+    // Pushed durations come out sorted, for the median
+    { $sort: { duration: 1 } },
+    { $group: { _id: "$appId", durations: { $push: "$duration" } } },
+  ]);
+
+  const all = durations
+    .flatMap((entry) => entry.durations)
+    .sort((a, b) => a - b);
+  const topApps = [...durations]
+    .sort((a, b) => b.durations.length - a.durations.length)
+    .slice(0, STATS_LEADERBOARD_SIZE);
+  const apps = await getAppsBySlug(topApps.map((entry) => entry._id));
+
+  return {
+    medianMs: median(all),
+    sales: all.length,
+    byApp: topApps.map((entry) => ({
+      appId: entry._id,
+      appName:
+        describeListingApp({ appId: entry._id }, apps.get(entry._id)).appName ??
+        "App",
+      medianMs: median(entry.durations),
+      sales: entry.durations.length,
+    })),
+  };
+}
+
+/**
+ * Marketplace-wide stats over a range: totals, volume, sales and listings per
+ * bucket, top apps, sellers and buyers, price histograms and time to sell.
+ * Cached in-process for a minute per range and bucket.
+ */
+export async function getMarketStats(
+  range: AnalyticsRange,
+  bucket: AnalyticsBucket,
+  now = new Date()
+): Promise<
+  | { ok: true; stats: MarketStats }
+  | { ok: false; error: string; status: number }
+> {
+  const key = `${range}:${bucket}`;
+  const cached = statsCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return { ok: true, stats: cached.stats };
+  }
+
+  await connectDB();
+
+  const bucketWindow = await getBucketWindow(range, bucket, now);
+  if (!bucketWindow.ok) return bucketWindow;
+  const { from, bucketCount } = bucketWindow;
+
+  const [
+    totals,
+    series,
+    topApps,
+    topSellers,
+    topBuyers,
+    histograms,
+    timeToSell,
+  ] = await Promise.all([
+    aggregateTotals(from, now),
+    aggregateSeries(from, now, bucket, bucketCount),
+    aggregateTopApps(from, now),
+    aggregateTopTraders("sellerAddress", from, now),
+    aggregateTopTraders("buyerAddress", from, now),
+    aggregatePriceHistograms(from, now),
+    aggregateTimeToSell(from, now),
+  ]);
+
+  const stats: MarketStats = {
+    range,
+    bucket,
+    from: from.toISOString(),
+    to: now.toISOString(),
+    totals,
+    series,
+    ...topApps,
+    topSellers,
+    topBuyers,
+    ...histograms,
+    timeToSell,
+  };
+
+  statsCache.set(key, { stats, expiresAt: Date.now() + STATS_CACHE_TTL_MS });
+  return { ok: true, stats };
+}
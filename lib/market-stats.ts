@@ -0,0 +1,80 @@
+// Shared (client-safe) types of the marketplace-wide stats (GET /api/stats and
+// the /stats page). Ranges and buckets are the ones of the per-app market
+// analytics (lib/market-analytics.ts).
+
+import type { AnalyticsBucket, AnalyticsRange } from "@/lib/market-analytics";
+
+// Entries per leaderboard (apps, sellers and buyers)
+export const STATS_LEADERBOARD_SIZE = 10;
+
+// Lower bounds of the price histogram bins (USDC); the last bin is open-ended
+export const PRICE_HISTOGRAM_EDGES = [0, 1, 2, 5, 10, 25, 50, 100, 250, 500];
+
+// One time bucket of the whole market
+export interface MarketStatsPoint {
+  start: string; // Start of the bucket (ISO)
+  volume: number; // USDC
+  sales: number;
+  // Public listings on sale at some point during the bucket
+  activeListings: number;
+}
+
+export interface AppStats {
+  appId: string;
+  appName: string;
+  appIconUrl: string | null;
+  iconNeedsDarkBg: boolean;
+  // Over the selected range
+  volume: number;
+  sales: number;
+  // Over the last 24 hours and the 24 hours before, whatever the range
+  volume24h: number;
+  volumePrevious24h: number;
+  // Percent change between the two; null when the previous 24h had no sales
+  change24h: number | null;
+}
+
+export interface TraderStats {
+  address: string;
+  volume: number; // USDC
+  sales: number;
+}
+
+export interface PriceHistogramBin {
+  min: number;
+  max: number | null; // Exclusive; null for the last bin
+  count: number;
+}
+
+// From a listing's creation to its sale (each sale of multi-use listings)
+export interface TimeToSellStats {
+  medianMs: number | null;
+  sales: number;
+}
+
+export interface MarketStats {
+  range: AnalyticsRange;
+  bucket: AnalyticsBucket;
+  from: string;
+  to: string;
+  totals: {
+    volume: number;
+    sales: number;
+    uniqueBuyers: number;
+    uniqueSellers: number;
+    // Available right now, whatever the range
+    activeListings: number;
+  };
+  series: MarketStatsPoint[];
+  topAppsByVolume: AppStats[];
+  // Apps with sales in the last 48 hours, biggest 24h gain first
+  topAppsByChange: AppStats[];
+  topSellers: TraderStats[];
+  topBuyers: TraderStats[];
+  // Sales in the range, and the asks of available listings right now
+  salePriceHistogram: PriceHistogramBin[];
+  askPriceHistogram: PriceHistogramBin[];
+  timeToSell: TimeToSellStats & {
+    byApp: (TimeToSellStats & { appId: string; appName: string })[];
+  };
+}
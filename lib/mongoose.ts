@@ -33,3 +33,13 @@ export async function connectDB() {
   cached.conn = await cached.promise;
   return cached.conn;
 }
+
+// MongoDB's error code for a write that breaks a unique index
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * Whether a write failed because it broke a unique index.
+ */
+export function isDuplicateKeyError(error: unknown): boolean {
+  return (error as { code?: number } | null)?.code === DUPLICATE_KEY_ERROR;
+}
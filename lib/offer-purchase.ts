@@ -0,0 +1,125 @@
+import mongoose from "mongoose";
+import { decodePayment } from "thirdweb/x402";
+import { connectDB } from "@/lib/mongoose";
+import { chainId } from "@/lib/chain";
+import { RESERVATION_HOLD_MS } from "@/lib/reservation";
+import { isOfferPayable } from "@/lib/offers";
+import { Offer, type IOffer } from "@/models/offer";
+
+export type PayableOfferResult =
+  | { ok: true; offer: IOffer & { _id: mongoose.Types.ObjectId } }
+  | { ok: false; error: string; status: number };
+
+/**
+ * Reads the paying wallet from an x402 payment header (the signed
+ * transferWithAuthorization `from`), or null if it can't be decoded.
+ */
+export function getPaymentPayer(paymentData: string): string | null {
+  try {
+    const payment = decodePayment(paymentData);
+    const payload = payment.payload as { authorization?: { from?: string } };
+    return payload.authorization?.from?.toLowerCase() ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Looks up an accepted offer that can be paid for on this listing.
+ * When `payerAddress` is given it must be the buyer who made the offer.
+ */
+export async function getPayableOffer(
+  offerId: string,
+  slug: string,
+  payerAddress?: string | null
+): Promise<PayableOfferResult> {
+  await connectDB();
+
+  const offer = mongoose.isValidObjectId(offerId)
+    ? await Offer.findOne({ _id: offerId, chainId }).lean()
+    : null;
+
+  if (!offer || offer.acceptedListingSlug !== slug) {
+    return { ok: false, error: "Offer not found", status: 404 };
+  }
+
+  if (offer.status === "completed") {
+    return { ok: false, error: "Offer has already been paid", status: 410 };
+  }
+
+  // "purchasing" is checked when the offer is claimed
+  if (offer.status !== "purchasing" && !isOfferPayable(offer)) {
+    return {
+      ok: false,
+      error:
+        offer.status === "accepted"
+          ? "The payment window for this offer has closed"
+          : offer.status === "cancelled"
+            ? "Offer was cancelled"
+            : "Offer has not been accepted",
+      status: 410,
+    };
+  }
+
+  if (payerAddress !== undefined && payerAddress !== offer.buyerAddress) {
+    return {
+      ok: false,
+      error: "This offer can only be paid by the buyer who made it",
+      status: 403,
+    };
+  }
+
+  return { ok: true, offer };
+}
+
+/**
+ * Claims an accepted offer for a payment so it can't be paid twice.
+ * Claims left behind by a payment that never finished expire with its reservation.
+ */
+export async function claimOffer(offerId: mongoose.Types.ObjectId) {
+  const now = new Date();
+  const result = await Offer.updateOne(
+    {
+      _id: offerId,
+      paymentDeadline: { $gt: now },
+      $or: [
+        { status: "accepted" },
+        {
+          status: "purchasing",
+          purchaseStartedAt: {
+            $lt: new Date(now.getTime() - RESERVATION_HOLD_MS),
+          },
+        },
+      ],
+    },
+    { $set: { status: "purchasing", purchaseStartedAt: now } }
+  );
+  return result.modifiedCount === 1;
+}
+
+/**
+ * Returns a claimed offer to "accepted" after a failed payment.
+ */
+export async function releaseOfferClaim(offerId: mongoose.Types.ObjectId) {
+  await Offer.updateOne(
+    { _id: offerId, status: "purchasing" },
+    { $set: { status: "accepted" }, $unset: { purchaseStartedAt: "" } }
+  );
+}
+
+/**
+ * Marks an offer as paid once its purchase has settled.
+ */
+export async function completeOffer(
+  offerId: mongoose.Types.ObjectId,
+  transactionId?: mongoose.Types.ObjectId,
+  txHash?: string
+) {
+  await Offer.updateOne(
+    { _id: offerId },
+    {
+      $set: { status: "completed", transactionId, txHash },
+      $unset: { purchaseStartedAt: "" },
+    }
+  );
+}
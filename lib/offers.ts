@@ -0,0 +1,108 @@
+// Shared (client-safe) offer types and helpers.
+// Buyers sign offers below the asking price for a listing or for any listing of an app;
+// an accepted offer can be paid once, by that buyer, through /api/purchase/[slug]?offer=<id>.
+
+import type { IOffer } from "@/models/offer";
+
+// "purchasing" marks an accepted offer whose payment is being settled
+export type OfferStatus =
+  | "open"
+  | "accepted"
+  | "purchasing"
+  | "completed"
+  | "cancelled";
+
+// Longest an offer can be signed for
+export const MAX_OFFER_EXPIRY_DAYS = 30;
+
+// How long the buyer has to pay once the seller accepts
+export const OFFER_PAYMENT_WINDOW_HOURS = 48;
+
+export interface OfferSummary {
+  id: string;
+  buyerAddress: string;
+  // Set for offers on a specific listing
+  listingSlug?: string;
+  // Set for offers on any listing of an app
+  appId?: string;
+  // Display name of the offer's app (from the App registry)
+  appName?: string;
+  priceUsdc: number;
+  expiresAt: string;
+  status: OfferStatus;
+  // Listing the seller accepted the offer on, and until when the buyer can pay
+  acceptedListingSlug?: string;
+  acceptedBy?: string;
+  paymentDeadline?: string;
+  txHash?: string;
+  createdAt: string;
+}
+
+export function toOfferSummary(offer: IOffer & { _id: unknown }): OfferSummary {
+  return {
+    id: String(offer._id),
+    buyerAddress: offer.buyerAddress,
+    listingSlug: offer.listingSlug || undefined,
+    appId: offer.appId || undefined,
+    priceUsdc: offer.priceUsdc,
+    expiresAt: new Date(offer.expiresAt).toISOString(),
+    status: offer.status,
+    acceptedListingSlug: offer.acceptedListingSlug,
+    acceptedBy: offer.acceptedBy,
+    paymentDeadline: offer.paymentDeadline
+      ? new Date(offer.paymentDeadline).toISOString()
+      : undefined,
+    txHash: offer.txHash,
+    createdAt: new Date(offer.createdAt).toISOString(),
+  };
+}
+
+/**
+ * Whether an open offer can still be accepted.
+ */
+export function isOfferAcceptable(
+  offer: { status: OfferStatus; expiresAt: Date | string },
+  now = Date.now()
+): boolean {
+  return offer.status === "open" && new Date(offer.expiresAt).getTime() > now;
+}
+
+/**
+ * Whether the buyer can still pay for an accepted offer.
+ */
+export function isOfferPayable(
+  offer: { status: OfferStatus; paymentDeadline?: Date | string },
+  now = Date.now()
+): boolean {
+  return (
+    offer.status === "accepted" &&
+    !!offer.paymentDeadline &&
+    new Date(offer.paymentDeadline).getTime() > now
+  );
+}
+
+/**
+ * Fetch offers from /api/offers by listing, appId, buyer or seller.
+ */
+export async function fetchOffers(
+  query: Partial<Record<"listing" | "appId" | "buyer" | "seller", string>>
+): Promise<OfferSummary[]> {
+  try {
+    const params = new URLSearchParams(query as Record<string, string>);
+    const response = await fetch(`/api/offers?${params}`);
+    const data = await response.json();
+    return data.success ? data.offers : [];
+  } catch (error) {
+    console.error("Failed to fetch offers:", error);
+    return [];
+  }
+}
+
+/**
+ * Highest price among offers, or null when there are none.
+ */
+export function getHighestOffer(offers: OfferSummary[]): number | null {
+  return offers.length > 0
+    ? Math.max(...offers.map((offer) => offer.priceUsdc))
+    : null;
+}
@@ -0,0 +1,157 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { PublicClient } from "viem";
+import { connectTestDB, disconnectTestDB, testMongoUrl } from "@/lib/test-db";
+import { chainId } from "@/lib/chain";
+import { reconcilePayments } from "@/lib/reconcile";
+import { Listing } from "@/models/listing";
+import { Transaction } from "@/models/transaction";
+
+const SELLER = `0x${"1".repeat(40)}`;
+const BUYER = `0x${"2".repeat(40)}`;
+const PAYMENT_TX = `0x${"a".repeat(64)}`;
+
+// Paid an hour ago, long past the reconciler's minimum age (whole seconds, like
+// block timestamps)
+const PAID_AT = new Date(
+  Math.floor((Date.now() - 60 * 60 * 1000) / 1000) * 1000
+);
+
+interface FakeTransfer {
+  txHash: string;
+  from: string;
+  to: string;
+  amount: bigint;
+}
+
+// RPC client serving the given USDC transfers, all in block 50
+function fakeClient(transfers: FakeTransfer[]): PublicClient {
+  return {
+    getBlockNumber: async () => BigInt(100),
+    getLogs: async ({ args }: { args: { to: string[] } }) =>
+      transfers
+        .filter((transfer) => args.to.includes(transfer.to))
+        .map((transfer, i) => ({
+          transactionHash: transfer.txHash,
+          blockNumber: BigInt(50),
+          logIndex: i,
+          args: {
+            from: transfer.from,
+            to: transfer.to,
+            value: transfer.amount,
+          },
+        })),
+    getBlock: async () => ({
+      timestamp: BigInt(PAID_AT.getTime() / 1000),
+    }),
+  } as unknown as PublicClient;
+}
+
+function reconcile(transfers: FakeTransfer[]) {
+  return reconcilePayments({
+    client: fakeClient(transfers),
+    fromBlock: BigInt(1),
+    toBlock: BigInt(100),
+  });
+}
+
+describe(
+  "payment reconciliation",
+  { skip: !testMongoUrl && "TEST_MONGODB_URL is not set" },
+  () => {
+    before(async () => {
+      // Payments go straight to sellers
+      delete process.env.ESCROW_ADDRESS;
+      await connectTestDB();
+    });
+    after(disconnectTestDB);
+
+    beforeEach(async () => {
+      await Promise.all([Listing.deleteMany({}), Transaction.deleteMany({})]);
+      const listedAt = new Date(PAID_AT.getTime() - 60 * 60 * 1000);
+      await Listing.create(
+        [
+          {
+            slug: "orphaned",
+            priceUsdc: 12.5,
+            sellerAddress: SELLER,
+            chainId,
+            appId: "example",
+            createdAt: listedAt,
+            updatedAt: listedAt,
+          },
+        ],
+        { timestamps: false }
+      );
+    });
+
+    it("records an orphaned payment against the listing it paid for", async () => {
+      const payment = {
+        txHash: PAYMENT_TX,
+        from: BUYER,
+        to: SELLER,
+        amount: BigInt(12_500_000),
+      };
+
+      const report = await reconcile([payment]);
+
+      assert.equal(report.summary.created, 1);
+      assert.equal(report.entries[0].listingSlug, "orphaned");
+
+      const transaction = await Transaction.findOne({
+        txHash: PAYMENT_TX,
+      }).lean();
+      assert.equal(transaction?.listingSlug, "orphaned");
+      assert.equal(transaction?.buyerAddress, BUYER);
+      assert.equal(transaction?.priceUsdc, 12.5);
+      assert.equal(transaction?.createdAt.getTime(), PAID_AT.getTime());
+
+      const listing = await Listing.findOne({ slug: "orphaned" }).lean();
+      assert.equal(listing?.purchaseCount, 1);
+      assert.equal(listing?.status, "sold");
+
+      // A second run finds the sale already recorded
+      const rerun = await reconcile([payment]);
+      assert.equal(rerun.entries[0].outcome, "recorded");
+      assert.equal(await Transaction.countDocuments({}), 1);
+    });
+
+    it("doesn't record a payout of a recorded sale as a sale", async () => {
+      await Transaction.create({
+        listingSlug: "orphaned",
+        sellerAddress: SELLER,
+        buyerAddress: BUYER,
+        priceUsdc: 12.5,
+        chainId,
+        txHash: `0x${"b".repeat(64)}`,
+        payoutTxHash: PAYMENT_TX,
+      });
+
+      const report = await reconcile([
+        {
+          txHash: PAYMENT_TX,
+          from: `0x${"3".repeat(40)}`,
+          to: SELLER,
+          amount: BigInt(12_500_000),
+        },
+      ]);
+
+      assert.equal(report.entries[0].outcome, "payout");
+      assert.equal(await Transaction.countDocuments({}), 1);
+    });
+
+    it("leaves payments that match no listing for review", async () => {
+      const report = await reconcile([
+        {
+          txHash: PAYMENT_TX,
+          from: BUYER,
+          to: SELLER,
+          amount: BigInt(7_000_000),
+        },
+      ]);
+
+      assert.equal(report.entries[0].outcome, "unmatched");
+      assert.equal(await Transaction.countDocuments({}), 0);
+    });
+  }
+);
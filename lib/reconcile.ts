@@ -0,0 +1,512 @@
+/**
+ * Payment reconciliation
+ *
+ * x402 payments can settle on-chain while the purchase route times out before
+ * the Transaction record and purchase count are written. This module scans
+ * USDC Transfer logs to known seller addresses (and the escrow wallet when
+ * escrow is enabled), matches each transfer to a listing by payee and amount,
+ * and records the sales that are missing. Escrow releases and refunds are
+ * payouts of sales already recorded, never new sales.
+ *
+ * Used by `pnpm reconcile:payments` and `POST /api/admin/reconcile`.
+ */
+
+import { createPublicClient, http, parseAbiItem, type PublicClient } from "viem";
+import { connectDB, isDuplicateKeyError } from "@/lib/mongoose";
+import {
+  USDC_DECIMALS,
+  chainId,
+  defaultRpcUrl,
+  toUsdcUnits,
+  usdcAddress,
+} from "@/lib/chain";
+import { incrementPurchaseCount, isListingAvailable } from "@/lib/listing";
+import { bindPoolCode, claimPoolCode } from "@/lib/code-pool";
+import {
+  escrowHeldEvent,
+  getEscrowAddress,
+  getEscrowReleaseAt,
+  isEscrowEnabled,
+} from "@/lib/escrow";
+import { Listing } from "@/models/listing";
+import { Transaction } from "@/models/transaction";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface UsdcTransfer {
+  txHash: string;
+  logIndex: number;
+  blockNumber: bigint;
+  timestamp: Date;
+  from: string;
+  to: string;
+  // Raw token amount (USDC has 6 decimals)
+  amount: bigint;
+}
+
+export interface ReconcileListing {
+  slug: string;
+  sellerAddress: string;
+  priceUsdc: number;
+  status: string;
+  maxUses?: number;
+  purchaseCount?: number;
+  codePoolSize?: number;
+  appId?: string;
+  createdAt: Date;
+}
+
+export type ReconcileOutcome =
+  // A Transaction with this txHash already exists
+  | "recorded"
+  // An escrow release or refund (sent from the escrow wallet), not a sale
+  | "payout"
+  // A legacy Transaction (no txHash) matched and was linked to this transfer
+  | "linked"
+  // The missing Transaction was created
+  | "created"
+  // Dry run: the missing Transaction would be created
+  | "would_create"
+  // More than one listing matches the payee and amount
+  | "ambiguous"
+  // No listing matches - not a marketplace sale, or needs manual review
+  | "unmatched"
+  // Too recent to reconcile safely, the purchase route may still be writing it
+  | "pending";
+
+export interface ReconcileEntry {
+  txHash: string;
+  logIndex: number;
+  blockNumber: string;
+  timestamp: string;
+  from: string;
+  to: string;
+  amountUsdc: number;
+  outcome: ReconcileOutcome;
+  listingSlug?: string;
+  candidateSlugs?: string[];
+  transactionId?: string;
+}
+
+export interface ReconcileReport {
+  chainId: number;
+  fromBlock: string;
+  toBlock: string;
+  dryRun: boolean;
+  sellersScanned: number;
+  transfersScanned: number;
+  summary: Record<ReconcileOutcome, number>;
+  entries: ReconcileEntry[];
+}
+
+export interface ReconcileOptions {
+  // RPC endpoint (an anvil-style local node works for testing)
+  rpcUrl?: string;
+  // USDC contract override, for local chains with a mock token
+  tokenAddress?: `0x${string}`;
+  fromBlock?: bigint;
+  toBlock?: bigint;
+  // Blocks to scan back from toBlock when fromBlock is not given
+  lookbackBlocks?: bigint;
+  // Max block range per eth_getLogs call
+  chunkSize?: bigint;
+  // Transfers younger than this are reported as "pending" and left alone
+  minAgeSeconds?: number;
+  // Report what would change without writing anything
+  dryRun?: boolean;
+  // Inject a client directly (e.g. in tests)
+  client?: PublicClient;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const TRANSFER_EVENT = parseAbiItem(
+  "event Transfer(address indexed from, address indexed to, uint256 value)"
+);
+
+// ~1 day of Base blocks at 2s block time
+const DEFAULT_LOOKBACK_BLOCKS = BigInt(43_200);
+const DEFAULT_CHUNK_SIZE = BigInt(2_000);
+const DEFAULT_MIN_AGE_SECONDS = 10 * 60;
+
+// Window for matching legacy Transactions that were recorded without a txHash
+const LEGACY_MATCH_WINDOW_MS = 10 * 60 * 1000;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+export function getReconcileRpcUrl(): string {
+  return process.env.RECONCILE_RPC_URL || defaultRpcUrl;
+}
+
+/**
+ * Fetches USDC Transfer logs to any of the given addresses, in block chunks.
+ * Results are sorted chronologically.
+ */
+export async function fetchUsdcTransfers(
+  client: PublicClient,
+  {
+    tokenAddress,
+    recipients,
+    fromBlock,
+    toBlock,
+    chunkSize = DEFAULT_CHUNK_SIZE,
+  }: {
+    tokenAddress: `0x${string}`;
+    recipients: `0x${string}`[];
+    fromBlock: bigint;
+    toBlock: bigint;
+    chunkSize?: bigint;
+  }
+): Promise<UsdcTransfer[]> {
+  if (recipients.length === 0 || fromBlock > toBlock) return [];
+
+  const transfers: UsdcTransfer[] = [];
+  const blockTimestamps = new Map<bigint, Date>();
+
+  for (let start = fromBlock; start <= toBlock; start += chunkSize) {
+    const end =
+      start + chunkSize - BigInt(1) < toBlock
+        ? start + chunkSize - BigInt(1)
+        : toBlock;
+
+    const logs = await client.getLogs({
+      address: tokenAddress,
+      event: TRANSFER_EVENT,
+      args: { to: recipients },
+      fromBlock: start,
+      toBlock: end,
+    });
+
+    for (const log of logs) {
+      if (
+        !log.transactionHash ||
+        log.blockNumber === null ||
+        log.logIndex === null ||
+        !log.args.from ||
+        !log.args.to ||
+        log.args.value === undefined
+      ) {
+        continue;
+      }
+
+      let timestamp = blockTimestamps.get(log.blockNumber);
+      if (!timestamp) {
+        const block = await client.getBlock({ blockNumber: log.blockNumber });
+        timestamp = new Date(Number(block.timestamp) * 1000);
+        blockTimestamps.set(log.blockNumber, timestamp);
+      }
+
+      transfers.push({
+        txHash: log.transactionHash.toLowerCase(),
+        logIndex: log.logIndex,
+        blockNumber: log.blockNumber,
+        timestamp,
+        from: log.args.from.toLowerCase(),
+        to: log.args.to.toLowerCase(),
+        amount: log.args.value,
+      });
+    }
+  }
+
+  return transfers.sort((a, b) =>
+    a.blockNumber === b.blockNumber
+      ? a.logIndex - b.logIndex
+      : a.blockNumber < b.blockNumber
+        ? -1
+        : 1
+  );
+}
+
+/**
+ * Matches a transfer to the listings it could have paid for:
+ * same seller (any seller for payments into escrow), exact price, created
+ * before the transfer and still purchasable.
+ */
+export function matchTransfer(
+  transfer: UsdcTransfer,
+  listings: ReconcileListing[],
+  escrowAddress: string | null = null
+):
+  | { outcome: "matched"; listing: ReconcileListing }
+  | { outcome: "ambiguous"; candidates: ReconcileListing[] }
+  | { outcome: "unmatched" } {
+  const candidates = listings.filter(
+    (listing) =>
+      (transfer.to === escrowAddress ||
+        listing.sellerAddress === transfer.to) &&
+      toUsdcUnits(listing.priceUsdc) === transfer.amount &&
+      listing.createdAt.getTime() <= transfer.timestamp.getTime() &&
+      isListingAvailable(listing)
+  );
+
+  if (candidates.length === 1) {
+    return { outcome: "matched", listing: candidates[0] };
+  }
+  if (candidates.length > 1) {
+    return { outcome: "ambiguous", candidates };
+  }
+  return { outcome: "unmatched" };
+}
+
+function toEntry(
+  transfer: UsdcTransfer,
+  outcome: ReconcileOutcome,
+  extra: Partial<ReconcileEntry> = {}
+): ReconcileEntry {
+  return {
+    txHash: transfer.txHash,
+    logIndex: transfer.logIndex,
+    blockNumber: transfer.blockNumber.toString(),
+    timestamp: transfer.timestamp.toISOString(),
+    from: transfer.from,
+    to: transfer.to,
+    amountUsdc: Number(transfer.amount) / USDC_DECIMALS,
+    outcome,
+    ...extra,
+  };
+}
+
+// =============================================================================
+// RECONCILER
+// =============================================================================
+
+/**
+ * Scans USDC transfers to known sellers and the escrow wallet on the configured
+ * chain and records the sales that are missing. Idempotent: transfers whose
+ * txHash is already recorded are skipped, and the unique txHash index guards
+ * concurrent runs.
+ */
+export async function reconcilePayments(
+  options: ReconcileOptions = {}
+): Promise<ReconcileReport> {
+  await connectDB();
+
+  const dryRun = options.dryRun ?? false;
+  const minAgeSeconds = options.minAgeSeconds ?? DEFAULT_MIN_AGE_SECONDS;
+  const client =
+    options.client ??
+    createPublicClient({ transport: http(options.rpcUrl || getReconcileRpcUrl()) });
+
+  const toBlock = options.toBlock ?? (await client.getBlockNumber());
+  const lookback = options.lookbackBlocks ?? DEFAULT_LOOKBACK_BLOCKS;
+  const fromBlock =
+    options.fromBlock ??
+    (toBlock > lookback ? toBlock - lookback : BigInt(0));
+
+  // Every address that has listed on this chain is a potential payee
+  const sellers = (await Listing.distinct("sellerAddress", {
+    chainId,
+  })) as string[];
+
+  // Escrowed purchases pay the escrow wallet instead of the seller
+  const escrowAddress = isEscrowEnabled()
+    ? getEscrowAddress().toLowerCase()
+    : null;
+
+  const listings = await Listing.find({ chainId })
+    .select(
+      "slug sellerAddress priceUsdc status maxUses purchaseCount codePoolSize appId createdAt"
+    )
+    .lean<ReconcileListing[]>();
+
+  const transfers = await fetchUsdcTransfers(client, {
+    tokenAddress: options.tokenAddress ?? usdcAddress,
+    recipients: (escrowAddress
+      ? [...sellers, escrowAddress]
+      : sellers) as `0x${string}`[],
+    fromBlock,
+    toBlock,
+    chunkSize: options.chunkSize,
+  });
+
+  const entries: ReconcileEntry[] = [];
+  const cutoff = Date.now() - minAgeSeconds * 1000;
+
+  for (const transfer of transfers) {
+    if (transfer.timestamp.getTime() > cutoff) {
+      entries.push(toEntry(transfer, "pending"));
+      continue;
+    }
+
+    // Releases and refunds from the escrow wallet pay out recorded sales
+    if (
+      transfer.from === escrowAddress ||
+      (await Transaction.exists({ payoutTxHash: transfer.txHash }))
+    ) {
+      entries.push(toEntry(transfer, "payout"));
+      continue;
+    }
+
+    // 1. Already recorded by the purchase route or a previous run
+    const existing = await Transaction.findOne({
+      txHash: transfer.txHash,
+    })
+      .select("_id listingSlug")
+      .lean();
+
+    if (existing) {
+      entries.push(
+        toEntry(transfer, "recorded", {
+          listingSlug: existing.listingSlug,
+          transactionId: existing._id.toString(),
+        })
+      );
+      continue;
+    }
+
+    // 2. Recorded before receipts were stored: link the hash instead of duplicating
+    const legacy = await Transaction.findOne({
+      chainId,
+      ...(transfer.to === escrowAddress ? {} : { sellerAddress: transfer.to }),
+      buyerAddress: transfer.from,
+      priceUsdc: Number(transfer.amount) / USDC_DECIMALS,
+      txHash: { $exists: false },
+      createdAt: {
+        $gte: new Date(transfer.timestamp.getTime() - LEGACY_MATCH_WINDOW_MS),
+        $lte: new Date(transfer.timestamp.getTime() + LEGACY_MATCH_WINDOW_MS),
+      },
+    })
+      .select("_id listingSlug")
+      .lean();
+
+    if (legacy) {
+      if (!dryRun) {
+        await Transaction.updateOne(
+          { _id: legacy._id, txHash: { $exists: false } },
+          { $set: { txHash: transfer.txHash } }
+        );
+      }
+      entries.push(
+        toEntry(transfer, "linked", {
+          listingSlug: legacy.listingSlug,
+          transactionId: legacy._id.toString(),
+        })
+      );
+      continue;
+    }
+
+    // 3. Missing sale: find the listing it paid for
+    const match = matchTransfer(transfer, listings, escrowAddress);
+
+    if (match.outcome === "ambiguous") {
+      entries.push(
+        toEntry(transfer, "ambiguous", {
+          candidateSlugs: match.candidates.map((l) => l.slug),
+        })
+      );
+      continue;
+    }
+
+    if (match.outcome === "unmatched") {
+      entries.push(toEntry(transfer, "unmatched"));
+      continue;
+    }
+
+    const { listing } = match;
+
+    if (dryRun) {
+      entries.push(
+        toEntry(transfer, "would_create", { listingSlug: listing.slug })
+      );
+    } else {
+      try {
+        const [created] = await Transaction.create(
+          [
+            {
+              listingSlug: listing.slug,
+              sellerAddress: listing.sellerAddress,
+              buyerAddress: transfer.from,
+              priceUsdc: listing.priceUsdc,
+              appId: listing.appId,
+              chainId,
+              txHash: transfer.txHash,
+              network: `eip155:${chainId}`,
+              createdAt: transfer.timestamp,
+              updatedAt: transfer.timestamp,
+              // Paid into escrow: held like a purchase route sale
+              ...(transfer.to === escrowAddress
+                ? {
+                    escrowStatus: "pending_release",
+                    escrowReleaseAt: getEscrowReleaseAt(transfer.timestamp),
+                    escrowEvents: [escrowHeldEvent(transfer.txHash)],
+                  }
+                : {}),
+            },
+          ],
+          { timestamps: false }
+        );
+
+        // Code pool listings: the buyer is owed their own code
+        if (listing.codePoolSize) {
+          const poolCode = await claimPoolCode(listing.slug, {
+            claimKey: `tx:${transfer.txHash}`,
+            buyerAddress: transfer.from,
+          });
+          if (poolCode) {
+            await bindPoolCode(poolCode._id, created._id);
+            await Transaction.updateOne(
+              { _id: created._id },
+              { $set: { poolCodeId: poolCode._id } }
+            );
+          }
+        }
+
+        await incrementPurchaseCount(listing.slug);
+
+        entries.push(
+          toEntry(transfer, "created", {
+            listingSlug: listing.slug,
+            transactionId: created._id.toString(),
+          })
+        );
+      } catch (error) {
+        // Another run (or the purchase route) recorded it in the meantime
+        if (isDuplicateKeyError(error)) {
+          entries.push(
+            toEntry(transfer, "recorded", { listingSlug: listing.slug })
+          );
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    // Keep the in-memory inventory in step so later transfers see the new count
+    listing.purchaseCount = (listing.purchaseCount ?? 0) + 1;
+    const maxUses = listing.maxUses ?? 1;
+    if (maxUses !== -1 && listing.purchaseCount >= maxUses) {
+      listing.status = "sold";
+    }
+  }
+
+  const summary: Record<ReconcileOutcome, number> = {
+    recorded: 0,
+    payout: 0,
+    linked: 0,
+    created: 0,
+    would_create: 0,
+    ambiguous: 0,
+    unmatched: 0,
+    pending: 0,
+  };
+  for (const entry of entries) {
+    summary[entry.outcome]++;
+  }
+
+  return {
+    chainId,
+    fromBlock: fromBlock.toString(),
+    toBlock: toBlock.toString(),
+    dryRun,
+    sellersScanned: sellers.length,
+    transfersScanned: transfers.length,
+    summary,
+    entries,
+  };
+}
@@ -0,0 +1,113 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { connectTestDB, disconnectTestDB, testMongoUrl } from "@/lib/test-db";
+import { chainId } from "@/lib/chain";
+import {
+  commitReservation,
+  releaseReservation,
+  reserveForPayment,
+} from "@/lib/reservation";
+import { Listing } from "@/models/listing";
+import { Reservation } from "@/models/reservation";
+
+const SLUG = "last-unit";
+
+// Two uses, one already sold: a single unit is left
+async function createListing() {
+  await Listing.create({
+    slug: SLUG,
+    priceUsdc: 5,
+    sellerAddress: `0x${"1".repeat(40)}`,
+    chainId,
+    maxUses: 2,
+    purchaseCount: 1,
+  });
+}
+
+async function getListing() {
+  return Listing.findOne({ slug: SLUG }).lean();
+}
+
+describe(
+  "payment reservations",
+  { skip: !testMongoUrl && "TEST_MONGODB_URL is not set" },
+  () => {
+    before(connectTestDB);
+    after(disconnectTestDB);
+
+    beforeEach(async () => {
+      await Promise.all([Listing.deleteMany({}), Reservation.deleteMany({})]);
+      await createListing();
+    });
+
+    it("holds the last unit for only one of two concurrent payments", async () => {
+      const results = await Promise.all([
+        reserveForPayment(SLUG, "payment-a"),
+        reserveForPayment(SLUG, "payment-b"),
+      ]);
+
+      assert.deepEqual(results.map((result) => result.status).sort(), [
+        "reserved",
+        "unavailable",
+      ]);
+      assert.equal((await getListing())?.reservedCount, 1);
+    });
+
+    it("gives a released unit to a retried payment", async () => {
+      assert.equal(
+        (await reserveForPayment(SLUG, "payment-a")).status,
+        "reserved"
+      );
+      assert.equal(
+        (await reserveForPayment(SLUG, "payment-b")).status,
+        "unavailable"
+      );
+
+      assert.equal(await releaseReservation("payment-a"), true);
+      assert.equal((await getListing())?.reservedCount, 0);
+
+      assert.equal(
+        (await reserveForPayment(SLUG, "payment-b")).status,
+        "reserved"
+      );
+    });
+
+    it("commits a hold once, however often it is retried", async () => {
+      await reserveForPayment(SLUG, "payment-a");
+
+      await Promise.all([
+        commitReservation("payment-a", `0x${"a".repeat(64)}`),
+        commitReservation("payment-a", `0x${"a".repeat(64)}`),
+      ]);
+
+      const listing = await getListing();
+      assert.equal(listing?.purchaseCount, 2);
+      assert.equal(listing?.reservedCount, 0);
+      assert.equal(listing?.status, "sold");
+
+      assert.equal(
+        (await reserveForPayment(SLUG, "payment-a")).status,
+        "settled"
+      );
+      assert.equal(await releaseReservation("payment-a"), false);
+      assert.equal(
+        (await reserveForPayment(SLUG, "payment-c")).status,
+        "unavailable"
+      );
+    });
+
+    it("returns the unit once when a commit and a release race", async () => {
+      await reserveForPayment(SLUG, "payment-a");
+
+      await Promise.all([
+        commitReservation("payment-a"),
+        releaseReservation("payment-a"),
+      ]);
+
+      // Whichever wins, the payment is counted and nothing stays held
+      const listing = await getListing();
+      assert.equal(listing?.purchaseCount, 2);
+      assert.equal(listing?.reservedCount, 0);
+    });
+  }
+);
@@ -0,0 +1,176 @@
+import { createHash } from "crypto";
+import { connectDB, isDuplicateKeyError } from "@/lib/mongoose";
+import { chainId } from "@/lib/chain";
+import {
+  incrementPurchaseCount,
+  releaseListingUnit,
+  reserveListingUnit,
+} from "@/lib/listing";
+import { Reservation, type IReservation } from "@/models/reservation";
+
+// How long a unit stays held while its payment is being settled
+export const RESERVATION_HOLD_MS = 2 * 60 * 1000;
+
+// How long finished reservations are kept around to answer retries
+const RESERVATION_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type ReserveResult =
+  | { status: "reserved"; reservation: IReservation }
+  | { status: "settled"; reservation: IReservation }
+  | { status: "in_progress" }
+  | { status: "unavailable" };
+
+/**
+ * Derives the idempotency key for a purchase from its x402 payment payload.
+ * The payload carries a signed authorization with a unique nonce, so a retry
+ * of the same payment always yields the same key.
+ */
+export function getPaymentIdempotencyKey(slug: string, paymentData: string) {
+  return createHash("sha256")
+    .update(`${chainId}:${slug}:${paymentData}`)
+    .digest("hex");
+}
+
+/**
+ * Releases holds on a listing whose settlement never finished (e.g. the
+ * function timed out between reserving and settling).
+ */
+export async function releaseExpiredReservations(slug: string) {
+  await connectDB();
+
+  const expired = await Reservation.find({
+    listingSlug: slug,
+    chainId,
+    status: "held",
+    expiresAt: { $lt: new Date() },
+  })
+    .select("idempotencyKey")
+    .lean();
+
+  for (const reservation of expired) {
+    await releaseReservation(reservation.idempotencyKey);
+  }
+
+  return expired.length;
+}
+
+/**
+ * Holds one unit of a listing for the payment identified by `idempotencyKey`.
+ *
+ * - "reserved": a new hold was taken, settle the payment next
+ * - "settled": this payment was already recorded, replay the previous result
+ * - "in_progress": the same payment is being settled by another request
+ * - "unavailable": the listing has no free units
+ */
+export async function reserveForPayment(
+  slug: string,
+  idempotencyKey: string
+): Promise<ReserveResult> {
+  await connectDB();
+  await releaseExpiredReservations(slug);
+
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + RESERVATION_HOLD_MS);
+
+  let reservation: IReservation | null = null;
+
+  try {
+    reservation = (
+      await Reservation.create({
+        idempotencyKey,
+        listingSlug: slug,
+        chainId,
+        status: "held",
+        expiresAt,
+      })
+    ).toObject();
+  } catch (error) {
+    if (!isDuplicateKeyError(error)) {
+      throw error;
+    }
+
+    const existing = await Reservation.findOne({ idempotencyKey }).lean();
+    if (existing?.status === "settled") {
+      return { status: "settled", reservation: existing };
+    }
+
+    // Retry of a payment whose previous attempt failed: take the hold again
+    reservation = await Reservation.findOneAndUpdate(
+      { idempotencyKey, status: "released" },
+      { $set: { status: "held", expiresAt }, $unset: { purgeAt: "" } },
+      { new: true }
+    ).lean();
+
+    if (!reservation) {
+      return { status: "in_progress" };
+    }
+  }
+
+  const listing = await reserveListingUnit(slug);
+
+  if (!listing) {
+    // Nothing was held on the listing, so only the reservation is closed
+    await Reservation.updateOne(
+      { idempotencyKey, status: "held" },
+      {
+        $set: {
+          status: "released",
+          purgeAt: new Date(now.getTime() + RESERVATION_RETENTION_MS),
+        },
+      }
+    );
+    return { status: "unavailable" };
+  }
+
+  return { status: "reserved", reservation };
+}
+
+/**
+ * Converts a hold into a completed purchase. Safe to call more than once:
+ * only the first call increments the listing's purchase count.
+ */
+export async function commitReservation(idempotencyKey: string, txHash?: string) {
+  await connectDB();
+
+  const previous = await Reservation.findOneAndUpdate(
+    { idempotencyKey, status: { $ne: "settled" } },
+    {
+      $set: {
+        status: "settled",
+        purgeAt: new Date(Date.now() + RESERVATION_RETENTION_MS),
+        ...(txHash ? { txHash } : {}),
+      },
+    },
+    { new: false }
+  ).lean();
+
+  if (!previous) return null;
+
+  // If the hold already expired and was released, the unit is no longer held
+  return incrementPurchaseCount(previous.listingSlug, {
+    releaseHold: previous.status === "held",
+  });
+}
+
+/**
+ * Returns the held unit to the listing after a failed settlement.
+ */
+export async function releaseReservation(idempotencyKey: string) {
+  await connectDB();
+
+  const released = await Reservation.findOneAndUpdate(
+    { idempotencyKey, status: "held" },
+    {
+      $set: {
+        status: "released",
+        purgeAt: new Date(Date.now() + RESERVATION_RETENTION_MS),
+      },
+    },
+    { new: true }
+  ).lean();
+
+  if (!released) return false;
+
+  await releaseListingUnit(released.listingSlug);
+  return true;
+}
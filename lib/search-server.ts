@@ -0,0 +1,207 @@
+import { connectDB } from "@/lib/mongoose";
+import { App, type IApp } from "@/models/app";
+import { Listing, type IListing } from "@/models/listing";
+import { ResolvedAddress } from "@/models/resolvedAddress";
+import { chainId } from "@/lib/chain";
+import { describeListingApp, getAppsBySlug } from "@/lib/apps";
+import { availableListingFilter } from "@/lib/listing";
+import {
+  MAX_SEARCH_RESULTS_PER_KIND,
+  normalizeSearchQuery,
+  scoreMatch,
+  type AppSearchResult,
+  type ListingSearchResult,
+  type SearchResult,
+  type SellerSearchResult,
+} from "@/lib/search";
+
+// Server side of /api/search: finds apps, available listings and sellers by
+// name and ranks them with scoreMatch.
+
+// Candidates loaded per kind before ranking
+const SEARCH_CANDIDATES = 50;
+
+// Between equally good matches, apps come before sellers before listings
+const KIND_BOOST = { app: 3, seller: 2, listing: 1 };
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Available listings per app or seller
+async function countAvailableListings(
+  field: "appId" | "sellerAddress",
+  values: string[]
+): Promise<Map<string, number>> {
+  if (values.length === 0) return new Map();
+
+  const counts = await Listing.aggregate<{ _id: string; count: number }>([
+    { $match: { ...availableListingFilter(), [field]: { $in: values } } },
+    { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+  ]);
+  return new Map(counts.map(({ _id, count }) => [_id, count]));
+}
+
+async function searchApps(query: string, pattern: RegExp) {
+  // Featured apps only on their chains; custom apps are on every chain
+  const apps = await App.find({
+    $and: [
+      { $or: [{ name: pattern }, { aliases: pattern }] },
+      { $or: [{ featured: false }, { chainIds: chainId }] },
+    ],
+  })
+    .limit(SEARCH_CANDIDATES)
+    .lean<IApp[]>();
+
+  const counts = await countAvailableListings(
+    "appId",
+    apps.map((app) => app.slug)
+  );
+
+  // How well each app's best name matched, for ranking its listings
+  const matchScores = new Map<string, number>();
+
+  const results = apps.map((app): AppSearchResult => {
+    const nameScore = scoreMatch(app.name, query);
+    const alias = app.aliases
+      .filter((value) => value !== app.slug)
+      .map((value) => ({ value, score: scoreMatch(value, query) }))
+      .sort((a, b) => b.score - a.score)[0];
+    const aliasMatched = !!alias && alias.score > nameScore;
+    const matchScore = aliasMatched ? alias.score : nameScore;
+    matchScores.set(app.slug, matchScore);
+
+    return {
+      type: "app",
+      id: app.slug,
+      name: app.name,
+      iconUrl: app.iconUrl,
+      iconNeedsDarkBg: app.iconNeedsDarkBg ?? false,
+      featured: app.featured,
+      matchedAlias: aliasMatched ? alias.value : undefined,
+      activeListings: counts.get(app.slug) ?? 0,
+      // Featured apps and apps with listings first among equal matches
+      score:
+        matchScore + (app.featured ? 2 : 0) + (counts.get(app.slug) ? 1 : 0),
+    };
+  });
+
+  return { matchScores, results };
+}
+
+async function searchListings(
+  query: string,
+  pattern: RegExp,
+  appMatchScores: Map<string, number>
+) {
+  // Listings of matching apps (featured listings don't store an appName), or
+  // with a matching custom app name or description
+  const listings = await Listing.find({
+    ...availableListingFilter(),
+    $or: [
+      { appId: { $in: [...appMatchScores.keys()] } },
+      { appName: pattern },
+      { description: pattern },
+    ],
+  })
+    .select(
+      "slug listingType priceUsdc sellerAddress appId appName appUrl inviteDomain description createdAt"
+    )
+    .sort({ createdAt: -1 })
+    .limit(SEARCH_CANDIDATES)
+    .lean<IListing[]>();
+
+  const apps = await getAppsBySlug(listings.map((listing) => listing.appId));
+
+  return listings.map((listing): ListingSearchResult => {
+    const app = listing.appId ? apps.get(listing.appId) : null;
+    const { appName, appIconUrl, iconNeedsDarkBg } = describeListingApp(
+      listing,
+      app
+    );
+
+    return {
+      type: "listing",
+      slug: listing.slug,
+      appName: appName ?? "App",
+      appIconUrl,
+      iconNeedsDarkBg,
+      priceUsdc: listing.priceUsdc,
+      description: listing.description,
+      sellerAddress: listing.sellerAddress,
+      // A matching description counts for less than a matching app name
+      score: Math.max(
+        (listing.appId && appMatchScores.get(listing.appId)) || 0,
+        scoreMatch(appName, query),
+        scoreMatch(listing.description, query) / 2
+      ),
+    };
+  });
+}
+
+async function searchSellers(query: string, pattern: RegExp) {
+  const resolved = await ResolvedAddress.find({ displayName: pattern })
+    .limit(SEARCH_CANDIDATES)
+    .lean();
+
+  // Only addresses that have listed on this chain have a seller profile
+  const sellers = new Set<string>(
+    await Listing.distinct("sellerAddress", {
+      chainId,
+      sellerAddress: { $in: resolved.map((entry) => entry.address) },
+    })
+  );
+  const counts = await countAvailableListings("sellerAddress", [...sellers]);
+
+  return resolved
+    .filter((entry) => sellers.has(entry.address))
+    .map(
+      (entry): SellerSearchResult => ({
+        type: "seller",
+        address: entry.address,
+        displayName: entry.displayName,
+        avatarUrl: entry.avatarUrl,
+        resolvedType: entry.resolvedType,
+        activeListings: counts.get(entry.address) ?? 0,
+        score:
+          scoreMatch(entry.displayName, query) +
+          (counts.get(entry.address) ? 1 : 0),
+      })
+    );
+}
+
+// Best matches first, at most MAX_SEARCH_RESULTS_PER_KIND
+function topResults<T extends SearchResult>(results: T[]): T[] {
+  return results
+    .filter((result) => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SEARCH_RESULTS_PER_KIND);
+}
+
+/**
+ * Searches apps (by name or alias), available listings (by app name or
+ * description) and sellers (by resolved Farcaster, Basename or ENS name).
+ * Returns the results ranked across kinds, best match first.
+ */
+export async function search(rawQuery: string): Promise<SearchResult[]> {
+  const query = normalizeSearchQuery(rawQuery);
+  if (!query) return [];
+
+  await connectDB();
+
+  const pattern = new RegExp(escapeRegex(query), "i");
+  const [{ matchScores, results: appResults }, sellerResults] =
+    await Promise.all([
+      searchApps(query, pattern),
+      searchSellers(query, pattern),
+    ]);
+  const listingResults = await searchListings(query, pattern, matchScores);
+
+  return [
+    ...topResults(appResults),
+    ...topResults(listingResults),
+    ...topResults(sellerResults),
+  ].sort(
+    (a, b) => b.score - a.score || KIND_BOOST[b.type] - KIND_BOOST[a.type]
+  );
+}
@@ -0,0 +1,113 @@
+// Shared (client-safe) search types and helpers for /api/search and the
+// navbar's command palette.
+
+import type { ResolvedType } from "@/models/resolvedAddress";
+
+export const MIN_SEARCH_QUERY_LENGTH = 2;
+
+export const MAX_SEARCH_QUERY_LENGTH = 64;
+
+// Results returned per kind (apps, listings, sellers)
+export const MAX_SEARCH_RESULTS_PER_KIND = 5;
+
+export interface AppSearchResult {
+  type: "app";
+  id: string;
+  name: string;
+  iconUrl?: string;
+  iconNeedsDarkBg: boolean;
+  featured: boolean;
+  // Another name of the app that matched better than its display name
+  matchedAlias?: string;
+  activeListings: number;
+  score: number;
+}
+
+export interface ListingSearchResult {
+  type: "listing";
+  slug: string;
+  appName: string;
+  appIconUrl?: string;
+  iconNeedsDarkBg: boolean;
+  priceUsdc: number;
+  description?: string;
+  sellerAddress: string;
+  score: number;
+}
+
+export interface SellerSearchResult {
+  type: "seller";
+  address: string;
+  displayName: string;
+  avatarUrl: string | null;
+  resolvedType: ResolvedType;
+  activeListings: number;
+  score: number;
+}
+
+export type SearchResult =
+  | AppSearchResult
+  | ListingSearchResult
+  | SellerSearchResult;
+
+/**
+ * Normalizes a search query: trimmed, lowercase and at most
+ * MAX_SEARCH_QUERY_LENGTH characters.
+ */
+export function normalizeSearchQuery(query: string): string {
+  return query.trim().toLowerCase().slice(0, MAX_SEARCH_QUERY_LENGTH);
+}
+
+/**
+ * How well a text matches a normalized query, from 0 (no match) to 100 (the
+ * whole text). Prefixes rank above words starting with the query, which rank
+ * above matches inside a word.
+ */
+export function scoreMatch(
+  text: string | null | undefined,
+  query: string
+): number {
+  if (!text || !query) return 0;
+
+  const value = text.toLowerCase();
+  if (value === query) return 100;
+  if (value.startsWith(query)) return 80;
+  if (value.split(/[^a-z0-9]+/).some((word) => word.startsWith(query))) {
+    return 60;
+  }
+  if (value.includes(query)) return 40;
+  return 0;
+}
+
+/**
+ * Splits a text into parts that match the query and parts that don't, for
+ * highlighting matches (case-insensitive).
+ */
+export function splitSearchMatches(
+  text: string,
+  query: string
+): { text: string; match: boolean }[] {
+  const needle = normalizeSearchQuery(query);
+  if (!needle) return [{ text, match: false }];
+
+  const parts: { text: string; match: boolean }[] = [];
+  const haystack = text.toLowerCase();
+  let position = 0;
+
+  for (
+    let index = haystack.indexOf(needle);
+    index !== -1;
+    index = haystack.indexOf(needle, position)
+  ) {
+    if (index > position) {
+      parts.push({ text: text.slice(position, index), match: false });
+    }
+    parts.push({ text: text.slice(index, index + needle.length), match: true });
+    position = index + needle.length;
+  }
+  if (position < text.length) {
+    parts.push({ text: text.slice(position), match: false });
+  }
+
+  return parts;
+}
@@ -0,0 +1,363 @@
+import { connectDB } from "@/lib/mongoose";
+import { Listing } from "@/models/listing";
+import { Transaction } from "@/models/transaction";
+import { chainId } from "@/lib/chain";
+import { describeListingApp, getAppsBySlug } from "@/lib/apps";
+import { availableListingFilter } from "@/lib/listing";
+import { settledSaleFilter } from "@/lib/disputes";
+import {
+  bucketIndexExpression,
+  getBucketWindow,
+} from "@/lib/market-analytics-server";
+import {
+  ANALYTICS_BUCKET_MS,
+  type AnalyticsBucket,
+  type AnalyticsRange,
+} from "@/lib/market-analytics";
+import {
+  MAX_REPEAT_BUYERS,
+  type ListingPerformance,
+  type SellerAnalytics,
+  type SellerTransactionRecord,
+} from "@/lib/seller-analytics";
+
+// Server side of GET /api/seller/[address]/analytics: one seller's sales,
+// listings and buyers, aggregated by MongoDB. Refunded sales are left out of
+// every figure (the export still lists them, with their status).
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Settled sales in the range with the time since their listing was created
+function salesWithTimeToSale(sellerAddress: string, from: Date, to: Date) {
+  return Transaction.aggregate<{
+    _id: unknown;
+    buyerAddress: string;
+    priceUsdc: number;
+    createdAt: Date;
+    // Null when the listing was deleted
+    timeToSaleMs: number | null;
+  }>([
+    {
+      $match: {
+        chainId,
+        sellerAddress,
+        createdAt: { $gte: from, $lte: to },
+        ...settledSaleFilter(),
+      },
+    },
+    {
+      $lookup: {
+        from: Listing.collection.name,
+        localField: "listingSlug",
+        foreignField: "slug",
+        as: "listing",
+      },
+    },
+    {
+      $project: {
+        buyerAddress: { $toLower: "$buyerAddress" },
+        priceUsdc: 1,
+        createdAt: 1,
+        timeToSaleMs: {
+          $let: {
+            vars: { listing: { $arrayElemAt: ["$listing", 0] } },
+            in: {
+              $cond: [
+                // Buy order fills are created for the buyer and sell right away
+                {
+                  $or: [
+                    { $not: ["$$listing"] },
+                    { $gt: ["$$listing.reservedFor", null] },
+                  ],
+                },
+                null,
+                { $subtract: ["$createdAt", "$$listing.createdAt"] },
+              ],
+            },
+          },
+        },
+      },
+    },
+  ]);
+}
+
+// Settled revenue and sales per bucket
+async function aggregateRevenueSeries(
+  sellerAddress: string,
+  from: Date,
+  to: Date,
+  bucket: AnalyticsBucket,
+  bucketCount: number
+) {
+  const buckets = await Transaction.aggregate<{
+    _id: number;
+    revenue: number;
+    sales: number;
+  }>([
+    {
+      $match: {
+        chainId,
+        sellerAddress,
+        createdAt: { $gte: from, $lte: to },
+        ...settledSaleFilter(),
+      },
+    },
+    {
+      $group: {
+        _id: bucketIndexExpression("$createdAt", from, bucket),
+        revenue: { $sum: "$priceUsdc" },
+        sales: { $sum: 1 },
+      },
+    },
+  ]);
+
+  const byBucket = new Map(buckets.map((entry) => [entry._id, entry]));
+  const bucketMs = ANALYTICS_BUCKET_MS[bucket];
+
+  return Array.from({ length: bucketCount }, (_, i) => ({
+    start: new Date(from.getTime() + i * bucketMs).toISOString(),
+    revenue: round(byBucket.get(i)?.revenue ?? 0),
+    sales: byBucket.get(i)?.sales ?? 0,
+  }));
+}
+
+// Every listing with its lifetime sales, conversion and price against the floor
+async function aggregateListingPerformance(
+  sellerAddress: string
+): Promise<ListingPerformance[]> {
+  const listings = await Listing.aggregate<{
+    slug: string;
+    appId: string;
+    appName?: string;
+    inviteDomain?: string;
+    appUrl?: string;
+    listingType?: "invite_link" | "access_code";
+    status: string;
+    priceUsdc: number;
+    createdAt: Date;
+    maxUses?: number;
+    purchaseCount?: number;
+    revenue: number;
+    avgTimeToSaleMs: number | null;
+  }>([
+    { $match: { chainId, sellerAddress } },
+    {
+      $lookup: {
+        from: Transaction.collection.name,
+        let: { slug: "$slug" },
+        pipeline: [
+          {
+            $match: {
+              $expr: {
+                $and: [
+                  { $eq: ["$listingSlug", "$$slug"] },
+                  { $eq: ["$chainId", chainId] },
+                ],
+              },
+              ...settledSaleFilter(),
+            },
+          },
+          { $project: { priceUsdc: 1, createdAt: 1 } },
+        ],
+        as: "sales",
+      },
+    },
+    {
+      $project: {
+        slug: 1,
+        appId: 1,
+        appName: 1,
+        inviteDomain: 1,
+        appUrl: 1,
+        listingType: 1,
+        status: 1,
+        priceUsdc: 1,
+        createdAt: 1,
+        maxUses: 1,
+        purchaseCount: 1,
+        revenue: { $sum: "$sales.priceUsdc" },
+        avgTimeToSaleMs: {
+          $cond: [
+            // Buy order fills sell on creation
+            { $gt: ["$reservedFor", null] },
+            null,
+            {
+              $avg: {
+                $map: {
+                  input: "$sales",
+                  as: "sale",
+                  in: { $subtract: ["$$sale.createdAt", "$createdAt"] },
+                },
+              },
+            },
+          ],
+        },
+      },
+    },
+    { $sort: { createdAt: -1 } },
+  ]);
+
+  const appIds = [...new Set(listings.map((listing) => listing.appId))];
+  const [apps, floors] = await Promise.all([
+    getAppsBySlug(appIds),
+    // Same availability as /api/listings/lowest-price
+    Listing.aggregate<{ _id: string; floor: number }>([
+      { $match: { ...availableListingFilter(), appId: { $in: appIds } } },
+      { $group: { _id: "$appId", floor: { $min: "$priceUsdc" } } },
+    ]),
+  ]);
+  const floorByApp = new Map(floors.map((entry) => [entry._id, entry.floor]));
+
+  return listings.map((listing) => {
+    const maxUses = listing.maxUses ?? 1;
+    const purchaseCount = listing.purchaseCount ?? 0;
+    const appFloor = floorByApp.get(listing.appId) ?? null;
+
+    return {
+      slug: listing.slug,
+      appId: listing.appId,
+      appName:
+        describeListingApp(listing, apps.get(listing.appId)).appName ?? "App",
+      status: listing.status,
+      priceUsdc: listing.priceUsdc,
+      createdAt: listing.createdAt.toISOString(),
+      maxUses,
+      purchaseCount,
+      conversion:
+        maxUses === -1 ? null : Math.min(1, purchaseCount / maxUses),
+      revenue: round(listing.revenue),
+      avgTimeToSaleMs: listing.avgTimeToSaleMs,
+      appFloor,
+      priceVsFloor: appFloor
+        ? round(((listing.priceUsdc - appFloor) / appFloor) * 100)
+        : null,
+    };
+  });
+}
+
+/**
+ * A seller's analytics over a range: revenue per bucket, unique and repeat
+ * buyers and average time to sale of the range's sales, plus every listing's
+ * lifetime conversion and price against its app's floor.
+ * `sellerAddress` must be lowercase.
+ */
+export async function getSellerAnalytics(
+  sellerAddress: string,
+  range: AnalyticsRange,
+  bucket: AnalyticsBucket,
+  now = new Date()
+): Promise<
+  | { ok: true; analytics: SellerAnalytics }
+  | { ok: false; error: string; status: number }
+> {
+  await connectDB();
+
+  const bucketWindow = await getBucketWindow(range, bucket, now, {
+    sellerAddress,
+  });
+  if (!bucketWindow.ok) return bucketWindow;
+  const { from, bucketCount } = bucketWindow;
+
+  const [sales, revenueSeries, listings] = await Promise.all([
+    salesWithTimeToSale(sellerAddress, from, now),
+    aggregateRevenueSeries(sellerAddress, from, now, bucket, bucketCount),
+    aggregateListingPerformance(sellerAddress),
+  ]);
+
+  const buyers = new Map<
+    string,
+    { purchases: number; spent: number; lastPurchaseAt: Date }
+  >();
+  for (const sale of sales) {
+    const buyer = buyers.get(sale.buyerAddress);
+    if (buyer) {
+      buyer.purchases++;
+      buyer.spent += sale.priceUsdc;
+      if (sale.createdAt > buyer.lastPurchaseAt) {
+        buyer.lastPurchaseAt = sale.createdAt;
+      }
+    } else {
+      buyers.set(sale.buyerAddress, {
+        purchases: 1,
+        spent: sale.priceUsdc,
+        lastPurchaseAt: sale.createdAt,
+      });
+    }
+  }
+
+  const repeatBuyers = [...buyers.entries()]
+    .filter(([, buyer]) => buyer.purchases > 1)
+    .sort(([, a], [, b]) => b.purchases - a.purchases || b.spent - a.spent);
+
+  const timesToSale = sales
+    .map((sale) => sale.timeToSaleMs)
+    .filter((ms): ms is number => ms !== null);
+
+  return {
+    ok: true,
+    analytics: {
+      range,
+      bucket,
+      from: from.toISOString(),
+      to: now.toISOString(),
+      summary: {
+        revenue: round(sales.reduce((sum, sale) => sum + sale.priceUsdc, 0)),
+        sales: sales.length,
+        uniqueBuyers: buyers.size,
+        repeatBuyers: repeatBuyers.length,
+        repeatBuyerRevenue: round(
+          repeatBuyers.reduce((sum, [, buyer]) => sum + buyer.spent, 0)
+        ),
+        avgTimeToSaleMs:
+          timesToSale.length > 0
+            ? timesToSale.reduce((sum, ms) => sum + ms, 0) / timesToSale.length
+            : null,
+      },
+      revenueSeries,
+      listings,
+      repeatBuyers: repeatBuyers
+        .slice(0, MAX_REPEAT_BUYERS)
+        .map(([address, buyer]) => ({
+          address,
+          purchases: buyer.purchases,
+          spent: round(buyer.spent),
+          lastPurchaseAt: buyer.lastPurchaseAt.toISOString(),
+        })),
+    },
+  };
+}
+
+/**
+ * Every sale of a seller on this chain, oldest first, for their records.
+ * `sellerAddress` must be lowercase.
+ */
+export async function getSellerTransactions(
+  sellerAddress: string
+): Promise<SellerTransactionRecord[]> {
+  await connectDB();
+
+  const transactions = await Transaction.find({ chainId, sellerAddress })
+    .sort({ createdAt: 1 })
+    .lean();
+  const apps = await getAppsBySlug(transactions.map((tx) => tx.appId));
+
+  return transactions.map((tx) => ({
+    date: tx.createdAt.toISOString(),
+    txHash: tx.txHash ?? null,
+    network: tx.network ?? null,
+    chainId: tx.chainId,
+    listingSlug: tx.listingSlug,
+    appId: tx.appId,
+    appName:
+      describeListingApp({ appId: tx.appId }, apps.get(tx.appId)).appName ??
+      "App",
+    buyerAddress: tx.buyerAddress,
+    priceUsdc: tx.priceUsdc,
+    offerId: tx.offerId ? tx.offerId.toString() : null,
+    escrowStatus: tx.escrowStatus ?? null,
+    payoutTxHash: tx.payoutTxHash ?? null,
+    disputeStatus: tx.disputeStatus ?? null,
+  }));
+}
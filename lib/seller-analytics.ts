@@ -0,0 +1,93 @@
+// Shared (client-safe) types of a seller's analytics
+// (GET /api/seller/[address]/analytics) and the profile's Analytics tab.
+
+import type { AnalyticsBucket, AnalyticsRange } from "@/lib/market-analytics";
+import type { DisputeStatus } from "@/lib/disputes";
+import type { EscrowStatus } from "@/models/transaction";
+
+// Sellers see their whole history unless they pick a shorter range
+export const DEFAULT_SELLER_ANALYTICS_RANGE: AnalyticsRange = "all";
+
+export type SellerExportFormat = "csv" | "json";
+
+export const SELLER_EXPORT_FORMATS: SellerExportFormat[] = ["csv", "json"];
+
+export function isSellerExportFormat(
+  value: unknown
+): value is SellerExportFormat {
+  return SELLER_EXPORT_FORMATS.includes(value as SellerExportFormat);
+}
+
+// Repeat buyers listed at most
+export const MAX_REPEAT_BUYERS = 10;
+
+export interface SellerRevenuePoint {
+  start: string; // Start of the bucket (ISO)
+  revenue: number; // USDC
+  sales: number;
+}
+
+// A listing's sales over its lifetime, whatever the range
+export interface ListingPerformance {
+  slug: string;
+  appId: string;
+  appName: string;
+  status: string;
+  priceUsdc: number;
+  createdAt: string;
+  maxUses: number; // -1 = unlimited
+  purchaseCount: number;
+  // Share of its uses sold (0-1); null for unlimited listings
+  conversion: number | null;
+  revenue: number;
+  avgTimeToSaleMs: number | null;
+  // Lowest available ask of the app (as /api/listings/lowest-price), and this
+  // listing's price relative to it in percent
+  appFloor: number | null;
+  priceVsFloor: number | null;
+}
+
+export interface RepeatBuyer {
+  address: string;
+  purchases: number;
+  spent: number; // USDC
+  lastPurchaseAt: string;
+}
+
+export interface SellerAnalytics {
+  range: AnalyticsRange;
+  bucket: AnalyticsBucket;
+  from: string;
+  to: string;
+  // Sales in the range
+  summary: {
+    revenue: number;
+    sales: number;
+    uniqueBuyers: number;
+    // Buyers with more than one purchase, and the revenue they brought
+    repeatBuyers: number;
+    repeatBuyerRevenue: number;
+    avgTimeToSaleMs: number | null;
+  };
+  revenueSeries: SellerRevenuePoint[];
+  listings: ListingPerformance[];
+  repeatBuyers: RepeatBuyer[];
+}
+
+// One sale in a seller's export (every sale, whatever the range)
+export interface SellerTransactionRecord {
+  date: string; // ISO
+  txHash: string | null;
+  network: string | null;
+  chainId: number;
+  listingSlug: string;
+  appId: string;
+  appName: string;
+  buyerAddress: string;
+  priceUsdc: number;
+  // Purchases paying an accepted offer instead of the asking price
+  offerId: string | null;
+  escrowStatus: EscrowStatus | null;
+  payoutTxHash: string | null;
+  disputeStatus: DisputeStatus | null;
+}
@@ -0,0 +1,50 @@
+import { connectDB } from "@/lib/mongoose";
+import { Transaction } from "@/models/transaction";
+import { chainId } from "@/lib/chain";
+import { toDeliveryStats, type DeliveryStats } from "@/lib/delivery-feedback";
+
+/**
+ * Aggregates buyer delivery feedback per seller.
+ * Returns a map keyed by lowercase seller address; sellers without any
+ * feedback are omitted.
+ */
+export async function getSellerDeliveryStats(
+  sellerAddresses: string[]
+): Promise<Record<string, DeliveryStats>> {
+  if (sellerAddresses.length === 0) return {};
+
+  await connectDB();
+
+  const results = await Transaction.aggregate<{
+    _id: string;
+    worked: number;
+    failed: number;
+  }>([
+    {
+      $match: {
+        sellerAddress: {
+          $in: [...new Set(sellerAddresses.map((a) => a.toLowerCase()))],
+        },
+        chainId,
+        "deliveryFeedback.worked": { $exists: true },
+      },
+    },
+    {
+      $group: {
+        _id: "$sellerAddress",
+        worked: {
+          $sum: { $cond: ["$deliveryFeedback.worked", 1, 0] },
+        },
+        failed: {
+          $sum: { $cond: ["$deliveryFeedback.worked", 0, 1] },
+        },
+      },
+    },
+  ]);
+
+  const stats: Record<string, DeliveryStats> = {};
+  for (const result of results) {
+    stats[result._id] = toDeliveryStats(result.worked, result.failed);
+  }
+  return stats;
+}
@@ -0,0 +1,244 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { NextRequest, NextResponse } from "next/server";
+import { generateSiweNonce, parseSiweMessage } from "viem/siwe";
+import { connectDB } from "@/lib/mongoose";
+import { chainId } from "@/lib/chain";
+import { verifyMessageSignature } from "@/lib/viem";
+import { AuthNonce } from "@/models/authNonce";
+
+const SESSION_SECRET = process.env.SESSION_SECRET;
+
+// Cookie holding the signed session token after Sign-In with Ethereum
+export const SESSION_COOKIE_NAME = "siwe_session";
+
+// How long a session lasts before the wallet has to sign in again
+export const SESSION_TTL_SECONDS = 24 * 60 * 60;
+
+// How long a nonce from GET /api/auth/nonce can be used to sign in
+const NONCE_TTL_MS = 10 * 60 * 1000;
+
+// Grace period for clock skew between the wallet and the server
+const CLOCK_SKEW_MS = 30 * 1000;
+
+export type SessionRole = "seller" | "buyer";
+
+export type SessionAuthResult =
+  | { ok: true; address: string }
+  | { ok: false; error: string; status: number };
+
+export function isSessionConfigured(): boolean {
+  return !!SESSION_SECRET;
+}
+
+function sign(data: string, secret: string): string {
+  const hmac = createHmac("sha256", secret);
+  hmac.update(data);
+  return hmac.digest("hex");
+}
+
+// Create a signed session token for the cookie
+// Format: address.expiresAt.nonce.signature (expiresAt in ms)
+function createSessionToken(address: string): string {
+  if (!SESSION_SECRET) {
+    throw new Error("SESSION_SECRET not configured");
+  }
+  const expiresAt = (Date.now() + SESSION_TTL_SECONDS * 1000).toString();
+  const nonce = randomBytes(16).toString("hex"); // Random entropy
+  const data = `${address.toLowerCase()}.${expiresAt}.${nonce}`;
+  return `${data}.${sign(data, SESSION_SECRET)}`;
+}
+
+// Verify a session token's signature and expiry, returning the wallet address
+function verifySessionToken(token: string): string | null {
+  if (!SESSION_SECRET || !token) {
+    return null;
+  }
+
+  const parts = token.split(".");
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  const [address, expiresAt, nonce, signature] = parts;
+  const expectedSignature = sign(
+    `${address}.${expiresAt}.${nonce}`,
+    SESSION_SECRET
+  );
+
+  if (
+    signature.length !== expectedSignature.length ||
+    !timingSafeEqual(Buffer.from(signature), Buffer.from(expectedSignature))
+  ) {
+    return null;
+  }
+
+  const expiresAtMs = Number(expiresAt);
+  if (!Number.isFinite(expiresAtMs) || expiresAtMs <= Date.now()) {
+    return null;
+  }
+
+  return address;
+}
+
+export function setSessionCookie(response: NextResponse, address: string) {
+  response.cookies.set(SESSION_COOKIE_NAME, createSessionToken(address), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    maxAge: SESSION_TTL_SECONDS,
+    path: "/",
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.delete(SESSION_COOKIE_NAME);
+}
+
+/**
+ * Issue a single-use nonce for an EIP-4361 sign-in message.
+ */
+export async function createSignInNonce(): Promise<string> {
+  await connectDB();
+
+  const nonce = generateSiweNonce();
+  await AuthNonce.create({
+    nonce,
+    expiresAt: new Date(Date.now() + NONCE_TTL_MS),
+  });
+  return nonce;
+}
+
+/**
+ * Verify a signed EIP-4361 (Sign-In with Ethereum) message.
+ *
+ * The message must be for this site (domain and URI origin), the configured
+ * chain, and carry an unexpired nonce from createSignInNonce. The nonce is
+ * consumed, so each signed message can only start one session.
+ */
+export async function verifySignIn(
+  request: NextRequest,
+  message: string,
+  signature: string
+): Promise<SessionAuthResult> {
+  let fields: ReturnType<typeof parseSiweMessage>;
+  try {
+    fields = parseSiweMessage(message);
+  } catch {
+    return { ok: false, error: "Invalid sign-in message", status: 400 };
+  }
+  const now = Date.now();
+
+  if (
+    !fields.address ||
+    !fields.domain ||
+    !fields.uri ||
+    !fields.nonce ||
+    fields.version !== "1" ||
+    // Timestamps that don't parse come back as Invalid Date
+    [fields.expirationTime, fields.issuedAt, fields.notBefore].some(
+      (date) => date !== undefined && Number.isNaN(date.getTime())
+    )
+  ) {
+    return { ok: false, error: "Invalid sign-in message", status: 400 };
+  }
+
+  let uriOrigin: string | null = null;
+  try {
+    uriOrigin = new URL(fields.uri).origin;
+  } catch {
+    // Checked below
+  }
+
+  if (
+    fields.domain !== request.nextUrl.host ||
+    uriOrigin !== request.nextUrl.origin
+  ) {
+    return { ok: false, error: "Message is for a different site", status: 401 };
+  }
+
+  if (fields.chainId !== chainId) {
+    return { ok: false, error: "Message is for a different chain", status: 401 };
+  }
+
+  if (
+    !fields.expirationTime ||
+    fields.expirationTime.getTime() <= now ||
+    (fields.issuedAt && fields.issuedAt.getTime() > now + CLOCK_SKEW_MS) ||
+    (fields.notBefore && fields.notBefore.getTime() > now + CLOCK_SKEW_MS)
+  ) {
+    return {
+      ok: false,
+      error: "Sign-in message expired. Please sign again.",
+      status: 401,
+    };
+  }
+
+  // Uses thirdweb's verifySignature which supports both EOAs and smart contract wallets (ERC-1271)
+  try {
+    const isValid = await verifyMessageSignature({
+      address: fields.address,
+      message,
+      signature: signature as `0x${string}`,
+    });
+
+    if (!isValid) {
+      return { ok: false, error: "Invalid signature", status: 401 };
+    }
+  } catch {
+    return { ok: false, error: "Invalid signature", status: 401 };
+  }
+
+  // Consume the nonce last so a bad signature can't burn it
+  await connectDB();
+  const nonce = await AuthNonce.findOneAndDelete({
+    nonce: fields.nonce,
+    expiresAt: { $gt: new Date(now) },
+  });
+  if (!nonce) {
+    return {
+      ok: false,
+      error: "Sign-in message expired. Please sign again.",
+      status: 401,
+    };
+  }
+
+  return { ok: true, address: fields.address.toLowerCase() };
+}
+
+/**
+ * Wallet address of the signed-in user, or null without a valid session.
+ */
+export function getSessionAddress(request: NextRequest): string | null {
+  const token = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  return token ? verifySessionToken(token) : null;
+}
+
+/**
+ * Require a session for the seller or buyer that owns a resource, e.g.
+ * authorizeSession(request, "buyer", transaction.buyerAddress).
+ * Admin routes use verifyAdminRequest in lib/admin-auth.ts.
+ */
+export function authorizeSession(
+  request: NextRequest,
+  role: SessionRole,
+  ownerAddress: string
+): SessionAuthResult {
+  const address = getSessionAddress(request);
+
+  if (!address) {
+    return { ok: false, error: "Sign in required", status: 401 };
+  }
+
+  if (address !== ownerAddress.toLowerCase()) {
+    return {
+      ok: false,
+      error:
+        role === "seller"
+          ? "Unauthorized: Not the seller"
+          : "Unauthorized: Not the buyer",
+      status: 403,
+    };
+  }
+
+  return { ok: true, address };
+}
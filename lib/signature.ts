@@ -1,5 +1,7 @@
 // EIP-712 Domain and Types for Listing Operations
 
+import { keccak256, stringToHex } from "viem";
+
 export type ListingType = "invite_link" | "access_code";
 
 export const getEIP712Domain = (chainId: number) =>
@@ -20,10 +22,13 @@ export const EIP712_TYPES = {
     { name: "appId", type: "string" },
     { name: "appName", type: "string" },
     { name: "maxUses", type: "string" },
+    { name: "expiresAt", type: "uint256" },
     { name: "nonce", type: "uint256" },
   ],
 } as const;
 
+// Update and delete messages sign the listing's current version (IListing.version),
+// so a stale signature can't overwrite a newer change
 export const EIP712_UPDATE_TYPES = {
   UpdateListing: [
     { name: "slug", type: "string" },
@@ -36,6 +41,40 @@ export const EIP712_UPDATE_TYPES = {
     { name: "appName", type: "string" },
     { name: "maxUses", type: "string" },
     { name: "description", type: "string" },
+    { name: "expiresAt", type: "uint256" },
+    { name: "version", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+  ],
+} as const;
+
+// Access code listings with one distinct code per buyer.
+// The signature commits to a hash of the uploaded codes (see hashCodePool).
+export const EIP712_CODE_POOL_TYPES = {
+  CreateCodePoolListing: [
+    { name: "appUrl", type: "string" },
+    { name: "codePoolHash", type: "bytes32" },
+    { name: "codeCount", type: "string" },
+    { name: "priceUsdc", type: "string" },
+    { name: "sellerAddress", type: "address" },
+    { name: "appId", type: "string" },
+    { name: "appName", type: "string" },
+    { name: "expiresAt", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+  ],
+} as const;
+
+export const EIP712_CODE_POOL_UPDATE_TYPES = {
+  UpdateCodePoolListing: [
+    { name: "slug", type: "string" },
+    { name: "appUrl", type: "string" },
+    { name: "addedCodesHash", type: "bytes32" },
+    { name: "addedCodeCount", type: "string" },
+    { name: "priceUsdc", type: "string" },
+    { name: "sellerAddress", type: "address" },
+    { name: "appName", type: "string" },
+    { name: "description", type: "string" },
+    { name: "expiresAt", type: "uint256" },
+    { name: "version", type: "uint256" },
     { name: "nonce", type: "uint256" },
   ],
 } as const;
@@ -44,6 +83,52 @@ export const EIP712_DELETE_TYPES = {
   DeleteListing: [
     { name: "slug", type: "string" },
     { name: "sellerAddress", type: "address" },
+    { name: "version", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+  ],
+} as const;
+
+// Buyer offers below the asking price. listingSlug targets one listing; appId targets
+// any listing of that app (the other field is signed as "").
+export const EIP712_OFFER_TYPES = {
+  MakeOffer: [
+    { name: "listingSlug", type: "string" },
+    { name: "appId", type: "string" },
+    { name: "priceUsdc", type: "string" },
+    { name: "buyerAddress", type: "address" },
+    { name: "expiresAt", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+  ],
+} as const;
+
+// Seller accepts an offer on one of their listings
+export const EIP712_ACCEPT_OFFER_TYPES = {
+  AcceptOffer: [
+    { name: "offerId", type: "string" },
+    { name: "listingSlug", type: "string" },
+    { name: "sellerAddress", type: "address" },
+    { name: "nonce", type: "uint256" },
+  ],
+} as const;
+
+// Seller fills an app buy order with a new single-use listing reserved for the buyer
+export const EIP712_FILL_ORDER_TYPES = {
+  FillBuyOrder: [
+    { name: "offerId", type: "string" },
+    { name: "listingType", type: "string" },
+    { name: "inviteUrl", type: "string" },
+    { name: "appUrl", type: "string" },
+    { name: "accessCode", type: "string" },
+    { name: "priceUsdc", type: "string" },
+    { name: "sellerAddress", type: "address" },
+    { name: "nonce", type: "uint256" },
+  ],
+} as const;
+
+export const EIP712_CANCEL_OFFER_TYPES = {
+  CancelOffer: [
+    { name: "offerId", type: "string" },
+    { name: "buyerAddress", type: "address" },
     { name: "nonce", type: "uint256" },
   ],
 } as const;
@@ -58,6 +143,7 @@ export interface ListingMessage {
   appId: string;
   appName: string;
   maxUses: string; // Maximum number of uses (-1 for unlimited)
+  expiresAt: bigint; // Unix timestamp in seconds, 0 for no expiry
   nonce: bigint;
 }
 
@@ -72,11 +158,90 @@ export interface UpdateListingMessage {
   appName: string;
   maxUses: string; // Maximum number of uses (-1 for unlimited)
   description: string;
+  expiresAt: bigint; // Expiry after the update (Unix seconds, 0 for none)
+  version: bigint; // Listing version the seller saw when signing
+  nonce: bigint;
+}
+
+export interface CodePoolListingMessage {
+  appUrl: string;
+  codePoolHash: `0x${string}`; // hashCodePool(codes)
+  codeCount: string;
+  priceUsdc: string;
+  sellerAddress: `0x${string}`;
+  appId: string;
+  appName: string;
+  expiresAt: bigint; // Unix timestamp in seconds, 0 for no expiry
+  nonce: bigint;
+}
+
+export interface UpdateCodePoolListingMessage {
+  slug: string;
+  appUrl: string;
+  addedCodesHash: `0x${string}`; // hashCodePool(codes being added), hash of [] if none
+  addedCodeCount: string;
+  priceUsdc: string;
+  sellerAddress: `0x${string}`;
+  appName: string;
+  description: string;
+  expiresAt: bigint; // Expiry after the update (Unix seconds, 0 for none)
+  version: bigint; // Listing version the seller saw when signing
   nonce: bigint;
 }
 
 export interface DeleteListingMessage {
   slug: string;
   sellerAddress: `0x${string}`;
+  version: bigint; // Listing version the seller saw when signing
+  nonce: bigint;
+}
+
+export interface OfferMessage {
+  listingSlug: string;
+  appId: string;
+  priceUsdc: string;
+  buyerAddress: `0x${string}`;
+  expiresAt: bigint; // Unix timestamp in seconds
+  nonce: bigint;
+}
+
+export interface AcceptOfferMessage {
+  offerId: string;
+  listingSlug: string;
+  sellerAddress: `0x${string}`;
   nonce: bigint;
 }
+
+export interface FillOrderMessage {
+  offerId: string;
+  listingType: ListingType;
+  inviteUrl: string; // Used for invite_link type
+  appUrl: string; // Used for access_code type
+  accessCode: string; // Used for access_code type
+  priceUsdc: string; // Must equal the order price
+  sellerAddress: `0x${string}`;
+  nonce: bigint;
+}
+
+export interface CancelOfferMessage {
+  offerId: string;
+  buyerAddress: `0x${string}`;
+  nonce: bigint;
+}
+
+/**
+ * Splits pasted codes (one per line) into a list, trimming whitespace and dropping blank lines.
+ */
+export function parseCodePoolInput(input: string): string[] {
+  return input
+    .split(/\r?\n/)
+    .map((code) => code.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Hash of an ordered list of codes, signed by the seller when creating or extending a pool.
+ */
+export function hashCodePool(codes: string[]): `0x${string}` {
+  return keccak256(stringToHex(codes.join("\n")));
+}
@@ -0,0 +1,42 @@
+import mongoose from "mongoose";
+
+// Database setup for the node:test suites (`pnpm test`). Suites that need
+// MongoDB run against TEST_MONGODB_URL and are skipped without it; they use a
+// database of their own, dropped before and after each suite.
+// Import this before any module that imports lib/mongoose.ts.
+
+export const testMongoUrl = process.env.TEST_MONGODB_URL;
+
+const TEST_DB_NAME = "InviteMarketsTest";
+
+// lib/mongoose.ts requires MONGODB_URL on import; connectDB reuses the test
+// connection instead of opening this one
+process.env.MONGODB_URL ??= testMongoUrl ?? "mongodb://127.0.0.1:27017";
+
+/**
+ * Points connectDB at an empty test database, with the indexes of every
+ * imported model built. Call from a suite's `before`.
+ */
+export async function connectTestDB() {
+  if (!testMongoUrl) {
+    throw new Error("TEST_MONGODB_URL is not set");
+  }
+
+  const conn = await mongoose.connect(testMongoUrl, { dbName: TEST_DB_NAME });
+  global.mongoose ??= { conn: null, promise: null };
+  global.mongoose.conn = conn;
+
+  await conn.connection.dropDatabase();
+  await Promise.all(
+    Object.values(conn.models).map((model) => model.createIndexes())
+  );
+}
+
+/**
+ * Drops the test database and closes the connection. Call from `after`.
+ */
+export async function disconnectTestDB() {
+  await mongoose.connection.dropDatabase();
+  await mongoose.disconnect();
+  global.mongoose.conn = null;
+}
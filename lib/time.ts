@@ -41,3 +41,23 @@ export function timeAgo(timestamp: string | Date): string {
   return `${diffInYears}y ago`;
 }
 
+
+/**
+ * Formats a duration in its two largest units.
+ * @param ms - Duration in milliseconds
+ * @returns A string like "3d 4h", "5h 12m" or "8m"
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / (60 * 1000));
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return minutes % 60 > 0 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+  }
+
+  const days = Math.floor(hours / 24);
+  return hours % 24 > 0 ? `${days}d ${hours % 24}h` : `${days}d`;
+}
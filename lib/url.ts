@@ -1,6 +1,3 @@
-import { featuredApps } from "@/data/featuredApps";
-import { getCustomAppIconConfig } from "@/data/customAppIcons";
-
 /**
  * Extracts the domain (with protocol and trailing slash) from a complete URL.
  * @param url - The complete URL to extract the domain from
@@ -27,52 +24,30 @@ export interface AppIconInfo {
 /**
  * Gets the app icon info for a listing.
  * Priority order:
- * 1. Featured app icon (if appId matches a featured app)
- * 2. Custom app icon (from customAppIcons mapping by domain or app name)
- * 3. Google favicon service (fallback for non-featured/non-custom apps)
+ * 1. The icon of the listing's app in the registry (see lib/apps.ts)
+ * 2. Google favicon service for the listing's URL
  */
-export function getAppIconInfo(listing: {
-  appId?: string;
-  appName?: string;
-  inviteUrl?: string;
-  appUrl?: string;
-  listingType?: ListingType;
-}): AppIconInfo {
-  // 1. Check if this is a featured app
-  if (listing.appId) {
-    const featuredApp = featuredApps.find((app) => app.id === listing.appId);
-    if (featuredApp) {
-      return { url: featuredApp.appIconUrl };
-    }
+export function getAppIconInfo(
+  listing: {
+    inviteDomain?: string;
+    appUrl?: string;
+    listingType?: ListingType;
+  },
+  app?: { iconUrl?: string; iconNeedsDarkBg?: boolean } | null
+): AppIconInfo {
+  // 1. Use the registry icon
+  if (app?.iconUrl) {
+    return { url: app.iconUrl, needsDarkBg: app.iconNeedsDarkBg };
   }
 
-  // Get the URL for non-featured apps
-  // Use appUrl for access_code type, inviteUrl for invite_link type
+  // Use appUrl for access_code type, the invite URL's domain for invite_link type
+  // (the invite URL itself is encrypted at rest)
   const url =
-    listing.listingType === "access_code" ? listing.appUrl : listing.inviteUrl;
-
-  // 2. Check for custom app icon by domain
-  if (url) {
-    try {
-      const domain = getDomain(url);
-      const customConfig = getCustomAppIconConfig(domain);
-      if (customConfig) {
-        return { url: customConfig.url, needsDarkBg: customConfig.needsDarkBg };
-      }
-    } catch {
-      // URL parsing failed, continue to fallback
-    }
-  }
-
-  // 3. Check for custom app icon by app name
-  if (listing.appName) {
-    const customConfig = getCustomAppIconConfig(listing.appName);
-    if (customConfig) {
-      return { url: customConfig.url, needsDarkBg: customConfig.needsDarkBg };
-    }
-  }
+    listing.listingType === "access_code"
+      ? listing.appUrl
+      : listing.inviteDomain;
 
-  // 4. Fallback to Google favicon service
+  // 2. Fallback to Google favicon service
   if (!url) {
     return { url: getFaviconUrl("") }; // Return default favicon
   }
@@ -84,17 +59,3 @@ export function getAppIconInfo(listing: {
     return { url: getFaviconUrl("") }; // Return default favicon
   }
 }
-
-/**
- * Gets the app icon URL for a listing (convenience wrapper).
- * Use getAppIconInfo if you also need to know about dark background requirements.
- */
-export function getAppIconUrl(listing: {
-  appId?: string;
-  appName?: string;
-  inviteUrl?: string;
-  appUrl?: string;
-  listingType?: ListingType;
-}): string {
-  return getAppIconInfo(listing).url;
-}
@@ -0,0 +1,53 @@
+import { connectDB, isDuplicateKeyError } from "@/lib/mongoose";
+import { chainId } from "@/lib/chain";
+import { UsedNonce } from "@/models/usedNonce";
+
+// Signed listing and offer messages are accepted for this long after (or
+// before) their nonce timestamp
+export const SIGNATURE_MAX_AGE_MS = 5 * 60 * 1000;
+
+/**
+ * Whether a millisecond-timestamp nonce is within SIGNATURE_MAX_AGE_MS of now.
+ */
+export function isNonceFresh(nonce: string | number | bigint): boolean {
+  const nonceTime = Number(nonce);
+  return (
+    Number.isFinite(nonceTime) &&
+    Math.abs(Date.now() - nonceTime) <= SIGNATURE_MAX_AGE_MS
+  );
+}
+
+/**
+ * Record a verified signature's nonce so the same signed payload can't be
+ * submitted again. Returns false if the signer already used this nonce.
+ *
+ * Records expire once the nonce is no longer fresh, since isNonceFresh
+ * rejects it from then on anyway.
+ */
+export async function consumeSignatureNonce({
+  signerAddress,
+  nonce,
+  action,
+}: {
+  signerAddress: string;
+  nonce: string | number | bigint;
+  action: string;
+}): Promise<boolean> {
+  await connectDB();
+
+  try {
+    await UsedNonce.create({
+      signerAddress: signerAddress.toLowerCase(),
+      nonce: nonce.toString(),
+      chainId,
+      action,
+      expiresAt: new Date(Number(nonce) + SIGNATURE_MAX_AGE_MS),
+    });
+    return true;
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,87 @@
+import { connectDB } from "@/lib/mongoose";
+import { Waitlist } from "@/models/waitlist";
+import { WhitelistInvite } from "@/models/whitelistInvite";
+import {
+  createWhitelistInvite,
+  revokeWhitelistInvite,
+} from "@/lib/whitelist-invites";
+import type { WaitlistAction } from "@/lib/waitlist";
+
+export interface WaitlistReviewResult {
+  updated: number;
+  // Personal invite codes by email (approve only)
+  inviteCodes: Record<string, string>;
+}
+
+/**
+ * Approve or reject waitlist entries on behalf of an admin.
+ *
+ * Approving issues each entry a single-use personal invite code (reusing an
+ * unrevoked one it already has). Rejecting revokes that code, which also ends
+ * access for whoever redeemed it. Every review is added to the entry's audit
+ * trail.
+ */
+export async function reviewWaitlistEntries(
+  emails: string[],
+  action: WaitlistAction,
+  actor: string,
+  note?: string
+): Promise<WaitlistReviewResult> {
+  await connectDB();
+
+  const normalized = emails.map((email) => email.toLowerCase().trim());
+  const [entries, invites] = await Promise.all([
+    Waitlist.find({ email: { $in: normalized } }).lean(),
+    WhitelistInvite.find({
+      waitlistEmail: { $in: normalized },
+      revokedAt: { $exists: false },
+    }).lean(),
+  ]);
+
+  const inviteCodes: Record<string, string> = {};
+
+  if (action === "approve") {
+    const existing = new Map(
+      invites.map((invite) => [invite.waitlistEmail, invite.code])
+    );
+    for (const entry of entries) {
+      const code =
+        existing.get(entry.email) ??
+        (
+          await createWhitelistInvite({
+            label: entry.xUsername ? `@${entry.xUsername}` : entry.email,
+            maxRedemptions: 1,
+            createdBy: actor,
+            waitlistEmail: entry.email,
+          })
+        ).code;
+      inviteCodes[entry.email] = code;
+    }
+  } else {
+    for (const invite of invites) {
+      await revokeWhitelistInvite(invite._id.toString(), actor);
+    }
+  }
+
+  const now = new Date();
+  const result = await Waitlist.updateMany(
+    { email: { $in: entries.map((entry) => entry.email) } },
+    {
+      $set: {
+        status: action === "approve" ? "approved" : "rejected",
+        reviewedBy: actor,
+        reviewedAt: now,
+      },
+      $push: {
+        events: {
+          action: action === "approve" ? "approved" : "rejected",
+          actor,
+          note: note || undefined,
+          at: now,
+        },
+      },
+    }
+  );
+
+  return { updated: result.modifiedCount, inviteCodes };
+}
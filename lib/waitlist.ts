@@ -0,0 +1,102 @@
+// Waitlist review types and spam heuristics, shared by the admin API and UI.
+
+import type { IWaitlist } from "@/models/waitlist";
+
+// Entries created before review existed have no status and count as pending
+export type WaitlistStatus = "pending" | "approved" | "rejected";
+
+export type WaitlistAction = "approve" | "reject";
+
+export type WaitlistFlag = "duplicate_ip" | "disposable_email";
+
+export const WAITLIST_FLAG_LABELS: Record<WaitlistFlag, string> = {
+  duplicate_ip: "Duplicate IP",
+  disposable_email: "Disposable email",
+};
+
+export const WAITLIST_PAGE_SIZE = 50;
+
+// Max entries per bulk approve/reject
+export const MAX_WAITLIST_BATCH = 100;
+
+// Common throwaway inbox providers
+const DISPOSABLE_EMAIL_DOMAINS = new Set([
+  "10minutemail.com",
+  "20minutemail.com",
+  "dispostable.com",
+  "emailondeck.com",
+  "fakeinbox.com",
+  "getairmail.com",
+  "getnada.com",
+  "guerrillamail.com",
+  "guerrillamail.net",
+  "guerrillamailblock.com",
+  "maildrop.cc",
+  "mailinator.com",
+  "mailnesia.com",
+  "mintemail.com",
+  "mohmal.com",
+  "mytemp.email",
+  "sharklasers.com",
+  "spamgourmet.com",
+  "temp-mail.org",
+  "tempail.com",
+  "tempmail.com",
+  "tempmail.dev",
+  "tempmailo.com",
+  "tempr.email",
+  "throwawaymail.com",
+  "trashmail.com",
+  "yopmail.com",
+]);
+
+export function isDisposableEmail(email: string): boolean {
+  const domain = email.split("@")[1]?.toLowerCase();
+  return !!domain && DISPOSABLE_EMAIL_DOMAINS.has(domain);
+}
+
+export interface WaitlistEvent {
+  action: "approved" | "rejected";
+  // Admin wallet address
+  actor: string;
+  note?: string;
+  at: string;
+}
+
+// Waitlist entry as returned to admins
+export interface WaitlistEntrySummary {
+  email: string;
+  xUsername?: string;
+  ipAddress?: string;
+  status: WaitlistStatus;
+  flags: WaitlistFlag[];
+  // Personal invite code issued on approval
+  inviteCode?: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  events: WaitlistEvent[];
+  createdAt: string;
+}
+
+export function toWaitlistEntrySummary(
+  entry: IWaitlist,
+  extra: { flags: WaitlistFlag[]; inviteCode?: string }
+): WaitlistEntrySummary {
+  return {
+    email: entry.email,
+    xUsername: entry.xUsername,
+    ipAddress: entry.ipAddress,
+    status: entry.status ?? "pending",
+    flags: extra.flags,
+    inviteCode: extra.inviteCode,
+    reviewedBy: entry.reviewedBy,
+    reviewedAt: entry.reviewedAt?.toISOString(),
+    events: (entry.events ?? []).map((event) => ({
+      action: event.action,
+      actor: event.actor,
+      note: event.note,
+      at: new Date(event.at).toISOString(),
+    })),
+    createdAt: new Date(entry.createdAt).toISOString(),
+  };
+}
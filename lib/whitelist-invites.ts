@@ -0,0 +1,228 @@
+import mongoose from "mongoose";
+import { customAlphabet } from "nanoid";
+import { connectDB } from "@/lib/mongoose";
+import { verifyAccessToken } from "@/lib/access-token";
+import {
+  WhitelistInvite,
+  type IWhitelistInvite,
+} from "@/models/whitelistInvite";
+
+// Unambiguous characters, so codes can be read out or typed
+const generateCode = customAlphabet("23456789abcdefghjkmnpqrstuvwxyz", 10);
+
+// How long an invite's revocation status is cached per server instance
+const INVITE_STATUS_TTL_MS = 60 * 1000;
+
+// The single code everyone shared before per-person invites. It is kept as an
+// unlimited invite so it can still be redeemed, tracked and revoked.
+const SHARED_INVITE_CODE = process.env.INVITE_ACCESS_CODE;
+
+let sharedInviteId: string | null = null;
+
+const inviteStatusCache = new Map<
+  string,
+  { active: boolean; checkedAt: number }
+>();
+
+export type InviteUnavailableReason =
+  | "not_found"
+  | "revoked"
+  | "expired"
+  | "exhausted";
+
+export interface WhitelistInviteSummary {
+  id: string;
+  code: string;
+  label?: string;
+  maxRedemptions?: number;
+  redemptionCount: number;
+  redemptions: { ipAddress?: string; userAgent?: string; redeemedAt: string }[];
+  expiresAt?: string;
+  revokedAt?: string;
+  revokedBy?: string;
+  createdBy: string;
+  waitlistEmail?: string;
+  createdAt: string;
+}
+
+export function toWhitelistInviteSummary(
+  invite: IWhitelistInvite & { _id: unknown }
+): WhitelistInviteSummary {
+  return {
+    id: String(invite._id),
+    code: invite.code,
+    label: invite.label,
+    maxRedemptions: invite.maxRedemptions,
+    redemptionCount: invite.redemptionCount,
+    redemptions: invite.redemptions.map((r) => ({
+      ipAddress: r.ipAddress,
+      userAgent: r.userAgent,
+      redeemedAt: new Date(r.redeemedAt).toISOString(),
+    })),
+    expiresAt: invite.expiresAt?.toISOString(),
+    revokedAt: invite.revokedAt?.toISOString(),
+    revokedBy: invite.revokedBy,
+    createdBy: invite.createdBy,
+    waitlistEmail: invite.waitlistEmail,
+    createdAt: new Date(invite.createdAt).toISOString(),
+  };
+}
+
+export function getInviteUnavailableReason(
+  invite: Pick<
+    IWhitelistInvite,
+    "revokedAt" | "expiresAt" | "maxRedemptions" | "redemptionCount"
+  > | null,
+  now = Date.now()
+): InviteUnavailableReason | null {
+  if (!invite) return "not_found";
+  if (invite.revokedAt) return "revoked";
+  if (invite.expiresAt && invite.expiresAt.getTime() <= now) return "expired";
+  if (
+    invite.maxRedemptions !== undefined &&
+    invite.redemptionCount >= invite.maxRedemptions
+  ) {
+    return "exhausted";
+  }
+  return null;
+}
+
+export async function createWhitelistInvite(input: {
+  label?: string;
+  maxRedemptions?: number;
+  expiresAt?: Date;
+  createdBy: string;
+  waitlistEmail?: string;
+}) {
+  await connectDB();
+  return WhitelistInvite.create({ ...input, code: generateCode() });
+}
+
+/**
+ * The WhitelistInvite of the shared INVITE_ACCESS_CODE, created the first time
+ * it is needed. Null when no shared code is configured.
+ */
+export async function getSharedInviteId(): Promise<string | null> {
+  if (!SHARED_INVITE_CODE) return null;
+  if (sharedInviteId) return sharedInviteId;
+
+  await connectDB();
+  const invite = await WhitelistInvite.findOneAndUpdate(
+    { code: SHARED_INVITE_CODE },
+    {
+      $setOnInsert: {
+        label: "Shared invite code (INVITE_ACCESS_CODE)",
+        createdBy: "system",
+      },
+    },
+    { upsert: true, new: true }
+  )
+    .select("_id")
+    .lean();
+
+  sharedInviteId = invite._id.toString();
+  return sharedInviteId;
+}
+
+/**
+ * Redeem an invite code: records the redemption and returns the invite, or
+ * the reason it can't be redeemed. The count is checked and incremented in a
+ * single update so a limited code can't be over-redeemed.
+ */
+export async function redeemWhitelistInvite(
+  code: string,
+  redeemer: { ipAddress?: string; userAgent?: string }
+): Promise<
+  | { ok: true; invite: IWhitelistInvite & { _id: mongoose.Types.ObjectId } }
+  | { ok: false; reason: InviteUnavailableReason }
+> {
+  await connectDB();
+
+  if (code === SHARED_INVITE_CODE) {
+    await getSharedInviteId();
+  }
+
+  const now = new Date();
+  const invite = await WhitelistInvite.findOneAndUpdate(
+    {
+      code,
+      revokedAt: { $exists: false },
+      $and: [
+        {
+          $or: [
+            { expiresAt: { $exists: false } },
+            { expiresAt: { $gt: now } },
+          ],
+        },
+        {
+          $or: [
+            { maxRedemptions: { $exists: false } },
+            { $expr: { $lt: ["$redemptionCount", "$maxRedemptions"] } },
+          ],
+        },
+      ],
+    },
+    {
+      $inc: { redemptionCount: 1 },
+      $push: { redemptions: { ...redeemer, redeemedAt: now } },
+    },
+    { new: true }
+  ).lean();
+
+  if (invite) {
+    return { ok: true, invite };
+  }
+
+  const existing = await WhitelistInvite.findOne({ code }).lean();
+  return {
+    ok: false,
+    reason: getInviteUnavailableReason(existing) ?? "exhausted",
+  };
+}
+
+export async function revokeWhitelistInvite(id: string, revokedBy: string) {
+  if (!mongoose.isValidObjectId(id)) return null;
+
+  await connectDB();
+  const invite = await WhitelistInvite.findOneAndUpdate(
+    { _id: id, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date(), revokedBy } },
+    { new: true }
+  ).lean();
+
+  inviteStatusCache.delete(id);
+  return invite;
+}
+
+async function isInviteActive(inviteId: string): Promise<boolean> {
+  const cached = inviteStatusCache.get(inviteId);
+  if (cached && Date.now() - cached.checkedAt < INVITE_STATUS_TTL_MS) {
+    return cached.active;
+  }
+
+  if (!mongoose.isValidObjectId(inviteId)) return false;
+
+  await connectDB();
+  const invite = await WhitelistInvite.findById(inviteId)
+    .select("revokedAt")
+    .lean();
+  const active = !!invite && !invite.revokedAt;
+
+  inviteStatusCache.set(inviteId, { active, checkedAt: Date.now() });
+  return active;
+}
+
+/**
+ * Whether an invite_access cookie grants access: the token must be signed,
+ * unexpired, and issued for an invite that hasn't been revoked. Legacy tokens
+ * count as redemptions of the shared invite code.
+ */
+export async function hasWhitelistAccess(
+  token: string | undefined
+): Promise<boolean> {
+  const payload = token ? verifyAccessToken(token) : null;
+  if (!payload) return false;
+
+  const inviteId = payload.inviteId ?? (await getSharedInviteId());
+  return !!inviteId && isInviteActive(inviteId);
+}
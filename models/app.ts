@@ -0,0 +1,132 @@
+import mongoose, { Model } from "mongoose";
+import type { AppFormat } from "@/lib/listing-format";
+import type { AppIconType } from "@/lib/app-submissions";
+
+// Uploaded app icon, served by /api/apps/[slug]/icon
+export interface IAppIcon {
+  data: Buffer;
+  contentType: AppIconType;
+  // Byte length at upload, checked when serving (missing on older uploads)
+  size?: number;
+}
+
+// Registry of apps that listings, transactions and offers belong to (see lib/apps.ts).
+// Featured apps are seeded from data/featuredApps.ts; custom apps are added the
+// first time someone lists one or approved from a community submission.
+export interface IApp {
+  // Stable id, stored as appId on listings, transactions and offers
+  // (featured apps keep their configured id, e.g. "ethos")
+  slug: string;
+  // Display name
+  name: string;
+  // Lowercased names and ids the app is also known by, matched when a seller
+  // types an app name (always includes the lowercased name and slug)
+  aliases: string[];
+  siteUrl?: string;
+  // Absolute URL or path under /public (/api/apps/[slug]/icon for uploaded icons)
+  iconUrl?: string;
+  // Icon uploaded with an approved submission; not loaded unless selected ("+icon")
+  icon?: IAppIcon;
+  // The icon needs a dark background (e.g. white icons)
+  iconNeedsDarkBg?: boolean;
+  description?: string;
+  featured: boolean;
+  // Chains a featured app is shown on (e.g. [8453, 84532])
+  chainIds: number[];
+  // What the app's listings may link to (see lib/listing-format.ts)
+  format?: AppFormat;
+  // Set when an admin approved the app from a submission; approved apps are
+  // listed on /apps even before anyone lists an invite
+  approvedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AppFormatRuleSchema = new mongoose.Schema(
+  {
+    pattern: { type: String, required: true },
+    description: { type: String, required: true },
+  },
+  { _id: false }
+);
+
+export const AppIconSchema = new mongoose.Schema<IAppIcon>(
+  {
+    data: { type: Buffer, required: true },
+    contentType: {
+      type: String,
+      enum: ["image/png", "image/jpeg", "image/webp"],
+      required: true,
+    },
+    size: { type: Number },
+  },
+  { _id: false }
+);
+
+const AppSchema = new mongoose.Schema<IApp>(
+  {
+    slug: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    aliases: {
+      type: [String],
+      default: [],
+      index: true,
+    },
+    siteUrl: {
+      type: String,
+    },
+    iconUrl: {
+      type: String,
+    },
+    icon: {
+      type: AppIconSchema,
+      select: false,
+    },
+    iconNeedsDarkBg: {
+      type: Boolean,
+    },
+    description: {
+      type: String,
+    },
+    featured: {
+      type: Boolean,
+      default: false,
+    },
+    chainIds: {
+      type: [Number],
+      default: [],
+    },
+    format: {
+      type: new mongoose.Schema(
+        {
+          hosts: { type: [String], default: [] },
+          inviteUrl: { type: AppFormatRuleSchema },
+          accessCode: { type: AppFormatRuleSchema },
+        },
+        { _id: false }
+      ),
+    },
+    approvedAt: {
+      type: Date,
+      index: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+AppSchema.index({ featured: 1, chainIds: 1 });
+
+const App: Model<IApp> =
+  (mongoose.models.App as Model<IApp>) ||
+  mongoose.model<IApp>("App", AppSchema);
+
+export { App };
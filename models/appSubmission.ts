@@ -0,0 +1,88 @@
+import mongoose, { Model } from "mongoose";
+import type { AppSubmissionStatus } from "@/lib/app-submissions";
+import { AppIconSchema, type IAppIcon } from "@/models/app";
+
+// An app proposed by a user, reviewed by an admin in /admin
+export interface IAppSubmission {
+  chainId: number;
+  // Wallet that proposed the app
+  submitterAddress: string;
+  name: string;
+  siteUrl: string;
+  description: string;
+  // Not loaded unless selected ("+icon"); served by the icon routes
+  icon?: IAppIcon;
+  status: AppSubmissionStatus;
+  // The app it was approved as or merged into
+  appSlug?: string;
+  // Admin review
+  reviewNote?: string;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AppSubmissionSchema = new mongoose.Schema<IAppSubmission>(
+  {
+    chainId: {
+      type: Number,
+      required: true,
+    },
+    submitterAddress: {
+      type: String,
+      required: true,
+      lowercase: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    siteUrl: {
+      type: String,
+      required: true,
+    },
+    description: {
+      type: String,
+      required: true,
+    },
+    icon: {
+      type: AppIconSchema,
+      select: false,
+    },
+    status: {
+      type: String,
+      enum: ["pending", "approved", "merged", "rejected"],
+      default: "pending",
+      index: true,
+    },
+    appSlug: {
+      type: String,
+      required: false,
+    },
+    reviewNote: {
+      type: String,
+      required: false,
+    },
+    reviewedBy: {
+      type: String,
+      required: false,
+      lowercase: true,
+    },
+    reviewedAt: {
+      type: Date,
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const AppSubmission: Model<IAppSubmission> =
+  (mongoose.models.AppSubmission as Model<IAppSubmission>) ||
+  mongoose.model<IAppSubmission>("AppSubmission", AppSubmissionSchema);
+
+export { AppSubmission };
@@ -0,0 +1,36 @@
+import mongoose, { Model } from "mongoose";
+
+export interface IAuthNonce {
+  // Random value the client must embed in its sign-in message
+  nonce: string;
+  // Unused nonces stop being accepted after this; the TTL index purges them
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AuthNonceSchema = new mongoose.Schema<IAuthNonce>(
+  {
+    nonce: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Nonces are deleted when a sign-in consumes them, or here once they expire
+AuthNonceSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const AuthNonce: Model<IAuthNonce> =
+  (mongoose.models.AuthNonce as Model<IAuthNonce>) ||
+  mongoose.model<IAuthNonce>("AuthNonce", AuthNonceSchema);
+
+export { AuthNonce };
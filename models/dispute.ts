@@ -0,0 +1,114 @@
+import mongoose, { Model } from "mongoose";
+import type { DisputeReason, DisputeStatus } from "@/lib/disputes";
+
+export interface IDispute {
+  // The purchase being disputed (one dispute per purchase)
+  transactionId: mongoose.Types.ObjectId;
+  listingSlug: string;
+  chainId: number;
+  buyerAddress: string;
+  sellerAddress: string;
+  priceUsdc: number;
+  reason: DisputeReason;
+  // Buyer's description of what went wrong
+  evidence: string;
+  status: DisputeStatus;
+  sellerResponse?: string;
+  sellerRespondedAt?: Date;
+  // Admin resolution
+  resolutionNote?: string;
+  resolvedBy?: string;
+  resolvedAt?: Date;
+  // USDC transfer that refunded the buyer, if made on-chain
+  refundTxHash?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DisputeSchema = new mongoose.Schema<IDispute>(
+  {
+    transactionId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Transaction",
+      required: true,
+    },
+    listingSlug: {
+      type: String,
+      required: true,
+    },
+    chainId: {
+      type: Number,
+      required: true,
+    },
+    buyerAddress: {
+      type: String,
+      required: true,
+      lowercase: true,
+      index: true,
+    },
+    sellerAddress: {
+      type: String,
+      required: true,
+      lowercase: true,
+      index: true,
+    },
+    priceUsdc: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    reason: {
+      type: String,
+      enum: ["link_expired", "already_used", "invalid_code", "other"],
+      required: true,
+    },
+    evidence: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["open", "refunded", "rejected"],
+      default: "open",
+      index: true,
+    },
+    sellerResponse: {
+      type: String,
+      required: false,
+    },
+    sellerRespondedAt: {
+      type: Date,
+      required: false,
+    },
+    resolutionNote: {
+      type: String,
+      required: false,
+    },
+    resolvedBy: {
+      type: String,
+      required: false,
+      lowercase: true,
+    },
+    resolvedAt: {
+      type: Date,
+      required: false,
+    },
+    refundTxHash: {
+      type: String,
+      required: false,
+      lowercase: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A purchase can only be disputed once
+DisputeSchema.index({ transactionId: 1 }, { unique: true });
+
+const Dispute: Model<IDispute> =
+  (mongoose.models.Dispute as Model<IDispute>) ||
+  mongoose.model<IDispute>("Dispute", DisputeSchema);
+
+export { Dispute };
@@ -2,21 +2,31 @@ import mongoose, { Model } from "mongoose";
 
 export type ListingType = "invite_link" | "access_code";
 
+// Result of the last invite-link health check (lib/link-health.ts)
+export type LinkHealthStatus = "live" | "dead" | "unreachable";
+
 export interface IListing {
   slug: string;
   // Listing type: "invite_link" (default) or "access_code"
   listingType: ListingType;
-  // For invite_link type: the private invite URL
+  // For invite_link type: the private invite URL (encrypted, see lib/listing-secrets.ts)
   inviteUrl?: string;
+  // For invite_link type: public origin of the invite URL, used for icon lookup
+  inviteDomain?: string;
   // For access_code type: public app URL (displayed before payment)
   appUrl?: string;
-  // For access_code type: private access code (revealed after payment)
+  // For access_code type: private access code (revealed after payment, encrypted)
   accessCode?: string;
+  // For access_code type with one code per buyer: number of codes uploaded to the pool
+  // (models/poolCode.ts). maxUses always equals this; accessCode is unused.
+  codePoolSize?: number;
   priceUsdc: number;
   sellerAddress: string;
-  status: "active" | "sold" | "cancelled";
-  // For featured apps, appId will be set (e.g., "ethos", "base-app")
-  // For custom apps, appName will be set (user input)
+  // "expired" is set by scripts/expire-listings.ts once expiresAt has passed;
+  // "paused" by invite-link health checks after repeated failures
+  status: "active" | "sold" | "cancelled" | "expired" | "paused";
+  // Slug of the listing's app in the App registry (e.g. "ethos", "base-app")
+  // For custom apps, appName also keeps the app's display name
   appId?: string;
   appName?: string;
   // Optional description for the listing (displayed on listing detail page)
@@ -27,6 +37,23 @@ export interface IListing {
   maxUses: number;
   // Current number of completed purchases
   purchaseCount: number;
+  // Units currently held by in-flight purchases (see lib/reservation.ts)
+  reservedCount: number;
+  // Set when the listing fills a buy order: only that buyer can purchase it,
+  // at the order price, and it is hidden from the public market
+  reservedFor?: string;
+  reservedOfferId?: mongoose.Types.ObjectId;
+  // Optional end of the listing; past it, the listing can't be bought until renewed
+  expiresAt?: Date;
+  // Invite-link health (invite_link only): last result, why it failed, when it ran,
+  // and dead checks in a row (reset by a live result)
+  healthStatus?: LinkHealthStatus;
+  healthReason?: string;
+  healthCheckedAt?: Date;
+  healthFailures: number;
+  // Bumped on every seller update; signed update/delete messages must match it
+  // (documents created before versioning have no value and count as 0)
+  version: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -48,6 +75,10 @@ const ListingSchema = new mongoose.Schema<IListing>(
       type: String,
       required: false, // Required for invite_link type, validated at API level
     },
+    inviteDomain: {
+      type: String,
+      required: false,
+    },
     appUrl: {
       type: String,
       required: false, // Required for access_code type, validated at API level
@@ -56,6 +87,11 @@ const ListingSchema = new mongoose.Schema<IListing>(
       type: String,
       required: false, // Required for access_code type, validated at API level
     },
+    codePoolSize: {
+      type: Number,
+      required: false,
+      min: 1,
+    },
     priceUsdc: {
       type: Number,
       required: true,
@@ -68,7 +104,7 @@ const ListingSchema = new mongoose.Schema<IListing>(
     },
     status: {
       type: String,
-      enum: ["active", "sold", "cancelled"],
+      enum: ["active", "sold", "cancelled", "expired", "paused"],
       default: "active",
     },
     appId: {
@@ -101,6 +137,51 @@ const ListingSchema = new mongoose.Schema<IListing>(
       default: 0,
       min: 0,
     },
+    reservedCount: {
+      type: Number,
+      required: false,
+      default: 0,
+      min: 0,
+    },
+    reservedFor: {
+      type: String,
+      required: false,
+      lowercase: true,
+    },
+    reservedOfferId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Offer",
+      required: false,
+    },
+    expiresAt: {
+      type: Date,
+      required: false,
+    },
+    healthStatus: {
+      type: String,
+      enum: ["live", "dead", "unreachable"],
+      required: false,
+    },
+    healthReason: {
+      type: String,
+      required: false,
+    },
+    healthCheckedAt: {
+      type: Date,
+      required: false,
+    },
+    healthFailures: {
+      type: Number,
+      required: false,
+      default: 0,
+      min: 0,
+    },
+    version: {
+      type: Number,
+      required: false,
+      default: 0,
+      min: 0,
+    },
   },
   {
     timestamps: true,
@@ -110,6 +191,12 @@ const ListingSchema = new mongoose.Schema<IListing>(
 // Compound index for efficient chain-specific queries
 ListingSchema.index({ chainId: 1, status: 1 });
 
+// Listings of one app (app pages, lowest price, domain checks)
+ListingSchema.index({ chainId: 1, appId: 1, status: 1 });
+
+// Finds active listings past their expiry for the expiry sweep
+ListingSchema.index({ status: 1, expiresAt: 1 });
+
 const Listing: Model<IListing> =
   (mongoose.models.Listing as Model<IListing>) ||
   mongoose.model<IListing>("Listing", ListingSchema);
@@ -0,0 +1,125 @@
+import mongoose, { Model } from "mongoose";
+import type { OfferStatus } from "@/lib/offers";
+
+export interface IOffer {
+  buyerAddress: string;
+  chainId: number;
+  // Exactly one of listingSlug (a specific listing) or appId (any listing of the app) is set
+  listingSlug?: string;
+  appId?: string;
+  priceUsdc: number;
+  expiresAt: Date;
+  // EIP-712 MakeOffer signature and its nonce (unique per buyer, prevents replays)
+  nonce: string;
+  signature: string;
+  status: OfferStatus;
+  // Set when a seller accepts the offer
+  acceptedListingSlug?: string;
+  acceptedBy?: string;
+  acceptedAt?: Date;
+  paymentDeadline?: Date;
+  // When the current payment attempt claimed the offer (see lib/offer-purchase.ts)
+  purchaseStartedAt?: Date;
+  // Set once the offer has been paid for
+  transactionId?: mongoose.Types.ObjectId;
+  txHash?: string;
+  cancelledAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OfferSchema = new mongoose.Schema<IOffer>(
+  {
+    buyerAddress: {
+      type: String,
+      required: true,
+      lowercase: true,
+      index: true,
+    },
+    chainId: {
+      type: Number,
+      required: true,
+    },
+    listingSlug: {
+      type: String,
+      required: false,
+      index: true,
+    },
+    appId: {
+      type: String,
+      required: false,
+      index: true,
+    },
+    priceUsdc: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    nonce: {
+      type: String,
+      required: true,
+    },
+    signature: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["open", "accepted", "purchasing", "completed", "cancelled"],
+      default: "open",
+      index: true,
+    },
+    acceptedListingSlug: {
+      type: String,
+      required: false,
+    },
+    acceptedBy: {
+      type: String,
+      required: false,
+      lowercase: true,
+      index: true,
+    },
+    acceptedAt: {
+      type: Date,
+      required: false,
+    },
+    paymentDeadline: {
+      type: Date,
+      required: false,
+    },
+    purchaseStartedAt: {
+      type: Date,
+      required: false,
+    },
+    transactionId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Transaction",
+      required: false,
+    },
+    txHash: {
+      type: String,
+      required: false,
+      lowercase: true,
+    },
+    cancelledAt: {
+      type: Date,
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A signed offer can only be submitted once
+OfferSchema.index({ buyerAddress: 1, chainId: 1, nonce: 1 }, { unique: true });
+
+const Offer: Model<IOffer> =
+  (mongoose.models.Offer as Model<IOffer>) ||
+  mongoose.model<IOffer>("Offer", OfferSchema);
+
+export { Offer };
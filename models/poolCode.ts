@@ -0,0 +1,84 @@
+import mongoose, { Model } from "mongoose";
+
+export type PoolCodeStatus = "available" | "assigned";
+
+export interface IPoolCode {
+  listingSlug: string;
+  chainId: number;
+  // Upload order within the listing; codes are handed out in this order
+  position: number;
+  // The access code, encrypted at rest (see lib/listing-secrets.ts)
+  code: string;
+  status: PoolCodeStatus;
+  // Purchase that claimed the code (payment idempotency key), so retries get the same code
+  claimKey?: string;
+  buyerAddress?: string;
+  transactionId?: mongoose.Types.ObjectId;
+  assignedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PoolCodeSchema = new mongoose.Schema<IPoolCode>(
+  {
+    listingSlug: {
+      type: String,
+      required: true,
+    },
+    chainId: {
+      type: Number,
+      required: true,
+    },
+    position: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    code: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["available", "assigned"],
+      default: "available",
+    },
+    claimKey: {
+      type: String,
+      required: false,
+    },
+    buyerAddress: {
+      type: String,
+      required: false,
+      lowercase: true,
+    },
+    transactionId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Transaction",
+      required: false,
+    },
+    assignedAt: {
+      type: Date,
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One code per position, and popping the next available code in order
+PoolCodeSchema.index(
+  { listingSlug: 1, chainId: 1, position: 1 },
+  { unique: true }
+);
+PoolCodeSchema.index({ listingSlug: 1, chainId: 1, status: 1, position: 1 });
+
+// A purchase can only ever claim one code
+PoolCodeSchema.index({ claimKey: 1 }, { unique: true, sparse: true });
+
+const PoolCode: Model<IPoolCode> =
+  (mongoose.models.PoolCode as Model<IPoolCode>) ||
+  mongoose.model<IPoolCode>("PoolCode", PoolCodeSchema);
+
+export { PoolCode };
@@ -0,0 +1,72 @@
+import mongoose, { Model } from "mongoose";
+
+export type ReservationStatus = "held" | "settled" | "released";
+
+export interface IReservation {
+  // Derived from the x402 payment payload so retries map to the same reservation
+  idempotencyKey: string;
+  listingSlug: string;
+  chainId: number;
+  // "held" while settlement is in flight, "settled" once paid, "released" if it failed
+  status: ReservationStatus;
+  // Holds past this time are considered abandoned and are released
+  expiresAt: Date;
+  // Settlement transaction hash (set when the reservation is settled)
+  txHash?: string;
+  // Set once the reservation leaves the "held" state; the TTL index purges it afterwards
+  purgeAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReservationSchema = new mongoose.Schema<IReservation>(
+  {
+    idempotencyKey: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    listingSlug: {
+      type: String,
+      required: true,
+    },
+    chainId: {
+      type: Number,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["held", "settled", "released"],
+      default: "held",
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    txHash: {
+      type: String,
+      required: false,
+      lowercase: true,
+    },
+    purgeAt: {
+      type: Date,
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Finding abandoned holds for a listing
+ReservationSchema.index({ listingSlug: 1, chainId: 1, status: 1, expiresAt: 1 });
+
+// Finished reservations are only needed for idempotent retries; held ones never expire here
+ReservationSchema.index({ purgeAt: 1 }, { expireAfterSeconds: 0 });
+
+const Reservation: Model<IReservation> =
+  (mongoose.models.Reservation as Model<IReservation>) ||
+  mongoose.model<IReservation>("Reservation", ReservationSchema);
+
+export { Reservation };
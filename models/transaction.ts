@@ -1,11 +1,69 @@
 import mongoose from "mongoose";
+import type { DisputeStatus } from "@/lib/disputes";
+import { MAX_FEEDBACK_COMMENT_LENGTH } from "@/lib/delivery-feedback";
+
+// Escrowed purchases (see lib/escrow.ts): funds sit in the platform escrow wallet
+// until released to the seller or refunded to the buyer. "releasing"/"refunding"
+// mark a payout that was sent but not yet confirmed.
+export type EscrowStatus =
+  | "pending_release"
+  | "releasing"
+  | "released"
+  | "refunding"
+  | "refunded";
+
+export type EscrowEventAction =
+  | "held"
+  | "buyer_confirmed"
+  | "released"
+  | "refunded"
+  | "payout_failed";
+
+// Append-only audit trail of escrow actions
+export interface IEscrowEvent {
+  action: EscrowEventAction;
+  // Wallet address of the buyer/admin, or "system" for automatic releases
+  actor: string;
+  txHash?: string;
+  note?: string;
+  at: Date;
+}
+
+// Buyer's report of whether the purchased invite worked (see lib/delivery-feedback.ts)
+export interface IDeliveryFeedback {
+  worked: boolean;
+  comment?: string;
+  submittedAt: Date;
+}
 
 export interface ITransaction {
-  txHash: string;
+  // On-chain settlement transaction hash from the x402 payment receipt
+  // (absent on records created before receipts were stored)
+  txHash?: string;
+  // Payment network as reported by the x402 facilitator
+  network?: string;
+  // Raw x402 settlement receipt, kept for auditing
+  paymentReceipt?: Record<string, unknown>;
+  // For code pool listings: the access code handed to this buyer (see models/poolCode.ts)
+  poolCodeId?: mongoose.Types.ObjectId;
+  // Outcome of the buyer's dispute, if one was opened (see models/dispute.ts)
+  disputeStatus?: DisputeStatus;
+  // Set only for purchases paid into escrow
+  escrowStatus?: EscrowStatus;
+  // When the funds are released to the seller if the buyer doesn't confirm first
+  escrowReleaseAt?: Date;
+  buyerConfirmedAt?: Date;
+  // USDC transfer from the escrow wallet to the seller (release) or buyer (refund)
+  payoutTxHash?: string;
+  escrowEvents?: IEscrowEvent[];
+  deliveryFeedback?: IDeliveryFeedback;
+  // Set when the purchase paid an accepted offer (see models/offer.ts) instead of the asking price
+  offerId?: mongoose.Types.ObjectId;
   listingSlug: string;
   sellerAddress: string;
   buyerAddress: string;
   priceUsdc: number;
+  // Slug of the listing's app in the App registry
   appId: string;
   // Chain ID for multi-network support (e.g., 84532 for Base Sepolia, 8453 for Base Mainnet)
   chainId: number;
@@ -46,12 +104,106 @@ const TransactionSchema = new mongoose.Schema<ITransaction>(
       required: true,
       index: true,
     },
+    txHash: {
+      type: String,
+      required: false,
+      lowercase: true,
+    },
+    network: {
+      type: String,
+      required: false,
+    },
+    paymentReceipt: {
+      type: mongoose.Schema.Types.Mixed,
+      required: false,
+    },
+    poolCodeId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "PoolCode",
+      required: false,
+    },
+    offerId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Offer",
+      required: false,
+    },
+    disputeStatus: {
+      type: String,
+      enum: ["open", "refunded", "rejected"],
+      required: false,
+    },
+    escrowStatus: {
+      type: String,
+      enum: ["pending_release", "releasing", "released", "refunding", "refunded"],
+      required: false,
+    },
+    escrowReleaseAt: {
+      type: Date,
+      required: false,
+    },
+    buyerConfirmedAt: {
+      type: Date,
+      required: false,
+    },
+    payoutTxHash: {
+      type: String,
+      required: false,
+      lowercase: true,
+    },
+    escrowEvents: {
+      type: [
+        {
+          _id: false,
+          action: {
+            type: String,
+            enum: [
+              "held",
+              "buyer_confirmed",
+              "released",
+              "refunded",
+              "payout_failed",
+            ],
+            required: true,
+          },
+          actor: { type: String, required: true, lowercase: true },
+          txHash: { type: String, required: false, lowercase: true },
+          note: { type: String, required: false },
+          at: { type: Date, required: true },
+        },
+      ],
+      default: undefined,
+    },
+    deliveryFeedback: {
+      type: {
+        _id: false,
+        worked: { type: Boolean, required: true },
+        comment: {
+          type: String,
+          required: false,
+          maxlength: MAX_FEEDBACK_COMMENT_LENGTH,
+        },
+        submittedAt: { type: Date, required: true },
+      },
+      required: false,
+    },
   },
   {
     timestamps: true,
   }
 );
 
+// Unique settlement hash - sparse so legacy records without a hash are allowed
+TransactionSchema.index({ txHash: 1 }, { unique: true, sparse: true });
+
+// Sales of one app (app pages and charts)
+TransactionSchema.index({ chainId: 1, appId: 1, createdAt: -1 });
+
+// Finding escrowed purchases that are due for release
+TransactionSchema.index(
+  { escrowStatus: 1, escrowReleaseAt: 1 },
+  { sparse: true }
+);
+
 const Transaction =
   (mongoose.models.Transaction as mongoose.Model<ITransaction>) ||
   mongoose.model<ITransaction>("Transaction", TransactionSchema);
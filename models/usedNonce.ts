@@ -0,0 +1,58 @@
+import mongoose, { Model } from "mongoose";
+
+export interface IUsedNonce {
+  // Wallet that signed the message (lowercase)
+  signerAddress: string;
+  // EIP-712 nonce (a millisecond timestamp, stored as a string)
+  nonce: string;
+  chainId: number;
+  // Primary type of the signed message, e.g. "CreateListing"
+  action: string;
+  // Signatures are only accepted for a few minutes; the TTL index purges the record after that
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const UsedNonceSchema = new mongoose.Schema<IUsedNonce>(
+  {
+    signerAddress: {
+      type: String,
+      required: true,
+      lowercase: true,
+    },
+    nonce: {
+      type: String,
+      required: true,
+    },
+    chainId: {
+      type: Number,
+      required: true,
+    },
+    action: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A nonce can only be used once per signer; inserts race on this index
+UsedNonceSchema.index(
+  { signerAddress: 1, chainId: 1, nonce: 1 },
+  { unique: true }
+);
+
+UsedNonceSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const UsedNonce: Model<IUsedNonce> =
+  (mongoose.models.UsedNonce as Model<IUsedNonce>) ||
+  mongoose.model<IUsedNonce>("UsedNonce", UsedNonceSchema);
+
+export { UsedNonce };
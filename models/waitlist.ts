@@ -1,9 +1,24 @@
 import mongoose, { Model } from "mongoose";
+import type { WaitlistStatus } from "@/lib/waitlist";
+
+// Audit trail entry for an admin review
+export interface IWaitlistEvent {
+  action: "approved" | "rejected";
+  // Admin wallet address
+  actor: string;
+  note?: string;
+  at: Date;
+}
 
 export interface IWaitlist {
   email: string;
   xUsername?: string;
   ipAddress?: string;
+  // Missing on entries created before review existed (treated as pending)
+  status?: WaitlistStatus;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  events?: IWaitlistEvent[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -24,6 +39,38 @@ const WaitlistSchema = new mongoose.Schema<IWaitlist>(
     ipAddress: {
       type: String,
       required: false,
+      index: true,
+    },
+    status: {
+      type: String,
+      enum: ["pending", "approved", "rejected"],
+      default: "pending",
+      index: true,
+    },
+    reviewedBy: {
+      type: String,
+      required: false,
+      lowercase: true,
+    },
+    reviewedAt: {
+      type: Date,
+      required: false,
+    },
+    events: {
+      type: [
+        {
+          _id: false,
+          action: {
+            type: String,
+            enum: ["approved", "rejected"],
+            required: true,
+          },
+          actor: { type: String, required: true, lowercase: true },
+          note: { type: String, required: false },
+          at: { type: Date, required: true },
+        },
+      ],
+      default: [],
     },
   },
   {
@@ -0,0 +1,99 @@
+import mongoose, { Model } from "mongoose";
+
+export interface IInviteRedemption {
+  ipAddress?: string;
+  userAgent?: string;
+  redeemedAt: Date;
+}
+
+export interface IWhitelistInvite {
+  // Used in /invite/<code> URLs
+  code: string;
+  label?: string;
+  // Unlimited when not set
+  maxRedemptions?: number;
+  redemptionCount: number;
+  redemptions: IInviteRedemption[];
+  // The code can't be redeemed after this (access already granted is kept)
+  expiresAt?: Date;
+  // Revoking a code also ends access for everyone who redeemed it
+  revokedAt?: Date;
+  revokedBy?: string;
+  // Admin address that created the code
+  createdBy: string;
+  // Set for personal codes created from a waitlist entry
+  waitlistEmail?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const InviteRedemptionSchema = new mongoose.Schema<IInviteRedemption>(
+  {
+    ipAddress: { type: String, required: false },
+    userAgent: { type: String, required: false },
+    redeemedAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const WhitelistInviteSchema = new mongoose.Schema<IWhitelistInvite>(
+  {
+    code: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    label: {
+      type: String,
+      required: false,
+      trim: true,
+    },
+    maxRedemptions: {
+      type: Number,
+      required: false,
+      min: 1,
+    },
+    redemptionCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    redemptions: {
+      type: [InviteRedemptionSchema],
+      default: [],
+    },
+    expiresAt: {
+      type: Date,
+      required: false,
+    },
+    revokedAt: {
+      type: Date,
+      required: false,
+    },
+    revokedBy: {
+      type: String,
+      required: false,
+      lowercase: true,
+    },
+    createdBy: {
+      type: String,
+      required: true,
+      lowercase: true,
+    },
+    waitlistEmail: {
+      type: String,
+      required: false,
+      lowercase: true,
+      index: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const WhitelistInvite: Model<IWhitelistInvite> =
+  (mongoose.models.WhitelistInvite as Model<IWhitelistInvite>) ||
+  mongoose.model<IWhitelistInvite>("WhitelistInvite", WhitelistInviteSchema);
+
+export { WhitelistInvite };
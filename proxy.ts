@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ACCESS_COOKIE_NAME } from "@/lib/access-token";
+import { hasWhitelistAccess } from "@/lib/whitelist-invites";
+import {
+  WAITLIST_PATH,
+  isPublicRoute,
+  isWhitelistMode,
+} from "@/lib/access-gate";
+
+/**
+ * Enforces whitelist mode on the server: without a valid invite_access
+ * cookie, API routes return 401 and pages redirect to the waitlist.
+ * AccessGateProvider only covers the client UI.
+ */
+export async function proxy(request: NextRequest) {
+  if (!isWhitelistMode()) {
+    return NextResponse.next();
+  }
+
+  const { pathname, search } = request.nextUrl;
+  const hasAccess = await hasWhitelistAccess(
+    request.cookies.get(ACCESS_COOKIE_NAME)?.value
+  );
+
+  // Members have nothing to do on the waitlist page
+  if (hasAccess && pathname === WAITLIST_PATH) {
+    const next = request.nextUrl.searchParams.get("next");
+    const destination =
+      next?.startsWith("/") && !next.startsWith("//") ? next : "/";
+    return NextResponse.redirect(new URL(destination, request.url));
+  }
+
+  if (hasAccess || isPublicRoute(pathname)) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json(
+      { success: false, error: "Invite access required" },
+      { status: 401 }
+    );
+  }
+
+  const waitlistUrl = new URL(WAITLIST_PATH, request.url);
+  if (pathname !== "/") {
+    waitlistUrl.searchParams.set("next", `${pathname}${search}`);
+  }
+  return NextResponse.redirect(waitlistUrl);
+}
+
+export const config = {
+  // Skip Next.js internals and static files (icons, images, .well-known)
+  matcher: [
+    "/((?!_next/static|_next/image|\\.well-known|favicon\\.ico|.*\\.(?:png|jpg|jpeg|gif|svg|webp|ico)$).*)",
+  ],
+};
@@ -30,6 +30,7 @@ import mongoose from "mongoose";
 import { Listing } from "../models/listing";
 import { Transaction } from "../models/transaction";
 import { ResolvedAddress } from "../models/resolvedAddress";
+import { App, type IApp } from "../models/app";
 import {
   getWebhookUrl,
   buildNewListingEmbed,
@@ -267,6 +268,7 @@ interface ListingEvent {
     listingType: ListingType;
     appName?: string;
     appId?: string;
+    appIconUrl?: string;
     appUrl?: string;
     priceUsdc: number;
     sellerAddress: string;
@@ -282,6 +284,7 @@ interface PurchaseEvent {
     listingSlug: string;
     appName?: string;
     appId?: string;
+    appIconUrl?: string;
     priceUsdc: number;
     sellerAddress: string;
     buyerAddress: string;
@@ -295,6 +298,20 @@ type BackfillEvent = ListingEvent | PurchaseEvent;
 // BACKFILL FUNCTIONS
 // =============================================================================
 
+/**
+ * Loads the registry apps for the given slugs (names and icons for embeds).
+ */
+async function fetchApps(
+  slugs: (string | undefined)[]
+): Promise<Map<string, IApp>> {
+  const apps = await App.find({
+    slug: {
+      $in: [...new Set(slugs.filter((slug): slug is string => !!slug))],
+    },
+  }).lean<IApp[]>();
+  return new Map(apps.map((app) => [app.slug, app]));
+}
+
 async function fetchListings(
   options: Options,
   limit?: number
@@ -319,6 +336,7 @@ async function fetchListings(
   }
 
   const listings = await queryBuilder.lean();
+  const apps = await fetchApps(listings.map((l) => l.appId));
 
   return listings.map((listing) => ({
     type: "listing" as const,
@@ -326,8 +344,9 @@ async function fetchListings(
     data: {
       slug: listing.slug,
       listingType: (listing.listingType || "invite_link") as ListingType,
-      appName: listing.appName,
+      appName: apps.get(listing.appId ?? "")?.name ?? listing.appName,
       appId: listing.appId,
+      appIconUrl: apps.get(listing.appId ?? "")?.iconUrl,
       appUrl:
         listing.listingType === "access_code" ? listing.appUrl : undefined,
       priceUsdc: listing.priceUsdc,
@@ -374,14 +393,18 @@ async function fetchPurchases(
   const listingMap = new Map(
     listings.map((l) => [l.slug, { appName: l.appName }])
   );
+  const apps = await fetchApps(transactions.map((t) => t.appId));
 
   const events: PurchaseEvent[] = transactions.map((transaction) => ({
     type: "purchase" as const,
     createdAt: transaction.createdAt,
     data: {
       listingSlug: transaction.listingSlug,
-      appName: listingMap.get(transaction.listingSlug)?.appName,
+      appName:
+        apps.get(transaction.appId)?.name ??
+        listingMap.get(transaction.listingSlug)?.appName,
       appId: transaction.appId,
+      appIconUrl: apps.get(transaction.appId)?.iconUrl,
       priceUsdc: transaction.priceUsdc,
       sellerAddress: transaction.sellerAddress,
       buyerAddress: transaction.buyerAddress,
@@ -460,6 +483,7 @@ async function backfillChronological(
           listingType: event.data.listingType,
           appName: event.data.appName,
           appId: event.data.appId,
+          appIconUrl: event.data.appIconUrl,
           appUrl: event.data.appUrl,
           priceUsdc: event.data.priceUsdc,
           sellerAddress: event.data.sellerAddress,
@@ -477,6 +501,7 @@ async function backfillChronological(
           slug: event.data.listingSlug,
           appName: event.data.appName,
           appId: event.data.appId,
+          appIconUrl: event.data.appIconUrl,
           priceUsdc: event.data.priceUsdc,
           sellerAddress: event.data.sellerAddress,
           buyerAddress: event.data.buyerAddress,
@@ -4,6 +4,9 @@
  * This handles cases where an x402 payment succeeded on-chain but the
  * API response timed out before DB writes completed.
  *
+ * For sales that can be found on-chain, prefer `pnpm reconcile:payments`,
+ * which detects and records them automatically.
+ *
  * Usage:
  *   pnpm backfill:sale
  *
@@ -38,6 +41,8 @@ const SALE_DETAILS = {
   chainId: 8453, // Base Mainnet
   // Jan-13-2026 07:18:53 AM UTC
   timestamp: new Date("2026-01-13T07:18:53.000Z"),
+  // Settlement transaction hash from Basescan (leave empty if unknown)
+  txHash: "",
 };
 // ============================================
 
@@ -71,6 +76,7 @@ async function backfillSale() {
   console.log(`Amount: ${SALE_DETAILS.priceUsdc} USDC`);
   console.log(`Chain ID: ${SALE_DETAILS.chainId}`);
   console.log(`Timestamp: ${SALE_DETAILS.timestamp.toISOString()}`);
+  console.log(`Tx Hash: ${SALE_DETAILS.txHash || "(not provided)"}`);
   console.log("");
 
   // Step 1: Verify listing exists
@@ -105,15 +111,22 @@ async function backfillSale() {
 
   // Step 3: Check if transaction already exists
   console.log("\nStep 3: Checking for existing transaction...");
+  const txHash = SALE_DETAILS.txHash.toLowerCase();
   const existingTx = await transactionsCollection.findOne({
-    listingSlug: SALE_DETAILS.listingSlug,
-    buyerAddress: buyerAddress,
-    chainId: SALE_DETAILS.chainId,
-    // Check within a 1-minute window of the timestamp
-    createdAt: {
-      $gte: new Date(SALE_DETAILS.timestamp.getTime() - 60000),
-      $lte: new Date(SALE_DETAILS.timestamp.getTime() + 60000),
-    },
+    $or: [
+      {
+        listingSlug: SALE_DETAILS.listingSlug,
+        buyerAddress: buyerAddress,
+        chainId: SALE_DETAILS.chainId,
+        // Check within a 1-minute window of the timestamp
+        createdAt: {
+          $gte: new Date(SALE_DETAILS.timestamp.getTime() - 60000),
+          $lte: new Date(SALE_DETAILS.timestamp.getTime() + 60000),
+        },
+      },
+      // A recorded settlement hash is always a duplicate
+      ...(txHash ? [{ txHash }] : []),
+    ],
   });
 
   if (existingTx) {
@@ -133,6 +146,7 @@ async function backfillSale() {
     priceUsdc: SALE_DETAILS.priceUsdc,
     appId: listing.appId || null,
     chainId: SALE_DETAILS.chainId,
+    ...(txHash ? { txHash } : {}),
     createdAt: SALE_DETAILS.timestamp,
     updatedAt: SALE_DETAILS.timestamp,
   };
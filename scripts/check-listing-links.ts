@@ -0,0 +1,115 @@
+/**
+ * Invite Link Health Check Script
+ *
+ * Re-checks the invite links of active and paused listings that haven't been checked
+ * recently (see lib/link-health.ts). Listings whose link fails several checks in a row
+ * are paused; paused listings whose link is live again go back on sale.
+ * Intended to run periodically, e.g. from cron.
+ *
+ * Run with: pnpm links:check [options]
+ *
+ * Options:
+ *   --dry-run      Probe the links without storing the results
+ *   --limit <n>    Maximum number of listings to check (default: 100)
+ *
+ * Examples:
+ *   pnpm links:check -- --dry-run
+ *   pnpm links:check -- --limit 500
+ */
+
+import dotenv from "dotenv";
+import path from "path";
+
+// Load .env.local file (not auto-loaded by dotenv/config)
+dotenv.config({ path: path.resolve(process.cwd(), ".env.local") });
+import mongoose from "mongoose";
+import { checkDueListingLinks } from "../lib/link-health";
+
+// =============================================================================
+// ARGUMENT PARSING
+// =============================================================================
+
+interface Options {
+  dryRun: boolean;
+  limit: number;
+}
+
+function parseArgs(): Options {
+  const args = process.argv.slice(2);
+  const options: Options = {
+    dryRun: false,
+    limit: 100,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case "--dry-run":
+        options.dryRun = true;
+        break;
+      case "--limit":
+        options.limit = parseInt(args[++i], 10);
+        break;
+      case "--help":
+        console.log(`
+Invite Link Health Check Script
+
+Usage: pnpm links:check [options]
+
+Options:
+  --dry-run      Probe the links without storing the results
+  --limit <n>    Maximum number of listings to check (default: 100)
+  --help         Show this help message
+        `);
+        process.exit(0);
+    }
+  }
+
+  if (!Number.isInteger(options.limit) || options.limit < 1) {
+    console.error("--limit must be a positive number");
+    process.exit(1);
+  }
+
+  return options;
+}
+
+// =============================================================================
+// MAIN
+// =============================================================================
+
+async function main() {
+  const options = parseArgs();
+
+  console.log(
+    `Checking invite links${options.dryRun ? " (DRY RUN - results will not be stored)" : ""}...\n`
+  );
+
+  const entries = await checkDueListingLinks(options);
+
+  console.log("=== Listings ===");
+  for (const entry of entries) {
+    const reason = entry.reason ? ` - ${entry.reason}` : "";
+    console.log(
+      `  [${entry.status}] ${entry.slug} (${entry.listingStatus})${reason}`
+    );
+  }
+
+  const count = (status: string) =>
+    entries.filter((entry) => entry.status === status).length;
+
+  console.log("\n=== Summary ===");
+  console.log(`  checked: ${entries.length}`);
+  console.log(`  live: ${count("live")}`);
+  console.log(`  dead: ${count("dead")}`);
+  console.log(`  unreachable: ${count("unreachable")}`);
+  console.log(
+    `  paused: ${entries.filter((entry) => entry.listingStatus === "paused").length}`
+  );
+
+  await mongoose.disconnect();
+}
+
+main().catch(async (error) => {
+  console.error("Invite link check failed:", error);
+  await mongoose.disconnect();
+  process.exit(1);
+});
@@ -0,0 +1,179 @@
+/**
+ * Migration script to encrypt Listing secrets (inviteUrl, accessCode) at rest.
+ *
+ * - Plaintext secrets are encrypted with the current key from SECRETS_ENCRYPTION_KEYS
+ *   (invite links also get their public inviteDomain for icon lookup)
+ * - Secrets wrapped by an older key are re-wrapped with the current key (key rotation),
+ *   including per-buyer codes in code pools
+ *
+ * Safe to run repeatedly; already up-to-date documents are skipped.
+ *
+ * Usage:
+ *   pnpm migrate:encrypt-secrets
+ *   pnpm migrate:encrypt-secrets -- --dry-run
+ */
+
+import { config } from "dotenv";
+import mongoose from "mongoose";
+import {
+  decryptSecret,
+  encryptSecret,
+  isEncryptedSecret,
+  needsRewrap,
+  rewrapSecret,
+} from "../lib/encryption";
+import {
+  getInviteDomain,
+  getListingSecretContext,
+  getPoolCodeContext,
+  type ListingSecretField,
+} from "../lib/listing-secrets";
+
+// Load environment variables from .env.local
+config({ path: ".env.local" });
+
+const MONGODB_URL = process.env.MONGODB_URL;
+const DRY_RUN = process.argv.includes("--dry-run");
+const SECRET_FIELDS: ListingSecretField[] = ["inviteUrl", "accessCode"];
+
+if (!MONGODB_URL) {
+  console.error("Error: MONGODB_URL not found in .env.local");
+  process.exit(1);
+}
+
+if (!process.env.SECRETS_ENCRYPTION_KEYS) {
+  console.error("Error: SECRETS_ENCRYPTION_KEYS not found in .env.local");
+  process.exit(1);
+}
+
+async function migrate() {
+  console.log(
+    `Connecting to MongoDB...${DRY_RUN ? " (DRY RUN - nothing will be written)" : ""}`
+  );
+
+  await mongoose.connect(MONGODB_URL!, {
+    dbName: "InviteMarkets",
+  });
+
+  console.log("Connected to MongoDB");
+
+  const db = mongoose.connection.db;
+
+  if (!db) {
+    console.error("Error: Could not get database connection");
+    process.exit(1);
+  }
+
+  console.log("\n--- Encrypting Listing Secrets ---");
+  const listingsCollection = db.collection("listings");
+
+  const cursor = listingsCollection.find(
+    {
+      $or: SECRET_FIELDS.map((field) => ({
+        [field]: { $exists: true, $ne: "" },
+      })),
+    },
+    { projection: { slug: 1, inviteUrl: 1, inviteDomain: 1, accessCode: 1 } }
+  );
+
+  let encrypted = 0;
+  let rewrapped = 0;
+  let unchanged = 0;
+  let failed = 0;
+
+  for await (const listing of cursor) {
+    const updates: Record<string, string> = {};
+
+    try {
+      for (const field of SECRET_FIELDS) {
+        const value = listing[field];
+        if (typeof value !== "string" || !value) continue;
+
+        const context = getListingSecretContext(listing.slug, field);
+
+        if (!isEncryptedSecret(value)) {
+          updates[field] = encryptSecret(value, context);
+          encrypted++;
+        } else if (needsRewrap(value)) {
+          updates[field] = rewrapSecret(value, context);
+          rewrapped++;
+        }
+
+        // Older documents never had the public domain stored alongside the URL
+        if (field === "inviteUrl" && !listing.inviteDomain) {
+          const inviteDomain = getInviteDomain(decryptSecret(value, context));
+          if (inviteDomain) updates.inviteDomain = inviteDomain;
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to process listing ${listing.slug}:`, error);
+      failed++;
+      continue;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      unchanged++;
+      continue;
+    }
+
+    if (!DRY_RUN) {
+      // Match on the values we read so a concurrent seller edit is never overwritten
+      await listingsCollection.updateOne(
+        {
+          _id: listing._id,
+          inviteUrl: listing.inviteUrl,
+          accessCode: listing.accessCode,
+        },
+        { $set: updates }
+      );
+    }
+  }
+
+  // Pool codes are always encrypted on upload, so they only ever need re-wrapping
+  console.log("\n--- Re-wrapping Pool Codes ---");
+  const poolCodesCollection = db.collection("poolcodes");
+  let poolCodesRewrapped = 0;
+
+  for await (const poolCode of poolCodesCollection.find(
+    {},
+    { projection: { listingSlug: 1, position: 1, code: 1 } }
+  )) {
+    try {
+      if (!needsRewrap(poolCode.code)) continue;
+
+      const code = rewrapSecret(
+        poolCode.code,
+        getPoolCodeContext(poolCode.listingSlug, poolCode.position)
+      );
+      if (!DRY_RUN) {
+        await poolCodesCollection.updateOne(
+          { _id: poolCode._id, code: poolCode.code },
+          { $set: { code } }
+        );
+      }
+      poolCodesRewrapped++;
+    } catch (error) {
+      console.error(
+        `Failed to process pool code ${poolCode.listingSlug}#${poolCode.position}:`,
+        error
+      );
+      failed++;
+    }
+  }
+
+  // Print summary
+  console.log("\n--- Migration Summary ---");
+  console.log(`Secrets encrypted: ${encrypted}`);
+  console.log(`Secrets re-wrapped with current key: ${rewrapped}`);
+  console.log(`Pool codes re-wrapped with current key: ${poolCodesRewrapped}`);
+  console.log(`Listings already up to date: ${unchanged}`);
+  console.log(`Failed: ${failed}`);
+
+  await mongoose.disconnect();
+  console.log(`\nMigration ${DRY_RUN ? "dry run " : ""}complete!`);
+}
+
+migrate().catch((error) => {
+  console.error("Migration failed:", error);
+  process.exit(1);
+});
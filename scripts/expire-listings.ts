@@ -0,0 +1,90 @@
+/**
+ * Listing Expiry Script
+ *
+ * Marks active listings whose expiresAt has passed as "expired". Expired listings
+ * are already hidden from the market and can't be purchased; this sweep makes the
+ * status explicit so sellers see them as expired and can renew them from their profile.
+ * Intended to run periodically, e.g. from cron.
+ *
+ * Run with: pnpm listings:expire [options]
+ *
+ * Options:
+ *   --dry-run    List the listings that are past their expiry without updating them
+ *
+ * Examples:
+ *   pnpm listings:expire -- --dry-run
+ */
+
+import dotenv from "dotenv";
+import path from "path";
+
+// Load .env.local file (not auto-loaded by dotenv/config)
+dotenv.config({ path: path.resolve(process.cwd(), ".env.local") });
+import mongoose from "mongoose";
+import { expireListings } from "../lib/listing";
+
+// =============================================================================
+// ARGUMENT PARSING
+// =============================================================================
+
+interface Options {
+  dryRun: boolean;
+}
+
+function parseArgs(): Options {
+  const args = process.argv.slice(2);
+  const options: Options = {
+    dryRun: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case "--dry-run":
+        options.dryRun = true;
+        break;
+      case "--help":
+        console.log(`
+Listing Expiry Script
+
+Usage: pnpm listings:expire [options]
+
+Options:
+  --dry-run    List the listings that are past their expiry without updating them
+  --help       Show this help message
+        `);
+        process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+// =============================================================================
+// MAIN
+// =============================================================================
+
+async function main() {
+  const options = parseArgs();
+
+  console.log(
+    `Expiring listings${options.dryRun ? " (DRY RUN - nothing will be updated)" : ""}...\n`
+  );
+
+  const slugs = await expireListings({ dryRun: options.dryRun });
+
+  console.log("=== Listings ===");
+  for (const slug of slugs) {
+    console.log(`  ${slug}`);
+  }
+
+  console.log("\n=== Summary ===");
+  console.log(`  ${options.dryRun ? "due" : "expired"}: ${slugs.length}`);
+
+  await mongoose.disconnect();
+}
+
+main().catch(async (error) => {
+  console.error("Listing expiry failed:", error);
+  await mongoose.disconnect();
+  process.exit(1);
+});
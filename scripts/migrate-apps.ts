@@ -0,0 +1,108 @@
+/**
+ * App Registry Migration Script
+ *
+ * Seeds the App registry from data/featuredApps.ts (and the icons in
+ * data/customAppIcons.ts), then links existing listings, transactions and buy
+ * orders to it: each record's appId becomes its app's slug, and custom apps named
+ * by sellers are added to the registry. Safe to run repeatedly; run it again after
+ * changing the seed data.
+ *
+ * Run with: pnpm migrate:apps [options]
+ *
+ * Options:
+ *   --dry-run    Report what would change without updating anything
+ *
+ * Examples:
+ *   pnpm migrate:apps -- --dry-run
+ */
+
+import dotenv from "dotenv";
+import path from "path";
+
+// Load .env.local file (not auto-loaded by dotenv/config)
+dotenv.config({ path: path.resolve(process.cwd(), ".env.local") });
+import mongoose from "mongoose";
+import { linkRecordsToApps, seedApps } from "../lib/apps";
+
+// =============================================================================
+// ARGUMENT PARSING
+// =============================================================================
+
+interface Options {
+  dryRun: boolean;
+}
+
+function parseArgs(): Options {
+  const args = process.argv.slice(2);
+  const options: Options = {
+    dryRun: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case "--dry-run":
+        options.dryRun = true;
+        break;
+      case "--help":
+        console.log(`
+App Registry Migration Script
+
+Usage: pnpm migrate:apps [options]
+
+Options:
+  --dry-run    Report what would change without updating anything
+  --help       Show this help message
+        `);
+        process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+// =============================================================================
+// MAIN
+// =============================================================================
+
+async function main() {
+  const options = parseArgs();
+
+  console.log(
+    `Migrating apps${options.dryRun ? " (DRY RUN - nothing will be updated)" : ""}...\n`
+  );
+
+  const seeded = await seedApps({ dryRun: options.dryRun });
+  const report = await linkRecordsToApps({ dryRun: options.dryRun });
+
+  if (report.createdApps.length > 0) {
+    console.log("=== New custom apps ===");
+    for (const name of report.createdApps) {
+      console.log(`  ${name}`);
+    }
+    console.log();
+  }
+
+  if (report.unmatchedOffers.length > 0) {
+    console.log("=== Buy orders for unknown apps (left unchanged) ===");
+    for (const appId of report.unmatchedOffers) {
+      console.log(`  ${appId}`);
+    }
+    console.log();
+  }
+
+  console.log("=== Summary ===");
+  console.log(`  featured apps seeded: ${seeded.featured}`);
+  console.log(`  custom app icons updated: ${seeded.icons}`);
+  console.log(`  custom apps created: ${report.createdApps.length}`);
+  console.log(`  listings linked: ${report.listings}`);
+  console.log(`  transactions linked: ${report.transactions}`);
+  console.log(`  buy orders linked: ${report.offers}`);
+
+  await mongoose.disconnect();
+}
+
+main().catch(async (error) => {
+  console.error("App migration failed:", error);
+  await mongoose.disconnect();
+  process.exit(1);
+});
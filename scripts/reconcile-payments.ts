@@ -0,0 +1,145 @@
+/**
+ * Payment Reconciliation Script
+ *
+ * Finds x402 payments that settled on-chain but were never recorded (e.g. the
+ * purchase route timed out before the DB writes) and creates the missing
+ * Transaction records. Replaces hand-editing scripts/backfill-sale.ts.
+ *
+ * Run with: pnpm reconcile:payments [options]
+ *
+ * Options:
+ *   --dry-run            Report what would be created without writing anything
+ *   --from-block <n>     First block to scan
+ *   --to-block <n>       Last block to scan (default: latest)
+ *   --blocks <n>         Blocks to scan back from --to-block (default: 43200, ~1 day)
+ *   --rpc <url>          RPC URL (default: RECONCILE_RPC_URL or the public Base RPC)
+ *   --token <address>    USDC contract override (for local anvil-style chains)
+ *   --min-age <seconds>  Skip transfers younger than this (default: 600)
+ *   --verbose            Print every transfer, not only the ones needing attention
+ *
+ * Examples:
+ *   pnpm reconcile:payments -- --dry-run
+ *   pnpm reconcile:payments -- --from-block 24500000 --to-block 24510000
+ *   pnpm reconcile:payments -- --rpc http://127.0.0.1:8545 --token 0x5FbDB2315678afecb367f032d93F642f64180aa3 --min-age 0
+ */
+
+import dotenv from "dotenv";
+import path from "path";
+
+// Load .env.local file (not auto-loaded by dotenv/config)
+dotenv.config({ path: path.resolve(process.cwd(), ".env.local") });
+import mongoose from "mongoose";
+import { reconcilePayments, type ReconcileOptions } from "../lib/reconcile";
+
+// =============================================================================
+// ARGUMENT PARSING
+// =============================================================================
+
+interface Options extends ReconcileOptions {
+  verbose: boolean;
+}
+
+function parseArgs(): Options {
+  const args = process.argv.slice(2);
+  const options: Options = {
+    dryRun: false,
+    verbose: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case "--dry-run":
+        options.dryRun = true;
+        break;
+      case "--from-block":
+        options.fromBlock = BigInt(args[++i]);
+        break;
+      case "--to-block":
+        options.toBlock = BigInt(args[++i]);
+        break;
+      case "--blocks":
+        options.lookbackBlocks = BigInt(args[++i]);
+        break;
+      case "--rpc":
+        options.rpcUrl = args[++i];
+        break;
+      case "--token":
+        options.tokenAddress = args[++i] as `0x${string}`;
+        break;
+      case "--min-age":
+        options.minAgeSeconds = parseInt(args[++i], 10);
+        break;
+      case "--verbose":
+        options.verbose = true;
+        break;
+      case "--help":
+        console.log(`
+Payment Reconciliation Script
+
+Usage: pnpm reconcile:payments [options]
+
+Options:
+  --dry-run            Report what would be created without writing anything
+  --from-block <n>     First block to scan
+  --to-block <n>       Last block to scan (default: latest)
+  --blocks <n>         Blocks to scan back from --to-block (default: 43200, ~1 day)
+  --rpc <url>          RPC URL (default: RECONCILE_RPC_URL or the public Base RPC)
+  --token <address>    USDC contract override (for local anvil-style chains)
+  --min-age <seconds>  Skip transfers younger than this (default: 600)
+  --verbose            Print every transfer, not only the ones needing attention
+  --help               Show this help message
+        `);
+        process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+// =============================================================================
+// MAIN
+// =============================================================================
+
+async function main() {
+  const options = parseArgs();
+
+  console.log(
+    `Reconciling payments${options.dryRun ? " (DRY RUN - nothing will be written)" : ""}...\n`
+  );
+
+  const report = await reconcilePayments(options);
+
+  console.log("=== Scan ===");
+  console.log(`Chain ID: ${report.chainId}`);
+  console.log(`Blocks: ${report.fromBlock} → ${report.toBlock}`);
+  console.log(`Sellers: ${report.sellersScanned}`);
+  console.log(`Transfers: ${report.transfersScanned}`);
+
+  console.log("\n=== Transfers ===");
+  for (const entry of report.entries) {
+    const needsAttention = !["recorded", "payout", "pending"].includes(entry.outcome);
+    if (!options.verbose && !needsAttention) continue;
+
+    const target = entry.listingSlug
+      ? ` → ${entry.listingSlug}`
+      : entry.candidateSlugs
+        ? ` → one of ${entry.candidateSlugs.join(", ")}`
+        : "";
+    console.log(
+      `  [${entry.outcome}] ${entry.txHash} ${entry.amountUsdc} USDC ${entry.from} → ${entry.to}${target}`
+    );
+  }
+
+  console.log("\n=== Summary ===");
+  for (const [outcome, count] of Object.entries(report.summary)) {
+    console.log(`  ${outcome}: ${count}`);
+  }
+
+  await mongoose.disconnect();
+}
+
+main().catch(async (error) => {
+  console.error("Reconciliation failed:", error);
+  await mongoose.disconnect();
+  process.exit(1);
+});
@@ -0,0 +1,113 @@
+/**
+ * Escrow Release Script
+ *
+ * Pays sellers for escrowed purchases whose confirmation window has passed
+ * (ESCROW_RELEASE_HOURS after purchase) and that have no open dispute.
+ * Intended to run periodically, e.g. from cron.
+ *
+ * Run with: pnpm escrow:release [options]
+ *
+ * Options:
+ *   --dry-run            List the purchases that are due without paying out
+ *   --rpc <url>          RPC URL (default: ESCROW_RPC_URL or the public Base RPC)
+ *   --token <address>    USDC contract override (for local anvil-style chains)
+ *
+ * Examples:
+ *   pnpm escrow:release -- --dry-run
+ *   pnpm escrow:release -- --rpc http://127.0.0.1:8545 --token 0x5FbDB2315678afecb367f032d93F642f64180aa3
+ */
+
+import dotenv from "dotenv";
+import path from "path";
+
+// Load .env.local file (not auto-loaded by dotenv/config)
+dotenv.config({ path: path.resolve(process.cwd(), ".env.local") });
+import mongoose from "mongoose";
+import { releaseDueEscrows, type EscrowPayoutOptions } from "../lib/escrow";
+
+// =============================================================================
+// ARGUMENT PARSING
+// =============================================================================
+
+interface Options extends EscrowPayoutOptions {
+  dryRun: boolean;
+}
+
+function parseArgs(): Options {
+  const args = process.argv.slice(2);
+  const options: Options = {
+    dryRun: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case "--dry-run":
+        options.dryRun = true;
+        break;
+      case "--rpc":
+        options.rpcUrl = args[++i];
+        break;
+      case "--token":
+        options.tokenAddress = args[++i] as `0x${string}`;
+        break;
+      case "--help":
+        console.log(`
+Escrow Release Script
+
+Usage: pnpm escrow:release [options]
+
+Options:
+  --dry-run            List the purchases that are due without paying out
+  --rpc <url>          RPC URL (default: ESCROW_RPC_URL or the public Base RPC)
+  --token <address>    USDC contract override (for local anvil-style chains)
+  --help               Show this help message
+        `);
+        process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+// =============================================================================
+// MAIN
+// =============================================================================
+
+async function main() {
+  const options = parseArgs();
+
+  console.log(
+    `Releasing due escrows${options.dryRun ? " (DRY RUN - nothing will be paid out)" : ""}...\n`
+  );
+
+  const report = await releaseDueEscrows(options);
+
+  console.log("=== Purchases ===");
+  for (const entry of report.entries) {
+    const detail = entry.txHash
+      ? ` (${entry.txHash})`
+      : entry.error
+        ? ` - ${entry.error}`
+        : "";
+    console.log(
+      `  [${entry.outcome}] ${entry.transactionId} ${entry.listingSlug} ${entry.priceUsdc} USDC → ${entry.sellerAddress}${detail}`
+    );
+  }
+
+  console.log("\n=== Summary ===");
+  console.log(`  due: ${report.due}`);
+  console.log(`  released: ${report.released}`);
+  console.log(`  failed: ${report.failed}`);
+
+  await mongoose.disconnect();
+
+  if (report.failed > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch(async (error) => {
+  console.error("Escrow release failed:", error);
+  await mongoose.disconnect();
+  process.exit(1);
+});